@@ -25,6 +25,7 @@ import RateVerificationPage from "@/pages/rate-verification-page";
 import AdminDashboard from "@/pages/admin-dashboard";
 import StorytellerPage from "@/pages/storyteller-page";
 import ConversionWizardPage from "@/pages/conversion-wizard-page";
+import PayRequestPage from "@/pages/pay-request-page";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { usePreferredLayout } from "@/hooks/use-mobile";
@@ -52,6 +53,7 @@ function Router() {
       <ProtectedRoute path="/rate-verification" component={() => <RateVerificationPage />} />
       <ProtectedRoute path="/storyteller" component={() => <StorytellerPage />} />
       <ProtectedRoute path="/conversion-wizard" component={() => <ConversionWizardPage />} />
+      <ProtectedRoute path="/pay/:token" component={() => <PayRequestPage />} />
       <ProtectedRoute path="/admin" component={() => <AdminDashboard />} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
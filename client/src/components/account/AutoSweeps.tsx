@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { LoyaltyProgram, SweepRun, SweepSchedule, Wallet } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import ProgramIcon from '../loyaltyprograms/ProgramIcon';
+import { AlertCircle, Loader2, Pause, Play } from 'lucide-react';
+
+// Presets for the cron expressions the API takes, evaluated in UTC
+const SCHEDULE_PRESETS = [
+  { label: 'Every Monday', value: '0 9 * * 1' },
+  { label: 'First of the month', value: '0 9 1 * *' },
+  { label: 'Every day', value: '0 9 * * *' },
+];
+
+function describeSchedule(schedule: string): string {
+  return SCHEDULE_PRESETS.find(preset => preset.value === schedule)?.label ?? schedule;
+}
+
+function SweepRunHistory({ scheduleId }: { scheduleId: number }) {
+  const { data: runs, isLoading } = useQuery<SweepRun[]>({
+    queryKey: [`/api/sweeps/${scheduleId}/runs`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (!runs || runs.length === 0) {
+    return <p className="text-xs text-gray-400">No runs yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {runs.slice(0, 5).map(run => (
+        <li key={run.id} className="flex justify-between text-xs text-gray-600">
+          <span>{new Date(run.createdAt).toLocaleString()}</span>
+          <span>
+            {run.status === 'succeeded' && `Swept ${formatPoints(run.amount ?? 0)} points`}
+            {run.status === 'skipped' && 'Nothing above threshold'}
+            {run.status === 'failed' && <span className="text-red-600">Failed (attempt {run.attempt}): {run.error}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function AutoSweeps() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [fromProgram, setFromProgram] = useState<LoyaltyProgram | ''>('');
+  const [schedule, setSchedule] = useState(SCHEDULE_PRESETS[0].value);
+  const [keepBalance, setKeepBalance] = useState('0');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: wallets } = useQuery<Wallet[]>({
+    queryKey: ['/api/wallets'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  const { data: sweeps, isLoading } = useQuery<SweepSchedule[]>({
+    queryKey: ['/api/sweeps'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sweeps", {
+        fromProgram,
+        toProgram: "XPOINTS",
+        schedule,
+        keepBalance: Number(keepBalance) || 0,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Sweep scheduled",
+        description: "Points above your threshold will be converted to xPoints on schedule",
+      });
+      setFromProgram('');
+      queryClient.invalidateQueries({ queryKey: ['/api/sweeps'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to schedule sweep",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (sweep: SweepSchedule) => {
+      const action = sweep.status === 'active' ? 'pause' : 'resume';
+      const res = await apiRequest("POST", `/api/sweeps/${sweep.id}/${action}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sweeps'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update sweep",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sourceWallets = wallets?.filter(wallet => wallet.program !== 'XPOINTS') || [];
+
+  return (
+    <div>
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : !sweeps || sweeps.length === 0 ? (
+        <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-500">No automatic sweeps set up yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sweeps.map(sweep => (
+            <div key={sweep.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center">
+                  <ProgramIcon program={sweep.fromProgram} className="w-8 h-8" />
+                  <div className="ml-3">
+                    <div className="text-sm font-medium text-gray-900">
+                      {sweep.fromProgram} → {sweep.toProgram}, above {formatPoints(sweep.keepBalance, sweep.fromProgram)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {describeSchedule(sweep.schedule)}
+                      {sweep.nextRunAt && ` · next ${new Date(sweep.nextRunAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={sweep.status === 'active' ? 'default' : 'secondary'}>{sweep.status}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleMutation.mutate(sweep)}
+                    disabled={toggleMutation.isPending}
+                  >
+                    {sweep.status === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+
+              {sweep.lastError && (
+                <div className="mt-2 flex items-center text-xs text-red-600">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  {sweep.failureCount > 0
+                    ? `Last attempt failed: ${sweep.lastError}. Retrying automatically.`
+                    : `Last run failed: ${sweep.lastError}`}
+                </div>
+              )}
+
+              <button
+                className="mt-2 text-xs text-primary"
+                onClick={() => setExpandedId(expandedId === sweep.id ? null : sweep.id)}
+              >
+                {expandedId === sweep.id ? 'Hide history' : 'Show history'}
+              </button>
+              {expandedId === sweep.id && (
+                <div className="mt-2">
+                  <SweepRunHistory scheduleId={sweep.id} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 space-y-3">
+        <h3 className="text-sm font-medium text-gray-700">Sweep a Program into xPoints</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select value={fromProgram} onValueChange={value => setFromProgram(value as LoyaltyProgram)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Program" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceWallets.map(wallet => (
+                <SelectItem key={wallet.id} value={wallet.program}>{wallet.program}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={schedule} onValueChange={setSchedule}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEDULE_PRESETS.map(preset => (
+                <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="number"
+            min="0"
+            value={keepBalance}
+            onChange={e => setKeepBalance(e.target.value)}
+            placeholder="Keep this many points"
+          />
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={!fromProgram || createMutation.isPending}
+        >
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Schedule Sweep
+        </Button>
+      </div>
+    </div>
+  );
+}
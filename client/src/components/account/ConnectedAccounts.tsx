@@ -1,14 +1,152 @@
-import React from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getQueryFn } from '@/lib/queryClient';
-import { Wallet } from '@shared/schema';
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { AccountStatus, AccountVerification, VerificationMethod, Wallet } from '@shared/schema';
 import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import ProgramIcon from '../loyaltyprograms/ProgramIcon';
-import { Pencil, Trash, ShoppingCart, Plane, Tag, MoreHorizontal } from 'lucide-react';
+import { RefreshCw, ShieldCheck, Trash, ShoppingCart, Plane, Tag, MoreHorizontal } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
 
+interface VerificationStatus {
+  wallet: Wallet;
+  pending: Pick<AccountVerification, "id" | "method" | "attempts" | "expiresAt"> | null;
+}
+
+const statusBadges: Record<AccountStatus, { label: string; className: string }> = {
+  verified: { label: "Verified", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  unverified: { label: "Unverified", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  revoked: { label: "Revoked", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+};
+
+// Sends a challenge for a linked account and confirms it with the code or transfer amounts
+function VerifyAccount({ program }: { program: Wallet['program'] }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [amounts, setAmounts] = useState(['', '']);
+  const statusKey = [`/api/link-account/${program}/verification`];
+
+  const { data: status, isLoading } = useQuery<VerificationStatus>({
+    queryKey: statusKey,
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (method: VerificationMethod) => {
+      const res = await apiRequest("POST", `/api/link-account/${program}/verification`, { method });
+      return res.json();
+    },
+    onSuccess: (data: VerificationStatus) => {
+      setCode('');
+      setAmounts(['', '']);
+      queryClient.setQueryData(statusKey, data);
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send verification",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const body = status?.pending?.method === 'code'
+        ? { code }
+        : { amounts: amounts.map(amount => parseInt(amount, 10)) };
+      const res = await apiRequest("POST", `/api/link-account/${program}/verification/confirm`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account verified",
+        description: "You can now convert points to this account",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      // Attempts left, or a challenge that is no longer pending
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  const pending = status?.pending;
+
+  return (
+    <div className="space-y-2">
+      {pending && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            confirmMutation.mutate();
+          }}
+        >
+          {pending.method === 'code' ? (
+            <Input
+              placeholder="6-digit code"
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="h-8 w-32"
+            />
+          ) : (
+            amounts.map((amount, i) => (
+              <Input
+                key={i}
+                placeholder={`Amount ${i + 1}`}
+                inputMode="numeric"
+                value={amount}
+                onChange={(e) => setAmounts(amounts.map((a, j) => (j === i ? e.target.value : a)))}
+                className="h-8 w-24"
+              />
+            ))
+          )}
+          <Button type="submit" size="sm" disabled={confirmMutation.isPending}>
+            {confirmMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Confirm'}
+          </Button>
+        </form>
+      )}
+      <div className="flex items-center gap-3 text-xs">
+        <button
+          className="text-primary hover:underline disabled:opacity-50"
+          disabled={startMutation.isPending}
+          onClick={() => startMutation.mutate('code')}
+        >
+          {pending?.method === 'code' ? 'Resend code' : 'Send a code'}
+        </button>
+        <button
+          className="text-primary hover:underline disabled:opacity-50"
+          disabled={startMutation.isPending}
+          onClick={() => startMutation.mutate('micro_transfer')}
+        >
+          {pending?.method === 'micro_transfer' ? 'Resend transfers' : 'Use small transfers'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default function ConnectedAccounts() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [verifying, setVerifying] = useState<Wallet['program'] | null>(null);
   
   const { data: wallets, isLoading } = useQuery<Wallet[]>({
     queryKey: ['/api/wallets'],
@@ -16,6 +154,27 @@ export default function ConnectedAccounts() {
     enabled: !!user,
   });
   
+  // The wallet and its points stay, only the account details are removed
+  const unlinkMutation = useMutation({
+    mutationFn: async (program: Wallet['program']) => {
+      const res = await apiRequest("DELETE", `/api/link-account/${program}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account unlinked",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to unlink account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Get only connected wallets (with account numbers)
   const connectedWallets = wallets?.filter(wallet => 
     wallet.accountNumber && wallet.program !== 'XPOINTS'
@@ -42,8 +201,11 @@ export default function ConnectedAccounts() {
                 <div className="flex items-center">
                   <ProgramIcon program={wallet.program} className="w-10 h-10" />
                   <div className="ml-3">
-                    <div className="text-sm font-medium text-gray-900">
-                      {wallet.program === 'QANTAS' ? 'Qantas Frequent Flyer' : 'Guzman y Gomez Loyalty'}
+                    <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                      {wallet.program === 'QANTAS' ? 'Qantas Frequent Flyer' : wallet.program === 'GYG' ? 'Guzman y Gomez Loyalty' : wallet.program}
+                      <Badge className={statusBadges[wallet.accountStatus].className}>
+                        {statusBadges[wallet.accountStatus].label}
+                      </Badge>
                     </div>
                     <div className="text-xs text-gray-500">
                       {/* Display partially masked account number */}
@@ -55,14 +217,42 @@ export default function ConnectedAccounts() {
                   </div>
                 </div>
                 <div className="flex space-x-2">
-                  <button className="text-gray-400 hover:text-gray-500">
-                    <Pencil className="h-4 w-4" />
-                  </button>
-                  <button className="text-gray-400 hover:text-red-500">
+                  {wallet.accountStatus !== 'verified' && (
+                    <button
+                      className="text-gray-400 hover:text-gray-500"
+                      title={wallet.accountStatus === 'revoked' ? 'Re-verify account' : 'Verify account'}
+                      onClick={() => setVerifying(verifying === wallet.program ? null : wallet.program)}
+                    >
+                      {wallet.accountStatus === 'revoked' ? <RefreshCw className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+                    </button>
+                  )}
+                  <button
+                    className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    title="Unlink account"
+                    disabled={unlinkMutation.isPending}
+                    onClick={() => {
+                      if (window.confirm('Unlink this account? Your points stay in the wallet.')) {
+                        unlinkMutation.mutate(wallet.program);
+                      }
+                    }}
+                  >
                     <Trash className="h-4 w-4" />
                   </button>
                 </div>
               </div>
+              {wallet.accountStatus !== 'verified' && (
+                <div className="mt-3 border-t border-gray-100 pt-3">
+                  {verifying === wallet.program ? (
+                    <VerifyAccount program={wallet.program} />
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {wallet.accountStatus === 'revoked'
+                        ? 'This account was unverified - verify it again to convert points to it.'
+                        : 'Verify this account before converting points to it.'}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
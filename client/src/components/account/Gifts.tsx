@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { LoyaltyProgram, PointGift, PointRequest, Wallet } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import ProgramIcon from '../loyaltyprograms/ProgramIcon';
+import { Copy, Loader2 } from 'lucide-react';
+
+type GiftWithNames = PointGift & { senderName: string; recipientName: string | null };
+type SentGift = PointGift & { claimCode: string | null };
+
+function requestLink(request: PointRequest): string {
+  return `${window.location.origin}/pay/${request.token}`;
+}
+
+export default function Gifts() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [recipient, setRecipient] = useState('');
+  const [program, setProgram] = useState<LoyaltyProgram | ''>('');
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [requestProgram, setRequestProgram] = useState<LoyaltyProgram | ''>('');
+  const [requestAmount, setRequestAmount] = useState('');
+  // Claim code for the last gift sent by email - the server only hands it out once
+  const [sentClaim, setSentClaim] = useState<{ email: string; code: string } | null>(null);
+  // Codes typed in for gifts waiting on the user's email, by gift id
+  const [claimCodes, setClaimCodes] = useState<Record<number, string>>({});
+
+  const { data: wallets } = useQuery<Wallet[]>({
+    queryKey: ['/api/wallets'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  const { data: gifts, isLoading } = useQuery<GiftWithNames[]>({
+    queryKey: ['/api/gifts'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  const { data: requests } = useQuery<PointRequest[]>({
+    queryKey: ['/api/point-requests'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  // Gifts move wallet balances and show up in the transaction history
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/gifts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/gifts", {
+        recipient,
+        program,
+        amount: Number(amount),
+        message: message || undefined,
+      });
+      return res.json() as Promise<SentGift>;
+    },
+    onSuccess: (gift) => {
+      if (gift.claimCode) {
+        navigator.clipboard?.writeText(gift.claimCode);
+        setSentClaim({ email: gift.recipientEmail!, code: gift.claimCode });
+      }
+      toast({
+        title: gift.status === 'pending' ? "Gift on its way" : "Gift sent",
+        description: gift.claimCode
+          ? `The claim code has been copied - send it to ${gift.recipientEmail} so they can accept the points`
+          : `Sent ${formatPoints(gift.amount, gift.program)} ${gift.program} points`,
+      });
+      setRecipient('');
+      setAmount('');
+      setMessage('');
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send gift",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ gift, action }: { gift: PointGift; action: 'accept' | 'decline' | 'cancel' }) => {
+      const body = action === 'cancel' ? undefined : { claimCode: claimCodes[gift.id] };
+      const res = await apiRequest("POST", `/api/gifts/${gift.id}/${action}`, body);
+      return res.json();
+    },
+    onSuccess: (_result, { gift }) => {
+      setClaimCodes(({ [gift.id]: _code, ...rest }) => rest);
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update gift",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/point-requests", {
+        program: requestProgram,
+        amount: Number(requestAmount),
+      });
+      return res.json() as Promise<PointRequest>;
+    },
+    onSuccess: (request) => {
+      navigator.clipboard?.writeText(requestLink(request));
+      toast({
+        title: "Request created",
+        description: "The link has been copied - share it with whoever you'd like to pay it",
+      });
+      setRequestAmount('');
+      queryClient.invalidateQueries({ queryKey: ['/api/point-requests'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelRequestMutation = useMutation({
+    mutationFn: async (request: PointRequest) => {
+      const res = await apiRequest("POST", `/api/point-requests/${request.id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/point-requests'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = (request: PointRequest) => {
+    navigator.clipboard?.writeText(requestLink(request));
+    toast({ title: "Link copied" });
+  };
+
+  const programs = wallets?.map(wallet => wallet.program) || [];
+  const openRequests = requests?.filter(request => request.status === 'open') || [];
+
+  return (
+    <div>
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : !gifts || gifts.length === 0 ? (
+        <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-500">No gifts sent or received yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {gifts.map(gift => {
+            const sent = gift.senderId === user?.id;
+            const counterparty = sent ? gift.recipientName ?? gift.recipientEmail : gift.senderName;
+
+            return (
+              <div key={gift.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center">
+                    <ProgramIcon program={gift.program} className="w-8 h-8" />
+                    <div className="ml-3">
+                      <div className="text-sm font-medium text-gray-900">
+                        {sent ? 'To' : 'From'} {counterparty}: {formatPoints(gift.amount, gift.program)} {gift.program}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(gift.createdAt).toLocaleString()}
+                        {gift.message && ` · "${gift.message}"`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={gift.status === 'delivered' ? 'default' : 'secondary'}>{gift.status}</Badge>
+                    {gift.status === 'pending' && !sent && (
+                      <>
+                        <Input
+                          value={claimCodes[gift.id] ?? ''}
+                          onChange={e => setClaimCodes(codes => ({ ...codes, [gift.id]: e.target.value }))}
+                          placeholder="Claim code"
+                          className="h-8 w-32"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => respondMutation.mutate({ gift, action: 'accept' })}
+                          disabled={!claimCodes[gift.id] || respondMutation.isPending}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => respondMutation.mutate({ gift, action: 'decline' })}
+                          disabled={!claimCodes[gift.id] || respondMutation.isPending}
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {gift.status === 'pending' && sent && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => respondMutation.mutate({ gift, action: 'cancel' })}
+                        disabled={respondMutation.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-6 space-y-3">
+        <h3 className="text-sm font-medium text-gray-700">Send Points</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            value={recipient}
+            onChange={e => setRecipient(e.target.value)}
+            placeholder="Username or email"
+          />
+
+          <Select value={program} onValueChange={value => setProgram(value as LoyaltyProgram)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Program" />
+            </SelectTrigger>
+            <SelectContent>
+              {programs.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="number"
+            min="0"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            placeholder="Points"
+          />
+        </div>
+        <Input
+          value={message}
+          maxLength={280}
+          onChange={e => setMessage(e.target.value)}
+          placeholder="Add a message (optional)"
+        />
+        <Button
+          onClick={() => sendMutation.mutate()}
+          disabled={!recipient || !program || !Number(amount) || sendMutation.isPending}
+        >
+          {sendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send Gift
+        </Button>
+        {sentClaim && (
+          <div className="flex justify-between items-center text-sm text-gray-600 border border-dashed border-gray-200 rounded-lg p-3">
+            <span>
+              Claim code for {sentClaim.email}: <span className="font-mono">{sentClaim.code}</span>
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => navigator.clipboard?.writeText(sentClaim.code)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 space-y-3">
+        <h3 className="text-sm font-medium text-gray-700">Request Points</h3>
+        {openRequests.map(request => (
+          <div key={request.id} className="flex justify-between items-center text-sm text-gray-600">
+            <span>
+              {formatPoints(request.amount, request.program)} {request.program} · expires {new Date(request.expiresAt).toLocaleDateString()}
+            </span>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => copyLink(request)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => cancelRequestMutation.mutate(request)}
+                disabled={cancelRequestMutation.isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ))}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select value={requestProgram} onValueChange={value => setRequestProgram(value as LoyaltyProgram)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Program" />
+            </SelectTrigger>
+            <SelectContent>
+              {programs.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="number"
+            min="0"
+            value={requestAmount}
+            onChange={e => setRequestAmount(e.target.value)}
+            placeholder="Points"
+          />
+
+          <Button
+            variant="outline"
+            onClick={() => requestMutation.mutate()}
+            disabled={!requestProgram || !Number(requestAmount) || requestMutation.isPending}
+          >
+            {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Link
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,25 +15,17 @@ import { Loader2 } from 'lucide-react';
 export default function LinkAccountForm() {
   const { toast } = useToast();
   
-  // Extended schema with specific validation requirements
-  const formSchema = linkAccountSchema.extend({
-    accountNumber: z.string().min(4, {
-      message: "Account number must be at least 4 characters",
-    }),
-    accountName: z.string().min(2, {
-      message: "Account name must be at least 2 characters",
-    }),
-  });
-  
-  type FormValues = z.infer<typeof formSchema>;
+  // The shared schema checks the member number format for each program
+  type FormValues = z.input<typeof linkAccountSchema>;
   
   // Form initialization
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(linkAccountSchema),
     defaultValues: {
       program: "QANTAS",
       accountNumber: "",
       accountName: "",
+      verificationMethod: "code",
     },
   });
   
@@ -43,10 +35,14 @@ export default function LinkAccountForm() {
       const res = await apiRequest("POST", "/api/link-account", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (status: { pending: { method: string } | null }) => {
       toast({
         title: "Account linked",
-        description: "Your loyalty account has been successfully linked",
+        description: !status.pending
+          ? "Your account details have been updated"
+          : status.pending.method === "code"
+            ? "We've sent you a verification code through your program or your notifications - enter it under Connected Programs"
+            : "Two small transfers are on their way - confirm the amounts under Connected Programs",
       });
       // Reset form
       form.reset();
@@ -132,6 +128,31 @@ export default function LinkAccountForm() {
             )}
           />
           
+          <FormField
+            control={form.control}
+            name="verificationMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Verify With</FormLabel>
+                <Select 
+                  onValueChange={field.onChange} 
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a verification method" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="code">One-time code</SelectItem>
+                    <SelectItem value="micro_transfer">Two small transfers</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
           <div className="flex justify-end">
             <Button type="submit" disabled={linkMutation.isPending}>
               {linkMutation.isPending ? (
@@ -0,0 +1,58 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { Statement } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { FileText, Loader2 } from 'lucide-react';
+
+type StatementSummary = Omit<Statement, 'content'>;
+
+function periodLabel(statement: StatementSummary): string {
+  return new Date(statement.periodStart).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+export default function Statements() {
+  const { user } = useAuth();
+
+  const { data: statements, isLoading } = useQuery<StatementSummary[]>({
+    queryKey: ['/api/statements'],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!statements || statements.length === 0) {
+    return (
+      <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+        <p className="text-sm text-gray-500">Your first statement will appear after the end of the month.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {statements.map(statement => (
+        <li key={statement.id} className="flex items-center justify-between py-3">
+          <div className="flex items-center">
+            <FileText className="h-5 w-5 text-gray-400" />
+            <div className="ml-3">
+              <div className="text-sm font-medium text-gray-900">{periodLabel(statement)}</div>
+              <div className="text-xs text-gray-500">Issued {new Date(statement.createdAt).toLocaleDateString()}</div>
+            </div>
+          </div>
+          <div className="flex space-x-3 text-sm">
+            <a href={`/api/statements/${statement.id}/download?format=pdf`} className="text-primary hover:underline">PDF</a>
+            <a href={`/api/statements/${statement.id}/download?format=csv`} className="text-primary hover:underline">CSV</a>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
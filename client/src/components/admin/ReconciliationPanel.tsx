@@ -0,0 +1,167 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { ReconciliationDiscrepancy, ReconciliationRun } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useToast } from '@/hooks/use-toast';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react';
+
+interface ReconciliationReport {
+  run: ReconciliationRun | null;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+const KIND_LABELS: Record<string, string> = {
+  wallet_balance: 'Wallet balance',
+  token_balance: 'Token balance',
+  unposted_record: 'Unposted record',
+  record_mismatch: 'Record mismatch',
+};
+
+// Only balance discrepancies have a correction to apply - the rest are for investigation
+function isCorrectable(discrepancy: ReconciliationDiscrepancy): boolean {
+  return discrepancy.kind === 'wallet_balance' || discrepancy.kind === 'token_balance';
+}
+
+export default function ReconciliationPanel() {
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<ReconciliationReport>({
+    queryKey: ['/api/admin/reconciliation'],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/reconciliation/run");
+      return res.json();
+    },
+    onSuccess: (data: ReconciliationReport) => {
+      queryClient.setQueryData(['/api/admin/reconciliation'], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reconciliation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'approve' | 'dismiss' }) => {
+      const res = await apiRequest("POST", `/api/admin/reconciliation/discrepancies/${id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === 'approve' ? "Correction applied" : "Discrepancy dismissed",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reconciliation'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to review discrepancy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <RefreshCw className="animate-spin h-8 w-8 text-gray-500" />
+      </div>
+    );
+  }
+
+  const run = report?.run;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="text-sm text-gray-600">
+          {run ? (
+            <>
+              Last run {new Date(run.startedAt).toLocaleString()} · <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'}>{run.status}</Badge>
+              {run.status === 'completed' && ` · ${run.walletsChecked} wallets and ${run.recordsChecked} records checked`}
+              {run.error && <span className="text-red-600"> · {run.error}</span>}
+            </>
+          ) : (
+            'Reconciliation has not run yet.'
+          )}
+        </div>
+        <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+          {runMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Run Now
+        </Button>
+      </div>
+
+      {run && report.discrepancies.length === 0 ? (
+        <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-500">Every balance matches the ledger.</p>
+        </div>
+      ) : run && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Program</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead>Actual</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.discrepancies.map(discrepancy => (
+              <TableRow key={discrepancy.id}>
+                <TableCell>{discrepancy.userId}</TableCell>
+                <TableCell>{KIND_LABELS[discrepancy.kind] ?? discrepancy.kind}</TableCell>
+                <TableCell>{discrepancy.program ?? '-'}</TableCell>
+                <TableCell>{discrepancy.expected !== null ? formatPoints(discrepancy.expected) : '-'}</TableCell>
+                <TableCell>{discrepancy.actual !== null ? formatPoints(discrepancy.actual) : '-'}</TableCell>
+                <TableCell className="max-w-md text-xs text-gray-600">{discrepancy.details}</TableCell>
+                <TableCell>
+                  <Badge variant={discrepancy.status === 'open' ? 'default' : 'secondary'}>{discrepancy.status}</Badge>
+                </TableCell>
+                <TableCell>
+                  {discrepancy.status === 'open' && (
+                    <div className="flex space-x-1">
+                      {isCorrectable(discrepancy) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ id: discrepancy.id, action: 'approve' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Correct
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: discrepancy.id, action: 'dismiss' })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
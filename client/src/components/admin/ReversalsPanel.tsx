@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { TransactionReversal } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Loader2, RefreshCw, Undo2, XCircle } from 'lucide-react';
+
+export default function ReversalsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [transactionId, setTransactionId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: reversals = [], isLoading } = useQuery<TransactionReversal[]>({
+    queryKey: ['/api/admin/reversals'],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/transactions/${transactionId}/reversals`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Refund requested",
+        description: "Another admin has to approve it before the points move.",
+      });
+      setTransactionId('');
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reversals'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to request refund",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'approve' | 'reject' }) => {
+      const res = await apiRequest("POST", `/api/admin/reversals/${id}/${action}`, {});
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === 'approve' ? "Refund posted" : "Refund rejected",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reversals'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to review refund",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <RefreshCw className="animate-spin h-8 w-8 text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="flex items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          requestMutation.mutate();
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="reversal-transaction">Transaction ID</Label>
+          <Input
+            id="reversal-transaction"
+            type="number"
+            min={1}
+            value={transactionId}
+            onChange={(e) => setTransactionId(e.target.value)}
+            className="w-32"
+          />
+        </div>
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="reversal-reason">Reason</Label>
+          <Input
+            id="reversal-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Converted to the wrong program"
+          />
+        </div>
+        <Button type="submit" disabled={!transactionId || !reason.trim() || requestMutation.isPending}>
+          {requestMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+          Request Refund
+        </Button>
+      </form>
+
+      {reversals.length === 0 ? (
+        <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+          <p className="text-sm text-gray-500">No refunds have been requested.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Transaction</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Refund</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reversals.map(reversal => (
+              <TableRow key={reversal.id}>
+                <TableCell>#{reversal.transactionId}</TableCell>
+                <TableCell className="max-w-md text-xs text-gray-600">{reversal.reason}</TableCell>
+                <TableCell>{new Date(reversal.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Badge variant={reversal.status === 'requested' ? 'default' : reversal.status === 'rejected' ? 'destructive' : 'secondary'}>
+                    {reversal.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{reversal.refundTransactionId ? `#${reversal.refundTransactionId}` : '-'}</TableCell>
+                <TableCell>
+                  {reversal.status === 'requested' && (
+                    // The requesting admin can only withdraw - approval needs a second pair of eyes
+                    <div className="flex space-x-1">
+                      {reversal.requestedBy !== user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ id: reversal.id, action: 'approve' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: reversal.id, action: 'reject' })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
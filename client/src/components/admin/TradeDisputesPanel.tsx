@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { TradeDispute, TradeOffer, TradeTransaction } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, RefreshCw, Undo2, XCircle } from 'lucide-react';
+
+interface TradeDisputeRecord {
+  dispute: TradeDispute;
+  trade: TradeTransaction;
+  offer: TradeOffer;
+}
+
+type ReviewAction = 'refund' | 'reject';
+
+export default function TradeDisputesPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // Partial refund amounts typed per dispute; left empty refunds the whole trade
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+
+  const { data: disputes = [], isLoading } = useQuery<TradeDisputeRecord[]>({
+    queryKey: ['/api/admin/trade-disputes'],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action, amount }: { id: number; action: ReviewAction; amount?: number }) => {
+      const res = await apiRequest("POST", `/api/admin/trade-disputes/${id}/${action}`, action === 'refund' ? { amount } : {});
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === 'refund' ? "Trade refunded" : "Dispute rejected",
+        description: "Both members have been notified.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/trade-disputes'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to resolve dispute",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <RefreshCw className="animate-spin h-8 w-8 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (disputes.length === 0) {
+    return (
+      <div className="text-center py-6 border border-dashed border-gray-200 rounded-lg">
+        <p className="text-sm text-gray-500">No trades have been disputed.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Trade</TableHead>
+          <TableHead>Opened by</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Opened</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {disputes.map(({ dispute, trade, offer }) => {
+          const ownTrade = trade.sellerId === user?.id || trade.buyerId === user?.id;
+          const amount = amounts[dispute.id] ?? '';
+          return (
+            <TableRow key={dispute.id}>
+              <TableCell>
+                <div className="font-medium">#{trade.id}</div>
+                <div className="text-xs text-gray-500">
+                  {formatPoints(trade.amountSold, offer.fromProgram)} {offer.fromProgram} for {formatPoints(trade.amountBought, offer.toProgram)} {offer.toProgram}
+                </div>
+              </TableCell>
+              <TableCell>
+                User #{dispute.openedBy} ({dispute.openedBy === trade.sellerId ? 'seller' : 'buyer'})
+              </TableCell>
+              <TableCell className="max-w-md text-xs text-gray-600">
+                <div>{dispute.reason}</div>
+                {dispute.evidence && <div className="mt-1 text-gray-500 whitespace-pre-wrap">{dispute.evidence}</div>}
+                {dispute.resolutionNote && <div className="mt-1 italic">{dispute.resolutionNote}</div>}
+              </TableCell>
+              <TableCell>{new Date(dispute.createdAt).toLocaleString()}</TableCell>
+              <TableCell>
+                <Badge variant={dispute.status === 'open' ? 'default' : dispute.status === 'rejected' ? 'destructive' : 'secondary'}>
+                  {dispute.status}
+                </Badge>
+                {dispute.refundAmount !== null && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {formatPoints(dispute.refundAmount, offer.fromProgram)} {offer.fromProgram} refunded
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                {dispute.status === 'open' && (
+                  // Disputes of an admin's own trades go to someone else
+                  ownTrade ? (
+                    <span className="text-xs text-gray-500">Your trade</span>
+                  ) : (
+                    <div className="flex items-center space-x-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={trade.amountSold}
+                        value={amount}
+                        onChange={(e) => setAmounts({ ...amounts, [dispute.id]: e.target.value })}
+                        placeholder={`All ${formatPoints(trade.amountSold, offer.fromProgram)}`}
+                        className="w-28 h-8"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: dispute.id, action: 'refund', amount: amount ? Number(amount) : undefined })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        {amount ? <Undo2 className="h-4 w-4 mr-1" /> : <CheckCircle className="h-4 w-4 mr-1" />}
+                        Refund
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reviewMutation.mutate({ id: dispute.id, action: 'reject' })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -1,10 +1,12 @@
 import React, { useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getQueryFn } from '@/lib/queryClient';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
-import { Wallet } from '@shared/schema';
+import { BalanceSync } from '@shared/schema';
+import { RefreshCw } from 'lucide-react';
 import LoyaltyCardWithTranslator from '../loyaltyprograms/LoyaltyCardWithTranslator';
+import type { WalletWithHolds } from '../loyaltyprograms/LoyaltyCard';
 import { useLocation } from 'wouter';
 
 export default function DashboardWallets() {
@@ -12,7 +14,7 @@ export default function DashboardWallets() {
   const { user } = useAuth();
   const [_, setLocation] = useLocation();
 
-  const { data: wallets, isLoading, error } = useQuery<Wallet[]>({
+  const { data: wallets, isLoading, error } = useQuery<WalletWithHolds[]>({
     queryKey: ['/api/wallets'],
     queryFn: getQueryFn({ on401: "throw" }),
     enabled: !!user,
@@ -28,6 +30,37 @@ export default function DashboardWallets() {
     }
   }, [error, toast]);
 
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/wallets/sync", {});
+      return res.json();
+    },
+    onSuccess: (syncs: BalanceSync[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+      const flagged = syncs.filter(sync => sync.status === 'flagged').length;
+      toast({
+        title: 'Balances refreshed',
+        description: flagged > 0
+          ? `${flagged} balance change${flagged === 1 ? ' is' : 's are'} being checked before your wallet is updated.`
+          : 'Your linked accounts are up to date.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to refresh balances',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Most recent sync of any linked account
+  const lastSynced = wallets
+    ?.map(wallet => wallet.partnerSyncedAt)
+    .filter((syncedAt): syncedAt is Date => !!syncedAt)
+    .map(syncedAt => new Date(syncedAt))
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
   const handleConvert = (program: string) => {
     setLocation('/#convert');
     // Scroll to convert section
@@ -53,14 +86,26 @@ export default function DashboardWallets() {
                 )}
               </div>
             </div>
-            <div className="flex items-center bg-white px-3 py-1.5 rounded-full shadow-sm border border-blue-100">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-blue-500 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <span className="text-xs text-gray-500 mr-2">Last updated:</span>
-              <span className="text-xs font-medium text-gray-700">
-                {new Date().toLocaleDateString()} {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center bg-white px-3 py-1.5 rounded-full shadow-sm border border-blue-100">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-blue-500 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span className="text-xs text-gray-500 mr-2">Last updated:</span>
+                <span className="text-xs font-medium text-gray-700">
+                  {lastSynced
+                    ? `${lastSynced.toLocaleDateString()} ${lastSynced.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                    : 'Not synced yet'}
+                </span>
+              </div>
+              <button
+                onClick={() => syncMutation.mutate()}
+                disabled={syncMutation.isPending}
+                className="flex items-center px-3 py-1.5 rounded-full bg-white shadow-sm border border-blue-100 text-xs font-medium text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Hourglass } from 'lucide-react';
+import { LoyaltyProgram, PointLot } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+
+interface ExpiringPoints {
+  days: number;
+  byProgram: { program: LoyaltyProgram; amount: number; soonestExpiry: string }[];
+  lots: PointLot[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysUntil(date: string): number {
+  return Math.max(0, Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS));
+}
+
+export default function ExpiringPointsCard() {
+  const { user } = useAuth();
+
+  const { data: expiring } = useQuery<ExpiringPoints>({
+    queryKey: ['/api/points/expiring'],
+    enabled: !!user,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Hourglass className="h-5 w-5 text-amber-500" />
+          Expiring Soon
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {!expiring || expiring.byProgram.length === 0 ? (
+          <p className="text-muted-foreground">No points expire in the next {expiring?.days ?? 30} days.</p>
+        ) : (
+          <ul className="space-y-2">
+            {expiring.byProgram.map(({ program, amount, soonestExpiry }) => {
+              const days = daysUntil(soonestExpiry);
+              return (
+                <li key={program} className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{formatPoints(amount, program)} {program}</div>
+                    <div className="text-xs text-muted-foreground">
+                      First lot expires {new Date(soonestExpiry).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Badge variant={days <= 7 ? 'destructive' : 'outline'}>
+                    {days === 0 ? 'Today' : `${days} day${days === 1 ? '' : 's'}`}
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,12 +33,34 @@ const tierInfo: Record<MembershipTier, { color: string, bgColor: string, progres
   }
 };
 
-// Tier thresholds and benefits
-const tierThresholds = {
+// Fallback tier thresholds until the tier status has loaded
+const defaultTierThresholds: Record<MembershipTier, number> = {
   STANDARD: 0,
-  SILVER: 10000,
-  GOLD: 25000,
-  PLATINUM: 50000
+  SILVER: 20000,
+  GOLD: 50000,
+  PLATINUM: 100000
+};
+
+interface TierStatus {
+  tier: MembershipTier;
+  tierExpiresAt: string | null;
+  monthlyPoints: number;
+  nextTier: MembershipTier | null;
+  nextTierThreshold: number | null;
+  thresholds: Record<MembershipTier, number>;
+  history: {
+    id: number;
+    fromTier: MembershipTier;
+    toTier: MembershipTier;
+    reason: string;
+    createdAt: string;
+  }[];
+}
+
+const changeReasons: Record<string, string> = {
+  qualified: 'Monthly points reached',
+  expired: 'Tier period ended',
+  admin: 'Changed by support'
 };
 
 // Benefits by tier
@@ -81,11 +103,12 @@ const tierNames: Record<MembershipTier, string> = {
 
 interface TierCardProps {
   tier: MembershipTier;
+  threshold: number;
   isCurrentTier: boolean;
   isExpandedView?: boolean;
 }
 
-const TierCard: React.FC<TierCardProps> = ({ tier, isCurrentTier, isExpandedView = false }) => {
+const TierCard: React.FC<TierCardProps> = ({ tier, threshold, isCurrentTier, isExpandedView = false }) => {
   return (
     <Card className={`transition-all ${isCurrentTier ? 'border-primary shadow-md' : 'opacity-80'}`}>
       <CardHeader className="pb-2">
@@ -105,7 +128,7 @@ const TierCard: React.FC<TierCardProps> = ({ tier, isCurrentTier, isExpandedView
       <CardContent className="text-sm">
         <div className="mb-3">
           <div className="text-muted-foreground mb-1 text-xs">Monthly Points Required</div>
-          <div className="font-semibold">{tier === 'STANDARD' ? 'None' : `${tierThresholds[tier].toLocaleString()}+`}</div>
+          <div className="font-semibold">{tier === 'STANDARD' ? 'None' : `${threshold.toLocaleString()}+`}</div>
         </div>
         
         <Separator className="my-3" />
@@ -126,25 +149,22 @@ const TierCard: React.FC<TierCardProps> = ({ tier, isCurrentTier, isExpandedView
 
 const MembershipTierCard: React.FC = () => {
   const { user } = useAuth();
-  const currentTier = user?.membershipTier || 'STANDARD';
   
-  // Fetch user stats to show progress towards next tier
-  const { data: userStats, isLoading } = useQuery<{
-    pointsConverted: number;
-    feesPaid: number;
-    monthlyPoints: number;
-    tier: MembershipTier;
-  }>({
-    queryKey: ['/api/user-stats'],
+  // Fetch tier status to show progress towards next tier
+  const { data: tierStatus } = useQuery<TierStatus>({
+    queryKey: ['/api/tier-status'],
     enabled: !!user,
   });
+  
+  const currentTier = tierStatus?.tier || user?.membershipTier || 'STANDARD';
+  const tierThresholds = tierStatus?.thresholds || defaultTierThresholds;
 
   const tierOrder: MembershipTier[] = ['STANDARD', 'SILVER', 'GOLD', 'PLATINUM'];
   const currentTierIndex = tierOrder.indexOf(currentTier);
   const nextTier = currentTierIndex < tierOrder.length - 1 ? tierOrder[currentTierIndex + 1] : null;
   
   // Calculate progress percentage towards next tier
-  const monthlyPoints = userStats?.monthlyPoints || 0;
+  const monthlyPoints = tierStatus?.monthlyPoints || 0;
   const nextTierThreshold = nextTier ? tierThresholds[nextTier] : Infinity;
   const currentTierThreshold = tierThresholds[currentTier];
   
@@ -182,11 +202,18 @@ const MembershipTierCard: React.FC = () => {
               className={`h-2 ${tierInfo[nextTier].progressColor}`}
             />
             <div className="text-xs text-muted-foreground mt-1">
-              {(nextTierThreshold - monthlyPoints).toLocaleString()} more points needed this month
+              {Math.max(0, nextTierThreshold - monthlyPoints).toLocaleString()} more points needed this month
             </div>
           </div>
         )}
         
+        {user && tierStatus?.tierExpiresAt && currentTier !== 'STANDARD' && (
+          <div className="mb-6 text-sm text-muted-foreground">
+            Your {tierNames[currentTier]} status runs until {new Date(tierStatus.tierExpiresAt).toLocaleDateString()}.
+            Convert {tierThresholds[currentTier].toLocaleString()} points in a month to keep it.
+          </div>
+        )}
+        
         {user && currentTier === 'PLATINUM' && (
           <div className="mb-6 bg-blue-50 p-3 rounded-md border border-blue-100">
             <div className="flex items-center gap-2 text-blue-700">
@@ -204,10 +231,34 @@ const MembershipTierCard: React.FC = () => {
             <TierCard 
               key={tier} 
               tier={tier} 
+              threshold={tierThresholds[tier]}
               isCurrentTier={tier === currentTier}
             />
           ))}
         </div>
+        
+        {tierStatus && tierStatus.history.length > 0 && (
+          <div className="mt-6">
+            <div className="text-sm font-medium mb-2">Tier History</div>
+            <div className="space-y-2">
+              {tierStatus.history.slice(0, 5).map((change) => (
+                <div key={change.id} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge className={`${tierInfo[change.toTier].bgColor} ${tierInfo[change.toTier].color} border-0`}>
+                      {tierNames[change.toTier]}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      from {tierNames[change.fromTier]} · {changeReasons[change.reason] || change.reason}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(change.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
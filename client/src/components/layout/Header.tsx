@@ -11,7 +11,6 @@ import {
   DropdownMenuLabel,
 } from "@/components/ui/dropdown-menu";
 import { 
-  Bell, 
   ChevronDown, 
   Home, 
   LineChart, 
@@ -27,6 +26,7 @@ import {
   Menu,
   BookOpen
 } from 'lucide-react';
+import NotificationBell from '@/components/layout/NotificationBell';
 
 export default function Header() {
   const { user, logoutMutation } = useAuth();
@@ -289,7 +289,7 @@ export default function Header() {
                 </DropdownMenuItem>
               </Link>
               
-              {user && user.username === 'admin' && (
+              {user && user.isAdmin && (
                 <>
                   <DropdownMenuSeparator />
                   <DropdownMenuLabel>Administration</DropdownMenuLabel>
@@ -309,9 +309,7 @@ export default function Header() {
         {user && (
           <div className="flex items-center space-x-3">
             <div className="hidden md:block">
-              <button className="text-gray-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100">
-                <Bell className="h-5 w-5" />
-              </button>
+              <NotificationBell />
             </div>
             
             <DropdownMenu>
@@ -334,7 +332,7 @@ export default function Header() {
                   Settings
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                {user.username === 'admin' && (
+                {user.isAdmin && (
                   <>
                     <Link href="/admin">
                       <DropdownMenuItem className="cursor-pointer">
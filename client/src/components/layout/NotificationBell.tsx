@@ -0,0 +1,66 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Notification } from '@shared/schema';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell } from 'lucide-react';
+
+export default function NotificationBell() {
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: 60000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const unread = notifications.filter(n => !n.readAt).length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="relative text-gray-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100 focus:outline-none">
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+            {unread}
+          </span>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-4 text-sm text-center text-gray-500">You're all caught up.</div>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="cursor-pointer flex flex-col items-start gap-0.5"
+              onSelect={() => !notification.readAt && readMutation.mutate(notification.id)}
+            >
+              <span className={`text-sm ${notification.readAt ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                {notification.title}
+              </span>
+              <span className="text-xs text-gray-500">{notification.message}</span>
+              <span className="text-[10px] text-gray-400">{new Date(notification.createdAt).toLocaleString()}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,13 +1,20 @@
 import React from 'react';
 import { Wallet, ExchangeRate } from '@shared/schema';
+import { formatPoints, multiplyPoints } from '@shared/money';
 import ProgramIcon from './ProgramIcon';
 import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { getQueryFn } from '@/lib/queryClient';
 import { AnimatedValueTooltip } from '@/components/ui/tooltip/AnimatedValueTooltip';
 
+// Wallets from /api/wallets also say how much of the total is on hold - in trade offers, conversion orders, partner transfers or unclaimed gifts
+export interface WalletWithHolds extends Wallet {
+  held?: number;
+  total?: number;
+}
+
 interface LoyaltyCardProps {
-  wallet: Wallet;
+  wallet: WalletWithHolds;
   onConvert: (program: string) => void;
 }
 
@@ -195,7 +202,7 @@ export default function LoyaltyCard({ wallet, onConvert }: LoyaltyCardProps) {
               points={wallet.balance}
             >
               <span className="text-2xl font-bold text-gray-800 cursor-help hover:text-opacity-80 transition-all">
-                {wallet.balance.toLocaleString()}
+                {formatPoints(wallet.balance, wallet.program)}
               </span>
             </AnimatedValueTooltip>
             <span className="ml-1 text-gray-500 text-sm">
@@ -210,7 +217,7 @@ export default function LoyaltyCard({ wallet, onConvert }: LoyaltyCardProps) {
                 points={Math.round(wallet.balance * Number(exchangeRate.rate))}
               >
                 <span className="cursor-help hover:text-blue-600 transition-all">
-                  {Math.round(wallet.balance * Number(exchangeRate.rate)).toLocaleString()} xPoints
+                  {formatPoints(multiplyPoints(wallet.balance, exchangeRate.rate, 'XPOINTS', 'down'), 'XPOINTS')} xPoints
                 </span>
               </AnimatedValueTooltip>
             </div>
@@ -221,6 +228,12 @@ export default function LoyaltyCard({ wallet, onConvert }: LoyaltyCardProps) {
               Universal exchange currency
             </div>
           )}
+          {!!wallet.held && (
+            <div className="text-xs text-amber-700 mt-1">
+              +{formatPoints(wallet.held, wallet.program)} on hold
+              {wallet.total !== undefined && ` · ${formatPoints(wallet.total, wallet.program)} total`}
+            </div>
+          )}
         </div>
         
         <div className="flex justify-between">
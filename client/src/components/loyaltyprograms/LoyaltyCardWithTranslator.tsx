@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { Wallet, LoyaltyProgram } from '@shared/schema';
-import LoyaltyCard from './LoyaltyCard';
+import { LoyaltyProgram } from '@shared/schema';
+import LoyaltyCard, { WalletWithHolds } from './LoyaltyCard';
 import PointsTranslator from '../loyalty/PointsTranslator';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
@@ -8,7 +8,7 @@ import { GiftIcon, ChevronDownIcon, ChevronUpIcon } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface LoyaltyCardWithTranslatorProps {
-  wallet: Wallet;
+  wallet: WalletWithHolds;
   onConvert: (program: string) => void;
 }
 
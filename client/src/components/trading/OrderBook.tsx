@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { LoyaltyProgram } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Loader2 } from 'lucide-react';
+
+const PROGRAMS: LoyaltyProgram[] = ["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"];
+
+interface OrderBookLevel {
+  rate: number;
+  amount: number;
+  offers: number;
+}
+
+interface OrderBookData {
+  asks: OrderBookLevel[];
+  bids: OrderBookLevel[];
+}
+
+interface PairFill {
+  id: number;
+  amount: number;
+  total: number;
+  rate: number;
+  matched: boolean;
+  filledAt: string;
+}
+
+function DepthTable({ title, levels, program, className }: { title: string; levels: OrderBookLevel[]; program: LoyaltyProgram; className: string }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      {levels.length === 0 ? (
+        <p className="text-sm text-gray-500">No open offers.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground uppercase">
+              <th className="text-left py-1">Rate</th>
+              <th className="text-right py-1">Points</th>
+              <th className="text-right py-1">Offers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map(level => (
+              <tr key={level.rate}>
+                <td className={`py-1 font-medium ${className}`}>{level.rate}</td>
+                <td className="py-1 text-right">{formatPoints(level.amount, program)}</td>
+                <td className="py-1 text-right text-gray-500">{level.offers}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function OrderBook() {
+  const { user } = useAuth();
+  const [fromProgram, setFromProgram] = useState<LoyaltyProgram>('QANTAS');
+  const [toProgram, setToProgram] = useState<LoyaltyProgram>('VELOCITY');
+
+  const pair = `fromProgram=${fromProgram}&toProgram=${toProgram}`;
+  const validPair = fromProgram !== toProgram;
+
+  // Other members' offers fill and match all the time, so keep the view fresh
+  const { data: book, isLoading } = useQuery<OrderBookData>({
+    queryKey: [`/api/trades/book?${pair}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user && validPair,
+    refetchInterval: 15000,
+  });
+
+  const { data: fills } = useQuery<PairFill[]>({
+    queryKey: [`/api/trades/fills?${pair}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!user && validPair,
+    refetchInterval: 15000,
+  });
+
+  return (
+    <div className="bg-white rounded-md shadow p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Select value={fromProgram} onValueChange={value => setFromProgram(value as LoyaltyProgram)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROGRAMS.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="h-4 w-4" />
+        <Select value={toProgram} onValueChange={value => setToProgram(value as LoyaltyProgram)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROGRAMS.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">Rates in {toProgram} per {fromProgram} point</span>
+      </div>
+
+      {!validPair ? (
+        <p className="text-sm text-gray-500">Pick two different programs.</p>
+      ) : isLoading || !book ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <DepthTable title={`Buying ${fromProgram}`} levels={book.bids} program={fromProgram} className="text-green-700" />
+          <DepthTable title={`Selling ${fromProgram}`} levels={book.asks} program={fromProgram} className="text-red-700" />
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Recent Fills</h3>
+            {!fills || fills.length === 0 ? (
+              <p className="text-sm text-gray-500">No trades on this pair yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {fills.map(fill => (
+                  <div key={fill.id} className="flex justify-between items-center text-sm">
+                    <span>
+                      {formatPoints(fill.amount, fromProgram)} @ {fill.rate}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      {fill.matched && <Badge variant="secondary">matched</Badge>}
+                      {new Date(fill.filledAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
 import { Wallet, ConvertPointsData, ExchangeRate } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { executeConversionQuote } from '@/hooks/use-conversion-quote';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from '@/hooks/use-auth';
 import ProgramIcon from '../loyaltyprograms/ProgramIcon';
@@ -89,8 +90,10 @@ export default function ConversionForm() {
   // Conversion mutation
   const convertMutation = useMutation({
     mutationFn: async (data: ConvertPointsData) => {
-      const res = await apiRequest("POST", "/api/convert", data);
-      return await res.json();
+      // Quote and execute straight away - the form already shows the estimate
+      const quoteRes = await apiRequest("POST", "/api/convert/quote", data);
+      const quote = await quoteRes.json();
+      return await executeConversionQuote(quote.quoteId);
     },
     onSuccess: (data) => {
       toast({
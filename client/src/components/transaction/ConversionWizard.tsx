@@ -20,6 +20,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { LoyaltyProgram } from '@shared/schema';
+import { formatPoints } from '@shared/money';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -37,6 +38,10 @@ import {
 } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { Progress } from '@/components/ui/progress';
+import { useConversionQuote, executeConversionQuote } from '@/hooks/use-conversion-quote';
+import QuoteCountdown from './QuoteCountdown';
+import FeeBreakdownLines from './FeeBreakdownLines';
+import RouteComparison from './RouteComparison';
 
 // Step interface
 interface WizardStep {
@@ -72,12 +77,12 @@ const ConversionWizard: React.FC = () => {
     enabled: !!fromProgram && !!toProgram && fromProgram !== toProgram,
   });
   
-  // Mutation for converting points
+  // Locked quote for the review step
+  const { quote, secondsLeft, isExpired, requestQuote, isQuoting, clearQuote } = useConversionQuote();
+  
+  // Mutation for converting points at the quoted rate
   const convertMutation = useMutation({
-    mutationFn: async (data: { fromProgram: string; toProgram: string; amount: number }) => {
-      const res = await apiRequest('POST', '/api/convert', data);
-      return res.json();
-    },
+    mutationFn: async (quoteId: string) => executeConversionQuote(quoteId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
@@ -108,8 +113,8 @@ const ConversionWizard: React.FC = () => {
     return wallet ? wallet.balance : 0;
   };
   
-  // Handle form submission
-  const handleConvert = () => {
+  // Validate the form and lock a quote before showing the review step
+  const handleReview = async () => {
     if (!fromProgram || !toProgram || !amount) {
       toast({
         title: 'Invalid Form',
@@ -140,11 +145,35 @@ const ConversionWizard: React.FC = () => {
       return;
     }
     
-    convertMutation.mutate({
-      fromProgram,
-      toProgram,
-      amount: amountValue,
-    });
+    try {
+      await requestQuote({ fromProgram, toProgram, amount: amountValue });
+      setCurrentStep(currentStep + 1);
+    } catch (error) {
+      toast({
+        title: 'Could Not Get Quote',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  // Refresh an expired quote with the same details
+  const refreshQuote = async () => {
+    try {
+      await requestQuote({ fromProgram, toProgram, amount: parseFloat(amount) });
+    } catch (error) {
+      toast({
+        title: 'Could Not Refresh Quote',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  // Handle form submission
+  const handleConvert = () => {
+    if (!quote || isExpired) return;
+    convertMutation.mutate(quote.quoteId);
   };
   
   // Reset wizard
@@ -153,6 +182,7 @@ const ConversionWizard: React.FC = () => {
     setFromProgram('XPOINTS');
     setToProgram('QANTAS');
     setAmount('1000');
+    clearQuote();
     setOpen(false);
   };
 
@@ -218,7 +248,7 @@ const ConversionWizard: React.FC = () => {
                   </div>
                   <div>
                     <div className="font-medium">{wallet.program}</div>
-                    <div className="text-xs text-muted-foreground">{wallet.balance.toLocaleString()} points</div>
+                    <div className="text-xs text-muted-foreground">{formatPoints(wallet.balance, wallet.program)} points</div>
                   </div>
                 </div>
               ))}
@@ -238,13 +268,13 @@ const ConversionWizard: React.FC = () => {
                 <SelectContent>
                   {wallets.map((wallet: any) => (
                     <SelectItem key={wallet.id} value={wallet.program}>
-                      {wallet.program} ({wallet.balance.toLocaleString()} points)
+                      {wallet.program} ({formatPoints(wallet.balance, wallet.program)} points)
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground mt-1">
-                Balance: {getWalletBalance(fromProgram).toLocaleString()} points
+                Balance: {formatPoints(getWalletBalance(fromProgram), fromProgram)} points
               </p>
             </div>
             
@@ -333,7 +363,7 @@ const ConversionWizard: React.FC = () => {
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Max: {getWalletBalance(fromProgram).toLocaleString()} points
+              Max: {formatPoints(getWalletBalance(fromProgram), fromProgram)} points
             </p>
           </div>
           
@@ -374,8 +404,8 @@ const ConversionWizard: React.FC = () => {
             <Button variant="outline" onClick={() => setCurrentStep(currentStep - 1)}>
               Back
             </Button>
-            <Button onClick={() => setCurrentStep(currentStep + 1)}>
-              Review Conversion
+            <Button onClick={handleReview} disabled={isQuoting}>
+              {isQuoting ? 'Getting Quote...' : 'Review Conversion'}
               <ChevronsRight className="ml-2 h-4 w-4" />
             </Button>
           </div>
@@ -405,18 +435,18 @@ const ConversionWizard: React.FC = () => {
               
               <div className="flex justify-between items-center">
                 <div className="text-sm text-muted-foreground">Amount</div>
-                <div className="font-medium">{amount} points</div>
+                <div className="font-medium">{quote ? formatPoints(quote.amountFrom, fromProgram) : amount} points</div>
               </div>
               
               <div className="flex justify-between items-center">
                 <div className="text-sm text-muted-foreground">You'll Receive</div>
-                <div className="font-medium">{calculateConvertedAmount()} points</div>
+                <div className="font-medium">{quote ? formatPoints(quote.amountTo, toProgram) : '...'} points</div>
               </div>
               
               <div className="flex justify-between items-center">
                 <div className="text-sm text-muted-foreground">Exchange Rate</div>
                 <div className="font-medium">
-                  1:{exchangeRate ? parseFloat(exchangeRate.rate).toFixed(2) : '...'}
+                  1:{quote ? parseFloat(quote.rate).toFixed(2) : '...'}
                 </div>
               </div>
               
@@ -424,11 +454,43 @@ const ConversionWizard: React.FC = () => {
               
               <div className="flex justify-between items-center">
                 <div className="text-sm text-muted-foreground">Fee</div>
-                <div className="font-medium text-green-600">Free</div>
+                {quote && quote.fee > 0 ? (
+                  <div className="font-medium">{formatPoints(quote.fee, fromProgram)} points ({quote.feePercentage})</div>
+                ) : (
+                  <div className="font-medium text-green-600">Free</div>
+                )}
               </div>
+              
+              {quote?.feeBreakdown && <FeeBreakdownLines breakdown={quote.feeBreakdown} />}
+              
+              {quote && (
+                <div className="flex justify-between items-center">
+                  <div className="text-sm text-muted-foreground">Value</div>
+                  <div className="font-medium">
+                    ${quote.fromValueInDollars.toFixed(2)} → ${quote.toValueInDollars.toFixed(2)}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           
+          {quote && (
+            <RouteComparison
+              fromProgram={quote.fromProgram}
+              toProgram={quote.toProgram}
+              amount={quote.amountFrom}
+            />
+          )}
+          
+          {quote && (
+            <QuoteCountdown
+              secondsLeft={secondsLeft}
+              ttlSeconds={quote.ttlSeconds}
+              onRefresh={refreshQuote}
+              isRefreshing={isQuoting}
+            />
+          )}
+          
           <div className="bg-amber-50 p-4 rounded-lg border border-amber-100">
             <div className="flex">
               <HelpCircle className="h-5 w-5 text-amber-500 mr-3 flex-shrink-0" />
@@ -437,7 +499,7 @@ const ConversionWizard: React.FC = () => {
                 <ul className="list-disc pl-4 space-y-1">
                   <li>Conversions are typically processed instantly</li>
                   <li>This transaction cannot be reversed once confirmed</li>
-                  <li>Free conversions up to 10,000 points/month</li>
+                  <li>Free conversions up to {(quote?.freeLimit ?? 10000).toLocaleString()} points/month on your tier</li>
                 </ul>
               </div>
             </div>
@@ -449,7 +511,7 @@ const ConversionWizard: React.FC = () => {
             </Button>
             <Button 
               onClick={handleConvert}
-              disabled={convertMutation.isPending}
+              disabled={convertMutation.isPending || !quote || isExpired}
             >
               {convertMutation.isPending ? (
                 <>Processing...</>
@@ -476,7 +538,7 @@ const ConversionWizard: React.FC = () => {
           <div>
             <h3 className="text-xl font-bold mb-1">Conversion Successful!</h3>
             <p className="text-muted-foreground">
-              You've successfully converted {amount} {fromProgram} points to {calculateConvertedAmount()} {toProgram} points.
+              You've successfully converted {amount} {fromProgram} points to {quote ? formatPoints(quote.amountTo, toProgram) : calculateConvertedAmount()} {toProgram} points.
             </p>
           </div>
           
@@ -495,7 +557,7 @@ const ConversionWizard: React.FC = () => {
             <Button onClick={resetWizard} className="mr-2">
               Done
             </Button>
-            <Button variant="outline" onClick={() => setCurrentStep(0)}>
+            <Button variant="outline" onClick={() => { clearQuote(); setCurrentStep(0); }}>
               Convert More Points
             </Button>
           </div>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { FeeBreakdown } from '@/hooks/use-conversion-quote';
+import { formatPoints } from '@shared/money';
+
+interface FeeBreakdownLinesProps {
+  breakdown: FeeBreakdown;
+}
+
+// Itemized fee lines under a quote's fee total, plus how much of the monthly free allowance is left
+const FeeBreakdownLines: React.FC<FeeBreakdownLinesProps> = ({ breakdown }) => {
+  return (
+    <div className="space-y-1 pl-3 border-l text-xs text-muted-foreground">
+      {breakdown.items.map((item) => (
+        <div key={item.type} className="flex justify-between">
+          <span>{item.description} on {formatPoints(item.basis, breakdown.program)} pts</span>
+          <span>{item.amount > 0 ? `${formatPoints(item.amount, breakdown.program)} pts` : 'Free'}</span>
+        </div>
+      ))}
+      {breakdown.allowance && (
+        <div className="flex justify-between">
+          <span>Free allowance left this month</span>
+          <span>{formatPoints(breakdown.allowance.remaining, breakdown.program)} pts</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeeBreakdownLines;
@@ -4,6 +4,7 @@ import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { Wallet, LoyaltyProgram } from '@shared/schema';
+import { formatPoints } from '@shared/money';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -27,6 +28,10 @@ import {
 } from '@/components/ui/tooltip';
 import { AnimatedValueTooltip } from '@/components/ui/tooltip/AnimatedValueTooltip';
 import { Sparkline } from '@/components/ui/charts/Sparkline';
+import { useConversionQuote, executeConversionQuote } from '@/hooks/use-conversion-quote';
+import QuoteCountdown from './QuoteCountdown';
+import FeeBreakdownLines from './FeeBreakdownLines';
+import RouteComparison from './RouteComparison';
 import {
   HelpCircle,
   RefreshCw,
@@ -126,6 +131,9 @@ const IntuitiveConversionWizard: React.FC = () => {
   const [amount, setAmount] = useState<string>('1000');
   const [conversionComplete, setConversionComplete] = useState(false);
   
+  // Locked quote for the review step
+  const { quote, secondsLeft, isExpired, requestQuote, isQuoting, clearQuote } = useConversionQuote();
+  
   // Reset form when dialog closes
   useEffect(() => {
     if (!open) {
@@ -137,12 +145,13 @@ const IntuitiveConversionWizard: React.FC = () => {
           setToProgram('QANTAS');
           setAmount('1000');
           setConversionComplete(false);
+          clearQuote();
         }
       }, 300);
       
       return () => clearTimeout(timer);
     }
-  }, [open, conversionComplete]);
+  }, [open, conversionComplete, clearQuote]);
   
   // Fetch user wallets
   const { data: userWallets = [] } = useQuery<Wallet[]>({
@@ -210,24 +219,16 @@ const IntuitiveConversionWizard: React.FC = () => {
     return fromWallet.balance >= numAmount;
   };
   
-  // Mutation for converting points
+  // Amount the user will receive - the quoted amount once a quote is locked
+  const getReceiveAmount = () => {
+    return quote ? formatPoints(quote.amountTo, toProgram) : getToAmount();
+  };
+  
+  // Mutation for converting points at the quoted rate
   const convertMutation = useMutation({
     mutationFn: async () => {
-      const numAmount = parseFloat(amount);
-      if (isNaN(numAmount)) throw new Error('Invalid amount');
-      
-      const res = await apiRequest('POST', '/api/convert', {
-        fromProgram,
-        toProgram,
-        amount: numAmount
-      });
-      
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.message || 'Conversion failed');
-      }
-      
-      return res.json();
+      if (!quote) throw new Error('No quote to convert');
+      return executeConversionQuote(quote.quoteId);
     },
     onSuccess: () => {
       // Invalidate cached data that needs to be refreshed
@@ -252,8 +253,8 @@ const IntuitiveConversionWizard: React.FC = () => {
     }
   });
   
-  // Handle conversion
-  const handleConvert = () => {
+  // Lock a quote for the entered amount and move to the review step
+  const handleReview = async () => {
     if (!isValidConversion()) {
       toast({
         title: 'Invalid Conversion',
@@ -263,6 +264,29 @@ const IntuitiveConversionWizard: React.FC = () => {
       return;
     }
     
+    try {
+      await requestQuote({ fromProgram, toProgram, amount: parseFloat(amount) });
+      setStep(2);
+    } catch (error) {
+      toast({
+        title: 'Could Not Get Quote',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  // Handle conversion
+  const handleConvert = () => {
+    if (!quote || isExpired) {
+      toast({
+        title: 'Quote Expired',
+        description: 'Please refresh the quote before converting.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
     convertMutation.mutate();
   };
   
@@ -317,7 +341,7 @@ const IntuitiveConversionWizard: React.FC = () => {
                   <div className="flex justify-between w-full">
                     <span>{wallet.program}</span>
                     <span className="text-xs text-muted-foreground">
-                      {wallet.balance.toLocaleString()} points
+                      {formatPoints(wallet.balance, wallet.program)} points
                     </span>
                   </div>
                 </SelectItem>
@@ -330,7 +354,7 @@ const IntuitiveConversionWizard: React.FC = () => {
               <CreditCard className="h-3.5 w-3.5 mr-1.5" />
               Available: <AnimatedValueTooltip program={fromProgram} points={getWallet(fromProgram)?.balance || 0}>
                 <span className="font-medium ml-1 text-foreground underline decoration-dotted">
-                  {getWallet(fromProgram)?.balance.toLocaleString()} points
+                  {formatPoints(getWallet(fromProgram)?.balance ?? 0, fromProgram)} points
                 </span>
               </AnimatedValueTooltip>
             </div>
@@ -393,7 +417,7 @@ const IntuitiveConversionWizard: React.FC = () => {
               <CreditCard className="h-3.5 w-3.5 mr-1.5" />
               Current balance: <AnimatedValueTooltip program={toProgram} points={getWallet(toProgram)?.balance || 0}>
                 <span className="font-medium ml-1 text-foreground underline decoration-dotted">
-                  {getWallet(toProgram)?.balance.toLocaleString()} points
+                  {formatPoints(getWallet(toProgram)?.balance ?? 0, toProgram)} points
                 </span>
               </AnimatedValueTooltip>
             </div>
@@ -407,8 +431,9 @@ const IntuitiveConversionWizard: React.FC = () => {
       key="enter-amount"
       title="Enter Conversion Amount"
       description="Specify how many points you want to convert"
-      onNext={() => setStep(2)}
+      onNext={handleReview}
       onBack={() => setStep(0)}
+      isPending={isQuoting}
     >
       <div className="space-y-6">
         {isRateLoading ? (
@@ -551,7 +576,7 @@ const IntuitiveConversionWizard: React.FC = () => {
           {getWallet(fromProgram) && parseFloat(amount) > (getWallet(fromProgram)?.balance || 0) && (
             <div className="text-sm text-red-500 flex items-center">
               <AlertCircle className="h-3.5 w-3.5 mr-1.5" />
-              Insufficient balance. You have {getWallet(fromProgram)?.balance.toLocaleString()} points available.
+              Insufficient balance. You have {formatPoints(getWallet(fromProgram)?.balance ?? 0, fromProgram)} points available.
             </div>
           )}
           
@@ -565,7 +590,7 @@ const IntuitiveConversionWizard: React.FC = () => {
           <div className="text-xs text-muted-foreground pt-2">
             <div className="flex items-center">
               <CreditCard className="h-3.5 w-3.5 mr-1.5" />
-              <span>Source balance: {getWallet(fromProgram)?.balance.toLocaleString() || 0} {fromProgram}</span>
+              <span>Source balance: {formatPoints(getWallet(fromProgram)?.balance ?? 0, fromProgram)} {fromProgram}</span>
             </div>
             <div className="flex items-center mt-1">
               <ArrowRightLeft className="h-3.5 w-3.5 mr-1.5" />
@@ -618,7 +643,7 @@ const IntuitiveConversionWizard: React.FC = () => {
               <div className="ml-3">
                 <div className="font-medium">{toProgram}</div>
                 <div className="text-sm text-muted-foreground">
-                  {getToAmount()} points
+                  {getReceiveAmount()} points
                 </div>
               </div>
             </div>
@@ -634,7 +659,7 @@ const IntuitiveConversionWizard: React.FC = () => {
             </li>
             <li className="flex justify-between">
               <span className="text-muted-foreground">Exchange rate:</span>
-              <span>1 {fromProgram} = {exchangeRate?.rate || '?'} {toProgram}</span>
+              <span>1 {fromProgram} = {quote?.rate || exchangeRate?.rate || '?'} {toProgram}</span>
             </li>
             <li className="pt-2">
               <div className="flex items-center justify-between mb-1">
@@ -669,16 +694,46 @@ const IntuitiveConversionWizard: React.FC = () => {
             <li className="flex justify-between">
               <span className="text-muted-foreground">Conversion fee:</span>
               <span>
-                {estimateFee().isFreeTier ? 'Free' : `${estimateFee().fee.toLocaleString()} points`}
+                {quote
+                  ? (quote.fee > 0 ? `${formatPoints(quote.fee, fromProgram)} points (${quote.feePercentage})` : 'Free')
+                  : (estimateFee().isFreeTier ? 'Free' : `${estimateFee().fee.toLocaleString()} points`)}
               </span>
             </li>
+            {quote?.feeBreakdown && (
+              <li>
+                <FeeBreakdownLines breakdown={quote.feeBreakdown} />
+              </li>
+            )}
+            {quote && (
+              <li className="flex justify-between">
+                <span className="text-muted-foreground">Value:</span>
+                <span>${quote.fromValueInDollars.toFixed(2)} → ${quote.toValueInDollars.toFixed(2)}</span>
+              </li>
+            )}
             <li className="flex justify-between font-medium border-t pt-2 mt-2">
               <span>You'll receive:</span>
-              <span className="text-green-600">{getToAmount()} {toProgram}</span>
+              <span className="text-green-600">{getReceiveAmount()} {toProgram}</span>
             </li>
           </ul>
         </div>
         
+        {quote && (
+          <RouteComparison
+            fromProgram={quote.fromProgram}
+            toProgram={quote.toProgram}
+            amount={quote.amountFrom}
+          />
+        )}
+        
+        {quote && (
+          <QuoteCountdown
+            secondsLeft={secondsLeft}
+            ttlSeconds={quote.ttlSeconds}
+            onRefresh={() => requestQuote({ fromProgram, toProgram, amount: parseFloat(amount) }).catch(() => undefined)}
+            isRefreshing={isQuoting}
+          />
+        )}
+        
         <div className="bg-amber-50 border-amber-100 border rounded-lg p-4">
           <div className="flex items-start">
             <AlertCircle className="h-5 w-5 text-amber-600 mr-3 flex-shrink-0" />
@@ -687,7 +742,7 @@ const IntuitiveConversionWizard: React.FC = () => {
               <ul className="list-disc pl-4 space-y-1">
                 <li>Conversions are typically processed instantly</li>
                 <li>This transaction cannot be reversed once confirmed</li>
-                <li>Free conversions up to 10,000 points/month</li>
+                <li>Free conversions up to {(quote?.freeLimit ?? 10000).toLocaleString()} points/month on your tier</li>
               </ul>
             </div>
           </div>
@@ -712,7 +767,7 @@ const IntuitiveConversionWizard: React.FC = () => {
         <div>
           <h3 className="text-xl font-medium mb-2">Points Converted Successfully!</h3>
           <p className="text-muted-foreground">
-            You've successfully converted {parseFloat(amount).toLocaleString()} {fromProgram} points to {getToAmount()} {toProgram} points.
+            You've successfully converted {parseFloat(amount).toLocaleString()} {fromProgram} points to {getReceiveAmount()} {toProgram} points.
           </p>
         </div>
         
@@ -725,7 +780,7 @@ const IntuitiveConversionWizard: React.FC = () => {
             </li>
             <li className="flex justify-between">
               <span className="text-muted-foreground">To:</span>
-              <span>{getToAmount()} {toProgram}</span>
+              <span>{getReceiveAmount()} {toProgram}</span>
             </li>
             <li className="flex justify-between">
               <span className="text-muted-foreground">Date:</span>
@@ -742,7 +797,7 @@ const IntuitiveConversionWizard: React.FC = () => {
           <Button variant="outline" className="mr-2" onClick={() => setOpen(false)}>
             Close
           </Button>
-          <Button onClick={() => setStep(0)}>
+          <Button onClick={() => { clearQuote(); setStep(0); }}>
             New Conversion
           </Button>
         </div>
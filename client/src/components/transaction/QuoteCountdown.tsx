@@ -0,0 +1,54 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Clock, RefreshCw } from 'lucide-react';
+
+interface QuoteCountdownProps {
+  secondsLeft: number;
+  ttlSeconds: number;
+  onRefresh: () => void;
+  isRefreshing?: boolean;
+}
+
+// Shows how long a quoted rate stays locked, and offers a fresh quote once it runs out
+const QuoteCountdown: React.FC<QuoteCountdownProps> = ({
+  secondsLeft,
+  ttlSeconds,
+  onRefresh,
+  isRefreshing = false
+}) => {
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = secondsLeft % 60;
+
+  if (secondsLeft <= 0) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-red-100 bg-red-50 p-3">
+        <div className="flex items-center text-sm text-red-700">
+          <Clock className="h-4 w-4 mr-2" />
+          This quote has expired
+        </div>
+        <Button size="sm" variant="outline" onClick={onRefresh} disabled={isRefreshing}>
+          <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+          Refresh quote
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-primary/5 p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center text-muted-foreground">
+          <Clock className="h-4 w-4 mr-2" />
+          Rate locked for
+        </span>
+        <span className={`font-medium tabular-nums ${secondsLeft <= 10 ? 'text-amber-600' : ''}`}>
+          {minutes}:{seconds.toString().padStart(2, '0')}
+        </span>
+      </div>
+      <Progress value={ttlSeconds > 0 ? (secondsLeft / ttlSeconds) * 100 : 0} className="h-1.5" />
+    </div>
+  );
+};
+
+export default QuoteCountdown;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Route } from 'lucide-react';
+import { LoyaltyProgram } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useConversionRoutes } from '@/hooks/use-conversion-quote';
+
+interface RouteComparisonProps {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amount: number;
+}
+
+// Lists the routes the router considered so users can see why the chosen one won
+const RouteComparison: React.FC<RouteComparisonProps> = ({ fromProgram, toProgram, amount }) => {
+  const { data } = useConversionRoutes(fromProgram, toProgram, amount);
+
+  // Nothing to compare when there's only one way to get there
+  if (!data || data.routes.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center text-sm font-medium">
+        <Route className="h-4 w-4 mr-2 text-primary" />
+        Routes compared
+      </div>
+      {data.routes.slice(0, 4).map((route) => (
+        <div key={route.conversionPath} className="flex items-start justify-between text-xs gap-3">
+          <div>
+            <div className={route.isBest ? 'font-medium' : 'text-muted-foreground'}>
+              {route.conversionPath}
+            </div>
+            {route.hops.filter(hop => hop.bonusPercent > 0).map(hop => (
+              <span key={`${hop.fromProgram}-${hop.toProgram}`} className="text-green-600">
+                +{hop.bonusPercent}% bonus {hop.fromProgram} → {hop.toProgram}
+              </span>
+            ))}
+          </div>
+          <div className="text-right flex-shrink-0">
+            <div className="tabular-nums">{formatPoints(route.amountTo, toProgram)} pts</div>
+            {route.isBest ? (
+              <Badge variant="outline" className="bg-primary/10 text-primary text-[10px]">Best</Badge>
+            ) : (
+              <span className="text-muted-foreground">−{formatPoints(route.shortfall, toProgram)}</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RouteComparison;
@@ -1,62 +1,109 @@
 import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { getQueryFn } from '@/lib/queryClient';
-import { Transaction } from '@shared/schema';
+import { Transaction, TransactionSort, TransactionStatus, TransactionStatusEvent, TransactionType } from '@shared/schema';
+import { formatPoints } from '@shared/money';
 import { useAuth } from '@/hooks/use-auth';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import ProgramIcon from '../loyaltyprograms/ProgramIcon';
-import { Loader2 } from 'lucide-react';
+import { Download, Loader2 } from 'lucide-react';
 
 type FilterType = 'all' | 'QANTAS' | 'GYG' | 'XPOINTS';
 type DateRangeType = '7days' | '30days' | '90days' | 'all';
 
+const PAGE_SIZE = 25;
+
+interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+}
+
+const STATUS_BADGES: Record<TransactionStatus, 'success' | 'outline' | 'blue' | 'destructive' | 'secondary'> = {
+  quoted: 'outline',
+  pending: 'outline',
+  submitted: 'blue',
+  settled: 'success',
+  failed: 'destructive',
+  reversed: 'secondary',
+};
+
+function StatusTimeline({ transactionId }: { transactionId: number }) {
+  const { data: events, isLoading } = useQuery<TransactionStatusEvent[]>({
+    queryKey: [`/api/transactions/${transactionId}/events`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {events?.map(event => (
+        <li key={event.id} className="flex space-x-3 text-xs text-gray-600">
+          <span className="w-40">{new Date(event.createdAt).toLocaleString()}</span>
+          <span className="font-medium capitalize">{event.toStatus}</span>
+          {event.reason && <span className="text-gray-500">{event.reason}</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Start of the day the range begins on, so the query key doesn't change on every render
+function rangeStart(dateRange: DateRangeType): Date | null {
+  const days = { '7days': 7, '30days': 30, '90days': 90, 'all': null }[dateRange];
+  if (days === null) return null;
+
+  const start = new Date();
+  start.setDate(start.getDate() - days);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
 export default function TransactionHistory() {
   const { user } = useAuth();
   const [filter, setFilter] = useState<FilterType>('all');
   const [dateRange, setDateRange] = useState<DateRangeType>('7days');
-  
-  const { data: transactions, isLoading } = useQuery<Transaction[]>({
-    queryKey: ['/api/transactions'],
-    queryFn: getQueryFn({ on401: "throw" }),
+  const [type, setType] = useState<TransactionType | 'all'>('all');
+  const [sort, setSort] = useState<TransactionSort>('newest');
+  const [status, setStatus] = useState<TransactionStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Cursors of the pages before the current one - any filter change goes back to the first page
+  const [cursors, setCursors] = useState<string[]>([]);
+
+  const filterParams = new URLSearchParams({ sort });
+  if (filter !== 'all') filterParams.set('program', filter);
+  if (type !== 'all') filterParams.set('type', type);
+  if (status !== 'all') filterParams.set('status', status);
+  const from = rangeStart(dateRange);
+  if (from) filterParams.set('from', from.toISOString());
+
+  const pageParams = new URLSearchParams(filterParams);
+  pageParams.set('limit', String(PAGE_SIZE));
+  if (cursors.length > 0) pageParams.set('cursor', cursors[cursors.length - 1]);
+
+  const { data: page, isLoading } = useQuery<TransactionPage>({
+    queryKey: ['/api/transactions', pageParams.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/transactions?${pageParams.toString()}`, { credentials: 'include' });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    },
     enabled: !!user,
   });
-  
-  const getFilteredTransactions = () => {
-    if (!transactions) return [];
-    
-    // Filter by program if applicable
-    let filtered = transactions;
-    if (filter !== 'all') {
-      filtered = transactions.filter(t => 
-        t.fromProgram === filter || t.toProgram === filter
-      );
-    }
-    
-    // Filter by date range
-    const now = new Date();
-    let dateLimit = new Date();
-    
-    switch (dateRange) {
-      case '7days':
-        dateLimit.setDate(now.getDate() - 7);
-        break;
-      case '30days':
-        dateLimit.setDate(now.getDate() - 30);
-        break;
-      case '90days':
-        dateLimit.setDate(now.getDate() - 90);
-        break;
-      case 'all':
-      default:
-        dateLimit = new Date(0); // Beginning of time
-        break;
-    }
-    
-    return filtered.filter(t => new Date(t.timestamp) >= dateLimit);
-  };
 
-  const filteredTransactions = getFilteredTransactions();
+  const transactions = page?.transactions ?? [];
+  const firstRow = cursors.length * PAGE_SIZE + 1;
+
+  const exportUrl = (format: 'csv' | 'jsonl') => {
+    const params = new URLSearchParams(filterParams);
+    params.set('format', format);
+    return `/api/transactions/export?${params.toString()}`;
+  };
   
   const formatDate = (timestamp: Date) => {
     const date = new Date(timestamp);
@@ -91,7 +138,7 @@ export default function TransactionHistory() {
             
             <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
               <div className="relative">
-                <Select value={filter} onValueChange={(value) => setFilter(value as FilterType)}>
+                <Select value={filter} onValueChange={(value) => { setFilter(value as FilterType); setCursors([]); }}>
                   <SelectTrigger className="w-full rounded-md border-blue-100 shadow-sm text-sm bg-white">
                     <SelectValue placeholder="All Programs" />
                   </SelectTrigger>
@@ -105,7 +152,7 @@ export default function TransactionHistory() {
               </div>
               
               <div className="relative">
-                <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRangeType)}>
+                <Select value={dateRange} onValueChange={(value) => { setDateRange(value as DateRangeType); setCursors([]); }}>
                   <SelectTrigger className="w-full rounded-md border-blue-100 shadow-sm text-sm bg-white">
                     <SelectValue placeholder="Last 7 days" />
                   </SelectTrigger>
@@ -117,6 +164,55 @@ export default function TransactionHistory() {
                   </SelectContent>
                 </Select>
               </div>
+              
+              <div className="relative">
+                <Select value={type} onValueChange={(value) => { setType(value as TransactionType | 'all'); setCursors([]); }}>
+                  <SelectTrigger className="w-full rounded-md border-blue-100 shadow-sm text-sm bg-white">
+                    <SelectValue placeholder="All types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    <SelectItem value="conversion">Conversions</SelectItem>
+                    <SelectItem value="tokenize">Tokenization</SelectItem>
+                    <SelectItem value="detokenize">Detokenization</SelectItem>
+                    <SelectItem value="p2p">P2P</SelectItem>
+                    <SelectItem value="issuance">Issuance</SelectItem>
+                    <SelectItem value="refund">Refunds</SelectItem>
+                    <SelectItem value="expiry">Expiries</SelectItem>
+                    <SelectItem value="sync">Partner syncs</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="relative">
+                <Select value={status} onValueChange={(value) => { setStatus(value as TransactionStatus | 'all'); setCursors([]); }}>
+                  <SelectTrigger className="w-full rounded-md border-blue-100 shadow-sm text-sm bg-white">
+                    <SelectValue placeholder="All statuses" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="submitted">Submitted</SelectItem>
+                    <SelectItem value="settled">Settled</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="reversed">Reversed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="relative">
+                <Select value={sort} onValueChange={(value) => { setSort(value as TransactionSort); setCursors([]); }}>
+                  <SelectTrigger className="w-full rounded-md border-blue-100 shadow-sm text-sm bg-white">
+                    <SelectValue placeholder="Newest first" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Newest first</SelectItem>
+                    <SelectItem value="oldest">Oldest first</SelectItem>
+                    <SelectItem value="largest">Largest first</SelectItem>
+                    <SelectItem value="smallest">Smallest first</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </div>
         </div>
@@ -129,7 +225,7 @@ export default function TransactionHistory() {
                 <p className="text-gray-500">Loading transaction history...</p>
               </div>
             </div>
-          ) : filteredTransactions.length === 0 ? (
+          ) : transactions.length === 0 ? (
             <div className="text-center py-16 px-4">
               <div className="p-3 bg-blue-50 rounded-full w-14 h-14 flex items-center justify-center mx-auto mb-3">
                 <Loader2 className="h-8 w-8 text-blue-400" />
@@ -151,55 +247,71 @@ export default function TransactionHistory() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-100">
-                {filteredTransactions.map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-blue-50/30 transition-colors duration-150">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{formatDate(transaction.timestamp)}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10 rounded-full overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center">
-                          <ProgramIcon program={transaction.fromProgram} className="h-8 w-8" />
+                {transactions.map((transaction) => (
+                  <React.Fragment key={transaction.id}>
+                    <tr
+                      className="hover:bg-blue-50/30 transition-colors duration-150 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === transaction.id ? null : transaction.id)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{formatDate(transaction.timestamp)}</div>
+                        {transaction.reversalOf && (
+                          <div className="text-xs text-purple-600 mt-0.5">Refund of #{transaction.reversalOf}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-10 w-10 rounded-full overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center">
+                            <ProgramIcon program={transaction.fromProgram} className="h-8 w-8" />
+                          </div>
+                          <div className="ml-4">
+                            <div className="text-sm font-semibold text-gray-900">{getProgramName(transaction.fromProgram)}</div>
+                            <div className="text-xs text-gray-500 mt-0.5">{formatPoints(transaction.amountFrom, transaction.fromProgram)} points</div>
+                          </div>
                         </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-semibold text-gray-900">{getProgramName(transaction.fromProgram)}</div>
-                          <div className="text-xs text-gray-500 mt-0.5">{transaction.amountFrom.toLocaleString()} points</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-10 w-10 rounded-full overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center">
+                            <ProgramIcon program={transaction.toProgram} className="h-8 w-8" />
+                          </div>
+                          <div className="ml-4">
+                            <div className="text-sm font-semibold text-gray-900">{getProgramName(transaction.toProgram)}</div>
+                            <div className="text-xs text-gray-500 mt-0.5">{formatPoints(transaction.amountTo, transaction.toProgram)} points</div>
+                          </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10 rounded-full overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center">
-                          <ProgramIcon program={transaction.toProgram} className="h-8 w-8" />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="font-medium text-sm text-gray-900">
+                          {formatPoints(transaction.amountFrom, transaction.fromProgram)} 
+                          <span className="mx-1 text-gray-400">→</span> 
+                          {formatPoints(transaction.amountTo, transaction.toProgram)}
                         </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-semibold text-gray-900">{getProgramName(transaction.toProgram)}</div>
-                          <div className="text-xs text-gray-500 mt-0.5">{transaction.amountTo.toLocaleString()} points</div>
+                        <div className="text-xs text-gray-500 mt-0.5 flex items-center">
+                          <span className="bg-blue-50 text-blue-600 rounded-full px-1.5 py-0.5 text-xs font-medium mr-1">Fee:</span> 
+                          {formatPoints(transaction.feeApplied, transaction.fromProgram)} {transaction.fromProgram}
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="font-medium text-sm text-gray-900">
-                        {transaction.amountFrom.toLocaleString()} 
-                        <span className="mx-1 text-gray-400">→</span> 
-                        {transaction.amountTo.toLocaleString()}
-                      </div>
-                      <div className="text-xs text-gray-500 mt-0.5 flex items-center">
-                        <span className="bg-blue-50 text-blue-600 rounded-full px-1.5 py-0.5 text-xs font-medium mr-1">Fee:</span> 
-                        {transaction.feeApplied} xPoints
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <Badge 
-                        variant={transaction.status === 'completed' ? 'success' : 
-                                transaction.status === 'pending' ? 'outline' : 
-                                transaction.status === 'failed' ? 'destructive' : 'default'} 
-                        className="px-2 py-1 text-xs font-medium capitalize"
-                      >
-                        {transaction.status}
-                      </Badge>
-                    </td>
-                  </tr>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge 
+                          variant={STATUS_BADGES[transaction.status] ?? 'default'} 
+                          className="px-2 py-1 text-xs font-medium capitalize"
+                        >
+                          {transaction.status}
+                        </Badge>
+                        {transaction.failureReason && (
+                          <div className="text-xs text-red-600 mt-1 max-w-xs truncate">{transaction.failureReason}</div>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === transaction.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-6 py-3">
+                          <StatusTimeline transactionId={transaction.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -207,15 +319,35 @@ export default function TransactionHistory() {
         </div>
         
         <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex items-center justify-between">
-          <div className="text-sm text-gray-500">
-            Showing <span className="font-medium">1</span> to <span className="font-medium">{filteredTransactions.length}</span> of <span className="font-medium">{filteredTransactions.length}</span> transactions
+          <div className="flex items-center space-x-4">
+            <div className="text-sm text-gray-500">
+              {transactions.length > 0 ? (
+                <>Showing <span className="font-medium">{firstRow}</span> to <span className="font-medium">{firstRow + transactions.length - 1}</span></>
+              ) : (
+                'No transactions'
+              )}
+            </div>
+            <a href={exportUrl('csv')} className="flex items-center text-sm text-primary hover:underline">
+              <Download className="h-3.5 w-3.5 mr-1" /> CSV
+            </a>
+            <a href={exportUrl('jsonl')} className="flex items-center text-sm text-primary hover:underline">
+              <Download className="h-3.5 w-3.5 mr-1" /> JSON lines
+            </a>
           </div>
           
           <div className="flex space-x-2">
-            <button disabled className="px-3 py-1 border border-gray-200 bg-white text-gray-500 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:bg-gray-50 transition-colors">
+            <button
+              disabled={cursors.length === 0}
+              onClick={() => setCursors(cursors.slice(0, -1))}
+              className="px-3 py-1 border border-gray-200 bg-white text-gray-500 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:bg-gray-50 transition-colors"
+            >
               Previous
             </button>
-            <button disabled className="px-3 py-1 border border-gray-200 bg-white text-gray-500 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:bg-gray-50 transition-colors">
+            <button
+              disabled={!page?.nextCursor}
+              onClick={() => page?.nextCursor && setCursors([...cursors, page.nextCursor])}
+              className="px-3 py-1 border border-gray-200 bg-white text-gray-500 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:bg-gray-50 transition-colors"
+            >
               Next
             </button>
           </div>
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { ConvertPointsData, LoyaltyProgram, MembershipTier } from '@shared/schema';
+
+export interface FeeBreakdown {
+  tier: MembershipTier;
+  program: LoyaltyProgram;
+  items: {
+    type: string;
+    description: string;
+    basis: number;
+    rate: number;
+    amount: number;
+  }[];
+  total: number;
+  effectiveRate: number;
+  allowance?: {
+    limit: number;
+    usedThisMonth: number;
+    applied: number;
+    remaining: number;
+  };
+}
+
+export interface RouteHop {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  rate: string;
+  bonusPercent: number;
+  amountIn: number;
+  amountOut: number;
+}
+
+export interface ConversionRouteOption {
+  conversionPath: string;
+  hops: RouteHop[];
+  fee: number;
+  feeBreakdown: FeeBreakdown;
+  amountTo: number;
+  effectiveRate: string;
+  toValueInDollars: number;
+  isBest: boolean;
+  shortfall: number;
+}
+
+export interface ConversionQuote {
+  quoteId: string;
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountFrom: number;
+  amountTo: number;
+  rate: string;
+  fee: number;
+  feePercentage: string;
+  freeLimit: number;
+  feeBreakdown: FeeBreakdown | null;
+  conversionPath: string;
+  hops: RouteHop[] | null;
+  fromValueInDollars: number;
+  toValueInDollars: number;
+  expiresAt: string;
+  ttlSeconds: number;
+}
+
+/**
+ * Requests a conversion quote and counts down until its locked rate expires.
+ * The countdown runs off the TTL the server returned so client clock skew doesn't matter.
+ */
+export function useConversionQuote() {
+  const [quote, setQuote] = useState<ConversionQuote | null>(null);
+  const [expiresAtMs, setExpiresAtMs] = useState<number>(0);
+  const [secondsLeft, setSecondsLeft] = useState<number>(0);
+
+  const quoteMutation = useMutation({
+    mutationFn: async (data: ConvertPointsData) => {
+      const res = await apiRequest('POST', '/api/convert/quote', data);
+      return (await res.json()) as ConversionQuote;
+    },
+    onSuccess: (newQuote) => {
+      setQuote(newQuote);
+      setExpiresAtMs(Date.now() + newQuote.ttlSeconds * 1000);
+      setSecondsLeft(newQuote.ttlSeconds);
+    },
+  });
+
+  // Tick the countdown while a quote is live
+  useEffect(() => {
+    if (!quote) return;
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((expiresAtMs - Date.now()) / 1000)));
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [quote, expiresAtMs]);
+
+  const clearQuote = useCallback(() => {
+    setQuote(null);
+    setSecondsLeft(0);
+  }, []);
+
+  return {
+    quote,
+    secondsLeft,
+    isExpired: !!quote && secondsLeft <= 0,
+    requestQuote: quoteMutation.mutateAsync,
+    isQuoting: quoteMutation.isPending,
+    quoteError: quoteMutation.error,
+    clearQuote,
+  };
+}
+
+/**
+ * Every route for a conversion, best first
+ */
+export function useConversionRoutes(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, amount: number, enabled = true) {
+  const params = new URLSearchParams({ fromProgram, toProgram, amount: String(amount) });
+  return useQuery<{ routes: ConversionRouteOption[] }>({
+    queryKey: [`/api/convert/routes?${params.toString()}`],
+    enabled: enabled && amount > 0 && fromProgram !== toProgram,
+  });
+}
+
+/**
+ * Executes a previously requested quote
+ */
+export async function executeConversionQuote(quoteId: string) {
+  const res = await apiRequest('POST', '/api/convert', { quoteId });
+  return res.json();
+}
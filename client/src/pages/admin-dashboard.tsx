@@ -37,11 +37,17 @@ import {
   User, 
   RefreshCw,
   Edit, 
-  DollarSign
+  DollarSign,
+  Scale,
+  Undo2,
+  Flag
 } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { MembershipTier, LoyaltyProgram } from '@shared/schema';
+import ReconciliationPanel from '@/components/admin/ReconciliationPanel';
+import ReversalsPanel from '@/components/admin/ReversalsPanel';
+import TradeDisputesPanel from '@/components/admin/TradeDisputesPanel';
 
 // Interfaces for Admin Dashboard
 interface AdminUser {
@@ -73,6 +79,7 @@ interface AdminWallet {
   userId: number;
   program: LoyaltyProgram;
   balance: number;
+  held: number; // On hold in trade offers, conversion orders, partner transfers and unclaimed gifts, on top of the balance
   accountNumber: string | null;
   accountName: string | null;
   createdAt: string;
@@ -125,7 +132,7 @@ export default function AdminDashboard() {
   const [rate, setRate] = useState("");
 
   // Check if user is admin
-  if (user && user.username !== "admin") {
+  if (user && !user.isAdmin) {
     toast({
       title: "Access Denied",
       description: "You don't have permission to access the admin dashboard",
@@ -294,6 +301,18 @@ export default function AdminDashboard() {
             <BarChart className="h-4 w-4" />
             Statistics
           </TabsTrigger>
+          <TabsTrigger value="reconciliation" className="flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Reconciliation
+          </TabsTrigger>
+          <TabsTrigger value="reversals" className="flex items-center gap-2">
+            <Undo2 className="h-4 w-4" />
+            Refunds
+          </TabsTrigger>
+          <TabsTrigger value="disputes" className="flex items-center gap-2">
+            <Flag className="h-4 w-4" />
+            Disputes
+          </TabsTrigger>
         </TabsList>
 
         {/* Users Tab */}
@@ -438,6 +457,9 @@ export default function AdminDashboard() {
                                 {userDetails.wallets.map((wallet: any) => (
                                   <div key={wallet.id} className="border p-2 rounded">
                                     <span className="font-medium">{wallet.program}:</span> {wallet.balance.toLocaleString()} points
+                                    {wallet.held > 0 && (
+                                      <span className="text-gray-500"> (+{wallet.held.toLocaleString()} on hold)</span>
+                                    )}
                                     {wallet.accountNumber && (
                                       <div className="text-xs text-gray-500">
                                         Account: {wallet.accountNumber}
@@ -583,6 +605,45 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Reconciliation Tab */}
+        <TabsContent value="reconciliation">
+          <Card>
+            <CardHeader>
+              <CardTitle>Balance Reconciliation</CardTitle>
+              <CardDescription>Wallet balances and records that don't match the ledger</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReconciliationPanel />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Refunds Tab */}
+        <TabsContent value="reversals">
+          <Card>
+            <CardHeader>
+              <CardTitle>Refunds</CardTitle>
+              <CardDescription>Reverse a mistaken conversion - a second admin approves before the points move back</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReversalsPanel />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Trade Disputes Tab */}
+        <TabsContent value="disputes">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trade Disputes</CardTitle>
+              <CardDescription>Review disputed P2P trades - refund them in full or in part, or let them stand</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TradeDisputesPanel />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
       
       {/* Exchange Rate Edit Dialog */}
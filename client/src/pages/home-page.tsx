@@ -4,6 +4,7 @@ import { usePreferredLayout } from '@/hooks/use-mobile';
 import { Link } from 'wouter';
 import DashboardWallets from '@/components/dashboard/DashboardWallets';
 import MembershipTierCard from '@/components/dashboard/MembershipTierCard';
+import ExpiringPointsCard from '@/components/dashboard/ExpiringPointsCard';
 import ConversionForm from '@/components/transaction/ConversionForm';
 import ConversionWizard from '@/components/transaction/ConversionWizard';
 import TransactionHistory from '@/components/transaction/TransactionHistory';
@@ -76,8 +77,9 @@ export default function HomePage() {
         <div className="md:col-span-2">
           <MembershipTierCard />
         </div>
-        <div>
+        <div className="space-y-6">
           <MiniRecommendationPanel />
+          <ExpiringPointsCard />
         </div>
       </div>
       
@@ -624,7 +624,7 @@ export default function LoyaltyJourneyPage() {
                               {tx.fromProgram} → {tx.toProgram}
                             </p>
                             <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
-                              tx.status === 'completed' ? 'bg-green-100 text-green-700' : 
+                              tx.status === 'settled' ? 'bg-green-100 text-green-700' : 
                               tx.status === 'pending' ? 'bg-amber-100 text-amber-700' : 
                               'bg-gray-100 text-gray-700'
                             }`}>
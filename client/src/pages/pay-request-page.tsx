@@ -0,0 +1,107 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'wouter';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { PointRequest } from '@shared/schema';
+import { formatPoints } from '@shared/money';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import ProgramIcon from '@/components/loyaltyprograms/ProgramIcon';
+import { Gift, Loader2 } from 'lucide-react';
+
+type PointRequestWithName = PointRequest & { requesterName: string };
+
+export default function PayRequestPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: request, isLoading, error } = useQuery<PointRequestWithName>({
+    queryKey: [`/api/point-requests/${token}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    retry: false,
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/point-requests/${token}/pay`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Request paid",
+        description: `Sent ${formatPoints(request!.amount, request!.program)} ${request!.program} points to ${request!.requesterName}`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/point-requests/${token}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to pay request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expired = request ? new Date(request.expiresAt) <= new Date() : false;
+  const ownRequest = request?.requesterId === user?.id;
+
+  return (
+    <div className="container mx-auto py-6 max-w-lg">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Gift className="mr-2 h-5 w-5 text-primary" />
+            Points Request
+          </CardTitle>
+          <CardDescription>Someone has asked you to send them points.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : error || !request ? (
+            <p className="text-sm text-gray-500">This request link isn't valid.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center">
+                <ProgramIcon program={request.program} className="w-10 h-10" />
+                <div className="ml-3">
+                  <div className="text-lg font-medium text-gray-900">
+                    {formatPoints(request.amount, request.program)} {request.program} points
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    Requested by {request.requesterName}
+                    {request.message && ` · "${request.message}"`}
+                  </div>
+                </div>
+              </div>
+
+              {request.status !== 'open' || expired ? (
+                <p className="text-sm text-gray-500">
+                  {request.status === 'paid' ? 'This request has been paid.' : 'This request is no longer open.'}
+                </p>
+              ) : ownRequest ? (
+                <p className="text-sm text-gray-500">This is your own request - share the link for someone else to pay it.</p>
+              ) : (
+                <Button onClick={() => payMutation.mutate()} disabled={payMutation.isPending} className="w-full">
+                  {payMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Pay Request
+                </Button>
+              )}
+
+              <Link href="/profile" className="block text-center text-xs text-primary">
+                Your gifts and requests
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,9 @@ import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { User, Check, Shield, RefreshCw, Clock, CreditCard, UserCheck, UserCircle, Upload, AlertCircle } from 'lucide-react';
 import ConnectedAccounts from '@/components/account/ConnectedAccounts';
+import AutoSweeps from '@/components/account/AutoSweeps';
+import Statements from '@/components/account/Statements';
+import Gifts from '@/components/account/Gifts';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
@@ -251,6 +254,42 @@ export default function ProfilePage() {
                     <ConnectedAccounts />
                   </CardContent>
                 </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Automatic Sweeps</CardTitle>
+                    <CardDescription>
+                      Convert everything above a threshold into xPoints on a regular schedule.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AutoSweeps />
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Gifts</CardTitle>
+                    <CardDescription>
+                      Send points to other members by username or email, or share a link asking for points.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Gifts />
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Statements</CardTitle>
+                    <CardDescription>
+                      Monthly statements of every balance movement, with opening and closing balances per program.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Statements />
+                  </CardContent>
+                </Card>
               </>
             )}
             
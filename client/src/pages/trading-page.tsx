@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Banner } from "@/components/ui/banner";
 import {
   Dialog,
@@ -42,12 +43,14 @@ import {
   Loader2,
   X,
   Check,
+  Flag,
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Badge } from "@/components/ui/badge";
 import { Wallet } from "@shared/schema";
+import OrderBook from "@/components/trading/OrderBook";
 
 
 // Define schemas for form validation
@@ -70,23 +73,27 @@ interface TradeOffer {
   toProgram: string;
   amountOffered: number;
   amountRequested: number;
+  amountRemaining: number; // Offered points not yet bought
+  fillCount: number;
+  minFillAmount: number | null;
   description: string | null;
   status: string;
   createdAt: Date;
   expiresAt: Date;
+  expiringSoon?: boolean; // Only on the user's own offers
 }
 
-// Type for trade history
+// Type for trade history - the user is the seller or the buyer of each trade
 interface TradeTransaction {
   id: number;
-  userId: number;
-  tradedWithUserId: number;
   tradeOfferId: number;
-  fromProgram: string;
-  toProgram: string;
-  amountSent: number;
-  amountReceived: number;
-  completedAt: Date | null;
+  sellerId: number;
+  buyerId: number;
+  amountSold: number;
+  amountBought: number;
+  rate: string;
+  status: "completed" | "disputed" | "refunded";
+  completedAt: Date;
 }
 
 export default function TradingPage() {
@@ -94,6 +101,10 @@ export default function TradingPage() {
   const { toast } = useToast();
   const [createTradeOpen, setCreateTradeOpen] = useState(false);
   const [viewOfferDetails, setViewOfferDetails] = useState<TradeOffer | null>(null);
+  const [fillAmount, setFillAmount] = useState("");
+  const [disputeTrade, setDisputeTrade] = useState<TradeTransaction | null>(null);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [disputeEvidence, setDisputeEvidence] = useState("");
 
   // Form for creating a new trade
   const form = useForm<z.infer<typeof createTradeSchema>>({
@@ -135,16 +146,23 @@ export default function TradingPage() {
   // Mutation for creating a trade offer
   const createTradeMutation = useMutation({
     mutationFn: async (data: CreateTradeValues) => {
-      const response = await apiRequest("POST", "/api/trades/create", data);
-      return response.json();
+      const response = await apiRequest("POST", "/api/trades", data);
+      return response.json() as Promise<TradeOffer>;
     },
-    onSuccess: () => {
+    onSuccess: (offer) => {
       queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trades/my-offers"] });
       setCreateTradeOpen(false);
+      // Offers that cross existing ones are matched as soon as they are created
+      if (offer.fillCount > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/trades/history"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
+      }
       toast({
         title: "Trade Offer Created",
-        description: "Your trade offer has been posted to the marketplace.",
+        description: offer.fillCount > 0
+          ? `Your offer was matched with ${offer.fillCount} existing offer${offer.fillCount === 1 ? "" : "s"}.`
+          : "Your trade offer has been posted to the marketplace.",
         variant: "default",
       });
     },
@@ -159,18 +177,18 @@ export default function TradingPage() {
 
   // Mutation for accepting a trade
   const acceptTradeMutation = useMutation({
-    mutationFn: async (offerId: number) => {
-      const response = await apiRequest("POST", "/api/trades/accept", { offerId });
+    mutationFn: async ({ offerId, amount }: { offerId: number; amount: number }) => {
+      const response = await apiRequest("POST", `/api/trades/${offerId}/accept`, { tradeOfferId: offerId, amount });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trades/history"] });
       queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
       setViewOfferDetails(null);
       toast({
         title: "Trade Completed",
-        description: "The trade has been successfully completed.",
+        description: data.message,
         variant: "default",
       });
     },
@@ -186,7 +204,7 @@ export default function TradingPage() {
   // Mutation for cancelling a trade offer
   const cancelTradeMutation = useMutation({
     mutationFn: async (offerId: number) => {
-      const response = await apiRequest("POST", "/api/trades/cancel", { offerId });
+      const response = await apiRequest("POST", `/api/trades/${offerId}/cancel`);
       return response.json();
     },
     onSuccess: () => {
@@ -206,6 +224,58 @@ export default function TradingPage() {
     },
   });
 
+  // Mutation for extending a trade offer that is about to expire
+  const extendTradeMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      const response = await apiRequest("POST", `/api/trades/${offerId}/extend`, { days: 7 });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trades/my-offers"] });
+      toast({
+        title: "Trade Offer Extended",
+        description: "Your trade offer will stay open for another 7 days.",
+        variant: "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Extend",
+        description: error.message || "There was an error extending your trade offer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for disputing a completed trade
+  const disputeTradeMutation = useMutation({
+    mutationFn: async ({ tradeId, reason, evidence }: { tradeId: number; reason: string; evidence: string }) => {
+      const response = await apiRequest("POST", `/api/trades/transactions/${tradeId}/disputes`, {
+        reason,
+        evidence: evidence || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trades/history"] });
+      setDisputeTrade(null);
+      setDisputeReason("");
+      setDisputeEvidence("");
+      toast({
+        title: "Dispute Opened",
+        description: "An admin will review the trade. We'll notify you both of the outcome.",
+        variant: "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Open Dispute",
+        description: error.message || "There was an error disputing this trade.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Helper function to format dates
   const formatDate = (date: Date) => {
     if (!date) return "N/A";
@@ -222,6 +292,11 @@ export default function TradingPage() {
     return `1:${rate}`;
   };
 
+  // Rough cost of buying part of an offer - the server settles the exact amount
+  const fillCost = (offer: TradeOffer, amount: number) => {
+    return Math.round((amount * offer.amountRequested / offer.amountOffered) * 100) / 100;
+  };
+
   // Get badge color by program
   const getBadgeColor = (program: string) => {
     switch (program) {
@@ -276,8 +351,9 @@ export default function TradingPage() {
       
 
       <Tabs defaultValue="marketplace" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="marketplace">Marketplace</TabsTrigger>
+          <TabsTrigger value="order-book">Order Book</TabsTrigger>
           <TabsTrigger value="my-offers">My Offers</TabsTrigger>
           <TabsTrigger value="history">Trade History</TabsTrigger>
         </TabsList>
@@ -367,8 +443,8 @@ export default function TradingPage() {
                   <CardContent className="pb-3">
                     <div className="flex justify-between text-center p-3 bg-muted/50 rounded-lg mb-3">
                       <div>
-                        <p className="text-xl font-bold">{offer.amountOffered.toLocaleString()}</p>
-                        <p className="text-xs text-muted-foreground">Points offered</p>
+                        <p className="text-xl font-bold">{offer.amountRemaining.toLocaleString()}</p>
+                        <p className="text-xs text-muted-foreground">Points available</p>
                       </div>
                       <div>
                         <p className="text-xl font-bold">{calculateRate(offer)}</p>
@@ -399,7 +475,10 @@ export default function TradingPage() {
                     <Button
                       variant="outline"
                       className="w-full"
-                      onClick={() => setViewOfferDetails(offer)}
+                      onClick={() => {
+                        setViewOfferDetails(offer);
+                        setFillAmount(String(offer.amountRemaining));
+                      }}
                     >
                       View Details
                     </Button>
@@ -410,6 +489,10 @@ export default function TradingPage() {
           )}
         </TabsContent>
         
+        <TabsContent value="order-book" className="py-4">
+          <OrderBook />
+        </TabsContent>
+        
         <TabsContent value="my-offers" className="py-4">
           {myOffersData.isLoading ? (
             <div className="flex justify-center py-12">
@@ -473,13 +556,28 @@ export default function TradingPage() {
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Status</span>
-                        <Badge variant={offer.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                        <Badge variant={offer.status === 'open' ? 'default' : 'secondary'}>
                           {offer.status}
                         </Badge>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Filled</span>
+                        <span>
+                          {offer.fillCount === 0
+                            ? 'Not yet'
+                            : `${offer.fillCount} ${offer.fillCount === 1 ? 'fill' : 'fills'}, ${offer.amountRemaining.toLocaleString()} left`}
+                        </span>
+                      </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Expires</span>
-                        <span>{formatDate(offer.expiresAt)}</span>
+                        <span className="flex items-center">
+                          {offer.expiringSoon && (
+                            <Badge variant="outline" className="mr-2 bg-amber-50 text-amber-700 border-amber-200">
+                              <Clock className="h-3 w-3 mr-1" /> Expiring soon
+                            </Badge>
+                          )}
+                          {formatDate(offer.expiresAt)}
+                        </span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Posted</span>
@@ -487,12 +585,22 @@ export default function TradingPage() {
                       </div>
                     </div>
                   </CardContent>
-                  <CardFooter>
+                  <CardFooter className="gap-2">
+                    {offer.expiringSoon && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => extendTradeMutation.mutate(offer.id)}
+                        disabled={extendTradeMutation.isPending}
+                      >
+                        <Clock className="h-4 w-4 mr-2" /> Extend 7 Days
+                      </Button>
+                    )}
                     <Button
                       variant="destructive"
                       className="w-full"
                       onClick={() => cancelTradeMutation.mutate(offer.id)}
-                      disabled={cancelTradeMutation.isPending || offer.status !== 'ACTIVE'}
+                      disabled={cancelTradeMutation.isPending || offer.status !== 'open'}
                     >
                       {cancelTradeMutation.isPending ? (
                         <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Cancelling...</>
@@ -543,44 +651,59 @@ export default function TradingPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-3"></th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {tradeHistoryData.data?.map((trade) => (
-                    <tr key={trade.id}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        {formatDate(trade.completedAt || new Date())}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        <div className="flex items-center">
-                          <div className={`w-7 h-7 rounded-full flex items-center justify-center mr-2 ${getBadgeColor(trade.fromProgram)}`}>
-                            {trade.fromProgram.charAt(0)}
-                          </div>
-                          <ArrowRight className="h-4 w-4 mx-1" />
-                          <div className={`w-7 h-7 rounded-full flex items-center justify-center ml-1 ${getBadgeColor(trade.toProgram)}`}>
-                            {trade.toProgram.charAt(0)}
+                  {tradeHistoryData.data?.map((trade) => {
+                    const sold = trade.sellerId === user?.id;
+                    return (
+                      <tr key={trade.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {formatDate(trade.completedAt)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="font-medium">Trade #{trade.id}</div>
+                          <div className="text-xs text-muted-foreground">{sold ? "Sold" : "Bought"}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div>
+                            <div className="font-medium">{trade.amountSold.toLocaleString()} points</div>
+                            <div className="text-xs text-muted-foreground">for {trade.amountBought.toLocaleString()} points</div>
                           </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        <div>
-                          <div className="font-medium">{trade.amountSent.toLocaleString()} points</div>
-                          <div className="text-xs text-muted-foreground">Sent</div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        1:{(trade.amountReceived / trade.amountSent).toFixed(2)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        User #{trade.tradedWithUserId}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm">
-                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                          Completed
-                        </Badge>
-                      </td>
-                    </tr>
-                  ))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          1:{Number(trade.rate).toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          User #{sold ? trade.buyerId : trade.sellerId}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {trade.status === "completed" ? (
+                            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                              Completed
+                            </Badge>
+                          ) : trade.status === "disputed" ? (
+                            <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                              Under Review
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+                              Refunded
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                          {trade.status === "completed" && (
+                            <Button variant="ghost" size="sm" onClick={() => setDisputeTrade(trade)}>
+                              <Flag className="h-4 w-4 mr-1" />
+                              Dispute
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -588,6 +711,56 @@ export default function TradingPage() {
         </TabsContent>
       </Tabs>
 
+      {/* Dispute Trade Dialog */}
+      <Dialog open={!!disputeTrade} onOpenChange={() => setDisputeTrade(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Dispute Trade #{disputeTrade?.id}</DialogTitle>
+            <DialogDescription>
+              Tell us what went wrong. An admin will review the trade and can refund it in full or in part.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div>
+              <h4 className="text-sm font-medium mb-1">Reason</h4>
+              <Input
+                value={disputeReason}
+                onChange={(e) => setDisputeReason(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. The points never arrived in my partner account"
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-1">Evidence (optional)</h4>
+              <Textarea
+                value={disputeEvidence}
+                onChange={(e) => setDisputeEvidence(e.target.value)}
+                maxLength={2000}
+                placeholder="Anything that helps us check your claim, such as dates and reference numbers"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputeTrade(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => disputeTrade && disputeTradeMutation.mutate({
+                tradeId: disputeTrade.id,
+                reason: disputeReason.trim(),
+                evidence: disputeEvidence.trim(),
+              })}
+              disabled={!disputeReason.trim() || disputeTradeMutation.isPending}
+            >
+              {disputeTradeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Create Trade Dialog */}
       <Dialog open={createTradeOpen} onOpenChange={setCreateTradeOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -814,7 +987,7 @@ export default function TradingPage() {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Status</span>
-                    <Badge variant={viewOfferDetails.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                    <Badge variant={viewOfferDetails.status === 'open' ? 'default' : 'secondary'}>
                       {viewOfferDetails.status}
                     </Badge>
                   </div>
@@ -838,6 +1011,22 @@ export default function TradingPage() {
                 </div>
               )}
               
+              <div>
+                <h4 className="text-sm font-medium mb-1">Points to Buy:</h4>
+                <Input
+                  type="number"
+                  min={viewOfferDetails.minFillAmount ?? 0}
+                  max={viewOfferDetails.amountRemaining}
+                  value={fillAmount}
+                  onChange={e => setFillAmount(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {viewOfferDetails.amountRemaining.toLocaleString()} of {viewOfferDetails.amountOffered.toLocaleString()} {viewOfferDetails.fromProgram} points left
+                  {viewOfferDetails.minFillAmount !== null && `, at least ${viewOfferDetails.minFillAmount.toLocaleString()} per fill`}.
+                  {' '}Costs about {fillCost(viewOfferDetails, Number(fillAmount) || 0).toLocaleString()} {viewOfferDetails.toProgram} points.
+                </p>
+              </div>
+              
               <div>
                 <h4 className="text-sm font-medium mb-1">Your Points Balance:</h4>
                 <div className="bg-muted p-3 rounded-md">
@@ -854,7 +1043,7 @@ export default function TradingPage() {
                   </div>
                 </div>
                 
-                {getWalletBalance(viewOfferDetails.toProgram) < viewOfferDetails.amountRequested && (
+                {getWalletBalance(viewOfferDetails.toProgram) < fillCost(viewOfferDetails, Number(fillAmount) || 0) && (
                   <p className="text-sm text-red-500 mt-2">
                     You don't have enough points to complete this trade.
                   </p>
@@ -867,10 +1056,12 @@ export default function TradingPage() {
                 Cancel
               </Button>
               <Button 
-                onClick={() => acceptTradeMutation.mutate(viewOfferDetails.id)}
+                onClick={() => acceptTradeMutation.mutate({ offerId: viewOfferDetails.id, amount: Number(fillAmount) })}
                 disabled={
                   acceptTradeMutation.isPending || 
-                  getWalletBalance(viewOfferDetails.toProgram) < viewOfferDetails.amountRequested
+                  !(Number(fillAmount) > 0) ||
+                  Number(fillAmount) > viewOfferDetails.amountRemaining ||
+                  getWalletBalance(viewOfferDetails.toProgram) < fillCost(viewOfferDetails, Number(fillAmount) || 0)
                 }
               >
                 {acceptTradeMutation.isPending ? (
@@ -1,5 +1,6 @@
 import { storage } from "../server/storage";
 import { LoyaltyProgram } from "../shared/schema";
+import { issuancePostings } from "../server/services/ledgerService";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 
@@ -61,14 +62,23 @@ async function createTestUser() {
     ];
     
     for (const walletData of walletPrograms) {
-      const wallet = await storage.createWallet({
+      // Signup already opened some wallets
+      const wallet = await storage.getWallet(user.id, walletData.program) ?? await storage.createWallet({
         userId: user.id,
         program: walletData.program,
-        balance: walletData.balance,
         accountNumber: walletData.accountNumber || null,
         accountName: walletData.accountName || null,
       });
-      console.log(`Created ${walletData.program} wallet with ID ${wallet.id}`);
+      
+      // Balances only change through the ledger, so seed them as issued points
+      const currentBalance = wallet.balance;
+      if (walletData.balance > currentBalance) {
+        await storage.postJournalEntry(
+          { userId: user.id, type: "adjustment", reference: "seed:create-test-user", description: "Test data opening balance" },
+          issuancePostings(wallet.id, walletData.program, walletData.balance - currentBalance)
+        );
+      }
+      console.log(`Set up ${walletData.program} wallet with ID ${wallet.id}`);
     }
     
     // Create sample transactions for the test user
@@ -152,9 +152,1315 @@ async function addMissingColumnsToUsers() {
   }
 }
 
+async function createLedgerTables() {
+  console.log("Checking and creating ledger tables...");
+  
+  try {
+    // Check if journal_entries table exists
+    const checkJournalTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'journal_entries'
+    `);
+    
+    if (checkJournalTable.rows.length === 0) {
+      console.log("Creating journal_entries and ledger_postings tables...");
+      
+      await pool.query(`
+        CREATE TABLE journal_entries (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id),
+          type TEXT NOT NULL,
+          reference TEXT,
+          description TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      await pool.query(`
+        CREATE TABLE ledger_postings (
+          id SERIAL PRIMARY KEY,
+          entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+          account TEXT NOT NULL,
+          wallet_id INTEGER REFERENCES wallets(id),
+          program loyalty_program NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          balance_after NUMERIC(20, 2),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      await pool.query(`
+        ALTER TABLE transactions ADD COLUMN IF NOT EXISTS journal_entry_id INTEGER REFERENCES journal_entries(id)
+      `);
+      await pool.query(`
+        ALTER TABLE trade_transactions ADD COLUMN IF NOT EXISTS journal_entry_id INTEGER REFERENCES journal_entries(id)
+      `);
+      
+      console.log("Successfully created ledger tables");
+    } else {
+      console.log("Ledger tables already exist");
+    }
+  } catch (error) {
+    console.error("Error creating ledger tables:", error);
+    throw error;
+  }
+}
+
+async function createIdempotencyKeysTable() {
+  console.log("Checking and creating idempotency_keys table...");
+  
+  try {
+    const checkIdempotencyTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'idempotency_keys'
+    `);
+    
+    if (checkIdempotencyTable.rows.length === 0) {
+      console.log("Creating idempotency_keys table...");
+      
+      await pool.query(`
+        CREATE TABLE idempotency_keys (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          method TEXT NOT NULL,
+          path TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'in_progress',
+          response_status INTEGER,
+          response_body TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMP NOT NULL,
+          CONSTRAINT idempotency_keys_user_key_unique UNIQUE (user_id, key)
+        )
+      `);
+      
+      console.log("Successfully created idempotency_keys table");
+    } else {
+      console.log("Idempotency keys table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating idempotency_keys table:", error);
+    throw error;
+  }
+}
+
+async function createConversionQuotesTable() {
+  console.log("Checking and creating conversion_quotes table...");
+  
+  try {
+    const checkQuotesTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'conversion_quotes'
+    `);
+    
+    if (checkQuotesTable.rows.length === 0) {
+      console.log("Creating conversion_quotes table...");
+      
+      await pool.query(`
+        CREATE TABLE conversion_quotes (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          from_program loyalty_program NOT NULL,
+          to_program loyalty_program NOT NULL,
+          amount_from NUMERIC(20, 2) NOT NULL,
+          amount_to NUMERIC(20, 2) NOT NULL,
+          rate NUMERIC NOT NULL,
+          fee_applied NUMERIC(20, 2) NOT NULL DEFAULT 0,
+          conversion_path TEXT NOT NULL,
+          from_value_in_dollars REAL NOT NULL,
+          to_value_in_dollars REAL NOT NULL,
+          status TEXT NOT NULL DEFAULT 'open',
+          transaction_id INTEGER REFERENCES transactions(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMP NOT NULL,
+          executed_at TIMESTAMP,
+          fee_breakdown TEXT,
+          route TEXT
+        )
+      `);
+      
+      console.log("Successfully created conversion_quotes table");
+    } else {
+      console.log("Conversion quotes table already exists");
+      
+      await pool.query(`
+        ALTER TABLE conversion_quotes ADD COLUMN IF NOT EXISTS fee_breakdown TEXT
+      `);
+      await pool.query(`
+        ALTER TABLE conversion_quotes ADD COLUMN IF NOT EXISTS route TEXT
+      `);
+    }
+  } catch (error) {
+    console.error("Error creating conversion_quotes table:", error);
+    throw error;
+  }
+}
+
+async function createTierHistoryTable() {
+  console.log("Checking and creating tier_history table...");
+  
+  try {
+    const checkTierHistoryTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'tier_history'
+    `);
+    
+    if (checkTierHistoryTable.rows.length === 0) {
+      console.log("Creating tier_history table...");
+      
+      await pool.query(`
+        CREATE TABLE tier_history (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          from_tier TEXT NOT NULL,
+          to_tier TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          monthly_points REAL NOT NULL DEFAULT 0,
+          expires_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      console.log("Successfully created tier_history table");
+    } else {
+      console.log("Tier history table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating tier_history table:", error);
+    throw error;
+  }
+}
+
+async function createConversionOrdersTable() {
+  console.log("Checking and creating conversion_orders table...");
+  
+  try {
+    const checkOrdersTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'conversion_orders'
+    `);
+    
+    if (checkOrdersTable.rows.length === 0) {
+      console.log("Creating conversion_orders table...");
+      
+      await pool.query(`
+        CREATE TABLE conversion_orders (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          from_program loyalty_program NOT NULL,
+          to_program loyalty_program NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          target_rate NUMERIC NOT NULL,
+          time_in_force TEXT NOT NULL DEFAULT 'gtc',
+          status TEXT NOT NULL DEFAULT 'open',
+          expires_at TIMESTAMP,
+          transaction_id INTEGER REFERENCES transactions(id),
+          executed_rate NUMERIC,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          closed_at TIMESTAMP
+        )
+      `);
+      
+      console.log("Successfully created conversion_orders table");
+    } else {
+      console.log("Conversion orders table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating conversion_orders table:", error);
+    throw error;
+  }
+}
+
+async function addConversionOrderCloseReason() {
+  console.log("Checking conversion order close reason column...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'conversion_orders' AND column_name = 'close_reason'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding close reason to conversion_orders...");
+      
+      await pool.query(`
+        ALTER TABLE conversion_orders ADD COLUMN close_reason TEXT
+      `);
+      
+      console.log("Successfully added conversion order close reason");
+    } else {
+      console.log("Conversion order close reason column already exists");
+    }
+  } catch (error) {
+    console.error("Error adding conversion order close reason:", error);
+    throw error;
+  }
+}
+
+async function createSweepTables() {
+  console.log("Checking and creating sweep tables...");
+  
+  try {
+    const checkSchedulesTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'sweep_schedules'
+    `);
+    
+    if (checkSchedulesTable.rows.length === 0) {
+      console.log("Creating sweep_schedules table...");
+      
+      await pool.query(`
+        CREATE TABLE sweep_schedules (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          from_program loyalty_program NOT NULL,
+          to_program loyalty_program NOT NULL,
+          schedule TEXT NOT NULL,
+          keep_balance NUMERIC(20, 2) NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'active',
+          next_run_at TIMESTAMP,
+          last_run_at TIMESTAMP,
+          failure_count INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      console.log("Successfully created sweep_schedules table");
+    } else {
+      console.log("Sweep schedules table already exists");
+    }
+    
+    const checkRunsTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'sweep_runs'
+    `);
+    
+    if (checkRunsTable.rows.length === 0) {
+      console.log("Creating sweep_runs table...");
+      
+      await pool.query(`
+        CREATE TABLE sweep_runs (
+          id SERIAL PRIMARY KEY,
+          schedule_id INTEGER NOT NULL REFERENCES sweep_schedules(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          status TEXT NOT NULL,
+          attempt INTEGER NOT NULL DEFAULT 1,
+          amount NUMERIC(20, 2),
+          transaction_id INTEGER REFERENCES transactions(id),
+          error TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      console.log("Successfully created sweep_runs table");
+    } else {
+      console.log("Sweep runs table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating sweep tables:", error);
+    throw error;
+  }
+}
+
+async function createTransferBonusesTable() {
+  console.log("Checking and creating transfer_bonuses table...");
+  
+  try {
+    const checkBonusesTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'transfer_bonuses'
+    `);
+    
+    if (checkBonusesTable.rows.length === 0) {
+      console.log("Creating transfer_bonuses table...");
+      
+      await pool.query(`
+        CREATE TABLE transfer_bonuses (
+          id SERIAL PRIMARY KEY,
+          from_program loyalty_program NOT NULL,
+          to_program loyalty_program NOT NULL,
+          bonus_percent NUMERIC NOT NULL,
+          description TEXT,
+          starts_at TIMESTAMP NOT NULL,
+          ends_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      console.log("Successfully created transfer_bonuses table");
+    } else {
+      console.log("Transfer bonuses table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating transfer_bonuses table:", error);
+    throw error;
+  }
+}
+
+/**
+ * Gives every wallet that has a balance but no postings an opening entry against
+ * the issuance account, so the ledger accounts for balances from before it existed
+ */
+async function backfillOpeningBalances() {
+  console.log("Backfilling opening balances into the ledger...");
+  
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    
+    const unposted = await client.query(`
+      SELECT w.id, w.user_id, w.program, w.balance
+      FROM wallets w
+      WHERE w.balance <> 0
+        AND NOT EXISTS (SELECT 1 FROM ledger_postings p WHERE p.wallet_id = w.id)
+      FOR UPDATE
+    `);
+    
+    for (const wallet of unposted.rows) {
+      const entry = await client.query(
+        `INSERT INTO journal_entries (user_id, type, reference, description)
+         VALUES ($1, 'adjustment', $2, 'Opening balance')
+         RETURNING id`,
+        [wallet.user_id, `wallet:${wallet.id}`]
+      );
+      
+      await client.query(
+        `INSERT INTO ledger_postings (entry_id, account, wallet_id, program, amount, balance_after)
+         VALUES ($1, 'issuance', NULL, $2, $3, NULL),
+                ($1, 'wallet', $4, $2, $5, $5)`,
+        [entry.rows[0].id, wallet.program, -wallet.balance, wallet.id, wallet.balance]
+      );
+    }
+    
+    await client.query("COMMIT");
+    console.log(`Backfilled opening balances for ${unposted.rows.length} wallets`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error backfilling opening balances:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Points amounts that used to be REAL - converted to exact decimals (see shared/money.ts)
+const POINTS_COLUMNS: [string, string][] = [
+  ["wallets", "balance"],
+  ["transactions", "amount_from"],
+  ["transactions", "amount_to"],
+  ["transactions", "fee_applied"],
+  ["ledger_postings", "amount"],
+  ["ledger_postings", "balance_after"],
+  ["trade_offers", "amount_offered"],
+  ["trade_offers", "amount_requested"],
+  ["trade_transactions", "amount_sold"],
+  ["trade_transactions", "amount_bought"],
+  ["trade_transactions", "seller_fee"],
+  ["trade_transactions", "buyer_fee"],
+  ["conversion_quotes", "amount_from"],
+  ["conversion_quotes", "amount_to"],
+  ["conversion_quotes", "fee_applied"],
+  ["conversion_orders", "amount"],
+  ["sweep_schedules", "keep_balance"],
+  ["sweep_runs", "amount"],
+  ["tier_benefits", "gift_daily_limit"], // Created as REAL by the first version of createPointGiftTables
+];
+
+async function migratePointsColumns() {
+  console.log("Checking points columns for exact decimal types...");
+  
+  try {
+    for (const [table, column] of POINTS_COLUMNS) {
+      const checkColumn = await pool.query(`
+        SELECT data_type 
+        FROM information_schema.columns 
+        WHERE table_name = $1 AND column_name = $2
+      `, [table, column]);
+      
+      if (checkColumn.rows.length > 0 && checkColumn.rows[0].data_type === "real") {
+        console.log(`Converting ${table}.${column} to NUMERIC(20, 2)...`);
+        
+        // Round through the shortest decimal form of the float, so 0.1 stays 0.10
+        await pool.query(`
+          ALTER TABLE ${table}
+          ALTER COLUMN ${column} TYPE NUMERIC(20, 2) USING ROUND(${column}::TEXT::NUMERIC, 2)
+        `);
+      }
+    }
+    
+    console.log("Points columns are exact decimals");
+  } catch (error) {
+    console.error("Error migrating points columns:", error);
+    throw error;
+  }
+}
+
+async function addTransactionTypeColumn() {
+  console.log("Checking transactions.type column...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'transactions' AND column_name = 'type'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding type column to transactions...");
+      
+      await pool.query(`
+        ALTER TABLE transactions ADD COLUMN type TEXT NOT NULL DEFAULT 'conversion'
+      `);
+      
+      // Tokenization is the only other kind recorded so far - it always has a chain hash
+      await pool.query(`
+        UPDATE transactions SET type = 'tokenize'
+        WHERE transaction_hash IS NOT NULL AND transaction_hash <> ''
+      `);
+      
+      // History filters always include the user and page by id
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS transactions_user_id_idx ON transactions (user_id, id)
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS transactions_recipient_id_idx ON transactions (recipient_id, id)
+      `);
+      
+      console.log("Successfully added transactions.type");
+    } else {
+      console.log("transactions.type already exists");
+    }
+  } catch (error) {
+    console.error("Error adding transactions.type:", error);
+    throw error;
+  }
+}
+
+async function createStatementsTable() {
+  console.log("Checking and creating statements table...");
+  
+  try {
+    const checkStatementsTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'statements'
+    `);
+    
+    if (checkStatementsTable.rows.length === 0) {
+      console.log("Creating statements table...");
+      
+      await pool.query(`
+        CREATE TABLE statements (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          period_start TIMESTAMP NOT NULL,
+          period_end TIMESTAMP NOT NULL,
+          content TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT statements_user_period_unique UNIQUE (user_id, period_start)
+        )
+      `);
+      
+      // Issued statements are a record - refuse to change or remove them
+      await pool.query(`
+        CREATE OR REPLACE FUNCTION statements_immutable() RETURNS TRIGGER AS $$
+        BEGIN
+          RAISE EXCEPTION 'statements are immutable';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await pool.query(`
+        CREATE TRIGGER statements_immutable
+        BEFORE UPDATE OR DELETE ON statements
+        FOR EACH ROW EXECUTE FUNCTION statements_immutable()
+      `);
+      
+      console.log("Successfully created statements table");
+    } else {
+      console.log("Statements table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating statements table:", error);
+    throw error;
+  }
+}
+
+async function createReconciliationTables() {
+  console.log("Checking and creating reconciliation tables...");
+  
+  try {
+    const checkRunsTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'reconciliation_runs'
+    `);
+    
+    if (checkRunsTable.rows.length === 0) {
+      console.log("Creating reconciliation_runs table...");
+      
+      await pool.query(`
+        CREATE TABLE reconciliation_runs (
+          id SERIAL PRIMARY KEY,
+          status TEXT NOT NULL DEFAULT 'running',
+          wallets_checked INTEGER NOT NULL DEFAULT 0,
+          records_checked INTEGER NOT NULL DEFAULT 0,
+          discrepancy_count INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          finished_at TIMESTAMP
+        )
+      `);
+      
+      console.log("Successfully created reconciliation_runs table");
+    } else {
+      console.log("Reconciliation runs table already exists");
+    }
+    
+    const checkDiscrepanciesTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'reconciliation_discrepancies'
+    `);
+    
+    if (checkDiscrepanciesTable.rows.length === 0) {
+      console.log("Creating reconciliation_discrepancies table...");
+      
+      await pool.query(`
+        CREATE TABLE reconciliation_discrepancies (
+          id SERIAL PRIMARY KEY,
+          run_id INTEGER NOT NULL REFERENCES reconciliation_runs(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          kind TEXT NOT NULL,
+          wallet_id INTEGER REFERENCES wallets(id),
+          program loyalty_program,
+          expected NUMERIC(20, 2),
+          actual NUMERIC(20, 2),
+          record_type TEXT,
+          record_id INTEGER,
+          details TEXT,
+          status TEXT NOT NULL DEFAULT 'open',
+          adjustment_entry_id INTEGER REFERENCES journal_entries(id),
+          reviewed_by INTEGER REFERENCES users(id),
+          reviewed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      await pool.query(`
+        CREATE INDEX reconciliation_discrepancies_run_idx ON reconciliation_discrepancies (run_id)
+      `);
+      
+      console.log("Successfully created reconciliation_discrepancies table");
+    } else {
+      console.log("Reconciliation discrepancies table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating reconciliation tables:", error);
+    throw error;
+  }
+}
+
+async function addTransactionLifecycle() {
+  console.log("Checking transaction lifecycle columns...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'transactions' AND column_name = 'status_updated_at'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding lifecycle columns to transactions...");
+      
+      await pool.query(`
+        ALTER TABLE transactions
+          ADD COLUMN status_updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          ADD COLUMN failure_reason TEXT,
+          ADD COLUMN hold_entry_id INTEGER REFERENCES journal_entries(id)
+      `);
+      
+      // Everything recorded so far settled immediately ("completed", "completed-fallback")
+      await pool.query(`
+        UPDATE transactions SET status = 'settled', status_updated_at = timestamp
+      `);
+      await pool.query(`
+        ALTER TABLE transactions ALTER COLUMN status SET DEFAULT 'settled'
+      `);
+      
+      await pool.query(`
+        CREATE TABLE transaction_status_events (
+          id SERIAL PRIMARY KEY,
+          transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+          from_status TEXT,
+          to_status TEXT NOT NULL,
+          reason TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX transaction_status_events_transaction_idx ON transaction_status_events (transaction_id)
+      `);
+      
+      // Give existing transactions the initial event new ones get when they're created
+      await pool.query(`
+        INSERT INTO transaction_status_events (transaction_id, from_status, to_status, created_at)
+        SELECT id, NULL, status, timestamp FROM transactions
+      `);
+      
+      console.log("Successfully added transaction lifecycle");
+    } else {
+      console.log("Transaction lifecycle columns already exist");
+    }
+  } catch (error) {
+    console.error("Error adding transaction lifecycle:", error);
+    throw error;
+  }
+}
+
+async function createTransactionReversalsTable() {
+  console.log("Checking and creating transaction_reversals table...");
+  
+  try {
+    const checkReversalsTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'transaction_reversals'
+    `);
+    
+    if (checkReversalsTable.rows.length === 0) {
+      console.log("Creating transaction_reversals table...");
+      
+      await pool.query(`
+        ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reversal_of INTEGER REFERENCES transactions(id)
+      `);
+      
+      await pool.query(`
+        CREATE TABLE transaction_reversals (
+          id SERIAL PRIMARY KEY,
+          transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+          reason TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'requested',
+          requested_by INTEGER NOT NULL REFERENCES users(id),
+          reviewed_by INTEGER REFERENCES users(id),
+          reviewed_at TIMESTAMP,
+          review_note TEXT,
+          refund_transaction_id INTEGER REFERENCES transactions(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      // A transaction can be refunded once - a rejected request doesn't count
+      await pool.query(`
+        CREATE UNIQUE INDEX transaction_reversals_open_unique ON transaction_reversals (transaction_id)
+        WHERE status <> 'rejected'
+      `);
+      
+      console.log("Successfully created transaction_reversals table");
+    } else {
+      console.log("Transaction reversals table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating transaction_reversals table:", error);
+    throw error;
+  }
+}
+
+async function createPointLotsTables() {
+  console.log("Checking and creating point_lots tables...");
+  
+  try {
+    const checkLotsTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'point_lots'
+    `);
+    
+    if (checkLotsTable.rows.length === 0) {
+      console.log("Creating point_lots, point_lot_movements and notifications tables...");
+      
+      await pool.query(`
+        CREATE TABLE point_lots (
+          id SERIAL PRIMARY KEY,
+          wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          program loyalty_program NOT NULL,
+          source TEXT NOT NULL,
+          entry_id INTEGER REFERENCES journal_entries(id),
+          amount NUMERIC(20, 2) NOT NULL,
+          remaining NUMERIC(20, 2) NOT NULL,
+          expires_at TIMESTAMP,
+          notified_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX point_lots_open_wallet_idx ON point_lots (wallet_id) WHERE remaining > 0
+      `);
+      await pool.query(`
+        CREATE INDEX point_lots_open_expiry_idx ON point_lots (expires_at) WHERE remaining > 0
+      `);
+      
+      await pool.query(`
+        CREATE TABLE point_lot_movements (
+          id SERIAL PRIMARY KEY,
+          lot_id INTEGER NOT NULL REFERENCES point_lots(id),
+          entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+          amount NUMERIC(20, 2) NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX point_lot_movements_entry_idx ON point_lot_movements (entry_id)
+      `);
+      
+      await pool.query(`
+        CREATE TABLE notifications (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          read_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX notifications_user_idx ON notifications (user_id, created_at)
+      `);
+      
+      // Existing balances become one opening lot per wallet that never expires
+      await pool.query(`
+        INSERT INTO point_lots (wallet_id, user_id, program, source, amount, remaining)
+        SELECT id, user_id, program, 'opening', balance, balance FROM wallets WHERE balance > 0
+      `);
+      
+      console.log("Successfully created point_lots tables");
+    } else {
+      console.log("Point lots tables already exist");
+    }
+  } catch (error) {
+    console.error("Error creating point_lots tables:", error);
+    throw error;
+  }
+}
+
+async function addAccountVerification() {
+  console.log("Checking account verification columns...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'wallets' AND column_name = 'account_status'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding account verification to wallets...");
+      
+      await pool.query(`
+        ALTER TABLE wallets
+          ADD COLUMN account_status TEXT NOT NULL DEFAULT 'unverified',
+          ADD COLUMN account_verified_at TIMESTAMP
+      `);
+      
+      // Accounts linked before verification existed keep working - they count as verified
+      // from now on, and an admin can revoke any that look wrong so the member verifies again.
+      // Accounts linked from here on start unverified.
+      const grandfathered = await pool.query(`
+        UPDATE wallets SET account_status = 'verified', account_verified_at = NOW()
+        WHERE account_number IS NOT NULL
+      `);
+      console.log(`Marked ${grandfathered.rowCount} already linked accounts as verified`);
+      
+      await pool.query(`
+        CREATE TABLE account_verifications (
+          id SERIAL PRIMARY KEY,
+          wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          account_number TEXT NOT NULL,
+          method TEXT NOT NULL,
+          secret_hash TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'pending',
+          expires_at TIMESTAMP NOT NULL,
+          completed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX account_verifications_pending_idx ON account_verifications (wallet_id) WHERE status = 'pending'
+      `);
+      
+      console.log("Successfully added account verification");
+    } else {
+      console.log("Account verification columns already exist");
+    }
+  } catch (error) {
+    console.error("Error adding account verification:", error);
+    throw error;
+  }
+}
+
+async function addTransactionPartnerReference() {
+  console.log("Checking transaction partner reference column...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'transactions' AND column_name = 'partner_reference'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding partner reference to transactions...");
+      
+      await pool.query(`
+        ALTER TABLE transactions ADD COLUMN partner_reference TEXT
+      `);
+      // The partner transfer job looks for pending and submitted transfers
+      await pool.query(`
+        CREATE INDEX transactions_status_updated_idx ON transactions (status, status_updated_at)
+      `);
+      
+      console.log("Successfully added transaction partner reference");
+    } else {
+      console.log("Transaction partner reference column already exists");
+    }
+  } catch (error) {
+    console.error("Error adding transaction partner reference:", error);
+    throw error;
+  }
+}
+
+async function createBalanceSyncsTable() {
+  console.log("Checking balance_syncs table...");
+  
+  try {
+    const checkTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'balance_syncs'
+    `);
+    
+    if (checkTable.rows.length === 0) {
+      console.log("Creating balance_syncs table...");
+      
+      await pool.query(`
+        ALTER TABLE wallets
+          ADD COLUMN partner_balance NUMERIC(20, 2),
+          ADD COLUMN partner_synced_at TIMESTAMP
+      `);
+      
+      await pool.query(`
+        CREATE TABLE balance_syncs (
+          id SERIAL PRIMARY KEY,
+          wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          program loyalty_program NOT NULL,
+          trigger TEXT NOT NULL,
+          status TEXT NOT NULL,
+          expected_balance NUMERIC(20, 2),
+          reported_balance NUMERIC(20, 2),
+          difference NUMERIC(20, 2),
+          entry_id INTEGER REFERENCES journal_entries(id),
+          error TEXT,
+          reviewed_by INTEGER REFERENCES users(id),
+          reviewed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX balance_syncs_wallet_idx ON balance_syncs (wallet_id, created_at DESC)
+      `);
+      await pool.query(`
+        CREATE INDEX balance_syncs_flagged_idx ON balance_syncs (created_at) WHERE status = 'flagged'
+      `);
+      
+      console.log("Successfully created balance_syncs table");
+    } else {
+      console.log("balance_syncs table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating balance_syncs table:", error);
+    throw error;
+  }
+}
+
+async function createPointGiftTables() {
+  console.log("Checking point gift tables...");
+  
+  try {
+    const checkTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'point_gifts'
+    `);
+    
+    if (checkTable.rows.length === 0) {
+      console.log("Creating point gift tables...");
+      
+      await pool.query(`
+        ALTER TABLE tier_benefits
+          ADD COLUMN gift_daily_limit NUMERIC(20, 2) NOT NULL DEFAULT 5000,
+          ADD COLUMN gift_daily_count INTEGER NOT NULL DEFAULT 10
+      `);
+      await pool.query(`
+        UPDATE tier_benefits SET
+          gift_daily_limit = CASE tier WHEN 'SILVER' THEN 15000 WHEN 'GOLD' THEN 50000 WHEN 'PLATINUM' THEN 150000 ELSE 5000 END,
+          gift_daily_count = CASE tier WHEN 'SILVER' THEN 20 WHEN 'GOLD' THEN 40 WHEN 'PLATINUM' THEN 100 ELSE 10 END
+      `);
+      
+      await pool.query(`
+        CREATE TABLE point_requests (
+          id SERIAL PRIMARY KEY,
+          requester_id INTEGER NOT NULL REFERENCES users(id),
+          program loyalty_program NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          message TEXT,
+          token TEXT NOT NULL UNIQUE,
+          status TEXT NOT NULL DEFAULT 'open',
+          paid_by INTEGER REFERENCES users(id),
+          paid_at TIMESTAMP,
+          expires_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE TABLE point_gifts (
+          id SERIAL PRIMARY KEY,
+          sender_id INTEGER NOT NULL REFERENCES users(id),
+          recipient_id INTEGER REFERENCES users(id),
+          recipient_email TEXT,
+          program loyalty_program NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          message TEXT,
+          status TEXT NOT NULL,
+          request_id INTEGER REFERENCES point_requests(id),
+          hold_entry_id INTEGER REFERENCES journal_entries(id),
+          transaction_id INTEGER REFERENCES transactions(id),
+          expires_at TIMESTAMP,
+          responded_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX point_gifts_sender_idx ON point_gifts (sender_id, created_at DESC)
+      `);
+      await pool.query(`
+        CREATE INDEX point_gifts_recipient_idx ON point_gifts (recipient_id, created_at DESC)
+      `);
+      await pool.query(`
+        CREATE INDEX point_gifts_pending_email_idx ON point_gifts (recipient_email) WHERE status = 'pending'
+      `);
+      await pool.query(`
+        CREATE INDEX point_requests_requester_idx ON point_requests (requester_id, created_at DESC)
+      `);
+      
+      console.log("Successfully created point gift tables");
+    } else {
+      console.log("Point gift tables already exist");
+    }
+  } catch (error) {
+    console.error("Error creating point gift tables:", error);
+    throw error;
+  }
+}
+
+async function addTradeOfferFills() {
+  console.log("Checking trade offer fill columns...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'trade_offers' AND column_name = 'amount_remaining'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding fill tracking to trade offers...");
+      
+      await pool.query(`
+        ALTER TABLE trade_offers
+          ADD COLUMN amount_remaining NUMERIC(20, 2),
+          ADD COLUMN fill_count INTEGER NOT NULL DEFAULT 0,
+          ADD COLUMN min_fill_amount NUMERIC(20, 2)
+      `);
+      // Offers so far were all-or-nothing: completed ones filled once, the rest not at all
+      await pool.query(`
+        UPDATE trade_offers SET
+          amount_remaining = CASE status WHEN 'completed' THEN 0 ELSE amount_offered END,
+          fill_count = CASE status WHEN 'completed' THEN 1 ELSE 0 END
+      `);
+      await pool.query(`
+        ALTER TABLE trade_offers ALTER COLUMN amount_remaining SET NOT NULL
+      `);
+      
+      console.log("Successfully added trade offer fill columns");
+    } else {
+      console.log("Trade offer fill columns already exist");
+    }
+  } catch (error) {
+    console.error("Error adding trade offer fill columns:", error);
+    throw error;
+  }
+}
+
+async function addTradeMatching() {
+  console.log("Checking trade matching columns...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'trade_transactions' AND column_name = 'taker_offer_id'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding trade matching columns...");
+      
+      await pool.query(`
+        ALTER TABLE trade_transactions ADD COLUMN taker_offer_id INTEGER REFERENCES trade_offers(id)
+      `);
+      // The matching engine and order book look up open offers by pair, best rate first
+      await pool.query(`
+        CREATE INDEX trade_offers_book_idx ON trade_offers (from_program, to_program, status, custom_rate, created_at)
+      `);
+      
+      console.log("Successfully added trade matching columns");
+    } else {
+      console.log("Trade matching columns already exist");
+    }
+  } catch (error) {
+    console.error("Error adding trade matching columns:", error);
+    throw error;
+  }
+}
+
+async function addTradeOfferExpiryIndex() {
+  console.log("Checking trade offer expiry index...");
+  
+  try {
+    // The expiry sweeper looks for open offers past their expiry
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS trade_offers_expiry_idx ON trade_offers (status, expires_at)
+    `);
+    
+    console.log("Trade offer expiry index is in place");
+  } catch (error) {
+    console.error("Error adding trade offer expiry index:", error);
+    throw error;
+  }
+}
+
+async function backfillDetokenizeType() {
+  console.log("Checking detokenize transaction types...");
+  
+  try {
+    // Burns were recorded as tokenize - they're the ones paid out of xPoints
+    const result = await pool.query(`
+      UPDATE transactions SET type = 'detokenize'
+      WHERE type = 'tokenize' AND from_program = 'XPOINTS'
+    `);
+    
+    console.log(`Marked ${result.rowCount ?? 0} burns as detokenize`);
+  } catch (error) {
+    console.error("Error backfilling detokenize transaction types:", error);
+    throw error;
+  }
+}
+
+async function createEscrowTables() {
+  console.log("Checking escrow tables...");
+  
+  try {
+    const checkTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'escrow_holds'
+    `);
+    
+    if (checkTable.rows.length === 0) {
+      console.log("Creating escrow tables...");
+      
+      await pool.query(`
+        CREATE TABLE escrow_holds (
+          id SERIAL PRIMARY KEY,
+          trade_offer_id INTEGER NOT NULL UNIQUE REFERENCES trade_offers(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+          program loyalty_program NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          amount_held NUMERIC(20, 2) NOT NULL,
+          status TEXT NOT NULL DEFAULT 'held',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          closed_at TIMESTAMP
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX escrow_holds_user_idx ON escrow_holds (user_id, status)
+      `);
+      await pool.query(`
+        CREATE TABLE escrow_movements (
+          id SERIAL PRIMARY KEY,
+          hold_id INTEGER NOT NULL REFERENCES escrow_holds(id),
+          type TEXT NOT NULL,
+          amount NUMERIC(20, 2) NOT NULL,
+          entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+          trade_transaction_id INTEGER REFERENCES trade_transactions(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX escrow_movements_hold_idx ON escrow_movements (hold_id, id)
+      `);
+      
+      // Open offers get a hold for what they still have in escrow. Their earlier fills
+      // aren't broken out - the hold's history starts with the original escrow entry.
+      await pool.query(`
+        INSERT INTO escrow_holds (trade_offer_id, user_id, wallet_id, program, amount, amount_held, created_at)
+        SELECT o.id, o.created_by, w.id, o.from_program, o.amount_offered, o.amount_remaining, o.created_at
+        FROM trade_offers o
+        JOIN wallets w ON w.user_id = o.created_by AND w.program = o.from_program
+        WHERE o.status = 'open'
+      `);
+      await pool.query(`
+        INSERT INTO escrow_movements (hold_id, type, amount, entry_id, created_at)
+        SELECT h.id, 'hold', h.amount, e.id, e.created_at
+        FROM escrow_holds h
+        JOIN journal_entries e ON e.type = 'trade_escrow' AND e.reference = 'trade_offer:' || h.trade_offer_id
+      `);
+      
+      console.log("Successfully created escrow tables");
+    } else {
+      console.log("Escrow tables already exist");
+    }
+  } catch (error) {
+    console.error("Error creating escrow tables:", error);
+    throw error;
+  }
+}
+
+async function createTradeDisputesTable() {
+  console.log("Checking trade_disputes table...");
+  
+  try {
+    const checkTable = await pool.query(`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name = 'trade_disputes'
+    `);
+    
+    if (checkTable.rows.length === 0) {
+      console.log("Creating trade_disputes table...");
+      
+      await pool.query(`
+        CREATE TABLE trade_disputes (
+          id SERIAL PRIMARY KEY,
+          trade_transaction_id INTEGER NOT NULL REFERENCES trade_transactions(id),
+          opened_by INTEGER NOT NULL REFERENCES users(id),
+          reason TEXT NOT NULL,
+          evidence TEXT,
+          status TEXT NOT NULL DEFAULT 'open',
+          resolved_by INTEGER REFERENCES users(id),
+          resolved_at TIMESTAMP,
+          resolution_note TEXT,
+          refund_amount NUMERIC(20, 2),
+          refund_entry_id INTEGER REFERENCES journal_entries(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      
+      // A trade has at most one dispute waiting on review
+      await pool.query(`
+        CREATE UNIQUE INDEX trade_disputes_open_unique ON trade_disputes (trade_transaction_id)
+        WHERE status = 'open'
+      `);
+      await pool.query(`
+        CREATE INDEX trade_disputes_status_idx ON trade_disputes (status, id)
+      `);
+      
+      console.log("Successfully created trade_disputes table");
+    } else {
+      console.log("Trade disputes table already exists");
+    }
+  } catch (error) {
+    console.error("Error creating trade_disputes table:", error);
+    throw error;
+  }
+}
+
+async function addGiftClaimCodes() {
+  console.log("Checking gift claim code column...");
+  
+  try {
+    const checkColumn = await pool.query(`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name = 'point_gifts' AND column_name = 'claim_code_hash'
+    `);
+    
+    if (checkColumn.rows.length === 0) {
+      console.log("Adding claim codes to point_gifts...");
+      
+      // Gifts already waiting have no code, so nobody can answer them - they go back to
+      // their senders when they expire, or the sender can cancel and send them again
+      await pool.query(`
+        ALTER TABLE point_gifts ADD COLUMN claim_code_hash TEXT
+      `);
+      
+      console.log("Successfully added gift claim codes");
+    } else {
+      console.log("Gift claim code column already exists");
+    }
+  } catch (error) {
+    console.error("Error adding gift claim codes:", error);
+    throw error;
+  }
+}
+
 async function main() {
   try {
     await addMissingColumnsToUsers();
+    await createLedgerTables();
+    await backfillOpeningBalances();
+    await createIdempotencyKeysTable();
+    await createConversionQuotesTable();
+    await createTierHistoryTable();
+    await createTransferBonusesTable();
+    await createConversionOrdersTable();
+    await createSweepTables();
+    await migratePointsColumns();
+    await addTransactionTypeColumn();
+    await createStatementsTable();
+    await createReconciliationTables();
+    await addTransactionLifecycle();
+    await createTransactionReversalsTable();
+    await createPointLotsTables();
+    await addAccountVerification();
+    await addTransactionPartnerReference();
+    await createBalanceSyncsTable();
+    await createPointGiftTables();
+    await addGiftClaimCodes();
+    await addTradeOfferFills();
+    await addTradeMatching();
+    await addTradeOfferExpiryIndex();
+    await backfillDetokenizeType();
+    await createEscrowTables();
+    await createTradeDisputesTable();
+    await addConversionOrderCloseReason();
     await pool.end();
     console.log("Migration completed and connection closed");
   } catch (error) {
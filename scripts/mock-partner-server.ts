@@ -0,0 +1,18 @@
+import { startMockPartnerServer } from "../server/partners/mockServer";
+
+/**
+ * Runs the mock partner server for local development. Point the app at it with
+ * PARTNERS_ENABLED=true (PARTNER_API_URL defaults to http://localhost:5055).
+ */
+async function main() {
+  const port = parseInt(process.env.MOCK_PARTNER_PORT || "5055", 10);
+  await startMockPartnerServer(port, {
+    settleDelayMs: parseInt(process.env.MOCK_PARTNER_SETTLE_DELAY_MS || "0", 10)
+  });
+  console.log(`Mock partner server listening on port ${port}`);
+}
+
+main().catch(error => {
+  console.error("Mock partner server failed to start:", error);
+  process.exit(1);
+});
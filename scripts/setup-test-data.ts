@@ -1,5 +1,6 @@
 import { storage } from "../server/storage";
 import { LoyaltyProgram } from "../shared/schema";
+import { issuancePostings } from "../server/services/ledgerService";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 
@@ -60,10 +61,15 @@ async function setupTestData() {
         const wallet = await storage.createWallet({
           userId: user.id,
           program: walletData.program,
-          balance: walletData.balance,
           accountNumber: walletData.accountNumber || null,
           accountName: walletData.accountName || null,
         });
+        
+        // Balances only change through the ledger, so seed them as issued points
+        await storage.postJournalEntry(
+          { userId: user.id, type: "adjustment", reference: "seed:setup-test-data", description: "Test data opening balance" },
+          issuancePostings(wallet.id, walletData.program, walletData.balance)
+        );
         console.log(`Created ${walletData.program} wallet with ID ${wallet.id}`);
       } else {
         console.log(`${walletData.program} wallet already exists`);
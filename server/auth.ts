@@ -5,7 +5,9 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { config } from "./config";
+import { giftService } from "./services/giftService";
+import { User as SelectUser, SessionUser, insertUserSchema } from "@shared/schema";
 import { z } from "zod";
 
 declare global {
@@ -29,6 +31,16 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+export function isAdmin(user: SelectUser): boolean {
+  return config.admin.usernames.includes(user.username);
+}
+
+// User as returned to the client - without the password, with whether they can administer
+function toSessionUser(user: SelectUser): Omit<SessionUser, "password"> {
+  const { password, ...userWithoutPassword } = user;
+  return { ...userWithoutPassword, isAdmin: isAdmin(user) };
+}
+
 // Middleware to ensure user has admin role
 import { Request, Response, NextFunction } from "express";
 
@@ -37,9 +49,8 @@ export function ensureAdmin(req: Request, res: Response, next: NextFunction) {
     return res.status(401).json({ message: "Not authenticated" });
   }
   
-  // Check if user is an admin (username is "admin" for now)
-  // In a real application, you would check a role field in the user object
-  if (req.user.username !== "admin") {
+  // Admins are the usernames listed in config.admin - there's no role field on users yet
+  if (!isAdmin(req.user)) {
     return res.status(403).json({ message: "Not authorized, admin access required" });
   }
   
@@ -113,12 +124,13 @@ export function setupAuth(app: Express) {
         password: await hashPassword(validatedData.password),
       });
       
+      // Let them know about points sent to their email before they joined
+      await giftService.announceInvitations(user);
+      
       // Log the user in
       req.login(user, (err) => {
         if (err) return next(err);
-        // Return user object without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json(toSessionUser(user));
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -138,9 +150,7 @@ export function setupAuth(app: Express) {
       
       req.login(user, (err: Error | null) => {
         if (err) return next(err);
-        // Return user object without password
-        const { password, ...userWithoutPassword } = user;
-        return res.status(200).json(userWithoutPassword);
+        return res.status(200).json(toSessionUser(user));
       });
     })(req, res, next);
   });
@@ -154,8 +164,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    // Return user object without password
-    const { password, ...userWithoutPassword } = req.user as SelectUser;
-    res.json(userWithoutPassword);
+    res.json(toSessionUser(req.user as SelectUser));
   });
 }
@@ -1,6 +1,10 @@
 import { ethers } from 'ethers';
 import { storage } from '../storage';
-import { Transaction, LoyaltyProgram } from '@shared/schema';
+import { Transaction, LoyaltyProgram, TransactionStatus } from '@shared/schema';
+import { getOrCreateWallet, conversionPostings } from '../services/ledgerService';
+import { assertVerifiedDestination } from '../services/accountLinkService';
+import { multiplyPoints } from '@shared/money';
+import { InsufficientBalanceError, ServiceError } from '../errors';
 
 // Configuration for blockchain
 const BLOCKCHAIN_CONFIG = {
@@ -9,6 +13,16 @@ const BLOCKCHAIN_CONFIG = {
   tokenContractAddress: process.env.TOKEN_CONTRACT_ADDRESS || '0x0000000000000000000000000000000000000000'
 };
 
+// On-chain details recorded alongside a token conversion
+interface TokenChainRecord {
+  status: TransactionStatus;
+  recipientId: number;
+  transactionHash: string;
+  blockNumber: number;
+  contractAddress: string;
+  tokenAddress: string;
+}
+
 // ABI for the xPoints Token smart contract
 const XPT_ABI = [
   // Read functions
@@ -190,55 +204,24 @@ export class TokenService {
       // Verify the user has sufficient loyalty points
       const wallet = await storage.getWallet(userId, loyaltyProgram);
       if (!wallet || wallet.balance < amount) {
-        throw new Error('Insufficient loyalty points');
+        throw new InsufficientBalanceError('Insufficient loyalty points');
       }
       
       // Check if blockchain integration is available
       if (!this.provider || !this.adminWallet || !this.contract) {
         console.log("Blockchain integration unavailable, using fallback mechanism for token minting");
         
-        // Execute the fallback flow - Updating database directly
-        // Update source wallet - reduce balance
-        await storage.updateWalletBalance(wallet.id, wallet.balance - amount);
-        
-        // Get or create XPOINTS wallet
-        let xpointsWallet = await storage.getWallet(userId, "XPOINTS");
-        if (!xpointsWallet) {
-          xpointsWallet = await storage.createWallet({
-            userId,
-            program: "XPOINTS",
-            balance: 0,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
         // Determine the token amount based on exchange rate (same as blockchain flow)
         const exchangeRate = await storage.getExchangeRate(loyaltyProgram, 'XPOINTS');
         if (!exchangeRate) {
-          throw new Error('Exchange rate not found');
+          throw new ServiceError('Exchange rate not found', 404, 'RATE_NOT_FOUND');
         }
         
-        const tokenAmount = amount * parseFloat(exchangeRate.rate);
-        
-        // Update XPOINTS wallet - add tokens based on exchange rate
-        await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance + tokenAmount);
-        
-        // Update user's token balance in database
-        const user = await storage.getUser(userId);
-        if (user) {
-          await storage.updateTokenBalance(userId, (user.tokenBalance || 0) + tokenAmount);
-        }
+        const tokenAmount = multiplyPoints(amount, exchangeRate.rate, 'XPOINTS', 'down');
         
-        // Create transaction record
-        await storage.createTransaction({
-          userId,
-          fromProgram: loyaltyProgram,
-          toProgram: "XPOINTS",
-          amountFrom: amount,
-          amountTo: tokenAmount,
-          feeApplied: 0,
-          status: "completed",
+        // Execute the fallback flow - Posting the conversion to the ledger directly
+        await this.recordTokenConversion(userId, loyaltyProgram, 'XPOINTS', amount, tokenAmount, {
+          status: "settled",
           recipientId: userId, // Use the user's own ID as recipient
           transactionHash: "fallback-" + Date.now(),
           blockNumber: 0,
@@ -257,10 +240,10 @@ export class TokenService {
         // Determine the token amount based on exchange rate
         const exchangeRate = await storage.getExchangeRate(loyaltyProgram, 'XPOINTS');
         if (!exchangeRate) {
-          throw new Error('Exchange rate not found');
+          throw new ServiceError('Exchange rate not found', 404, 'RATE_NOT_FOUND');
         }
         
-        const tokenAmount = amount * parseFloat(exchangeRate.rate);
+        const tokenAmount = multiplyPoints(amount, exchangeRate.rate, 'XPOINTS', 'down');
         
         // Deposit loyalty points to the contract
         await this.contract.depositLoyaltyPoints(loyaltyProgram, amount);
@@ -274,34 +257,11 @@ export class TokenService {
         // Wait for transaction to be mined
         await tx.wait();
         
-        // Update wallet balances in the database
-        await storage.updateWalletBalance(wallet.id, wallet.balance - amount);
-        
-        // Update or create XPOINTS wallet
-        const xpointsWallet = await storage.getWallet(userId, 'XPOINTS');
-        if (xpointsWallet) {
-          await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance + tokenAmount);
-        } else {
-          await storage.createWallet({
-            userId,
-            program: 'XPOINTS',
-            balance: tokenAmount,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
-        // Record the transaction
-        await storage.createTransaction({
-          userId,
-          fromProgram: loyaltyProgram,
-          toProgram: 'XPOINTS',
-          amountFrom: amount,
-          amountTo: tokenAmount,
-          feeApplied: 0,
-          status: 'completed',
+        // Post the conversion to the ledger
+        await this.recordTokenConversion(userId, loyaltyProgram, 'XPOINTS', amount, tokenAmount, {
+          status: 'settled',
           recipientId: userId, // Use the user's own ID as recipient
-          transactionHash: tx.hash, 
+          transactionHash: tx.hash,
           blockNumber: (await tx.wait()).blockNumber || 0,
           contractAddress: BLOCKCHAIN_CONFIG.tokenContractAddress,
           tokenAddress: BLOCKCHAIN_CONFIG.tokenContractAddress
@@ -312,48 +272,17 @@ export class TokenService {
         // If blockchain operation fails, log error and fall back to database-only approach
         console.error('Blockchain operation failed, using fallback mechanism:', blockchainError);
         
-        // Execute the fallback flow - Updating database directly
-        // Update source wallet - reduce balance
-        await storage.updateWalletBalance(wallet.id, wallet.balance - amount);
-        
-        // Get or create XPOINTS wallet
-        let xpointsWallet = await storage.getWallet(userId, "XPOINTS");
-        if (!xpointsWallet) {
-          xpointsWallet = await storage.createWallet({
-            userId,
-            program: "XPOINTS",
-            balance: 0,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
         // Determine the token amount based on exchange rate
         const exchangeRate = await storage.getExchangeRate(loyaltyProgram, 'XPOINTS');
         if (!exchangeRate) {
-          throw new Error('Exchange rate not found');
+          throw new ServiceError('Exchange rate not found', 404, 'RATE_NOT_FOUND');
         }
         
-        const tokenAmount = amount * parseFloat(exchangeRate.rate);
-        
-        // Update XPOINTS wallet - add tokens based on exchange rate
-        await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance + tokenAmount);
-        
-        // Update user's token balance in database
-        const user = await storage.getUser(userId);
-        if (user) {
-          await storage.updateTokenBalance(userId, (user.tokenBalance || 0) + tokenAmount);
-        }
+        const tokenAmount = multiplyPoints(amount, exchangeRate.rate, 'XPOINTS', 'down');
         
-        // Create transaction record with fallback identification
-        await storage.createTransaction({
-          userId,
-          fromProgram: loyaltyProgram,
-          toProgram: "XPOINTS",
-          amountFrom: amount,
-          amountTo: tokenAmount,
-          feeApplied: 0,
-          status: "completed",
+        // Execute the fallback flow - Posting the conversion to the ledger directly
+        await this.recordTokenConversion(userId, loyaltyProgram, 'XPOINTS', amount, tokenAmount, {
+          status: "settled",
           recipientId: userId, // Use the user's own ID as recipient
           transactionHash: "fallback-blockchain-error-" + Date.now(),
           blockNumber: 0,
@@ -373,6 +302,10 @@ export class TokenService {
    * Burns tokens when a user converts XPT back to loyalty points
    */
   async burnTokens(userId: number, targetProgram: LoyaltyProgram, tokenAmount: number): Promise<boolean> {
+    // Points only go out to a verified partner account - checked before anything is burned
+    const targetWallet = await storage.getWallet(userId, targetProgram);
+    assertVerifiedDestination(targetWallet ?? { program: targetProgram, accountStatus: 'unverified' });
+    
     try {
       // Get user's XPoints wallet
       const xpointsWallet = await storage.getWallet(userId, 'XPOINTS');
@@ -387,45 +320,14 @@ export class TokenService {
       }
       
       // Calculate loyalty points amount
-      const loyaltyAmount = tokenAmount * parseFloat(exchangeRate.rate);
+      const loyaltyAmount = multiplyPoints(tokenAmount, exchangeRate.rate, targetProgram, 'down');
       
       // Check if blockchain integration is available
       if (!this.provider || !this.adminWallet || !this.contract) {
         console.log("Blockchain integration unavailable, simulating token burning");
         
-        // Update XPOINTS wallet - reduce balance
-        await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance - tokenAmount);
-        
-        // Update user's token balance in database
-        const user = await storage.getUser(userId);
-        if (user) {
-          await storage.updateTokenBalance(userId, Math.max(0, (user.tokenBalance || 0) - tokenAmount));
-        }
-        
-        // Get or create target program wallet
-        let targetWallet = await storage.getWallet(userId, targetProgram);
-        if (!targetWallet) {
-          targetWallet = await storage.createWallet({
-            userId,
-            program: targetProgram,
-            balance: 0,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
-        // Update target wallet - add loyalty points
-        await storage.updateWalletBalance(targetWallet.id, targetWallet.balance + loyaltyAmount);
-        
-        // Create transaction record
-        await storage.createTransaction({
-          userId,
-          fromProgram: 'XPOINTS',
-          toProgram: targetProgram,
-          amountFrom: tokenAmount,
-          amountTo: loyaltyAmount,
-          feeApplied: 0,
-          status: 'completed',
+        await this.recordTokenConversion(userId, 'XPOINTS', targetProgram, tokenAmount, loyaltyAmount, {
+          status: 'settled',
           recipientId: 0,
           transactionHash: "simulated-burn-" + Date.now(),
           blockNumber: 0,
@@ -461,34 +363,11 @@ export class TokenService {
         // Withdraw loyalty points from contract
         await this.contract.withdrawLoyaltyPoints(targetProgram, loyaltyAmount);
         
-        // Update XPoints wallet balance
-        await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance - tokenAmount);
-        
-        // Update or create target program wallet
-        let targetWallet = await storage.getWallet(userId, targetProgram);
-        if (targetWallet) {
-          await storage.updateWalletBalance(targetWallet.id, targetWallet.balance + loyaltyAmount);
-        } else {
-          await storage.createWallet({
-            userId,
-            program: targetProgram,
-            balance: loyaltyAmount,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
-        // Record the transaction
-        await storage.createTransaction({
-          userId,
-          fromProgram: 'XPOINTS',
-          toProgram: targetProgram,
-          amountFrom: tokenAmount,
-          amountTo: loyaltyAmount,
-          feeApplied: 0,
-          status: 'completed',
+        // Post the conversion to the ledger
+        await this.recordTokenConversion(userId, 'XPOINTS', targetProgram, tokenAmount, loyaltyAmount, {
+          status: 'settled',
           recipientId: 0,
-          transactionHash: tx.hash, 
+          transactionHash: tx.hash,
           blockNumber: (await tx.wait()).blockNumber || 0,
           contractAddress: BLOCKCHAIN_CONFIG.tokenContractAddress,
           tokenAddress: BLOCKCHAIN_CONFIG.tokenContractAddress
@@ -501,33 +380,8 @@ export class TokenService {
         // If there's a blockchain error, we can still perform the operation in the database
         console.log("Falling back to database operation for token burning");
         
-        // Update XPOINTS wallet - reduce balance
-        await storage.updateWalletBalance(xpointsWallet.id, xpointsWallet.balance - tokenAmount);
-        
-        // Get or create target program wallet
-        let targetWallet = await storage.getWallet(userId, targetProgram);
-        if (!targetWallet) {
-          targetWallet = await storage.createWallet({
-            userId,
-            program: targetProgram,
-            balance: 0,
-            accountNumber: null,
-            accountName: null
-          });
-        }
-        
-        // Update target wallet - add loyalty points
-        await storage.updateWalletBalance(targetWallet.id, targetWallet.balance + loyaltyAmount);
-        
-        // Create fallback transaction record
-        await storage.createTransaction({
-          userId,
-          fromProgram: 'XPOINTS',
-          toProgram: targetProgram,
-          amountFrom: tokenAmount,
-          amountTo: loyaltyAmount,
-          feeApplied: 0,
-          status: 'completed-fallback',
+        await this.recordTokenConversion(userId, 'XPOINTS', targetProgram, tokenAmount, loyaltyAmount, {
+          status: 'settled', // The fallback- hash marks it as recorded without the chain
           recipientId: 0,
           transactionHash: "fallback-" + Date.now(),
           blockNumber: 0,
@@ -543,6 +397,69 @@ export class TokenService {
     }
   }
   
+  /**
+   * Posts a mint or burn to the ledger, keeps the user's token balance in step and
+   * records the transaction - all in one database transaction
+   */
+  private async recordTokenConversion(
+    userId: number,
+    fromProgram: LoyaltyProgram,
+    toProgram: LoyaltyProgram,
+    amountFrom: number,
+    amountTo: number,
+    chainRecord: TokenChainRecord
+  ): Promise<Transaction> {
+    const isMint = toProgram === 'XPOINTS';
+    
+    return storage.withTransaction(async (tx) => {
+      // Lock the user before posting moves the wallets, the same order conversions take the
+      // locks in - reconciliation resets the token balance under this lock too
+      const user = await tx.lockUser(userId);
+      
+      const sourceWallet = await tx.getWallet(userId, fromProgram);
+      if (!sourceWallet) {
+        throw new Error(`${fromProgram} wallet not found`);
+      }
+      const destWallet = await getOrCreateWallet(tx, userId, toProgram);
+      
+      const posted = await tx.postJournalEntry(
+        {
+          userId,
+          type: isMint ? 'tokenize' : 'detokenize',
+          reference: chainRecord.transactionHash,
+          description: `${fromProgram} to ${toProgram}`
+        },
+        conversionPostings({
+          sourceWalletId: sourceWallet.id,
+          destWalletId: destWallet.id,
+          fromProgram,
+          toProgram,
+          amountFrom,
+          amountTo,
+          fee: 0
+        })
+      );
+      
+      // Update user's token balance in database
+      if (user) {
+        const tokenDelta = isMint ? amountTo : -amountFrom;
+        await tx.updateTokenBalance(userId, Math.max(0, (user.tokenBalance || 0) + tokenDelta));
+      }
+      
+      return tx.createTransaction({
+        userId,
+        fromProgram,
+        toProgram,
+        amountFrom,
+        amountTo,
+        feeApplied: 0,
+        type: isMint ? 'tokenize' : 'detokenize',
+        ...chainRecord,
+        journalEntryId: posted.entry.id
+      });
+    });
+  }
+  
   /**
    * Gets the total supply of tokens
    */
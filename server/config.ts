@@ -1,3 +1,13 @@
+// "KEY=value,KEY=value" from an environment variable
+function parsePairs(value: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (value || '').split(',').filter(Boolean).map(pair => {
+      const [key, ...rest] = pair.split('=');
+      return [key.trim(), rest.join('=').trim()];
+    })
+  );
+}
+
 /**
  * Application configuration
  */
@@ -20,6 +30,79 @@ export const config = {
     feePercentage: 0.5,
     feeThreshold: 10000, // No fees below this amount
   },
+  conversion: {
+    quoteTtlSeconds: parseInt(process.env.CONVERSION_QUOTE_TTL_SECONDS || '60', 10), // How long a quoted rate is honoured
+    maxRouteHops: parseInt(process.env.CONVERSION_MAX_ROUTE_HOPS || '3', 10), // Longest route the router will consider
+    hopFeeRate: parseFloat(process.env.CONVERSION_HOP_FEE_RATE || '0.001'), // Fee per hop after the first, as a share of the amount
+  },
+  jobs: {
+    enabled: process.env.BACKGROUND_JOBS_ENABLED !== 'false',
+    tierReviewIntervalMinutes: parseInt(process.env.TIER_REVIEW_INTERVAL_MINUTES || '60', 10),
+    orderExpiryIntervalMinutes: parseInt(process.env.ORDER_EXPIRY_INTERVAL_MINUTES || '5', 10),
+    sweepIntervalMinutes: parseInt(process.env.SWEEP_INTERVAL_MINUTES || '5', 10),
+    statementIntervalMinutes: parseInt(process.env.STATEMENT_INTERVAL_MINUTES || '60', 10), // Last month's statements are generated on the first run after it ends
+    reconciliationIntervalMinutes: parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '360', 10),
+    lotExpiryIntervalMinutes: parseInt(process.env.LOT_EXPIRY_INTERVAL_MINUTES || '1440', 10), // Nightly
+    partnerTransferIntervalMinutes: parseInt(process.env.PARTNER_TRANSFER_INTERVAL_MINUTES || '1', 10),
+    balanceSyncIntervalMinutes: parseInt(process.env.BALANCE_SYNC_INTERVAL_MINUTES || '360', 10), // Also how stale a balance gets before it's synced
+    giftExpiryIntervalMinutes: parseInt(process.env.GIFT_EXPIRY_INTERVAL_MINUTES || '60', 10),
+    tradeExpiryIntervalMinutes: parseInt(process.env.TRADE_EXPIRY_INTERVAL_MINUTES || '5', 10),
+    tradeRematchIntervalMinutes: parseInt(process.env.TRADE_REMATCH_INTERVAL_MINUTES || '1', 10),
+  },
+  sweeps: {
+    maxAttempts: parseInt(process.env.SWEEP_MAX_ATTEMPTS || '3', 10), // Tries per scheduled run before waiting for the next one
+    retryDelayMinutes: parseInt(process.env.SWEEP_RETRY_DELAY_MINUTES || '15', 10), // Doubles after each failed attempt
+  },
+  lots: {
+    // Days until credited points expire, per program, e.g. "QANTAS=540,VELOCITY=730". Unlisted programs never expire
+    expiryDays: Object.fromEntries(
+      (process.env.POINTS_EXPIRY_DAYS || '').split(',').filter(Boolean).map(pair => {
+        const [program, days] = pair.split('=');
+        return [program.trim(), parseInt(days, 10)];
+      })
+    ) as Record<string, number>,
+    consumptionOrder: (process.env.LOT_CONSUMPTION_ORDER === 'fifo' ? 'fifo' : 'soonest_expiry') as 'fifo' | 'soonest_expiry', // Which lots spending draws on first
+    expiryNoticeDays: parseInt(process.env.LOT_EXPIRY_NOTICE_DAYS || '14', 10), // How far ahead owners are told about expiring points
+  },
+  partners: {
+    enabled: process.env.PARTNERS_ENABLED === 'true', // Off: partner balances are only what our ledger says
+    baseUrl: process.env.PARTNER_API_URL || 'http://localhost:5055', // The mock partner server (npm run partners:mock)
+    // Per-program overrides, e.g. "QANTAS=https://api.qantas.example". Unlisted programs use baseUrl
+    urls: parsePairs(process.env.PARTNER_API_URLS),
+    apiKeys: parsePairs(process.env.PARTNER_API_KEYS), // Same format; sent as a bearer token
+    timeoutMs: parseInt(process.env.PARTNER_TIMEOUT_MS || '5000', 10), // Per attempt
+    maxRetries: parseInt(process.env.PARTNER_MAX_RETRIES || '2', 10), // Only for timeouts, network errors and 5xx
+    retryDelayMs: parseInt(process.env.PARTNER_RETRY_DELAY_MS || '250', 10), // Doubles after each attempt
+    breakerThreshold: parseInt(process.env.PARTNER_BREAKER_THRESHOLD || '5', 10), // Failed calls in a row before a program is cut off
+    breakerCooldownMs: parseInt(process.env.PARTNER_BREAKER_COOLDOWN_MS || '30000', 10), // Until one trial call is let through
+  },
+  balanceSync: {
+    // A difference is flagged for review, not applied, when it is at least this many points...
+    flagMinPoints: parseInt(process.env.BALANCE_SYNC_FLAG_MIN_POINTS || '1000', 10),
+    // ...and at least this share of the expected balance
+    flagShare: parseFloat(process.env.BALANCE_SYNC_FLAG_SHARE || '0.2'),
+    manualCooldownSeconds: parseInt(process.env.BALANCE_SYNC_MANUAL_COOLDOWN_SECONDS || '60', 10), // Between refreshes a user asks for
+  },
+  gifts: {
+    inviteExpiryDays: parseInt(process.env.GIFT_INVITE_EXPIRY_DAYS || '14', 10), // Before a gift to an unregistered email goes back
+    requestExpiryDays: parseInt(process.env.POINT_REQUEST_EXPIRY_DAYS || '7', 10),
+    minAccountAgeHours: parseInt(process.env.GIFT_MIN_ACCOUNT_AGE_HOURS || '24', 10), // New accounts can't send points straight away
+    maxPendingInvites: parseInt(process.env.GIFT_MAX_PENDING_INVITES || '5', 10), // Unclaimed gifts to unregistered emails per sender
+    maxOpenRequests: parseInt(process.env.POINT_REQUEST_MAX_OPEN || '10', 10),
+  },
+  trades: {
+    expiringSoonHours: parseInt(process.env.TRADE_EXPIRING_SOON_HOURS || '24', 10), // When an owner is offered the chance to extend an open offer
+    maxExpiryDays: parseInt(process.env.TRADE_MAX_EXPIRY_DAYS || '30', 10), // Furthest ahead an extension can push an offer's expiry
+    disputeWindowDays: parseInt(process.env.TRADE_DISPUTE_WINDOW_DAYS || '14', 10), // How long after a trade either party can dispute it
+  },
+  admin: {
+    usernames: (process.env.ADMIN_USERNAMES || 'admin').split(',').map(name => name.trim()).filter(Boolean), // Comma-separated
+  },
+  webhooks: {
+    url: process.env.WEBHOOK_URL || '', // Receives transaction lifecycle events; unset disables delivery
+    secret: process.env.WEBHOOK_SECRET || 'xpoints-webhook-secret', // Signs each delivery's body
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+  },
   security: {
     jwtSecret: process.env.JWT_SECRET || 'xpoints-jwt-secret',
     jwtExpiresIn: '1d',
@@ -0,0 +1,10 @@
+/**
+ * One CSV record (RFC 4180): fields with commas, quotes or line breaks are quoted,
+ * null and undefined become empty fields
+ */
+export function csvLine(values: readonly unknown[]): string {
+  return values.map(value => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(",") + "\r\n";
+}
@@ -1,5 +1,6 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonQueryResultHKT } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -13,6 +14,9 @@ if (!process.env.DATABASE_URL) {
 
 console.log("Connecting to PostgreSQL database...");
 
+// The root connection or an open transaction - storage queries run against either
+export type DbExecutor = PgDatabase<NeonQueryResultHKT, Record<string, unknown>>;
+
 // Create robust database connection with error handling
 let pool: Pool;
 let db: ReturnType<typeof drizzle>;
@@ -59,7 +63,8 @@ try {
     select: () => ({ from: () => ({ where: () => [] }) }),
     insert: () => ({ values: () => ({ returning: () => [] }) }),
     update: () => ({ set: () => ({ where: () => ({ returning: () => [] }) }) }),
-    delete: () => ({ where: () => ({ returning: () => [] }) })
+    delete: () => ({ where: () => ({ returning: () => [] }) }),
+    transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(db)
   } as unknown as ReturnType<typeof drizzle>;
 }
 
@@ -0,0 +1,49 @@
+/**
+ * Error raised by services and storage for failures the client can act on.
+ * Route handlers translate it into an HTTP response using `status` and `code`.
+ */
+export class ServiceError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(message: string, status = 400, code = "BAD_REQUEST") {
+    super(message);
+    this.name = "ServiceError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a ledger posting would take a wallet below zero
+ */
+export class InsufficientBalanceError extends ServiceError {
+  constructor(message = "Insufficient balance") {
+    super(message, 400, "INSUFFICIENT_BALANCE");
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+/**
+ * Raised when a transaction is moved to a status its lifecycle doesn't allow from where it is
+ */
+export class InvalidTransitionError extends ServiceError {
+  constructor(from: string, to: string) {
+    super(`Transaction cannot move from ${from} to ${to}`, 409, "INVALID_TRANSITION");
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/**
+ * Raised when a partner program's API fails or turns a request down. `retryable` failures
+ * (timeouts, network errors, 5xx) may go through if tried again; the rest won't.
+ */
+export class PartnerError extends ServiceError {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean, status = 502, code = "PARTNER_ERROR") {
+    super(message, status, code);
+    this.name = "PartnerError";
+    this.retryable = retryable;
+  }
+}
@@ -0,0 +1,143 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import type { IdempotencyKey } from "@shared/schema";
+
+// How long a stored response can be replayed for the same key
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so the same body always hashes the same way
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function hashRequest(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${req.originalUrl}\n${canonicalJson(req.body ?? null)}`)
+    .digest("hex");
+}
+
+function replay(res: Response, record: IdempotencyKey) {
+  res.setHeader("Idempotent-Replayed", "true");
+  const status = record.responseStatus ?? 200;
+  if (record.responseBody === null) {
+    return res.sendStatus(status);
+  }
+  return res.status(status).json(JSON.parse(record.responseBody));
+}
+
+/**
+ * Makes a money-moving endpoint safe to retry.
+ *
+ * When the client sends an `Idempotency-Key` header the first response for that key
+ * is stored; a retry with the same key and body gets the stored response back instead
+ * of running the operation again, and reusing the key for a different request is a 409.
+ * Server errors (5xx) are not stored so the client can retry them.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  if (!key) {
+    return next();
+  }
+
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      code: "INVALID_IDEMPOTENCY_KEY"
+    });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const requestHash = hashRequest(req);
+
+    let existing = await storage.getIdempotencyKey(userId, key);
+    if (existing && existing.expiresAt.getTime() < Date.now()) {
+      await storage.deleteIdempotencyKey(existing.id);
+      existing = undefined;
+    }
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        return res.status(409).json({
+          message: "Idempotency-Key was already used for a different request",
+          code: "IDEMPOTENCY_KEY_MISMATCH"
+        });
+      }
+
+      if (existing.status !== "completed") {
+        return res.status(409).json({
+          message: "A request with this Idempotency-Key is still being processed",
+          code: "IDEMPOTENCY_KEY_IN_PROGRESS"
+        });
+      }
+
+      return replay(res, existing);
+    }
+
+    const record = await storage.createIdempotencyKey({
+      userId,
+      key,
+      method: req.method,
+      path: req.originalUrl,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS)
+    });
+
+    // Another request with the same key got in first
+    if (!record) {
+      return res.status(409).json({
+        message: "A request with this Idempotency-Key is still being processed",
+        code: "IDEMPOTENCY_KEY_IN_PROGRESS"
+      });
+    }
+
+    // Store the response once the handler has produced it, or release the key if it failed.
+    // A client that disconnects early doesn't count: the operation is still running, so the
+    // key stays in progress until the handler finishes and its response is stored as usual.
+    let settled = false;
+    let responseBody: unknown;
+    const settle = (status: number) => {
+      if (settled) return;
+      settled = true;
+
+      const saved = status >= 500
+        ? storage.deleteIdempotencyKey(record.id)
+        : storage.completeIdempotencyKey(record.id, status, responseBody === undefined ? null : JSON.stringify(responseBody));
+
+      saved.catch(error => console.error(`Error saving response for idempotency key ${record.id}:`, error));
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    // Every way of responding - json, sendStatus, or Express's error handler - ends here
+    const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.end = ((...args: unknown[]) => {
+      settle(res.statusCode);
+      return originalEnd(...args);
+    }) as Response["end"];
+
+    next();
+  } catch (error) {
+    console.error("Error checking idempotency key:", error);
+    res.status(500).json({ message: "Failed to process Idempotency-Key" });
+  }
+}
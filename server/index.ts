@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
 import { storage } from "./storage";
+import { startBackgroundJobs } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -59,6 +60,8 @@ app.use((req, res, next) => {
   } catch (error) {
     console.error("Error initializing exchange rates:", error);
   }
+  
+  startBackgroundJobs();
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -0,0 +1,112 @@
+import { config } from "./config";
+import { log } from "./vite";
+import { tierService } from "./services/tierService";
+import { conversionOrderService } from "./services/conversionOrderService";
+import { sweepService } from "./services/sweepService";
+import { statementService } from "./services/statementService";
+import { reconciliationService } from "./services/reconciliationService";
+import { lotService } from "./services/lotService";
+import { partnerTransferService } from "./services/partnerTransferService";
+import { balanceSyncService } from "./services/balanceSyncService";
+import { giftService } from "./services/giftService";
+import { tradeService } from "./services/tradeService";
+
+interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const jobs: BackgroundJob[] = [
+  {
+    name: "tier-review",
+    intervalMs: config.jobs.tierReviewIntervalMinutes * 60 * 1000,
+    run: () => tierService.reviewTiers()
+  },
+  {
+    // Orders execute when rates update; this only releases the ones past their date
+    name: "conversion-order-expiry",
+    intervalMs: config.jobs.orderExpiryIntervalMinutes * 60 * 1000,
+    run: () => conversionOrderService.expireOrders()
+  },
+  {
+    name: "sweeps",
+    intervalMs: config.jobs.sweepIntervalMinutes * 60 * 1000,
+    run: () => sweepService.runDueSweeps()
+  },
+  {
+    name: "statements",
+    intervalMs: config.jobs.statementIntervalMinutes * 60 * 1000,
+    run: () => statementService.generateMonthlyStatements()
+  },
+  {
+    name: "reconciliation",
+    intervalMs: config.jobs.reconciliationIntervalMinutes * 60 * 1000,
+    run: () => reconciliationService.runReconciliation()
+  },
+  {
+    name: "lot-expiry",
+    intervalMs: config.jobs.lotExpiryIntervalMinutes * 60 * 1000,
+    run: () => lotService.runExpiry()
+  },
+  {
+    // Transfers normally go to the partner as they're made; this catches the ones that didn't
+    name: "partner-transfers",
+    intervalMs: config.jobs.partnerTransferIntervalMinutes * 60 * 1000,
+    run: () => partnerTransferService.processTransfers()
+  },
+  {
+    name: "balance-sync",
+    intervalMs: config.jobs.balanceSyncIntervalMinutes * 60 * 1000,
+    run: () => balanceSyncService.runScheduledSync()
+  },
+  {
+    name: "gift-expiry",
+    intervalMs: config.jobs.giftExpiryIntervalMinutes * 60 * 1000,
+    run: () => giftService.expireGifts()
+  },
+  {
+    // Buyers also close out expired offers they try to accept; this releases the rest
+    name: "trade-expiry",
+    intervalMs: config.jobs.tradeExpiryIntervalMinutes * 60 * 1000,
+    run: () => tradeService.expireOffers()
+  },
+  {
+    // New offers are matched as they're posted; this catches the ones whose match failed
+    name: "trade-rematch",
+    intervalMs: config.jobs.tradeRematchIntervalMinutes * 60 * 1000,
+    run: () => tradeService.rematchOffers()
+  }
+];
+
+/**
+ * Runs each background job once at startup and then on its interval.
+ * A run that is still going when the next one is due is skipped rather than overlapped.
+ */
+export function startBackgroundJobs() {
+  if (!config.jobs.enabled) {
+    log("Background jobs are disabled", "jobs");
+    return;
+  }
+
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        const result = await job.run();
+        log(`${job.name} finished${result ? `: ${JSON.stringify(result)}` : ""}`, "jobs");
+      } catch (error) {
+        console.error(`Background job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    setInterval(tick, job.intervalMs).unref();
+  }
+}
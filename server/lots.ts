@@ -0,0 +1,155 @@
+import type { InsertJournalEntry, InsertLedgerPosting, LotSource, LoyaltyProgram, PointLot } from "@shared/schema";
+import { addPoints } from "@shared/money";
+
+/**
+ * Points lots.
+ *
+ * Every credit to a wallet opens a lot recording where the points came from and when
+ * they expire, and every debit draws the points from the wallet's open lots - oldest
+ * first ("fifo") or soonest to expire first ("soonest_expiry"). Escrow holds draw from
+ * lots like any other debit; releasing the hold puts the points back into the lots they
+ * came from, so holding points never resets their expiry.
+ *
+ * Storage works out the movements for each journal entry here and applies them in the
+ * same transaction as the postings.
+ */
+
+export type LotOrder = "fifo" | "soonest_expiry";
+
+export interface LotPolicy {
+  order: LotOrder;
+  expiryDays: Record<string, number>; // Per program; unlisted programs never expire
+}
+
+export interface LotOptions {
+  expiresAt?: Date | null; // Expiry for the lots the entry opens, instead of the program's policy
+  drawFirst?: number[]; // Lots to draw from before any others, e.g. the lot being expired
+}
+
+// What an earlier entry with the same reference drew from a lot and hasn't put back
+export interface DrawnLot {
+  lotId: number;
+  walletId: number;
+  amount: number;
+}
+
+export interface NewLot {
+  walletId: number;
+  program: LoyaltyProgram;
+  source: LotSource;
+  amount: number;
+  expiresAt: Date | null;
+}
+
+export interface LotMovement {
+  lotId: number;
+  amount: number; // Positive draws from the lot, negative puts points back
+}
+
+export interface LotPlan {
+  created: NewLot[];
+  movements: LotMovement[];
+}
+
+const LOT_SOURCES: Record<string, LotSource> = {
+  signup_bonus: "issuance",
+  issuance: "issuance",
+  conversion: "conversion",
+  transfer_settlement: "conversion",
+  trade_settlement: "trade",
+  detokenize: "token",
+  reversal: "refund",
+  trade_refund: "refund",
+  adjustment: "adjustment",
+  partner_sync: "partner",
+  gift: "gift"
+};
+
+// Entries that hand back what an escrow hold with the same reference drew
+export const RELEASE_ENTRY_TYPES = ["trade_release", "order_release", "transfer_release", "gift_release"];
+
+export function lotExpiry(program: LoyaltyProgram, policy: LotPolicy, now: Date): Date | null {
+  const days = policy.expiryDays[program];
+  return days > 0 ? new Date(now.getTime() + days * 24 * 60 * 60 * 1000) : null;
+}
+
+/**
+ * Sorts a wallet's lots into the order debits draw from them
+ */
+export function drawOrder(lots: PointLot[], order: LotOrder, drawFirst: number[] = []): PointLot[] {
+  const rank = (lot: PointLot) => (drawFirst.includes(lot.id) ? 0 : 1);
+  const expiry = (lot: PointLot) => lot.expiresAt ? new Date(lot.expiresAt).getTime() : Infinity;
+
+  return [...lots].sort((a, b) =>
+    rank(a) - rank(b) ||
+    (order === "soonest_expiry" ? expiry(a) - expiry(b) : 0) ||
+    a.id - b.id
+  );
+}
+
+/**
+ * Lots a journal entry opens and draws on, given the open lots of the wallets it touches
+ */
+export function planLotMovements(
+  entry: InsertJournalEntry,
+  postings: InsertLedgerPosting[],
+  openLots: PointLot[],
+  drawnLots: DrawnLot[],
+  policy: LotPolicy,
+  options: LotOptions = {},
+  now = new Date()
+): LotPlan {
+  const plan: LotPlan = { created: [], movements: [] };
+  const isRelease = RELEASE_ENTRY_TYPES.includes(entry.type);
+
+  // Lots follow each wallet's net change, so an entry that debits and credits one wallet moves nothing
+  const netByWallet = new Map<number, { program: LoyaltyProgram; amount: number }>();
+  for (const posting of postings) {
+    if (!posting.walletId) continue;
+    const net = netByWallet.get(posting.walletId);
+    netByWallet.set(posting.walletId, {
+      program: posting.program,
+      amount: addPoints(net?.amount ?? 0, posting.amount)
+    });
+  }
+
+  netByWallet.forEach(({ program, amount }, walletId) => {
+    if (amount > 0) {
+      let toCredit = amount;
+
+      if (isRelease) {
+        for (const drawn of drawnLots.filter(lot => lot.walletId === walletId && lot.amount > 0)) {
+          if (toCredit <= 0) break;
+          const restored = Math.min(drawn.amount, toCredit);
+          plan.movements.push({ lotId: drawn.lotId, amount: -restored });
+          toCredit = addPoints(toCredit, -restored);
+        }
+      }
+
+      if (toCredit > 0 && isRelease) {
+        // Nothing left to put back - the points were held before lots were tracked
+        plan.created.push({ walletId, program, source: "opening", amount: toCredit, expiresAt: null });
+      } else if (toCredit > 0) {
+        plan.created.push({
+          walletId,
+          program,
+          source: LOT_SOURCES[entry.type] ?? "adjustment",
+          amount: toCredit,
+          expiresAt: options.expiresAt !== undefined ? options.expiresAt : lotExpiry(program, policy, now)
+        });
+      }
+    } else if (amount < 0) {
+      let toDraw = -amount;
+      const walletLots = openLots.filter(lot => lot.walletId === walletId && lot.remaining > 0);
+
+      for (const lot of drawOrder(walletLots, policy.order, options.drawFirst)) {
+        if (toDraw <= 0) break;
+        const drawn = Math.min(lot.remaining, toDraw);
+        plan.movements.push({ lotId: lot.id, amount: drawn });
+        toDraw = addPoints(toDraw, -drawn);
+      }
+    }
+  });
+
+  return plan;
+}
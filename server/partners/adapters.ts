@@ -0,0 +1,90 @@
+import { config } from "../config";
+import { PartnerError } from "../errors";
+import type { PartnerProgram } from "@shared/schema";
+import type { PartnerAccountCheck, PartnerConnector, PartnerTransfer } from "./connector";
+
+// Where each program's API lives under its base URL
+const ADAPTER_PATHS: Record<PartnerProgram, string> = {
+  QANTAS: "qantas",
+  GYG: "gyg",
+  VELOCITY: "velocity",
+  AMEX: "amex",
+  FLYBUYS: "flybuys",
+  HILTON: "hilton",
+  MARRIOTT: "marriott",
+  AIRBNB: "airbnb",
+  DELTA: "delta"
+};
+
+/**
+ * Talks to a partner program's points API over HTTP. Network errors and 5xx responses
+ * are retryable PartnerErrors, other error responses are not.
+ */
+export class HttpPartnerConnector implements PartnerConnector {
+  constructor(
+    readonly program: PartnerProgram,
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async getBalance(accountNumber: string): Promise<number> {
+    const account = await this.request<{ balance: number }>("GET", `/accounts/${encodeURIComponent(accountNumber)}`);
+    return account.balance;
+  }
+
+  credit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer> {
+    return this.request("POST", "/transfers", { type: "credit", accountNumber, amount, reference });
+  }
+
+  debit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer> {
+    return this.request("POST", "/transfers", { type: "debit", accountNumber, amount, reference });
+  }
+
+  verifyAccount(accountNumber: string, accountName: string): Promise<PartnerAccountCheck> {
+    return this.request("POST", `/accounts/${encodeURIComponent(accountNumber)}/verify`, { accountName });
+  }
+
+  async sendVerificationCode(accountNumber: string, code: string): Promise<void> {
+    await this.request("POST", `/accounts/${encodeURIComponent(accountNumber)}/codes`, { code });
+  }
+
+  getTransferStatus(transferId: string): Promise<PartnerTransfer> {
+    return this.request("GET", `/transfers/${encodeURIComponent(transferId)}`);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new PartnerError(`${this.program} could not be reached: ${error instanceof Error ? error.message : error}`, true);
+    }
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new PartnerError(
+        `${this.program} rejected ${method} ${path}: ${payload.message ?? response.statusText}`,
+        response.status >= 500,
+        response.status >= 500 ? 502 : 422,
+        payload.code ? `PARTNER_${payload.code}` : "PARTNER_ERROR"
+      );
+    }
+
+    return payload as T;
+  }
+}
+
+/**
+ * The adapter for a program, pointed at its configured URL
+ */
+export function createPartnerAdapter(program: PartnerProgram): PartnerConnector {
+  const baseUrl = (config.partners.urls[program] ?? config.partners.baseUrl).replace(/\/$/, "");
+  return new HttpPartnerConnector(program, `${baseUrl}/${ADAPTER_PATHS[program]}`, config.partners.apiKeys[program] ?? "");
+}
@@ -0,0 +1,31 @@
+import type { PartnerProgram } from "@shared/schema";
+
+export type PartnerTransferStatus = "pending" | "completed" | "failed";
+
+export interface PartnerTransfer {
+  id: string; // The partner's transfer id
+  status: PartnerTransferStatus;
+  amount: number;
+  reference: string; // Ours - a second request with the same reference returns the first transfer
+  failureReason?: string;
+}
+
+export interface PartnerAccountCheck {
+  valid: boolean;
+  reason?: string; // Why it isn't, e.g. "not_found" or "name_mismatch"
+}
+
+/**
+ * What we can ask a partner program to do with a member's account. Amounts are in the
+ * program's own points. Credits and debits carry our reference so retrying one after a
+ * timeout cannot move the points twice.
+ */
+export interface PartnerConnector {
+  readonly program: PartnerProgram;
+  getBalance(accountNumber: string): Promise<number>;
+  credit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer>;
+  debit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer>;
+  verifyAccount(accountNumber: string, accountName: string): Promise<PartnerAccountCheck>;
+  sendVerificationCode(accountNumber: string, code: string): Promise<void>;
+  getTransferStatus(transferId: string): Promise<PartnerTransfer>;
+}
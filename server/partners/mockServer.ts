@@ -0,0 +1,192 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import type { Server } from "http";
+import type { PartnerTransfer } from "./connector";
+
+interface MockAccount {
+  accountName: string | null; // Taken from the first verification if it wasn't seeded
+  balance: number;
+}
+
+interface MockTransfer extends PartnerTransfer {
+  program: string;
+  accountNumber: string;
+  type: "credit" | "debit";
+  createdAt: number;
+}
+
+export interface MockPartnerOptions {
+  autoOpenAccounts?: boolean; // Unknown account numbers are opened on first use (default true)
+  openingBalance?: number; // Balance of an auto-opened account (default 10000)
+  settleDelayMs?: number; // How long transfers stay pending before completing (default 0)
+}
+
+/**
+ * In-memory state behind the mock partner server, exposed so tests can seed and inspect it
+ */
+export class MockPartnerState {
+  accounts = new Map<string, MockAccount>(); // By "program:accountNumber"
+  transfers = new Map<string, MockTransfer>();
+  codes = new Map<string, string>(); // Last verification code sent to each account
+  faults = { failNext: 0, failStatus: 503, delayMs: 0 };
+
+  constructor(readonly options: Required<MockPartnerOptions>) {}
+
+  account(program: string, accountNumber: string): MockAccount | undefined {
+    const key = `${program}:${accountNumber}`;
+    if (!this.accounts.has(key) && this.options.autoOpenAccounts) {
+      this.accounts.set(key, { accountName: null, balance: this.options.openingBalance });
+    }
+    return this.accounts.get(key);
+  }
+
+  // Pending transfers complete once the settle delay has passed
+  transfer(id: string): MockTransfer | undefined {
+    const transfer = this.transfers.get(id);
+    if (transfer?.status === "pending" && Date.now() - transfer.createdAt >= this.options.settleDelayMs) {
+      transfer.status = "completed";
+    }
+    return transfer;
+  }
+
+  reset() {
+    this.accounts.clear();
+    this.transfers.clear();
+    this.codes.clear();
+    this.faults = { failNext: 0, failStatus: 503, delayMs: 0 };
+  }
+}
+
+function publicTransfer({ id, status, amount, reference, failureReason }: MockTransfer): PartnerTransfer {
+  return { id, status, amount, reference, ...(failureReason ? { failureReason } : {}) };
+}
+
+/**
+ * A stand-in for every partner program's points API, so conversions out to partners can
+ * be run end to end offline. Each program is served under its own path (/qantas, /gyg, ...)
+ * the way the HTTP adapters expect. /_mock routes seed accounts, read the codes that were
+ * "sent", and inject failures or slow responses.
+ */
+export function createMockPartnerApp(options: MockPartnerOptions = {}): { app: Express; state: MockPartnerState } {
+  const state = new MockPartnerState({
+    autoOpenAccounts: options.autoOpenAccounts ?? true,
+    openingBalance: options.openingBalance ?? 10000,
+    settleDelayMs: options.settleDelayMs ?? 0
+  });
+  const app = express();
+  app.use(express.json());
+
+  app.post("/_mock/accounts", (req, res) => {
+    const { program, accountNumber, accountName = null, balance = 0 } = req.body;
+    state.accounts.set(`${program}:${accountNumber}`, { accountName, balance });
+    res.status(201).json({ program, accountNumber, accountName, balance });
+  });
+
+  app.get("/_mock/codes/:program/:accountNumber", (req, res) => {
+    const code = state.codes.get(`${req.params.program}:${req.params.accountNumber}`);
+    if (!code) return res.status(404).json({ message: "No code sent" });
+    res.json({ code });
+  });
+
+  app.post("/_mock/faults", (req, res) => {
+    state.faults = { ...state.faults, ...req.body };
+    res.json(state.faults);
+  });
+
+  app.post("/_mock/reset", (_req, res) => {
+    state.reset();
+    res.sendStatus(204);
+  });
+
+  // Injected faults apply to the partner API only
+  app.use("/:program", async (_req: Request, res: Response, next: NextFunction) => {
+    if (state.faults.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, state.faults.delayMs));
+    }
+    if (state.faults.failNext > 0) {
+      state.faults.failNext--;
+      return res.status(state.faults.failStatus).json({ message: "Injected failure", code: "UNAVAILABLE" });
+    }
+    next();
+  });
+
+  app.get("/:program/accounts/:accountNumber", (req, res) => {
+    const account = state.account(req.params.program, req.params.accountNumber);
+    if (!account) return res.status(404).json({ message: "Account not found", code: "ACCOUNT_NOT_FOUND" });
+    res.json({ accountNumber: req.params.accountNumber, accountName: account.accountName, balance: account.balance });
+  });
+
+  app.post("/:program/accounts/:accountNumber/verify", (req, res) => {
+    const account = state.account(req.params.program, req.params.accountNumber);
+    if (!account) return res.json({ valid: false, reason: "not_found" });
+
+    const name = String(req.body.accountName ?? "").trim();
+    account.accountName ??= name;
+    if (account.accountName.toLowerCase() !== name.toLowerCase()) {
+      return res.json({ valid: false, reason: "name_mismatch" });
+    }
+    res.json({ valid: true });
+  });
+
+  app.post("/:program/accounts/:accountNumber/codes", (req, res) => {
+    const account = state.account(req.params.program, req.params.accountNumber);
+    if (!account) return res.status(404).json({ message: "Account not found", code: "ACCOUNT_NOT_FOUND" });
+
+    state.codes.set(`${req.params.program}:${req.params.accountNumber}`, String(req.body.code));
+    res.status(202).json({ sent: true });
+  });
+
+  app.post("/:program/transfers", (req, res) => {
+    const { program } = req.params;
+    const { type, accountNumber, amount, reference } = req.body;
+
+    if (!["credit", "debit"].includes(type) || !(amount > 0) || !reference) {
+      return res.status(400).json({ message: "type, a positive amount and a reference are required", code: "INVALID_REQUEST" });
+    }
+
+    // The same reference is the same transfer - a retry gets the original back
+    const existing = Array.from(state.transfers.values()).find(t => t.program === program && t.reference === reference);
+    if (existing) return res.json(publicTransfer(existing));
+
+    const account = state.account(program, accountNumber);
+    if (!account) return res.status(404).json({ message: "Account not found", code: "ACCOUNT_NOT_FOUND" });
+    if (type === "debit" && account.balance < amount) {
+      return res.status(422).json({ message: "Insufficient points", code: "INSUFFICIENT_POINTS" });
+    }
+
+    account.balance += type === "credit" ? amount : -amount;
+    const transfer: MockTransfer = {
+      id: randomUUID(),
+      program,
+      accountNumber,
+      type,
+      amount,
+      reference,
+      status: state.options.settleDelayMs > 0 ? "pending" : "completed",
+      createdAt: Date.now()
+    };
+    state.transfers.set(transfer.id, transfer);
+    res.status(201).json(publicTransfer(transfer));
+  });
+
+  app.get("/:program/transfers/:id", (req, res) => {
+    const transfer = state.transfer(req.params.id);
+    if (!transfer || transfer.program !== req.params.program) {
+      return res.status(404).json({ message: "Transfer not found", code: "TRANSFER_NOT_FOUND" });
+    }
+    res.json(publicTransfer(transfer));
+  });
+
+  return { app, state };
+}
+
+/**
+ * Starts the mock partner server. Port 0 picks a free one - read it from server.address().
+ */
+export function startMockPartnerServer(port: number, options: MockPartnerOptions = {}): Promise<{ server: Server; state: MockPartnerState }> {
+  const { app, state } = createMockPartnerApp(options);
+
+  return new Promise(resolve => {
+    const server = app.listen(port, () => resolve({ server, state }));
+  });
+}
@@ -0,0 +1,43 @@
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { partnerPrograms, type LoyaltyProgram, type PartnerProgram } from "@shared/schema";
+import { createPartnerAdapter } from "./adapters";
+import { ResilientConnector } from "./resilience";
+import type { PartnerConnector } from "./connector";
+
+/**
+ * The connector for each partner program we can talk to. A program without one is
+ * only tracked in our own ledger.
+ */
+export class PartnerRegistry {
+  private connectors = new Map<LoyaltyProgram, PartnerConnector>();
+
+  register(connector: PartnerConnector) {
+    this.connectors.set(connector.program, connector);
+  }
+
+  unregister(program: PartnerProgram) {
+    this.connectors.delete(program);
+  }
+
+  has(program: LoyaltyProgram): program is PartnerProgram {
+    return this.connectors.has(program);
+  }
+
+  get(program: LoyaltyProgram): PartnerConnector {
+    const connector = this.connectors.get(program);
+    if (!connector) {
+      throw new ServiceError(`${program} is not connected`, 501, "PARTNER_NOT_CONNECTED");
+    }
+
+    return connector;
+  }
+}
+
+export const partnerRegistry = new PartnerRegistry();
+
+if (config.partners.enabled) {
+  for (const program of partnerPrograms) {
+    partnerRegistry.register(new ResilientConnector(createPartnerAdapter(program), config.partners));
+  }
+}
@@ -0,0 +1,132 @@
+import { PartnerError } from "../errors";
+import type { PartnerProgram } from "@shared/schema";
+import type { PartnerAccountCheck, PartnerConnector, PartnerTransfer } from "./connector";
+
+export interface ResilienceOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number;
+  retryDelayMs: number; // Doubles after each attempt
+  breakerThreshold: number; // Failed calls in a row that open the circuit
+  breakerCooldownMs: number; // How long it stays open before a trial call
+}
+
+/**
+ * Stops calling a partner that keeps failing. After `threshold` failed calls in a row the
+ * circuit opens and calls fail straight away; once the cooldown passes one call is let
+ * through, and its outcome closes the circuit again or restarts the cooldown.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number, private readonly now = () => Date.now()) {}
+
+  get state(): "closed" | "open" | "half_open" {
+    if (this.openedAt === null) return "closed";
+    return this.now() - this.openedAt >= this.cooldownMs ? "half_open" : "open";
+  }
+
+  // Whether a call may go ahead - in half-open only one at a time
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.threshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PartnerError(`${what} timed out after ${ms}ms`, true, 504, "PARTNER_TIMEOUT")), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wraps a connector so each call times out, retryable failures are retried with backoff,
+ * and a partner that keeps failing is cut off by a circuit breaker. Failures the partner
+ * answered (a rejected debit, an unknown account) are passed straight back - the partner
+ * is up, it just said no.
+ */
+export class ResilientConnector implements PartnerConnector {
+  readonly program: PartnerProgram;
+  readonly breaker: CircuitBreaker;
+
+  constructor(private readonly inner: PartnerConnector, private readonly options: ResilienceOptions) {
+    this.program = inner.program;
+    this.breaker = new CircuitBreaker(options.breakerThreshold, options.breakerCooldownMs);
+  }
+
+  getBalance(accountNumber: string): Promise<number> {
+    return this.call("getBalance", () => this.inner.getBalance(accountNumber));
+  }
+
+  // Safe to retry - the partner matches the repeat on its reference
+  credit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer> {
+    return this.call("credit", () => this.inner.credit(accountNumber, amount, reference));
+  }
+
+  debit(accountNumber: string, amount: number, reference: string): Promise<PartnerTransfer> {
+    return this.call("debit", () => this.inner.debit(accountNumber, amount, reference));
+  }
+
+  verifyAccount(accountNumber: string, accountName: string): Promise<PartnerAccountCheck> {
+    return this.call("verifyAccount", () => this.inner.verifyAccount(accountNumber, accountName));
+  }
+
+  sendVerificationCode(accountNumber: string, code: string): Promise<void> {
+    return this.call("sendVerificationCode", () => this.inner.sendVerificationCode(accountNumber, code));
+  }
+
+  getTransferStatus(transferId: string): Promise<PartnerTransfer> {
+    return this.call("getTransferStatus", () => this.inner.getTransferStatus(transferId));
+  }
+
+  private async call<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.breaker.tryAcquire()) {
+      throw new PartnerError(`${this.program} is unavailable, please try again later`, true, 503, "PARTNER_UNAVAILABLE");
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await withTimeout(fn(), this.options.timeoutMs, `${this.program} ${operation}`);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable = !(error instanceof PartnerError) || error.retryable;
+        if (!retryable) {
+          this.breaker.recordSuccess();
+          throw error;
+        }
+
+        if (attempt >= this.options.maxRetries) {
+          this.breaker.recordFailure();
+          throw error;
+        }
+
+        await sleep(this.options.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Minimal PDF writer for plain text documents such as statements.
+ *
+ * Lines are set in Courier so columns can be aligned by padding, and pages break
+ * automatically. Only the standard PDF fonts are used, so nothing is embedded and
+ * text is limited to printable ASCII - anything else is replaced with "?".
+ */
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number; // Points, defaults to 9
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const DEFAULT_SIZE = 9;
+const LINE_SPACING = 1.4;
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\u2192/g, "->")
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+}
+
+function paginate(lines: PdfLine[]): PdfLine[][] {
+  const pages: PdfLine[][] = [[]];
+  let remaining = PAGE_HEIGHT - 2 * MARGIN;
+
+  for (const line of lines) {
+    const height = (line.size ?? DEFAULT_SIZE) * LINE_SPACING;
+    if (height > remaining && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      remaining = PAGE_HEIGHT - 2 * MARGIN;
+    }
+    pages[pages.length - 1].push(line);
+    remaining -= height;
+  }
+
+  return pages;
+}
+
+function pageContent(lines: PdfLine[]): string {
+  let y = PAGE_HEIGHT - MARGIN;
+  const operations: string[] = [];
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    y -= size * LINE_SPACING;
+    operations.push(`BT /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapeText(line.text)}) Tj ET`);
+  }
+
+  return operations.join("\n");
+}
+
+/**
+ * Renders lines of text to a PDF file
+ */
+export function renderPdf(lines: PdfLine[], title?: string): Buffer {
+  const pages = paginate(lines);
+
+  // Objects 1-4 are the catalog, page tree, fonts; then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>"
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = pageContent(pageLines);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  const infoId = objects.length + 1;
+  objects.push(`<< /Title (${escapeText(title ?? "")}) /Producer (xPoints) >>`);
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(body.length);
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "ascii");
+}
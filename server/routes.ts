@@ -2,6 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, ensureAdmin } from "./auth";
+import { idempotent } from "./idempotency";
 import apiRouter from "./api";
 import docsRouter from "./api/docs";
 import { tokenService } from "./blockchain/tokenService";
@@ -11,16 +12,59 @@ import { marketInsightsService } from "./services/marketInsightsService";
 import { pointsValuationService } from "./services/pointsValuationService";
 import { tradeAdvisorService } from "./services/tradeAdvisorService";
 import { generateContextualStories } from "./services/storytellerService";
-import type { Transaction, Wallet, User } from "@shared/schema";
+import { conversionService, getStandardDollarRate, quoteFeeBreakdown, quoteRoute } from "./services/conversionService";
+import { formatFeeRate } from "./services/feePolicyService";
+import { tierService, TIER_ORDER } from "./services/tierService";
+import { conversionOrderService } from "./services/conversionOrderService";
+import { sweepService } from "./services/sweepService";
+import { transactionHistoryService } from "./services/transactionHistoryService";
+import { statementService } from "./services/statementService";
+import { reconciliationService } from "./services/reconciliationService";
+import { transactionLifecycleService } from "./services/transactionLifecycleService";
+import { reversalService } from "./services/reversalService";
+import { lotService } from "./services/lotService";
+import { notificationService } from "./services/notificationService";
+import { accountLinkService } from "./services/accountLinkService";
+import { balanceSyncService } from "./services/balanceSyncService";
+import { tradeService } from "./services/tradeService";
+import { giftService } from "./services/giftService";
+import { escrowService } from "./services/escrowService";
+import { tradeDisputeService } from "./services/tradeDisputeService";
+import { ServiceError } from "./errors";
+import { isValidPointsAmount } from "@shared/money";
+import type { Transaction, Wallet, User, TierHistory } from "@shared/schema";
 import { 
   convertPointsSchema, 
+  convertBatchSchema,
+  executeConversionSchema,
+  createTransferBonusSchema,
+  createConversionOrderSchema,
+  createSweepScheduleSchema,
+  transactionQuerySchema,
+  transactionTransitionSchema,
+  requestReversalSchema,
+  reviewReversalSchema,
   linkAccountSchema, 
+  startVerificationSchema,
+  confirmVerificationSchema,
+  revokeAccountSchema,
+  syncBalancesSchema,
+  sendGiftSchema,
+  answerGiftSchema,
+  createPointRequestSchema,
+  detokenizeSchema,
   insertBusinessSchema,
   insertBusinessProgramSchema,
   insertBusinessPaymentSchema,
   businessIssuePointsSchema,
   createTradeOfferSchema,
   acceptTradeOfferSchema,
+  tradePairQuerySchema,
+  extendTradeOfferSchema,
+  openTradeDisputeSchema,
+  refundTradeDisputeSchema,
+  reviewTradeDisputeSchema,
+  tradeDisputeStatuses,
   type LoyaltyProgram,
   users,
   exchangeRates
@@ -53,6 +97,9 @@ interface MarketTrend {
 const tokenizeSchema = z.object({
   program: z.enum(["QANTAS", "GYG", "XPOINTS"]),
   amount: z.number().positive(),
+}).refine(data => isValidPointsAmount(data.amount, data.program), {
+  message: "Amount has more decimal places than the program allows",
+  path: ["amount"],
 });
 
 // Schema for merchant portal
@@ -68,23 +115,6 @@ const promotionSchema = z.object({
 });
 
 // Helper function to get the dollar value rate for a loyalty program
-function getStandardDollarRate(program: string): number {
-  const standardValues: Record<string, number> = {
-    'QANTAS': 0.006,    // $0.006 per Qantas point (0.6 cents)
-    'GYG': 0.008,       // $0.008 per GYG point (0.8 cents)
-    'XPOINTS': 0.01,    // $0.01 per xPoint (1 cent) - our standardized value
-    'VELOCITY': 0.007,  // $0.007 per Velocity point (0.7 cents)
-    'AMEX': 0.009,      // $0.009 per AMEX point (0.9 cents)
-    'FLYBUYS': 0.005,   // $0.005 per Flybuys point (0.5 cents)
-    'HILTON': 0.004,    // $0.004 per Hilton point (0.4 cents)
-    'MARRIOTT': 0.006,  // $0.006 per Marriott point (0.6 cents)
-    'AIRBNB': 0.0095,   // $0.0095 per Airbnb point (0.95 cents)
-    'DELTA': 0.0065     // $0.0065 per Delta point (0.65 cents)
-  };
-  
-  return standardValues[program] || 0.01; // Default to 1 cent if program not found
-}
-
 // For backward compatibility
 function calculateDollarValueRate(program: string): number {
   return getStandardDollarRate(program);
@@ -101,7 +131,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const wallets = await storage.getUserWallets(req.user!.id);
+      const wallets = await escrowService.getWallets(req.user!.id);
       res.json(wallets);
     } catch (error) {
       console.error("Error fetching wallets:", error);
@@ -109,19 +139,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Points locked in the user's trade offers, with every movement in and out of each hold
+  app.get("/api/escrow", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const holds = await escrowService.getHolds(req.user!.id);
+      res.json(holds);
+    } catch (error) {
+      console.error("Error fetching escrow holds:", error);
+      res.status(500).json({ message: "Failed to fetch escrow holds" });
+    }
+  });
+
+  // Pull the latest balances of the user's linked accounts from their partner programs
+  app.post("/api/wallets/sync", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = syncBalancesSchema.parse(req.body ?? {});
+      const syncs = await balanceSyncService.syncUserWallets(req.user!.id, data.program);
+      res.json(syncs);
+    } catch (error) {
+      console.error("Error syncing wallet balances:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to sync balances" });
+    }
+  });
+
+  // Recent balance syncs of one of the user's wallets, newest first
+  app.get("/api/wallets/:program/syncs", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const syncs = await balanceSyncService.getHistory(req.user!.id, req.params.program as LoyaltyProgram);
+      res.json(syncs);
+    } catch (error) {
+      console.error(`Error fetching balance syncs for ${req.params.program}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch balance syncs" });
+    }
+  });
+
   // Get user transactions
+  // Filtered page of the user's transactions - pass nextCursor back as cursor for the next page
   app.get("/api/transactions", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const transactions = await storage.getUserTransactions(req.user!.id);
-      res.json(transactions);
+      const query = transactionQuerySchema.parse(req.query);
+      const page = await transactionHistoryService.getPage(req.user!.id, query);
+      res.json(page);
     } catch (error) {
       console.error("Error fetching transactions:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
   
+  // Every transaction matching the same filters, as CSV or JSON lines (?format=jsonl)
+  app.get("/api/transactions/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const format = z.enum(["csv", "jsonl"]).default("csv").parse(req.query.format);
+      const query = transactionQuerySchema.parse(req.query);
+      const filename = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+      
+      // Wait for the socket to drain so a slow download doesn't buffer the whole history
+      const write = async (chunk: string) => {
+        if (!res.headersSent) {
+          res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        }
+        if (res.destroyed) {
+          throw new Error("Client disconnected during export");
+        }
+        if (!res.write(chunk)) {
+          await new Promise(resolve => {
+            res.once("drain", resolve);
+            res.once("close", resolve);
+          });
+        }
+      };
+      
+      await transactionHistoryService.exportTransactions(req.user!.id, query, format, write);
+      res.end();
+    } catch (error) {
+      console.error("Error exporting transactions:", error);
+      
+      // Cut the download short rather than let a partial file look complete
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      res.status(500).json({ message: "Failed to export transactions" });
+    }
+  });
+  
+  // Status history of a transaction - when it moved through each step of its lifecycle
+  app.get("/api/transactions/:id/events", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const events = await transactionLifecycleService.getStatusEvents(req.user!.id, parseInt(req.params.id));
+      res.json(events);
+    } catch (error) {
+      console.error(`Error fetching status events for transaction ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch transaction status" });
+    }
+  });
+  
+  // Points expiring within the next ?days= days (30 by default), per program and by lot
+  app.get("/api/points/expiring", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const days = z.coerce.number().int().min(1).max(365).default(30).parse(req.query.days);
+      const expiring = await lotService.getExpiringPoints(req.user!.id, days);
+      res.json(expiring);
+    } catch (error) {
+      console.error("Error fetching expiring points:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch expiring points" });
+    }
+  });
+  
+  // The user's latest notifications, newest first
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const notifications = await notificationService.getNotifications(req.user!.id);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+  
+  app.post("/api/notifications/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const notification = await notificationService.markRead(req.user!.id, parseInt(req.params.id));
+      res.json(notification);
+    } catch (error) {
+      console.error(`Error marking notification ${req.params.id} read:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+  
   // Get user stats (for membership tier progress)
   app.get("/api/user-stats", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -135,6 +341,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get membership tier status - progress to the next tier and past tier changes
+  app.get("/api/tier-status", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const status = await tierService.getTierStatus(req.user!.id);
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching tier status:", error);
+      res.status(500).json({ message: "Failed to fetch tier status" });
+    }
+  });
+  
   // Loyalty Journey Data
   app.get("/api/loyalty-journey", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -149,6 +368,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get user stats 
       const stats = await storage.getUserStats(req.user!.id);
       
+      // Get tier changes, newest first
+      const tierChanges = await storage.getUserTierHistory(req.user!.id);
+      
       // Helper functions for data processing
       const getFavoritePrograms = (txns: Transaction[]) => {
         const programCounts: Record<string, { count: number, points: number }> = {};
@@ -230,7 +452,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return Number((balance * rate).toFixed(2)); // Formatted to 2 decimal places
       };
       
-      const generateMilestones = (userStats: any, txns: Transaction[]) => {
+      const generateMilestones = (userStats: any, txns: Transaction[], tierHistory: TierHistory[]) => {
         const milestones = [];
         
         // Milestone 1: First transaction
@@ -246,14 +468,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Milestone 2: Membership tier upgrades
-        if (userStats.tier !== "STANDARD") {
-          milestones.push({
-            title: `Upgraded to ${userStats.tier} Tier`,
-            date: new Date().toISOString(), // In reality this would be the actual upgrade date
-            description: `Achieved ${userStats.tier} membership tier with improved conversion rates`
+        // Milestone 2: Membership tier upgrades, oldest first
+        [...tierHistory]
+          .reverse()
+          .filter(change => TIER_ORDER.indexOf(change.toTier) > TIER_ORDER.indexOf(change.fromTier))
+          .forEach(change => {
+            milestones.push({
+              title: `Upgraded to ${change.toTier} Tier`,
+              date: change.createdAt.toISOString(),
+              description: change.reason === "qualified"
+                ? `Achieved ${change.toTier} membership tier by converting ${Math.round(change.monthlyPoints).toLocaleString()} points in a month`
+                : `Achieved ${change.toTier} membership tier with improved conversion rates`
+            });
           });
-        }
         
         // Milestone 3: Largest conversion
         if (txns.length > 0) {
@@ -285,7 +512,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const conversionTrends = getConversionTrends(transactions);
       const potentialSavings = calculatePotentialSavings(transactions);
       const walletBalances = getWalletBalances(wallets);
-      const milestones = generateMilestones(stats, transactions);
+      const milestones = generateMilestones(stats, transactions, tierChanges);
       
       // Enhanced journey data
       const journeyData = {
@@ -539,336 +766,859 @@ app.get("/api/exchange-rates/history", async (req, res) => {
     }
   });
 
-  // Convert points between programs
-  app.post("/api/convert", async (req, res) => {
+  // Preview every conversion route, best first, so the client can show why one was chosen
+  app.get("/api/convert/routes", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Validate request body
-      const data = convertPointsSchema.parse(req.body);
-      
-      // Check that from and to programs are different
-      if (data.fromProgram === data.toProgram) {
-        return res.status(400).json({ message: "Cannot convert between the same program" });
-      }
-      
-      // Get source wallet
-      const sourceWallet = await storage.getWallet(req.user!.id, data.fromProgram);
-      if (!sourceWallet) {
-        return res.status(404).json({ message: "Source wallet not found" });
-      }
-      
-      // Check if user has enough balance
-      if (sourceWallet.balance < data.amount) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
+      // Validate query parameters
+      const data = convertPointsSchema.parse({ ...req.query, amount: Number(req.query.amount) });
       
-      // Get destination wallet
-      const destWallet = await storage.getWallet(req.user!.id, data.toProgram);
-      if (!destWallet) {
-        return res.status(404).json({ message: "Destination wallet not found" });
-      }
+      const routes = await conversionService.priceRoutes(storage, req.user!.id, data.fromProgram, data.toProgram, data.amount);
+      const best = routes[0];
       
-      // Calculate conversion using standardized rates with xPoints as the base currency
-      let amountTo = 0;
-      let feeApplied = 0;
-      let conversionPath = "";
-      let effectiveRate = 0;
+      res.json({
+        fromProgram: data.fromProgram,
+        toProgram: data.toProgram,
+        amountFrom: data.amount,
+        routes: routes.map((route, index) => ({
+          conversionPath: route.conversionPath,
+          hops: route.hops,
+          fee: route.feeApplied,
+          feeBreakdown: route.feeBreakdown,
+          amountTo: route.amountTo,
+          effectiveRate: route.rate,
+          toValueInDollars: route.toValueInDollars,
+          isBest: index === 0,
+          shortfall: best.amountTo - route.amountTo // Points lost against the best route
+        }))
+      });
+    } catch (error) {
+      console.error("Error finding conversion routes:", error);
       
-      // Calculate fee - free up to 10,000 points, 0.5% after that
-      const FREE_CONVERSION_LIMIT = 10000;
-      if (data.amount > FREE_CONVERSION_LIMIT) {
-        const amountOverLimit = data.amount - FREE_CONVERSION_LIMIT;
-        feeApplied = amountOverLimit * 0.005; // 0.5% fee
-        console.log(`Applying conversion fee: ${feeApplied} on ${amountOverLimit} points over 10,000 free limit`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      // Calculate amount after fee deduction
-      const amountAfterFee = data.amount - feeApplied;
-      
-      // Get the exchange rate
-      const rate = await storage.getExchangeRate(data.fromProgram, data.toProgram);
-      if (!rate) {
-        return res.status(404).json({ message: "Exchange rate not found" });
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
       }
       
-      // Since we've standardized all exchange rates based on xPoints value,
-      // we can now use a direct conversion, even for cross-program transfers
-      amountTo = amountAfterFee * Number(rate.rate);
-      effectiveRate = Number(rate.rate);
+      res.status(500).json({ message: "Failed to find conversion routes" });
+    }
+  });
 
-      // For transparency, calculate and log the conversion path
-      if (data.fromProgram !== "XPOINTS" && data.toProgram !== "XPOINTS") {
-        // This is a cross-program conversion (e.g., QANTAS → GYG)
-        // Log the equivalent USD value for transparency
-        const sourceToXpRate = await storage.getExchangeRate(data.fromProgram, "XPOINTS");
-        const xpToDestRate = await storage.getExchangeRate("XPOINTS", data.toProgram);
-        
-        if (sourceToXpRate && xpToDestRate) {
-          const xpAmount = amountAfterFee * Number(sourceToXpRate.rate);
-          const dollarValue = xpAmount * 0.01; // 1 xPoint = $0.01
-          
-          conversionPath = `${data.fromProgram} → XPOINTS → ${data.toProgram}`;
-          console.log(`Conversion path: ${conversionPath}`);
-          console.log(`Dollar value of transaction: $${dollarValue.toFixed(2)}`);
-        }
-      } else if (data.fromProgram === "XPOINTS") {
-        conversionPath = `XPOINTS → ${data.toProgram}`;
-        const dollarValue = amountAfterFee * 0.01; // 1 xPoint = $0.01
-        console.log(`Conversion path: ${conversionPath}`);
-        console.log(`Dollar value of transaction: $${dollarValue.toFixed(2)}`);
-      } else { // data.toProgram === "XPOINTS"
-        conversionPath = `${data.fromProgram} → XPOINTS`;
-        const dollarValue = amountTo * 0.01; // 1 xPoint = $0.01
-        console.log(`Conversion path: ${conversionPath}`);
-        console.log(`Dollar value of transaction: $${dollarValue.toFixed(2)}`);
-      }
-      
-      // Update wallet balances
-      await storage.updateWalletBalance(sourceWallet.id, sourceWallet.balance - data.amount);
-      await storage.updateWalletBalance(destWallet.id, destWallet.balance + amountTo);
-      
-      // Create transaction record
-      let transaction;
-      try {
-        console.log("Creating transaction with user ID:", req.user!.id);
-        transaction = await storage.createTransaction({
-          userId: req.user!.id,
-          fromProgram: data.fromProgram,
-          toProgram: data.toProgram,
-          amountFrom: data.amount,
-          amountTo,
-          feeApplied,
-          status: "completed",
-          recipientId: req.user!.id, // Use the current user as recipient for self-conversions
-          transactionHash: "", // Empty string for nullable text fields
-          blockNumber: 0, // Use 0 for number fields that can't be null
-          contractAddress: "", // Empty string for nullable text fields
-          tokenAddress: "" // Empty string for nullable text fields
-        });
-      } catch (transactionError) {
-        console.error("Error creating transaction:", transactionError);
-        throw transactionError; // Re-throw to be caught by the outer catch block
-      }
-      
-      // Calculate dollar values for user transparency using our standardized global rate function
-      const fromPointValue = data.fromProgram === "XPOINTS" ? 0.01 : getStandardDollarRate(data.fromProgram);
-      const toPointValue = data.toProgram === "XPOINTS" ? 0.01 : getStandardDollarRate(data.toProgram);
+  // Quote a conversion - locks the rate and fee for a short time
+  app.post("/api/convert/quote", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = convertPointsSchema.parse(req.body);
       
-      const fromValueInDollars = data.amount * fromPointValue;
-      const toValueInDollars = amountTo * toPointValue;
-        
-      res.status(200).json({
-        transaction,
-        fromBalance: sourceWallet.balance - data.amount,
-        toBalance: destWallet.balance + amountTo,
-        fee: feeApplied,
-        feePercentage: feeApplied > 0 ? "0.5%" : "0%",
-        conversionDetails: {
-          originalAmount: data.amount,
-          amountAfterFee: amountAfterFee,
-          convertedAmount: amountTo,
-          freeLimit: FREE_CONVERSION_LIMIT,
-          effectiveRate: effectiveRate,
-          conversionPath: conversionPath,
-          fromValueInDollars: Number(fromValueInDollars.toFixed(2)),
-          toValueInDollars: Number(toValueInDollars.toFixed(2)),
-          valueRetained: Number((toValueInDollars / fromValueInDollars * 100).toFixed(2)) + "%"
-        }
+      const quote = await conversionService.createQuote(req.user!.id, data);
+      const feeBreakdown = quoteFeeBreakdown(quote);
+      
+      res.status(201).json({
+        quoteId: quote.id,
+        fromProgram: quote.fromProgram,
+        toProgram: quote.toProgram,
+        amountFrom: quote.amountFrom,
+        amountTo: quote.amountTo,
+        rate: quote.rate,
+        fee: quote.feeApplied,
+        feePercentage: formatFeeRate(feeBreakdown?.effectiveRate ?? 0),
+        freeLimit: feeBreakdown?.allowance?.limit ?? 0,
+        feeBreakdown,
+        conversionPath: quote.conversionPath,
+        hops: quoteRoute(quote),
+        fromValueInDollars: quote.fromValueInDollars,
+        toValueInDollars: quote.toValueInDollars,
+        expiresAt: quote.expiresAt,
+        ttlSeconds: Math.max(0, Math.round((quote.expiresAt.getTime() - Date.now()) / 1000))
       });
-    } catch (error: any) {
-      console.error("Error converting points:", error);
+    } catch (error) {
+      console.error("Error quoting conversion:", error);
       
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      // More detailed logging to help diagnose the issue
-      if (error.code === '23503') {
-        console.error(`Foreign key violation: ${error.detail}`);
-        
-        // Display current user info for debugging
-        console.log("Current user:", req.user);
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
       }
       
-      res.status(500).json({ message: "Failed to convert points" });
+      res.status(500).json({ message: "Failed to quote conversion" });
     }
   });
 
-  // Link loyalty account
-  app.post("/api/link-account", async (req, res) => {
+  // Place a conversion order - converts automatically once the rate reaches the target
+  app.post("/api/convert/orders", idempotent, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       // Validate request body
-      const data = linkAccountSchema.parse(req.body);
-      
-      // Check if wallet exists
-      const existingWallet = await storage.getWallet(req.user!.id, data.program);
-      if (!existingWallet) {
-        // Create new wallet
-        const wallet = await storage.createWallet({
-          userId: req.user!.id,
-          program: data.program,
-          balance: 0,
-          accountNumber: data.accountNumber,
-          accountName: data.accountName
-        });
-        
-        return res.status(201).json(wallet);
-      }
-      
-      // Update existing wallet with new account details
-      const updatedWallet = await storage.updateWalletAccount(
-        existingWallet.id, 
-        data.accountNumber, 
-        data.accountName
-      );
+      const data = createConversionOrderSchema.parse(req.body);
       
-      res.status(200).json(updatedWallet);
+      const order = await conversionOrderService.createOrder(req.user!.id, data);
+      res.status(201).json(order);
     } catch (error) {
-      console.error("Error linking account:", error);
+      console.error("Error creating conversion order:", error);
       
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      res.status(500).json({ message: "Failed to link account" });
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to create conversion order" });
     }
   });
 
-  // ===== TOKENIZATION FEATURES =====
-
-  // Get token ledger for user
-  app.get("/api/tokens", async (req, res) => {
+  // Get the user's conversion orders
+  app.get("/api/convert/orders", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // NOTE: This will be updated in the future to query a token_ledger table
-      // For now we'll return an empty array
-      const tokenLedger: TokenLedgerEntry[] = [];
-      res.json(tokenLedger);
+      const orders = await conversionOrderService.getUserOrders(req.user!.id);
+      res.json(orders);
     } catch (error) {
-      console.error("Error fetching token ledger:", error);
-      res.status(500).json({ message: "Failed to fetch token ledger" });
+      console.error("Error fetching conversion orders:", error);
+      res.status(500).json({ message: "Failed to fetch conversion orders" });
     }
   });
 
-  // Tokenize points
-  app.post("/api/tokenize", async (req, res) => {
+  // Cancel a conversion order and release its reserved points
+  app.post("/api/convert/orders/:id/cancel", idempotent, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Validate request body
-      const data = tokenizeSchema.parse(req.body);
+      const orderId = parseInt(req.params.id);
       
-      // Get user wallet
-      const wallet = await storage.getWallet(req.user!.id, data.program);
-      if (!wallet) {
-        return res.status(404).json({ message: "Wallet not found" });
+      // Validate order ID
+      if (isNaN(orderId)) {
+        return res.status(400).json({ message: "Invalid conversion order ID" });
       }
       
-      // Check if user has enough balance
-      if (wallet.balance < data.amount) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
+      const order = await conversionOrderService.cancelOrder(req.user!.id, orderId);
+      res.json(order);
+    } catch (error) {
+      console.error("Error cancelling conversion order:", error);
       
-      try {
-        // Use the token service to mint tokens
-        // This will now throw errors instead of returning false
-        await tokenService.mintTokens(
-          req.user!.id,
-          data.program,
-          data.amount
-        );
-        
-        // If we reach here, the mint operation was successful (either through blockchain or fallback)
-        
-        // Get updated wallet balances
-        const updatedWallet = await storage.getWallet(req.user!.id, data.program);
-        const xPointsWallet = await storage.getWallet(req.user!.id, "XPOINTS");
-        
-        // Get blockchain wallet address
-        const walletAddress = await tokenService.getUserWalletAddress(req.user!.id);
-        
-        res.status(200).json({
-          success: true,
-          blockchain: {
-            walletAddress,
-            tokenBalance: xPointsWallet?.balance || 0
-          },
-          sourceWallet: {
-            program: data.program,
-            balance: updatedWallet?.balance || 0
-          }
-        });
-      } catch (processingError: any) { // Type annotation to fix TypeScript error
-        console.error("Error in token minting process:", processingError);
-        return res.status(500).json({ 
-          message: "Failed to convert points to xPoints", 
-          error: processingError.message || "Unknown error" 
-        });
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
       }
+      
+      res.status(500).json({ message: "Failed to cancel conversion order" });
+    }
+  });
+
+  // Schedule a recurring sweep of a program's balance into another program
+  app.post("/api/sweeps", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = createSweepScheduleSchema.parse(req.body);
+      
+      const schedule = await sweepService.createSchedule(req.user!.id, data);
+      res.status(201).json(schedule);
     } catch (error) {
-      console.error("Error converting loyalty points to xPoints:", error);
+      console.error("Error creating sweep:", error);
       
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      res.status(500).json({ message: "Failed to convert loyalty points to xPoints" });
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to create sweep" });
     }
   });
-  
-  // API endpoint for getting blockchain wallet info
-  app.get("/api/blockchain-wallet", async (req, res) => {
+
+  // Get the user's sweeps, including the last error of any that are failing
+  app.get("/api/sweeps", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Get or create wallet address for the user
-      const walletAddress = await tokenService.getUserWalletAddress(req.user!.id);
-      const tokenBalance = await tokenService.getUserBalance(req.user!.id);
-      
-      // Get token stats
-      const totalSupply = await tokenService.getTotalSupply();
-      const supportedPrograms = await tokenService.getSupportedPrograms();
-      
-      // Get reserves for each program
-      const reserves = await Promise.all(
-        supportedPrograms.map(async (program) => {
-          const balance = await tokenService.getLoyaltyPointsReserve(program);
-          return { program, balance };
-        })
-      );
-      
-      res.status(200).json({
-        wallet: {
-          address: walletAddress,
-          balance: tokenBalance
-        },
-        token: {
-          totalSupply,
-          reserves
-        }
-      });
+      const schedules = await sweepService.getUserSchedules(req.user!.id);
+      res.json(schedules);
     } catch (error) {
-      console.error("Error getting blockchain wallet:", error);
-      res.status(500).json({ message: "Error retrieving blockchain wallet information" });
+      console.error("Error fetching sweeps:", error);
+      res.status(500).json({ message: "Failed to fetch sweeps" });
     }
   });
-  
-  // API endpoint for converting tokens back to loyalty points
-  app.post("/api/detokenize", async (req, res) => {
+
+  // Get a sweep's run history, newest first
+  app.get("/api/sweeps/:id/runs", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Validate request body
-      const data = z.object({
-        program: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
-        amount: z.number().positive()
-      }).parse(req.body);
+      const scheduleId = parseInt(req.params.id);
       
-      // Get user's XPOINTS wallet
+      // Validate sweep ID
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: "Invalid sweep ID" });
+      }
+      
+      const runs = await sweepService.getRuns(req.user!.id, scheduleId);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching sweep runs:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch sweep runs" });
+    }
+  });
+
+  // Pause a sweep until it is resumed
+  app.post("/api/sweeps/:id/pause", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const scheduleId = parseInt(req.params.id);
+      
+      // Validate sweep ID
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: "Invalid sweep ID" });
+      }
+      
+      const schedule = await sweepService.pauseSchedule(req.user!.id, scheduleId);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error pausing sweep:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to pause sweep" });
+    }
+  });
+
+  // Resume a paused sweep from its next scheduled time
+  app.post("/api/sweeps/:id/resume", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const scheduleId = parseInt(req.params.id);
+      
+      // Validate sweep ID
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: "Invalid sweep ID" });
+      }
+      
+      const schedule = await sweepService.resumeSchedule(req.user!.id, scheduleId);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error resuming sweep:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to resume sweep" });
+    }
+  });
+  
+  // Send points to another member by username or email
+  app.post("/api/gifts", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = sendGiftSchema.parse(req.body);
+      
+      const gift = await giftService.sendGift(req.user!.id, data);
+      res.status(201).json(gift);
+    } catch (error) {
+      console.error("Error sending gift:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to send gift" });
+    }
+  });
+
+  // Get gifts the user has sent or received, including ones waiting on their email
+  app.get("/api/gifts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const gifts = await giftService.getGifts(req.user!.id);
+      res.json(gifts);
+    } catch (error) {
+      console.error("Error fetching gifts:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch gifts" });
+    }
+  });
+
+  // Accept a gift sent to the user's email with the claim code its sender passed on
+  app.post("/api/gifts/:id/accept", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const giftId = parseInt(req.params.id);
+      
+      // Validate gift ID
+      if (isNaN(giftId)) {
+        return res.status(400).json({ message: "Invalid gift ID" });
+      }
+      
+      // Validate request body
+      const { claimCode } = answerGiftSchema.parse(req.body);
+      
+      const gift = await giftService.acceptGift(req.user!.id, giftId, claimCode);
+      res.json(gift);
+    } catch (error) {
+      console.error("Error accepting gift:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to accept gift" });
+    }
+  });
+
+  // Decline a gift, sending the points back to whoever sent it
+  app.post("/api/gifts/:id/decline", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const giftId = parseInt(req.params.id);
+      
+      // Validate gift ID
+      if (isNaN(giftId)) {
+        return res.status(400).json({ message: "Invalid gift ID" });
+      }
+      
+      // Validate request body
+      const { claimCode } = answerGiftSchema.parse(req.body);
+      
+      const gift = await giftService.declineGift(req.user!.id, giftId, claimCode);
+      res.json(gift);
+    } catch (error) {
+      console.error("Error declining gift:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to decline gift" });
+    }
+  });
+
+  // Take back a gift nobody has claimed yet
+  app.post("/api/gifts/:id/cancel", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const giftId = parseInt(req.params.id);
+      
+      // Validate gift ID
+      if (isNaN(giftId)) {
+        return res.status(400).json({ message: "Invalid gift ID" });
+      }
+      
+      const gift = await giftService.cancelGift(req.user!.id, giftId);
+      res.json(gift);
+    } catch (error) {
+      console.error("Error cancelling gift:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to cancel gift" });
+    }
+  });
+
+  // Create a "request points" link someone else can pay
+  app.post("/api/point-requests", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = createPointRequestSchema.parse(req.body);
+      
+      const request = await giftService.createRequest(req.user!.id, data);
+      res.status(201).json(request);
+    } catch (error) {
+      console.error("Error creating point request:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to create point request" });
+    }
+  });
+
+  // Get the user's point requests, newest first
+  app.get("/api/point-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const requests = await giftService.getUserRequests(req.user!.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching point requests:", error);
+      res.status(500).json({ message: "Failed to fetch point requests" });
+    }
+  });
+
+  // Look up a shared request link before paying it
+  app.get("/api/point-requests/:token", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const request = await giftService.getRequest(req.params.token);
+      res.json(request);
+    } catch (error) {
+      console.error("Error fetching point request:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch point request" });
+    }
+  });
+
+  // Pay a shared request link
+  app.post("/api/point-requests/:token/pay", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const gift = await giftService.payRequest(req.user!.id, req.params.token);
+      res.json(gift);
+    } catch (error) {
+      console.error("Error paying point request:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to pay point request" });
+    }
+  });
+
+  // Close one of the user's open requests
+  app.post("/api/point-requests/:id/cancel", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const requestId = parseInt(req.params.id);
+      
+      // Validate request ID
+      if (isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid request ID" });
+      }
+      
+      const request = await giftService.cancelRequest(req.user!.id, requestId);
+      res.json(request);
+    } catch (error) {
+      console.error("Error cancelling point request:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to cancel point request" });
+    }
+  });
+  
+  // List the user's monthly statements, newest first (without their contents)
+  app.get("/api/statements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const statements = await statementService.getUserStatements(req.user!.id);
+      res.json(statements.map(({ content, ...statement }) => statement));
+    } catch (error) {
+      console.error("Error fetching statements:", error);
+      res.status(500).json({ message: "Failed to fetch statements" });
+    }
+  });
+  
+  // Download a statement as PDF (default) or CSV
+  app.get("/api/statements/:id/download", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const statementId = parseInt(req.params.id);
+      
+      // Validate statement ID
+      if (isNaN(statementId)) {
+        return res.status(400).json({ message: "Invalid statement ID" });
+      }
+      
+      const format = z.enum(["pdf", "csv"]).default("pdf").parse(req.query.format);
+      const { filename, body } = await statementService.renderStatement(req.user!.id, statementId, format);
+      
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(body);
+    } catch (error) {
+      console.error("Error downloading statement:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to download statement" });
+    }
+  });
+
+  // Convert points between programs by executing a quote
+  app.post("/api/convert", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = executeConversionSchema.parse(req.body);
+      
+      const { quote, transaction, fromBalance, toBalance, feeBreakdown } = await conversionService.executeQuote(req.user!.id, data.quoteId);
+      
+      res.status(200).json({
+        transaction,
+        fromBalance,
+        toBalance,
+        fee: quote.feeApplied,
+        feePercentage: formatFeeRate(feeBreakdown?.effectiveRate ?? 0),
+        feeBreakdown,
+        conversionDetails: {
+          quoteId: quote.id,
+          originalAmount: quote.amountFrom,
+          amountAfterFee: quote.amountFrom - quote.feeApplied,
+          convertedAmount: quote.amountTo,
+          freeLimit: feeBreakdown?.allowance?.limit ?? 0,
+          effectiveRate: Number(quote.rate),
+          conversionPath: quote.conversionPath,
+          fromValueInDollars: quote.fromValueInDollars,
+          toValueInDollars: quote.toValueInDollars,
+          valueRetained: Number((quote.toValueInDollars / quote.fromValueInDollars * 100).toFixed(2)) + "%"
+        }
+      });
+    } catch (error: any) {
+      console.error("Error converting points:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      // More detailed logging to help diagnose the issue
+      if (error.code === '23503') {
+        console.error(`Foreign key violation: ${error.detail}`);
+        
+        // Display current user info for debugging
+        console.log("Current user:", req.user);
+      }
+      
+      res.status(500).json({ message: "Failed to convert points" });
+    }
+  });
+
+  // Convert several pairs at once - all legs go through or none do
+  app.post("/api/convert/batch", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = convertBatchSchema.parse(req.body);
+      
+      const result = await conversionService.executeBatch(req.user!.id, data);
+      res.status(200).json(result);
+    } catch (error) {
+      console.error("Error converting batch:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to convert batch" });
+    }
+  });
+
+  // Link loyalty account - the account stays unverified until the challenge sent here is confirmed
+  app.post("/api/link-account", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = linkAccountSchema.parse(req.body);
+      const status = await accountLinkService.linkAccount(req.user!.id, data);
+      res.status(status.pending ? 201 : 200).json(status);
+    } catch (error) {
+      console.error("Error linking account:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to link account" });
+    }
+  });
+
+  // Get a linked account's verification status
+  app.get("/api/link-account/:program/verification", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const status = await accountLinkService.getStatus(req.user!.id, req.params.program as LoyaltyProgram);
+      res.json(status);
+    } catch (error) {
+      console.error(`Error fetching verification for ${req.params.program}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch verification status" });
+    }
+  });
+
+  // Send a new verification challenge for a linked account
+  app.post("/api/link-account/:program/verification", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = startVerificationSchema.parse(req.body ?? {});
+      const status = await accountLinkService.startVerification(req.user!.id, req.params.program as LoyaltyProgram, data.method);
+      res.status(201).json(status);
+    } catch (error) {
+      console.error(`Error starting verification for ${req.params.program}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to start verification" });
+    }
+  });
+
+  // Confirm a verification challenge with the code or micro-transfer amounts
+  app.post("/api/link-account/:program/verification/confirm", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = confirmVerificationSchema.parse(req.body);
+      const wallet = await accountLinkService.confirmVerification(req.user!.id, req.params.program as LoyaltyProgram, data);
+      res.json(wallet);
+    } catch (error) {
+      console.error(`Error confirming verification for ${req.params.program}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to confirm verification" });
+    }
+  });
+
+  // Unlink a loyalty account - the wallet and its points are kept
+  app.delete("/api/link-account/:program", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const wallet = await accountLinkService.unlinkAccount(req.user!.id, req.params.program as LoyaltyProgram);
+      res.json(wallet);
+    } catch (error) {
+      console.error(`Error unlinking ${req.params.program} account:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to unlink account" });
+    }
+  });
+
+  // ===== TOKENIZATION FEATURES =====
+
+  // Get token ledger for user
+  app.get("/api/tokens", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // NOTE: This will be updated in the future to query a token_ledger table
+      // For now we'll return an empty array
+      const tokenLedger: TokenLedgerEntry[] = [];
+      res.json(tokenLedger);
+    } catch (error) {
+      console.error("Error fetching token ledger:", error);
+      res.status(500).json({ message: "Failed to fetch token ledger" });
+    }
+  });
+
+  // Tokenize points
+  app.post("/api/tokenize", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = tokenizeSchema.parse(req.body);
+      
+      // Get user wallet
+      const wallet = await storage.getWallet(req.user!.id, data.program);
+      if (!wallet) {
+        return res.status(404).json({ message: "Wallet not found" });
+      }
+      
+      // Check if user has enough balance
+      if (wallet.balance < data.amount) {
+        return res.status(400).json({ message: "Insufficient balance" });
+      }
+      
+      // Use the token service to mint tokens - it throws a ServiceError the client can act on
+      // (e.g. a balance that moved since we checked) or anything else for a 500
+      await tokenService.mintTokens(
+        req.user!.id,
+        data.program,
+        data.amount
+      );
+      
+      // Get updated wallet balances
+      const updatedWallet = await storage.getWallet(req.user!.id, data.program);
+      const xPointsWallet = await storage.getWallet(req.user!.id, "XPOINTS");
+      
+      // Get blockchain wallet address
+      const walletAddress = await tokenService.getUserWalletAddress(req.user!.id);
+      
+      res.status(200).json({
+        success: true,
+        blockchain: {
+          walletAddress,
+          tokenBalance: xPointsWallet?.balance || 0
+        },
+        sourceWallet: {
+          program: data.program,
+          balance: updatedWallet?.balance || 0
+        }
+      });
+    } catch (error) {
+      console.error("Error converting loyalty points to xPoints:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to convert loyalty points to xPoints" });
+    }
+  });
+  
+  // API endpoint for getting blockchain wallet info
+  app.get("/api/blockchain-wallet", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Get or create wallet address for the user
+      const walletAddress = await tokenService.getUserWalletAddress(req.user!.id);
+      const tokenBalance = await tokenService.getUserBalance(req.user!.id);
+      
+      // Get token stats
+      const totalSupply = await tokenService.getTotalSupply();
+      const supportedPrograms = await tokenService.getSupportedPrograms();
+      
+      // Get reserves for each program
+      const reserves = await Promise.all(
+        supportedPrograms.map(async (program) => {
+          const balance = await tokenService.getLoyaltyPointsReserve(program);
+          return { program, balance };
+        })
+      );
+      
+      res.status(200).json({
+        wallet: {
+          address: walletAddress,
+          balance: tokenBalance
+        },
+        token: {
+          totalSupply,
+          reserves
+        }
+      });
+    } catch (error) {
+      console.error("Error getting blockchain wallet:", error);
+      res.status(500).json({ message: "Error retrieving blockchain wallet information" });
+    }
+  });
+  
+  // API endpoint for converting tokens back to loyalty points
+  app.post("/api/detokenize", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = detokenizeSchema.parse(req.body);
+      
+      // Get user's XPOINTS wallet
       const xpointsWallet = await storage.getWallet(req.user!.id, "XPOINTS");
       if (!xpointsWallet) {
         return res.status(404).json({ message: "XPOINTS wallet not found" });
@@ -879,18 +1629,6 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(400).json({ message: "Insufficient token balance" });
       }
       
-      // Get destination wallet (or create it if it doesn't exist)
-      let targetWallet = await storage.getWallet(req.user!.id, data.program);
-      if (!targetWallet) {
-        targetWallet = await storage.createWallet({
-          userId: req.user!.id,
-          program: data.program,
-          balance: 0,
-          accountNumber: null,
-          accountName: null
-        });
-      }
-      
       // Use the token service to burn tokens and convert back to loyalty points
       const success = await tokenService.burnTokens(
         req.user!.id,
@@ -924,6 +1662,10 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
       res.status(500).json({ message: "Failed to convert tokens to loyalty points" });
     }
   });
@@ -1002,8 +1744,8 @@ app.get("/api/exchange-rates/history", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Get the current user's trade offers
-      const userOffers = await storage.getUserTradeOffers(req.user!.id);
+      // Get the current user's trade offers, flagging the ones about to expire
+      const userOffers = await tradeService.getUserOffers(req.user!.id);
       res.json(userOffers);
     } catch (error) {
       console.error("Error fetching user's trade offers:", error);
@@ -1011,65 +1753,55 @@ app.get("/api/exchange-rates/history", async (req, res) => {
     }
   });
 
-  // Create a new trade offer
-  app.post("/api/trades", async (req, res) => {
+  // Depth of the open offers on a program pair
+  app.get("/api/trades/book", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      // Validate request body
-      const data = createTradeOfferSchema.parse(req.body);
-      
-      // Check that from and to programs are different
-      if (data.fromProgram === data.toProgram) {
-        return res.status(400).json({ message: "Cannot trade between the same program" });
-      }
+      const pair = tradePairQuerySchema.parse(req.query);
       
-      // Get source wallet to check balance
-      const sourceWallet = await storage.getWallet(req.user!.id, data.fromProgram);
-      if (!sourceWallet) {
-        return res.status(404).json({ message: "Source wallet not found" });
-      }
-      
-      // Check if user has enough balance
-      if (sourceWallet.balance < data.amountOffered) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
+      const book = await tradeService.getOrderBook(pair);
+      res.json(book);
+    } catch (error) {
+      console.error("Error fetching order book:", error);
       
-      // Get market rate for comparison
-      const marketRate = await storage.getExchangeRate(data.fromProgram, data.toProgram);
-      if (!marketRate) {
-        return res.status(404).json({ message: "Market rate not found" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      // Calculate custom rate and savings
-      const customRate = data.amountRequested / data.amountOffered;
-      const marketRateValue = Number(marketRate.rate);
-      const savings = ((marketRateValue - customRate) / marketRateValue) * 100;
+      res.status(500).json({ message: "Failed to fetch order book" });
+    }
+  });
+
+  // Recent fills on a program pair
+  app.get("/api/trades/fills", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const pair = tradePairQuerySchema.parse(req.query);
       
-      // Set expiration date
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + data.expiresIn);
+      const fills = await tradeService.getRecentFills(pair);
+      res.json(fills);
+    } catch (error) {
+      console.error("Error fetching trade fills:", error);
       
-      // Create the trade offer in the database
-      const tradeOffer = await storage.createTradeOffer({
-        createdBy: req.user!.id,
-        fromProgram: data.fromProgram,
-        toProgram: data.toProgram,
-        amountOffered: data.amountOffered,
-        amountRequested: data.amountRequested,
-        customRate: customRate.toString(),
-        marketRate: marketRate.rate,
-        savings: savings.toString(),
-        expiresAt,
-        description: data.description || null
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
       
-      // Lock the funds by reducing user's balance
-      await storage.updateWalletBalance(
-        sourceWallet.id, 
-        sourceWallet.balance - data.amountOffered
-      );
+      res.status(500).json({ message: "Failed to fetch trade fills" });
+    }
+  });
+
+  // Create a new trade offer
+  app.post("/api/trades", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Validate request body
+      const data = createTradeOfferSchema.parse(req.body);
       
+      const tradeOffer = await tradeService.createOffer(req.user!.id, data);
       res.status(201).json(tradeOffer);
     } catch (error) {
       console.error("Error creating trade offer:", error);
@@ -1078,12 +1810,16 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
       res.status(500).json({ message: "Failed to create trade offer" });
     }
   });
 
-  // Cancel a trade offer
-  app.post("/api/trades/:id/cancel", async (req, res) => {
+  // Cancel a trade offer, returning whatever hasn't been filled
+  app.post("/api/trades/:id/cancel", idempotent, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -1095,46 +1831,27 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(400).json({ message: "Invalid trade offer ID" });
       }
       
-      // Check if offer exists and belongs to user
-      const offer = await storage.getTradeOffer(offerId);
-      
-      if (!offer) {
-        return res.status(404).json({ message: "Trade offer not found" });
-      }
-      
-      if (offer.createdBy !== req.user!.id) {
-        return res.status(403).json({ message: "You can only cancel your own trade offers" });
-      }
-      
-      if (offer.status !== "open") {
-        return res.status(400).json({ message: "Can only cancel open trade offers" });
-      }
-      
-      // Update offer status to cancelled
-      const updatedOffer = await storage.updateTradeOfferStatus(offerId, "cancelled");
-      
-      // Return the locked funds to the user's wallet
-      const wallet = await storage.getWallet(req.user!.id, offer.fromProgram);
-      if (wallet) {
-        await storage.updateWalletBalance(
-          wallet.id, 
-          wallet.balance + offer.amountOffered
-        );
-      }
+      const offer = await tradeService.cancelOffer(req.user!.id, offerId);
       
       res.status(200).json({ 
         message: "Trade offer cancelled successfully", 
-        id: offerId,
-        status: "cancelled"
+        id: offer.id,
+        status: offer.status,
+        amountReleased: offer.amountRemaining
       });
     } catch (error) {
       console.error("Error cancelling trade offer:", error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
       res.status(500).json({ message: "Failed to cancel trade offer" });
     }
   });
 
-  // Accept a trade offer
-  app.post("/api/trades/:id/accept", async (req, res) => {
+  // Push back the expiry of one of the user's open trade offers
+  app.post("/api/trades/:id/extend", idempotent, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -1147,115 +1864,48 @@ app.get("/api/exchange-rates/history", async (req, res) => {
       }
       
       // Validate request body
-      const data = acceptTradeOfferSchema.parse(req.body);
-      
-      // Get the trade offer from the database
-      const tradeOffer = await storage.getTradeOffer(offerId);
-      
-      if (!tradeOffer) {
-        return res.status(404).json({ message: "Trade offer not found" });
-      }
-      
-      // Check if the offer is still open
-      if (tradeOffer.status !== "open") {
-        return res.status(400).json({ 
-          message: "This trade offer is no longer available",
-          status: tradeOffer.status
-        });
-      }
+      const data = extendTradeOfferSchema.parse(req.body);
       
-      // Check if the offer has expired
-      if (new Date() > new Date(tradeOffer.expiresAt)) {
-        // Automatically update the status to expired
-        await storage.updateTradeOfferStatus(offerId, "expired");
-        
-        // Return locked funds to the seller
-        const sellerWallet = await storage.getWallet(tradeOffer.createdBy, tradeOffer.fromProgram);
-        if (sellerWallet) {
-          await storage.updateWalletBalance(
-            sellerWallet.id,
-            sellerWallet.balance + tradeOffer.amountOffered
-          );
-        }
-        
-        return res.status(400).json({ message: "This trade offer has expired" });
-      }
+      const offer = await tradeService.extendOffer(req.user!.id, offerId, data);
+      res.status(200).json(offer);
+    } catch (error) {
+      console.error("Error extending trade offer:", error);
       
-      // Check if user is trying to accept their own offer
-      if (tradeOffer.createdBy === req.user!.id) {
-        return res.status(400).json({ message: "Cannot accept your own trade offer" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
-      // Get buyer's wallet (the current user accepting the offer)
-      const buyerWallet = await storage.getWallet(req.user!.id, tradeOffer.toProgram);
-      if (!buyerWallet) {
-        return res.status(404).json({ message: "Buyer wallet not found" });
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
       }
       
-      // Check if buyer has enough balance
-      if (buyerWallet.balance < tradeOffer.amountRequested) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
+      res.status(500).json({ message: "Failed to extend trade offer" });
+    }
+  });
+
+  // Accept all or part of a trade offer
+  app.post("/api/trades/:id/accept", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { id } = req.params;
+      const offerId = parseInt(id);
       
-      // Get seller's wallet (the user who created the offer)
-      const sellerWallet = await storage.getWallet(tradeOffer.createdBy, tradeOffer.fromProgram);
-      if (!sellerWallet) {
-        return res.status(404).json({ message: "Seller wallet not found" });
+      // Validate offer ID
+      if (!id || isNaN(offerId)) {
+        return res.status(400).json({ message: "Invalid trade offer ID" });
       }
       
-      // Calculate fee based on savings (percentage of market advantage)
-      const marketRateValue = Number(tradeOffer.marketRate);
-      const customRateValue = Number(tradeOffer.customRate);
-      
-      // Calculate savings percentage (how much better than market rate)
-      const savingsPercent = ((marketRateValue - customRateValue) / marketRateValue) * 100;
-      
-      // Dynamic fee: 10% of the savings, with minimum and maximum caps
-      // Higher savings = higher fees, but never more than 3% total
-      const feePercentage = Math.min(Math.max(savingsPercent * 0.1, 0.5), 3) / 100;
-      
-      // Calculate fees for both parties
-      // Seller pays a fee on what they receive
-      const sellerFee = tradeOffer.amountRequested * feePercentage;
-      // Buyer pays no fee to incentivize accepting offers
-      const buyerFee = 0;
-      
-      console.log(`Trade fees - Savings: ${savingsPercent.toFixed(2)}%, Fee rate: ${(feePercentage*100).toFixed(2)}%, Seller fee: ${sellerFee}`);
-      
-      // Process the trade
-      // 1. Update offer status to completed
-      await storage.updateTradeOfferStatus(offerId, "completed");
-      
-      // 2. Update buyer's wallet: add offered amount, subtract requested amount
-      await storage.updateWalletBalance(
-        buyerWallet.id,
-        buyerWallet.balance - tradeOffer.amountRequested + tradeOffer.amountOffered
-      );
-      
-      // 3. Update seller's wallet: add requested amount minus fees
-      await storage.updateWalletBalance(
-        sellerWallet.id,
-        sellerWallet.balance + tradeOffer.amountRequested - sellerFee
-      );
+      // Validate request body
+      const data = acceptTradeOfferSchema.parse(req.body);
       
-      // 4. Create a trade transaction record
-      const transaction = await storage.createTradeTransaction({
-        tradeOfferId: tradeOffer.id,
-        sellerId: tradeOffer.createdBy,
-        buyerId: req.user!.id,
-        sellerWalletId: sellerWallet.id,
-        buyerWalletId: buyerWallet.id,
-        amountSold: tradeOffer.amountOffered,
-        amountBought: tradeOffer.amountRequested,
-        rate: tradeOffer.customRate,
-        sellerFee: sellerFee,
-        buyerFee: buyerFee,
-        status: "completed"
-      });
+      const fill = await tradeService.fillOffer(req.user!.id, offerId, data);
       
       res.status(200).json({
-        message: "Trade completed successfully",
-        transaction
+        message: fill.offer.status === "completed" ? "Trade completed successfully" : "Trade offer partly filled",
+        offer: fill.offer,
+        transaction: fill.transaction,
+        feeBreakdown: fill.feeBreakdown
       });
     } catch (error) {
       console.error("Error accepting trade offer:", error);
@@ -1264,6 +1914,10 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
       
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
       res.status(500).json({ message: "Failed to accept trade offer" });
     }
   });
@@ -1282,6 +1936,57 @@ app.get("/api/exchange-rates/history", async (req, res) => {
     }
   });
 
+  // Dispute a completed trade the user bought or sold in - it waits on admin review
+  app.post("/api/trades/transactions/:id/disputes", idempotent, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const tradeId = parseInt(req.params.id);
+      if (isNaN(tradeId)) {
+        return res.status(400).json({ message: "Invalid trade ID" });
+      }
+      
+      const data = openTradeDisputeSchema.parse(req.body);
+      const dispute = await tradeDisputeService.openDispute(req.user!.id, tradeId, data);
+      res.status(201).json(dispute);
+    } catch (error) {
+      console.error(`Error disputing trade ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to open dispute" });
+    }
+  });
+
+  // A trade's dispute history
+  app.get("/api/trades/transactions/:id/disputes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const tradeId = parseInt(req.params.id);
+      if (isNaN(tradeId)) {
+        return res.status(400).json({ message: "Invalid trade ID" });
+      }
+      
+      const disputes = await tradeDisputeService.getTradeDisputes(req.user!.id, tradeId);
+      res.json(disputes);
+    } catch (error) {
+      console.error(`Error fetching disputes of trade ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
   // ===== ADMIN FEATURES =====
   
   // Admin route to get all users
@@ -1364,7 +2069,326 @@ app.get("/api/exchange-rates/history", async (req, res) => {
     }
   });
 
+  // Admin route to list transfer bonuses
+  app.get("/api/admin/transfer-bonuses", ensureAdmin, async (req, res) => {
+    try {
+      const bonuses = await storage.getTransferBonuses();
+      res.json(bonuses);
+    } catch (error) {
+      console.error("Error fetching transfer bonuses:", error);
+      res.status(500).json({ message: "Failed to fetch transfer bonuses" });
+    }
+  });
+
+  // Admin route to schedule a transfer bonus - the router picks it up while it's running
+  app.post("/api/admin/transfer-bonuses", ensureAdmin, async (req, res) => {
+    try {
+      const data = createTransferBonusSchema.parse(req.body);
+      
+      if (data.fromProgram === data.toProgram) {
+        return res.status(400).json({ message: "Transfer bonus needs two different programs" });
+      }
+      
+      const bonus = await storage.createTransferBonus({
+        ...data,
+        bonusPercent: data.bonusPercent.toString(),
+        description: data.description ?? null
+      });
+      
+      res.status(201).json(bonus);
+    } catch (error) {
+      console.error("Error creating transfer bonus:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      res.status(500).json({ message: "Failed to create transfer bonus" });
+    }
+  });
+
+  // Admin route to move a transfer along its lifecycle, e.g. when a partner confirms or rejects it out of band
+  app.post("/api/admin/transactions/:id/status", ensureAdmin, async (req, res) => {
+    try {
+      const data = transactionTransitionSchema.parse(req.body);
+      const transaction = await transactionLifecycleService.transition(parseInt(req.params.id), data.status, data.reason ?? null);
+      res.json(transaction);
+    } catch (error) {
+      console.error(`Error updating status of transaction ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to update transaction status" });
+    }
+  });
+
+  // Admin route to request a refund of a conversion - a different admin has to approve it
+  app.post("/api/admin/transactions/:id/reversals", ensureAdmin, async (req, res) => {
+    try {
+      const data = requestReversalSchema.parse(req.body);
+      const reversal = await reversalService.requestReversal(parseInt(req.params.id), req.user!.id, data.reason);
+      res.status(201).json(reversal);
+    } catch (error) {
+      console.error(`Error requesting reversal of transaction ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to request reversal" });
+    }
+  });
+
+  // Admin route to list reversals, e.g. ?status=requested for the ones waiting on approval
+  app.get("/api/admin/reversals", ensureAdmin, async (req, res) => {
+    try {
+      const status = z.enum(["requested", "approved", "rejected"]).optional().parse(req.query.status);
+      const reversals = await reversalService.getReversals(status);
+      res.json(reversals);
+    } catch (error) {
+      console.error("Error fetching reversals:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch reversals" });
+    }
+  });
+
+  // Admin route to approve a reversal - posts the refund
+  app.post("/api/admin/reversals/:id/approve", ensureAdmin, async (req, res) => {
+    try {
+      const data = reviewReversalSchema.parse(req.body ?? {});
+      const reversal = await reversalService.approveReversal(parseInt(req.params.id), req.user!.id, data.note ?? null);
+      res.json(reversal);
+    } catch (error) {
+      console.error(`Error approving reversal ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to approve reversal" });
+    }
+  });
+
+  // Admin route to reject a reversal request
+  app.post("/api/admin/reversals/:id/reject", ensureAdmin, async (req, res) => {
+    try {
+      const data = reviewReversalSchema.parse(req.body ?? {});
+      const reversal = await reversalService.rejectReversal(parseInt(req.params.id), req.user!.id, data.note ?? null);
+      res.json(reversal);
+    } catch (error) {
+      console.error(`Error rejecting reversal ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to reject reversal" });
+    }
+  });
+
+  // Admin route to list trade disputes, e.g. ?status=open for the review queue
+  app.get("/api/admin/trade-disputes", ensureAdmin, async (req, res) => {
+    try {
+      const status = z.enum(tradeDisputeStatuses).optional().parse(req.query.status);
+      const disputes = await tradeDisputeService.getDisputes(status);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching trade disputes:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      res.status(500).json({ message: "Failed to fetch trade disputes" });
+    }
+  });
+
+  // Admin route to refund a disputed trade, in full or in part
+  app.post("/api/admin/trade-disputes/:id/refund", ensureAdmin, async (req, res) => {
+    try {
+      const data = refundTradeDisputeSchema.parse(req.body ?? {});
+      const dispute = await tradeDisputeService.refundDispute(parseInt(req.params.id), req.user!.id, data);
+      res.json(dispute);
+    } catch (error) {
+      console.error(`Error refunding trade dispute ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to refund trade" });
+    }
+  });
+
+  // Admin route to reject a trade dispute - the trade stands
+  app.post("/api/admin/trade-disputes/:id/reject", ensureAdmin, async (req, res) => {
+    try {
+      const data = reviewTradeDisputeSchema.parse(req.body ?? {});
+      const dispute = await tradeDisputeService.rejectDispute(parseInt(req.params.id), req.user!.id, data.note ?? null);
+      res.json(dispute);
+    } catch (error) {
+      console.error(`Error rejecting trade dispute ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to reject trade dispute" });
+    }
+  });
+
+  // Admin route to revoke a user's linked account verification, e.g. after a partner reports it compromised
+  app.post("/api/admin/users/:id/accounts/:program/revoke", ensureAdmin, async (req, res) => {
+    try {
+      const data = revokeAccountSchema.parse(req.body);
+      const wallet = await accountLinkService.revokeVerification(
+        parseInt(req.params.id),
+        req.params.program as LoyaltyProgram,
+        data.reason
+      );
+      res.json(wallet);
+    } catch (error) {
+      console.error(`Error revoking ${req.params.program} account of user ${req.params.id}:`, error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to revoke account verification" });
+    }
+  });
+
+  // Admin route to get the latest reconciliation run and what it found
+  app.get("/api/admin/reconciliation", ensureAdmin, async (req, res) => {
+    try {
+      const report = await reconciliationService.getLatestReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching reconciliation report:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation report" });
+    }
+  });
+
+  // Admin route to reconcile balances now instead of waiting for the job
+  app.post("/api/admin/reconciliation/run", ensureAdmin, async (req, res) => {
+    try {
+      await reconciliationService.runReconciliation();
+      const report = await reconciliationService.getLatestReport();
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error running reconciliation:", error);
+      res.status(500).json({ message: "Failed to run reconciliation" });
+    }
+  });
+
+  // Admin route to approve a discrepancy - balance discrepancies are corrected with an adjustment entry
+  app.post("/api/admin/reconciliation/discrepancies/:id/approve", ensureAdmin, async (req, res) => {
+    try {
+      const discrepancy = await reconciliationService.approveDiscrepancy(parseInt(req.params.id), req.user!.id);
+      res.json(discrepancy);
+    } catch (error) {
+      console.error(`Error approving discrepancy ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to approve discrepancy" });
+    }
+  });
+
+  // Admin route to dismiss a discrepancy without correcting anything
+  app.post("/api/admin/reconciliation/discrepancies/:id/dismiss", ensureAdmin, async (req, res) => {
+    try {
+      const discrepancy = await reconciliationService.dismissDiscrepancy(parseInt(req.params.id), req.user!.id);
+      res.json(discrepancy);
+    } catch (error) {
+      console.error(`Error dismissing discrepancy ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to dismiss discrepancy" });
+    }
+  });
+
   // Admin route to get user details
+  // Admin route to list balance syncs whose difference was too large to apply automatically
+  app.get("/api/admin/balance-syncs", ensureAdmin, async (req, res) => {
+    try {
+      const syncs = await balanceSyncService.getFlaggedSyncs();
+      res.json(syncs);
+    } catch (error) {
+      console.error("Error fetching flagged balance syncs:", error);
+      res.status(500).json({ message: "Failed to fetch balance syncs" });
+    }
+  });
+
+  app.post("/api/admin/balance-syncs/:id/approve", ensureAdmin, async (req, res) => {
+    try {
+      const sync = await balanceSyncService.approveSync(parseInt(req.params.id), req.user!.id);
+      res.json(sync);
+    } catch (error) {
+      console.error(`Error approving balance sync ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to approve balance sync" });
+    }
+  });
+
+  app.post("/api/admin/balance-syncs/:id/dismiss", ensureAdmin, async (req, res) => {
+    try {
+      const sync = await balanceSyncService.dismissSync(parseInt(req.params.id), req.user!.id);
+      res.json(sync);
+    } catch (error) {
+      console.error(`Error dismissing balance sync ${req.params.id}:`, error);
+      
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      
+      res.status(500).json({ message: "Failed to dismiss balance sync" });
+    }
+  });
+
   app.get("/api/admin/users/:id", ensureAdmin, async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
@@ -1379,8 +2403,9 @@ app.get("/api/exchange-rates/history", async (req, res) => {
       // Remove sensitive information
       const { password, walletPrivateKey, ...safeUser } = user;
       
-      // Get user's wallets
-      const wallets = await storage.getUserWallets(userId);
+      // Get user's wallets and what is on hold, with their trade offer escrow
+      const wallets = await escrowService.getWallets(userId);
+      const escrowHolds = await escrowService.getHolds(userId);
       
       // Get user's transactions
       const transactions = await storage.getUserTransactions(userId);
@@ -1388,6 +2413,7 @@ app.get("/api/exchange-rates/history", async (req, res) => {
       res.json({
         user: safeUser,
         wallets,
+        escrowHolds,
         transactions
       });
     } catch (error) {
@@ -1409,15 +2435,23 @@ app.get("/api/exchange-rates/history", async (req, res) => {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (membershipTier && !TIER_ORDER.includes(membershipTier)) {
+        return res.status(400).json({ message: "Invalid membership tier" });
+      }
+      
+      // Tier changes go through the tier engine so they're recorded in the tier history
+      let updatedUser = membershipTier && membershipTier !== user.membershipTier
+        ? await tierService.setTier(userId, membershipTier, "admin")
+        : user;
+      
       // Update the user
-      const [updatedUser] = await db
-        .update(users)
-        .set({ 
-          ...(membershipTier && { membershipTier }),
-          ...(kycVerified && { kycVerified })
-        })
-        .where(eq(users.id, userId))
-        .returning();
+      if (kycVerified) {
+        [updatedUser] = await db
+          .update(users)
+          .set({ kycVerified })
+          .where(eq(users.id, userId))
+          .returning();
+      }
       
       // Remove sensitive information
       const { password, walletPrivateKey, ...safeUser } = updatedUser;
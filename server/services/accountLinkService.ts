@@ -0,0 +1,301 @@
+import { createHash, randomInt, randomUUID, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { notificationService } from "./notificationService";
+import { partnerRegistry } from "../partners/registry";
+import type {
+  AccountVerification,
+  ConfirmVerificationData,
+  LinkAccountData,
+  LoyaltyProgram,
+  VerificationMethod,
+  Wallet
+} from "@shared/schema";
+
+const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * How a challenge reaches the member - the partner program sends the code or pays the
+ * micro-transfers into the linked account
+ */
+export interface VerificationChannel {
+  supportsMicroTransfers(program: LoyaltyProgram): boolean;
+  sendCode(wallet: Wallet, code: string): Promise<void>;
+  sendMicroTransfers(wallet: Wallet, amounts: number[]): Promise<void>;
+}
+
+// Through the partner's connector when it has one. Without one the code goes to the member
+// as a notification and there is nothing to pay micro-transfers with. Challenges are never logged.
+const partnerChannel: VerificationChannel = {
+  supportsMicroTransfers(program) {
+    return partnerRegistry.has(program);
+  },
+  async sendCode(wallet, code) {
+    if (partnerRegistry.has(wallet.program)) {
+      await partnerRegistry.get(wallet.program).sendVerificationCode(wallet.accountNumber!, code);
+      return;
+    }
+
+    const notification = await notificationService.notify(
+      wallet.userId,
+      "account_verification_code",
+      `${wallet.program} verification code`,
+      `Your code to verify your ${wallet.program} account is ${code}. It expires in ${CHALLENGE_TTL_MS / 60000} minutes.`
+    );
+    if (!notification) {
+      throw new Error(`Could not deliver the verification code for wallet ${wallet.id}`);
+    }
+  },
+  async sendMicroTransfers(wallet, amounts) {
+    const connector = partnerRegistry.get(wallet.program);
+    for (const amount of amounts) {
+      await connector.credit(wallet.accountNumber!, amount, `verification:${randomUUID()}`);
+    }
+  }
+};
+
+export interface VerificationStatus {
+  wallet: Wallet;
+  pending: Pick<AccountVerification, "id" | "method" | "attempts" | "expiresAt"> | null;
+}
+
+export function hashChallenge(walletId: number, secret: string): string {
+  return createHash("sha256").update(`${walletId}:${secret}`).digest("hex");
+}
+
+// Micro-transfer amounts can arrive in either order
+function microTransferSecret(amounts: number[]): string {
+  return [...amounts].sort((a, b) => a - b).join(",");
+}
+
+function matches(hash: string, expected: string): boolean {
+  return timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(expected, "hex"));
+}
+
+/**
+ * Throws unless points may be sent out to the wallet's linked account. xPoints wallets
+ * are ours and need no partner account.
+ */
+export function assertVerifiedDestination(wallet: Pick<Wallet, "program" | "accountStatus">) {
+  if (wallet.program !== "XPOINTS" && wallet.accountStatus !== "verified") {
+    throw new ServiceError(
+      `Your ${wallet.program} account must be verified before points can be sent to it`,
+      403,
+      "ACCOUNT_NOT_VERIFIED"
+    );
+  }
+}
+
+/**
+ * Linking partner program accounts to wallets. A linked account stays unverified until
+ * the user proves they control it with a one-time code or by confirming two small
+ * transfers; points only go out to verified accounts. Changing the account number, or
+ * an admin revoking it, means verifying again.
+ */
+export class AccountLinkService {
+  private channel: VerificationChannel = partnerChannel;
+
+  setChannel(channel: VerificationChannel) {
+    this.channel = channel;
+  }
+
+  /**
+   * Saves the account details and sends the first challenge
+   */
+  async linkAccount(userId: number, data: LinkAccountData): Promise<VerificationStatus> {
+    // A connected partner can tell us up front whether the account exists under that name
+    if (partnerRegistry.has(data.program)) {
+      const check = await partnerRegistry.get(data.program).verifyAccount(data.accountNumber, data.accountName);
+      if (!check.valid) {
+        throw new ServiceError(
+          `${data.program} doesn't recognise that account${check.reason === "name_mismatch" ? " under that name" : ""}`,
+          422,
+          "ACCOUNT_NOT_RECOGNISED"
+        );
+      }
+    }
+
+    const existing = await storage.getWallet(userId, data.program);
+
+    if (existing && existing.accountNumber === data.accountNumber && existing.accountStatus === "verified") {
+      // Only the name changed - keep the verification
+      const wallet = await storage.withTransaction(async (tx) => {
+        await tx.updateWalletAccount(existing.id, data.accountNumber, data.accountName);
+        return tx.setWalletAccountStatus(existing.id, "verified", existing.accountVerifiedAt);
+      });
+      return { wallet, pending: null };
+    }
+
+    if (existing) {
+      await storage.updateWalletAccount(existing.id, data.accountNumber, data.accountName);
+    } else {
+      await storage.createWallet({
+        userId,
+        program: data.program,
+        accountNumber: data.accountNumber,
+        accountName: data.accountName
+      });
+    }
+
+    return this.startVerification(userId, data.program, data.verificationMethod);
+  }
+
+  async getStatus(userId: number, program: LoyaltyProgram): Promise<VerificationStatus> {
+    const wallet = await this.getLinkedWallet(userId, program);
+    const pending = await storage.getPendingAccountVerification(wallet.id);
+
+    return { wallet, pending: pending && pending.expiresAt > new Date() ? this.summarize(pending) : null };
+  }
+
+  /**
+   * Sends a new challenge, replacing any still pending
+   */
+  async startVerification(userId: number, program: LoyaltyProgram, method: VerificationMethod): Promise<VerificationStatus> {
+    const wallet = await this.getLinkedWallet(userId, program);
+    if (wallet.accountStatus === "verified") {
+      throw new ServiceError("This account is already verified", 409, "ACCOUNT_ALREADY_VERIFIED");
+    }
+
+    if (method === "micro_transfer" && !this.channel.supportsMicroTransfers(program)) {
+      throw new ServiceError(
+        `${program} isn't connected, so we can't send small transfers - verify with a code instead`,
+        400,
+        "VERIFICATION_METHOD_UNAVAILABLE"
+      );
+    }
+
+    const code = String(randomInt(0, 1000000)).padStart(6, "0");
+    const amounts = [randomInt(1, 100), randomInt(1, 100)];
+    const secret = method === "code" ? code : microTransferSecret(amounts);
+
+    const verification = await storage.withTransaction(async (tx) => {
+      await tx.supersedePendingVerifications(wallet.id);
+      return tx.createAccountVerification({
+        walletId: wallet.id,
+        userId,
+        accountNumber: wallet.accountNumber!,
+        method,
+        secretHash: hashChallenge(wallet.id, secret),
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+      });
+    });
+
+    if (method === "code") {
+      await this.channel.sendCode(wallet, code);
+    } else {
+      await this.channel.sendMicroTransfers(wallet, amounts);
+    }
+
+    return { wallet, pending: this.summarize(verification) };
+  }
+
+  async confirmVerification(userId: number, program: LoyaltyProgram, data: ConfirmVerificationData): Promise<Wallet> {
+    const wallet = await this.getLinkedWallet(userId, program);
+    const pending = await storage.getPendingAccountVerification(wallet.id);
+    if (!pending) {
+      throw new ServiceError("No verification is in progress for this account", 404, "VERIFICATION_NOT_FOUND");
+    }
+
+    const outcome = await storage.withTransaction(async (tx) => {
+      const verification = await tx.lockAccountVerification(pending.id);
+      if (!verification || verification.status !== "pending") {
+        return { error: new ServiceError("No verification is in progress for this account", 404, "VERIFICATION_NOT_FOUND") };
+      }
+
+      // The account was relinked since the challenge went out
+      if (verification.accountNumber !== wallet.accountNumber) {
+        await tx.updateAccountVerification(verification.id, { status: "superseded", completedAt: new Date() });
+        return { error: new ServiceError("No verification is in progress for this account", 404, "VERIFICATION_NOT_FOUND") };
+      }
+
+      if (verification.expiresAt <= new Date()) {
+        await tx.updateAccountVerification(verification.id, { status: "failed", completedAt: new Date() });
+        return { error: new ServiceError("This verification has expired, please request a new one", 410, "VERIFICATION_EXPIRED") };
+      }
+
+      const answer = verification.method === "code" ? data.code : data.amounts && microTransferSecret(data.amounts);
+      if (!answer || !matches(hashChallenge(wallet.id, answer), verification.secretHash)) {
+        const attempts = verification.attempts + 1;
+        const exhausted = attempts >= MAX_ATTEMPTS;
+        await tx.updateAccountVerification(verification.id, {
+          attempts,
+          ...(exhausted ? { status: "failed", completedAt: new Date() } : {})
+        });
+
+        return {
+          error: new ServiceError(
+            exhausted
+              ? "Too many incorrect attempts, please request a new verification"
+              : `That doesn't match - ${MAX_ATTEMPTS - attempts} attempt${MAX_ATTEMPTS - attempts === 1 ? "" : "s"} left`,
+            400,
+            "VERIFICATION_FAILED"
+          )
+        };
+      }
+
+      const now = new Date();
+      await tx.updateAccountVerification(verification.id, { attempts: verification.attempts + 1, status: "verified", completedAt: now });
+      return { wallet: await tx.setWalletAccountStatus(wallet.id, "verified", now) };
+    });
+
+    // Failed attempts are recorded before the error goes back to the user
+    if (outcome.error) {
+      throw outcome.error;
+    }
+
+    log(`Verified ${program} account for wallet ${wallet.id}`, "account-link");
+    return outcome.wallet!;
+  }
+
+  /**
+   * Removes the linked account. The wallet and its points stay.
+   */
+  async unlinkAccount(userId: number, program: LoyaltyProgram): Promise<Wallet> {
+    const wallet = await this.getLinkedWallet(userId, program);
+
+    return storage.withTransaction(async (tx) => {
+      await tx.supersedePendingVerifications(wallet.id);
+      return tx.updateWalletAccount(wallet.id, null, null);
+    });
+  }
+
+  /**
+   * Admin: stops points going out to an account until the user verifies it again
+   */
+  async revokeVerification(userId: number, program: LoyaltyProgram, reason: string): Promise<Wallet> {
+    const wallet = await this.getLinkedWallet(userId, program);
+
+    const revoked = await storage.withTransaction(async (tx) => {
+      await tx.supersedePendingVerifications(wallet.id);
+      return tx.setWalletAccountStatus(wallet.id, "revoked", null);
+    });
+
+    await notificationService.notify(
+      userId,
+      "account_revoked",
+      `${program} account needs verifying`,
+      `Your linked ${program} account was unverified: ${reason}. Verify it again to send points to it.`
+    );
+
+    return revoked;
+  }
+
+  private async getLinkedWallet(userId: number, program: LoyaltyProgram): Promise<Wallet> {
+    const wallet = await storage.getWallet(userId, program);
+    if (!wallet || !wallet.accountNumber) {
+      throw new ServiceError(`No ${program} account is linked`, 404, "ACCOUNT_NOT_LINKED");
+    }
+
+    return wallet;
+  }
+
+  private summarize(verification: AccountVerification): VerificationStatus["pending"] {
+    const { id, method, attempts, expiresAt } = verification;
+    return { id, method, attempts, expiresAt };
+  }
+}
+
+// Create a singleton instance
+export const accountLinkService = new AccountLinkService();
@@ -0,0 +1,249 @@
+import { storage, type IStorage } from "../storage";
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { partnerRegistry } from "../partners/registry";
+import { partnerSyncPostings } from "./ledgerService";
+import { notificationService } from "./notificationService";
+import { addPoints, formatPoints, subtractPoints } from "@shared/money";
+import type { BalanceSync, LoyaltyProgram, SyncTrigger, Wallet } from "@shared/schema";
+
+// Most wallets one scheduled run syncs - anything left over goes on the next run
+const SYNC_BATCH_SIZE = 500;
+const HISTORY_LIMIT = 50;
+const REVIEW_LIMIT = 200;
+
+// Runs start a little less than an interval after the wallets the last one synced
+const SCHEDULE_SLACK_MS = 60 * 1000;
+
+export interface BalanceSyncRun {
+  synced: number;
+  applied: number;
+  flagged: number;
+  failed: number;
+}
+
+/**
+ * Whether a difference is too large to apply without an admin looking at it: at least
+ * the configured number of points and share of the balance we expected
+ */
+export function isLargeChange(difference: number, expected: number): boolean {
+  const size = Math.abs(difference);
+  return size >= config.balanceSync.flagMinPoints && size >= Math.max(expected, 0) * config.balanceSync.flagShare;
+}
+
+function canSync(wallet: Wallet): boolean {
+  return Boolean(wallet.accountNumber) && wallet.accountStatus === "verified" && partnerRegistry.has(wallet.program);
+}
+
+/**
+ * Keeps wallets in line with points earned or spent at the partner program itself. Each
+ * sync asks the partner for the linked account's balance and compares it with what the
+ * partner should hold - its last reported balance plus what we've credited since. The
+ * difference is activity outside xPoints and is posted to the wallet, unless it is large
+ * enough to be flagged for an admin to approve or dismiss.
+ */
+export class BalanceSyncService {
+  async syncWallet(wallet: Wallet, trigger: SyncTrigger): Promise<BalanceSync> {
+    const connector = partnerRegistry.get(wallet.program);
+    const now = new Date();
+    const base = { walletId: wallet.id, userId: wallet.userId, program: wallet.program, trigger };
+
+    let reported: number;
+    try {
+      reported = await connector.getBalance(wallet.accountNumber!);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`Balance sync of wallet ${wallet.id} failed: ${message}`, "partners");
+      await storage.updateWalletPartnerSync(wallet.id, { partnerSyncedAt: now });
+      return storage.createBalanceSync({ ...base, status: "failed", error: message });
+    }
+
+    const sync = await storage.withTransaction(async (tx) => {
+      const locked = await tx.lockWallet(wallet.userId, wallet.program);
+      if (!locked) {
+        throw new ServiceError("Wallet not found", 404, "WALLET_NOT_FOUND");
+      }
+
+      // Until the first sync the partner is taken to hold what the wallet does
+      const expected = locked.partnerBalance ?? locked.balance;
+      const difference = subtractPoints(reported, expected);
+      const found = { ...base, expectedBalance: expected, reportedBalance: reported, difference };
+      // Later syncs measure from here whether or not this difference is applied
+      await tx.updateWalletPartnerSync(locked.id, { partnerBalance: reported, partnerSyncedAt: now });
+
+      if (difference === 0) {
+        return tx.createBalanceSync({ ...found, status: "unchanged" });
+      }
+      if (isLargeChange(difference, expected)) {
+        return tx.createBalanceSync({ ...found, status: "flagged" });
+      }
+      if (addPoints(locked.balance, difference) < 0) {
+        return tx.createBalanceSync({ ...found, status: "flagged", error: "Would take the wallet below zero" });
+      }
+
+      const applied = await tx.createBalanceSync({ ...found, status: "applied" });
+      return this.applyDifference(tx, locked, applied, { status: "applied" });
+    });
+
+    if (sync.status === "flagged") {
+      await notificationService.notify(
+        sync.userId,
+        "balance_sync_flagged",
+        "Balance change under review",
+        `Your ${sync.program} balance changed by ${formatPoints(sync.difference!, sync.program)} points at ${sync.program}. We'll update your wallet once the change has been checked.`
+      );
+    }
+
+    return sync;
+  }
+
+  /**
+   * Refresh a user asked for: syncs each of their linked accounts, or just the one for
+   * `program`, that hasn't been synced within the cooldown
+   */
+  async syncUserWallets(userId: number, program?: LoyaltyProgram): Promise<BalanceSync[]> {
+    const wallets = (await storage.getUserWallets(userId))
+      .filter(wallet => (!program || wallet.program === program) && canSync(wallet));
+    if (wallets.length === 0) {
+      throw new ServiceError("No verified partner account to refresh", 400, "NO_SYNCABLE_ACCOUNTS");
+    }
+
+    const cooldownMs = config.balanceSync.manualCooldownSeconds * 1000;
+    const due = wallets.filter(wallet => !wallet.partnerSyncedAt || Date.now() - wallet.partnerSyncedAt.getTime() >= cooldownMs);
+    if (due.length === 0) {
+      throw new ServiceError(
+        `Balances were refreshed less than ${config.balanceSync.manualCooldownSeconds} seconds ago`,
+        429,
+        "SYNC_TOO_SOON"
+      );
+    }
+
+    const syncs: BalanceSync[] = [];
+    for (const wallet of due) {
+      syncs.push(await this.syncWallet(wallet, "manual"));
+    }
+    return syncs;
+  }
+
+  /**
+   * Background job: syncs linked accounts that haven't been synced within the interval
+   */
+  async runScheduledSync(now = new Date()): Promise<BalanceSyncRun> {
+    const run: BalanceSyncRun = { synced: 0, applied: 0, flagged: 0, failed: 0 };
+    const syncedBefore = new Date(now.getTime() - config.jobs.balanceSyncIntervalMinutes * 60 * 1000 + SCHEDULE_SLACK_MS);
+
+    const wallets = (await storage.getWalletsDueForSync(syncedBefore, SYNC_BATCH_SIZE))
+      .filter(wallet => partnerRegistry.has(wallet.program));
+
+    for (const wallet of wallets) {
+      try {
+        const sync = await this.syncWallet(wallet, "scheduled");
+        run.synced++;
+        if (sync.status === "applied") run.applied++;
+        if (sync.status === "flagged") run.flagged++;
+        if (sync.status === "failed") run.failed++;
+      } catch (error) {
+        console.error(`Error syncing balance of wallet ${wallet.id}:`, error);
+        run.failed++;
+      }
+    }
+
+    return run;
+  }
+
+  async getHistory(userId: number, program: LoyaltyProgram): Promise<BalanceSync[]> {
+    const wallet = await storage.getWallet(userId, program);
+    if (!wallet) {
+      throw new ServiceError("Wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    return storage.getWalletBalanceSyncs(wallet.id, HISTORY_LIMIT);
+  }
+
+  async getFlaggedSyncs(): Promise<BalanceSync[]> {
+    return storage.getBalanceSyncsByStatus("flagged", REVIEW_LIMIT);
+  }
+
+  /**
+   * Applies a flagged difference to the wallet
+   */
+  async approveSync(syncId: number, adminId: number): Promise<BalanceSync> {
+    return storage.withTransaction(async (tx) => {
+      const sync = await this.lockFlaggedSync(tx, syncId);
+      const wallet = await tx.lockWallet(sync.userId, sync.program);
+      if (!wallet) {
+        throw new ServiceError("Wallet not found", 404, "WALLET_NOT_FOUND");
+      }
+
+      return this.applyDifference(tx, wallet, sync, { status: "approved", reviewedBy: adminId, reviewedAt: new Date() });
+    });
+  }
+
+  /**
+   * Leaves the wallet as it is. The partner balance has already moved on, so later syncs
+   * don't raise the same difference again.
+   */
+  async dismissSync(syncId: number, adminId: number): Promise<BalanceSync> {
+    return storage.withTransaction(async (tx) => {
+      const sync = await this.lockFlaggedSync(tx, syncId);
+      return tx.updateBalanceSync(sync.id, { status: "dismissed", reviewedBy: adminId, reviewedAt: new Date() });
+    });
+  }
+
+  /**
+   * Posts a sync's difference to the wallet and records a sync transaction for it
+   */
+  private async applyDifference(
+    tx: IStorage,
+    wallet: Wallet,
+    sync: BalanceSync,
+    updates: Pick<BalanceSync, "status"> & Partial<Pick<BalanceSync, "reviewedBy" | "reviewedAt">>
+  ): Promise<BalanceSync> {
+    const difference = sync.difference!;
+    const posted = await tx.postJournalEntry(
+      {
+        userId: null,
+        type: "partner_sync",
+        reference: `balance_sync:${sync.id}`,
+        description: `${wallet.program} activity outside xPoints`
+      },
+      partnerSyncPostings(wallet.id, wallet.program, difference)
+    );
+
+    await tx.createTransaction({
+      userId: wallet.userId,
+      fromProgram: wallet.program,
+      toProgram: wallet.program,
+      amountFrom: difference < 0 ? -difference : 0,
+      amountTo: difference > 0 ? difference : 0,
+      feeApplied: 0,
+      status: "settled",
+      type: "sync",
+      recipientId: wallet.userId,
+      transactionHash: "",
+      blockNumber: 0,
+      contractAddress: "",
+      tokenAddress: "",
+      journalEntryId: posted.entry.id
+    });
+
+    return tx.updateBalanceSync(sync.id, { ...updates, entryId: posted.entry.id, error: null });
+  }
+
+  private async lockFlaggedSync(tx: IStorage, syncId: number): Promise<BalanceSync> {
+    const sync = await tx.lockBalanceSync(syncId);
+    if (!sync) {
+      throw new ServiceError("Balance sync not found", 404, "BALANCE_SYNC_NOT_FOUND");
+    }
+
+    if (sync.status !== "flagged") {
+      throw new ServiceError("Balance sync has already been reviewed", 409, "BALANCE_SYNC_NOT_FLAGGED");
+    }
+
+    return sync;
+  }
+}
+
+// Create a singleton instance
+export const balanceSyncService = new BalanceSyncService();
@@ -0,0 +1,235 @@
+import { storage, type IStorage } from "../storage";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { conversionService } from "./conversionService";
+import type { TransactionTransition } from "./transactionLifecycleService";
+import { escrowHoldPostings, escrowReleasePostings, getOrCreateWallet } from "./ledgerService";
+import { assertVerifiedDestination } from "./accountLinkService";
+import { notificationService } from "./notificationService";
+import { formatPoints } from "@shared/money";
+import type { ConversionOrder, CreateConversionOrderData, LoyaltyProgram, Wallet } from "@shared/schema";
+
+export interface OrderEvaluationResult {
+  executed: number;
+  expired: number;
+  cancelled: number;
+  waiting: number;
+  failed: number;
+}
+
+type OrderOutcome = "executed" | "expired" | "cancelled" | "waiting";
+
+function orderReference(order: ConversionOrder): string {
+  return `conversion_order:${order.id}`;
+}
+
+function isExpired(order: ConversionOrder, now: Date): boolean {
+  return order.timeInForce === "gtd" && !!order.expiresAt && order.expiresAt <= now;
+}
+
+/**
+ * Why points can't go out to the destination wallet, if they can't
+ */
+function destinationProblem(wallet: Wallet | undefined, program: LoyaltyProgram): string | null {
+  try {
+    assertVerifiedDestination(wallet ?? { program, accountStatus: "unverified" });
+    return null;
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Limit orders for conversions: the points are held in escrow when the order is placed
+ * and converted through the normal pipeline once the all-in rate reaches the target
+ */
+export class ConversionOrderService {
+  async createOrder(userId: number, data: CreateConversionOrderData): Promise<ConversionOrder> {
+    // Fails with SAME_PROGRAM or RATE_NOT_FOUND if the order could never fill
+    await conversionService.priceConversion(storage, userId, data.fromProgram, data.toProgram, data.amount);
+
+    // Nor could it fill into an account that isn't verified
+    const destWallet = await storage.getWallet(userId, data.toProgram);
+    if (!destWallet) {
+      throw new ServiceError("Destination wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+    assertVerifiedDestination(destWallet);
+
+    return storage.withTransaction(async (tx) => {
+      const sourceWallet = await tx.getWallet(userId, data.fromProgram);
+      if (!sourceWallet) {
+        throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+      }
+
+      const order = await tx.createConversionOrder({
+        userId,
+        fromProgram: data.fromProgram,
+        toProgram: data.toProgram,
+        amount: data.amount,
+        targetRate: data.targetRate.toString(),
+        timeInForce: data.timeInForce,
+        expiresAt: data.timeInForce === "gtd" ? data.expiresAt : null
+      });
+
+      // Reserve the points - fails with INSUFFICIENT_BALANCE if the wallet can't cover them
+      await tx.postJournalEntry(
+        { userId, type: "order_reserve", reference: orderReference(order), description: "Conversion order placed" },
+        escrowHoldPostings(sourceWallet.id, order.fromProgram, order.amount)
+      );
+
+      return order;
+    });
+  }
+
+  async getUserOrders(userId: number): Promise<ConversionOrder[]> {
+    return storage.getUserConversionOrders(userId);
+  }
+
+  async cancelOrder(userId: number, orderId: number): Promise<ConversionOrder> {
+    return storage.withTransaction(async (tx) => {
+      // Lock the order so it cannot execute while we cancel it
+      const order = await tx.lockConversionOrder(orderId);
+      if (!order || order.userId !== userId) {
+        throw new ServiceError("Conversion order not found", 404, "ORDER_NOT_FOUND");
+      }
+
+      if (order.status !== "open") {
+        throw new ServiceError("Can only cancel open conversion orders", 409, "ORDER_NOT_OPEN");
+      }
+
+      await this.releaseReserve(tx, order, "Conversion order cancelled");
+      return tx.closeConversionOrder(order.id, "cancelled");
+    });
+  }
+
+  /**
+   * Executes every open order whose target rate is met at current rates and expires
+   * the ones past their date. Orders whose destination account is no longer verified
+   * are cancelled with the reason. Runs after each exchange rate update.
+   */
+  async evaluateOrders(now = new Date()): Promise<OrderEvaluationResult> {
+    const result: OrderEvaluationResult = { executed: 0, expired: 0, cancelled: 0, waiting: 0, failed: 0 };
+    const orders = await storage.getOpenConversionOrders();
+
+    for (const { id } of orders) {
+      try {
+        const outcome = await this.evaluateOrder(id, now);
+        result[outcome]++;
+      } catch (error) {
+        console.error(`Error evaluating conversion order ${id}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (orders.length > 0) {
+      log(`Evaluated ${orders.length} conversion orders: ${JSON.stringify(result)}`, "conversionOrders");
+    }
+
+    return result;
+  }
+
+  /**
+   * Expires good-till-date orders that are past their date without looking at rates
+   */
+  async expireOrders(now = new Date()): Promise<number> {
+    const orders = await storage.getOpenConversionOrders();
+    let expired = 0;
+
+    for (const order of orders.filter(o => isExpired(o, now))) {
+      try {
+        await storage.withTransaction(async (tx) => {
+          const locked = await tx.lockConversionOrder(order.id);
+          if (!locked || locked.status !== "open") {
+            return;
+          }
+
+          await this.releaseReserve(tx, locked, "Conversion order expired");
+          await tx.closeConversionOrder(locked.id, "expired");
+          expired++;
+        });
+      } catch (error) {
+        console.error(`Error expiring conversion order ${order.id}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  private async evaluateOrder(orderId: number, now: Date): Promise<OrderOutcome> {
+    let transition = null as TransactionTransition | null;
+    let cancelled = null as ConversionOrder | null;
+
+    const outcome = await storage.withTransaction(async (tx): Promise<OrderOutcome> => {
+      const order = await tx.lockConversionOrder(orderId);
+      if (!order || order.status !== "open") {
+        return "waiting";
+      }
+
+      if (isExpired(order, now)) {
+        await this.releaseReserve(tx, order, "Conversion order expired");
+        await tx.closeConversionOrder(order.id, "expired");
+        return "expired";
+      }
+
+      // Verification revoked since the order was placed - it would never fill, so hand the points back
+      const problem = destinationProblem(await tx.getWallet(order.userId, order.toProgram), order.toProgram);
+      if (problem) {
+        await this.releaseReserve(tx, order, "Conversion order cancelled");
+        cancelled = await tx.closeConversionOrder(order.id, "cancelled", problem);
+        return "cancelled";
+      }
+
+      // All-in rate over the best route, after the user's fees - priced under the user lock,
+      // like batches and quotes, so the free allowance can't be spent twice
+      await tx.lockUser(order.userId);
+      const pricing = await conversionService.priceConversion(tx, order.userId, order.fromProgram, order.toProgram, order.amount);
+      const allInRate = pricing.amountTo / pricing.amountFrom;
+      if (allInRate < Number(order.targetRate)) {
+        return "waiting";
+      }
+
+      // Put the reserved points back and convert them in the same transaction
+      await this.releaseReserve(tx, order, "Conversion order executing");
+      const carried = await conversionService.carryOutConversion(tx, order.userId, pricing, orderReference(order));
+      transition = carried.transition;
+      await tx.markConversionOrderExecuted(order.id, carried.transaction.id, allInRate.toFixed(6));
+
+      return "executed";
+    });
+
+    if (cancelled) {
+      await notificationService.notify(
+        cancelled.userId,
+        "conversion_order_cancelled",
+        "Conversion order cancelled",
+        `Your order to convert ${formatPoints(cancelled.amount, cancelled.fromProgram)} ${cancelled.fromProgram} points to ${cancelled.toProgram} was cancelled and the points returned. ${cancelled.closeReason}`
+      );
+    }
+
+    // Executed into a connected partner: a transfer that can't be submitted now stays
+    // pending for the partner transfer job
+    if (transition) {
+      try {
+        await conversionService.submitTransfer(transition);
+      } catch (error) {
+        console.error(`Error submitting transfer for conversion order ${orderId}:`, error);
+      }
+    }
+
+    return outcome;
+  }
+
+  private async releaseReserve(tx: IStorage, order: ConversionOrder, description: string) {
+    const wallet = await getOrCreateWallet(tx, order.userId, order.fromProgram);
+    await tx.postJournalEntry(
+      { userId: order.userId, type: "order_release", reference: orderReference(order), description },
+      escrowReleasePostings(wallet.id, order.fromProgram, order.amount)
+    );
+  }
+}
+
+// Create a singleton instance
+export const conversionOrderService = new ConversionOrderService();
@@ -0,0 +1,545 @@
+import { randomUUID } from "crypto";
+import { storage, type IStorage } from "../storage";
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { balanceAfterEntry, routePostings, type RouteHopPosting } from "./ledgerService";
+import { feePolicyService, withLineItem, type FeeBreakdown, type FreeAllowance } from "./feePolicyService";
+import { routingService, type RouteHop } from "./routingService";
+import { addPoints, isValidPointsAmount, subtractPoints } from "@shared/money";
+import { tierService } from "./tierService";
+import { assertVerifiedDestination } from "./accountLinkService";
+import { transactionLifecycleService, type TransactionTransition } from "./transactionLifecycleService";
+import { partnerTransferService } from "./partnerTransferService";
+import { partnerRegistry } from "../partners/registry";
+import type { ConversionQuote, ConvertBatchData, ConvertPointsData, LoyaltyProgram, Transaction } from "@shared/schema";
+
+export interface ConversionPricing {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountFrom: number;
+  amountAfterFee: number;
+  amountTo: number;
+  rate: string; // Effective rate of the whole route, applied to amountAfterFee
+  feeApplied: number; // In fromProgram points
+  feeBreakdown: FeeBreakdown;
+  conversionPath: string;
+  hops: RouteHop[];
+  fromValueInDollars: number;
+  toValueInDollars: number;
+}
+
+// What postConversion needs to move the balances - a priced conversion, or one restored from a quote
+export type ConversionToPost = Pick<ConversionPricing, "fromProgram" | "toProgram" | "amountFrom" | "amountTo" | "feeApplied" | "conversionPath"> & {
+  hops?: RouteHopPosting[]; // Defaults to a single direct hop
+};
+
+export interface ConversionResult {
+  transaction: Transaction;
+  fromBalance: number;
+  toBalance: number;
+}
+
+// A conversion into a connected partner program comes with the transition that held its points
+export interface CarriedOutConversion extends ConversionResult {
+  transition: TransactionTransition | null;
+}
+
+export interface QuoteExecutionResult extends ConversionResult {
+  quote: ConversionQuote;
+  feeBreakdown: FeeBreakdown | null;
+}
+
+export interface BatchLegResult extends ConversionResult {
+  leg: number; // Position in the request, from 1
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountFrom: number;
+  amountTo: number;
+  rate: string;
+  conversionPath: string;
+  feeBreakdown: FeeBreakdown;
+}
+
+export interface BatchFeeSummary {
+  byProgram: { program: LoyaltyProgram; total: number }[]; // Fees are charged in each leg's source program
+  totalInDollars: number;
+  allowance: FreeAllowance | null; // The free allowance as used across the whole batch
+}
+
+export interface BatchConversionResult {
+  batchId: string;
+  legs: BatchLegResult[];
+  fees: BatchFeeSummary;
+  balances: Partial<Record<LoyaltyProgram, number>>; // Every touched wallet, after the batch
+}
+
+/**
+ * Adds up the fees of a batch's legs, per program and in dollars, and how much of the
+ * free allowance the batch used between them
+ */
+export function summarizeBatchFees(breakdowns: FeeBreakdown[]): BatchFeeSummary {
+  const byProgram = new Map<LoyaltyProgram, number>();
+  breakdowns.forEach(b => byProgram.set(b.program, addPoints(byProgram.get(b.program) ?? 0, b.total)));
+
+  const allowances = breakdowns.map(b => b.allowance).filter((a): a is FreeAllowance => !!a);
+  const first = allowances[0];
+  const last = allowances[allowances.length - 1];
+
+  return {
+    byProgram: Array.from(byProgram, ([program, total]) => ({ program, total })),
+    totalInDollars: Number(
+      breakdowns.reduce((sum, b) => sum + b.total * getStandardDollarRate(b.program), 0).toFixed(2)
+    ),
+    allowance: first ? {
+      limit: first.limit,
+      usedThisMonth: first.usedThisMonth,
+      applied: addPoints(...allowances.map(a => a.applied)),
+      remaining: last.remaining
+    } : null
+  };
+}
+
+/**
+ * Fee breakdown a quote was priced with, if it has one
+ */
+export function quoteFeeBreakdown(quote: ConversionQuote): FeeBreakdown | null {
+  return quote.feeBreakdown ? JSON.parse(quote.feeBreakdown) as FeeBreakdown : null;
+}
+
+/**
+ * Route hops a quote was priced with, if it has them
+ */
+export function quoteRoute(quote: ConversionQuote): RouteHop[] | null {
+  return quote.route ? JSON.parse(quote.route) as RouteHop[] : null;
+}
+
+/**
+ * Standardized dollar value per point, with xPoints as the base currency
+ */
+export function getStandardDollarRate(program: string): number {
+  const standardValues: Record<string, number> = {
+    'QANTAS': 0.006,    // $0.006 per Qantas point (0.6 cents)
+    'GYG': 0.008,       // $0.008 per GYG point (0.8 cents)
+    'XPOINTS': 0.01,    // $0.01 per xPoint (1 cent) - our standardized value
+    'VELOCITY': 0.007,  // $0.007 per Velocity point (0.7 cents)
+    'AMEX': 0.009,      // $0.009 per AMEX point (0.9 cents)
+    'FLYBUYS': 0.005,   // $0.005 per Flybuys point (0.5 cents)
+    'HILTON': 0.004,    // $0.004 per Hilton point (0.4 cents)
+    'MARRIOTT': 0.006,  // $0.006 per Marriott point (0.6 cents)
+    'AIRBNB': 0.0095,   // $0.0095 per Airbnb point (0.95 cents)
+    'DELTA': 0.0065     // $0.0065 per Delta point (0.65 cents)
+  };
+
+  return standardValues[program] || 0.01; // Default to 1 cent if program not found
+}
+
+/**
+ * Prices, quotes and executes point conversions
+ */
+export class ConversionService {
+  /**
+   * Prices every route for a conversion at the current rates and the user's tier fees, best first.
+   * `usedOffset` counts allowance already spoken for by earlier conversions that haven't been recorded yet.
+   * Reads through `tx`, so a conversion priced inside storage.withTransaction sees its own snapshot -
+   * pass `storage` outside one.
+   */
+  async priceRoutes(
+    tx: IStorage,
+    userId: number,
+    fromProgram: LoyaltyProgram,
+    toProgram: LoyaltyProgram,
+    amount: number,
+    usedOffset = 0
+  ): Promise<ConversionPricing[]> {
+    if (fromProgram === toProgram) {
+      throw new ServiceError("Cannot convert between the same program", 400, "SAME_PROGRAM");
+    }
+
+    if (!isValidPointsAmount(amount, fromProgram)) {
+      throw new ServiceError(`Amount has more decimal places than ${fromProgram} points allow`, 400, "INVALID_AMOUNT");
+    }
+
+    // Fee from the user's tier - free up to what's left of the monthly allowance
+    const tierFee = await feePolicyService.conversionFee(tx, userId, fromProgram, amount, usedOffset);
+
+    const routes = await routingService.findRoutes(tx, fromProgram, toProgram, amount, tierFee.total);
+
+    return routes.map(route => {
+      const feeBreakdown = withLineItem(tierFee, route.routingFee, amount);
+      const amountAfterFee = subtractPoints(amount, feeBreakdown.total);
+
+      return {
+        fromProgram,
+        toProgram,
+        amountFrom: amount,
+        amountAfterFee,
+        amountTo: route.amountTo,
+        rate: (route.amountTo / amountAfterFee).toFixed(6),
+        feeApplied: feeBreakdown.total,
+        feeBreakdown,
+        conversionPath: route.path,
+        hops: route.hops,
+        fromValueInDollars: Number((amount * getStandardDollarRate(fromProgram)).toFixed(2)),
+        toValueInDollars: Number((route.amountTo * getStandardDollarRate(toProgram)).toFixed(2))
+      };
+    });
+  }
+
+  /**
+   * Works out what a conversion would give over its best route, without moving anything
+   */
+  async priceConversion(
+    tx: IStorage,
+    userId: number,
+    fromProgram: LoyaltyProgram,
+    toProgram: LoyaltyProgram,
+    amount: number,
+    usedOffset = 0
+  ): Promise<ConversionPricing> {
+    const [best] = await this.priceRoutes(tx, userId, fromProgram, toProgram, amount, usedOffset);
+    if (!best) {
+      throw new ServiceError("No conversion route found between these programs", 404, "RATE_NOT_FOUND");
+    }
+
+    return best;
+  }
+
+  /**
+   * Locks the current rate and fee for a conversion for the configured TTL
+   */
+  async createQuote(userId: number, data: ConvertPointsData): Promise<ConversionQuote> {
+    const sourceWallet = await storage.getWallet(userId, data.fromProgram);
+    if (!sourceWallet) {
+      throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    // Advisory only - the balance is checked again under lock when the quote is executed
+    if (sourceWallet.balance < data.amount) {
+      throw new ServiceError("Insufficient balance", 400, "INSUFFICIENT_BALANCE");
+    }
+
+    const destWallet = await storage.getWallet(userId, data.toProgram);
+    if (!destWallet) {
+      throw new ServiceError("Destination wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    const pricing = await this.priceConversion(storage, userId, data.fromProgram, data.toProgram, data.amount);
+
+    return storage.createConversionQuote({
+      id: randomUUID(),
+      userId,
+      fromProgram: pricing.fromProgram,
+      toProgram: pricing.toProgram,
+      amountFrom: pricing.amountFrom,
+      amountTo: pricing.amountTo,
+      rate: pricing.rate,
+      feeApplied: pricing.feeApplied,
+      feeBreakdown: JSON.stringify(pricing.feeBreakdown),
+      route: JSON.stringify(pricing.hops),
+      conversionPath: pricing.conversionPath,
+      fromValueInDollars: pricing.fromValueInDollars,
+      toValueInDollars: pricing.toValueInDollars,
+      expiresAt: new Date(Date.now() + config.conversion.quoteTtlSeconds * 1000)
+    });
+  }
+
+  /**
+   * Executes a quote at its locked rate. A quote can only be used once, only before it expires and
+   * only while the free allowance it was priced with hasn't been used by another conversion.
+   * Into a connected partner program the points are held and the partner asked to credit them;
+   * the transaction comes back settled if the partner confirmed straight away, else pending or submitted.
+   */
+  async executeQuote(userId: number, quoteId: string): Promise<QuoteExecutionResult> {
+    const { result, transition } = await storage.withTransaction(async (tx) => {
+      // Lock the quote so a double-submit cannot execute it twice
+      const quote = await tx.lockConversionQuote(quoteId);
+      if (!quote || quote.userId !== userId) {
+        throw new ServiceError("Quote not found", 404, "QUOTE_NOT_FOUND");
+      }
+
+      if (quote.status === "executed") {
+        throw new ServiceError("This quote has already been used", 409, "QUOTE_ALREADY_USED");
+      }
+
+      if (quote.expiresAt.getTime() < Date.now()) {
+        throw new ServiceError("This quote has expired, please request a new one", 410, "QUOTE_EXPIRED");
+      }
+
+      // The quoted fee counted on the free allowance left when the quote was made. Check it's
+      // still there under the user lock - a conversion since then may have used it up.
+      await tx.lockUser(userId);
+      const quotedAllowance = quoteFeeBreakdown(quote)?.allowance;
+      if (quotedAllowance && quotedAllowance.applied > 0) {
+        const { allowance } = await feePolicyService.conversionFee(tx, userId, quote.fromProgram, quote.amountFrom);
+        if ((allowance?.applied ?? 0) < quotedAllowance.applied) {
+          throw new ServiceError(
+            "Your free conversion allowance has been used since this quote was made, please request a new one",
+            409,
+            "QUOTE_ALLOWANCE_USED"
+          );
+        }
+      }
+
+      const conversion: ConversionToPost = {
+        fromProgram: quote.fromProgram,
+        toProgram: quote.toProgram,
+        amountFrom: quote.amountFrom,
+        amountTo: quote.amountTo,
+        feeApplied: quote.feeApplied,
+        conversionPath: quote.conversionPath,
+        hops: quoteRoute(quote) ?? undefined
+      };
+
+      const { transition, ...posted } = await this.carryOutConversion(tx, userId, conversion, `quote:${quote.id}`);
+
+      const executedQuote = await tx.markConversionQuoteExecuted(quote.id, posted.transaction.id);
+
+      return {
+        result: { ...posted, quote: executedQuote, feeBreakdown: quoteFeeBreakdown(executedQuote) },
+        transition
+      };
+    });
+
+    if (!transition) {
+      return result;
+    }
+
+    return { ...result, ...(await this.submitTransfer(transition)) };
+  }
+
+  /**
+   * Converts several pairs in one go - every leg is posted in a single database transaction,
+   * so either all of them go through or none do. Legs are priced in order with the free
+   * allowance carried from one to the next, as if they had been converted one after another.
+   * Legs into connected partner programs are held and submitted to the partner once the
+   * batch has committed.
+   */
+  async executeBatch(userId: number, data: ConvertBatchData): Promise<BatchConversionResult> {
+    // Check the batch as a whole against current balances before pricing anything
+    const totals = new Map<LoyaltyProgram, number>();
+    data.legs.forEach(leg => totals.set(leg.fromProgram, addPoints(totals.get(leg.fromProgram) ?? 0, leg.amount)));
+
+    for (const [program, total] of Array.from(totals)) {
+      const wallet = await storage.getWallet(userId, program);
+      if (!wallet) {
+        throw new ServiceError(`Source wallet not found for ${program}`, 404, "WALLET_NOT_FOUND");
+      }
+      if (wallet.balance < total) {
+        throw new ServiceError(
+          `Insufficient ${program} balance for this batch: needs ${total}, has ${wallet.balance}`,
+          400,
+          "INSUFFICIENT_BALANCE"
+        );
+      }
+    }
+
+    for (const program of Array.from(new Set(data.legs.map(leg => leg.toProgram)))) {
+      if (!(await storage.getWallet(userId, program))) {
+        throw new ServiceError(`Destination wallet not found for ${program}`, 404, "WALLET_NOT_FOUND");
+      }
+    }
+
+    const batchId = randomUUID();
+
+    const { result, transitions } = await storage.withTransaction(async (tx) => {
+      // Price under the user lock: another batch or quote for this user waits here until we
+      // commit, so the free allowance each leg uses can't be spent twice
+      await tx.lockUser(userId);
+
+      const pricings: ConversionPricing[] = [];
+      let usedOffset = 0;
+
+      for (let i = 0; i < data.legs.length; i++) {
+        const leg = data.legs[i];
+        try {
+          pricings.push(await this.priceConversion(tx, userId, leg.fromProgram, leg.toProgram, leg.amount, usedOffset));
+        } catch (error) {
+          if (error instanceof ServiceError) {
+            throw new ServiceError(`Leg ${i + 1}: ${error.message}`, error.status, error.code);
+          }
+          throw error;
+        }
+        usedOffset += leg.amount;
+      }
+
+      const legs: BatchLegResult[] = [];
+      const transitions: (TransactionTransition | null)[] = [];
+      const balances: Partial<Record<LoyaltyProgram, number>> = {};
+
+      for (let i = 0; i < pricings.length; i++) {
+        const pricing = pricings[i];
+        // A failing leg (e.g. a balance that moved since we checked) rolls back the whole batch
+        const { transition, ...posted } = await this.carryOutConversion(tx, userId, pricing, `convert_batch:${batchId}`);
+        transitions.push(transition);
+
+        legs.push({
+          ...posted,
+          leg: i + 1,
+          fromProgram: pricing.fromProgram,
+          toProgram: pricing.toProgram,
+          amountFrom: pricing.amountFrom,
+          amountTo: pricing.amountTo,
+          rate: pricing.rate,
+          conversionPath: pricing.conversionPath,
+          feeBreakdown: pricing.feeBreakdown
+        });
+        balances[pricing.fromProgram] = posted.fromBalance;
+        balances[pricing.toProgram] = posted.toBalance;
+      }
+
+      return {
+        result: {
+          batchId,
+          legs,
+          fees: summarizeBatchFees(pricings.map(p => p.feeBreakdown)),
+          balances
+        },
+        transitions
+      };
+    });
+
+    for (let i = 0; i < transitions.length; i++) {
+      const transition = transitions[i];
+      if (transition) {
+        const submitted = await this.submitTransfer(transition);
+        result.legs[i] = { ...result.legs[i], ...submitted };
+        result.balances[transition.transaction.toProgram] = submitted.toBalance;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Carries out a priced conversion inside the caller's storage.withTransaction. Into a
+   * connected partner program the points are held for a transfer - hand the returned
+   * transition to submitTransfer once the transaction commits - anywhere else the
+   * balances move straight away.
+   */
+  async carryOutConversion(
+    tx: IStorage,
+    userId: number,
+    conversion: ConversionToPost,
+    reference: string | null
+  ): Promise<CarriedOutConversion> {
+    if (partnerRegistry.has(conversion.toProgram)) {
+      return this.holdConversion(tx, userId, conversion);
+    }
+
+    return { ...(await this.postConversion(tx, userId, conversion, reference)), transition: null };
+  }
+
+  /**
+   * Announces a committed hold and asks the partner to credit it. Comes back with the
+   * transfer as it stands afterwards and the destination wallet's balance.
+   */
+  async submitTransfer(transition: TransactionTransition): Promise<Pick<ConversionResult, "transaction" | "toBalance">> {
+    void transactionLifecycleService.announce(transition);
+    const transaction = await partnerTransferService.submit(transition.transaction);
+    const destWallet = await storage.getWallet(transaction.userId, transaction.toProgram);
+
+    return { transaction, toBalance: destWallet?.balance ?? 0 };
+  }
+
+  /**
+   * Holds the points for a conversion into a connected partner program as a pending
+   * transfer, to be settled once the partner has credited them. Counts towards the
+   * allowance and tier like postConversion. Must run inside storage.withTransaction.
+   */
+  async holdConversion(
+    tx: IStorage,
+    userId: number,
+    conversion: ConversionToPost
+  ): Promise<ConversionResult & { transition: TransactionTransition }> {
+    const transition = await transactionLifecycleService.openTransferIn(tx, userId, {
+      fromProgram: conversion.fromProgram,
+      toProgram: conversion.toProgram,
+      amountFrom: conversion.amountFrom,
+      amountTo: conversion.amountTo,
+      feeApplied: conversion.feeApplied
+    });
+
+    await tierService.recordConversion(tx, userId, conversion.amountFrom, conversion.feeApplied);
+
+    const sourceWallet = await tx.getWallet(userId, conversion.fromProgram);
+    const destWallet = await tx.getWallet(userId, conversion.toProgram);
+
+    return {
+      transaction: transition.transaction,
+      fromBalance: sourceWallet?.balance ?? 0,
+      toBalance: destWallet?.balance ?? 0,
+      transition
+    };
+  }
+
+  /**
+   * Moves the balances for a priced conversion, records the transaction and counts it
+   * towards the user's monthly allowance and tier. Must run inside storage.withTransaction.
+   */
+  async postConversion(
+    tx: IStorage,
+    userId: number,
+    conversion: ConversionToPost,
+    reference: string | null
+  ): Promise<ConversionResult> {
+    const sourceWallet = await tx.getWallet(userId, conversion.fromProgram);
+    if (!sourceWallet) {
+      throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    const destWallet = await tx.getWallet(userId, conversion.toProgram);
+    if (!destWallet) {
+      throw new ServiceError("Destination wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+    assertVerifiedDestination(destWallet);
+
+    const posted = await tx.postJournalEntry(
+      {
+        userId,
+        type: "conversion",
+        reference,
+        description: conversion.conversionPath
+      },
+      routePostings({
+        sourceWalletId: sourceWallet.id,
+        destWalletId: destWallet.id,
+        amountFrom: conversion.amountFrom,
+        fee: conversion.feeApplied,
+        hops: conversion.hops ?? [{
+          fromProgram: conversion.fromProgram,
+          toProgram: conversion.toProgram,
+          amountIn: subtractPoints(conversion.amountFrom, conversion.feeApplied),
+          amountOut: conversion.amountTo
+        }]
+      })
+    );
+
+    const transaction = await tx.createTransaction({
+      userId,
+      fromProgram: conversion.fromProgram,
+      toProgram: conversion.toProgram,
+      amountFrom: conversion.amountFrom,
+      amountTo: conversion.amountTo,
+      feeApplied: conversion.feeApplied,
+      status: "settled",
+      type: "conversion",
+      recipientId: userId, // Use the current user as recipient for self-conversions
+      transactionHash: "", // Empty string for nullable text fields
+      blockNumber: 0, // Use 0 for number fields that can't be null
+      contractAddress: "", // Empty string for nullable text fields
+      tokenAddress: "", // Empty string for nullable text fields
+      journalEntryId: posted.entry.id
+    });
+
+    await tierService.recordConversion(tx, userId, conversion.amountFrom, conversion.feeApplied);
+
+    return {
+      transaction,
+      fromBalance: balanceAfterEntry(posted, sourceWallet.id),
+      toBalance: balanceAfterEntry(posted, destWallet.id)
+    };
+  }
+}
+
+// Create a singleton instance
+export const conversionService = new ConversionService();
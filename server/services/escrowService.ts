@@ -0,0 +1,144 @@
+import { storage, type IStorage } from "../storage";
+import { addPoints, subtractPoints } from "@shared/money";
+import type { EscrowHold, EscrowMovement, EscrowMovementType, LoyaltyProgram, TradeOffer, Wallet } from "@shared/schema";
+
+const HOLDS_LIMIT = 100;
+
+export interface WalletView extends Wallet {
+  available: number; // Spendable now - the wallet's own balance
+  held: number; // Out of the balance until released: trade offers, conversion orders, partner transfers and unclaimed gifts
+  total: number;
+}
+
+export interface EscrowHoldView extends EscrowHold {
+  movements: EscrowMovement[];
+}
+
+/**
+ * Escrow holds for trade offers. The ledger's escrow account only knows how many points
+ * it holds in total; each hold tracks what one offer locked from which wallet, and every
+ * point that leaves it is recorded as a movement against the journal entry that moved it.
+ *
+ * A hold is settled once fills have taken everything, or released once the unfilled
+ * remainder has gone back to the wallet.
+ */
+export class EscrowService {
+  /**
+   * Opens the hold for a new offer, recording the entry that locked its points
+   */
+  async hold(tx: IStorage, offer: TradeOffer, walletId: number, entryId: number): Promise<EscrowHold> {
+    const hold = await tx.createEscrowHold({
+      tradeOfferId: offer.id,
+      userId: offer.createdBy,
+      walletId,
+      program: offer.fromProgram,
+      amount: offer.amountOffered
+    });
+
+    await tx.createEscrowMovement({ holdId: hold.id, type: "hold", amount: offer.amountOffered, entryId });
+
+    return hold;
+  }
+
+  /**
+   * Pays `amount` out of an offer's hold to the other side of a trade
+   */
+  async transfer(tx: IStorage, offerId: number, amount: number, entryId: number, tradeTransactionId: number): Promise<EscrowHold> {
+    return this.move(tx, offerId, "transfer", amount, entryId, tradeTransactionId);
+  }
+
+  /**
+   * Hands whatever is left in an offer's hold back to its wallet and closes the hold
+   */
+  async release(tx: IStorage, offerId: number, amount: number, entryId: number | null): Promise<EscrowHold> {
+    if (amount > 0 && entryId !== null) {
+      return this.move(tx, offerId, "release", amount, entryId);
+    }
+
+    // Nothing left to hand back, so fills took it all
+    const hold = await this.lockHold(tx, offerId);
+    return tx.updateEscrowHold(hold.id, { amountHeld: 0, status: "settled", closedAt: new Date() });
+  }
+
+  /**
+   * A user's wallets with what each has available, locked in escrow and in total. Trade
+   * offers aren't the only escrow: open conversion orders, transfers in flight to a partner
+   * and gifts waiting for someone to sign up hold points too.
+   */
+  async getWallets(userId: number): Promise<WalletView[]> {
+    const [wallets, heldBalances, orders, transfers, gifts] = await Promise.all([
+      storage.getUserWallets(userId),
+      storage.getWalletHeldBalances(userId),
+      storage.getUserConversionOrders(userId),
+      storage.getHeldTransfers(userId),
+      storage.getPendingGiftsFromSender(userId)
+    ]);
+
+    // Those other holds are per program - a user has one wallet for each
+    const heldByProgram = new Map<LoyaltyProgram, number>();
+    const addHeld = (program: LoyaltyProgram, amount: number) =>
+      heldByProgram.set(program, addPoints(heldByProgram.get(program) ?? 0, amount));
+
+    orders.filter(order => order.status === "open").forEach(order => addHeld(order.fromProgram, order.amount));
+    transfers.forEach(transfer => addHeld(transfer.fromProgram, transfer.amountFrom));
+    gifts.forEach(gift => addHeld(gift.program, gift.amount));
+
+    return wallets.map(wallet => {
+      const held = addPoints(
+        heldBalances.find(balance => balance.walletId === wallet.id)?.held ?? 0,
+        heldByProgram.get(wallet.program) ?? 0
+      );
+      return { ...wallet, available: wallet.balance, held, total: addPoints(wallet.balance, held) };
+    });
+  }
+
+  /**
+   * A user's latest holds, each with its movements oldest first
+   */
+  async getHolds(userId: number): Promise<EscrowHoldView[]> {
+    const holds = await storage.getUserEscrowHolds(userId, HOLDS_LIMIT);
+    const movements = await storage.getEscrowMovements(holds.map(hold => hold.id));
+
+    return holds.map(hold => ({
+      ...hold,
+      movements: movements.filter(movement => movement.holdId === hold.id)
+    }));
+  }
+
+  private async move(
+    tx: IStorage,
+    offerId: number,
+    type: Exclude<EscrowMovementType, "hold">,
+    amount: number,
+    entryId: number,
+    tradeTransactionId?: number
+  ): Promise<EscrowHold> {
+    const hold = await this.lockHold(tx, offerId);
+
+    if (amount > hold.amountHeld) {
+      throw new Error(`Escrow hold ${hold.id} has ${hold.amountHeld} points, cannot move ${amount}`);
+    }
+
+    await tx.createEscrowMovement({ holdId: hold.id, type, amount, entryId, tradeTransactionId });
+
+    const amountHeld = subtractPoints(hold.amountHeld, amount);
+    if (type === "release") {
+      return tx.updateEscrowHold(hold.id, { amountHeld: 0, status: "released", closedAt: new Date() });
+    }
+
+    return tx.updateEscrowHold(hold.id, amountHeld === 0
+      ? { amountHeld, status: "settled", closedAt: new Date() }
+      : { amountHeld });
+  }
+
+  private async lockHold(tx: IStorage, offerId: number): Promise<EscrowHold> {
+    const hold = await tx.lockEscrowHoldForOffer(offerId);
+    if (!hold || hold.status !== "held") {
+      throw new Error(`Trade offer ${offerId} has no open escrow hold`);
+    }
+    return hold;
+  }
+}
+
+// Create a singleton instance
+export const escrowService = new EscrowService();
@@ -0,0 +1,238 @@
+import type { IStorage } from "../storage";
+import { config } from "../config";
+import { addPoints, multiplyPoints, roundPoints, subtractPoints } from "@shared/money";
+import type { LoyaltyProgram, MembershipTier, TierBenefit, User } from "@shared/schema";
+
+// Used when a tier has no tier_benefits row yet (matches the STANDARD seed)
+const DEFAULT_BENEFITS: Omit<TierBenefit, "id" | "tier"> = {
+  monthlyPointsThreshold: 0,
+  freeConversionLimit: 10000,
+  conversionFeeRate: "0.005",
+  p2pMinimumFee: "0.005",
+  p2pMaximumFee: "0.03",
+  monthlyExpiryDays: 30,
+  giftDailyLimit: 5000,
+  giftDailyCount: 10
+};
+
+// P2P fees are this share of the savings against the market rate, clamped to the tier's min/max
+const P2P_SAVINGS_SHARE = 0.1;
+
+export interface FeeLineItem {
+  type: "free_allowance" | "conversion_fee" | "routing_fee" | "p2p_seller_fee" | "p2p_buyer_fee";
+  description: string;
+  basis: number; // Points the rate was applied to
+  rate: number;
+  amount: number;
+}
+
+export interface FreeAllowance {
+  limit: number;
+  usedThisMonth: number;
+  applied: number; // Portion of this conversion covered by the allowance
+  remaining: number; // Left for the rest of the month after this conversion
+}
+
+export interface FeeBreakdown {
+  tier: MembershipTier;
+  program: LoyaltyProgram; // Program the fees are charged in
+  items: FeeLineItem[];
+  total: number;
+  effectiveRate: number; // total / amount
+  allowance?: FreeAllowance;
+}
+
+/**
+ * Formats a fee rate for display, e.g. 0.0035 -> "0.35%"
+ */
+export function formatFeeRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+/**
+ * Points the user has already converted in the current calendar month.
+ * A counter last reset before this month is stale and counts as zero.
+ */
+export function monthlyUsage(user: Pick<User, "monthlyPointsConverted" | "lastMonthReset">, now = new Date()): number {
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  if (user.lastMonthReset && user.lastMonthReset < startOfMonth) {
+    return 0;
+  }
+  return user.monthlyPointsConverted || 0;
+}
+
+/**
+ * Conversion fee: free up to what's left of the tier's monthly allowance,
+ * the tier's fee rate on the rest
+ */
+export function calculateConversionFee(
+  tier: MembershipTier,
+  benefits: Pick<TierBenefit, "freeConversionLimit" | "conversionFeeRate">,
+  program: LoyaltyProgram,
+  amount: number,
+  usedThisMonth: number
+): FeeBreakdown {
+  const limit = benefits.freeConversionLimit;
+  const rate = Number(benefits.conversionFeeRate);
+  const applied = roundPoints(Math.min(amount, Math.max(0, limit - usedThisMonth)));
+  const chargeable = subtractPoints(amount, applied);
+  const fee = multiplyPoints(chargeable, benefits.conversionFeeRate, program, "up");
+
+  const items: FeeLineItem[] = [];
+  if (applied > 0) {
+    items.push({
+      type: "free_allowance",
+      description: `${tier} monthly free allowance`,
+      basis: applied,
+      rate: 0,
+      amount: 0
+    });
+  }
+  if (chargeable > 0) {
+    items.push({
+      type: "conversion_fee",
+      description: `${tier} conversion fee (${formatFeeRate(rate)})`,
+      basis: chargeable,
+      rate,
+      amount: fee
+    });
+  }
+
+  return {
+    tier,
+    program,
+    items,
+    total: fee,
+    effectiveRate: amount > 0 ? fee / amount : 0,
+    allowance: {
+      limit,
+      usedThisMonth,
+      applied,
+      remaining: Math.max(0, limit - usedThisMonth - applied)
+    }
+  };
+}
+
+/**
+ * Routing fee for conversions through intermediate programs - every hop after the
+ * first costs a flat share of the amount converted, charged up front in the source program
+ */
+export function calculateRoutingFee(
+  amount: number,
+  hopCount: number,
+  program: LoyaltyProgram,
+  hopFeeRate = config.conversion.hopFeeRate
+): FeeLineItem | null {
+  const extraHops = hopCount - 1;
+  if (extraHops <= 0 || hopFeeRate <= 0) {
+    return null;
+  }
+
+  const rate = extraHops * hopFeeRate;
+  return {
+    type: "routing_fee",
+    description: `Routing fee for ${extraHops} extra hop${extraHops > 1 ? "s" : ""} (${formatFeeRate(rate)})`,
+    basis: amount,
+    rate,
+    amount: multiplyPoints(amount * extraHops, hopFeeRate, program, "up")
+  };
+}
+
+/**
+ * Adds a line item to a breakdown and updates its totals
+ */
+export function withLineItem(breakdown: FeeBreakdown, item: FeeLineItem | null, amount: number): FeeBreakdown {
+  if (!item) {
+    return breakdown;
+  }
+
+  const total = addPoints(breakdown.total, item.amount);
+  return {
+    ...breakdown,
+    items: [...breakdown.items, item],
+    total,
+    effectiveRate: amount > 0 ? total / amount : 0
+  };
+}
+
+/**
+ * P2P trade fee: the seller pays a share of the savings against the market rate,
+ * clamped to their tier's minimum and maximum. The buyer pays nothing.
+ */
+export function calculateTradeFee(
+  tier: MembershipTier,
+  benefits: Pick<TierBenefit, "p2pMinimumFee" | "p2pMaximumFee">,
+  program: LoyaltyProgram,
+  amountRequested: number,
+  savingsPercent: number
+): FeeBreakdown & { sellerFee: number; buyerFee: number } {
+  const minimumRate = Number(benefits.p2pMinimumFee);
+  const maximumRate = Number(benefits.p2pMaximumFee);
+  const rate = Math.min(Math.max((savingsPercent / 100) * P2P_SAVINGS_SHARE, minimumRate), maximumRate);
+  const sellerFee = multiplyPoints(amountRequested, rate, program, "up");
+  const buyerFee = 0;
+
+  return {
+    tier,
+    program,
+    items: [
+      {
+        type: "p2p_seller_fee",
+        description: `${tier} P2P seller fee (${formatFeeRate(rate)})`,
+        basis: amountRequested,
+        rate,
+        amount: sellerFee
+      },
+      {
+        type: "p2p_buyer_fee",
+        description: "P2P buyer fee",
+        basis: amountRequested,
+        rate: 0,
+        amount: buyerFee
+      }
+    ],
+    total: addPoints(sellerFee, buyerFee),
+    effectiveRate: rate,
+    sellerFee,
+    buyerFee
+  };
+}
+
+/**
+ * Resolves a user's membership tier to its tier_benefits row and prices fees with it.
+ * Reads go through `tx` so a caller inside storage.withTransaction prices against its own
+ * snapshot and connection - pass `storage` from outside one.
+ */
+export class FeePolicyService {
+  async getBenefits(tx: IStorage, tier: MembershipTier): Promise<Omit<TierBenefit, "id">> {
+    const benefits = await tx.getTierBenefits(tier);
+    return benefits ?? { tier, ...DEFAULT_BENEFITS };
+  }
+
+  /**
+   * Fee for converting `amount` points out of `program`, using the user's remaining monthly allowance
+   */
+  async conversionFee(tx: IStorage, userId: number, program: LoyaltyProgram, amount: number, usedOffset = 0): Promise<FeeBreakdown> {
+    const user = await tx.getUser(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const benefits = await this.getBenefits(tx, user.membershipTier);
+    return calculateConversionFee(user.membershipTier, benefits, program, amount, monthlyUsage(user) + usedOffset);
+  }
+
+  /**
+   * Fee for a P2P trade, charged to the seller at their tier's rates
+   */
+  async tradeFee(tx: IStorage, sellerId: number, program: LoyaltyProgram, amountRequested: number, savingsPercent: number) {
+    const seller = await tx.getUser(sellerId);
+    const tier: MembershipTier = seller?.membershipTier ?? "STANDARD";
+
+    const benefits = await this.getBenefits(tx, tier);
+    return calculateTradeFee(tier, benefits, program, amountRequested, savingsPercent);
+  }
+}
+
+// Create a singleton instance
+export const feePolicyService = new FeePolicyService();
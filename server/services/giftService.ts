@@ -0,0 +1,543 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { storage, type IStorage } from "../storage";
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { escrowHoldPostings, escrowReleasePostings, getOrCreateWallet, giftPostings } from "./ledgerService";
+import { feePolicyService } from "./feePolicyService";
+import { notificationService } from "./notificationService";
+import { addPoints, formatPoints } from "@shared/money";
+import type {
+  CreatePointRequestData, GiftStatus, LoyaltyProgram, PointGift, PointRequest, SendGiftData, TierBenefit, User
+} from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const LIST_LIMIT = 100;
+const EXPIRY_BATCH_SIZE = 500;
+
+// Gifts that still count against the sender's limits - the rest went back to them
+const COUNTED_STATUSES: GiftStatus[] = ["pending", "delivered"];
+
+// The claim code's hash never leaves the server
+type PublicGift = Omit<PointGift, "claimCodeHash">;
+
+export interface GiftView extends PublicGift {
+  senderName: string;
+  recipientName: string | null; // Null until an emailed gift is accepted or declined
+}
+
+export interface SentGift extends PublicGift {
+  claimCode: string | null; // Shown to the sender once, for them to pass on to the email's owner
+}
+
+export interface PointRequestView extends PointRequest {
+  requesterName: string;
+}
+
+export interface GiftExpiryResult {
+  gifts: number;
+  requests: number;
+}
+
+interface GiftDetails {
+  program: LoyaltyProgram;
+  amount: number;
+  message: string | null;
+  requestId?: number;
+}
+
+/**
+ * Checks a new gift against the sender's tier limits for the last 24 hours
+ */
+export function checkGiftLimits(
+  recent: Pick<PointGift, "amount" | "status">[],
+  amount: number,
+  benefits: Pick<TierBenefit, "giftDailyLimit" | "giftDailyCount">
+): void {
+  const counted = recent.filter(gift => COUNTED_STATUSES.includes(gift.status));
+
+  if (counted.length + 1 > benefits.giftDailyCount) {
+    throw new ServiceError(`You can send up to ${benefits.giftDailyCount} gifts a day`, 429, "GIFT_COUNT_LIMIT");
+  }
+
+  const sent = addPoints(...counted.map(gift => gift.amount));
+  if (addPoints(sent, amount) > benefits.giftDailyLimit) {
+    const remaining = Math.max(0, benefits.giftDailyLimit - sent);
+    throw new ServiceError(
+      `You can gift ${formatPoints(benefits.giftDailyLimit)} points a day - ${formatPoints(remaining)} left`,
+      429,
+      "GIFT_AMOUNT_LIMIT"
+    );
+  }
+}
+
+function isEmail(recipient: string): boolean {
+  return recipient.includes("@");
+}
+
+function hashClaimCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+function publicGift({ claimCodeHash: _hash, ...gift }: PointGift): PublicGift {
+  return gift;
+}
+
+/**
+ * Points members send each other. A gift to a username is delivered straight away. Emails
+ * aren't verified, so a gift to an email is held in escrow with a single-use claim code
+ * that only the sender sees - they pass it on to the address, and the member signed up
+ * with that email needs it to accept or decline. Unanswered gifts go back to the sender
+ * when they expire. Members can also share a "request points" link for someone else to pay.
+ *
+ * Every gift counts against the sender's daily tier limits, and accounts have to be a
+ * little while old before they can send anything.
+ */
+export class GiftService {
+  async sendGift(senderId: number, data: SendGiftData): Promise<SentGift> {
+    const recipient = isEmail(data.recipient) ? undefined : await storage.getUserByUsername(data.recipient);
+    if (!recipient && !isEmail(data.recipient)) {
+      throw new ServiceError("No member has that username", 404, "RECIPIENT_NOT_FOUND");
+    }
+    if (recipient?.id === senderId) {
+      throw new ServiceError("You can't send points to yourself", 400, "OWN_GIFT");
+    }
+
+    const details: GiftDetails = { program: data.program, amount: data.amount, message: data.message || null };
+    const claimCode = recipient ? null : randomBytes(18).toString("base64url");
+
+    const gift = await storage.withTransaction(async (tx) => {
+      const sender = await this.lockSender(tx, senderId, data.amount);
+      if (recipient) {
+        return this.deliver(tx, sender, recipient, details);
+      }
+
+      const email = data.recipient.toLowerCase();
+      if (email === sender.email.toLowerCase()) {
+        throw new ServiceError("You can't send points to yourself", 400, "OWN_GIFT");
+      }
+
+      const pending = await tx.getPendingGiftsFromSender(senderId);
+      if (pending.length >= config.gifts.maxPendingInvites) {
+        throw new ServiceError(
+          `You already have ${pending.length} gifts waiting to be claimed`,
+          429,
+          "TOO_MANY_PENDING_GIFTS"
+        );
+      }
+
+      return this.hold(tx, sender, email, hashClaimCode(claimCode!), details);
+    });
+
+    if (recipient) {
+      await this.notifyDelivered(gift, recipient.id);
+    } else {
+      // There's no mail service yet - the sender passes the claim code on themselves
+      log(`Gift ${gift.id} is waiting to be claimed`, "gifts");
+    }
+
+    return { ...publicGift(gift), claimCode };
+  }
+
+  /**
+   * Recipient of a gift sent to their email takes the points, using the claim code
+   * the sender passed on
+   */
+  async acceptGift(userId: number, giftId: number, claimCode: string): Promise<PointGift> {
+    const gift = await storage.withTransaction(async (tx) => {
+      const { gift, user } = await this.lockPendingGift(tx, giftId, userId, claimCode);
+      const wallet = await getOrCreateWallet(tx, user.id, gift.program);
+
+      const posted = await tx.postJournalEntry(
+        { userId: user.id, type: "gift", reference: `point_gift:${gift.id}`, description: "Gift accepted" },
+        escrowReleasePostings(wallet.id, gift.program, gift.amount)
+      );
+      const transaction = await tx.createTransaction({
+        ...this.giftTransaction(gift.senderId, user.id, gift.program, gift.amount),
+        holdEntryId: gift.holdEntryId,
+        journalEntryId: posted.entry.id
+      });
+
+      return tx.updatePointGift(gift.id, {
+        status: "delivered",
+        recipientId: user.id,
+        claimCodeHash: null,
+        transactionId: transaction.id,
+        respondedAt: new Date()
+      });
+    });
+
+    await notificationService.notify(
+      gift.senderId,
+      "gift_accepted",
+      "Gift accepted",
+      `Your gift of ${formatPoints(gift.amount, gift.program)} ${gift.program} points was accepted.`
+    );
+    return gift;
+  }
+
+  async declineGift(userId: number, giftId: number, claimCode: string): Promise<PointGift> {
+    const gift = await storage.withTransaction(async (tx) => {
+      const { gift, user } = await this.lockPendingGift(tx, giftId, userId, claimCode);
+      return this.returnToSender(tx, gift, "declined", user.id);
+    });
+
+    await notificationService.notify(
+      gift.senderId,
+      "gift_declined",
+      "Gift declined",
+      `Your gift of ${formatPoints(gift.amount, gift.program)} ${gift.program} points was declined and the points are back in your wallet.`
+    );
+    return gift;
+  }
+
+  /**
+   * Sender takes back a gift nobody has claimed yet
+   */
+  async cancelGift(senderId: number, giftId: number): Promise<PointGift> {
+    return storage.withTransaction(async (tx) => {
+      const gift = await tx.lockPointGift(giftId);
+      if (!gift || gift.senderId !== senderId) {
+        throw new ServiceError("Gift not found", 404, "GIFT_NOT_FOUND");
+      }
+      if (gift.status !== "pending") {
+        throw new ServiceError("Only gifts waiting to be claimed can be cancelled", 409, "GIFT_NOT_PENDING");
+      }
+
+      return this.returnToSender(tx, gift, "cancelled");
+    });
+  }
+
+  async getGifts(userId: number): Promise<GiftView[]> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new ServiceError("User not found", 404, "USER_NOT_FOUND");
+    }
+
+    const gifts = await storage.getUserPointGifts(userId, user.email, LIST_LIMIT);
+    const names = await this.usernames(gifts.flatMap(gift => [gift.senderId, gift.recipientId]));
+
+    return gifts.map(gift => ({
+      ...publicGift(gift),
+      senderName: names.get(gift.senderId) ?? "Unknown",
+      recipientName: gift.recipientId ? names.get(gift.recipientId) ?? "Unknown" : null
+    }));
+  }
+
+  /**
+   * Lets someone who just signed up know about gifts sent to their email
+   */
+  async announceInvitations(user: User): Promise<void> {
+    try {
+      const pending = await storage.getPendingGiftsForEmail(user.email);
+      if (pending.length > 0) {
+        await notificationService.notify(
+          user.id,
+          "gifts_waiting",
+          "You have gifts waiting",
+          `${pending.length} gift${pending.length === 1 ? " was" : "s were"} sent to your email before you joined. Accept or decline them from your gifts with the claim code the sender gave you.`
+        );
+      }
+    } catch (error) {
+      console.error(`Error checking gifts waiting for user ${user.id}:`, error);
+    }
+  }
+
+  async createRequest(userId: number, data: CreatePointRequestData): Promise<PointRequest> {
+    const open = (await storage.getUserPointRequests(userId, LIST_LIMIT)).filter(request => request.status === "open");
+    if (open.length >= config.gifts.maxOpenRequests) {
+      throw new ServiceError(`You already have ${open.length} open requests`, 429, "TOO_MANY_OPEN_REQUESTS");
+    }
+
+    return storage.createPointRequest({
+      requesterId: userId,
+      program: data.program,
+      amount: data.amount,
+      message: data.message || null,
+      token: randomBytes(18).toString("base64url"),
+      expiresAt: new Date(Date.now() + config.gifts.requestExpiryDays * DAY_MS)
+    });
+  }
+
+  async getRequest(token: string): Promise<PointRequestView> {
+    const request = await storage.getPointRequestByToken(token);
+    if (!request) {
+      throw new ServiceError("Request not found", 404, "POINT_REQUEST_NOT_FOUND");
+    }
+
+    const requester = await storage.getUser(request.requesterId);
+    return { ...request, requesterName: requester?.username ?? "Unknown" };
+  }
+
+  async getUserRequests(userId: number): Promise<PointRequest[]> {
+    return storage.getUserPointRequests(userId, LIST_LIMIT);
+  }
+
+  /**
+   * Pays a request by gifting the requested points to whoever shared the link
+   */
+  async payRequest(payerId: number, token: string): Promise<PointGift> {
+    const found = await storage.getPointRequestByToken(token);
+    if (!found) {
+      throw new ServiceError("Request not found", 404, "POINT_REQUEST_NOT_FOUND");
+    }
+
+    const gift = await storage.withTransaction(async (tx) => {
+      const request = await tx.lockPointRequest(found.id);
+      if (!request || request.status !== "open") {
+        throw new ServiceError("This request has already been paid or closed", 409, "POINT_REQUEST_NOT_OPEN");
+      }
+      if (request.expiresAt <= new Date()) {
+        throw new ServiceError("This request has expired", 409, "POINT_REQUEST_EXPIRED");
+      }
+      if (request.requesterId === payerId) {
+        throw new ServiceError("You can't pay your own request", 400, "OWN_POINT_REQUEST");
+      }
+
+      const requester = await tx.getUser(request.requesterId);
+      if (!requester) {
+        throw new ServiceError("Request not found", 404, "POINT_REQUEST_NOT_FOUND");
+      }
+
+      const payer = await this.lockSender(tx, payerId, request.amount);
+      const gift = await this.deliver(tx, payer, requester, {
+        program: request.program,
+        amount: request.amount,
+        message: request.message,
+        requestId: request.id
+      });
+      await tx.updatePointRequest(request.id, { status: "paid", paidBy: payerId, paidAt: new Date() });
+      return gift;
+    });
+
+    await this.notifyDelivered(gift, gift.recipientId!);
+    return gift;
+  }
+
+  async cancelRequest(userId: number, requestId: number): Promise<PointRequest> {
+    return storage.withTransaction(async (tx) => {
+      const request = await tx.lockPointRequest(requestId);
+      if (!request || request.requesterId !== userId) {
+        throw new ServiceError("Request not found", 404, "POINT_REQUEST_NOT_FOUND");
+      }
+      if (request.status !== "open") {
+        throw new ServiceError("This request has already been paid or closed", 409, "POINT_REQUEST_NOT_OPEN");
+      }
+
+      return tx.updatePointRequest(request.id, { status: "cancelled" });
+    });
+  }
+
+  /**
+   * Background job: sends unclaimed gifts back to their senders and closes stale requests
+   */
+  async expireGifts(now = new Date()): Promise<GiftExpiryResult> {
+    const result: GiftExpiryResult = { gifts: 0, requests: 0 };
+
+    for (const expired of await storage.getExpiredPendingGifts(now, EXPIRY_BATCH_SIZE)) {
+      try {
+        const gift = await storage.withTransaction(async (tx) => {
+          const gift = await tx.lockPointGift(expired.id);
+          return gift?.status === "pending" ? this.returnToSender(tx, gift, "expired") : null;
+        });
+        if (!gift) continue;
+
+        result.gifts++;
+        await notificationService.notify(
+          gift.senderId,
+          "gift_expired",
+          "Gift returned",
+          `Nobody claimed your gift of ${formatPoints(gift.amount, gift.program)} ${gift.program} points to ${gift.recipientEmail}, so the points are back in your wallet.`
+        );
+      } catch (error) {
+        console.error(`Error expiring gift ${expired.id}:`, error);
+      }
+    }
+
+    for (const request of await storage.getExpiredPointRequests(now, EXPIRY_BATCH_SIZE)) {
+      await storage.updatePointRequest(request.id, { status: "expired" });
+      result.requests++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Locks the sender and checks they're allowed to send `amount` more points right now.
+   * Holding the lock keeps two gifts sent at once from both fitting under the limits.
+   */
+  private async lockSender(tx: IStorage, senderId: number, amount: number): Promise<User> {
+    const sender = await tx.lockUser(senderId);
+    if (!sender) {
+      throw new ServiceError("User not found", 404, "USER_NOT_FOUND");
+    }
+
+    const now = Date.now();
+    if (now - sender.createdAt.getTime() < config.gifts.minAccountAgeHours * HOUR_MS) {
+      throw new ServiceError(
+        `New accounts can send points after ${config.gifts.minAccountAgeHours} hours`,
+        403,
+        "ACCOUNT_TOO_NEW"
+      );
+    }
+
+    const benefits = await feePolicyService.getBenefits(tx, sender.membershipTier);
+    checkGiftLimits(await tx.getGiftsSentSince(senderId, new Date(now - DAY_MS)), amount, benefits);
+    return sender;
+  }
+
+  private async deliver(tx: IStorage, sender: User, recipient: User, details: GiftDetails): Promise<PointGift> {
+    const senderWallet = await tx.getWallet(sender.id, details.program);
+    if (!senderWallet) {
+      throw new ServiceError(`You don't have a ${details.program} wallet`, 404, "WALLET_NOT_FOUND");
+    }
+    const recipientWallet = await getOrCreateWallet(tx, recipient.id, details.program);
+
+    const gift = await tx.createPointGift({
+      senderId: sender.id,
+      recipientId: recipient.id,
+      recipientEmail: null,
+      program: details.program,
+      amount: details.amount,
+      message: details.message,
+      status: "delivered",
+      requestId: details.requestId,
+      respondedAt: new Date()
+    });
+
+    const posted = await tx.postJournalEntry(
+      { userId: sender.id, type: "gift", reference: `point_gift:${gift.id}`, description: `Gift to ${recipient.username}` },
+      giftPostings(senderWallet.id, recipientWallet.id, details.program, details.amount)
+    );
+    const transaction = await tx.createTransaction({
+      ...this.giftTransaction(sender.id, recipient.id, details.program, details.amount),
+      journalEntryId: posted.entry.id
+    });
+
+    return tx.updatePointGift(gift.id, { transactionId: transaction.id });
+  }
+
+  private async hold(
+    tx: IStorage,
+    sender: User,
+    email: string,
+    claimCodeHash: string,
+    details: GiftDetails
+  ): Promise<PointGift> {
+    const senderWallet = await tx.getWallet(sender.id, details.program);
+    if (!senderWallet) {
+      throw new ServiceError(`You don't have a ${details.program} wallet`, 404, "WALLET_NOT_FOUND");
+    }
+
+    const gift = await tx.createPointGift({
+      senderId: sender.id,
+      recipientId: null,
+      recipientEmail: email,
+      claimCodeHash,
+      program: details.program,
+      amount: details.amount,
+      message: details.message,
+      status: "pending",
+      expiresAt: new Date(Date.now() + config.gifts.inviteExpiryDays * DAY_MS)
+    });
+
+    const hold = await tx.postJournalEntry(
+      { userId: sender.id, type: "gift_hold", reference: `point_gift:${gift.id}`, description: `Gift to ${email} held until claimed` },
+      escrowHoldPostings(senderWallet.id, details.program, details.amount)
+    );
+
+    return tx.updatePointGift(gift.id, { holdEntryId: hold.entry.id });
+  }
+
+  private async returnToSender(
+    tx: IStorage,
+    gift: PointGift,
+    status: "declined" | "cancelled" | "expired",
+    recipientId?: number
+  ): Promise<PointGift> {
+    const wallet = await getOrCreateWallet(tx, gift.senderId, gift.program);
+    await tx.postJournalEntry(
+      { userId: gift.senderId, type: "gift_release", reference: `point_gift:${gift.id}`, description: `Gift ${status}` },
+      escrowReleasePostings(wallet.id, gift.program, gift.amount)
+    );
+
+    return tx.updatePointGift(gift.id, {
+      status,
+      claimCodeHash: null,
+      respondedAt: new Date(),
+      ...(recipientId ? { recipientId } : {})
+    });
+  }
+
+  // Only whoever signed up with the address a pending gift was sent to, and holds its claim
+  // code, can answer it - signing up with an email doesn't prove it's yours
+  private async lockPendingGift(
+    tx: IStorage,
+    giftId: number,
+    userId: number,
+    claimCode: string
+  ): Promise<{ gift: PointGift; user: User }> {
+    const user = await tx.getUser(userId);
+    const gift = await tx.lockPointGift(giftId);
+    if (!user || !gift || gift.recipientEmail !== user.email.toLowerCase()) {
+      throw new ServiceError("Gift not found", 404, "GIFT_NOT_FOUND");
+    }
+    if (gift.status !== "pending") {
+      throw new ServiceError("This gift has already been answered", 409, "GIFT_NOT_PENDING");
+    }
+    if (gift.expiresAt && gift.expiresAt <= new Date()) {
+      throw new ServiceError("This gift has expired", 409, "GIFT_EXPIRED");
+    }
+    if (gift.senderId === userId) {
+      throw new ServiceError("You can't accept your own gift", 400, "OWN_GIFT");
+    }
+    const hash = hashClaimCode(claimCode);
+    if (!gift.claimCodeHash || !timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(gift.claimCodeHash, "hex"))) {
+      throw new ServiceError("That claim code isn't right for this gift", 403, "GIFT_CLAIM_CODE_INVALID");
+    }
+
+    return { gift, user };
+  }
+
+  private giftTransaction(senderId: number, recipientId: number, program: LoyaltyProgram, amount: number) {
+    return {
+      userId: senderId,
+      recipientId,
+      fromProgram: program,
+      toProgram: program,
+      amountFrom: amount,
+      amountTo: amount,
+      feeApplied: 0,
+      status: "settled" as const,
+      type: "p2p",
+      transactionHash: "",
+      blockNumber: 0,
+      contractAddress: "",
+      tokenAddress: ""
+    };
+  }
+
+  private async notifyDelivered(gift: PointGift, recipientId: number) {
+    const sender = await storage.getUser(gift.senderId);
+    await notificationService.notify(
+      recipientId,
+      "gift_received",
+      "You received points",
+      `${sender?.username ?? "Someone"} sent you ${formatPoints(gift.amount, gift.program)} ${gift.program} points${gift.message ? `: "${gift.message}"` : "."}`
+    );
+  }
+
+  private async usernames(userIds: (number | null)[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    for (const id of Array.from(new Set(userIds))) {
+      if (id === null) continue;
+      const user = await storage.getUser(id);
+      if (user) names.set(id, user.username);
+    }
+    return names;
+  }
+}
+
+// Create a singleton instance
+export const giftService = new GiftService();
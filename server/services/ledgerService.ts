@@ -0,0 +1,292 @@
+import type { IStorage, PostedJournalEntry } from "../storage";
+import { addPoints, subtractPoints } from "@shared/money";
+import type { InsertLedgerPosting, LoyaltyProgram, Wallet } from "@shared/schema";
+
+/**
+ * Builders for the balanced postings behind each kind of balance change.
+ *
+ * User wallets are the only accounts with a stored balance. The system accounts
+ * (exchange, fees, escrow, issuance) exist only as postings so every entry nets
+ * to zero per program and points can always be traced to where they went.
+ * Derived amounts use the exact points helpers so entries net to exactly zero.
+ */
+
+export interface ConversionPostingParams {
+  sourceWalletId: number;
+  destWalletId: number;
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountFrom: number;
+  amountTo: number;
+  fee: number; // Charged in fromProgram points, included in amountFrom
+}
+
+export interface RouteHopPosting {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountIn: number;
+  amountOut: number;
+}
+
+export interface RoutePostingParams {
+  sourceWalletId: number;
+  destWalletId: number;
+  amountFrom: number;
+  fee: number; // Charged in the first hop's fromProgram points, up front
+  hops: RouteHopPosting[]; // Each hop's amountIn is the previous hop's amountOut
+}
+
+export interface TradeSettlementPostingParams {
+  fromProgram: LoyaltyProgram; // Program the seller offered
+  toProgram: LoyaltyProgram; // Program the seller requested
+  amountOffered: number;
+  amountRequested: number;
+  buyerPaymentWalletId: number; // Buyer's toProgram wallet
+  buyerReceivingWalletId: number; // Buyer's fromProgram wallet
+  sellerReceivingWalletId: number; // Seller's toProgram wallet
+  sellerFee: number; // In toProgram points, deducted from what the seller receives
+  buyerFee: number; // In toProgram points, charged on top of amountRequested
+}
+
+export interface TradeRefundPostingParams {
+  fromProgram: LoyaltyProgram; // Program the seller sold
+  toProgram: LoyaltyProgram; // Program the buyer paid in
+  amountSold: number; // Handed back to the seller
+  amountBought: number; // Handed back to the buyer, before fees
+  sellerWalletId: number; // Seller's fromProgram wallet
+  sellerReceivingWalletId: number; // Seller's toProgram wallet
+  buyerReceivingWalletId: number; // Buyer's fromProgram wallet
+  buyerPaymentWalletId: number; // Buyer's toProgram wallet
+  sellerFee: number; // Fees refunded, in toProgram points
+  buyerFee: number;
+}
+
+/**
+ * Gets a user's wallet for a program, opening an empty one if it doesn't exist yet
+ */
+export async function getOrCreateWallet(tx: IStorage, userId: number, program: LoyaltyProgram): Promise<Wallet> {
+  const wallet = await tx.getWallet(userId, program);
+  if (wallet) {
+    return wallet;
+  }
+
+  return tx.createWallet({
+    userId,
+    program,
+    accountNumber: null,
+    accountName: null
+  });
+}
+
+/**
+ * Reads a wallet's balance after a journal entry was posted
+ */
+export function balanceAfterEntry(posted: PostedJournalEntry, walletId: number): number {
+  const wallet = posted.wallets.find(w => w.id === walletId);
+  if (!wallet) {
+    throw new Error(`Wallet ${walletId} was not part of journal entry ${posted.entry.id}`);
+  }
+  return wallet.balance;
+}
+
+/**
+ * Program-to-program conversion: the source points (net of fee) go to the exchange,
+ * the fee goes to fee revenue and the exchange pays out the destination points
+ */
+export function conversionPostings(params: ConversionPostingParams): InsertLedgerPosting[] {
+  const postings: InsertLedgerPosting[] = [
+    { account: "wallet", walletId: params.sourceWalletId, program: params.fromProgram, amount: -params.amountFrom },
+    { account: "exchange", walletId: null, program: params.fromProgram, amount: subtractPoints(params.amountFrom, params.fee) },
+    { account: "exchange", walletId: null, program: params.toProgram, amount: -params.amountTo },
+    { account: "wallet", walletId: params.destWalletId, program: params.toProgram, amount: params.amountTo }
+  ];
+
+  if (params.fee > 0) {
+    postings.push({ account: "fees", walletId: null, program: params.fromProgram, amount: params.fee });
+  }
+
+  return postings;
+}
+
+/**
+ * Multi-hop conversion: the fee comes off the source points up front, then every hop
+ * swaps points with the exchange. Intermediate programs net to zero on the exchange,
+ * so only the source and destination wallets change.
+ */
+export function routePostings(params: RoutePostingParams): InsertLedgerPosting[] {
+  if (params.hops.length === 0) {
+    throw new Error("A conversion route needs at least one hop");
+  }
+
+  const first = params.hops[0];
+  const last = params.hops[params.hops.length - 1];
+
+  const postings: InsertLedgerPosting[] = [
+    { account: "wallet", walletId: params.sourceWalletId, program: first.fromProgram, amount: -params.amountFrom }
+  ];
+
+  if (params.fee > 0) {
+    postings.push({ account: "fees", walletId: null, program: first.fromProgram, amount: params.fee });
+  }
+
+  params.hops.forEach(hop => {
+    postings.push(
+      { account: "exchange", walletId: null, program: hop.fromProgram, amount: hop.amountIn },
+      { account: "exchange", walletId: null, program: hop.toProgram, amount: -hop.amountOut }
+    );
+  });
+
+  postings.push({ account: "wallet", walletId: params.destWalletId, program: last.toProgram, amount: last.amountOut });
+
+  return postings;
+}
+
+/**
+ * Moves points from a wallet into escrow (e.g. while a trade offer is open)
+ */
+export function escrowHoldPostings(walletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "wallet", walletId, program, amount: -amount },
+    { account: "escrow", walletId: null, program, amount }
+  ];
+}
+
+/**
+ * Returns escrowed points to a wallet
+ */
+export function escrowReleasePostings(walletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "escrow", walletId: null, program, amount: -amount },
+    { account: "wallet", walletId, program, amount }
+  ];
+}
+
+/**
+ * Undoes a conversion: the exact opposite of its conversionPostings, so the source wallet
+ * gets back everything it paid including the fee and the destination wallet gives up what it received
+ */
+export function reversalPostings(params: ConversionPostingParams): InsertLedgerPosting[] {
+  return conversionPostings(params).map(posting => ({ ...posting, amount: -posting.amount }));
+}
+
+/**
+ * Settles a transfer whose source points were held in escrow while it was in flight:
+ * the escrow pays the exchange and the fee, and the exchange pays out the destination points
+ */
+export function heldTransferSettlementPostings(params: Omit<ConversionPostingParams, "sourceWalletId">): InsertLedgerPosting[] {
+  const postings: InsertLedgerPosting[] = [
+    { account: "escrow", walletId: null, program: params.fromProgram, amount: -params.amountFrom },
+    { account: "exchange", walletId: null, program: params.fromProgram, amount: subtractPoints(params.amountFrom, params.fee) },
+    { account: "exchange", walletId: null, program: params.toProgram, amount: -params.amountTo },
+    { account: "wallet", walletId: params.destWalletId, program: params.toProgram, amount: params.amountTo }
+  ];
+
+  if (params.fee > 0) {
+    postings.push({ account: "fees", walletId: null, program: params.fromProgram, amount: params.fee });
+  }
+
+  return postings;
+}
+
+/**
+ * Settles an accepted trade offer: the seller's escrowed points go to the buyer and
+ * the buyer's payment goes to the seller, with fees taken in the requested program
+ */
+export function tradeSettlementPostings(params: TradeSettlementPostingParams): InsertLedgerPosting[] {
+  const postings: InsertLedgerPosting[] = [
+    { account: "escrow", walletId: null, program: params.fromProgram, amount: -params.amountOffered },
+    { account: "wallet", walletId: params.buyerReceivingWalletId, program: params.fromProgram, amount: params.amountOffered },
+    { account: "wallet", walletId: params.buyerPaymentWalletId, program: params.toProgram, amount: -addPoints(params.amountRequested, params.buyerFee) },
+    { account: "wallet", walletId: params.sellerReceivingWalletId, program: params.toProgram, amount: subtractPoints(params.amountRequested, params.sellerFee) }
+  ];
+
+  const totalFees = addPoints(params.sellerFee, params.buyerFee);
+  if (totalFees > 0) {
+    postings.push({ account: "fees", walletId: null, program: params.toProgram, amount: totalFees });
+  }
+
+  return postings;
+}
+
+/**
+ * Settles a fill between two crossing offers. The buyer is the taker offer's creator, who
+ * pays out of the escrow already holding that offer's points rather than from a wallet.
+ */
+export function matchedTradeSettlementPostings(params: Omit<TradeSettlementPostingParams, "buyerPaymentWalletId">): InsertLedgerPosting[] {
+  const postings: InsertLedgerPosting[] = [
+    { account: "escrow", walletId: null, program: params.fromProgram, amount: -params.amountOffered },
+    { account: "wallet", walletId: params.buyerReceivingWalletId, program: params.fromProgram, amount: params.amountOffered },
+    { account: "escrow", walletId: null, program: params.toProgram, amount: -addPoints(params.amountRequested, params.buyerFee) },
+    { account: "wallet", walletId: params.sellerReceivingWalletId, program: params.toProgram, amount: subtractPoints(params.amountRequested, params.sellerFee) }
+  ];
+
+  const totalFees = addPoints(params.sellerFee, params.buyerFee);
+  if (totalFees > 0) {
+    postings.push({ account: "fees", walletId: null, program: params.toProgram, amount: totalFees });
+  }
+
+  return postings;
+}
+
+/**
+ * Unwinds a trade, or part of one: the buyer gives the sold points back to the seller's
+ * wallet, the seller gives back what they received and the fees come back out of fee
+ * revenue, so the buyer gets their whole payment back. Settled trades' escrow is long
+ * gone, so this goes wallet to wallet whether or not the trade was matched.
+ */
+export function tradeRefundPostings(params: TradeRefundPostingParams): InsertLedgerPosting[] {
+  const postings: InsertLedgerPosting[] = [
+    { account: "wallet", walletId: params.buyerReceivingWalletId, program: params.fromProgram, amount: -params.amountSold },
+    { account: "wallet", walletId: params.sellerWalletId, program: params.fromProgram, amount: params.amountSold },
+    { account: "wallet", walletId: params.sellerReceivingWalletId, program: params.toProgram, amount: -subtractPoints(params.amountBought, params.sellerFee) },
+    { account: "wallet", walletId: params.buyerPaymentWalletId, program: params.toProgram, amount: addPoints(params.amountBought, params.buyerFee) }
+  ];
+
+  const totalFees = addPoints(params.sellerFee, params.buyerFee);
+  if (totalFees > 0) {
+    postings.push({ account: "fees", walletId: null, program: params.toProgram, amount: -totalFees });
+  }
+
+  return postings;
+}
+
+/**
+ * Moves gifted points straight from the sender's wallet to the recipient's
+ */
+export function giftPostings(senderWalletId: number, recipientWalletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "wallet", walletId: senderWalletId, program, amount: -amount },
+    { account: "wallet", walletId: recipientWalletId, program, amount }
+  ];
+}
+
+/**
+ * Takes a lot's expired points out of a wallet
+ */
+export function expiryPostings(walletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "wallet", walletId, program, amount: -amount },
+    { account: "expired", walletId: null, program, amount }
+  ];
+}
+
+/**
+ * Credits newly issued points to a wallet (bonuses, business issuance, seeding)
+ */
+export function issuancePostings(walletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "issuance", walletId: null, program, amount: -amount },
+    { account: "wallet", walletId, program, amount }
+  ];
+}
+
+/**
+ * Postings that bring a wallet in line with activity at its partner program - points
+ * earned or spent there rather than through us. A negative amount takes points off.
+ */
+export function partnerSyncPostings(walletId: number, program: LoyaltyProgram, amount: number): InsertLedgerPosting[] {
+  return [
+    { account: "partner", walletId: null, program, amount: -amount },
+    { account: "wallet", walletId, program, amount }
+  ];
+}
@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import { config } from "../config";
+import { expiryPostings } from "./ledgerService";
+import { notificationService } from "./notificationService";
+import { addPoints, formatPoints } from "@shared/money";
+import type { LoyaltyProgram, PointLot } from "@shared/schema";
+
+// Most lots the nightly run expires or notifies about - anything left over goes on the next run
+const EXPIRY_BATCH_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LotExpiryResult {
+  expired: number;
+  notified: number;
+  failed: number;
+}
+
+export interface ExpiringProgramPoints {
+  program: LoyaltyProgram;
+  amount: number;
+  soonestExpiry: Date;
+}
+
+export interface ExpiringPoints {
+  days: number;
+  byProgram: ExpiringProgramPoints[];
+  lots: PointLot[];
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Sums lots per program, keeping the soonest expiry of each
+ */
+export function summarizeExpiringLots(lots: PointLot[]): ExpiringProgramPoints[] {
+  const byProgram = new Map<LoyaltyProgram, ExpiringProgramPoints>();
+
+  for (const lot of lots) {
+    if (!lot.expiresAt) continue;
+
+    const summary = byProgram.get(lot.program);
+    const expiresAt = new Date(lot.expiresAt);
+    byProgram.set(lot.program, {
+      program: lot.program,
+      amount: addPoints(summary?.amount ?? 0, lot.remaining),
+      soonestExpiry: summary && summary.soonestExpiry < expiresAt ? summary.soonestExpiry : expiresAt
+    });
+  }
+
+  return Array.from(byProgram.values()).sort((a, b) => a.soonestExpiry.getTime() - b.soonestExpiry.getTime());
+}
+
+/**
+ * Expiry of points lots. Spending draws on lots in the configured order as part of every
+ * journal entry (see server/lots.ts); this service takes what's left of a lot out of the
+ * wallet once it expires and warns owners ahead of time.
+ */
+export class LotService {
+  /**
+   * Nightly run: warns owners about lots expiring within the notice period, then expires
+   * every lot past its date
+   */
+  async runExpiry(now = new Date()): Promise<LotExpiryResult> {
+    const notified = await this.notifyExpiringLots(now);
+    const result: LotExpiryResult = { expired: 0, notified, failed: 0 };
+
+    const lots = await storage.getExpiredLots(now, EXPIRY_BATCH_SIZE);
+    for (const lot of lots) {
+      try {
+        if (await this.expireLot(lot.id)) {
+          result.expired++;
+        }
+      } catch (error) {
+        console.error(`Error expiring points lot ${lot.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  async getExpiringPoints(userId: number, days: number, now = new Date()): Promise<ExpiringPoints> {
+    const until = new Date(now.getTime() + days * DAY_MS);
+    const lots = (await storage.getUserLots(userId))
+      .filter(lot => lot.expiresAt && new Date(lot.expiresAt) <= until);
+
+    return { days, byProgram: summarizeExpiringLots(lots), lots };
+  }
+
+  /**
+   * Takes a lot's remaining points out of its wallet and records an expiry transaction.
+   * Returns false if the lot was spent since it was listed.
+   */
+  private async expireLot(lotId: number): Promise<boolean> {
+    const expired = await storage.withTransaction(async (tx) => {
+      const lot = await tx.lockPointLot(lotId);
+      if (!lot || lot.remaining <= 0) {
+        return null;
+      }
+
+      const posted = await tx.postJournalEntry(
+        {
+          userId: lot.userId,
+          type: "expiry",
+          reference: `point_lot:${lot.id}`,
+          description: `${lot.program} points expired`
+        },
+        expiryPostings(lot.walletId, lot.program, lot.remaining),
+        { drawFirst: [lot.id] }
+      );
+
+      await tx.createTransaction({
+        userId: lot.userId,
+        fromProgram: lot.program,
+        toProgram: lot.program,
+        amountFrom: lot.remaining,
+        amountTo: 0,
+        feeApplied: 0,
+        status: "settled",
+        type: "expiry",
+        recipientId: lot.userId,
+        transactionHash: "",
+        blockNumber: 0,
+        contractAddress: "",
+        tokenAddress: "",
+        journalEntryId: posted.entry.id
+      });
+
+      return lot;
+    });
+
+    if (!expired) {
+      return false;
+    }
+
+    await notificationService.notify(
+      expired.userId,
+      "points_expired",
+      "Points expired",
+      `${formatPoints(expired.remaining, expired.program)} ${expired.program} points expired.`
+    );
+    return true;
+  }
+
+  /**
+   * One notice per user and program for lots expiring within the notice period that
+   * haven't been announced yet
+   */
+  private async notifyExpiringLots(now: Date): Promise<number> {
+    const until = new Date(now.getTime() + config.lots.expiryNoticeDays * DAY_MS);
+    // Lots already past their date are expired straight after without a warning
+    const lots = (await storage.getUnnotifiedLotsExpiringBefore(until, EXPIRY_BATCH_SIZE))
+      .filter(lot => new Date(lot.expiresAt!) > now);
+
+    const byUser = new Map<number, PointLot[]>();
+    for (const lot of lots) {
+      byUser.set(lot.userId, [...(byUser.get(lot.userId) ?? []), lot]);
+    }
+
+    let notified = 0;
+    for (const [userId, userLots] of Array.from(byUser.entries())) {
+      for (const { program, amount, soonestExpiry } of summarizeExpiringLots(userLots)) {
+        await notificationService.notify(
+          userId,
+          "points_expiring",
+          "Points expiring soon",
+          `${formatPoints(amount, program)} ${program} points expire on ${formatDay(soonestExpiry)}. Use or convert them before then.`
+        );
+      }
+
+      await storage.markLotsNotified(userLots.map(lot => lot.id), now);
+      notified += userLots.length;
+    }
+
+    return notified;
+  }
+}
+
+// Create a singleton instance
+export const lotService = new LotService();
@@ -0,0 +1,39 @@
+import { storage } from "../storage";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import type { Notification } from "@shared/schema";
+
+const NOTIFICATION_LIMIT = 50;
+
+/**
+ * In-app notifications. Delivery never blocks the work that raised it - a notification
+ * that can't be stored is logged and dropped.
+ */
+export class NotificationService {
+  async notify(userId: number, type: string, title: string, message: string): Promise<Notification | undefined> {
+    try {
+      const notification = await storage.createNotification({ userId, type, title, message });
+      log(`Notified user ${userId}: ${title}`, "notifications");
+      return notification;
+    } catch (error) {
+      console.error(`Failed to notify user ${userId} (${type}):`, error);
+      return undefined;
+    }
+  }
+
+  async getNotifications(userId: number): Promise<Notification[]> {
+    return storage.getUserNotifications(userId, NOTIFICATION_LIMIT);
+  }
+
+  async markRead(userId: number, notificationId: number): Promise<Notification> {
+    const notification = await storage.markNotificationRead(notificationId, userId);
+    if (!notification) {
+      throw new ServiceError("Notification not found", 404, "NOTIFICATION_NOT_FOUND");
+    }
+
+    return notification;
+  }
+}
+
+// Create a singleton instance
+export const notificationService = new NotificationService();
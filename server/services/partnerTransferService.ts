@@ -0,0 +1,142 @@
+import { storage } from "../storage";
+import { PartnerError } from "../errors";
+import { log } from "../vite";
+import { partnerRegistry } from "../partners/registry";
+import type { PartnerTransfer } from "../partners/connector";
+import { transactionLifecycleService, transferReference } from "./transactionLifecycleService";
+import type { Transaction } from "@shared/schema";
+
+const BATCH_SIZE = 100;
+// Transfers this fresh are still being submitted by the request that opened them
+const SUBMIT_GRACE_MS = 30 * 1000;
+
+export interface PartnerTransferRun {
+  submitted: number;
+  settled: number;
+  failed: number;
+}
+
+/**
+ * Carries conversions out to partner programs. A conversion into a connected program
+ * holds its points in escrow (pending) until the partner has been asked to credit the
+ * member's account (submitted) and says the credit went through (settled). A partner
+ * that turns the credit down fails the transfer, handing the points back; one that can't
+ * be reached leaves it where it is for the next run to pick up.
+ */
+export class PartnerTransferService {
+  /**
+   * Asks the partner to credit a pending transfer. Resubmitting is safe - the partner
+   * matches it to the first attempt by our reference.
+   */
+  async submit(transaction: Transaction): Promise<Transaction> {
+    const connector = partnerRegistry.get(transaction.toProgram);
+    const wallet = await storage.getWallet(transaction.userId, transaction.toProgram);
+    if (!wallet?.accountNumber) {
+      // Unlinked since the transfer was opened
+      return transactionLifecycleService.transition(transaction.id, "failed", `No ${transaction.toProgram} account is linked`);
+    }
+
+    let transfer: PartnerTransfer;
+    try {
+      transfer = await connector.credit(wallet.accountNumber, transaction.amountTo, transferReference(transaction));
+    } catch (error) {
+      return this.handleFailure(transaction, error);
+    }
+
+    const submitted = await transactionLifecycleService.transition(transaction.id, "submitted", null, { partnerReference: transfer.id });
+    // So the next balance sync doesn't take our own credit for activity at the partner
+    await storage.adjustWalletPartnerBalance(wallet.id, transaction.amountTo);
+    return this.applyTransferStatus(submitted, transfer);
+  }
+
+  /**
+   * Asks the partner how a submitted transfer went and settles or fails it to match
+   */
+  async checkStatus(transaction: Transaction): Promise<Transaction> {
+    let transfer: PartnerTransfer;
+    try {
+      transfer = await partnerRegistry.get(transaction.toProgram).getTransferStatus(transaction.partnerReference!);
+    } catch (error) {
+      return this.handleFailure(transaction, error);
+    }
+
+    return this.applyTransferStatus(transaction, transfer);
+  }
+
+  /**
+   * Background job: submits pending transfers that didn't reach their partner and
+   * follows up on submitted ones
+   */
+  async processTransfers(): Promise<PartnerTransferRun> {
+    const run: PartnerTransferRun = { submitted: 0, settled: 0, failed: 0 };
+    const cutoff = Date.now() - SUBMIT_GRACE_MS;
+
+    const pending = (await storage.getTransactionsByStatus("pending", BATCH_SIZE))
+      .filter(t => partnerRegistry.has(t.toProgram) && t.statusUpdatedAt.getTime() < cutoff);
+    const submitted = (await storage.getTransactionsByStatus("submitted", BATCH_SIZE))
+      .filter(t => partnerRegistry.has(t.toProgram) && t.partnerReference);
+
+    for (const transaction of pending) {
+      this.count(run, await this.safely(transaction, () => this.submit(transaction)));
+    }
+    for (const transaction of submitted) {
+      this.count(run, await this.safely(transaction, () => this.checkStatus(transaction)));
+    }
+
+    return run;
+  }
+
+  private async applyTransferStatus(transaction: Transaction, transfer: PartnerTransfer): Promise<Transaction> {
+    if (transfer.status === "completed") {
+      return transactionLifecycleService.transition(transaction.id, "settled");
+    }
+
+    if (transfer.status === "failed") {
+      if (transaction.status === "submitted") {
+        await this.withdrawPartnerCredit(transaction);
+      }
+      return transactionLifecycleService.transition(
+        transaction.id,
+        "failed",
+        transfer.failureReason ?? `${transaction.toProgram} did not complete the transfer`
+      );
+    }
+
+    return transaction;
+  }
+
+  private async withdrawPartnerCredit(transaction: Transaction) {
+    const wallet = await storage.getWallet(transaction.userId, transaction.toProgram);
+    if (wallet) {
+      await storage.adjustWalletPartnerBalance(wallet.id, -transaction.amountTo);
+    }
+  }
+
+  // The partner said no: fail the transfer. It couldn't be reached: try again later.
+  private async handleFailure(transaction: Transaction, error: unknown): Promise<Transaction> {
+    if (error instanceof PartnerError && !error.retryable) {
+      return transactionLifecycleService.transition(transaction.id, "failed", error.message);
+    }
+
+    log(`Transfer ${transaction.id} to ${transaction.toProgram} left ${transaction.status}: ${error instanceof Error ? error.message : error}`, "partners");
+    return transaction;
+  }
+
+  private async safely(transaction: Transaction, fn: () => Promise<Transaction>): Promise<Transaction | null> {
+    try {
+      return await fn();
+    } catch (error) {
+      console.error(`Error processing partner transfer ${transaction.id}:`, error);
+      return null;
+    }
+  }
+
+  private count(run: PartnerTransferRun, transaction: Transaction | null) {
+    if (transaction?.status === "submitted") run.submitted++;
+    if (transaction?.status === "settled") run.settled++;
+    if (transaction?.status === "failed") run.failed++;
+  }
+}
+
+// Create a singleton instance
+export const partnerTransferService = new PartnerTransferService();
@@ -4,6 +4,7 @@ import { db } from '../db';
 import { exchangeRates } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { log } from '../vite';
+import { conversionOrderService } from './conversionOrderService';
 
 // Interface for rate source configurations
 interface RateSourceConfig {
@@ -440,6 +441,9 @@ export async function updateAllExchangeRates(): Promise<void> {
     }
     
     log('Completed exchange rate update job', 'rateService');
+    
+    // Rates have moved - execute any conversion orders whose target is now met
+    await conversionOrderService.evaluateOrders();
   } catch (error) {
     console.error('Error updating exchange rates:', error);
     throw error;
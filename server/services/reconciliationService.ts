@@ -0,0 +1,424 @@
+import { storage, type IStorage } from "../storage";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { issuancePostings } from "./ledgerService";
+import { addPoints, formatPoints, subtractPoints } from "@shared/money";
+import type {
+  InsertReconciliationDiscrepancy,
+  LedgerPosting,
+  ReconciliationDiscrepancy,
+  ReconciliationRun,
+  TradeTransaction,
+  Transaction,
+  Wallet
+} from "@shared/schema";
+
+// Records read per batch while checking them against their journal entries
+const RECORD_BATCH_SIZE = 500;
+
+export type DiscrepancyFinding = Omit<InsertReconciliationDiscrepancy, "runId">;
+
+interface BalanceCheckResult {
+  findings: DiscrepancyFinding[];
+  wallets: Wallet[];
+}
+
+interface RecordCheckResult {
+  findings: DiscrepancyFinding[];
+  checked: number;
+}
+
+export interface ReconciliationReport {
+  run: ReconciliationRun | null;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+/**
+ * Stored wallet balance against the sum of the wallet's postings
+ */
+export function checkWalletBalance(wallet: Wallet, ledgerBalance: number): DiscrepancyFinding | null {
+  const drift = subtractPoints(wallet.balance, ledgerBalance);
+  if (drift === 0) {
+    return null;
+  }
+
+  return {
+    userId: wallet.userId,
+    kind: "wallet_balance",
+    walletId: wallet.id,
+    program: wallet.program,
+    expected: ledgerBalance,
+    actual: wallet.balance,
+    details: `${wallet.program} wallet holds ${formatPoints(wallet.balance)} but its postings sum to ${formatPoints(ledgerBalance)}`
+  };
+}
+
+/**
+ * A user's token balance against the xPoints they minted less what they burned. Only
+ * mints and burns move tokens - bonuses, conversions, gifts and trades don't.
+ */
+export function checkTokenBalance(userId: number, tokenBalance: number, ledgerBalance: number): DiscrepancyFinding | null {
+  if (subtractPoints(tokenBalance, ledgerBalance) === 0) {
+    return null;
+  }
+
+  return {
+    userId,
+    kind: "token_balance",
+    program: "XPOINTS",
+    expected: ledgerBalance,
+    actual: tokenBalance,
+    details: `Token balance is ${formatPoints(tokenBalance)} but mints and burns net to ${formatPoints(ledgerBalance)}`
+  };
+}
+
+function walletNet(postings: LedgerPosting[], walletIds: number[], program: string): number {
+  return addPoints(...postings
+    .filter(p => p.walletId !== null && walletIds.includes(p.walletId) && p.program === program)
+    .map(p => p.amount));
+}
+
+/**
+ * A conversion or tokenization against the wallet postings of its journal entry:
+ * the user's source wallets lose amountFrom and their destination wallets gain amountTo.
+ * For a gift the destination wallets are the recipient's.
+ */
+export function checkTransactionPostings(
+  transaction: Transaction,
+  postings: LedgerPosting[],
+  userWalletIds: number[],
+  recipientWalletIds: number[] = userWalletIds
+): string | null {
+  // Records within one program (e.g. expiries) net both amounts in the same wallet
+  if (transaction.fromProgram === transaction.toProgram && transaction.type !== "p2p") {
+    const moved = walletNet(postings, userWalletIds, transaction.fromProgram);
+    const expected = addPoints(transaction.amountTo, -transaction.amountFrom);
+    return moved === expected
+      ? null
+      : `Transaction ${transaction.id}: ${transaction.fromProgram} wallet moved ${formatPoints(moved)}, record says ${formatPoints(expected)}`;
+  }
+
+  const problems: string[] = [];
+
+  const debited = walletNet(postings, userWalletIds, transaction.fromProgram);
+  if (debited !== -transaction.amountFrom) {
+    problems.push(`${transaction.fromProgram} wallet moved ${formatPoints(debited)}, record says -${formatPoints(transaction.amountFrom)}`);
+  }
+
+  const credited = walletNet(postings, recipientWalletIds, transaction.toProgram);
+  if (credited !== transaction.amountTo) {
+    problems.push(`${transaction.toProgram} wallet moved ${formatPoints(credited)}, record says ${formatPoints(transaction.amountTo)}`);
+  }
+
+  return problems.length > 0 ? `Transaction ${transaction.id}: ${problems.join("; ")}` : null;
+}
+
+/**
+ * A trade against its settlement entry: the buyer pays amountBought plus their fee and
+ * the seller's escrow releases amountSold. When two offers were matched the buyer paid
+ * out of their own offer's escrow instead, so escrow releases both and no buyer wallet moves.
+ */
+export function checkTradePostings(trade: TradeTransaction, postings: LedgerPosting[]): string | null {
+  const problems: string[] = [];
+  const matched = !!trade.takerOfferId;
+
+  const paid = addPoints(...postings.filter(p => p.walletId === trade.buyerWalletId).map(p => p.amount));
+  const expectedPaid = matched ? 0 : -addPoints(trade.amountBought, trade.buyerFee);
+  if (paid !== expectedPaid) {
+    problems.push(`buyer wallet moved ${formatPoints(paid)}, record says ${formatPoints(expectedPaid)}`);
+  }
+
+  const released = addPoints(...postings.filter(p => p.account === "escrow" && p.amount < 0).map(p => p.amount));
+  const expectedReleased = matched ? addPoints(trade.amountSold, trade.amountBought, trade.buyerFee) : trade.amountSold;
+  if (released !== -expectedReleased) {
+    problems.push(`escrow released ${formatPoints(-released)}, record says ${formatPoints(expectedReleased)}`);
+  }
+
+  return problems.length > 0 ? `Trade ${trade.id}: ${problems.join("; ")}` : null;
+}
+
+function groupByEntry(postings: LedgerPosting[]): Map<number, LedgerPosting[]> {
+  const byEntry = new Map<number, LedgerPosting[]>();
+  for (const posting of postings) {
+    const group = byEntry.get(posting.entryId) ?? [];
+    group.push(posting);
+    byEntry.set(posting.entryId, group);
+  }
+  return byEntry;
+}
+
+/**
+ * Recomputes every wallet's balance from the ledger and checks each transaction and trade
+ * against the journal entry that moved its points. Discrepancies are kept for an admin to
+ * review; approving a balance discrepancy corrects it with an adjustment entry.
+ */
+export class ReconciliationService {
+  async runReconciliation(): Promise<ReconciliationRun> {
+    const run = await storage.createReconciliationRun();
+
+    try {
+      const { wallets, findings: balanceFindings } = await this.checkBalances();
+      const transactions = await this.checkTransactions(wallets);
+      const trades = await this.checkTrades();
+      const findings = [...balanceFindings, ...transactions.findings, ...trades.findings];
+
+      // A balance that drifted is most likely explained by the user's bad records - list them with it
+      const recordFindings = findings.filter(f => f.recordType);
+      for (const finding of findings.filter(f => f.kind === "wallet_balance" || f.kind === "token_balance")) {
+        const related = recordFindings
+          .filter(f => f.userId === finding.userId)
+          .map(f => `${f.recordType} ${f.recordId}`);
+        if (related.length > 0) {
+          finding.details = `${finding.details}. Related records: ${related.join(", ")}`;
+        }
+      }
+
+      for (const finding of findings) {
+        await storage.createReconciliationDiscrepancy({ ...finding, runId: run.id });
+      }
+
+      // The latest run is the one to review - older open findings are either fixed or repeated in it
+      await storage.supersedeOpenDiscrepancies(run.id);
+
+      const finished = await storage.updateReconciliationRun(run.id, {
+        status: "completed",
+        walletsChecked: wallets.length,
+        recordsChecked: transactions.checked + trades.checked,
+        discrepancyCount: findings.length,
+        finishedAt: new Date()
+      });
+
+      if (findings.length > 0) {
+        log(`Reconciliation run ${run.id} found ${findings.length} discrepancies`, "reconciliation");
+      }
+
+      return finished;
+    } catch (error) {
+      await storage.updateReconciliationRun(run.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date()
+      });
+      throw error;
+    }
+  }
+
+  async getLatestReport(): Promise<ReconciliationReport> {
+    const run = await storage.getLatestReconciliationRun();
+    if (!run) {
+      return { run: null, discrepancies: [] };
+    }
+
+    return { run, discrepancies: await storage.getReconciliationDiscrepancies(run.id) };
+  }
+
+  /**
+   * Corrects a balance discrepancy. For a wallet the ledger is made to agree with the
+   * stored balance by posting the difference against issuance, so the user keeps what
+   * they see and the adjustment is traceable; a token balance is reset to what the user's
+   * mints and burns net to.
+   */
+  async approveDiscrepancy(discrepancyId: number, adminId: number): Promise<ReconciliationDiscrepancy> {
+    return storage.withTransaction(async (tx) => {
+      const discrepancy = await this.lockOpenDiscrepancy(tx, discrepancyId);
+      let adjustmentEntryId: number | null = null;
+
+      if (discrepancy.kind === "wallet_balance") {
+        const wallet = await tx.lockWallet(discrepancy.userId, discrepancy.program!);
+        if (!wallet) {
+          throw new ServiceError("Wallet not found", 404, "WALLET_NOT_FOUND");
+        }
+
+        // Recompute - the balance may have moved since the run
+        const ledgerBalance = await tx.getWalletLedgerBalance(wallet.id);
+        const drift = subtractPoints(wallet.balance, ledgerBalance);
+        if (drift !== 0) {
+          await tx.restoreWalletBalance(wallet.id, ledgerBalance);
+          const posted = await tx.postJournalEntry(
+            {
+              userId: null,
+              type: "adjustment",
+              reference: `reconciliation:${discrepancy.id}`,
+              description: "Reconciliation adjustment"
+            },
+            issuancePostings(wallet.id, wallet.program, drift)
+          );
+          adjustmentEntryId = posted.entry.id;
+        }
+      } else if (discrepancy.kind === "token_balance") {
+        // Mints and burns lock the user too while they move the token balance
+        await tx.lockUser(discrepancy.userId);
+        await tx.updateTokenBalance(discrepancy.userId, await tx.getTokenLedgerBalance(discrepancy.userId));
+      } else {
+        throw new ServiceError("Only balance discrepancies can be corrected automatically", 400, "DISCREPANCY_NOT_CORRECTABLE");
+      }
+
+      return tx.reviewReconciliationDiscrepancy(discrepancy.id, {
+        status: "approved",
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        adjustmentEntryId
+      });
+    });
+  }
+
+  async dismissDiscrepancy(discrepancyId: number, adminId: number): Promise<ReconciliationDiscrepancy> {
+    return storage.withTransaction(async (tx) => {
+      const discrepancy = await this.lockOpenDiscrepancy(tx, discrepancyId);
+      return tx.reviewReconciliationDiscrepancy(discrepancy.id, {
+        status: "dismissed",
+        reviewedBy: adminId,
+        reviewedAt: new Date()
+      });
+    });
+  }
+
+  private async lockOpenDiscrepancy(tx: IStorage, discrepancyId: number): Promise<ReconciliationDiscrepancy> {
+    const discrepancy = await tx.lockReconciliationDiscrepancy(discrepancyId);
+    if (!discrepancy) {
+      throw new ServiceError("Discrepancy not found", 404, "DISCREPANCY_NOT_FOUND");
+    }
+
+    if (discrepancy.status !== "open") {
+      throw new ServiceError("Discrepancy has already been reviewed", 409, "DISCREPANCY_NOT_OPEN");
+    }
+
+    return discrepancy;
+  }
+
+  // Balances and postings are read from one snapshot, so an entry posted mid-run can't look like drift
+  private async checkBalances(): Promise<BalanceCheckResult> {
+    const { wallets, walletLedger, tokenBalances, tokenLedger } = await storage.withSnapshot(async (tx) => ({
+      wallets: await tx.getAllWallets(),
+      walletLedger: await tx.getWalletLedgerBalances(),
+      tokenBalances: await tx.getAllUserTokenBalances(),
+      tokenLedger: await tx.getTokenLedgerBalances()
+    }));
+
+    const findings: DiscrepancyFinding[] = [];
+    const ledgerBalances = new Map(walletLedger.map(({ walletId, balance }) => [walletId, balance] as [number, number]));
+    const tokenLedgerBalances = new Map(tokenLedger.map(({ userId, balance }) => [userId, balance] as [number, number]));
+
+    for (const wallet of wallets) {
+      const finding = checkWalletBalance(wallet, ledgerBalances.get(wallet.id) ?? 0);
+      if (finding) findings.push(finding);
+    }
+
+    for (const user of tokenBalances) {
+      const finding = checkTokenBalance(user.id, user.tokenBalance ?? 0, tokenLedgerBalances.get(user.id) ?? 0);
+      if (finding) findings.push(finding);
+    }
+
+    return { findings, wallets };
+  }
+
+  private async checkTransactions(wallets: Wallet[]): Promise<RecordCheckResult> {
+    const findings: DiscrepancyFinding[] = [];
+    let checked = 0;
+    // Records from before the ledger existed were never posted - only newer ones have to be
+    const ledgerStartedAt = await storage.getLedgerStartedAt();
+    let afterId = 0;
+
+    while (true) {
+      const batch = await storage.getTransactionsAfter(afterId, RECORD_BATCH_SIZE);
+      if (batch.length === 0) break;
+      afterId = batch[batch.length - 1].id;
+      checked += batch.length;
+
+      const postingsByEntry = groupByEntry(await storage.getPostingsByEntries(
+        batch.flatMap(t => [t.journalEntryId, t.holdEntryId]).filter((id): id is number => id !== null)
+      ));
+
+      for (const transaction of batch) {
+        // Points only move for good once a transaction settles - before that they're at most held
+        if (transaction.status !== "settled" && transaction.status !== "reversed") {
+          continue;
+        }
+
+        if (transaction.journalEntryId === null) {
+          if (ledgerStartedAt && transaction.timestamp >= ledgerStartedAt) {
+            findings.push({
+              userId: transaction.userId,
+              kind: "unposted_record",
+              recordType: "transaction",
+              recordId: transaction.id,
+              details: `Transaction ${transaction.id} has no journal entry`
+            });
+          }
+          continue;
+        }
+
+        // A transfer's source points left the wallet in its hold entry
+        const postings = [
+          ...(postingsByEntry.get(transaction.journalEntryId) ?? []),
+          ...(transaction.holdEntryId ? postingsByEntry.get(transaction.holdEntryId) ?? [] : [])
+        ];
+        const userWalletIds = wallets.filter(w => w.userId === transaction.userId).map(w => w.id);
+        const recipientWalletIds = transaction.type === "p2p"
+          ? wallets.filter(w => w.userId === transaction.recipientId).map(w => w.id)
+          : userWalletIds;
+        const mismatch = checkTransactionPostings(transaction, postings, userWalletIds, recipientWalletIds);
+        if (mismatch) {
+          findings.push({
+            userId: transaction.userId,
+            kind: "record_mismatch",
+            recordType: "transaction",
+            recordId: transaction.id,
+            details: mismatch
+          });
+        }
+      }
+    }
+
+    return { findings, checked };
+  }
+
+  private async checkTrades(): Promise<RecordCheckResult> {
+    const findings: DiscrepancyFinding[] = [];
+    let checked = 0;
+    const ledgerStartedAt = await storage.getLedgerStartedAt();
+    let afterId = 0;
+
+    while (true) {
+      const batch = await storage.getTradeTransactionsAfter(afterId, RECORD_BATCH_SIZE);
+      if (batch.length === 0) break;
+      afterId = batch[batch.length - 1].id;
+      checked += batch.length;
+
+      const postingsByEntry = groupByEntry(await storage.getPostingsByEntries(
+        batch.filter(t => t.journalEntryId !== null).map(t => t.journalEntryId!)
+      ));
+
+      for (const trade of batch) {
+        if (trade.journalEntryId === null) {
+          if (ledgerStartedAt && trade.completedAt >= ledgerStartedAt) {
+            findings.push({
+              userId: trade.buyerId,
+              kind: "unposted_record",
+              recordType: "trade_transaction",
+              recordId: trade.id,
+              details: `Trade ${trade.id} has no journal entry`
+            });
+          }
+          continue;
+        }
+
+        const mismatch = checkTradePostings(trade, postingsByEntry.get(trade.journalEntryId) ?? []);
+        if (mismatch) {
+          findings.push({
+            userId: trade.buyerId,
+            kind: "record_mismatch",
+            recordType: "trade_transaction",
+            recordId: trade.id,
+            details: mismatch
+          });
+        }
+      }
+    }
+
+    return { findings, checked };
+  }
+}
+
+// Create a singleton instance
+export const reconciliationService = new ReconciliationService();
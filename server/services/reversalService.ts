@@ -0,0 +1,174 @@
+import { storage } from "../storage";
+import { ServiceError } from "../errors";
+import { getOrCreateWallet, reversalPostings } from "./ledgerService";
+import { transactionLifecycleService } from "./transactionLifecycleService";
+import type { Transaction, TransactionReversal, ReversalStatus } from "@shared/schema";
+
+/**
+ * A conversion credited to the member's account at a partner can't be undone from our
+ * ledger alone - reversing it would refund the source points while they keep the partner's
+ */
+function assertNotSettledAtPartner(transaction: Transaction) {
+  if (transaction.partnerReference) {
+    throw new ServiceError(
+      `This conversion was credited to the member's ${transaction.toProgram} account and can't be reversed here`,
+      400,
+      "REVERSAL_NOT_SUPPORTED"
+    );
+  }
+}
+
+// A conversion from an earlier month no longer counts towards this month's free allowance
+function convertedThisMonth(transaction: Transaction, now = new Date()): boolean {
+  return transaction.timestamp >= new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Refunds of mistaken conversions. Support requests a reversal with a reason and a
+ * different admin approves it - only then are the compensating entries posted, a refund
+ * transaction recorded against the original and the original marked reversed.
+ */
+export class ReversalService {
+  async requestReversal(transactionId: number, adminId: number, reason: string): Promise<TransactionReversal> {
+    const transaction = await storage.getTransaction(transactionId);
+    if (!transaction) {
+      throw new ServiceError("Transaction not found", 404, "TRANSACTION_NOT_FOUND");
+    }
+
+    // Tokenizations also moved tokens on chain, and refunds are never refunded again
+    if (transaction.type !== "conversion") {
+      throw new ServiceError("Only conversions can be reversed", 400, "REVERSAL_NOT_SUPPORTED");
+    }
+
+    if (transaction.status !== "settled") {
+      throw new ServiceError("Only settled transactions can be reversed", 409, "TRANSACTION_NOT_SETTLED");
+    }
+
+    assertNotSettledAtPartner(transaction);
+
+    const reversal = await storage.createTransactionReversal({ transactionId, reason, requestedBy: adminId });
+    if (!reversal) {
+      throw new ServiceError("A reversal of this transaction has already been requested", 409, "REVERSAL_EXISTS");
+    }
+
+    return reversal;
+  }
+
+  async getReversals(status?: ReversalStatus): Promise<TransactionReversal[]> {
+    return storage.getTransactionReversals(status);
+  }
+
+  async approveReversal(reversalId: number, adminId: number, note: string | null = null): Promise<TransactionReversal> {
+    const result = await storage.withTransaction(async (tx) => {
+      const reversal = await tx.lockTransactionReversal(reversalId);
+      if (!reversal) {
+        throw new ServiceError("Reversal not found", 404, "REVERSAL_NOT_FOUND");
+      }
+
+      if (reversal.status !== "requested") {
+        throw new ServiceError("Reversal has already been reviewed", 409, "REVERSAL_NOT_REQUESTED");
+      }
+
+      if (reversal.requestedBy === adminId) {
+        throw new ServiceError("A second admin has to approve a reversal", 403, "REVERSAL_SAME_ADMIN");
+      }
+
+      const original = await tx.lockTransaction(reversal.transactionId);
+      if (!original || original.status !== "settled") {
+        throw new ServiceError("Only settled transactions can be reversed", 409, "TRANSACTION_NOT_SETTLED");
+      }
+
+      assertNotSettledAtPartner(original);
+
+      // The user before the wallets, the order conversions lock them in
+      await tx.lockUser(original.userId);
+
+      const sourceWallet = await getOrCreateWallet(tx, original.userId, original.fromProgram);
+      const destWallet = await getOrCreateWallet(tx, original.userId, original.toProgram);
+
+      // Fails with INSUFFICIENT_BALANCE if the user has already spent the converted points
+      const posted = await tx.postJournalEntry(
+        {
+          userId: original.userId,
+          type: "reversal",
+          reference: `reversal:${reversal.id}`,
+          description: `Refund of transaction ${original.id}`
+        },
+        reversalPostings({
+          sourceWalletId: sourceWallet.id,
+          destWalletId: destWallet.id,
+          fromProgram: original.fromProgram,
+          toProgram: original.toProgram,
+          amountFrom: original.amountFrom,
+          amountTo: original.amountTo,
+          fee: original.feeApplied
+        })
+      );
+
+      // The refund runs the other way: the converted points go back and the full source amount returns
+      const refund = await tx.createTransaction({
+        userId: original.userId,
+        fromProgram: original.toProgram,
+        toProgram: original.fromProgram,
+        amountFrom: original.amountTo,
+        amountTo: original.amountFrom,
+        feeApplied: 0,
+        status: "settled",
+        type: "refund",
+        reversalOf: original.id,
+        recipientId: original.userId,
+        transactionHash: "",
+        blockNumber: 0,
+        contractAddress: "",
+        tokenAddress: "",
+        journalEntryId: posted.entry.id
+      });
+
+      // Nor does the conversion count any more towards the user's tier or free allowance
+      await tx.updateUserStats(
+        original.userId,
+        -original.amountFrom,
+        -original.feeApplied,
+        convertedThisMonth(original) ? -original.amountFrom : 0
+      );
+
+      const reversed = await tx.transitionTransaction(original.id, "reversed", { reason: reversal.reason });
+
+      const approved = await tx.reviewTransactionReversal(reversal.id, {
+        status: "approved",
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        reviewNote: note,
+        refundTransactionId: refund.id
+      });
+
+      return { approved, transition: { transaction: reversed, from: original.status, to: reversed.status, reason: reversal.reason } };
+    });
+
+    void transactionLifecycleService.announce(result.transition);
+    return result.approved;
+  }
+
+  async rejectReversal(reversalId: number, adminId: number, note: string | null = null): Promise<TransactionReversal> {
+    return storage.withTransaction(async (tx) => {
+      const reversal = await tx.lockTransactionReversal(reversalId);
+      if (!reversal) {
+        throw new ServiceError("Reversal not found", 404, "REVERSAL_NOT_FOUND");
+      }
+
+      if (reversal.status !== "requested") {
+        throw new ServiceError("Reversal has already been reviewed", 409, "REVERSAL_NOT_REQUESTED");
+      }
+
+      return tx.reviewTransactionReversal(reversal.id, {
+        status: "rejected",
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        reviewNote: note
+      });
+    });
+  }
+}
+
+// Create a singleton instance
+export const reversalService = new ReversalService();
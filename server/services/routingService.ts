@@ -0,0 +1,159 @@
+import type { IStorage } from "../storage";
+import { config } from "../config";
+import { calculateRoutingFee, type FeeLineItem } from "./feePolicyService";
+import { addPoints, multiplyPoints, subtractPoints } from "@shared/money";
+import type { ExchangeRate, LoyaltyProgram, TransferBonus } from "@shared/schema";
+
+export interface RouteHop {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  rate: string; // Exchange rate as stored
+  bonusPercent: number; // Active transfer bonus on this hop, 0 if none
+  amountIn: number;
+  amountOut: number;
+}
+
+export interface ConversionRoute {
+  programs: LoyaltyProgram[];
+  path: string;
+  hops: RouteHop[];
+  routingFee: FeeLineItem | null; // In source program points, on top of the tier fee
+  amountTo: number;
+}
+
+interface RateEdge {
+  toProgram: LoyaltyProgram;
+  rate: string;
+  bonusPercent: number;
+}
+
+export type RateGraph = Map<LoyaltyProgram, RateEdge[]>;
+
+export interface RouteOptions {
+  maxHops: number;
+  hopFeeRate: number;
+}
+
+/**
+ * Builds the conversion graph: one edge per exchange rate, carrying the best
+ * transfer bonus currently running for that pair
+ */
+export function buildRateGraph(rates: ExchangeRate[], bonuses: TransferBonus[]): RateGraph {
+  const graph: RateGraph = new Map();
+
+  rates.forEach(rate => {
+    if (rate.fromProgram === rate.toProgram || !(Number(rate.rate) > 0)) {
+      return;
+    }
+
+    const bonusPercent = bonuses
+      .filter(b => b.fromProgram === rate.fromProgram && b.toProgram === rate.toProgram)
+      .reduce((best, b) => Math.max(best, Number(b.bonusPercent)), 0);
+
+    const edges = graph.get(rate.fromProgram) ?? [];
+    edges.push({ toProgram: rate.toProgram, rate: rate.rate, bonusPercent });
+    graph.set(rate.fromProgram, edges);
+  });
+
+  return graph;
+}
+
+/**
+ * Every route from one program to another of up to `maxHops` hops, best first.
+ *
+ * `baseFee` (the tier fee) comes off the source amount for every route alike; longer
+ * routes also pay the routing fee. The amounts are walked hop by hop, with any transfer
+ * bonus applied to that hop's output, and routes are ranked by what arrives at the end.
+ */
+export function findRoutes(
+  graph: RateGraph,
+  fromProgram: LoyaltyProgram,
+  toProgram: LoyaltyProgram,
+  amountFrom: number,
+  baseFee: number,
+  options: RouteOptions
+): ConversionRoute[] {
+  const routes: ConversionRoute[] = [];
+
+  const price = (programs: LoyaltyProgram[], edges: RateEdge[]) => {
+    const routingFee = calculateRoutingFee(amountFrom, edges.length, fromProgram, options.hopFeeRate);
+    let amount = subtractPoints(amountFrom, addPoints(baseFee, routingFee?.amount ?? 0));
+    if (amount <= 0) {
+      return;
+    }
+
+    // Each hop's output is rounded down to what the receiving program can hold
+    const hops = edges.map((edge, i) => {
+      const amountIn = amount;
+      amount = multiplyPoints(amountIn, edge.rate, edge.toProgram, "down");
+      if (edge.bonusPercent > 0) {
+        amount = multiplyPoints(amount, 1 + edge.bonusPercent / 100, edge.toProgram, "down");
+      }
+      return {
+        fromProgram: programs[i],
+        toProgram: edge.toProgram,
+        rate: edge.rate,
+        bonusPercent: edge.bonusPercent,
+        amountIn,
+        amountOut: amount
+      };
+    });
+
+    if (amount <= 0) {
+      return;
+    }
+
+    routes.push({ programs, path: programs.join(" → "), hops, routingFee, amountTo: amount });
+  };
+
+  // Depth-first over simple paths - the program graph is small enough to enumerate
+  const walk = (programs: LoyaltyProgram[], edges: RateEdge[]) => {
+    const current = programs[programs.length - 1];
+    if (current === toProgram) {
+      price(programs, edges);
+      return;
+    }
+    if (edges.length >= options.maxHops) {
+      return;
+    }
+
+    (graph.get(current) ?? []).forEach(edge => {
+      if (!programs.includes(edge.toProgram)) {
+        walk([...programs, edge.toProgram], [...edges, edge]);
+      }
+    });
+  };
+
+  walk([fromProgram], []);
+
+  return routes.sort((a, b) => b.amountTo - a.amountTo || a.hops.length - b.hops.length);
+}
+
+/**
+ * Finds conversion routes over the current exchange rates and transfer bonuses
+ */
+export class RoutingService {
+  /**
+   * Reads the rates through `tx` - pass `storage` outside a transaction
+   */
+  async findRoutes(
+    tx: IStorage,
+    fromProgram: LoyaltyProgram,
+    toProgram: LoyaltyProgram,
+    amountFrom: number,
+    baseFee: number
+  ): Promise<ConversionRoute[]> {
+    const [rates, bonuses] = await Promise.all([
+      tx.getAllExchangeRates(),
+      tx.getActiveTransferBonuses(new Date())
+    ]);
+
+    return findRoutes(buildRateGraph(rates, bonuses), fromProgram, toProgram, amountFrom, baseFee, {
+      maxHops: config.conversion.maxRouteHops,
+      hopFeeRate: config.conversion.hopFeeRate
+    });
+  }
+}
+
+// Create a singleton instance
+export const routingService = new RoutingService();
@@ -0,0 +1,423 @@
+import { createHash } from "crypto";
+import { storage, type WalletBalance, type WalletPostingRecord } from "../storage";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { csvLine } from "../csv";
+import { renderPdf, type PdfLine } from "../pdf";
+import { addPoints, formatPoints, toDecimalString } from "@shared/money";
+import type { LoyaltyProgram, Statement, TradeOffer, TradeTransaction, Transaction } from "@shared/schema";
+
+export type StatementCategory =
+  "conversion" | "trade" | "token_mint" | "token_burn" | "issuance" | "escrow" | "fee" | "expiry" | "partner" | "gift" | "adjustment";
+
+export interface StatementLine {
+  date: string; // ISO timestamp of the journal entry
+  program: LoyaltyProgram;
+  category: StatementCategory;
+  description: string;
+  reference: string | null;
+  amount: number; // Signed: credits are positive
+  balance: number; // Program balance after this line
+}
+
+export interface StatementProgramSummary {
+  program: LoyaltyProgram;
+  openingBalance: number;
+  credits: number;
+  debits: number; // Negative, excluding fees
+  fees: number; // Negative
+  closingBalance: number;
+}
+
+// What is stored, as JSON, in statements.content
+export interface StatementContent {
+  userId: number;
+  username: string;
+  periodStart: string;
+  periodEnd: string;
+  programs: StatementProgramSummary[];
+  lines: StatementLine[];
+}
+
+// A fee the user paid as part of a journal entry
+export interface EntryFee {
+  entryId: number;
+  program: LoyaltyProgram;
+  amount: number;
+  description: string;
+}
+
+export interface StatementInputs {
+  userId: number;
+  username: string;
+  periodStart: Date;
+  periodEnd: Date;
+  opening: WalletBalance[];
+  closing: WalletBalance[];
+  records: WalletPostingRecord[];
+  fees: EntryFee[];
+}
+
+export interface StatementRunResult {
+  generated: number;
+  failed: number;
+}
+
+export type StatementFormat = "pdf" | "csv";
+
+const ENTRY_CATEGORIES: Record<string, StatementCategory> = {
+  conversion: "conversion",
+  tokenize: "token_mint",
+  detokenize: "token_burn",
+  trade_settlement: "trade",
+  trade_refund: "trade",
+  trade_escrow: "escrow",
+  trade_release: "escrow",
+  order_reserve: "escrow",
+  order_release: "escrow",
+  signup_bonus: "issuance",
+  issuance: "issuance",
+  expiry: "expiry",
+  partner_sync: "partner",
+  gift: "gift",
+  gift_hold: "escrow",
+  gift_release: "escrow"
+};
+
+const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  conversion: "Conversion",
+  trade: "Trade",
+  token_mint: "Token mint",
+  token_burn: "Token burn",
+  issuance: "Issuance",
+  escrow: "Escrow",
+  fee: "Fee",
+  expiry: "Expiry",
+  partner: "Partner activity",
+  gift: "Gift",
+  adjustment: "Adjustment"
+};
+
+export const STATEMENT_CSV_COLUMNS = ["date", "program", "category", "description", "reference", "amount", "balance"] as const;
+
+/**
+ * Calendar month (UTC) before the one `now` falls in
+ */
+export function previousMonth(now: Date): { periodStart: Date; periodEnd: Date } {
+  return {
+    periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)),
+    periodEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  };
+}
+
+/**
+ * Fees the user paid, from the conversion and trade records behind each journal entry
+ */
+export function entryFees(
+  userId: number,
+  transactions: Transaction[],
+  trades: TradeTransaction[],
+  offers: Map<number, TradeOffer>
+): EntryFee[] {
+  const fees: EntryFee[] = [];
+
+  for (const tx of transactions) {
+    if (tx.journalEntryId && tx.userId === userId && tx.feeApplied > 0) {
+      fees.push({ entryId: tx.journalEntryId, program: tx.fromProgram, amount: tx.feeApplied, description: "Conversion fee" });
+    }
+  }
+
+  for (const trade of trades) {
+    const offer = offers.get(trade.tradeOfferId);
+    if (!trade.journalEntryId || !offer) continue;
+
+    // Both trade fees are taken in the program the seller asked for
+    if (trade.sellerId === userId && trade.sellerFee > 0) {
+      fees.push({ entryId: trade.journalEntryId, program: offer.toProgram, amount: trade.sellerFee, description: "Trade seller fee" });
+    }
+    if (trade.buyerId === userId && trade.buyerFee > 0) {
+      fees.push({ entryId: trade.journalEntryId, program: offer.toProgram, amount: trade.buyerFee, description: "Trade buyer fee" });
+    }
+  }
+
+  return fees;
+}
+
+function balanceByProgram(balances: WalletBalance[]): Map<LoyaltyProgram, number> {
+  const byProgram = new Map<LoyaltyProgram, number>();
+  for (const { program, balance } of balances) {
+    byProgram.set(program, addPoints(byProgram.get(program) ?? 0, balance));
+  }
+  return byProgram;
+}
+
+/**
+ * Builds a statement from the user's wallet postings: one line per journal entry and
+ * program, with any fee split out into a line of its own. Fails if the opening balance
+ * plus the lines doesn't come to the closing balance for every program.
+ */
+export function buildStatement(inputs: StatementInputs): StatementContent {
+  const opening = balanceByProgram(inputs.opening);
+  const closing = balanceByProgram(inputs.closing);
+  const running = new Map(opening);
+
+  // Net movement per entry and program, in posting order
+  const movements = new Map<string, { record: WalletPostingRecord; amount: number }>();
+  for (const record of inputs.records) {
+    const key = `${record.entry.id}:${record.posting.program}`;
+    const movement = movements.get(key);
+    movements.set(key, {
+      record: movement?.record ?? record,
+      amount: addPoints(movement?.amount ?? 0, record.posting.amount)
+    });
+  }
+
+  const lines: StatementLine[] = [];
+  const addLine = (record: WalletPostingRecord, category: StatementCategory, description: string, amount: number) => {
+    const program = record.posting.program;
+    const balance = addPoints(running.get(program) ?? 0, amount);
+    running.set(program, balance);
+    lines.push({
+      date: new Date(record.entry.createdAt).toISOString(),
+      program,
+      category,
+      description,
+      reference: record.entry.reference,
+      amount,
+      balance
+    });
+  };
+
+  for (const { record, amount } of Array.from(movements.values())) {
+    const { entry, posting } = record;
+    const category = ENTRY_CATEGORIES[entry.type] ?? "adjustment";
+    const fees = inputs.fees.filter(fee => fee.entryId === entry.id && fee.program === posting.program);
+    const feeTotal = addPoints(...fees.map(fee => fee.amount));
+
+    const label = CATEGORY_LABELS[category];
+    addLine(record, category, entry.description ? `${label} - ${entry.description}` : label, addPoints(amount, feeTotal));
+    for (const fee of fees) {
+      addLine(record, "fee", fee.description, -fee.amount);
+    }
+  }
+
+  const programs = Array.from(new Set([...Array.from(opening.keys()), ...Array.from(closing.keys())])).sort();
+  const summaries = programs.map(program => {
+    const programLines = lines.filter(line => line.program === program);
+    const summary: StatementProgramSummary = {
+      program,
+      openingBalance: opening.get(program) ?? 0,
+      credits: addPoints(...programLines.filter(line => line.amount > 0).map(line => line.amount)),
+      debits: addPoints(...programLines.filter(line => line.amount < 0 && line.category !== "fee").map(line => line.amount)),
+      fees: addPoints(...programLines.filter(line => line.category === "fee").map(line => line.amount)),
+      closingBalance: closing.get(program) ?? 0
+    };
+
+    const computed = addPoints(summary.openingBalance, summary.credits, summary.debits, summary.fees);
+    if (computed !== summary.closingBalance) {
+      throw new ServiceError(
+        `Statement for user ${inputs.userId} doesn't reconcile for ${program}: ` +
+          `${toDecimalString(computed)} computed, ${toDecimalString(summary.closingBalance)} in the ledger`,
+        500,
+        "STATEMENT_UNBALANCED"
+      );
+    }
+
+    return summary;
+  });
+
+  return {
+    userId: inputs.userId,
+    username: inputs.username,
+    periodStart: inputs.periodStart.toISOString(),
+    periodEnd: inputs.periodEnd.toISOString(),
+    programs: summaries,
+    lines
+  };
+}
+
+export function parseStatementContent(statement: Statement): StatementContent {
+  return JSON.parse(statement.content) as StatementContent;
+}
+
+/**
+ * CSV with opening and closing balance rows around the movements, one set per program
+ */
+export function renderStatementCsv(content: StatementContent): string {
+  const rows: string[] = [csvLine(STATEMENT_CSV_COLUMNS)];
+
+  for (const summary of content.programs) {
+    rows.push(csvLine([content.periodStart, summary.program, "opening_balance", "Opening balance", "", "", toDecimalString(summary.openingBalance)]));
+  }
+  for (const line of content.lines) {
+    rows.push(csvLine([line.date, line.program, line.category, line.description, line.reference, toDecimalString(line.amount), toDecimalString(line.balance)]));
+  }
+  for (const summary of content.programs) {
+    rows.push(csvLine([content.periodEnd, summary.program, "closing_balance", "Closing balance", "", "", toDecimalString(summary.closingBalance)]));
+  }
+
+  return rows.join("");
+}
+
+function periodLabel(content: StatementContent): string {
+  const start = new Date(content.periodStart);
+  return start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+export function renderStatementPdf(content: StatementContent, checksum: string): Buffer {
+  const amount = (value: number, program: LoyaltyProgram) => formatPoints(value, program).padStart(14);
+  const lastDay = new Date(new Date(content.periodEnd).getTime() - 1).toISOString().slice(0, 10);
+
+  const lines: PdfLine[] = [
+    { text: "xPoints Account Statement", bold: true, size: 16 },
+    { text: periodLabel(content), size: 12 },
+    { text: "" },
+    { text: `Account:  ${content.username} (#${content.userId})` },
+    { text: `Period:   ${content.periodStart.slice(0, 10)} to ${lastDay} (UTC)` },
+    { text: `Checksum: ${checksum}` },
+    { text: "" },
+    { text: "Summary", bold: true, size: 11 },
+    { text: `${"Program".padEnd(10)}${"Opening".padStart(14)}${"Credits".padStart(14)}${"Debits".padStart(14)}${"Fees".padStart(14)}${"Closing".padStart(14)}`, bold: true }
+  ];
+
+  for (const summary of content.programs) {
+    lines.push({
+      text: summary.program.padEnd(10) +
+        amount(summary.openingBalance, summary.program) +
+        amount(summary.credits, summary.program) +
+        amount(summary.debits, summary.program) +
+        amount(summary.fees, summary.program) +
+        amount(summary.closingBalance, summary.program)
+    });
+  }
+
+  lines.push(
+    { text: "" },
+    { text: "Activity", bold: true, size: 11 },
+    { text: `${"Date".padEnd(12)}${"Program".padEnd(10)}${"Description".padEnd(42)}${"Amount".padStart(14)}${"Balance".padStart(14)}`, bold: true }
+  );
+
+  if (content.lines.length === 0) {
+    lines.push({ text: "No activity in this period." });
+  }
+
+  for (const line of content.lines) {
+    const description = line.description.length > 40 ? `${line.description.slice(0, 39)}~` : line.description;
+    lines.push({
+      text: line.date.slice(0, 10).padEnd(12) +
+        line.program.padEnd(10) +
+        description.padEnd(42) +
+        amount(line.amount, line.program) +
+        amount(line.balance, line.program)
+    });
+  }
+
+  return renderPdf(lines, `xPoints statement ${periodLabel(content)}`);
+}
+
+/**
+ * Monthly statements, generated by a background job once the month is over and
+ * never regenerated - the stored JSON and its checksum are what the user downloads
+ */
+export class StatementService {
+  async generateStatement(userId: number, periodStart: Date, periodEnd: Date): Promise<Statement> {
+    const existing = await storage.getStatementForPeriod(userId, periodStart);
+    if (existing) {
+      return existing;
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new ServiceError("User not found", 404, "USER_NOT_FOUND");
+    }
+
+    const [opening, closing, records] = await Promise.all([
+      storage.getUserWalletBalancesAt(userId, periodStart),
+      storage.getUserWalletBalancesAt(userId, periodEnd),
+      storage.getUserWalletPostings(userId, periodStart, periodEnd)
+    ]);
+
+    const entryIds = Array.from(new Set(records.map(record => record.entry.id)));
+    const [transactions, trades] = await Promise.all([
+      storage.getTransactionsByJournalEntries(entryIds),
+      storage.getTradeTransactionsByJournalEntries(entryIds)
+    ]);
+
+    const offers = new Map<number, TradeOffer>();
+    for (const trade of trades) {
+      const offer = await storage.getTradeOffer(trade.tradeOfferId);
+      if (offer) offers.set(offer.id, offer);
+    }
+
+    const content = JSON.stringify(buildStatement({
+      userId,
+      username: user.username,
+      periodStart,
+      periodEnd,
+      opening,
+      closing,
+      records,
+      fees: entryFees(userId, transactions, trades, offers)
+    }));
+
+    const statement = await storage.createStatement({
+      userId,
+      periodStart,
+      periodEnd,
+      content,
+      checksum: createHash("sha256").update(content).digest("hex")
+    });
+
+    // Another run got there first - theirs is the statement of record
+    return statement ?? (await storage.getStatementForPeriod(userId, periodStart))!;
+  }
+
+  /**
+   * Generates last month's statement for every user who had a wallet by the end of it
+   */
+  async generateMonthlyStatements(now = new Date()): Promise<StatementRunResult> {
+    const { periodStart, periodEnd } = previousMonth(now);
+    const result: StatementRunResult = { generated: 0, failed: 0 };
+    const userIds = await storage.getUserIdsWithWallets(periodEnd);
+
+    for (const userId of userIds) {
+      try {
+        if (await storage.getStatementForPeriod(userId, periodStart)) continue;
+
+        await this.generateStatement(userId, periodStart, periodEnd);
+        result.generated++;
+      } catch (error) {
+        console.error(`Error generating statement for user ${userId}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (result.generated > 0 || result.failed > 0) {
+      log(`Generated statements for ${periodStart.toISOString().slice(0, 7)}: ${JSON.stringify(result)}`, "statements");
+    }
+
+    return result;
+  }
+
+  async getUserStatements(userId: number): Promise<Statement[]> {
+    return storage.getUserStatements(userId);
+  }
+
+  async renderStatement(userId: number, statementId: number, format: StatementFormat): Promise<{ filename: string; body: string | Buffer }> {
+    const statement = await storage.getStatement(statementId);
+    if (!statement || statement.userId !== userId) {
+      throw new ServiceError("Statement not found", 404, "STATEMENT_NOT_FOUND");
+    }
+
+    const content = parseStatementContent(statement);
+    const filename = `xpoints-statement-${content.periodStart.slice(0, 7)}.${format}`;
+
+    return {
+      filename,
+      body: format === "csv" ? renderStatementCsv(content) : renderStatementPdf(content, statement.checksum)
+    };
+  }
+}
+
+// Create a singleton instance
+export const statementService = new StatementService();
@@ -0,0 +1,366 @@
+import { storage } from "../storage";
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { log } from "../vite";
+import { conversionService } from "./conversionService";
+import type { TransactionTransition } from "./transactionLifecycleService";
+import { routingService } from "./routingService";
+import { roundPoints, subtractPoints } from "@shared/money";
+import type { CreateSweepScheduleData, SweepRun, SweepRunStatus, SweepSchedule } from "@shared/schema";
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export interface SweepRunResult {
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 1",
+  "@monthly": "0 0 1 * *"
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }
+];
+
+// Longest we look ahead for a matching time before calling the expression impossible
+const CRON_SEARCH_YEARS = 5;
+
+function invalidSchedule(message: string): ServiceError {
+  return new ServiceError(`Invalid schedule: ${message}`, 400, "INVALID_SCHEDULE");
+}
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalidSchedule(`bad step in ${name} field "${field}"`);
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      const [start, end] = range.split("-").map(Number);
+      from = start;
+      to = end ?? (stepText === undefined ? start : max);
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw invalidSchedule(`${name} field "${field}" must be between ${min} and ${max}`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month day-of-week) or one of
+ * @daily, @weekly and @monthly. Fields take *, numbers, ranges, lists and steps.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = (CRON_ALIASES[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw invalidSchedule("expected five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*"
+  };
+}
+
+// Like cron, a restricted day-of-month and day-of-week match when either does
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, to the minute, in UTC
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + CRON_SEARCH_YEARS);
+
+  while (next < limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw invalidSchedule("it never fires");
+}
+
+/**
+ * When to try a failed run again - doubling the delay each attempt, or giving up on this
+ * occurrence (null) once the attempts run out
+ */
+export function retryAt(attempt: number, now: Date, options = config.sweeps): Date | null {
+  if (attempt >= options.maxAttempts) {
+    return null;
+  }
+
+  return new Date(now.getTime() + options.retryDelayMinutes * 60 * 1000 * 2 ** (attempt - 1));
+}
+
+function sweepReference(schedule: SweepSchedule): string {
+  return `sweep:${schedule.id}`;
+}
+
+/**
+ * Recurring sweeps - on each scheduled run, everything in the source wallet above the
+ * schedule's keep balance is converted through the same pricing and posting as /api/convert
+ */
+export class SweepService {
+  async createSchedule(userId: number, data: CreateSweepScheduleData): Promise<SweepSchedule> {
+    const schedule = parseCronExpression(data.schedule);
+
+    // Only one minute per hour, so a sweep runs at most hourly
+    if (schedule.minutes.size > 1) {
+      throw invalidSchedule("sweeps can run at most once an hour");
+    }
+
+    if (data.fromProgram === data.toProgram) {
+      throw new ServiceError("Cannot convert between the same program", 400, "SAME_PROGRAM");
+    }
+
+    const [sourceWallet, destWallet] = await Promise.all([
+      storage.getWallet(userId, data.fromProgram),
+      storage.getWallet(userId, data.toProgram)
+    ]);
+    if (!sourceWallet) {
+      throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+    if (!destWallet) {
+      throw new ServiceError("Destination wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    // Any amount will do as long as it doesn't round away to nothing along the route
+    const routes = await routingService.findRoutes(storage, data.fromProgram, data.toProgram, 10000, 0);
+    if (routes.length === 0) {
+      throw new ServiceError("No conversion route found between these programs", 404, "RATE_NOT_FOUND");
+    }
+
+    return storage.createSweepSchedule({
+      userId,
+      fromProgram: data.fromProgram,
+      toProgram: data.toProgram,
+      schedule: data.schedule.trim(),
+      keepBalance: data.keepBalance,
+      nextRunAt: nextCronRun(schedule, new Date())
+    });
+  }
+
+  async getUserSchedules(userId: number): Promise<SweepSchedule[]> {
+    return storage.getUserSweepSchedules(userId);
+  }
+
+  async getRuns(userId: number, scheduleId: number): Promise<SweepRun[]> {
+    await this.getOwnSchedule(userId, scheduleId);
+    return storage.getSweepRuns(scheduleId);
+  }
+
+  async pauseSchedule(userId: number, scheduleId: number): Promise<SweepSchedule> {
+    const schedule = await this.getOwnSchedule(userId, scheduleId);
+    if (schedule.status === "paused") {
+      throw new ServiceError("Sweep is already paused", 409, "SWEEP_ALREADY_PAUSED");
+    }
+
+    return storage.updateSweepSchedule(schedule.id, { status: "paused", nextRunAt: null });
+  }
+
+  /**
+   * Resumes from the next scheduled time - runs missed while paused are not made up
+   */
+  async resumeSchedule(userId: number, scheduleId: number): Promise<SweepSchedule> {
+    const schedule = await this.getOwnSchedule(userId, scheduleId);
+    if (schedule.status === "active") {
+      throw new ServiceError("Sweep is not paused", 409, "SWEEP_NOT_PAUSED");
+    }
+
+    return storage.updateSweepSchedule(schedule.id, {
+      status: "active",
+      nextRunAt: nextCronRun(parseCronExpression(schedule.schedule), new Date()),
+      failureCount: 0
+    });
+  }
+
+  /**
+   * Runs every active sweep that is due, including retries of failed ones
+   */
+  async runDueSweeps(now = new Date()): Promise<SweepRunResult> {
+    const result: SweepRunResult = { succeeded: 0, skipped: 0, failed: 0 };
+    const due = await storage.getDueSweepSchedules(now);
+
+    for (const { id } of due) {
+      const outcome = await this.runSweep(id, now);
+      if (outcome) {
+        result[outcome]++;
+      }
+    }
+
+    if (due.length > 0) {
+      log(`Ran ${due.length} sweeps: ${JSON.stringify(result)}`, "sweeps");
+    }
+
+    return result;
+  }
+
+  private async runSweep(scheduleId: number, now: Date): Promise<SweepRunStatus | null> {
+    let attempt = 1;
+    let transition = null as TransactionTransition | null;
+    let outcome: SweepRunStatus | null;
+
+    try {
+      outcome = await storage.withTransaction(async (tx) => {
+        // Lock the schedule so overlapping runs can't sweep twice
+        const schedule = await tx.lockSweepSchedule(scheduleId);
+        if (!schedule || schedule.status !== "active" || !schedule.nextRunAt || schedule.nextRunAt > now) {
+          return null;
+        }
+        attempt = schedule.failureCount + 1;
+
+        const sourceWallet = await tx.getWallet(schedule.userId, schedule.fromProgram);
+        const amount = sourceWallet
+          ? roundPoints(subtractPoints(sourceWallet.balance, schedule.keepBalance), schedule.fromProgram, "down")
+          : 0;
+        const nextRunAt = nextCronRun(parseCronExpression(schedule.schedule), now);
+
+        if (amount <= 0) {
+          await tx.createSweepRun({ scheduleId: schedule.id, userId: schedule.userId, status: "skipped", attempt, amount: 0 });
+          await tx.updateSweepSchedule(schedule.id, { lastRunAt: now, nextRunAt, failureCount: 0, lastError: null });
+          return "skipped" as const;
+        }
+
+        // Price under the user lock, like batches and quotes, so the free allowance can't be spent twice
+        await tx.lockUser(schedule.userId);
+        const pricing = await conversionService.priceConversion(tx, schedule.userId, schedule.fromProgram, schedule.toProgram, amount);
+        const carried = await conversionService.carryOutConversion(tx, schedule.userId, pricing, sweepReference(schedule));
+        transition = carried.transition;
+
+        await tx.createSweepRun({
+          scheduleId: schedule.id,
+          userId: schedule.userId,
+          status: "succeeded",
+          attempt,
+          amount,
+          transactionId: carried.transaction.id
+        });
+        await tx.updateSweepSchedule(schedule.id, { lastRunAt: now, nextRunAt, failureCount: 0, lastError: null });
+
+        return "succeeded" as const;
+      });
+    } catch (error) {
+      console.error(`Error running sweep ${scheduleId}:`, error);
+      await this.recordFailure(scheduleId, attempt, error, now);
+      return "failed";
+    }
+
+    // Swept into a connected partner: the sweep has run, and a transfer that can't be
+    // submitted now stays pending for the partner transfer job
+    if (transition) {
+      try {
+        await conversionService.submitTransfer(transition);
+      } catch (error) {
+        console.error(`Error submitting transfer for sweep ${scheduleId}:`, error);
+      }
+    }
+
+    return outcome;
+  }
+
+  // Failures are kept on the run history and the schedule so the user can see them
+  private async recordFailure(scheduleId: number, attempt: number, error: unknown, now: Date) {
+    const message = error instanceof ServiceError ? error.message : "Unexpected error while converting";
+
+    try {
+      const schedule = await storage.getSweepSchedule(scheduleId);
+      if (!schedule) {
+        return;
+      }
+
+      await storage.createSweepRun({ scheduleId, userId: schedule.userId, status: "failed", attempt, error: message });
+
+      const retry = retryAt(attempt, now);
+      await storage.updateSweepSchedule(scheduleId, {
+        lastRunAt: now,
+        lastError: message,
+        failureCount: retry ? attempt : 0,
+        nextRunAt: retry ?? nextCronRun(parseCronExpression(schedule.schedule), now)
+      });
+    } catch (recordError) {
+      console.error(`Error recording failure for sweep ${scheduleId}:`, recordError);
+    }
+  }
+
+  private async getOwnSchedule(userId: number, scheduleId: number): Promise<SweepSchedule> {
+    const schedule = await storage.getSweepSchedule(scheduleId);
+    if (!schedule || schedule.userId !== userId) {
+      throw new ServiceError("Sweep not found", 404, "SWEEP_NOT_FOUND");
+    }
+
+    return schedule;
+  }
+}
+
+// Create a singleton instance
+export const sweepService = new SweepService();
@@ -0,0 +1,214 @@
+import { storage, type IStorage } from "../storage";
+import { monthlyUsage } from "./feePolicyService";
+import type { MembershipTier, TierBenefit, TierChangeReason, TierHistory, User } from "@shared/schema";
+
+export const TIER_ORDER: MembershipTier[] = ["STANDARD", "SILVER", "GOLD", "PLATINUM"];
+
+export interface TierReviewResult {
+  monthlyResets: number;
+  renewed: number;
+  demoted: number;
+}
+
+export interface TierStatus {
+  tier: MembershipTier;
+  tierExpiresAt: Date | null;
+  monthlyPoints: number;
+  nextTier: MembershipTier | null;
+  nextTierThreshold: number | null;
+  thresholds: Record<MembershipTier, number>;
+  history: TierHistory[];
+}
+
+function tierRank(tier: MembershipTier): number {
+  return TIER_ORDER.indexOf(tier);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Highest tier whose monthly threshold the given volume meets
+ */
+export function qualifyingTier(monthlyPoints: number, benefits: Pick<TierBenefit, "tier" | "monthlyPointsThreshold">[]): MembershipTier {
+  return benefits.reduce<MembershipTier>(
+    (best, b) => monthlyPoints >= b.monthlyPointsThreshold && tierRank(b.tier) > tierRank(best) ? b.tier : best,
+    "STANDARD"
+  );
+}
+
+/**
+ * Tier engine - tracks monthly conversion volume, promotes users who cross a tier's
+ * monthly threshold and demotes them once the tier's grace period (monthlyExpiryDays)
+ * runs out without them qualifying again. Every change is written to tier_history.
+ */
+export class TierService {
+  /**
+   * Counts a conversion towards the user's volume and promotes or renews their tier.
+   * Must run inside storage.withTransaction.
+   */
+  async recordConversion(tx: IStorage, userId: number, pointsConverted: number, fee: number): Promise<User> {
+    // Lock the user so concurrent conversions can't both promote them
+    const locked = await tx.lockUser(userId);
+    if (!locked) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const user = await tx.updateUserStats(userId, pointsConverted, fee);
+    const benefits = await tx.getAllTierBenefits();
+    const earned = qualifyingTier(user.monthlyPointsConverted, benefits);
+
+    if (tierRank(earned) > tierRank(user.membershipTier)) {
+      return this.changeTier(tx, user, earned, "qualified", benefits);
+    }
+
+    if (earned === user.membershipTier && earned !== "STANDARD") {
+      return this.renewTier(tx, user, benefits);
+    }
+
+    return user;
+  }
+
+  /**
+   * Sets a user's tier by hand, e.g. from the admin panel
+   */
+  async setTier(userId: number, tier: MembershipTier, reason: TierChangeReason = "admin"): Promise<User> {
+    return storage.withTransaction(async (tx) => {
+      const user = await tx.lockUser(userId);
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      if (user.membershipTier === tier) {
+        return user;
+      }
+
+      return this.changeTier(tx, user, tier, reason, await tx.getAllTierBenefits());
+    });
+  }
+
+  /**
+   * Starts a new month for users whose counter is from an earlier one, then renews or
+   * demotes every user whose tier has expired based on this month's volume
+   */
+  async reviewTiers(now = new Date()): Promise<TierReviewResult> {
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const result: TierReviewResult = {
+      monthlyResets: await storage.resetMonthlyPoints(startOfMonth),
+      renewed: 0,
+      demoted: 0
+    };
+
+    const expired = await storage.getUsersWithExpiredTier(now);
+
+    for (const { id } of expired) {
+      try {
+        const outcome = await storage.withTransaction(async (tx) => {
+          const user = await tx.lockUser(id);
+
+          // Skip users who were renewed or changed since we looked
+          if (!user || user.membershipTier === "STANDARD" || !user.tierExpiresAt || user.tierExpiresAt >= now) {
+            return null;
+          }
+
+          const benefits = await tx.getAllTierBenefits();
+          const earned = qualifyingTier(monthlyUsage(user, now), benefits);
+
+          if (tierRank(earned) > tierRank(user.membershipTier)) {
+            await this.changeTier(tx, user, earned, "qualified", benefits, now);
+            return "renewed" as const;
+          }
+
+          if (earned === user.membershipTier) {
+            await this.renewTier(tx, user, benefits, now);
+            return "renewed" as const;
+          }
+
+          await this.changeTier(tx, user, earned, "expired", benefits, now);
+          return "demoted" as const;
+        });
+
+        if (outcome) {
+          result[outcome]++;
+        }
+      } catch (error) {
+        console.error(`Error reviewing tier for user ${id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Current tier, progress to the next one and past tier changes
+   */
+  async getTierStatus(userId: number): Promise<TierStatus> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const benefits = await storage.getAllTierBenefits();
+    const thresholds = Object.fromEntries(
+      TIER_ORDER.map(tier => [tier, benefits.find(b => b.tier === tier)?.monthlyPointsThreshold ?? 0])
+    ) as Record<MembershipTier, number>;
+
+    const nextTier = TIER_ORDER[tierRank(user.membershipTier) + 1] ?? null;
+
+    return {
+      tier: user.membershipTier,
+      tierExpiresAt: user.tierExpiresAt,
+      monthlyPoints: monthlyUsage(user),
+      nextTier,
+      nextTierThreshold: nextTier ? thresholds[nextTier] : null,
+      thresholds,
+      history: await storage.getUserTierHistory(userId)
+    };
+  }
+
+  private async changeTier(
+    tx: IStorage,
+    user: User,
+    toTier: MembershipTier,
+    reason: TierChangeReason,
+    benefits: TierBenefit[],
+    now = new Date()
+  ): Promise<User> {
+    const expiresAt = this.expiryFor(toTier, benefits, now);
+    const updated = await tx.updateUserTier(user.id, toTier, expiresAt);
+
+    await tx.createTierHistory({
+      userId: user.id,
+      fromTier: user.membershipTier,
+      toTier,
+      reason,
+      monthlyPoints: monthlyUsage(user, now),
+      expiresAt: expiresAt ?? null
+    });
+
+    return updated;
+  }
+
+  // Qualifying again for the current tier pushes its expiry out, it never pulls it in
+  private async renewTier(tx: IStorage, user: User, benefits: TierBenefit[], now = new Date()): Promise<User> {
+    const expiresAt = this.expiryFor(user.membershipTier, benefits, now);
+    if (!expiresAt || (user.tierExpiresAt && user.tierExpiresAt >= expiresAt)) {
+      return user;
+    }
+
+    return tx.updateUserTier(user.id, user.membershipTier, expiresAt);
+  }
+
+  private expiryFor(tier: MembershipTier, benefits: TierBenefit[], now: Date): Date | undefined {
+    if (tier === "STANDARD") {
+      return undefined;
+    }
+
+    const days = benefits.find(b => b.tier === tier)?.monthlyExpiryDays ?? 30;
+    return addDays(now, days);
+  }
+}
+
+// Create a singleton instance
+export const tierService = new TierService();
@@ -0,0 +1,231 @@
+import { storage, type IStorage, type TradeDisputeRecord } from "../storage";
+import { config } from "../config";
+import { ServiceError } from "../errors";
+import { getOrCreateWallet, tradeRefundPostings } from "./ledgerService";
+import { notificationService } from "./notificationService";
+import { formatPoints, isValidPointsAmount, multiplyPoints } from "@shared/money";
+import type {
+  OpenTradeDisputeData,
+  RefundTradeDisputeData,
+  TradeDispute,
+  TradeDisputeStatus,
+  TradeOffer,
+  TradeTransaction
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TradeRefundAmounts {
+  amountSold: number;
+  amountBought: number;
+  sellerFee: number;
+  buyerFee: number;
+}
+
+/**
+ * What refunding `amount` of a trade's sold points hands back: the buyer's payment and
+ * both fees scale with it, and the fees round down so a refund never returns more than
+ * was charged. Leaving out the amount refunds the whole trade exactly.
+ */
+export function refundAmounts(
+  trade: Pick<TradeTransaction, "amountSold" | "amountBought" | "sellerFee" | "buyerFee">,
+  offer: Pick<TradeOffer, "fromProgram" | "toProgram">,
+  amount = trade.amountSold
+): TradeRefundAmounts {
+  if (!isValidPointsAmount(amount, offer.fromProgram)) {
+    throw new ServiceError("Amount has more decimal places than the program allows", 400, "INVALID_AMOUNT");
+  }
+
+  if (amount > trade.amountSold) {
+    throw new ServiceError(`Only ${formatPoints(trade.amountSold, offer.fromProgram)} points were traded`, 400, "REFUND_TOO_LARGE");
+  }
+
+  if (amount === trade.amountSold) {
+    return { amountSold: trade.amountSold, amountBought: trade.amountBought, sellerFee: trade.sellerFee, buyerFee: trade.buyerFee };
+  }
+
+  const share = amount / trade.amountSold;
+  return {
+    amountSold: amount,
+    amountBought: multiplyPoints(trade.amountBought, share, offer.toProgram),
+    sellerFee: multiplyPoints(trade.sellerFee, share, offer.toProgram, "down"),
+    buyerFee: multiplyPoints(trade.buyerFee, share, offer.toProgram, "down")
+  };
+}
+
+/**
+ * Disputes of completed P2P trades. Either party can dispute a trade for a while after it
+ * settles; the trade is marked disputed until an admin who wasn't part of it either
+ * rejects the dispute, putting the trade back to completed, or refunds all or part of it.
+ * A refund unwinds both sides of the settlement and the fees in one entry.
+ */
+export class TradeDisputeService {
+  async openDispute(userId: number, tradeId: number, data: OpenTradeDisputeData): Promise<TradeDispute> {
+    const { dispute, trade } = await storage.withTransaction(async (tx) => {
+      const trade = await tx.lockTradeTransaction(tradeId);
+      if (!trade) {
+        throw new ServiceError("Trade not found", 404, "TRADE_NOT_FOUND");
+      }
+
+      if (trade.sellerId !== userId && trade.buyerId !== userId) {
+        throw new ServiceError("You were not part of this trade", 403, "NOT_TRADE_PARTY");
+      }
+
+      if (trade.status !== "completed") {
+        throw new ServiceError(`This trade is already ${trade.status}`, 409, "TRADE_NOT_DISPUTABLE");
+      }
+
+      const windowDays = config.trades.disputeWindowDays;
+      if (Date.now() - new Date(trade.completedAt).getTime() > windowDays * DAY_MS) {
+        throw new ServiceError(`Trades can only be disputed within ${windowDays} days`, 400, "DISPUTE_WINDOW_CLOSED");
+      }
+
+      const dispute = await tx.createTradeDispute({
+        tradeTransactionId: trade.id,
+        openedBy: userId,
+        reason: data.reason,
+        evidence: data.evidence || null
+      });
+      if (!dispute) {
+        throw new ServiceError("This trade is already disputed", 409, "TRADE_NOT_DISPUTABLE");
+      }
+
+      return { dispute, trade: await tx.updateTradeTransactionStatus(trade.id, "disputed") };
+    });
+
+    await this.notifyParties(
+      trade,
+      "trade_disputed",
+      "Trade disputed",
+      `Trade #${trade.id} has been disputed and is waiting on review. We'll let you know the outcome.`
+    );
+
+    return dispute;
+  }
+
+  /**
+   * A trade's disputes, oldest first - only for the two parties to it
+   */
+  async getTradeDisputes(userId: number, tradeId: number): Promise<TradeDispute[]> {
+    const trades = await storage.getTradeHistory(userId);
+    if (!trades.some(trade => trade.id === tradeId)) {
+      throw new ServiceError("Trade not found", 404, "TRADE_NOT_FOUND");
+    }
+
+    return storage.getTradeDisputesForTrade(tradeId);
+  }
+
+  async getDisputes(status?: TradeDisputeStatus): Promise<TradeDisputeRecord[]> {
+    return storage.getTradeDisputes(status);
+  }
+
+  async refundDispute(disputeId: number, adminId: number, data: RefundTradeDisputeData): Promise<TradeDispute> {
+    const { resolved, trade, offer, amounts } = await storage.withTransaction(async (tx) => {
+      const { dispute, trade } = await this.lockOpenDispute(tx, disputeId, adminId);
+
+      const offer = await tx.getTradeOffer(trade.tradeOfferId);
+      if (!offer) {
+        throw new Error(`Trade offer ${trade.tradeOfferId} of trade ${trade.id} not found`);
+      }
+
+      const amounts = refundAmounts(trade, offer, data.amount);
+
+      const sellerReceivingWallet = await getOrCreateWallet(tx, trade.sellerId, offer.toProgram);
+      const buyerReceivingWallet = await getOrCreateWallet(tx, trade.buyerId, offer.fromProgram);
+
+      // Fails with INSUFFICIENT_BALANCE if either side has already spent what they got
+      const posted = await tx.postJournalEntry(
+        {
+          userId: dispute.openedBy,
+          type: "trade_refund",
+          reference: `trade_dispute:${dispute.id}`,
+          description: `Refund of trade ${trade.id}`
+        },
+        tradeRefundPostings({
+          fromProgram: offer.fromProgram,
+          toProgram: offer.toProgram,
+          ...amounts,
+          sellerWalletId: trade.sellerWalletId,
+          sellerReceivingWalletId: sellerReceivingWallet.id,
+          buyerReceivingWalletId: buyerReceivingWallet.id,
+          buyerPaymentWalletId: trade.buyerWalletId
+        })
+      );
+
+      const resolved = await tx.resolveTradeDispute(dispute.id, {
+        status: "refunded",
+        resolvedBy: adminId,
+        resolvedAt: new Date(),
+        resolutionNote: data.note ?? null,
+        refundAmount: amounts.amountSold,
+        refundEntryId: posted.entry.id
+      });
+
+      return { resolved, trade: await tx.updateTradeTransactionStatus(trade.id, "refunded"), offer, amounts };
+    });
+
+    const share = amounts.amountSold === trade.amountSold ? "in full" : "in part";
+    await this.notifyParties(
+      trade,
+      "trade_dispute_resolved",
+      "Trade refunded",
+      `Trade #${trade.id} was refunded ${share}: ${formatPoints(amounts.amountSold, offer.fromProgram)} ${offer.fromProgram} points went back to the seller and ${formatPoints(amounts.amountBought, offer.toProgram)} ${offer.toProgram} points to the buyer, with the fees refunded.`
+    );
+
+    return resolved;
+  }
+
+  async rejectDispute(disputeId: number, adminId: number, note: string | null = null): Promise<TradeDispute> {
+    const { resolved, trade } = await storage.withTransaction(async (tx) => {
+      const { dispute, trade } = await this.lockOpenDispute(tx, disputeId, adminId);
+
+      const resolved = await tx.resolveTradeDispute(dispute.id, {
+        status: "rejected",
+        resolvedBy: adminId,
+        resolvedAt: new Date(),
+        resolutionNote: note
+      });
+
+      return { resolved, trade: await tx.updateTradeTransactionStatus(trade.id, "completed") };
+    });
+
+    await this.notifyParties(
+      trade,
+      "trade_dispute_resolved",
+      "Trade dispute rejected",
+      `The dispute of trade #${trade.id} was reviewed and the trade stands.${note ? ` ${note}` : ""}`
+    );
+
+    return resolved;
+  }
+
+  private async lockOpenDispute(tx: IStorage, disputeId: number, adminId: number) {
+    const dispute = await tx.lockTradeDispute(disputeId);
+    if (!dispute) {
+      throw new ServiceError("Dispute not found", 404, "TRADE_DISPUTE_NOT_FOUND");
+    }
+
+    if (dispute.status !== "open") {
+      throw new ServiceError("Dispute has already been resolved", 409, "TRADE_DISPUTE_NOT_OPEN");
+    }
+
+    const trade = await tx.lockTradeTransaction(dispute.tradeTransactionId);
+    if (!trade) {
+      throw new Error(`Trade ${dispute.tradeTransactionId} of dispute ${dispute.id} not found`);
+    }
+
+    if (trade.sellerId === adminId || trade.buyerId === adminId) {
+      throw new ServiceError("Another admin has to resolve disputes of your own trades", 403, "TRADE_DISPUTE_OWN_TRADE");
+    }
+
+    return { dispute, trade };
+  }
+
+  private async notifyParties(trade: TradeTransaction, type: string, title: string, message: string) {
+    await notificationService.notify(trade.sellerId, type, title, message);
+    await notificationService.notify(trade.buyerId, type, title, message);
+  }
+}
+
+// Create a singleton instance
+export const tradeDisputeService = new TradeDisputeService();
@@ -0,0 +1,773 @@
+import { storage, type IStorage } from "../storage";
+import { config } from "../config";
+import { ServiceError, InsufficientBalanceError } from "../errors";
+import {
+  escrowHoldPostings,
+  escrowReleasePostings,
+  getOrCreateWallet,
+  matchedTradeSettlementPostings,
+  tradeSettlementPostings
+} from "./ledgerService";
+import { escrowService } from "./escrowService";
+import { feePolicyService, formatFeeRate, type FeeBreakdown } from "./feePolicyService";
+import { notificationService } from "./notificationService";
+import { addPoints, formatPoints, isValidPointsAmount, multiplyPoints, PROGRAM_PRECISION, subtractPoints } from "@shared/money";
+import type {
+  AcceptTradeOfferData,
+  CreateTradeOfferData,
+  ExtendTradeOfferData,
+  LoyaltyProgram,
+  TradeOffer,
+  TradePairQuery,
+  TradeTransaction
+} from "@shared/schema";
+
+// Fills listed per program pair
+const FILLS_LIMIT = 50;
+
+const EXPIRY_BATCH_SIZE = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Slack for float noise when two offers' rates multiply out to exactly 1
+const RATE_EPSILON = 1e-9;
+
+type TradeFeeBreakdown = FeeBreakdown & { sellerFee: number; buyerFee: number };
+
+export interface TradeFill {
+  offer: TradeOffer; // After the fill
+  transaction: TradeTransaction;
+  feeBreakdown: TradeFeeBreakdown;
+}
+
+export interface TradeOfferView extends TradeOffer {
+  expiringSoon: boolean; // Open and within config.trades.expiringSoonHours of expiring - can still be extended
+}
+
+// A fill between two crossing offers, with both offers after it
+export interface TradeMatch {
+  taker: TradeOffer;
+  maker: TradeOffer;
+  transaction: TradeTransaction;
+}
+
+export interface OrderBookLevel {
+  rate: number; // toProgram points per fromProgram point
+  amount: number; // fromProgram points on offer or wanted at this rate
+  offers: number;
+}
+
+export interface OrderBook {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  asks: OrderBookLevel[]; // Offers selling fromProgram, cheapest first
+  bids: OrderBookLevel[]; // Offers paying fromProgram for toProgram, best price first
+}
+
+// A fill on a program pair as anyone may see it - no users or wallets
+export interface PairFill {
+  id: number;
+  amount: number; // fromProgram points that changed hands
+  total: number; // toProgram points paid for them
+  rate: number;
+  matched: boolean; // Crossed by the matching engine rather than accepted by hand
+  filledAt: Date;
+}
+
+/**
+ * What a buyer pays in the requested program for `amount` more of an offer's points.
+ * Each fill pays the difference between the cumulative price after it and before it, so
+ * the fills of an offer always add up to exactly its amountRequested whatever the rounding.
+ */
+export function fillPrice(offer: Pick<TradeOffer, "amountOffered" | "amountRequested" | "amountRemaining" | "customRate" | "toProgram">, amount: number): number {
+  const filledBefore = subtractPoints(offer.amountOffered, offer.amountRemaining);
+  const filledAfter = addPoints(filledBefore, amount);
+
+  const paidBefore = multiplyPoints(filledBefore, offer.customRate, offer.toProgram);
+  const paidAfter = filledAfter === offer.amountOffered
+    ? offer.amountRequested
+    : multiplyPoints(filledAfter, offer.customRate, offer.toProgram);
+
+  return subtractPoints(paidAfter, paidBefore);
+}
+
+/**
+ * The most of an offer's remaining points `budget` pays for, searched in steps of the
+ * program's smallest unit since fillPrice rounds each fill on its own
+ */
+export function affordableFill(offer: Pick<TradeOffer, "amountOffered" | "amountRequested" | "amountRemaining" | "customRate" | "fromProgram" | "toProgram">, budget: number): number {
+  const scale = 10 ** PROGRAM_PRECISION[offer.fromProgram];
+  let low = 0;
+  let high = Math.round(offer.amountRemaining * scale);
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fillPrice(offer, mid / scale) <= budget) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low / scale;
+}
+
+/**
+ * Whether a resting offer (the maker) sells at a price a new offer on the other side of
+ * the pair (the taker) accepts. Each asks for its customRate of the other's program per
+ * point it gives, so they cross when the two rates multiply out to 1 or less.
+ */
+export function offersCross(taker: Pick<TradeOffer, "customRate">, maker: Pick<TradeOffer, "customRate">): boolean {
+  return Number(taker.customRate) * Number(maker.customRate) <= 1 + RATE_EPSILON;
+}
+
+/**
+ * Open and not yet past its expiry
+ */
+function isLive(offer: Pick<TradeOffer, "status" | "expiresAt">, now = new Date()): boolean {
+  return offer.status === "open" && now <= new Date(offer.expiresAt);
+}
+
+/**
+ * Whether `offer` was posted before `other`, by id when they were posted at the same time
+ */
+function postedBefore(offer: Pick<TradeOffer, "id" | "createdAt">, other: Pick<TradeOffer, "id" | "createdAt">): boolean {
+  const difference = new Date(offer.createdAt).getTime() - new Date(other.createdAt).getTime();
+  return difference < 0 || (difference === 0 && offer.id < other.id);
+}
+
+/**
+ * The resting offers a taker may fill against, in the order it takes them: those it
+ * crosses, not its own, up to as many as would use up its remaining escrow
+ */
+function matchCandidates(taker: TradeOffer, book: TradeOffer[]): TradeOffer[] {
+  const candidates: TradeOffer[] = [];
+  let covered = 0;
+
+  for (const offer of book) {
+    if (covered >= taker.amountRemaining || !offersCross(taker, offer)) {
+      break;
+    }
+    if (offer.createdBy === taker.createdBy) {
+      continue;
+    }
+
+    candidates.push(offer);
+    covered = addPoints(covered, fillPrice(offer, offer.amountRemaining));
+  }
+
+  return candidates;
+}
+
+/**
+ * A fill meets an offer's minimum size, or takes everything that is left of it
+ */
+function meetsMinimumFill(offer: TradeOffer, amount: number): boolean {
+  return offer.minFillAmount === null || amount >= offer.minFillAmount || amount === offer.amountRemaining;
+}
+
+/**
+ * Groups offers that are already in price order into one level per rate
+ */
+function depthLevels(offers: { rate: number; amount: number }[]): OrderBookLevel[] {
+  const levels: OrderBookLevel[] = [];
+
+  for (const { rate, amount } of offers) {
+    const levelRate = Number(rate.toPrecision(6));
+    const last = levels[levels.length - 1];
+
+    if (last && last.rate === levelRate) {
+      last.amount = addPoints(last.amount, amount);
+      last.offers++;
+    } else {
+      levels.push({ rate: levelRate, amount, offers: 1 });
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * P2P trade offers. Creating an offer moves the offered points into an escrow hold; buyers then
+ * take all or part of what is left at the offer's rate, each fill settling on its own.
+ * The offer completes once nothing is left, and cancelling or expiring it hands the
+ * unfilled remainder back to the seller.
+ *
+ * A new offer that crosses offers already on the book is matched against them straight
+ * away, best price first and oldest first at the same price. If that fails the offer
+ * stays on the book and a background job matches it later.
+ */
+export class TradeService {
+  async createOffer(userId: number, data: CreateTradeOfferData): Promise<TradeOffer> {
+    if (data.fromProgram === data.toProgram) {
+      throw new ServiceError("Cannot trade between the same program", 400, "SAME_PROGRAM");
+    }
+
+    // Get source wallet to check balance
+    const sourceWallet = await storage.getWallet(userId, data.fromProgram);
+    if (!sourceWallet) {
+      throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    if (sourceWallet.balance < data.amountOffered) {
+      throw new InsufficientBalanceError();
+    }
+
+    // Get market rate for comparison
+    const marketRate = await storage.getExchangeRate(data.fromProgram, data.toProgram);
+    if (!marketRate) {
+      throw new ServiceError("Market rate not found", 404, "RATE_NOT_FOUND");
+    }
+
+    // Calculate custom rate and savings
+    const customRate = data.amountRequested / data.amountOffered;
+    const marketRateValue = Number(marketRate.rate);
+    const savings = ((marketRateValue - customRate) / marketRateValue) * 100;
+
+    // Set expiration date
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + data.expiresIn);
+
+    // Create the offer and move the offered points into escrow atomically
+    const offer = await storage.withTransaction(async (tx) => {
+      const offer = await tx.createTradeOffer({
+        createdBy: userId,
+        fromProgram: data.fromProgram,
+        toProgram: data.toProgram,
+        amountOffered: data.amountOffered,
+        amountRequested: data.amountRequested,
+        minFillAmount: data.minFillAmount ?? null,
+        customRate: customRate.toString(),
+        marketRate: marketRate.rate,
+        savings: savings.toString(),
+        expiresAt,
+        description: data.description || null
+      });
+
+      const posted = await tx.postJournalEntry(
+        { userId, type: "trade_escrow", reference: `trade_offer:${offer.id}`, description: "Trade offer funds locked" },
+        escrowHoldPostings(sourceWallet.id, data.fromProgram, data.amountOffered)
+      );
+      await escrowService.hold(tx, offer, sourceWallet.id, posted.entry.id);
+
+      return offer;
+    });
+
+    // The offer stands on the book whatever happens here, so a failed match doesn't fail creating it -
+    // rematchOffers picks it up on its next run
+    try {
+      const matches = await this.matchOffer(offer.id);
+      if (matches.length > 0) {
+        return matches[matches.length - 1].taker;
+      }
+    } catch (error) {
+      console.error(`Error matching trade offer ${offer.id}:`, error);
+    }
+
+    return offer;
+  }
+
+  /**
+   * Fills an open offer (the taker) from the offers on the other side of its pair that it
+   * crosses. Each fill trades at the resting offer's rate and the taker pays out of its own
+   * escrow, so both sides settle in one entry. Stops at the first offer that doesn't cross.
+   */
+  async matchOffer(offerId: number): Promise<TradeMatch[]> {
+    const matches = await storage.withTransaction(async (tx) => {
+      const listed = await tx.getTradeOffer(offerId);
+      if (!listed || !isLive(listed)) {
+        return [];
+      }
+      const candidates = matchCandidates(listed, await tx.getOpenTradeOffersForPair(listed.toProgram, listed.fromProgram, new Date()));
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      // Lock the taker and every resting offer it may fill in id order, so two crossing
+      // offers matched at the same time wait on each other rather than deadlock
+      const locked = new Map<number, TradeOffer>();
+      for (const id of [listed.id, ...candidates.map(candidate => candidate.id)].sort((a, b) => a - b)) {
+        const offer = await tx.lockTradeOffer(id);
+        if (offer) locked.set(id, offer);
+      }
+
+      let taker = locked.get(listed.id);
+      if (!taker || !isLive(taker)) {
+        return [];
+      }
+
+      const found: TradeMatch[] = [];
+      for (const candidate of candidates) {
+        if (taker.status !== "open") {
+          break;
+        }
+
+        // Check the resting offer again under its lock - it may have been filled or cancelled since
+        const maker = locked.get(candidate.id);
+        if (!maker || !isLive(maker)) {
+          continue;
+        }
+
+        const match = await this.settleMatch(tx, taker, maker);
+        if (match) {
+          found.push(match);
+          taker = match.taker;
+        }
+      }
+
+      return found;
+    });
+
+    for (const match of matches) {
+      await this.notifyMatched(match);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Background job: matches offers still crossing others on the book, which happens when
+   * matching a new offer failed. Each runs as the taker against the older offers it crosses,
+   * as it would have when it was posted, oldest first.
+   */
+  async rematchOffers(now = new Date()): Promise<number> {
+    const open = (await storage.getTradeOffers()).filter(offer => isLive(offer, now));
+    let matched = 0;
+
+    const takers = open
+      .filter(offer => open.some(resting =>
+        resting.fromProgram === offer.toProgram &&
+        resting.toProgram === offer.fromProgram &&
+        resting.createdBy !== offer.createdBy &&
+        postedBefore(resting, offer) &&
+        offersCross(offer, resting)
+      ))
+      .sort((a, b) => postedBefore(a, b) ? -1 : 1);
+
+    for (const taker of takers) {
+      try {
+        matched += (await this.matchOffer(taker.id)).length;
+      } catch (error) {
+        console.error(`Error rematching trade offer ${taker.id}:`, error);
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * Depth of the open offers on a program pair, both sides quoted in toProgram points per
+   * fromProgram point
+   */
+  async getOrderBook({ fromProgram, toProgram }: TradePairQuery): Promise<OrderBook> {
+    const now = new Date();
+    const [selling, buying] = await Promise.all([
+      storage.getOpenTradeOffersForPair(fromProgram, toProgram, now),
+      storage.getOpenTradeOffersForPair(toProgram, fromProgram, now)
+    ]);
+
+    return {
+      fromProgram,
+      toProgram,
+      asks: depthLevels(selling.map(offer => ({ rate: Number(offer.customRate), amount: offer.amountRemaining }))),
+      // Offers on the other side sell toProgram, so they bid for what their remainder would buy
+      bids: depthLevels(buying.map(offer => ({
+        rate: 1 / Number(offer.customRate),
+        amount: multiplyPoints(offer.amountRemaining, offer.customRate, fromProgram, "down")
+      })))
+    };
+  }
+
+  async getRecentFills({ fromProgram, toProgram }: TradePairQuery): Promise<PairFill[]> {
+    const records = await storage.getTradeFillsForPair(fromProgram, toProgram, FILLS_LIMIT);
+
+    return records.map(({ transaction, offer }) => {
+      // Fills of offers selling toProgram went the other way round
+      const [amount, total] = offer.fromProgram === fromProgram
+        ? [transaction.amountSold, transaction.amountBought]
+        : [transaction.amountBought, transaction.amountSold];
+
+      return {
+        id: transaction.id,
+        amount,
+        total,
+        rate: Number((total / amount).toPrecision(6)),
+        matched: transaction.takerOfferId !== null,
+        filledAt: transaction.completedAt
+      };
+    });
+  }
+
+  async getUserOffers(userId: number, now = new Date()): Promise<TradeOfferView[]> {
+    const offers = await storage.getUserTradeOffers(userId);
+    const soon = new Date(now.getTime() + config.trades.expiringSoonHours * HOUR_MS);
+
+    return offers.map(offer => ({
+      ...offer,
+      expiringSoon: offer.status === "open" && offer.expiresAt > now && offer.expiresAt <= soon
+    }));
+  }
+
+  /**
+   * Pushes back the expiry of an open offer that hasn't expired yet. Once it has, the
+   * sweeper releases its escrow and the owner has to post a new offer instead.
+   */
+  async extendOffer(userId: number, offerId: number, data: ExtendTradeOfferData): Promise<TradeOffer> {
+    return storage.withTransaction(async (tx) => {
+      // Lock the offer so the sweeper cannot expire it while we extend it
+      const offer = await tx.lockTradeOffer(offerId);
+
+      if (!offer) {
+        throw new ServiceError("Trade offer not found", 404, "TRADE_OFFER_NOT_FOUND");
+      }
+
+      if (offer.createdBy !== userId) {
+        throw new ServiceError("You can only extend your own trade offers", 403, "FORBIDDEN");
+      }
+
+      if (offer.status !== "open") {
+        throw new ServiceError("Can only extend open trade offers", 400, "TRADE_OFFER_NOT_OPEN");
+      }
+
+      const now = new Date();
+      if (now > new Date(offer.expiresAt)) {
+        throw new ServiceError("This trade offer has expired", 400, "TRADE_OFFER_EXPIRED");
+      }
+
+      const expiresAt = new Date(offer.expiresAt);
+      expiresAt.setDate(expiresAt.getDate() + data.days);
+
+      const latest = new Date(now);
+      latest.setDate(latest.getDate() + config.trades.maxExpiryDays);
+      if (expiresAt > latest) {
+        throw new ServiceError(`Offers can't be extended more than ${config.trades.maxExpiryDays} days ahead`, 400, "EXTENSION_TOO_LONG");
+      }
+
+      return tx.updateTradeOffer(offer.id, { expiresAt });
+    });
+  }
+
+  /**
+   * Background job: expires open offers past their expiry and hands the unfilled
+   * remainder back to each seller
+   */
+  async expireOffers(now = new Date()): Promise<number> {
+    let expired = 0;
+
+    for (const due of await storage.getExpiredOpenTradeOffers(now, EXPIRY_BATCH_SIZE)) {
+      try {
+        const offer = await storage.withTransaction(async (tx) => {
+          // It may have been filled, cancelled or extended since we listed it
+          const offer = await tx.lockTradeOffer(due.id);
+          if (!offer || offer.status !== "open" || offer.expiresAt >= now) {
+            return null;
+          }
+
+          return this.releaseRemainder(tx, offer, "expired", "Trade offer expired");
+        });
+        if (!offer) continue;
+
+        expired++;
+        await this.notifyExpired(offer);
+      } catch (error) {
+        console.error(`Error expiring trade offer ${due.id}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  async cancelOffer(userId: number, offerId: number): Promise<TradeOffer> {
+    return storage.withTransaction(async (tx) => {
+      // Lock the offer so it cannot be filled while we cancel it
+      const offer = await tx.lockTradeOffer(offerId);
+
+      if (!offer) {
+        throw new ServiceError("Trade offer not found", 404, "TRADE_OFFER_NOT_FOUND");
+      }
+
+      if (offer.createdBy !== userId) {
+        throw new ServiceError("You can only cancel your own trade offers", 403, "FORBIDDEN");
+      }
+
+      if (offer.status !== "open") {
+        throw new ServiceError("Can only cancel open trade offers", 400, "TRADE_OFFER_NOT_OPEN");
+      }
+
+      return this.releaseRemainder(tx, offer, "cancelled", "Trade offer cancelled");
+    });
+  }
+
+  /**
+   * Buys `data.amount` of an offer's remaining points, or all of them if no amount is given
+   */
+  async fillOffer(buyerId: number, offerId: number, data: AcceptTradeOfferData): Promise<TradeFill> {
+    let expired: TradeOffer | undefined;
+
+    const fill = await storage.withTransaction(async (tx) => {
+      // Lock the offer so two buyers cannot take the same points
+      const offer = await tx.lockTradeOffer(offerId);
+
+      if (!offer) {
+        throw new ServiceError("Trade offer not found", 404, "TRADE_OFFER_NOT_FOUND");
+      }
+
+      // Check if the offer is still open
+      if (offer.status !== "open") {
+        throw new ServiceError("This trade offer is no longer available", 400, "TRADE_OFFER_NOT_OPEN");
+      }
+
+      // An offer found past its expiry is closed out here, so the release outlives the error below
+      if (new Date() > new Date(offer.expiresAt)) {
+        expired = await this.releaseRemainder(tx, offer, "expired", "Trade offer expired");
+        return null;
+      }
+
+      // Check if user is trying to accept their own offer
+      if (offer.createdBy === buyerId) {
+        throw new ServiceError("Cannot accept your own trade offer", 400, "OWN_TRADE_OFFER");
+      }
+
+      const amount = data.amount ?? offer.amountRemaining;
+      this.checkFillAmount(offer, amount);
+      const price = fillPrice(offer, amount);
+
+      // Get buyer's wallet for the requested program
+      const buyerWallet = await tx.getWallet(buyerId, offer.toProgram);
+      if (!buyerWallet) {
+        throw new ServiceError("Buyer wallet not found", 404, "WALLET_NOT_FOUND");
+      }
+
+      if (buyerWallet.balance < price) {
+        throw new InsufficientBalanceError();
+      }
+
+      // Wallets that receive points: buyer gets the offered program, seller the requested one
+      const buyerReceivingWallet = await getOrCreateWallet(tx, buyerId, offer.fromProgram);
+      const sellerReceivingWallet = await getOrCreateWallet(tx, offer.createdBy, offer.toProgram);
+      const sellerWallet = await getOrCreateWallet(tx, offer.createdBy, offer.fromProgram);
+
+      const feeBreakdown = await this.tradeFee(tx, offer, price);
+      const { sellerFee, buyerFee } = feeBreakdown;
+
+      // Settle this fill out of escrow and the buyer's wallet
+      const posted = await tx.postJournalEntry(
+        { userId: buyerId, type: "trade_settlement", reference: `trade_offer:${offer.id}`, description: "Trade offer filled" },
+        tradeSettlementPostings({
+          fromProgram: offer.fromProgram,
+          toProgram: offer.toProgram,
+          amountOffered: amount,
+          amountRequested: price,
+          buyerPaymentWalletId: buyerWallet.id,
+          buyerReceivingWalletId: buyerReceivingWallet.id,
+          sellerReceivingWalletId: sellerReceivingWallet.id,
+          sellerFee,
+          buyerFee
+        })
+      );
+
+      const transaction = await tx.createTradeTransaction({
+        tradeOfferId: offer.id,
+        sellerId: offer.createdBy,
+        buyerId,
+        sellerWalletId: sellerWallet.id,
+        buyerWalletId: buyerWallet.id,
+        amountSold: amount,
+        amountBought: price,
+        rate: offer.customRate,
+        sellerFee,
+        buyerFee,
+        status: "completed",
+        journalEntryId: posted.entry.id
+      });
+      await escrowService.transfer(tx, offer.id, amount, posted.entry.id, transaction.id);
+
+      const amountRemaining = subtractPoints(offer.amountRemaining, amount);
+      const updated = await tx.updateTradeOffer(offer.id, {
+        amountRemaining,
+        fillCount: offer.fillCount + 1,
+        status: amountRemaining === 0 ? "completed" : "open"
+      });
+
+      return { offer: updated, transaction, feeBreakdown };
+    });
+
+    if (!fill) {
+      if (expired) {
+        await this.notifyExpired(expired);
+      }
+      throw new ServiceError("This trade offer has expired", 400, "TRADE_OFFER_EXPIRED");
+    }
+
+    return fill;
+  }
+
+  /**
+   * A fill has to be a valid amount of the offered program, no more than is left, and at
+   * least the offer's minimum - unless it takes everything that is left
+   */
+  private checkFillAmount(offer: TradeOffer, amount: number) {
+    if (!isValidPointsAmount(amount, offer.fromProgram)) {
+      throw new ServiceError("Amount has more decimal places than the program allows", 400, "INVALID_AMOUNT");
+    }
+
+    if (amount > offer.amountRemaining) {
+      throw new ServiceError(`Only ${formatPoints(offer.amountRemaining, offer.fromProgram)} points of this offer are left`, 400, "FILL_TOO_LARGE");
+    }
+
+    if (offer.minFillAmount !== null && amount < offer.minFillAmount && amount !== offer.amountRemaining) {
+      throw new ServiceError(`This offer can only be filled ${formatPoints(offer.minFillAmount, offer.fromProgram)} points at a time or more`, 400, "FILL_TOO_SMALL");
+    }
+
+    if (fillPrice(offer, amount) <= 0) {
+      throw new ServiceError("Amount is too small to pay for at this offer's rate", 400, "FILL_TOO_SMALL");
+    }
+  }
+
+  /**
+   * Seller fee for a fill of an offer: a share of its savings against the market rate,
+   * capped by the seller's tier
+   */
+  private async tradeFee(tx: IStorage, offer: TradeOffer, price: number): Promise<TradeFeeBreakdown> {
+    const marketRateValue = Number(offer.marketRate);
+    const customRateValue = Number(offer.customRate);
+    const savingsPercent = ((marketRateValue - customRateValue) / marketRateValue) * 100;
+
+    const feeBreakdown = await feePolicyService.tradeFee(tx, offer.createdBy, offer.toProgram, price, savingsPercent);
+
+    console.log(`Trade fees - Savings: ${savingsPercent.toFixed(2)}%, Fee rate: ${formatFeeRate(feeBreakdown.effectiveRate)}, Seller fee: ${feeBreakdown.sellerFee}`);
+
+    return feeBreakdown;
+  }
+
+  /**
+   * Settles as much of a resting offer as the taker's remaining escrow pays for at the
+   * resting offer's price, or nothing if that fill is too small for either offer
+   */
+  private async settleMatch(tx: IStorage, taker: TradeOffer, maker: TradeOffer): Promise<TradeMatch | null> {
+    const amount = affordableFill(maker, taker.amountRemaining);
+    const price = amount > 0 ? fillPrice(maker, amount) : 0;
+    if (price <= 0 || !meetsMinimumFill(maker, amount)) {
+      return null;
+    }
+
+    // The maker is the seller and pays the trade fees, exactly as if the taker had accepted by hand
+    const { sellerFee, buyerFee } = await this.tradeFee(tx, maker, price);
+
+    const spent = addPoints(price, buyerFee);
+    if (spent > taker.amountRemaining || !meetsMinimumFill(taker, spent)) {
+      return null;
+    }
+
+    // Rounding the price must never leave the taker with less than its own rate
+    if (amount < multiplyPoints(spent, taker.customRate, taker.toProgram, "down")) {
+      return null;
+    }
+
+    const takerReceivingWallet = await getOrCreateWallet(tx, taker.createdBy, maker.fromProgram);
+    const takerWallet = await getOrCreateWallet(tx, taker.createdBy, maker.toProgram);
+    const makerReceivingWallet = await getOrCreateWallet(tx, maker.createdBy, maker.toProgram);
+    const makerWallet = await getOrCreateWallet(tx, maker.createdBy, maker.fromProgram);
+
+    const posted = await tx.postJournalEntry(
+      { userId: taker.createdBy, type: "trade_settlement", reference: `trade_offer:${maker.id}`, description: "Trade offers matched" },
+      matchedTradeSettlementPostings({
+        fromProgram: maker.fromProgram,
+        toProgram: maker.toProgram,
+        amountOffered: amount,
+        amountRequested: price,
+        buyerReceivingWalletId: takerReceivingWallet.id,
+        sellerReceivingWalletId: makerReceivingWallet.id,
+        sellerFee,
+        buyerFee
+      })
+    );
+
+    const transaction = await tx.createTradeTransaction({
+      tradeOfferId: maker.id,
+      takerOfferId: taker.id,
+      sellerId: maker.createdBy,
+      buyerId: taker.createdBy,
+      sellerWalletId: makerWallet.id,
+      buyerWalletId: takerWallet.id,
+      amountSold: amount,
+      amountBought: price,
+      rate: maker.customRate,
+      sellerFee,
+      buyerFee,
+      status: "completed",
+      journalEntryId: posted.entry.id
+    });
+    await escrowService.transfer(tx, maker.id, amount, posted.entry.id, transaction.id);
+    await escrowService.transfer(tx, taker.id, spent, posted.entry.id, transaction.id);
+
+    const makerRemaining = subtractPoints(maker.amountRemaining, amount);
+    const takerRemaining = subtractPoints(taker.amountRemaining, spent);
+
+    return {
+      maker: await tx.updateTradeOffer(maker.id, {
+        amountRemaining: makerRemaining,
+        fillCount: maker.fillCount + 1,
+        status: makerRemaining === 0 ? "completed" : "open"
+      }),
+      taker: await tx.updateTradeOffer(taker.id, {
+        amountRemaining: takerRemaining,
+        fillCount: taker.fillCount + 1,
+        status: takerRemaining === 0 ? "completed" : "open"
+      }),
+      transaction
+    };
+  }
+
+  private async notifyMatched({ maker, transaction }: TradeMatch) {
+    const sold = `${formatPoints(transaction.amountSold, maker.fromProgram)} ${maker.fromProgram}`;
+    const bought = `${formatPoints(transaction.amountBought, maker.toProgram)} ${maker.toProgram}`;
+
+    await notificationService.notify(
+      transaction.sellerId,
+      "trade_matched",
+      "Trade offer matched",
+      `Your offer sold ${sold} points for ${bought} points.`
+    );
+    await notificationService.notify(
+      transaction.buyerId,
+      "trade_matched",
+      "Trade offer matched",
+      `Your offer bought ${sold} points for ${bought} points.`
+    );
+  }
+
+  private async notifyExpired(offer: TradeOffer) {
+    const released = offer.amountRemaining > 0
+      ? ` The ${formatPoints(offer.amountRemaining, offer.fromProgram)} ${offer.fromProgram} points nobody bought are back in your wallet.`
+      : "";
+
+    await notificationService.notify(
+      offer.createdBy,
+      "trade_expired",
+      "Trade offer expired",
+      `Your offer to trade ${offer.fromProgram} for ${offer.toProgram} points has expired.${released}`
+    );
+  }
+
+  /**
+   * Closes an offer and its escrow hold, returning whatever hasn't been bought to the seller's wallet
+   */
+  private async releaseRemainder(tx: IStorage, offer: TradeOffer, status: "cancelled" | "expired", description: string): Promise<TradeOffer> {
+    let entryId: number | null = null;
+    if (offer.amountRemaining > 0) {
+      const wallet = await getOrCreateWallet(tx, offer.createdBy, offer.fromProgram);
+      const posted = await tx.postJournalEntry(
+        { userId: offer.createdBy, type: "trade_release", reference: `trade_offer:${offer.id}`, description },
+        escrowReleasePostings(wallet.id, offer.fromProgram, offer.amountRemaining)
+      );
+      entryId = posted.entry.id;
+    }
+    await escrowService.release(tx, offer.id, offer.amountRemaining, entryId);
+
+    return tx.updateTradeOffer(offer.id, { status });
+  }
+}
+
+// Create a singleton instance
+export const tradeService = new TradeService();
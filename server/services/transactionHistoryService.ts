@@ -0,0 +1,140 @@
+import { storage, type TransactionCursor } from "../storage";
+import { ServiceError } from "../errors";
+import { csvLine } from "../csv";
+import { toDecimalString } from "@shared/money";
+import type { Transaction, TransactionQuery, TransactionSort } from "@shared/schema";
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null; // Null on the last page
+}
+
+export type TransactionExportFormat = "csv" | "jsonl";
+
+// Rows read per query while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+export const TRANSACTION_CSV_COLUMNS = [
+  "id", "timestamp", "type", "status", "fromProgram", "amountFrom", "toProgram", "amountTo", "feeApplied", "transactionHash",
+  "statusUpdatedAt", "failureReason", "reversalOf"
+] as const;
+
+function sortsByAmount(sort: TransactionSort): boolean {
+  return sort === "largest" || sort === "smallest";
+}
+
+function positionOf(sort: TransactionSort, transaction: Transaction): TransactionCursor {
+  return sortsByAmount(sort) ? { id: transaction.id, amountFrom: transaction.amountFrom } : { id: transaction.id };
+}
+
+/**
+ * Opaque cursor for the row after `transaction` - tied to the sort it was issued for
+ */
+export function encodeCursor(sort: TransactionSort, transaction: Transaction): string {
+  const { id, amountFrom } = positionOf(sort, transaction);
+  const position = amountFrom === undefined ? [sort, id] : [sort, id, amountFrom];
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+export function decodeCursor(sort: TransactionSort, cursor: string): TransactionCursor {
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    position = null;
+  }
+
+  if (
+    !Array.isArray(position) ||
+    position[0] !== sort ||
+    !Number.isInteger(position[1]) ||
+    (sortsByAmount(sort) && typeof position[2] !== "number")
+  ) {
+    throw new ServiceError("Invalid cursor for this sort order", 400, "INVALID_CURSOR");
+  }
+
+  return sortsByAmount(sort) ? { id: position[1], amountFrom: position[2] } : { id: position[1] };
+}
+
+export function toCsvRow(transaction: Transaction): string {
+  return csvLine([
+    transaction.id,
+    new Date(transaction.timestamp).toISOString(),
+    transaction.type,
+    transaction.status,
+    transaction.fromProgram,
+    toDecimalString(transaction.amountFrom),
+    transaction.toProgram,
+    toDecimalString(transaction.amountTo),
+    toDecimalString(transaction.feeApplied),
+    transaction.transactionHash,
+    new Date(transaction.statusUpdatedAt).toISOString(),
+    transaction.failureReason,
+    transaction.reversalOf
+  ]);
+}
+
+/**
+ * Filtered, paginated transaction history. Pages use keyset cursors rather than
+ * offsets so they stay stable while new transactions come in.
+ */
+export class TransactionHistoryService {
+  async getPage(userId: number, query: TransactionQuery): Promise<TransactionPage> {
+    const { sort, cursor, limit, ...filter } = query;
+
+    // One extra row tells us whether there is another page
+    const rows = await storage.queryUserTransactions(userId, filter, {
+      sort,
+      after: cursor ? decodeCursor(sort, cursor) : undefined,
+      limit: limit + 1
+    });
+
+    const transactions = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      transactions,
+      nextCursor: hasMore ? encodeCursor(sort, transactions[transactions.length - 1]) : null
+    };
+  }
+
+  /**
+   * Writes every transaction matching the filters, ignoring cursor and limit,
+   * a batch at a time so large histories never sit in memory at once
+   */
+  async exportTransactions(
+    userId: number,
+    query: TransactionQuery,
+    format: TransactionExportFormat,
+    write: (chunk: string) => Promise<void>
+  ): Promise<number> {
+    const { sort, cursor: _cursor, limit: _limit, ...filter } = query;
+    let after: TransactionCursor | undefined;
+    let exported = 0;
+
+    if (format === "csv") {
+      await write(csvLine(TRANSACTION_CSV_COLUMNS));
+    }
+
+    while (true) {
+      const rows = await storage.queryUserTransactions(userId, filter, { sort, after, limit: EXPORT_BATCH_SIZE });
+      if (rows.length === 0) {
+        break;
+      }
+
+      const lines = rows.map(row => format === "csv" ? toCsvRow(row) : `${JSON.stringify(row)}\n`);
+      await write(lines.join(""));
+      exported += rows.length;
+
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+      after = positionOf(sort, rows[rows.length - 1]);
+    }
+
+    return exported;
+  }
+}
+
+// Create a singleton instance
+export const transactionHistoryService = new TransactionHistoryService();
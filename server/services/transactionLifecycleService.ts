@@ -0,0 +1,220 @@
+import { storage, type IStorage, type TransitionDetails } from "../storage";
+import { InvalidTransitionError, ServiceError } from "../errors";
+import { log } from "../vite";
+import { sendWebhook } from "../webhooks";
+import {
+  escrowHoldPostings,
+  escrowReleasePostings,
+  getOrCreateWallet,
+  heldTransferSettlementPostings
+} from "./ledgerService";
+import { assertVerifiedDestination } from "./accountLinkService";
+import { canTransition, type LoyaltyProgram, type Transaction, type TransactionStatus } from "@shared/schema";
+
+export interface TransferToOpen {
+  fromProgram: LoyaltyProgram;
+  toProgram: LoyaltyProgram;
+  amountFrom: number;
+  amountTo: number;
+  feeApplied: number; // In fromProgram points, included in amountFrom
+}
+
+export interface TransactionTransition {
+  transaction: Transaction;
+  from: TransactionStatus;
+  to: TransactionStatus;
+  reason: string | null;
+}
+
+export type TransitionListener = (transition: TransactionTransition) => void | Promise<void>;
+
+export function transferReference(transaction: Pick<Transaction, "id">): string {
+  return `transaction:${transaction.id}`;
+}
+
+async function createQuotedTransfer(tx: IStorage, userId: number, transfer: TransferToOpen): Promise<Transaction> {
+  const destWallet = await tx.getWallet(userId, transfer.toProgram);
+  if (!destWallet) {
+    throw new ServiceError("Destination wallet not found", 404, "WALLET_NOT_FOUND");
+  }
+  assertVerifiedDestination(destWallet);
+
+  return tx.createTransaction({
+    userId,
+    fromProgram: transfer.fromProgram,
+    toProgram: transfer.toProgram,
+    amountFrom: transfer.amountFrom,
+    amountTo: transfer.amountTo,
+    feeApplied: transfer.feeApplied,
+    status: "quoted",
+    type: "conversion",
+    recipientId: userId,
+    transactionHash: "",
+    blockNumber: 0,
+    contractAddress: "",
+    tokenAddress: "",
+    journalEntryId: null
+  });
+}
+
+/**
+ * Moves transactions through their lifecycle (see TRANSACTION_TRANSITIONS) and keeps
+ * balances in step: a transfer's points are held in escrow once it is pending, paid out
+ * when it settles and handed back if it fails. Every transition is announced to listeners
+ * and the webhook after it commits.
+ */
+export class TransactionLifecycleService {
+  private listeners: TransitionListener[] = [];
+
+  onTransition(listener: TransitionListener) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Records a transfer out to a partner program and holds its points until the partner
+   * confirms it. The transaction starts quoted and goes straight to pending.
+   */
+  async openTransfer(userId: number, transfer: TransferToOpen, reason: string | null = null): Promise<Transaction> {
+    const transaction = await createQuotedTransfer(storage, userId, transfer);
+
+    try {
+      return await this.transition(transaction.id, "pending", reason);
+    } catch (error) {
+      // Couldn't hold the points (e.g. INSUFFICIENT_BALANCE) - the quote goes no further
+      await this.transition(transaction.id, "failed", error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Like openTransfer, but inside the caller's storage.withTransaction: a hold that can't be
+   * placed rolls the transfer back with everything else. Announce the returned transition
+   * once the caller's transaction commits.
+   */
+  async openTransferIn(tx: IStorage, userId: number, transfer: TransferToOpen, reason: string | null = null): Promise<TransactionTransition> {
+    const transaction = await createQuotedTransfer(tx, userId, transfer);
+    return this.transitionIn(tx, transaction.id, "pending", reason);
+  }
+
+  async transition(
+    transactionId: number,
+    to: TransactionStatus,
+    reason: string | null = null,
+    details: Pick<TransitionDetails, "partnerReference"> = {}
+  ): Promise<Transaction> {
+    const transition = await storage.withTransaction(tx => this.transitionIn(tx, transactionId, to, reason, details));
+
+    // Announced without holding up the caller - delivery failures are only logged
+    void this.announce(transition);
+    return transition.transaction;
+  }
+
+  /**
+   * Moves a transaction inside the caller's storage.withTransaction, placing, settling or
+   * releasing its hold as needed. Announce the returned transition once it commits.
+   */
+  async transitionIn(
+    tx: IStorage,
+    transactionId: number,
+    to: TransactionStatus,
+    reason: string | null = null,
+    extra: Pick<TransitionDetails, "partnerReference"> = {}
+  ): Promise<TransactionTransition> {
+    const current = await tx.lockTransaction(transactionId);
+    if (!current) {
+      throw new ServiceError("Transaction not found", 404, "TRANSACTION_NOT_FOUND");
+    }
+
+    if (!canTransition(current.status, to)) {
+      throw new InvalidTransitionError(current.status, to);
+    }
+
+    const details: TransitionDetails = { reason, ...extra };
+    if (to === "pending" && !current.holdEntryId) {
+      details.holdEntryId = await this.placeHold(tx, current);
+    } else if (to === "settled" && current.holdEntryId) {
+      details.journalEntryId = await this.settleHold(tx, current);
+    } else if (to === "failed" && current.holdEntryId) {
+      await this.releaseHold(tx, current);
+    }
+
+    const transaction = await tx.transitionTransaction(current.id, to, details);
+    return { transaction, from: current.status, to, reason };
+  }
+
+  async getStatusEvents(userId: number, transactionId: number) {
+    const transaction = await storage.getTransaction(transactionId);
+    if (!transaction || (transaction.userId !== userId && transaction.recipientId !== userId)) {
+      throw new ServiceError("Transaction not found", 404, "TRANSACTION_NOT_FOUND");
+    }
+
+    return storage.getTransactionStatusEvents(transactionId);
+  }
+
+  private async placeHold(tx: IStorage, transaction: Transaction): Promise<number> {
+    const sourceWallet = await tx.getWallet(transaction.userId, transaction.fromProgram);
+    if (!sourceWallet) {
+      throw new ServiceError("Source wallet not found", 404, "WALLET_NOT_FOUND");
+    }
+
+    // Fails with INSUFFICIENT_BALANCE if the wallet can't cover the transfer
+    const posted = await tx.postJournalEntry(
+      { userId: transaction.userId, type: "transfer_hold", reference: transferReference(transaction), description: "Transfer pending" },
+      escrowHoldPostings(sourceWallet.id, transaction.fromProgram, transaction.amountFrom)
+    );
+    return posted.entry.id;
+  }
+
+  private async settleHold(tx: IStorage, transaction: Transaction): Promise<number> {
+    const destWallet = await getOrCreateWallet(tx, transaction.userId, transaction.toProgram);
+    const posted = await tx.postJournalEntry(
+      { userId: transaction.userId, type: "transfer_settlement", reference: transferReference(transaction), description: `${transaction.fromProgram} to ${transaction.toProgram}` },
+      heldTransferSettlementPostings({
+        destWalletId: destWallet.id,
+        fromProgram: transaction.fromProgram,
+        toProgram: transaction.toProgram,
+        amountFrom: transaction.amountFrom,
+        amountTo: transaction.amountTo,
+        fee: transaction.feeApplied
+      })
+    );
+    return posted.entry.id;
+  }
+
+  private async releaseHold(tx: IStorage, transaction: Transaction) {
+    const sourceWallet = await getOrCreateWallet(tx, transaction.userId, transaction.fromProgram);
+    await tx.postJournalEntry(
+      { userId: transaction.userId, type: "transfer_release", reference: transferReference(transaction), description: "Transfer failed" },
+      escrowReleasePostings(sourceWallet.id, transaction.fromProgram, transaction.amountFrom)
+    );
+  }
+
+  /**
+   * Tells listeners and the webhook about a committed transition. Called by services
+   * that move a transaction inside a larger unit of work, e.g. a reversal.
+   */
+  async announce(transition: TransactionTransition) {
+    const { transaction, from, to } = transition;
+    log(`Transaction ${transaction.id} moved from ${from} to ${to}`, "transactions");
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(transition);
+      } catch (error) {
+        console.error(`Transition listener failed for transaction ${transaction.id}:`, error);
+      }
+    }
+
+    await sendWebhook(`transaction.${to}`, {
+      transactionId: transaction.id,
+      userId: transaction.userId,
+      from,
+      to,
+      reason: transition.reason,
+      transaction
+    });
+  }
+}
+
+// Create a singleton instance
+export const transactionLifecycleService = new TransactionLifecycleService();
@@ -1,16 +1,34 @@
 import * as schema from "@shared/schema";
 import { 
   users, wallets, transactions, exchangeRates, tierBenefits, tradeOffers, tradeTransactions,
+  journalEntries, ledgerPostings, idempotencyKeys, conversionQuotes, tierHistory, transferBonuses,
+  conversionOrders, sweepSchedules, sweepRuns, statements, reconciliationRuns, reconciliationDiscrepancies,
+  transactionStatusEvents, transactionReversals, pointLots, pointLotMovements, notifications, accountVerifications, balanceSyncs, pointGifts, pointRequests,
+  escrowHolds, escrowMovements, tradeDisputes, canTransition,
   type User, type InsertUser, type Wallet, type Transaction, type ExchangeRate, 
   type LoyaltyProgram, type TierBenefit, type InsertTierBenefits, type MembershipTier,
   type BusinessAnalytics, type InsertBusinessAnalytics, type BulkPointIssuanceData,
-  type TradeOffer, type TradeTransaction
+  type TradeOffer, type TradeTransaction, type JournalEntry, type LedgerPosting,
+  type InsertJournalEntry, type InsertLedgerPosting, type IdempotencyKey, type InsertIdempotencyKey,
+  type ConversionQuote, type InsertConversionQuote, type TierHistory, type InsertTierHistory,
+  type TransferBonus, type InsertTransferBonus, type ConversionOrder, type InsertConversionOrder,
+  type SweepSchedule, type InsertSweepSchedule, type SweepRun, type InsertSweepRun,
+  type TransactionQuery, type TransactionSort, type Statement, type InsertStatement,
+  type ReconciliationRun, type ReconciliationDiscrepancy, type InsertReconciliationDiscrepancy,
+  type TransactionStatus, type TransactionStatusEvent, type TransactionReversal, type ReversalStatus,
+  type PointLot, type PointLotMovement, type Notification, type AccountStatus, type AccountVerification,
+  type BalanceSync, type BalanceSyncStatus, type PointGift, type PointRequest, type EscrowHold, type EscrowMovement,
+  type TradeDispute, type TradeDisputeStatus, type TradeTransactionStatus
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { db, pool } from "./db";
-import { eq, and, desc, sql, ne, or } from "drizzle-orm";
+import { db, pool, type DbExecutor } from "./db";
+import { eq, and, desc, sql, ne, or, inArray, asc, gt, gte, lt, lte, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { InsufficientBalanceError, InvalidTransitionError } from "./errors";
+import { config } from "./config";
+import { planLotMovements, RELEASE_ENTRY_TYPES, type DrawnLot, type LotOptions, type LotPlan, type LotPolicy } from "./lots";
+import { addPoints, fromMinorUnits, roundPoints, toMinorUnits } from "@shared/money";
 
 // Define a SessionStore type to avoid the namespace error
 type SessionStore = session.Store;
@@ -19,14 +37,199 @@ type SessionStore = session.Store;
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// xPoints credited to every new account
+const SIGNUP_BONUS = 1000;
+
+// Journal entries that mint or burn xPoints tokens - the only ones a user's token balance follows
+const TOKEN_ENTRY_TYPES = ["tokenize", "detokenize"];
+
+// How postJournalEntry opens and draws on points lots
+const LOT_POLICY: LotPolicy = { order: config.lots.consumptionOrder, expiryDays: config.lots.expiryDays };
+
+export interface PostedJournalEntry {
+  entry: JournalEntry;
+  postings: LedgerPosting[];
+  wallets: Wallet[]; // Wallets touched by the entry, with their new balances
+}
+
+/**
+ * Validates a journal entry before anything is written
+ */
+function assertBalancedPostings(postings: InsertLedgerPosting[]): void {
+  if (postings.length === 0) {
+    throw new Error("Journal entry has no postings");
+  }
+  
+  // Summed in hundredths of a point, so postings have to net to exactly zero
+  const totals = new Map<string, number>();
+  for (const posting of postings) {
+    if (posting.account === "wallet" && !posting.walletId) {
+      throw new Error("Wallet postings require a walletId");
+    }
+    totals.set(posting.program, (totals.get(posting.program) || 0) + toMinorUnits(posting.amount));
+  }
+  
+  totals.forEach((total, program) => {
+    if (total !== 0) {
+      throw new Error(`Unbalanced journal entry: ${program} postings net to ${fromMinorUnits(total)}`);
+    }
+  });
+}
+
+/**
+ * Applies wallet postings to the locked wallets, returning the new balance after each posting
+ */
+function applyWalletPostings(postings: InsertLedgerPosting[], lockedWallets: Map<number, Wallet>): (number | null)[] {
+  const balanceAfter = postings.map(posting => {
+    if (!posting.walletId) return null;
+    
+    const wallet = lockedWallets.get(posting.walletId);
+    if (!wallet) {
+      throw new Error(`Wallet with ID ${posting.walletId} not found`);
+    }
+    if (wallet.program !== posting.program) {
+      throw new Error(`Posting program ${posting.program} does not match wallet ${wallet.id} (${wallet.program})`);
+    }
+    
+    const balance = addPoints(wallet.balance, posting.amount);
+    lockedWallets.set(wallet.id, { ...wallet, balance });
+    return balance;
+  });
+  
+  lockedWallets.forEach(wallet => {
+    if (wallet.balance < 0) {
+      throw new InsufficientBalanceError(`Insufficient ${wallet.program} balance`);
+    }
+  });
+  
+  return balanceAfter;
+}
+
+// Fields the sweep engine moves between runs
+export type SweepScheduleUpdate = Partial<Pick<SweepSchedule, "status" | "nextRunAt" | "lastRunAt" | "failureCount" | "lastError">>;
+
+export type TransactionFilter = Omit<TransactionQuery, "sort" | "cursor" | "limit">;
+
+// Lifecycle fields start out unset - they change through transitionTransaction
+export type NewTransaction = Omit<Transaction, "id" | "timestamp" | "statusUpdatedAt" | "failureReason" | "holdEntryId" | "reversalOf" | "partnerReference">
+  & Partial<Pick<Transaction, "holdEntryId" | "reversalOf">>;
+
+export type NewTransactionReversal = Pick<TransactionReversal, "transactionId" | "reason" | "requestedBy">;
+export type ReversalReview = Pick<TransactionReversal, "status" | "reviewedBy" | "reviewedAt" | "reviewNote">
+  & Partial<Pick<TransactionReversal, "refundTransactionId">>;
+
+export type NewNotification = Pick<Notification, "userId" | "type" | "title" | "message">;
+
+export type NewWallet = Pick<Wallet, "userId" | "program" | "accountNumber" | "accountName">;
+
+export type NewAccountVerification = Pick<AccountVerification, "walletId" | "userId" | "accountNumber" | "method" | "secretHash" | "expiresAt">;
+export type AccountVerificationUpdate = Partial<Pick<AccountVerification, "attempts" | "status" | "completedAt">>;
+
+export type NewPointGift = Pick<PointGift, "senderId" | "recipientId" | "recipientEmail" | "program" | "amount" | "message" | "status">
+  & Partial<Pick<PointGift, "claimCodeHash" | "requestId" | "expiresAt" | "respondedAt">>;
+export type PointGiftUpdate = Partial<Pick<PointGift, "status" | "recipientId" | "claimCodeHash" | "holdEntryId" | "transactionId" | "respondedAt">>;
+export type NewPointRequest = Pick<PointRequest, "requesterId" | "program" | "amount" | "message" | "token" | "expiresAt">;
+export type PointRequestUpdate = Partial<Pick<PointRequest, "status" | "paidBy" | "paidAt">>;
+
+export type WalletPartnerSyncUpdate = Pick<Wallet, "partnerSyncedAt"> & Partial<Pick<Wallet, "partnerBalance">>;
+export type NewBalanceSync = Pick<BalanceSync, "walletId" | "userId" | "program" | "trigger" | "status">
+  & Partial<Pick<BalanceSync, "expectedBalance" | "reportedBalance" | "difference" | "entryId" | "error">>;
+export type BalanceSyncUpdate = Partial<Pick<BalanceSync, "status" | "entryId" | "error" | "reviewedBy" | "reviewedAt">>;
+
+// New offers start open with nothing filled
+export type NewTradeOffer = Omit<TradeOffer, "id" | "createdAt" | "status" | "amountRemaining" | "fillCount">;
+export type TradeOfferUpdate = Partial<Pick<TradeOffer, "status" | "amountRemaining" | "fillCount" | "expiresAt">>;
+export type NewTradeTransaction = Omit<TradeTransaction, "id" | "completedAt" | "takerOfferId">
+  & Partial<Pick<TradeTransaction, "takerOfferId">>;
+
+export type NewTradeDispute = Pick<TradeDispute, "tradeTransactionId" | "openedBy" | "reason" | "evidence">;
+export type TradeDisputeResolution = Pick<TradeDispute, "status" | "resolvedBy" | "resolvedAt" | "resolutionNote">
+  & Partial<Pick<TradeDispute, "refundAmount" | "refundEntryId">>;
+
+// New holds start with everything still held
+export type NewEscrowHold = Pick<EscrowHold, "tradeOfferId" | "userId" | "walletId" | "program" | "amount">;
+export type EscrowHoldUpdate = Partial<Pick<EscrowHold, "amountHeld" | "status" | "closedAt">>;
+export type NewEscrowMovement = Pick<EscrowMovement, "holdId" | "type" | "amount" | "entryId">
+  & Partial<Pick<EscrowMovement, "tradeTransactionId">>;
+
+export interface TransitionDetails {
+  reason?: string | null; // Stored as the failure reason when moving to failed
+  journalEntryId?: number; // Entry that settled the transaction
+  holdEntryId?: number; // Escrow hold placed when it went pending
+  partnerReference?: string; // Partner's transfer id, recorded when it is submitted
+}
+
+// Last row of the previous page - amountFrom is only set for the amount sorts
+export interface TransactionCursor {
+  id: number;
+  amountFrom?: number;
+}
+
+export interface TransactionPageOptions {
+  sort: TransactionSort;
+  after?: TransactionCursor;
+  limit: number;
+}
+
+// A posting on one of a user's wallets, with the entry it belongs to
+export interface WalletPostingRecord {
+  posting: LedgerPosting;
+  entry: JournalEntry;
+}
+
+export interface WalletBalance {
+  walletId: number;
+  program: LoyaltyProgram;
+  balance: number;
+}
+
+// A trade fill with the offer it filled
+export interface TradeFillRecord {
+  transaction: TradeTransaction;
+  offer: TradeOffer;
+}
+
+// A dispute with the trade it is about and the offer that trade filled
+export interface TradeDisputeRecord {
+  dispute: TradeDispute;
+  trade: TradeTransaction;
+  offer: TradeOffer;
+}
+
+// What a wallet has locked in open escrow holds
+export interface WalletHeldBalance {
+  walletId: number;
+  held: number;
+}
+
+// Sum of a wallet's postings - what its balance should be
+export interface WalletLedgerBalance {
+  walletId: number;
+  balance: number;
+}
+
+// xPoints a user has minted less what they burned - what their token balance should be
+export interface TokenLedgerBalance {
+  userId: number;
+  balance: number;
+}
+
+export type ReconciliationRunUpdate = Partial<Pick<ReconciliationRun, "status" | "walletsChecked" | "recordsChecked" | "discrepancyCount" | "error" | "finishedAt">>;
+export type DiscrepancyReview = Pick<ReconciliationDiscrepancy, "status" | "reviewedBy" | "reviewedAt"> & Partial<Pick<ReconciliationDiscrepancy, "adjustmentEntryId">>;
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>; // Case-insensitive
   createUser(user: InsertUser): Promise<User>;
   updateUserTier(userId: number, tier: MembershipTier, expiresAt?: Date): Promise<User>;
-  updateUserStats(userId: number, pointsConverted: number, fee: number): Promise<User>;
+  // Negative amounts take a reversed conversion back out; `monthlyPoints` defaults to `pointsConverted`
+  updateUserStats(userId: number, pointsConverted: number, fee: number, monthlyPoints?: number): Promise<User>;
   getUserStats(userId: number): Promise<{ pointsConverted: number, feesPaid: number, monthlyPoints: number, tier: MembershipTier }>;
+  lockUser(userId: number): Promise<User | undefined>;
+  getUsersWithExpiredTier(now: Date): Promise<User[]>;
+  resetMonthlyPoints(startOfMonth: Date): Promise<number>; // Returns how many users were reset
   
   // Blockchain wallet operations
   updateUserWallet(userId: number, walletAddress: string, walletPrivateKey: string): Promise<User>;
@@ -36,30 +239,198 @@ export interface IStorage {
   // Wallet operations
   getUserWallets(userId: number): Promise<Wallet[]>;
   getWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined>;
-  createWallet(wallet: Omit<Wallet, "id" | "createdAt">): Promise<Wallet>;
-  updateWalletBalance(id: number, balance: number): Promise<Wallet>;
-  updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet>;
+  createWallet(wallet: NewWallet): Promise<Wallet>;
+  updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet>; // Leaves the account unverified
+  setWalletAccountStatus(id: number, status: AccountStatus, verifiedAt: Date | null): Promise<Wallet>;
+  
+  // Balance sync operations
+  getWalletsDueForSync(syncedBefore: Date, limit: number): Promise<Wallet[]>; // Verified linked accounts, least recently synced first
+  updateWalletPartnerSync(id: number, updates: WalletPartnerSyncUpdate): Promise<Wallet>;
+  adjustWalletPartnerBalance(id: number, amount: number): Promise<void>; // No-op until the wallet's first sync
+  createBalanceSync(data: NewBalanceSync): Promise<BalanceSync>;
+  getWalletBalanceSyncs(walletId: number, limit: number): Promise<BalanceSync[]>; // Newest first
+  getBalanceSyncsByStatus(status: BalanceSyncStatus, limit: number): Promise<BalanceSync[]>; // Oldest first
+  lockBalanceSync(id: number): Promise<BalanceSync | undefined>;
+  updateBalanceSync(id: number, updates: BalanceSyncUpdate): Promise<BalanceSync>;
+  
+  // Account verification operations
+  createAccountVerification(data: NewAccountVerification): Promise<AccountVerification>;
+  getPendingAccountVerification(walletId: number): Promise<AccountVerification | undefined>;
+  lockAccountVerification(id: number): Promise<AccountVerification | undefined>;
+  updateAccountVerification(id: number, updates: AccountVerificationUpdate): Promise<AccountVerification>;
+  supersedePendingVerifications(walletId: number): Promise<number>;
+  
+  // Gift operations
+  createPointGift(data: NewPointGift): Promise<PointGift>;
+  getPointGift(id: number): Promise<PointGift | undefined>;
+  lockPointGift(id: number): Promise<PointGift | undefined>;
+  updatePointGift(id: number, updates: PointGiftUpdate): Promise<PointGift>;
+  getUserPointGifts(userId: number, email: string, limit: number): Promise<PointGift[]>; // Sent, received, or pending to the email - newest first
+  getGiftsSentSince(senderId: number, since: Date): Promise<PointGift[]>;
+  getPendingGiftsFromSender(senderId: number): Promise<PointGift[]>;
+  getPendingGiftsForEmail(email: string): Promise<PointGift[]>;
+  getExpiredPendingGifts(now: Date, limit: number): Promise<PointGift[]>;
+  
+  // Point request operations
+  createPointRequest(data: NewPointRequest): Promise<PointRequest>;
+  getPointRequestByToken(token: string): Promise<PointRequest | undefined>;
+  lockPointRequest(id: number): Promise<PointRequest | undefined>;
+  updatePointRequest(id: number, updates: PointRequestUpdate): Promise<PointRequest>;
+  getUserPointRequests(userId: number, limit: number): Promise<PointRequest[]>; // Newest first
+  getExpiredPointRequests(now: Date, limit: number): Promise<PointRequest[]>; // Still open past their expiry
   
   // Transaction operations
   getUserTransactions(userId: number): Promise<Transaction[]>;
-  createTransaction(transaction: Omit<Transaction, "id" | "timestamp">): Promise<Transaction>;
+  queryUserTransactions(userId: number, filter: TransactionFilter, page: TransactionPageOptions): Promise<Transaction[]>;
+  createTransaction(transaction: NewTransaction): Promise<Transaction>; // Also records the initial status event
+  getTransaction(id: number): Promise<Transaction | undefined>;
+  lockTransaction(id: number): Promise<Transaction | undefined>;
+  getTransactionsByStatus(status: TransactionStatus, limit: number): Promise<Transaction[]>; // Oldest status change first
+  getHeldTransfers(userId: number): Promise<Transaction[]>; // Pending or submitted with their source points in escrow
+  // Throws InvalidTransitionError unless the lifecycle allows the move from the current status
+  transitionTransaction(id: number, to: TransactionStatus, details?: TransitionDetails): Promise<Transaction>;
+  getTransactionStatusEvents(transactionId: number): Promise<TransactionStatusEvent[]>;
+  
+  // Reversal operations
+  createTransactionReversal(data: NewTransactionReversal): Promise<TransactionReversal | undefined>; // Undefined if one is already requested or approved
+  getTransactionReversals(status?: ReversalStatus): Promise<TransactionReversal[]>;
+  lockTransactionReversal(id: number): Promise<TransactionReversal | undefined>;
+  reviewTransactionReversal(id: number, review: ReversalReview): Promise<TransactionReversal>;
+  
+  // Ledger operations
+  // Wallet balances only change through postJournalEntry, which locks the wallets it touches.
+  // withTransaction hands the callback a storage scoped to one DB transaction.
+  withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+  withSnapshot<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>; // Read-only; every read sees the same point in time
+  lockWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined>;
+  postJournalEntry(entry: InsertJournalEntry, postings: InsertLedgerPosting[], lots?: LotOptions): Promise<PostedJournalEntry>;
+  getJournalPostings(entryId: number): Promise<LedgerPosting[]>;
+  
+  // Points lot operations
+  // Lots are opened and drawn on by postJournalEntry - these only read them and track notices.
+  getUserLots(userId: number): Promise<PointLot[]>; // Open lots, soonest to expire first
+  getExpiredLots(now: Date, limit: number): Promise<PointLot[]>; // Open lots past their expiry
+  getUnnotifiedLotsExpiringBefore(before: Date, limit: number): Promise<PointLot[]>;
+  lockPointLot(id: number): Promise<PointLot | undefined>;
+  markLotsNotified(ids: number[], at: Date): Promise<void>;
+  
+  // Notification operations
+  createNotification(data: NewNotification): Promise<Notification>;
+  getUserNotifications(userId: number, limit: number): Promise<Notification[]>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  
+  // Conversion quote operations
+  createConversionQuote(data: InsertConversionQuote): Promise<ConversionQuote>;
+  getConversionQuote(id: string): Promise<ConversionQuote | undefined>;
+  lockConversionQuote(id: string): Promise<ConversionQuote | undefined>;
+  markConversionQuoteExecuted(id: string, transactionId: number): Promise<ConversionQuote>;
+  
+  // Conversion order operations
+  createConversionOrder(data: InsertConversionOrder): Promise<ConversionOrder>;
+  getConversionOrder(id: number): Promise<ConversionOrder | undefined>;
+  lockConversionOrder(id: number): Promise<ConversionOrder | undefined>;
+  getUserConversionOrders(userId: number): Promise<ConversionOrder[]>;
+  getOpenConversionOrders(): Promise<ConversionOrder[]>;
+  markConversionOrderExecuted(id: number, transactionId: number, executedRate: string): Promise<ConversionOrder>;
+  closeConversionOrder(id: number, status: "cancelled" | "expired", closeReason?: string | null): Promise<ConversionOrder>;
+  
+  // Sweep schedule operations
+  createSweepSchedule(data: InsertSweepSchedule): Promise<SweepSchedule>;
+  getSweepSchedule(id: number): Promise<SweepSchedule | undefined>;
+  lockSweepSchedule(id: number): Promise<SweepSchedule | undefined>;
+  getUserSweepSchedules(userId: number): Promise<SweepSchedule[]>;
+  getDueSweepSchedules(now: Date): Promise<SweepSchedule[]>;
+  updateSweepSchedule(id: number, updates: SweepScheduleUpdate): Promise<SweepSchedule>;
+  createSweepRun(data: InsertSweepRun): Promise<SweepRun>;
+  getSweepRuns(scheduleId: number, limit?: number): Promise<SweepRun[]>;
+  
+  // Statement operations
+  getUserIdsWithWallets(createdBefore: Date): Promise<number[]>;
+  getUserWalletPostings(userId: number, from: Date, to: Date): Promise<WalletPostingRecord[]>; // Posted in [from, to), in order
+  getUserWalletBalancesAt(userId: number, at: Date): Promise<WalletBalance[]>; // Balance after the last posting before `at`
+  getTransactionsByJournalEntries(entryIds: number[]): Promise<Transaction[]>;
+  getTradeTransactionsByJournalEntries(entryIds: number[]): Promise<TradeTransaction[]>;
+  createStatement(data: InsertStatement): Promise<Statement | undefined>; // Undefined if the period already has one
+  getStatement(id: number): Promise<Statement | undefined>;
+  getStatementForPeriod(userId: number, periodStart: Date): Promise<Statement | undefined>;
+  getUserStatements(userId: number): Promise<Statement[]>;
+  
+  // Reconciliation operations
+  getAllWallets(): Promise<Wallet[]>;
+  getWalletLedgerBalances(): Promise<WalletLedgerBalance[]>;
+  getWalletLedgerBalance(walletId: number): Promise<number>;
+  getTokenLedgerBalances(): Promise<TokenLedgerBalance[]>;
+  getTokenLedgerBalance(userId: number): Promise<number>;
+  restoreWalletBalance(walletId: number, balance: number): Promise<Wallet>; // Bypasses the ledger - reconciliation only
+  getTransactionsAfter(afterId: number, limit: number): Promise<Transaction[]>;
+  getTradeTransactionsAfter(afterId: number, limit: number): Promise<TradeTransaction[]>;
+  getPostingsByEntries(entryIds: number[]): Promise<LedgerPosting[]>;
+  getLedgerStartedAt(): Promise<Date | undefined>; // When the first journal entry was posted
+  createReconciliationRun(): Promise<ReconciliationRun>;
+  updateReconciliationRun(id: number, updates: ReconciliationRunUpdate): Promise<ReconciliationRun>;
+  getLatestReconciliationRun(): Promise<ReconciliationRun | undefined>;
+  createReconciliationDiscrepancy(data: InsertReconciliationDiscrepancy): Promise<ReconciliationDiscrepancy>;
+  getReconciliationDiscrepancies(runId: number): Promise<ReconciliationDiscrepancy[]>;
+  lockReconciliationDiscrepancy(id: number): Promise<ReconciliationDiscrepancy | undefined>;
+  reviewReconciliationDiscrepancy(id: number, review: DiscrepancyReview): Promise<ReconciliationDiscrepancy>;
+  supersedeOpenDiscrepancies(beforeRunId: number): Promise<number>; // Returns how many were superseded
+  
+  // Idempotency key operations
+  getIdempotencyKey(userId: number, key: string): Promise<IdempotencyKey | undefined>;
+  createIdempotencyKey(data: InsertIdempotencyKey): Promise<IdempotencyKey | undefined>; // Undefined if the key is already taken
+  completeIdempotencyKey(id: number, responseStatus: number, responseBody: string | null): Promise<void>;
+  deleteIdempotencyKey(id: number): Promise<void>;
   
   // Exchange rates operations
   getExchangeRate(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<ExchangeRate | undefined>;
+  getAllExchangeRates(): Promise<ExchangeRate[]>;
+  
+  // Transfer bonus operations
+  getTransferBonuses(): Promise<TransferBonus[]>;
+  getActiveTransferBonuses(now: Date): Promise<TransferBonus[]>;
+  createTransferBonus(data: InsertTransferBonus): Promise<TransferBonus>;
   
   // Tier benefits operations
   getTierBenefits(tier: MembershipTier): Promise<TierBenefit | undefined>;
+  getAllTierBenefits(): Promise<TierBenefit[]>;
   createTierBenefits(benefits: InsertTierBenefits): Promise<TierBenefit>;
   initializeTierBenefits(): Promise<void>;
   
+  // Tier history operations
+  createTierHistory(data: InsertTierHistory): Promise<TierHistory>;
+  getUserTierHistory(userId: number): Promise<TierHistory[]>;
+  
   // Trading operations
   getTradeOffers(excludeUserId?: number): Promise<TradeOffer[]>;
   getUserTradeOffers(userId: number): Promise<TradeOffer[]>;
   getTradeOffer(id: number): Promise<TradeOffer | undefined>;
-  createTradeOffer(data: Omit<TradeOffer, "id" | "createdAt" | "status">): Promise<TradeOffer>;
+  lockTradeOffer(id: number): Promise<TradeOffer | undefined>;
+  getOpenTradeOffersForPair(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, now: Date): Promise<TradeOffer[]>; // Best rate first, then oldest
+  getExpiredOpenTradeOffers(now: Date, limit: number): Promise<TradeOffer[]>;
+  createTradeOffer(data: NewTradeOffer): Promise<TradeOffer>;
   updateTradeOfferStatus(id: number, status: string): Promise<TradeOffer | undefined>;
+  updateTradeOffer(id: number, updates: TradeOfferUpdate): Promise<TradeOffer>;
   getTradeHistory(userId: number): Promise<TradeTransaction[]>;
-  createTradeTransaction(data: Omit<TradeTransaction, "id" | "completedAt">): Promise<TradeTransaction>;
+  createTradeTransaction(data: NewTradeTransaction): Promise<TradeTransaction>;
+  getTradeFillsForPair(programA: LoyaltyProgram, programB: LoyaltyProgram, limit: number): Promise<TradeFillRecord[]>; // Either direction, newest first
+  lockTradeTransaction(id: number): Promise<TradeTransaction | undefined>;
+  updateTradeTransactionStatus(id: number, status: TradeTransactionStatus): Promise<TradeTransaction>;
+  
+  // Trade dispute operations
+  createTradeDispute(data: NewTradeDispute): Promise<TradeDispute | undefined>; // Undefined if the trade already has an open dispute
+  getTradeDisputes(status?: TradeDisputeStatus): Promise<TradeDisputeRecord[]>; // Newest first
+  getTradeDisputesForTrade(tradeTransactionId: number): Promise<TradeDispute[]>; // Oldest first
+  lockTradeDispute(id: number): Promise<TradeDispute | undefined>;
+  resolveTradeDispute(id: number, resolution: TradeDisputeResolution): Promise<TradeDispute>;
+  
+  // Escrow operations
+  createEscrowHold(data: NewEscrowHold): Promise<EscrowHold>;
+  lockEscrowHoldForOffer(tradeOfferId: number): Promise<EscrowHold | undefined>;
+  updateEscrowHold(id: number, updates: EscrowHoldUpdate): Promise<EscrowHold>;
+  getUserEscrowHolds(userId: number, limit: number): Promise<EscrowHold[]>; // Newest first
+  getWalletHeldBalances(userId: number): Promise<WalletHeldBalance[]>; // Only wallets with open holds
+  createEscrowMovement(data: NewEscrowMovement): Promise<EscrowMovement>;
+  getEscrowMovements(holdIds: number[]): Promise<EscrowMovement[]>; // In order
   
   // Business analytics operations
   getBusinessAnalytics(businessId: number): Promise<BusinessAnalytics | undefined>;
@@ -77,9 +448,11 @@ export interface IStorage {
 // PostgreSQL Database Storage Implementation
 export class DatabaseStorage implements IStorage {
   sessionStore: SessionStore;
+  private readonly db: DbExecutor;
   
-  constructor() {
-    this.sessionStore = new PostgresSessionStore({ 
+  constructor(executor: DbExecutor = db, sessionStore?: SessionStore) {
+    this.db = executor;
+    this.sessionStore = sessionStore ?? new PostgresSessionStore({ 
       pool, 
       createTableIfMissing: true 
     });
@@ -88,7 +461,7 @@ export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     try {
-      const [user] = await db
+      const [user] = await this.db
         .select()
         .from(users)
         .where(eq(users.id, id));
@@ -102,7 +475,7 @@ export class DatabaseStorage implements IStorage {
   
   async getUserByUsername(username: string): Promise<User | undefined> {
     try {
-      const [user] = await db
+      const [user] = await this.db
         .select()
         .from(users)
         .where(eq(users.username, username));
@@ -114,42 +487,64 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUserByEmail(email: string): Promise<User | undefined> {
     try {
-      // Create the user with default values for required fields
-      const [user] = await db
-        .insert(users)
-        .values({
-          ...insertUser
-        })
-        .returning();
+      const [user] = await this.db
+        .select()
+        .from(users)
+        .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
       
-      // Create default wallets for the user
-      await Promise.all([
-        this.createWallet({
+      return user;
+    } catch (error) {
+      console.error(`Error fetching user by email:`, error);
+      throw error;
+    }
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      return await this.db.transaction(async (txDb) => {
+        const tx = new DatabaseStorage(txDb, this.sessionStore);
+        
+        // Create the user with default values for required fields
+        const [user] = await txDb
+          .insert(users)
+          .values({
+            ...insertUser
+          })
+          .returning();
+        
+        // Create default wallets for the user
+        const xpointsWallet = await tx.createWallet({
           userId: user.id,
           program: "XPOINTS",
-          balance: 1000, // Starting bonus
           accountNumber: null,
           accountName: null
-        }),
-        this.createWallet({
+        });
+        await tx.createWallet({
           userId: user.id,
           program: "QANTAS",
-          balance: 0,
           accountNumber: null,
           accountName: null
-        }),
-        this.createWallet({
+        });
+        await tx.createWallet({
           userId: user.id,
           program: "GYG",
-          balance: 0,
           accountNumber: null,
           accountName: null
-        })
-      ]);
-      
-      return user;
+        });
+        
+        // Starting bonus
+        await tx.postJournalEntry(
+          { userId: user.id, type: "signup_bonus", reference: `user:${user.id}`, description: "Welcome bonus" },
+          [
+            { account: "issuance", walletId: null, program: "XPOINTS", amount: -SIGNUP_BONUS },
+            { account: "wallet", walletId: xpointsWallet.id, program: "XPOINTS", amount: SIGNUP_BONUS }
+          ]
+        );
+        
+        return user;
+      });
     } catch (error) {
       console.error("Error creating user:", error);
       throw error;
@@ -158,7 +553,7 @@ export class DatabaseStorage implements IStorage {
   
   async updateUserTier(userId: number, tier: MembershipTier, expiresAt?: Date): Promise<User> {
     try {
-      const [updatedUser] = await db
+      const [updatedUser] = await this.db
         .update(users)
         .set({ 
           membershipTier: tier,
@@ -174,27 +569,27 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async updateUserStats(userId: number, pointsConverted: number, fee: number): Promise<User> {
+  async updateUserStats(userId: number, pointsConverted: number, fee: number, monthlyPoints = pointsConverted): Promise<User> {
     try {
-      const [user] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, userId));
-      
-      if (!user) {
-        throw new Error(`User with ID ${userId} not found`);
-      }
-      
-      const [updatedUser] = await db
+      // Increment in SQL so concurrent conversions can't lose an update, and start
+      // the monthly counter over when the last reset was in an earlier month
+      const [updatedUser] = await this.db
         .update(users)
         .set({ 
-          pointsConverted: (user.pointsConverted || 0) + pointsConverted,
-          monthlyPointsConverted: (user.monthlyPointsConverted || 0) + pointsConverted,
-          totalFeesPaid: (user.totalFeesPaid || 0) + fee
+          pointsConverted: sql`${users.pointsConverted} + ${pointsConverted}`,
+          monthlyPointsConverted: sql`CASE WHEN ${users.lastMonthReset} < date_trunc('month', now())
+            THEN ${monthlyPoints} ELSE ${users.monthlyPointsConverted} + ${monthlyPoints} END`,
+          lastMonthReset: sql`CASE WHEN ${users.lastMonthReset} IS NULL OR ${users.lastMonthReset} < date_trunc('month', now())
+            THEN now() ELSE ${users.lastMonthReset} END`,
+          totalFeesPaid: sql`${users.totalFeesPaid} + ${fee}`
         })
         .where(eq(users.id, userId))
         .returning();
       
+      if (!updatedUser) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+      
       return updatedUser;
     } catch (error) {
       console.error(`Error updating stats for user ${userId}:`, error);
@@ -202,10 +597,60 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async lockUser(userId: number): Promise<User | undefined> {
+    try {
+      const [user] = await this.db
+        .select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      
+      return user;
+    } catch (error) {
+      console.error(`Error locking user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUsersWithExpiredTier(now: Date): Promise<User[]> {
+    try {
+      return await this.db
+        .select()
+        .from(users)
+        .where(
+          and(
+            ne(users.membershipTier, "STANDARD"),
+            sql`${users.tierExpiresAt} < ${now}`
+          )
+        );
+    } catch (error) {
+      console.error("Error fetching users with expired tiers:", error);
+      throw error;
+    }
+  }
+  
+  async resetMonthlyPoints(startOfMonth: Date): Promise<number> {
+    try {
+      const reset = await this.db
+        .update(users)
+        .set({
+          monthlyPointsConverted: 0,
+          lastMonthReset: new Date()
+        })
+        .where(sql`${users.lastMonthReset} IS NULL OR ${users.lastMonthReset} < ${startOfMonth}`)
+        .returning({ id: users.id });
+      
+      return reset.length;
+    } catch (error) {
+      console.error("Error resetting monthly points:", error);
+      throw error;
+    }
+  }
+  
   async getUserStats(userId: number): Promise<{ pointsConverted: number, feesPaid: number, monthlyPoints: number, tier: MembershipTier }> {
     try {
       // Using raw SQL query to avoid potential Drizzle ORM issues
-      const result = await db.execute(
+      const result = await this.db.execute(
         sql`SELECT points_converted, total_fees_paid, monthly_points_converted, membership_tier 
             FROM users WHERE id = ${userId}`
       );
@@ -237,7 +682,7 @@ export class DatabaseStorage implements IStorage {
   // Wallet operations
   async getUserWallets(userId: number): Promise<Wallet[]> {
     try {
-      const userWallets = await db
+      const userWallets = await this.db
         .select()
         .from(wallets)
         .where(eq(wallets.userId, userId));
@@ -251,7 +696,7 @@ export class DatabaseStorage implements IStorage {
   
   async getWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined> {
     try {
-      const [wallet] = await db
+      const [wallet] = await this.db
         .select()
         .from(wallets)
         .where(
@@ -268,11 +713,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async createWallet(walletData: Omit<Wallet, "id" | "createdAt">): Promise<Wallet> {
+  async createWallet(walletData: NewWallet): Promise<Wallet> {
     try {
-      const [wallet] = await db
+      // Wallets always open empty; balances are funded through the ledger
+      const [wallet] = await this.db
         .insert(wallets)
-        .values(walletData)
+        .values({ ...walletData, balance: 0 })
         .returning();
       
       return wallet;
@@ -282,637 +728,3940 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async updateWalletBalance(id: number, balance: number): Promise<Wallet> {
+  async updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet> {
     try {
-      const [updatedWallet] = await db
+      const [updatedWallet] = await this.db
         .update(wallets)
-        .set({ balance })
+        .set({ 
+          accountNumber, 
+          accountName,
+          accountStatus: "unverified",
+          accountVerifiedAt: null,
+          // A different account starts its sync history afresh
+          partnerBalance: null,
+          partnerSyncedAt: null
+        })
         .where(eq(wallets.id, id))
         .returning();
       
       return updatedWallet;
     } catch (error) {
-      console.error(`Error updating wallet balance for wallet ${id}:`, error);
+      console.error(`Error updating wallet account for wallet ${id}:`, error);
       throw error;
     }
   }
   
-  async updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet> {
+  async setWalletAccountStatus(id: number, status: AccountStatus, verifiedAt: Date | null): Promise<Wallet> {
     try {
-      const [updatedWallet] = await db
+      const [wallet] = await this.db
         .update(wallets)
-        .set({ 
-          accountNumber, 
-          accountName
-        })
+        .set({ accountStatus: status, accountVerifiedAt: verifiedAt })
         .where(eq(wallets.id, id))
         .returning();
       
-      return updatedWallet;
+      return wallet;
     } catch (error) {
-      console.error(`Error updating wallet account for wallet ${id}:`, error);
+      console.error(`Error setting account status of wallet ${id}:`, error);
       throw error;
     }
   }
   
-  // Transaction operations
-  async getUserTransactions(userId: number): Promise<Transaction[]> {
+  // Balance sync operations
+  async getWalletsDueForSync(syncedBefore: Date, limit: number): Promise<Wallet[]> {
     try {
-      const userTransactions = await db
+      return await this.db
         .select()
-        .from(transactions)
-        .where(eq(transactions.userId, userId))
-        .orderBy(desc(transactions.timestamp));
-      
-      return userTransactions;
+        .from(wallets)
+        .where(
+          and(
+            isNotNull(wallets.accountNumber),
+            eq(wallets.accountStatus, "verified"),
+            or(isNull(wallets.partnerSyncedAt), lt(wallets.partnerSyncedAt, syncedBefore))
+          )
+        )
+        .orderBy(sql`${wallets.partnerSyncedAt} asc nulls first`, asc(wallets.id))
+        .limit(limit);
     } catch (error) {
-      console.error(`Error fetching transactions for user ${userId}:`, error);
+      console.error(`Error fetching wallets due for a balance sync:`, error);
       throw error;
     }
   }
   
-  async createTransaction(transactionData: Omit<Transaction, "id" | "timestamp">): Promise<Transaction> {
+  async updateWalletPartnerSync(id: number, updates: WalletPartnerSyncUpdate): Promise<Wallet> {
     try {
-      const [transaction] = await db
-        .insert(transactions)
-        .values(transactionData)
+      const [wallet] = await this.db
+        .update(wallets)
+        .set(updates)
+        .where(eq(wallets.id, id))
         .returning();
       
-      return transaction;
+      return wallet;
     } catch (error) {
-      console.error(`Error creating transaction:`, error);
+      console.error(`Error recording balance sync of wallet ${id}:`, error);
       throw error;
     }
   }
   
-  // Exchange rates operations
-  async getExchangeRate(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<ExchangeRate | undefined> {
+  async adjustWalletPartnerBalance(id: number, amount: number): Promise<void> {
     try {
-      const [rate] = await db
-        .select()
-        .from(exchangeRates)
-        .where(
-          and(
-            eq(exchangeRates.fromProgram, fromProgram),
-            eq(exchangeRates.toProgram, toProgram)
-          )
-        );
-      
-      return rate;
+      await this.db
+        .update(wallets)
+        .set({ partnerBalance: sql`${wallets.partnerBalance} + ${amount}` })
+        .where(and(eq(wallets.id, id), isNotNull(wallets.partnerBalance)));
     } catch (error) {
-      console.error(`Error fetching exchange rate from ${fromProgram} to ${toProgram}:`, error);
+      console.error(`Error adjusting partner balance of wallet ${id}:`, error);
       throw error;
     }
   }
   
-  // Tier benefits operations
-  async getTierBenefits(tier: MembershipTier): Promise<TierBenefit | undefined> {
+  async createBalanceSync(data: NewBalanceSync): Promise<BalanceSync> {
     try {
-      const [benefits] = await db
-        .select()
-        .from(tierBenefits)
-        .where(eq(tierBenefits.tier, tier));
+      const [sync] = await this.db
+        .insert(balanceSyncs)
+        .values(data)
+        .returning();
       
-      return benefits;
+      return sync;
     } catch (error) {
-      console.error(`Error fetching benefits for tier ${tier}:`, error);
+      console.error(`Error recording balance sync of wallet ${data.walletId}:`, error);
       throw error;
     }
   }
   
-  async createTierBenefits(benefits: InsertTierBenefits): Promise<TierBenefit> {
+  async getWalletBalanceSyncs(walletId: number, limit: number): Promise<BalanceSync[]> {
     try {
-      const [newBenefits] = await db
-        .insert(tierBenefits)
-        .values(benefits)
-        .returning();
-      
-      return newBenefits;
+      return await this.db
+        .select()
+        .from(balanceSyncs)
+        .where(eq(balanceSyncs.walletId, walletId))
+        .orderBy(desc(balanceSyncs.id))
+        .limit(limit);
     } catch (error) {
-      console.error("Error creating tier benefits:", error);
+      console.error(`Error fetching balance syncs of wallet ${walletId}:`, error);
       throw error;
     }
   }
   
-  async initializeTierBenefits(): Promise<void> {
+  async getBalanceSyncsByStatus(status: BalanceSyncStatus, limit: number): Promise<BalanceSync[]> {
     try {
-      const existingBenefits = await db.select().from(tierBenefits);
-      
-      if (existingBenefits.length === 0) {
-        await db.insert(tierBenefits).values([
-          {
-            tier: "STANDARD",
-            monthlyPointsThreshold: 0,
-            freeConversionLimit: 10000,
-            conversionFeeRate: "0.005",
-            p2pMinimumFee: "0.005",
-            p2pMaximumFee: "0.03",
-            monthlyExpiryDays: 30
-          },
-          {
-            tier: "SILVER",
-            monthlyPointsThreshold: 20000,
-            freeConversionLimit: 20000,
-            conversionFeeRate: "0.0045",
-            p2pMinimumFee: "0.004",
-            p2pMaximumFee: "0.025",
-            monthlyExpiryDays: 45
-          },
-          {
-            tier: "GOLD",
-            monthlyPointsThreshold: 50000,
-            freeConversionLimit: 50000,
-            conversionFeeRate: "0.0035",
-            p2pMinimumFee: "0.003",
-            p2pMaximumFee: "0.02",
-            monthlyExpiryDays: 60
-          },
-          {
-            tier: "PLATINUM",
-            monthlyPointsThreshold: 100000,
-            freeConversionLimit: 100000,
-            conversionFeeRate: "0.0025",
-            p2pMinimumFee: "0.002",
-            p2pMaximumFee: "0.015",
-            monthlyExpiryDays: 90
-          }
-        ]);
-      }
+      return await this.db
+        .select()
+        .from(balanceSyncs)
+        .where(eq(balanceSyncs.status, status))
+        .orderBy(asc(balanceSyncs.id))
+        .limit(limit);
     } catch (error) {
-      console.error("Error initializing tier benefits:", error);
+      console.error(`Error fetching ${status} balance syncs:`, error);
       throw error;
     }
   }
   
-  // Trading operations
-  async getTradeOffers(excludeUserId?: number): Promise<TradeOffer[]> {
+  async lockBalanceSync(id: number): Promise<BalanceSync | undefined> {
     try {
-      if (excludeUserId) {
-        return await db
-          .select()
-          .from(tradeOffers)
-          .where(
-            and(
-              eq(tradeOffers.status, "open"),
-              ne(tradeOffers.createdBy, excludeUserId)
-            )
-          );
-      } else {
-        return await db
-          .select()
-          .from(tradeOffers)
-          .where(eq(tradeOffers.status, "open"));
-      }
+      const [sync] = await this.db
+        .select()
+        .from(balanceSyncs)
+        .where(eq(balanceSyncs.id, id))
+        .for("update");
+      
+      return sync;
     } catch (error) {
-      console.error("Error fetching trade offers:", error);
+      console.error(`Error locking balance sync ${id}:`, error);
       throw error;
     }
   }
   
-  async getUserTradeOffers(userId: number): Promise<TradeOffer[]> {
+  async updateBalanceSync(id: number, updates: BalanceSyncUpdate): Promise<BalanceSync> {
     try {
-      const offers = await db
+      const [sync] = await this.db
+        .update(balanceSyncs)
+        .set(updates)
+        .where(eq(balanceSyncs.id, id))
+        .returning();
+      
+      return sync;
+    } catch (error) {
+      console.error(`Error updating balance sync ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Account verification operations
+  async createAccountVerification(data: NewAccountVerification): Promise<AccountVerification> {
+    try {
+      const [verification] = await this.db
+        .insert(accountVerifications)
+        .values(data)
+        .returning();
+      
+      return verification;
+    } catch (error) {
+      console.error(`Error creating account verification for wallet ${data.walletId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getPendingAccountVerification(walletId: number): Promise<AccountVerification | undefined> {
+    try {
+      const [verification] = await this.db
         .select()
-        .from(tradeOffers)
-        .where(eq(tradeOffers.createdBy, userId));
+        .from(accountVerifications)
+        .where(and(eq(accountVerifications.walletId, walletId), eq(accountVerifications.status, "pending")))
+        .orderBy(desc(accountVerifications.id))
+        .limit(1);
       
-      return offers;
+      return verification;
     } catch (error) {
-      console.error(`Error fetching trade offers for user ${userId}:`, error);
+      console.error(`Error fetching pending verification for wallet ${walletId}:`, error);
       throw error;
     }
   }
   
-  async getTradeOffer(id: number): Promise<TradeOffer | undefined> {
+  async lockAccountVerification(id: number): Promise<AccountVerification | undefined> {
     try {
-      const [offer] = await db
+      const [verification] = await this.db
         .select()
-        .from(tradeOffers)
-        .where(eq(tradeOffers.id, id));
+        .from(accountVerifications)
+        .where(eq(accountVerifications.id, id))
+        .for("update");
       
-      return offer;
+      return verification;
     } catch (error) {
-      console.error(`Error fetching trade offer ${id}:`, error);
+      console.error(`Error locking account verification ${id}:`, error);
       throw error;
     }
   }
   
-  async createTradeOffer(data: Omit<TradeOffer, "id" | "createdAt" | "status">): Promise<TradeOffer> {
+  async updateAccountVerification(id: number, updates: AccountVerificationUpdate): Promise<AccountVerification> {
     try {
-      const [offer] = await db
-        .insert(tradeOffers)
-        .values({
-          ...data,
-          status: "open"
-        })
+      const [verification] = await this.db
+        .update(accountVerifications)
+        .set(updates)
+        .where(eq(accountVerifications.id, id))
         .returning();
       
-      return offer;
+      return verification;
     } catch (error) {
-      console.error("Error creating trade offer:", error);
+      console.error(`Error updating account verification ${id}:`, error);
       throw error;
     }
   }
   
-  async updateTradeOfferStatus(id: number, status: string): Promise<TradeOffer | undefined> {
+  async supersedePendingVerifications(walletId: number): Promise<number> {
     try {
-      const [updatedOffer] = await db
-        .update(tradeOffers)
-        .set({ status })
-        .where(eq(tradeOffers.id, id))
+      const superseded = await this.db
+        .update(accountVerifications)
+        .set({ status: "superseded", completedAt: new Date() })
+        .where(and(eq(accountVerifications.walletId, walletId), eq(accountVerifications.status, "pending")))
+        .returning({ id: accountVerifications.id });
+      
+      return superseded.length;
+    } catch (error) {
+      console.error(`Error superseding verifications for wallet ${walletId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Transaction operations
+  // Gift operations
+  async createPointGift(data: NewPointGift): Promise<PointGift> {
+    try {
+      const [gift] = await this.db
+        .insert(pointGifts)
+        .values(data)
         .returning();
       
-      return updatedOffer;
+      return gift;
     } catch (error) {
-      console.error(`Error updating trade offer ${id} status:`, error);
+      console.error(`Error creating gift from user ${data.senderId}:`, error);
       throw error;
     }
   }
   
-  async getTradeHistory(userId: number): Promise<TradeTransaction[]> {
+  async getPointGift(id: number): Promise<PointGift | undefined> {
     try {
-      const transactions = await db
+      const [gift] = await this.db
         .select()
-        .from(tradeTransactions)
-        .where(
-          or(
-            eq(tradeTransactions.buyerId, userId),
-            eq(tradeTransactions.sellerId, userId)
-          )
-        );
+        .from(pointGifts)
+        .where(eq(pointGifts.id, id));
       
-      return transactions;
+      return gift;
     } catch (error) {
-      console.error(`Error fetching trade history for user ${userId}:`, error);
+      console.error(`Error fetching gift ${id}:`, error);
       throw error;
     }
   }
   
-  async createTradeTransaction(data: Omit<TradeTransaction, "id" | "completedAt">): Promise<TradeTransaction> {
+  async lockPointGift(id: number): Promise<PointGift | undefined> {
     try {
-      const [transaction] = await db
-        .insert(tradeTransactions)
-        .values(data)
-        .returning();
+      const [gift] = await this.db
+        .select()
+        .from(pointGifts)
+        .where(eq(pointGifts.id, id))
+        .for("update");
       
-      return transaction;
+      return gift;
     } catch (error) {
-      console.error("Error creating trade transaction:", error);
+      console.error(`Error locking gift ${id}:`, error);
       throw error;
     }
   }
   
-  // Blockchain wallet management methods
-  async updateUserWallet(userId: number, walletAddress: string, walletPrivateKey: string): Promise<User> {
+  async updatePointGift(id: number, updates: PointGiftUpdate): Promise<PointGift> {
     try {
-      const [updatedUser] = await db
-        .update(users)
-        .set({ walletAddress, walletPrivateKey, tokenLedgerSynced: new Date() })
-        .where(eq(users.id, userId))
+      const [gift] = await this.db
+        .update(pointGifts)
+        .set(updates)
+        .where(eq(pointGifts.id, id))
         .returning();
       
-      return updatedUser;
+      return gift;
     } catch (error) {
-      console.error(`Error updating wallet for user ${userId}:`, error);
+      console.error(`Error updating gift ${id}:`, error);
       throw error;
     }
   }
   
-  async updateTokenBalance(userId: number, balance: number): Promise<User> {
+  async getUserPointGifts(userId: number, email: string, limit: number): Promise<PointGift[]> {
     try {
-      const [updatedUser] = await db
-        .update(users)
-        .set({ tokenBalance: balance, tokenLedgerSynced: new Date() })
-        .where(eq(users.id, userId))
+      return await this.db
+        .select()
+        .from(pointGifts)
+        .where(
+          or(
+            eq(pointGifts.senderId, userId),
+            eq(pointGifts.recipientId, userId),
+            and(eq(pointGifts.recipientEmail, email.toLowerCase()), eq(pointGifts.status, "pending"))
+          )
+        )
+        .orderBy(desc(pointGifts.createdAt), desc(pointGifts.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching gifts for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getGiftsSentSince(senderId: number, since: Date): Promise<PointGift[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointGifts)
+        .where(and(eq(pointGifts.senderId, senderId), gte(pointGifts.createdAt, since)));
+    } catch (error) {
+      console.error(`Error fetching recent gifts from user ${senderId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getPendingGiftsFromSender(senderId: number): Promise<PointGift[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointGifts)
+        .where(and(eq(pointGifts.senderId, senderId), eq(pointGifts.status, "pending")));
+    } catch (error) {
+      console.error(`Error fetching pending gifts from user ${senderId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getPendingGiftsForEmail(email: string): Promise<PointGift[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointGifts)
+        .where(and(eq(pointGifts.recipientEmail, email.toLowerCase()), eq(pointGifts.status, "pending")));
+    } catch (error) {
+      console.error(`Error fetching pending gifts by email:`, error);
+      throw error;
+    }
+  }
+  
+  async getExpiredPendingGifts(now: Date, limit: number): Promise<PointGift[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointGifts)
+        .where(and(eq(pointGifts.status, "pending"), lt(pointGifts.expiresAt, now)))
+        .orderBy(asc(pointGifts.expiresAt))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching expired gifts:`, error);
+      throw error;
+    }
+  }
+  
+  // Point request operations
+  async createPointRequest(data: NewPointRequest): Promise<PointRequest> {
+    try {
+      const [request] = await this.db
+        .insert(pointRequests)
+        .values(data)
         .returning();
       
-      return updatedUser;
+      return request;
     } catch (error) {
-      console.error(`Error updating token balance for user ${userId}:`, error);
+      console.error(`Error creating point request for user ${data.requesterId}:`, error);
       throw error;
     }
   }
   
-  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+  async getPointRequestByToken(token: string): Promise<PointRequest | undefined> {
     try {
-      const [user] = await db
+      const [request] = await this.db
         .select()
-        .from(users)
-        .where(eq(users.walletAddress, walletAddress));
+        .from(pointRequests)
+        .where(eq(pointRequests.token, token));
       
-      return user;
+      return request;
     } catch (error) {
-      console.error(`Error finding user by wallet address ${walletAddress}:`, error);
+      console.error(`Error fetching point request by token:`, error);
       throw error;
     }
   }
   
-  // Business analytics operations
-  async getBusinessAnalytics(businessId: number): Promise<BusinessAnalytics | undefined> {
-    // Simplified implementation
-    return undefined;
+  async lockPointRequest(id: number): Promise<PointRequest | undefined> {
+    try {
+      const [request] = await this.db
+        .select()
+        .from(pointRequests)
+        .where(eq(pointRequests.id, id))
+        .for("update");
+      
+      return request;
+    } catch (error) {
+      console.error(`Error locking point request ${id}:`, error);
+      throw error;
+    }
   }
   
-  async updateBusinessAnalytics(businessId: number, data: Partial<InsertBusinessAnalytics>): Promise<BusinessAnalytics> {
-    // Simplified implementation
-    throw new Error("Not implemented");
+  async updatePointRequest(id: number, updates: PointRequestUpdate): Promise<PointRequest> {
+    try {
+      const [request] = await this.db
+        .update(pointRequests)
+        .set(updates)
+        .where(eq(pointRequests.id, id))
+        .returning();
+      
+      return request;
+    } catch (error) {
+      console.error(`Error updating point request ${id}:`, error);
+      throw error;
+    }
   }
   
-  async bulkIssuePoints(data: BulkPointIssuanceData): Promise<number> {
-    // Simplified implementation
-    return 0;
+  async getUserPointRequests(userId: number, limit: number): Promise<PointRequest[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointRequests)
+        .where(eq(pointRequests.requesterId, userId))
+        .orderBy(desc(pointRequests.createdAt), desc(pointRequests.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching point requests for user ${userId}:`, error);
+      throw error;
+    }
   }
   
-  // Blockchain and tokenization operations
-  async getAllUserTokenBalances(): Promise<{ id: number, tokenBalance: number | null }[]> {
+  async getExpiredPointRequests(now: Date, limit: number): Promise<PointRequest[]> {
     try {
-      const userBalances = await db
-        .select({
-          id: users.id,
-          tokenBalance: users.tokenBalance
-        })
-        .from(users)
-        .where(sql`${users.tokenBalance} is not null`);
-      
-      return userBalances;
+      return await this.db
+        .select()
+        .from(pointRequests)
+        .where(and(eq(pointRequests.status, "open"), lt(pointRequests.expiresAt, now)))
+        .orderBy(asc(pointRequests.expiresAt))
+        .limit(limit);
     } catch (error) {
-      console.error("Error fetching all user token balances:", error);
+      console.error(`Error fetching expired point requests:`, error);
       throw error;
     }
   }
   
-  async getAllConversionTransactions(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<Transaction[]> {
+  async getUserTransactions(userId: number): Promise<Transaction[]> {
     try {
-      const conversionTransactions = await db
+      const userTransactions = await this.db
         .select()
         .from(transactions)
-        .where(
-          and(
-            eq(transactions.fromProgram, fromProgram),
-            eq(transactions.toProgram, toProgram)
-          )
-        );
+        .where(eq(transactions.userId, userId))
+        .orderBy(desc(transactions.timestamp));
       
-      return conversionTransactions;
+      return userTransactions;
     } catch (error) {
-      console.error(`Error fetching conversion transactions from ${fromProgram} to ${toProgram}:`, error);
+      console.error(`Error fetching transactions for user ${userId}:`, error);
       throw error;
     }
   }
-}
-
-// In-Memory Storage Implementation
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private wallets: Map<number, Wallet>;
-  private transactions: Map<number, Transaction>;
-  private exchangeRates: Map<string, ExchangeRate>;
-  private tierBenefits: Map<string, TierBenefit>;
-  private tradeOffers: Map<number, TradeOffer>;
-  private tradeTransactions: Map<number, TradeTransaction>;
-  currentUserId: number;
-  currentWalletId: number;
-  currentTransactionId: number;
-  currentExchangeRateId: number;
-  currentTradeOfferId: number;
-  currentTradeTransactionId: number;
-  sessionStore: SessionStore;
   
-  constructor() {
-    this.users = new Map();
-    this.wallets = new Map();
-    this.transactions = new Map();
-    this.exchangeRates = new Map();
-    this.tierBenefits = new Map();
-    this.tradeOffers = new Map();
-    this.tradeTransactions = new Map();
-    this.currentUserId = 1;
-    this.currentWalletId = 1;
-    this.currentTransactionId = 1;
-    this.currentExchangeRateId = 1;
-    this.currentTradeOfferId = 1;
-    this.currentTradeTransactionId = 1;
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000,
-    });
-    
-    // Initialize tier benefits
-    this.initializeTierBenefits();
+  async queryUserTransactions(userId: number, filter: TransactionFilter, page: TransactionPageOptions): Promise<Transaction[]> {
+    try {
+      const conditions: (SQL | undefined)[] = [];
+      
+      // Newest/oldest go by id: ids follow creation order and never tie
+      const descending = page.sort === "newest" || page.sort === "largest";
+      const byAmount = page.sort === "largest" || page.sort === "smallest";
+      
+      if (filter.direction === "out") {
+        conditions.push(eq(transactions.userId, userId));
+        if (filter.program) conditions.push(eq(transactions.fromProgram, filter.program));
+      } else if (filter.direction === "in") {
+        conditions.push(eq(transactions.recipientId, userId));
+        if (filter.program) conditions.push(eq(transactions.toProgram, filter.program));
+      } else {
+        conditions.push(or(eq(transactions.userId, userId), eq(transactions.recipientId, userId)));
+        if (filter.program) {
+          conditions.push(or(eq(transactions.fromProgram, filter.program), eq(transactions.toProgram, filter.program)));
+        }
+      }
+      
+      if (filter.status) conditions.push(eq(transactions.status, filter.status));
+      if (filter.type) conditions.push(eq(transactions.type, filter.type));
+      if (filter.from) conditions.push(gte(transactions.timestamp, filter.from));
+      if (filter.to) conditions.push(lte(transactions.timestamp, filter.to));
+      if (filter.minAmount !== undefined) conditions.push(gte(transactions.amountFrom, filter.minAmount));
+      if (filter.maxAmount !== undefined) conditions.push(lte(transactions.amountFrom, filter.maxAmount));
+      
+      if (page.after) {
+        const past = descending ? lt : gt;
+        if (byAmount && page.after.amountFrom !== undefined) {
+          conditions.push(or(
+            past(transactions.amountFrom, page.after.amountFrom),
+            and(eq(transactions.amountFrom, page.after.amountFrom), past(transactions.id, page.after.id))
+          ));
+        } else {
+          conditions.push(past(transactions.id, page.after.id));
+        }
+      }
+      
+      const direction = descending ? desc : asc;
+      const ordering = byAmount
+        ? [direction(transactions.amountFrom), direction(transactions.id)]
+        : [direction(transactions.id)];
+      
+      return await this.db
+        .select()
+        .from(transactions)
+        .where(and(...conditions))
+        .orderBy(...ordering)
+        .limit(page.limit);
+    } catch (error) {
+      console.error(`Error querying transactions for user ${userId}:`, error);
+      throw error;
+    }
   }
   
-  // Add implementation for all required methods...
-  // Keeping the implementation simple as we're focused on database storage
-  
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+  async createTransaction(transactionData: NewTransaction): Promise<Transaction> {
+    try {
+      const [transaction] = await this.db
+        .insert(transactions)
+        .values(transactionData)
+        .returning();
+      
+      await this.db
+        .insert(transactionStatusEvents)
+        .values({ transactionId: transaction.id, fromStatus: null, toStatus: transaction.status });
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error creating transaction:`, error);
+      throw error;
+    }
   }
   
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.username === username);
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    try {
+      const [transaction] = await this.db
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id));
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error fetching transaction ${id}:`, error);
+      throw error;
+    }
   }
   
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const userId = this.currentUserId++;
-    const now = new Date();
+  async lockTransaction(id: number): Promise<Transaction | undefined> {
+    try {
+      const [transaction] = await this.db
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for("update");
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error locking transaction ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTransactionsByStatus(status: TransactionStatus, limit: number): Promise<Transaction[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactions)
+        .where(eq(transactions.status, status))
+        .orderBy(asc(transactions.statusUpdatedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching ${status} transactions:`, error);
+      throw error;
+    }
+  }
+  
+  async getHeldTransfers(userId: number): Promise<Transaction[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactions)
+        .where(and(
+          eq(transactions.userId, userId),
+          inArray(transactions.status, ["pending", "submitted"]),
+          isNotNull(transactions.holdEntryId)
+        ));
+    } catch (error) {
+      console.error(`Error fetching held transfers for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async transitionTransaction(id: number, to: TransactionStatus, details: TransitionDetails = {}): Promise<Transaction> {
+    const current = await this.getTransaction(id);
+    if (!current) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+    
+    if (!canTransition(current.status, to)) {
+      throw new InvalidTransitionError(current.status, to);
+    }
+    
+    try {
+      // Only move it if nobody else has since - a concurrent transition leaves no row to update
+      const [transaction] = await this.db
+        .update(transactions)
+        .set({
+          status: to,
+          statusUpdatedAt: new Date(),
+          ...(to === "failed" ? { failureReason: details.reason ?? null } : {}),
+          ...(details.journalEntryId !== undefined ? { journalEntryId: details.journalEntryId } : {}),
+          ...(details.holdEntryId !== undefined ? { holdEntryId: details.holdEntryId } : {}),
+          ...(details.partnerReference !== undefined ? { partnerReference: details.partnerReference } : {})
+        })
+        .where(
+          and(
+            eq(transactions.id, id),
+            eq(transactions.status, current.status)
+          )
+        )
+        .returning();
+      
+      if (!transaction) {
+        throw new InvalidTransitionError(current.status, to);
+      }
+      
+      await this.db
+        .insert(transactionStatusEvents)
+        .values({ transactionId: id, fromStatus: current.status, toStatus: to, reason: details.reason ?? null });
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error moving transaction ${id} to ${to}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTransactionStatusEvents(transactionId: number): Promise<TransactionStatusEvent[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactionStatusEvents)
+        .where(eq(transactionStatusEvents.transactionId, transactionId))
+        .orderBy(asc(transactionStatusEvents.id));
+    } catch (error) {
+      console.error(`Error fetching status events for transaction ${transactionId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Reversal operations
+  async createTransactionReversal(data: NewTransactionReversal): Promise<TransactionReversal | undefined> {
+    try {
+      // transaction_reversals_open_unique allows one requested or approved reversal per transaction
+      const [reversal] = await this.db
+        .insert(transactionReversals)
+        .values(data)
+        .onConflictDoNothing()
+        .returning();
+      
+      return reversal;
+    } catch (error) {
+      console.error(`Error requesting reversal of transaction ${data.transactionId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTransactionReversals(status?: ReversalStatus): Promise<TransactionReversal[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactionReversals)
+        .where(status ? eq(transactionReversals.status, status) : undefined)
+        .orderBy(desc(transactionReversals.id));
+    } catch (error) {
+      console.error("Error fetching transaction reversals:", error);
+      throw error;
+    }
+  }
+  
+  async lockTransactionReversal(id: number): Promise<TransactionReversal | undefined> {
+    try {
+      const [reversal] = await this.db
+        .select()
+        .from(transactionReversals)
+        .where(eq(transactionReversals.id, id))
+        .for("update");
+      
+      return reversal;
+    } catch (error) {
+      console.error(`Error locking reversal ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async reviewTransactionReversal(id: number, review: ReversalReview): Promise<TransactionReversal> {
+    try {
+      const [reversal] = await this.db
+        .update(transactionReversals)
+        .set(review)
+        .where(eq(transactionReversals.id, id))
+        .returning();
+      
+      return reversal;
+    } catch (error) {
+      console.error(`Error reviewing reversal ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Ledger operations
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (txDb) => fn(new DatabaseStorage(txDb, this.sessionStore)));
+  }
+  
+  async withSnapshot<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(
+      async (txDb) => fn(new DatabaseStorage(txDb, this.sessionStore)),
+      { isolationLevel: "repeatable read", accessMode: "read only" }
+    );
+  }
+  
+  async lockWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined> {
+    try {
+      const [wallet] = await this.db
+        .select()
+        .from(wallets)
+        .where(
+          and(
+            eq(wallets.userId, userId),
+            eq(wallets.program, program)
+          )
+        )
+        .for("update");
+      
+      return wallet;
+    } catch (error) {
+      console.error(`Error locking wallet for user ${userId} and program ${program}:`, error);
+      throw error;
+    }
+  }
+  
+  async postJournalEntry(entryData: InsertJournalEntry, postingData: InsertLedgerPosting[], lots: LotOptions = {}): Promise<PostedJournalEntry> {
+    assertBalancedPostings(postingData);
+    
+    try {
+      return await this.db.transaction(async (txDb) => {
+        // Lock every touched wallet in id order so concurrent entries cannot deadlock
+        const walletIds = Array.from(new Set(
+          postingData.map(p => p.walletId).filter((id): id is number => !!id)
+        )).sort((a, b) => a - b);
+        
+        const lockedWallets = new Map<number, Wallet>();
+        if (walletIds.length > 0) {
+          const rows = await txDb
+            .select()
+            .from(wallets)
+            .where(inArray(wallets.id, walletIds))
+            .orderBy(asc(wallets.id))
+            .for("update");
+          rows.forEach(wallet => lockedWallets.set(wallet.id, wallet));
+        }
+        
+        const balanceAfter = applyWalletPostings(postingData, lockedWallets);
+        
+        const [entry] = await txDb
+          .insert(journalEntries)
+          .values(entryData)
+          .returning();
+        
+        const postings = await txDb
+          .insert(ledgerPostings)
+          .values(postingData.map((posting, i) => ({
+            ...posting,
+            entryId: entry.id,
+            balanceAfter: balanceAfter[i]
+          })))
+          .returning();
+        
+        await this.postLotMovements(txDb, entry, postingData, lockedWallets, lots);
+        
+        const updatedWallets: Wallet[] = [];
+        for (const wallet of Array.from(lockedWallets.values())) {
+          const [updatedWallet] = await txDb
+            .update(wallets)
+            .set({ balance: wallet.balance })
+            .where(eq(wallets.id, wallet.id))
+            .returning();
+          updatedWallets.push(updatedWallet);
+        }
+        
+        return { entry, postings, wallets: updatedWallets };
+      });
+    } catch (error) {
+      console.error(`Error posting ${entryData.type} journal entry:`, error);
+      throw error;
+    }
+  }
+  
+  async getJournalPostings(entryId: number): Promise<LedgerPosting[]> {
+    try {
+      return await this.db
+        .select()
+        .from(ledgerPostings)
+        .where(eq(ledgerPostings.entryId, entryId))
+        .orderBy(asc(ledgerPostings.id));
+    } catch (error) {
+      console.error(`Error fetching postings for journal entry ${entryId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Opens and draws on the points lots of the wallets an entry touches (see lots.ts)
+  private async postLotMovements(
+    txDb: DbExecutor,
+    entry: JournalEntry,
+    postingData: InsertLedgerPosting[],
+    lockedWallets: Map<number, Wallet>,
+    options: LotOptions
+  ): Promise<void> {
+    const walletIds = Array.from(lockedWallets.keys());
+    if (walletIds.length === 0) return;
+    
+    const openLots = await txDb
+      .select()
+      .from(pointLots)
+      .where(and(inArray(pointLots.walletId, walletIds), gt(pointLots.remaining, 0)))
+      .orderBy(asc(pointLots.id))
+      .for("update");
+    
+    let drawnLots: DrawnLot[] = [];
+    if (entry.reference && RELEASE_ENTRY_TYPES.includes(entry.type)) {
+      const rows = await txDb
+        .select({
+          lotId: pointLotMovements.lotId,
+          walletId: pointLots.walletId,
+          amount: sql<string>`sum(${pointLotMovements.amount})`
+        })
+        .from(pointLotMovements)
+        .innerJoin(pointLots, eq(pointLots.id, pointLotMovements.lotId))
+        .innerJoin(journalEntries, eq(journalEntries.id, pointLotMovements.entryId))
+        .where(
+          and(
+            eq(journalEntries.reference, entry.reference),
+            ne(journalEntries.id, entry.id),
+            inArray(pointLots.walletId, walletIds)
+          )
+        )
+        .groupBy(pointLotMovements.lotId, pointLots.walletId)
+        .orderBy(asc(pointLotMovements.lotId));
+      drawnLots = rows.map(row => ({ lotId: row.lotId, walletId: row.walletId, amount: Number(row.amount) }));
+    }
+    
+    const plan: LotPlan = planLotMovements(entry, postingData, openLots, drawnLots, LOT_POLICY, options, entry.createdAt);
+    
+    for (const movement of plan.movements) {
+      await txDb
+        .update(pointLots)
+        .set({ remaining: sql`${pointLots.remaining} - ${movement.amount}` })
+        .where(eq(pointLots.id, movement.lotId));
+    }
+    
+    if (plan.movements.length > 0) {
+      await txDb
+        .insert(pointLotMovements)
+        .values(plan.movements.map(movement => ({ ...movement, entryId: entry.id })));
+    }
+    
+    if (plan.created.length > 0) {
+      await txDb
+        .insert(pointLots)
+        .values(plan.created.map(lot => ({
+          ...lot,
+          userId: lockedWallets.get(lot.walletId)!.userId,
+          entryId: entry.id,
+          remaining: lot.amount
+        })));
+    }
+  }
+  
+  // Points lot operations
+  async getUserLots(userId: number): Promise<PointLot[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointLots)
+        .where(and(eq(pointLots.userId, userId), gt(pointLots.remaining, 0)))
+        .orderBy(sql`${pointLots.expiresAt} asc nulls last`, asc(pointLots.id));
+    } catch (error) {
+      console.error(`Error fetching points lots for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getExpiredLots(now: Date, limit: number): Promise<PointLot[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointLots)
+        .where(and(lte(pointLots.expiresAt, now), gt(pointLots.remaining, 0)))
+        .orderBy(asc(pointLots.expiresAt), asc(pointLots.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error fetching expired points lots:", error);
+      throw error;
+    }
+  }
+  
+  async getUnnotifiedLotsExpiringBefore(before: Date, limit: number): Promise<PointLot[]> {
+    try {
+      return await this.db
+        .select()
+        .from(pointLots)
+        .where(
+          and(
+            lte(pointLots.expiresAt, before),
+            gt(pointLots.remaining, 0),
+            sql`${pointLots.notifiedAt} is null`
+          )
+        )
+        .orderBy(asc(pointLots.expiresAt), asc(pointLots.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error fetching points lots to notify:", error);
+      throw error;
+    }
+  }
+  
+  async lockPointLot(id: number): Promise<PointLot | undefined> {
+    try {
+      const [lot] = await this.db
+        .select()
+        .from(pointLots)
+        .where(eq(pointLots.id, id))
+        .for("update");
+      
+      return lot;
+    } catch (error) {
+      console.error(`Error locking points lot ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async markLotsNotified(ids: number[], at: Date): Promise<void> {
+    if (ids.length === 0) return;
+    
+    try {
+      await this.db
+        .update(pointLots)
+        .set({ notifiedAt: at })
+        .where(inArray(pointLots.id, ids));
+    } catch (error) {
+      console.error("Error marking points lots notified:", error);
+      throw error;
+    }
+  }
+  
+  // Notification operations
+  async createNotification(data: NewNotification): Promise<Notification> {
+    try {
+      const [notification] = await this.db
+        .insert(notifications)
+        .values(data)
+        .returning();
+      
+      return notification;
+    } catch (error) {
+      console.error(`Error creating notification for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserNotifications(userId: number, limit: number): Promise<Notification[]> {
+    try {
+      return await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.userId, userId))
+        .orderBy(desc(notifications.createdAt), desc(notifications.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching notifications for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    try {
+      const [notification] = await this.db
+        .update(notifications)
+        .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+        .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+        .returning();
+      
+      return notification;
+    } catch (error) {
+      console.error(`Error marking notification ${id} read:`, error);
+      throw error;
+    }
+  }
+  
+  // Conversion quote operations
+  async createConversionQuote(data: InsertConversionQuote): Promise<ConversionQuote> {
+    try {
+      const [quote] = await this.db
+        .insert(conversionQuotes)
+        .values(data)
+        .returning();
+      
+      return quote;
+    } catch (error) {
+      console.error(`Error creating conversion quote for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getConversionQuote(id: string): Promise<ConversionQuote | undefined> {
+    try {
+      const [quote] = await this.db
+        .select()
+        .from(conversionQuotes)
+        .where(eq(conversionQuotes.id, id));
+      
+      return quote;
+    } catch (error) {
+      console.error(`Error fetching conversion quote ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockConversionQuote(id: string): Promise<ConversionQuote | undefined> {
+    try {
+      const [quote] = await this.db
+        .select()
+        .from(conversionQuotes)
+        .where(eq(conversionQuotes.id, id))
+        .for("update");
+      
+      return quote;
+    } catch (error) {
+      console.error(`Error locking conversion quote ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async markConversionQuoteExecuted(id: string, transactionId: number): Promise<ConversionQuote> {
+    try {
+      const [quote] = await this.db
+        .update(conversionQuotes)
+        .set({ 
+          status: "executed",
+          transactionId,
+          executedAt: new Date()
+        })
+        .where(eq(conversionQuotes.id, id))
+        .returning();
+      
+      return quote;
+    } catch (error) {
+      console.error(`Error marking conversion quote ${id} as executed:`, error);
+      throw error;
+    }
+  }
+  
+  // Conversion order operations
+  async createConversionOrder(data: InsertConversionOrder): Promise<ConversionOrder> {
+    try {
+      const [order] = await this.db
+        .insert(conversionOrders)
+        .values(data)
+        .returning();
+      
+      return order;
+    } catch (error) {
+      console.error("Error creating conversion order:", error);
+      throw error;
+    }
+  }
+  
+  async getConversionOrder(id: number): Promise<ConversionOrder | undefined> {
+    try {
+      const [order] = await this.db
+        .select()
+        .from(conversionOrders)
+        .where(eq(conversionOrders.id, id));
+      
+      return order;
+    } catch (error) {
+      console.error(`Error fetching conversion order ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockConversionOrder(id: number): Promise<ConversionOrder | undefined> {
+    try {
+      const [order] = await this.db
+        .select()
+        .from(conversionOrders)
+        .where(eq(conversionOrders.id, id))
+        .for("update");
+      
+      return order;
+    } catch (error) {
+      console.error(`Error locking conversion order ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserConversionOrders(userId: number): Promise<ConversionOrder[]> {
+    try {
+      return await this.db
+        .select()
+        .from(conversionOrders)
+        .where(eq(conversionOrders.userId, userId))
+        .orderBy(desc(conversionOrders.createdAt));
+    } catch (error) {
+      console.error(`Error fetching conversion orders for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getOpenConversionOrders(): Promise<ConversionOrder[]> {
+    try {
+      return await this.db
+        .select()
+        .from(conversionOrders)
+        .where(eq(conversionOrders.status, "open"))
+        .orderBy(asc(conversionOrders.createdAt));
+    } catch (error) {
+      console.error("Error fetching open conversion orders:", error);
+      throw error;
+    }
+  }
+  
+  async markConversionOrderExecuted(id: number, transactionId: number, executedRate: string): Promise<ConversionOrder> {
+    try {
+      const [order] = await this.db
+        .update(conversionOrders)
+        .set({
+          status: "executed",
+          transactionId,
+          executedRate,
+          closedAt: new Date()
+        })
+        .where(eq(conversionOrders.id, id))
+        .returning();
+      
+      return order;
+    } catch (error) {
+      console.error(`Error marking conversion order ${id} as executed:`, error);
+      throw error;
+    }
+  }
+  
+  async closeConversionOrder(id: number, status: "cancelled" | "expired", closeReason: string | null = null): Promise<ConversionOrder> {
+    try {
+      const [order] = await this.db
+        .update(conversionOrders)
+        .set({ status, closedAt: new Date(), closeReason })
+        .where(eq(conversionOrders.id, id))
+        .returning();
+      
+      return order;
+    } catch (error) {
+      console.error(`Error closing conversion order ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Sweep schedule operations
+  async createSweepSchedule(data: InsertSweepSchedule): Promise<SweepSchedule> {
+    try {
+      const [schedule] = await this.db
+        .insert(sweepSchedules)
+        .values(data)
+        .returning();
+      
+      return schedule;
+    } catch (error) {
+      console.error("Error creating sweep schedule:", error);
+      throw error;
+    }
+  }
+  
+  async getSweepSchedule(id: number): Promise<SweepSchedule | undefined> {
+    try {
+      const [schedule] = await this.db
+        .select()
+        .from(sweepSchedules)
+        .where(eq(sweepSchedules.id, id));
+      
+      return schedule;
+    } catch (error) {
+      console.error(`Error fetching sweep schedule ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockSweepSchedule(id: number): Promise<SweepSchedule | undefined> {
+    try {
+      const [schedule] = await this.db
+        .select()
+        .from(sweepSchedules)
+        .where(eq(sweepSchedules.id, id))
+        .for("update");
+      
+      return schedule;
+    } catch (error) {
+      console.error(`Error locking sweep schedule ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserSweepSchedules(userId: number): Promise<SweepSchedule[]> {
+    try {
+      return await this.db
+        .select()
+        .from(sweepSchedules)
+        .where(eq(sweepSchedules.userId, userId))
+        .orderBy(desc(sweepSchedules.createdAt));
+    } catch (error) {
+      console.error(`Error fetching sweep schedules for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getDueSweepSchedules(now: Date): Promise<SweepSchedule[]> {
+    try {
+      return await this.db
+        .select()
+        .from(sweepSchedules)
+        .where(
+          and(
+            eq(sweepSchedules.status, "active"),
+            sql`${sweepSchedules.nextRunAt} <= ${now}`
+          )
+        )
+        .orderBy(asc(sweepSchedules.nextRunAt));
+    } catch (error) {
+      console.error("Error fetching due sweep schedules:", error);
+      throw error;
+    }
+  }
+  
+  async updateSweepSchedule(id: number, updates: SweepScheduleUpdate): Promise<SweepSchedule> {
+    try {
+      const [schedule] = await this.db
+        .update(sweepSchedules)
+        .set(updates)
+        .where(eq(sweepSchedules.id, id))
+        .returning();
+      
+      return schedule;
+    } catch (error) {
+      console.error(`Error updating sweep schedule ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async createSweepRun(data: InsertSweepRun): Promise<SweepRun> {
+    try {
+      const [run] = await this.db
+        .insert(sweepRuns)
+        .values(data)
+        .returning();
+      
+      return run;
+    } catch (error) {
+      console.error("Error creating sweep run:", error);
+      throw error;
+    }
+  }
+  
+  async getSweepRuns(scheduleId: number, limit = 50): Promise<SweepRun[]> {
+    try {
+      return await this.db
+        .select()
+        .from(sweepRuns)
+        .where(eq(sweepRuns.scheduleId, scheduleId))
+        .orderBy(desc(sweepRuns.createdAt), desc(sweepRuns.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching runs for sweep schedule ${scheduleId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Statement operations
+  async getUserIdsWithWallets(createdBefore: Date): Promise<number[]> {
+    try {
+      const rows = await this.db
+        .selectDistinct({ userId: wallets.userId })
+        .from(wallets)
+        .where(lt(wallets.createdAt, createdBefore))
+        .orderBy(asc(wallets.userId));
+      
+      return rows.map(row => row.userId);
+    } catch (error) {
+      console.error("Error fetching users with wallets:", error);
+      throw error;
+    }
+  }
+  
+  async getUserWalletPostings(userId: number, from: Date, to: Date): Promise<WalletPostingRecord[]> {
+    try {
+      return await this.db
+        .select({ posting: ledgerPostings, entry: journalEntries })
+        .from(ledgerPostings)
+        .innerJoin(wallets, eq(wallets.id, ledgerPostings.walletId))
+        .innerJoin(journalEntries, eq(journalEntries.id, ledgerPostings.entryId))
+        .where(
+          and(
+            eq(wallets.userId, userId),
+            gte(ledgerPostings.createdAt, from),
+            lt(ledgerPostings.createdAt, to)
+          )
+        )
+        .orderBy(asc(ledgerPostings.id));
+    } catch (error) {
+      console.error(`Error fetching wallet postings for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserWalletBalancesAt(userId: number, at: Date): Promise<WalletBalance[]> {
+    try {
+      const rows = await this.db
+        .selectDistinctOn([ledgerPostings.walletId], {
+          walletId: wallets.id,
+          program: wallets.program,
+          balance: ledgerPostings.balanceAfter
+        })
+        .from(ledgerPostings)
+        .innerJoin(wallets, eq(wallets.id, ledgerPostings.walletId))
+        .where(
+          and(
+            eq(wallets.userId, userId),
+            lt(ledgerPostings.createdAt, at)
+          )
+        )
+        .orderBy(ledgerPostings.walletId, desc(ledgerPostings.id));
+      
+      return rows.map(row => ({ ...row, balance: row.balance ?? 0 }));
+    } catch (error) {
+      console.error(`Error fetching wallet balances for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTransactionsByJournalEntries(entryIds: number[]): Promise<Transaction[]> {
+    if (entryIds.length === 0) return [];
+    
+    try {
+      return await this.db
+        .select()
+        .from(transactions)
+        .where(inArray(transactions.journalEntryId, entryIds));
+    } catch (error) {
+      console.error("Error fetching transactions by journal entry:", error);
+      throw error;
+    }
+  }
+  
+  async getTradeTransactionsByJournalEntries(entryIds: number[]): Promise<TradeTransaction[]> {
+    if (entryIds.length === 0) return [];
+    
+    try {
+      return await this.db
+        .select()
+        .from(tradeTransactions)
+        .where(inArray(tradeTransactions.journalEntryId, entryIds));
+    } catch (error) {
+      console.error("Error fetching trade transactions by journal entry:", error);
+      throw error;
+    }
+  }
+  
+  async createStatement(data: InsertStatement): Promise<Statement | undefined> {
+    try {
+      // The unique (user_id, period_start) constraint keeps the first statement of a period
+      const [statement] = await this.db
+        .insert(statements)
+        .values(data)
+        .onConflictDoNothing()
+        .returning();
+      
+      return statement;
+    } catch (error) {
+      console.error(`Error creating statement for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getStatement(id: number): Promise<Statement | undefined> {
+    try {
+      const [statement] = await this.db
+        .select()
+        .from(statements)
+        .where(eq(statements.id, id));
+      
+      return statement;
+    } catch (error) {
+      console.error(`Error fetching statement ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getStatementForPeriod(userId: number, periodStart: Date): Promise<Statement | undefined> {
+    try {
+      const [statement] = await this.db
+        .select()
+        .from(statements)
+        .where(
+          and(
+            eq(statements.userId, userId),
+            eq(statements.periodStart, periodStart)
+          )
+        );
+      
+      return statement;
+    } catch (error) {
+      console.error(`Error fetching statement for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserStatements(userId: number): Promise<Statement[]> {
+    try {
+      return await this.db
+        .select()
+        .from(statements)
+        .where(eq(statements.userId, userId))
+        .orderBy(desc(statements.periodStart));
+    } catch (error) {
+      console.error(`Error fetching statements for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Reconciliation operations
+  async getAllWallets(): Promise<Wallet[]> {
+    try {
+      return await this.db
+        .select()
+        .from(wallets)
+        .orderBy(asc(wallets.id));
+    } catch (error) {
+      console.error("Error fetching all wallets:", error);
+      throw error;
+    }
+  }
+  
+  async getWalletLedgerBalances(): Promise<WalletLedgerBalance[]> {
+    try {
+      const rows = await this.db
+        .select({
+          walletId: ledgerPostings.walletId,
+          balance: sql<string>`coalesce(sum(${ledgerPostings.amount}), 0)`
+        })
+        .from(ledgerPostings)
+        .where(sql`${ledgerPostings.walletId} is not null`)
+        .groupBy(ledgerPostings.walletId);
+      
+      return rows.map(row => ({ walletId: row.walletId!, balance: Number(row.balance) }));
+    } catch (error) {
+      console.error("Error summing wallet postings:", error);
+      throw error;
+    }
+  }
+  
+  async getWalletLedgerBalance(walletId: number): Promise<number> {
+    try {
+      const [row] = await this.db
+        .select({ balance: sql<string>`coalesce(sum(${ledgerPostings.amount}), 0)` })
+        .from(ledgerPostings)
+        .where(eq(ledgerPostings.walletId, walletId));
+      
+      return Number(row.balance);
+    } catch (error) {
+      console.error(`Error summing postings for wallet ${walletId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTokenLedgerBalances(): Promise<TokenLedgerBalance[]> {
+    try {
+      const rows = await this.db
+        .select({
+          userId: wallets.userId,
+          balance: sql<string>`coalesce(sum(${ledgerPostings.amount}), 0)`
+        })
+        .from(ledgerPostings)
+        .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+        .innerJoin(wallets, eq(ledgerPostings.walletId, wallets.id))
+        .where(and(inArray(journalEntries.type, TOKEN_ENTRY_TYPES), eq(ledgerPostings.program, "XPOINTS")))
+        .groupBy(wallets.userId);
+      
+      return rows.map(row => ({ userId: row.userId, balance: Number(row.balance) }));
+    } catch (error) {
+      console.error("Error summing token postings:", error);
+      throw error;
+    }
+  }
+  
+  async getTokenLedgerBalance(userId: number): Promise<number> {
+    try {
+      const [row] = await this.db
+        .select({ balance: sql<string>`coalesce(sum(${ledgerPostings.amount}), 0)` })
+        .from(ledgerPostings)
+        .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+        .innerJoin(wallets, eq(ledgerPostings.walletId, wallets.id))
+        .where(and(
+          eq(wallets.userId, userId),
+          inArray(journalEntries.type, TOKEN_ENTRY_TYPES),
+          eq(ledgerPostings.program, "XPOINTS")
+        ));
+      
+      return Number(row.balance);
+    } catch (error) {
+      console.error(`Error summing token postings for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async restoreWalletBalance(walletId: number, balance: number): Promise<Wallet> {
+    try {
+      const [wallet] = await this.db
+        .update(wallets)
+        .set({ balance })
+        .where(eq(wallets.id, walletId))
+        .returning();
+      
+      return wallet;
+    } catch (error) {
+      console.error(`Error restoring balance of wallet ${walletId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTransactionsAfter(afterId: number, limit: number): Promise<Transaction[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transactions)
+        .where(gt(transactions.id, afterId))
+        .orderBy(asc(transactions.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching transactions after ${afterId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTradeTransactionsAfter(afterId: number, limit: number): Promise<TradeTransaction[]> {
+    try {
+      return await this.db
+        .select()
+        .from(tradeTransactions)
+        .where(gt(tradeTransactions.id, afterId))
+        .orderBy(asc(tradeTransactions.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching trade transactions after ${afterId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getPostingsByEntries(entryIds: number[]): Promise<LedgerPosting[]> {
+    if (entryIds.length === 0) return [];
+    
+    try {
+      return await this.db
+        .select()
+        .from(ledgerPostings)
+        .where(inArray(ledgerPostings.entryId, entryIds))
+        .orderBy(asc(ledgerPostings.id));
+    } catch (error) {
+      console.error("Error fetching postings by journal entry:", error);
+      throw error;
+    }
+  }
+  
+  async getLedgerStartedAt(): Promise<Date | undefined> {
+    try {
+      const [entry] = await this.db
+        .select({ createdAt: journalEntries.createdAt })
+        .from(journalEntries)
+        .orderBy(asc(journalEntries.id))
+        .limit(1);
+      
+      return entry?.createdAt;
+    } catch (error) {
+      console.error("Error fetching first journal entry:", error);
+      throw error;
+    }
+  }
+  
+  async createReconciliationRun(): Promise<ReconciliationRun> {
+    try {
+      const [run] = await this.db
+        .insert(reconciliationRuns)
+        .values({})
+        .returning();
+      
+      return run;
+    } catch (error) {
+      console.error("Error creating reconciliation run:", error);
+      throw error;
+    }
+  }
+  
+  async updateReconciliationRun(id: number, updates: ReconciliationRunUpdate): Promise<ReconciliationRun> {
+    try {
+      const [run] = await this.db
+        .update(reconciliationRuns)
+        .set(updates)
+        .where(eq(reconciliationRuns.id, id))
+        .returning();
+      
+      return run;
+    } catch (error) {
+      console.error(`Error updating reconciliation run ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getLatestReconciliationRun(): Promise<ReconciliationRun | undefined> {
+    try {
+      const [run] = await this.db
+        .select()
+        .from(reconciliationRuns)
+        .orderBy(desc(reconciliationRuns.id))
+        .limit(1);
+      
+      return run;
+    } catch (error) {
+      console.error("Error fetching latest reconciliation run:", error);
+      throw error;
+    }
+  }
+  
+  async createReconciliationDiscrepancy(data: InsertReconciliationDiscrepancy): Promise<ReconciliationDiscrepancy> {
+    try {
+      const [discrepancy] = await this.db
+        .insert(reconciliationDiscrepancies)
+        .values(data)
+        .returning();
+      
+      return discrepancy;
+    } catch (error) {
+      console.error(`Error recording ${data.kind} discrepancy for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getReconciliationDiscrepancies(runId: number): Promise<ReconciliationDiscrepancy[]> {
+    try {
+      return await this.db
+        .select()
+        .from(reconciliationDiscrepancies)
+        .where(eq(reconciliationDiscrepancies.runId, runId))
+        .orderBy(asc(reconciliationDiscrepancies.id));
+    } catch (error) {
+      console.error(`Error fetching discrepancies for reconciliation run ${runId}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockReconciliationDiscrepancy(id: number): Promise<ReconciliationDiscrepancy | undefined> {
+    try {
+      const [discrepancy] = await this.db
+        .select()
+        .from(reconciliationDiscrepancies)
+        .where(eq(reconciliationDiscrepancies.id, id))
+        .for("update");
+      
+      return discrepancy;
+    } catch (error) {
+      console.error(`Error locking discrepancy ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async reviewReconciliationDiscrepancy(id: number, review: DiscrepancyReview): Promise<ReconciliationDiscrepancy> {
+    try {
+      const [discrepancy] = await this.db
+        .update(reconciliationDiscrepancies)
+        .set(review)
+        .where(eq(reconciliationDiscrepancies.id, id))
+        .returning();
+      
+      return discrepancy;
+    } catch (error) {
+      console.error(`Error reviewing discrepancy ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async supersedeOpenDiscrepancies(beforeRunId: number): Promise<number> {
+    try {
+      const superseded = await this.db
+        .update(reconciliationDiscrepancies)
+        .set({ status: "superseded" })
+        .where(
+          and(
+            eq(reconciliationDiscrepancies.status, "open"),
+            lt(reconciliationDiscrepancies.runId, beforeRunId)
+          )
+        )
+        .returning({ id: reconciliationDiscrepancies.id });
+      
+      return superseded.length;
+    } catch (error) {
+      console.error("Error superseding open discrepancies:", error);
+      throw error;
+    }
+  }
+  
+  // Idempotency key operations
+  async getIdempotencyKey(userId: number, key: string): Promise<IdempotencyKey | undefined> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(idempotencyKeys)
+        .where(
+          and(
+            eq(idempotencyKeys.userId, userId),
+            eq(idempotencyKeys.key, key)
+          )
+        );
+      
+      return record;
+    } catch (error) {
+      console.error(`Error fetching idempotency key for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async createIdempotencyKey(data: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    try {
+      // The unique (user_id, key) constraint decides which of two concurrent requests wins
+      const [record] = await this.db
+        .insert(idempotencyKeys)
+        .values(data)
+        .onConflictDoNothing()
+        .returning();
+      
+      return record;
+    } catch (error) {
+      console.error(`Error creating idempotency key for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async completeIdempotencyKey(id: number, responseStatus: number, responseBody: string | null): Promise<void> {
+    try {
+      await this.db
+        .update(idempotencyKeys)
+        .set({ 
+          status: "completed",
+          responseStatus,
+          responseBody
+        })
+        .where(eq(idempotencyKeys.id, id));
+    } catch (error) {
+      console.error(`Error completing idempotency key ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async deleteIdempotencyKey(id: number): Promise<void> {
+    try {
+      await this.db
+        .delete(idempotencyKeys)
+        .where(eq(idempotencyKeys.id, id));
+    } catch (error) {
+      console.error(`Error deleting idempotency key ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Exchange rates operations
+  async getExchangeRate(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<ExchangeRate | undefined> {
+    try {
+      const [rate] = await this.db
+        .select()
+        .from(exchangeRates)
+        .where(
+          and(
+            eq(exchangeRates.fromProgram, fromProgram),
+            eq(exchangeRates.toProgram, toProgram)
+          )
+        );
+      
+      return rate;
+    } catch (error) {
+      console.error(`Error fetching exchange rate from ${fromProgram} to ${toProgram}:`, error);
+      throw error;
+    }
+  }
+  
+  async getAllExchangeRates(): Promise<ExchangeRate[]> {
+    try {
+      return await this.db.select().from(exchangeRates);
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      throw error;
+    }
+  }
+  
+  // Transfer bonus operations
+  async getTransferBonuses(): Promise<TransferBonus[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transferBonuses)
+        .orderBy(desc(transferBonuses.startsAt));
+    } catch (error) {
+      console.error("Error fetching transfer bonuses:", error);
+      throw error;
+    }
+  }
+  
+  async getActiveTransferBonuses(now: Date): Promise<TransferBonus[]> {
+    try {
+      return await this.db
+        .select()
+        .from(transferBonuses)
+        .where(
+          and(
+            sql`${transferBonuses.startsAt} <= ${now}`,
+            sql`${transferBonuses.endsAt} > ${now}`
+          )
+        );
+    } catch (error) {
+      console.error("Error fetching active transfer bonuses:", error);
+      throw error;
+    }
+  }
+  
+  async createTransferBonus(data: InsertTransferBonus): Promise<TransferBonus> {
+    try {
+      const [bonus] = await this.db
+        .insert(transferBonuses)
+        .values(data)
+        .returning();
+      
+      return bonus;
+    } catch (error) {
+      console.error("Error creating transfer bonus:", error);
+      throw error;
+    }
+  }
+  
+  // Tier benefits operations
+  async getTierBenefits(tier: MembershipTier): Promise<TierBenefit | undefined> {
+    try {
+      const [benefits] = await this.db
+        .select()
+        .from(tierBenefits)
+        .where(eq(tierBenefits.tier, tier));
+      
+      return benefits;
+    } catch (error) {
+      console.error(`Error fetching benefits for tier ${tier}:`, error);
+      throw error;
+    }
+  }
+  
+  async getAllTierBenefits(): Promise<TierBenefit[]> {
+    try {
+      return await this.db
+        .select()
+        .from(tierBenefits)
+        .orderBy(asc(tierBenefits.monthlyPointsThreshold));
+    } catch (error) {
+      console.error("Error fetching tier benefits:", error);
+      throw error;
+    }
+  }
+  
+  async createTierBenefits(benefits: InsertTierBenefits): Promise<TierBenefit> {
+    try {
+      const [newBenefits] = await this.db
+        .insert(tierBenefits)
+        .values(benefits)
+        .returning();
+      
+      return newBenefits;
+    } catch (error) {
+      console.error("Error creating tier benefits:", error);
+      throw error;
+    }
+  }
+  
+  async initializeTierBenefits(): Promise<void> {
+    try {
+      const existingBenefits = await this.db.select().from(tierBenefits);
+      
+      if (existingBenefits.length === 0) {
+        await this.db.insert(tierBenefits).values([
+          {
+            tier: "STANDARD",
+            monthlyPointsThreshold: 0,
+            freeConversionLimit: 10000,
+            conversionFeeRate: "0.005",
+            p2pMinimumFee: "0.005",
+            p2pMaximumFee: "0.03",
+            monthlyExpiryDays: 30,
+            giftDailyLimit: 5000,
+            giftDailyCount: 10
+          },
+          {
+            tier: "SILVER",
+            monthlyPointsThreshold: 20000,
+            freeConversionLimit: 20000,
+            conversionFeeRate: "0.0045",
+            p2pMinimumFee: "0.004",
+            p2pMaximumFee: "0.025",
+            monthlyExpiryDays: 45,
+            giftDailyLimit: 15000,
+            giftDailyCount: 20
+          },
+          {
+            tier: "GOLD",
+            monthlyPointsThreshold: 50000,
+            freeConversionLimit: 50000,
+            conversionFeeRate: "0.0035",
+            p2pMinimumFee: "0.003",
+            p2pMaximumFee: "0.02",
+            monthlyExpiryDays: 60,
+            giftDailyLimit: 50000,
+            giftDailyCount: 40
+          },
+          {
+            tier: "PLATINUM",
+            monthlyPointsThreshold: 100000,
+            freeConversionLimit: 100000,
+            conversionFeeRate: "0.0025",
+            p2pMinimumFee: "0.002",
+            p2pMaximumFee: "0.015",
+            monthlyExpiryDays: 90,
+            giftDailyLimit: 150000,
+            giftDailyCount: 100
+          }
+        ]);
+      }
+    } catch (error) {
+      console.error("Error initializing tier benefits:", error);
+      throw error;
+    }
+  }
+  
+  // Tier history operations
+  async createTierHistory(data: InsertTierHistory): Promise<TierHistory> {
+    try {
+      const [entry] = await this.db
+        .insert(tierHistory)
+        .values(data)
+        .returning();
+      
+      return entry;
+    } catch (error) {
+      console.error(`Error recording tier change for user ${data.userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserTierHistory(userId: number): Promise<TierHistory[]> {
+    try {
+      return await this.db
+        .select()
+        .from(tierHistory)
+        .where(eq(tierHistory.userId, userId))
+        .orderBy(desc(tierHistory.createdAt), desc(tierHistory.id));
+    } catch (error) {
+      console.error(`Error fetching tier history for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Trading operations
+  async getTradeOffers(excludeUserId?: number): Promise<TradeOffer[]> {
+    try {
+      if (excludeUserId) {
+        return await this.db
+          .select()
+          .from(tradeOffers)
+          .where(
+            and(
+              eq(tradeOffers.status, "open"),
+              ne(tradeOffers.createdBy, excludeUserId)
+            )
+          );
+      } else {
+        return await this.db
+          .select()
+          .from(tradeOffers)
+          .where(eq(tradeOffers.status, "open"));
+      }
+    } catch (error) {
+      console.error("Error fetching trade offers:", error);
+      throw error;
+    }
+  }
+  
+  async getUserTradeOffers(userId: number): Promise<TradeOffer[]> {
+    try {
+      const offers = await this.db
+        .select()
+        .from(tradeOffers)
+        .where(eq(tradeOffers.createdBy, userId));
+      
+      return offers;
+    } catch (error) {
+      console.error(`Error fetching trade offers for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTradeOffer(id: number): Promise<TradeOffer | undefined> {
+    try {
+      const [offer] = await this.db
+        .select()
+        .from(tradeOffers)
+        .where(eq(tradeOffers.id, id));
+      
+      return offer;
+    } catch (error) {
+      console.error(`Error fetching trade offer ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockTradeOffer(id: number): Promise<TradeOffer | undefined> {
+    try {
+      const [offer] = await this.db
+        .select()
+        .from(tradeOffers)
+        .where(eq(tradeOffers.id, id))
+        .for("update");
+      
+      return offer;
+    } catch (error) {
+      console.error(`Error locking trade offer ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getOpenTradeOffersForPair(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, now: Date): Promise<TradeOffer[]> {
+    try {
+      // customRate is stored as text, so compare it as a number
+      return await this.db
+        .select()
+        .from(tradeOffers)
+        .where(
+          and(
+            eq(tradeOffers.fromProgram, fromProgram),
+            eq(tradeOffers.toProgram, toProgram),
+            eq(tradeOffers.status, "open"),
+            gt(tradeOffers.expiresAt, now)
+          )
+        )
+        .orderBy(sql`${tradeOffers.customRate}::numeric`, asc(tradeOffers.createdAt), asc(tradeOffers.id));
+    } catch (error) {
+      console.error(`Error fetching open trade offers for ${fromProgram}/${toProgram}:`, error);
+      throw error;
+    }
+  }
+  
+  async getExpiredOpenTradeOffers(now: Date, limit: number): Promise<TradeOffer[]> {
+    try {
+      return await this.db
+        .select()
+        .from(tradeOffers)
+        .where(and(eq(tradeOffers.status, "open"), lt(tradeOffers.expiresAt, now)))
+        .orderBy(asc(tradeOffers.expiresAt))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching expired trade offers:`, error);
+      throw error;
+    }
+  }
+  
+  async createTradeOffer(data: NewTradeOffer): Promise<TradeOffer> {
+    try {
+      const [offer] = await this.db
+        .insert(tradeOffers)
+        .values({
+          ...data,
+          amountRemaining: data.amountOffered,
+          status: "open"
+        })
+        .returning();
+      
+      return offer;
+    } catch (error) {
+      console.error("Error creating trade offer:", error);
+      throw error;
+    }
+  }
+  
+  async updateTradeOfferStatus(id: number, status: string): Promise<TradeOffer | undefined> {
+    try {
+      const [updatedOffer] = await this.db
+        .update(tradeOffers)
+        .set({ status })
+        .where(eq(tradeOffers.id, id))
+        .returning();
+      
+      return updatedOffer;
+    } catch (error) {
+      console.error(`Error updating trade offer ${id} status:`, error);
+      throw error;
+    }
+  }
+  
+  async updateTradeOffer(id: number, updates: TradeOfferUpdate): Promise<TradeOffer> {
+    try {
+      const [offer] = await this.db
+        .update(tradeOffers)
+        .set(updates)
+        .where(eq(tradeOffers.id, id))
+        .returning();
+      
+      if (!offer) {
+        throw new Error(`Trade offer ${id} not found`);
+      }
+      
+      return offer;
+    } catch (error) {
+      console.error(`Error updating trade offer ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTradeHistory(userId: number): Promise<TradeTransaction[]> {
+    try {
+      const transactions = await this.db
+        .select()
+        .from(tradeTransactions)
+        .where(
+          or(
+            eq(tradeTransactions.buyerId, userId),
+            eq(tradeTransactions.sellerId, userId)
+          )
+        );
+      
+      return transactions;
+    } catch (error) {
+      console.error(`Error fetching trade history for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async createTradeTransaction(data: NewTradeTransaction): Promise<TradeTransaction> {
+    try {
+      const [transaction] = await this.db
+        .insert(tradeTransactions)
+        .values(data)
+        .returning();
+      
+      return transaction;
+    } catch (error) {
+      console.error("Error creating trade transaction:", error);
+      throw error;
+    }
+  }
+  
+  async getTradeFillsForPair(programA: LoyaltyProgram, programB: LoyaltyProgram, limit: number): Promise<TradeFillRecord[]> {
+    try {
+      return await this.db
+        .select({ transaction: tradeTransactions, offer: tradeOffers })
+        .from(tradeTransactions)
+        .innerJoin(tradeOffers, eq(tradeOffers.id, tradeTransactions.tradeOfferId))
+        .where(
+          or(
+            and(eq(tradeOffers.fromProgram, programA), eq(tradeOffers.toProgram, programB)),
+            and(eq(tradeOffers.fromProgram, programB), eq(tradeOffers.toProgram, programA))
+          )
+        )
+        .orderBy(desc(tradeTransactions.completedAt), desc(tradeTransactions.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching trade fills for ${programA}/${programB}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockTradeTransaction(id: number): Promise<TradeTransaction | undefined> {
+    try {
+      const [transaction] = await this.db
+        .select()
+        .from(tradeTransactions)
+        .where(eq(tradeTransactions.id, id))
+        .for("update");
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error locking trade transaction ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async updateTradeTransactionStatus(id: number, status: TradeTransactionStatus): Promise<TradeTransaction> {
+    try {
+      const [transaction] = await this.db
+        .update(tradeTransactions)
+        .set({ status })
+        .where(eq(tradeTransactions.id, id))
+        .returning();
+      
+      if (!transaction) {
+        throw new Error(`Trade transaction ${id} not found`);
+      }
+      
+      return transaction;
+    } catch (error) {
+      console.error(`Error updating trade transaction ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Trade dispute operations
+  async createTradeDispute(data: NewTradeDispute): Promise<TradeDispute | undefined> {
+    try {
+      // trade_disputes_open_unique allows one open dispute per trade
+      const [dispute] = await this.db
+        .insert(tradeDisputes)
+        .values(data)
+        .onConflictDoNothing()
+        .returning();
+      
+      return dispute;
+    } catch (error) {
+      console.error(`Error opening dispute on trade ${data.tradeTransactionId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getTradeDisputes(status?: TradeDisputeStatus): Promise<TradeDisputeRecord[]> {
+    try {
+      return await this.db
+        .select({ dispute: tradeDisputes, trade: tradeTransactions, offer: tradeOffers })
+        .from(tradeDisputes)
+        .innerJoin(tradeTransactions, eq(tradeTransactions.id, tradeDisputes.tradeTransactionId))
+        .innerJoin(tradeOffers, eq(tradeOffers.id, tradeTransactions.tradeOfferId))
+        .where(status ? eq(tradeDisputes.status, status) : undefined)
+        .orderBy(desc(tradeDisputes.id));
+    } catch (error) {
+      console.error("Error fetching trade disputes:", error);
+      throw error;
+    }
+  }
+  
+  async getTradeDisputesForTrade(tradeTransactionId: number): Promise<TradeDispute[]> {
+    try {
+      return await this.db
+        .select()
+        .from(tradeDisputes)
+        .where(eq(tradeDisputes.tradeTransactionId, tradeTransactionId))
+        .orderBy(asc(tradeDisputes.id));
+    } catch (error) {
+      console.error(`Error fetching disputes for trade ${tradeTransactionId}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockTradeDispute(id: number): Promise<TradeDispute | undefined> {
+    try {
+      const [dispute] = await this.db
+        .select()
+        .from(tradeDisputes)
+        .where(eq(tradeDisputes.id, id))
+        .for("update");
+      
+      return dispute;
+    } catch (error) {
+      console.error(`Error locking trade dispute ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async resolveTradeDispute(id: number, resolution: TradeDisputeResolution): Promise<TradeDispute> {
+    try {
+      const [dispute] = await this.db
+        .update(tradeDisputes)
+        .set(resolution)
+        .where(eq(tradeDisputes.id, id))
+        .returning();
+      
+      return dispute;
+    } catch (error) {
+      console.error(`Error resolving trade dispute ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Escrow operations
+  async createEscrowHold(data: NewEscrowHold): Promise<EscrowHold> {
+    try {
+      const [hold] = await this.db
+        .insert(escrowHolds)
+        .values({ ...data, amountHeld: data.amount, status: "held" })
+        .returning();
+      
+      return hold;
+    } catch (error) {
+      console.error(`Error creating escrow hold for trade offer ${data.tradeOfferId}:`, error);
+      throw error;
+    }
+  }
+  
+  async lockEscrowHoldForOffer(tradeOfferId: number): Promise<EscrowHold | undefined> {
+    try {
+      const [hold] = await this.db
+        .select()
+        .from(escrowHolds)
+        .where(eq(escrowHolds.tradeOfferId, tradeOfferId))
+        .for("update");
+      
+      return hold;
+    } catch (error) {
+      console.error(`Error locking escrow hold for trade offer ${tradeOfferId}:`, error);
+      throw error;
+    }
+  }
+  
+  async updateEscrowHold(id: number, updates: EscrowHoldUpdate): Promise<EscrowHold> {
+    try {
+      const [hold] = await this.db
+        .update(escrowHolds)
+        .set(updates)
+        .where(eq(escrowHolds.id, id))
+        .returning();
+      
+      if (!hold) {
+        throw new Error(`Escrow hold ${id} not found`);
+      }
+      
+      return hold;
+    } catch (error) {
+      console.error(`Error updating escrow hold ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserEscrowHolds(userId: number, limit: number): Promise<EscrowHold[]> {
+    try {
+      return await this.db
+        .select()
+        .from(escrowHolds)
+        .where(eq(escrowHolds.userId, userId))
+        .orderBy(desc(escrowHolds.createdAt), desc(escrowHolds.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error fetching escrow holds for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getWalletHeldBalances(userId: number): Promise<WalletHeldBalance[]> {
+    try {
+      const rows = await this.db
+        .select({
+          walletId: escrowHolds.walletId,
+          held: sql<string>`sum(${escrowHolds.amountHeld})`
+        })
+        .from(escrowHolds)
+        .where(and(eq(escrowHolds.userId, userId), eq(escrowHolds.status, "held")))
+        .groupBy(escrowHolds.walletId);
+      
+      return rows.map(row => ({ walletId: row.walletId, held: Number(row.held) }));
+    } catch (error) {
+      console.error(`Error summing escrow holds for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async createEscrowMovement(data: NewEscrowMovement): Promise<EscrowMovement> {
+    try {
+      const [movement] = await this.db
+        .insert(escrowMovements)
+        .values(data)
+        .returning();
+      
+      return movement;
+    } catch (error) {
+      console.error(`Error recording escrow movement for hold ${data.holdId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getEscrowMovements(holdIds: number[]): Promise<EscrowMovement[]> {
+    if (holdIds.length === 0) {
+      return [];
+    }
+    
+    try {
+      return await this.db
+        .select()
+        .from(escrowMovements)
+        .where(inArray(escrowMovements.holdId, holdIds))
+        .orderBy(asc(escrowMovements.id));
+    } catch (error) {
+      console.error("Error fetching escrow movements:", error);
+      throw error;
+    }
+  }
+  
+  // Blockchain wallet management methods
+  async updateUserWallet(userId: number, walletAddress: string, walletPrivateKey: string): Promise<User> {
+    try {
+      const [updatedUser] = await this.db
+        .update(users)
+        .set({ walletAddress, walletPrivateKey, tokenLedgerSynced: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      
+      return updatedUser;
+    } catch (error) {
+      console.error(`Error updating wallet for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async updateTokenBalance(userId: number, balance: number): Promise<User> {
+    try {
+      const [updatedUser] = await this.db
+        .update(users)
+        .set({ tokenBalance: balance, tokenLedgerSynced: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      
+      return updatedUser;
+    } catch (error) {
+      console.error(`Error updating token balance for user ${userId}:`, error);
+      throw error;
+    }
+  }
+  
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    try {
+      const [user] = await this.db
+        .select()
+        .from(users)
+        .where(eq(users.walletAddress, walletAddress));
+      
+      return user;
+    } catch (error) {
+      console.error(`Error finding user by wallet address ${walletAddress}:`, error);
+      throw error;
+    }
+  }
+  
+  // Business analytics operations
+  async getBusinessAnalytics(businessId: number): Promise<BusinessAnalytics | undefined> {
+    // Simplified implementation
+    return undefined;
+  }
+  
+  async updateBusinessAnalytics(businessId: number, data: Partial<InsertBusinessAnalytics>): Promise<BusinessAnalytics> {
+    // Simplified implementation
+    throw new Error("Not implemented");
+  }
+  
+  async bulkIssuePoints(data: BulkPointIssuanceData): Promise<number> {
+    // Simplified implementation
+    return 0;
+  }
+  
+  // Blockchain and tokenization operations
+  async getAllUserTokenBalances(): Promise<{ id: number, tokenBalance: number | null }[]> {
+    try {
+      const userBalances = await this.db
+        .select({
+          id: users.id,
+          tokenBalance: users.tokenBalance
+        })
+        .from(users)
+        .where(sql`${users.tokenBalance} is not null`);
+      
+      return userBalances;
+    } catch (error) {
+      console.error("Error fetching all user token balances:", error);
+      throw error;
+    }
+  }
+  
+  async getAllConversionTransactions(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<Transaction[]> {
+    try {
+      const conversionTransactions = await this.db
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.fromProgram, fromProgram),
+            eq(transactions.toProgram, toProgram)
+          )
+        );
+      
+      return conversionTransactions;
+    } catch (error) {
+      console.error(`Error fetching conversion transactions from ${fromProgram} to ${toProgram}:`, error);
+      throw error;
+    }
+  }
+}
+
+// In-Memory Storage Implementation
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private wallets: Map<number, Wallet>;
+  private transactions: Map<number, Transaction>;
+  private transactionStatusEvents: Map<number, TransactionStatusEvent>;
+  private transactionReversals: Map<number, TransactionReversal>;
+  private exchangeRates: Map<string, ExchangeRate>;
+  private tierBenefits: Map<string, TierBenefit>;
+  private tradeOffers: Map<number, TradeOffer>;
+  private tradeTransactions: Map<number, TradeTransaction>;
+  private journalEntries: Map<number, JournalEntry>;
+  private ledgerPostings: Map<number, LedgerPosting>;
+  private idempotencyKeys: Map<number, IdempotencyKey>;
+  private conversionQuotes: Map<string, ConversionQuote>;
+  private tierHistory: Map<number, TierHistory>;
+  private transferBonuses: Map<number, TransferBonus>;
+  private conversionOrders: Map<number, ConversionOrder>;
+  private sweepSchedules: Map<number, SweepSchedule>;
+  private sweepRuns: Map<number, SweepRun>;
+  private statements: Map<number, Statement>;
+  private reconciliationRuns: Map<number, ReconciliationRun>;
+  private reconciliationDiscrepancies: Map<number, ReconciliationDiscrepancy>;
+  private pointLots: Map<number, PointLot>;
+  private pointLotMovements: Map<number, PointLotMovement>;
+  private notifications: Map<number, Notification>;
+  private accountVerifications: Map<number, AccountVerification>;
+  private balanceSyncs: Map<number, BalanceSync>;
+  private pointGifts: Map<number, PointGift>;
+  private pointRequests: Map<number, PointRequest>;
+  private escrowHolds: Map<number, EscrowHold>;
+  private escrowMovements: Map<number, EscrowMovement>;
+  private tradeDisputes: Map<number, TradeDispute>;
+  private transactionQueue: Promise<unknown>;
+  private transactionDepth: number;
+  currentUserId: number;
+  currentWalletId: number;
+  currentTransactionId: number;
+  currentTransactionStatusEventId: number;
+  currentTransactionReversalId: number;
+  currentExchangeRateId: number;
+  currentTradeOfferId: number;
+  currentTradeTransactionId: number;
+  currentJournalEntryId: number;
+  currentLedgerPostingId: number;
+  currentIdempotencyKeyId: number;
+  currentTierHistoryId: number;
+  currentTransferBonusId: number;
+  currentConversionOrderId: number;
+  currentSweepScheduleId: number;
+  currentSweepRunId: number;
+  currentStatementId: number;
+  currentReconciliationRunId: number;
+  currentReconciliationDiscrepancyId: number;
+  currentPointLotId: number;
+  currentPointLotMovementId: number;
+  currentNotificationId: number;
+  currentAccountVerificationId: number;
+  currentBalanceSyncId: number;
+  currentPointGiftId: number;
+  currentPointRequestId: number;
+  currentEscrowHoldId: number;
+  currentEscrowMovementId: number;
+  currentTradeDisputeId: number;
+  sessionStore: SessionStore;
+  
+  constructor() {
+    this.users = new Map();
+    this.wallets = new Map();
+    this.transactions = new Map();
+    this.transactionStatusEvents = new Map();
+    this.transactionReversals = new Map();
+    this.exchangeRates = new Map();
+    this.tierBenefits = new Map();
+    this.tradeOffers = new Map();
+    this.tradeTransactions = new Map();
+    this.journalEntries = new Map();
+    this.ledgerPostings = new Map();
+    this.idempotencyKeys = new Map();
+    this.conversionQuotes = new Map();
+    this.tierHistory = new Map();
+    this.transferBonuses = new Map();
+    this.conversionOrders = new Map();
+    this.sweepSchedules = new Map();
+    this.sweepRuns = new Map();
+    this.statements = new Map();
+    this.reconciliationRuns = new Map();
+    this.reconciliationDiscrepancies = new Map();
+    this.pointLots = new Map();
+    this.pointLotMovements = new Map();
+    this.notifications = new Map();
+    this.accountVerifications = new Map();
+    this.balanceSyncs = new Map();
+    this.pointGifts = new Map();
+    this.pointRequests = new Map();
+    this.escrowHolds = new Map();
+    this.escrowMovements = new Map();
+    this.tradeDisputes = new Map();
+    this.transactionQueue = Promise.resolve();
+    this.transactionDepth = 0;
+    this.currentUserId = 1;
+    this.currentWalletId = 1;
+    this.currentTransactionId = 1;
+    this.currentTransactionStatusEventId = 1;
+    this.currentTransactionReversalId = 1;
+    this.currentExchangeRateId = 1;
+    this.currentTradeOfferId = 1;
+    this.currentTradeTransactionId = 1;
+    this.currentJournalEntryId = 1;
+    this.currentLedgerPostingId = 1;
+    this.currentIdempotencyKeyId = 1;
+    this.currentTierHistoryId = 1;
+    this.currentTransferBonusId = 1;
+    this.currentConversionOrderId = 1;
+    this.currentSweepScheduleId = 1;
+    this.currentSweepRunId = 1;
+    this.currentStatementId = 1;
+    this.currentReconciliationRunId = 1;
+    this.currentReconciliationDiscrepancyId = 1;
+    this.currentPointLotId = 1;
+    this.currentPointLotMovementId = 1;
+    this.currentNotificationId = 1;
+    this.currentAccountVerificationId = 1;
+    this.currentBalanceSyncId = 1;
+    this.currentPointGiftId = 1;
+    this.currentPointRequestId = 1;
+    this.currentEscrowHoldId = 1;
+    this.currentEscrowMovementId = 1;
+    this.currentTradeDisputeId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000,
+    });
+    
+    // Initialize tier benefits
+    this.initializeTierBenefits();
+  }
+  
+  // Add implementation for all required methods...
+  // Keeping the implementation simple as we're focused on database storage
+  
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email.toLowerCase() === email.toLowerCase());
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const userId = this.currentUserId++;
+    const now = new Date();
+    
+    const user = { 
+      id: userId, 
+      ...insertUser,
+      createdAt: now,
+      membershipTier: "STANDARD" as MembershipTier,
+      kycVerified: "unverified",
+      pointsConverted: 0,
+      monthlyPointsConverted: 0,
+      totalFeesPaid: 0,
+      tokenBalance: 0,
+      tokenLedgerSynced: null,
+      tierExpiresAt: null,
+      walletAddress: null,
+      walletPrivateKey: null,
+      lastMonthReset: null,
+    };
+    
+    this.users.set(userId, user);
+    
+    // Create default wallets
+    const xpointsWallet = await this.createWallet({
+      userId: user.id,
+      program: "XPOINTS",
+      accountNumber: null,
+      accountName: null
+    });
+    
+    await this.createWallet({
+      userId: user.id,
+      program: "QANTAS",
+      accountNumber: null,
+      accountName: null
+    });
+    
+    await this.createWallet({
+      userId: user.id,
+      program: "GYG",
+      accountNumber: null,
+      accountName: null
+    });
+    
+    // Starting bonus
+    await this.postJournalEntry(
+      { userId: user.id, type: "signup_bonus", reference: `user:${user.id}`, description: "Welcome bonus" },
+      [
+        { account: "issuance", walletId: null, program: "XPOINTS", amount: -SIGNUP_BONUS },
+        { account: "wallet", walletId: xpointsWallet.id, program: "XPOINTS", amount: SIGNUP_BONUS }
+      ]
+    );
+    
+    return user;
+  }
+  
+  // Implement other methods as needed...
+  
+  async updateUserWallet(userId: number, walletAddress: string, walletPrivateKey: string): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    
+    const updatedUser = {
+      ...user,
+      walletAddress,
+      walletPrivateKey,
+      tokenLedgerSynced: new Date()
+    };
+    
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateTokenBalance(userId: number, balance: number): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    
+    const updatedUser = {
+      ...user,
+      tokenBalance: balance,
+      tokenLedgerSynced: new Date()
+    };
+    
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.walletAddress === walletAddress);
+  }
+  
+  async updateUserTier(userId: number, tier: MembershipTier, expiresAt?: Date): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    
+    const updatedUser = {
+      ...user,
+      membershipTier: tier,
+      tierExpiresAt: expiresAt || null
+    };
+    
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateUserStats(userId: number, pointsConverted: number, fee: number, monthlyPoints = pointsConverted): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    
+    const now = new Date();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const newMonth = !!user.lastMonthReset && user.lastMonthReset < startOfMonth;
+    
+    const updatedUser = {
+      ...user,
+      pointsConverted: (user.pointsConverted || 0) + pointsConverted,
+      monthlyPointsConverted: (newMonth ? 0 : user.monthlyPointsConverted || 0) + monthlyPoints,
+      lastMonthReset: !user.lastMonthReset || newMonth ? now : user.lastMonthReset,
+      totalFeesPaid: (user.totalFeesPaid || 0) + fee
+    };
+    
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async lockUser(userId: number): Promise<User | undefined> {
+    return this.getUser(userId);
+  }
+  
+  async getUsersWithExpiredTier(now: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      user => user.membershipTier !== "STANDARD" && !!user.tierExpiresAt && user.tierExpiresAt < now
+    );
+  }
+  
+  async resetMonthlyPoints(startOfMonth: Date): Promise<number> {
+    const now = new Date();
+    let reset = 0;
+    
+    for (const user of Array.from(this.users.values())) {
+      if (!user.lastMonthReset || user.lastMonthReset < startOfMonth) {
+        this.users.set(user.id, { ...user, monthlyPointsConverted: 0, lastMonthReset: now });
+        reset++;
+      }
+    }
+    
+    return reset;
+  }
+  
+  async getUserStats(userId: number): Promise<{ pointsConverted: number; feesPaid: number; monthlyPoints: number; tier: MembershipTier; }> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    
+    return {
+      pointsConverted: user.pointsConverted || 0,
+      feesPaid: user.totalFeesPaid || 0,
+      monthlyPoints: user.monthlyPointsConverted || 0,
+      tier: user.membershipTier
+    };
+  }
+  
+  // Implementing other interface methods would follow a similar pattern
+  
+  // Implement storage methods
+  async getUserWallets(userId: number): Promise<Wallet[]> {
+    return Array.from(this.wallets.values()).filter(wallet => wallet.userId === userId);
+  }
+  
+  async getWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined> {
+    return Array.from(this.wallets.values()).find(wallet => 
+      wallet.userId === userId && wallet.program === program
+    );
+  }
+  
+  async createWallet(walletData: NewWallet): Promise<Wallet> {
+    const id = this.currentWalletId++;
+    const wallet: Wallet = {
+      id,
+      ...walletData,
+      balance: 0,
+      accountStatus: "unverified",
+      accountVerifiedAt: null,
+      partnerBalance: null,
+      partnerSyncedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.wallets.set(id, wallet);
+    return wallet;
+  }
+  
+  async updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet> {
+    const wallet = this.wallets.get(id);
+    if (!wallet) throw new Error(`Wallet with ID ${id} not found`);
+    
+    const updatedWallet: Wallet = { 
+      ...wallet,
+      accountNumber,
+      accountName,
+      accountStatus: "unverified",
+      accountVerifiedAt: null,
+      partnerBalance: null,
+      partnerSyncedAt: null
+    };
+    
+    this.wallets.set(id, updatedWallet);
+    return updatedWallet;
+  }
+  
+  async setWalletAccountStatus(id: number, status: AccountStatus, verifiedAt: Date | null): Promise<Wallet> {
+    const wallet = this.wallets.get(id);
+    if (!wallet) throw new Error(`Wallet with ID ${id} not found`);
+    
+    const updated = { ...wallet, accountStatus: status, accountVerifiedAt: verifiedAt };
+    this.wallets.set(id, updated);
+    return updated;
+  }
+  
+  async getWalletsDueForSync(syncedBefore: Date, limit: number): Promise<Wallet[]> {
+    return Array.from(this.wallets.values())
+      .filter(w => w.accountNumber && w.accountStatus === "verified" && (!w.partnerSyncedAt || w.partnerSyncedAt < syncedBefore))
+      .sort((a, b) => (a.partnerSyncedAt?.getTime() ?? 0) - (b.partnerSyncedAt?.getTime() ?? 0) || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async updateWalletPartnerSync(id: number, updates: WalletPartnerSyncUpdate): Promise<Wallet> {
+    const wallet = this.wallets.get(id);
+    if (!wallet) throw new Error(`Wallet with ID ${id} not found`);
     
-    const user = { 
-      id: userId, 
-      ...insertUser,
-      createdAt: now,
-      membershipTier: "STANDARD" as MembershipTier,
-      kycVerified: "unverified",
-      pointsConverted: 0,
-      monthlyPointsConverted: 0,
-      totalFeesPaid: 0,
-      tokenBalance: 0,
-      tokenLedgerSynced: null,
-      tierExpiresAt: null,
-      walletAddress: null,
-      walletPrivateKey: null,
-      lastMonthReset: null,
+    const updated = { ...wallet, ...updates };
+    this.wallets.set(id, updated);
+    return updated;
+  }
+  
+  async adjustWalletPartnerBalance(id: number, amount: number): Promise<void> {
+    const wallet = this.wallets.get(id);
+    if (wallet && wallet.partnerBalance !== null) {
+      this.wallets.set(id, { ...wallet, partnerBalance: addPoints(wallet.partnerBalance, amount) });
+    }
+  }
+  
+  async createBalanceSync(data: NewBalanceSync): Promise<BalanceSync> {
+    const sync: BalanceSync = {
+      expectedBalance: null,
+      reportedBalance: null,
+      difference: null,
+      entryId: null,
+      error: null,
+      ...data,
+      id: this.currentBalanceSyncId++,
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date()
     };
+    this.balanceSyncs.set(sync.id, sync);
+    return sync;
+  }
+  
+  async getWalletBalanceSyncs(walletId: number, limit: number): Promise<BalanceSync[]> {
+    return Array.from(this.balanceSyncs.values())
+      .filter(sync => sync.walletId === walletId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getBalanceSyncsByStatus(status: BalanceSyncStatus, limit: number): Promise<BalanceSync[]> {
+    return Array.from(this.balanceSyncs.values())
+      .filter(sync => sync.status === status)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async lockBalanceSync(id: number): Promise<BalanceSync | undefined> {
+    return this.balanceSyncs.get(id);
+  }
+  
+  async updateBalanceSync(id: number, updates: BalanceSyncUpdate): Promise<BalanceSync> {
+    const sync = this.balanceSyncs.get(id);
+    if (!sync) throw new Error(`Balance sync with ID ${id} not found`);
     
-    this.users.set(userId, user);
+    const updated = { ...sync, ...updates };
+    this.balanceSyncs.set(id, updated);
+    return updated;
+  }
+  
+  async createAccountVerification(data: NewAccountVerification): Promise<AccountVerification> {
+    const verification: AccountVerification = {
+      ...data,
+      id: this.currentAccountVerificationId++,
+      attempts: 0,
+      status: "pending",
+      completedAt: null,
+      createdAt: new Date()
+    };
+    this.accountVerifications.set(verification.id, verification);
+    return verification;
+  }
+  
+  async getPendingAccountVerification(walletId: number): Promise<AccountVerification | undefined> {
+    return Array.from(this.accountVerifications.values())
+      .filter(v => v.walletId === walletId && v.status === "pending")
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async lockAccountVerification(id: number): Promise<AccountVerification | undefined> {
+    return this.accountVerifications.get(id);
+  }
+  
+  async updateAccountVerification(id: number, updates: AccountVerificationUpdate): Promise<AccountVerification> {
+    const verification = this.accountVerifications.get(id);
+    if (!verification) throw new Error(`Account verification with ID ${id} not found`);
     
-    // Create default wallets
-    await this.createWallet({
-      userId: user.id,
-      program: "XPOINTS",
-      balance: 1000,
-      accountNumber: null,
-      accountName: null
+    const updated = { ...verification, ...updates };
+    this.accountVerifications.set(id, updated);
+    return updated;
+  }
+  
+  async supersedePendingVerifications(walletId: number): Promise<number> {
+    const pending = Array.from(this.accountVerifications.values())
+      .filter(v => v.walletId === walletId && v.status === "pending");
+    pending.forEach(v => this.accountVerifications.set(v.id, { ...v, status: "superseded", completedAt: new Date() }));
+    return pending.length;
+  }
+  
+  async createPointGift(data: NewPointGift): Promise<PointGift> {
+    const gift: PointGift = {
+      claimCodeHash: null,
+      requestId: null,
+      expiresAt: null,
+      respondedAt: null,
+      ...data,
+      id: this.currentPointGiftId++,
+      holdEntryId: null,
+      transactionId: null,
+      createdAt: new Date()
+    };
+    this.pointGifts.set(gift.id, gift);
+    return gift;
+  }
+  
+  async getPointGift(id: number): Promise<PointGift | undefined> {
+    return this.pointGifts.get(id);
+  }
+  
+  async lockPointGift(id: number): Promise<PointGift | undefined> {
+    return this.pointGifts.get(id);
+  }
+  
+  async updatePointGift(id: number, updates: PointGiftUpdate): Promise<PointGift> {
+    const gift = this.pointGifts.get(id);
+    if (!gift) throw new Error(`Gift with ID ${id} not found`);
+    
+    const updated = { ...gift, ...updates };
+    this.pointGifts.set(id, updated);
+    return updated;
+  }
+  
+  async getUserPointGifts(userId: number, email: string, limit: number): Promise<PointGift[]> {
+    return Array.from(this.pointGifts.values())
+      .filter(gift => gift.senderId === userId || gift.recipientId === userId ||
+        (gift.recipientEmail === email.toLowerCase() && gift.status === "pending"))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getGiftsSentSince(senderId: number, since: Date): Promise<PointGift[]> {
+    return Array.from(this.pointGifts.values()).filter(gift => gift.senderId === senderId && gift.createdAt >= since);
+  }
+  
+  async getPendingGiftsFromSender(senderId: number): Promise<PointGift[]> {
+    return Array.from(this.pointGifts.values()).filter(gift => gift.senderId === senderId && gift.status === "pending");
+  }
+  
+  async getPendingGiftsForEmail(email: string): Promise<PointGift[]> {
+    return Array.from(this.pointGifts.values())
+      .filter(gift => gift.recipientEmail === email.toLowerCase() && gift.status === "pending");
+  }
+  
+  async getExpiredPendingGifts(now: Date, limit: number): Promise<PointGift[]> {
+    return Array.from(this.pointGifts.values())
+      .filter(gift => gift.status === "pending" && gift.expiresAt && gift.expiresAt < now)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, limit);
+  }
+  
+  async createPointRequest(data: NewPointRequest): Promise<PointRequest> {
+    const request: PointRequest = {
+      ...data,
+      id: this.currentPointRequestId++,
+      status: "open",
+      paidBy: null,
+      paidAt: null,
+      createdAt: new Date()
+    };
+    this.pointRequests.set(request.id, request);
+    return request;
+  }
+  
+  async getPointRequestByToken(token: string): Promise<PointRequest | undefined> {
+    return Array.from(this.pointRequests.values()).find(request => request.token === token);
+  }
+  
+  async lockPointRequest(id: number): Promise<PointRequest | undefined> {
+    return this.pointRequests.get(id);
+  }
+  
+  async updatePointRequest(id: number, updates: PointRequestUpdate): Promise<PointRequest> {
+    const request = this.pointRequests.get(id);
+    if (!request) throw new Error(`Point request with ID ${id} not found`);
+    
+    const updated = { ...request, ...updates };
+    this.pointRequests.set(id, updated);
+    return updated;
+  }
+  
+  async getUserPointRequests(userId: number, limit: number): Promise<PointRequest[]> {
+    return Array.from(this.pointRequests.values())
+      .filter(request => request.requesterId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getExpiredPointRequests(now: Date, limit: number): Promise<PointRequest[]> {
+    return Array.from(this.pointRequests.values())
+      .filter(request => request.status === "open" && request.expiresAt < now)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async getUserTransactions(userId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.userId === userId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+  
+  async queryUserTransactions(userId: number, filter: TransactionFilter, page: TransactionPageOptions): Promise<Transaction[]> {
+    const descending = page.sort === "newest" || page.sort === "largest";
+    const byAmount = page.sort === "largest" || page.sort === "smallest";
+    const sign = descending ? -1 : 1;
+    
+    // Ascending comparison on the sort key, then id
+    const compare = (a: { id: number; amountFrom?: number }, b: { id: number; amountFrom?: number }) =>
+      (byAmount ? (a.amountFrom ?? 0) - (b.amountFrom ?? 0) : 0) || a.id - b.id;
+    
+    return Array.from(this.transactions.values())
+      .filter(tx => {
+        if (filter.direction === "out") {
+          if (tx.userId !== userId || (filter.program && tx.fromProgram !== filter.program)) return false;
+        } else if (filter.direction === "in") {
+          if (tx.recipientId !== userId || (filter.program && tx.toProgram !== filter.program)) return false;
+        } else {
+          if (tx.userId !== userId && tx.recipientId !== userId) return false;
+          if (filter.program && tx.fromProgram !== filter.program && tx.toProgram !== filter.program) return false;
+        }
+        
+        if (filter.status && tx.status !== filter.status) return false;
+        if (filter.type && tx.type !== filter.type) return false;
+        if (filter.from && tx.timestamp < filter.from) return false;
+        if (filter.to && tx.timestamp > filter.to) return false;
+        if (filter.minAmount !== undefined && tx.amountFrom < filter.minAmount) return false;
+        if (filter.maxAmount !== undefined && tx.amountFrom > filter.maxAmount) return false;
+        
+        return !page.after || sign * compare(tx, page.after) > 0;
+      })
+      .sort((a, b) => sign * compare(a, b))
+      .slice(0, page.limit);
+  }
+  
+  async createTransaction(transactionData: NewTransaction): Promise<Transaction> {
+    const id = this.currentTransactionId++;
+    const now = new Date();
+    const transaction: Transaction = {
+      id,
+      ...transactionData,
+      timestamp: now,
+      statusUpdatedAt: now,
+      failureReason: null,
+      holdEntryId: transactionData.holdEntryId ?? null,
+      reversalOf: transactionData.reversalOf ?? null,
+      partnerReference: null
+    };
+    
+    this.transactions.set(id, transaction);
+    this.recordStatusEvent(id, null, transaction.status, null);
+    return transaction;
+  }
+  
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+  
+  async lockTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+  
+  async getTransactionsByStatus(status: TransactionStatus, limit: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.status === status)
+      .sort((a, b) => a.statusUpdatedAt.getTime() - b.statusUpdatedAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async getHeldTransfers(userId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(tx =>
+      tx.userId === userId && (tx.status === "pending" || tx.status === "submitted") && tx.holdEntryId !== null
+    );
+  }
+  
+  async transitionTransaction(id: number, to: TransactionStatus, details: TransitionDetails = {}): Promise<Transaction> {
+    const current = this.transactions.get(id);
+    if (!current) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+    
+    if (!canTransition(current.status, to)) {
+      throw new InvalidTransitionError(current.status, to);
+    }
+    
+    const transaction: Transaction = {
+      ...current,
+      status: to,
+      statusUpdatedAt: new Date(),
+      failureReason: to === "failed" ? details.reason ?? null : current.failureReason,
+      journalEntryId: details.journalEntryId ?? current.journalEntryId,
+      holdEntryId: details.holdEntryId ?? current.holdEntryId,
+      partnerReference: details.partnerReference ?? current.partnerReference
+    };
+    
+    this.transactions.set(id, transaction);
+    this.recordStatusEvent(id, current.status, to, details.reason ?? null);
+    return transaction;
+  }
+  
+  async getTransactionStatusEvents(transactionId: number): Promise<TransactionStatusEvent[]> {
+    return Array.from(this.transactionStatusEvents.values())
+      .filter(event => event.transactionId === transactionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createTransactionReversal(data: NewTransactionReversal): Promise<TransactionReversal | undefined> {
+    const open = Array.from(this.transactionReversals.values()).some(
+      reversal => reversal.transactionId === data.transactionId && reversal.status !== "rejected"
+    );
+    if (open) {
+      return undefined;
+    }
+    
+    const reversal: TransactionReversal = {
+      id: this.currentTransactionReversalId++,
+      ...data,
+      status: "requested",
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNote: null,
+      refundTransactionId: null,
+      createdAt: new Date()
+    };
+    
+    this.transactionReversals.set(reversal.id, reversal);
+    return reversal;
+  }
+  
+  async getTransactionReversals(status?: ReversalStatus): Promise<TransactionReversal[]> {
+    return Array.from(this.transactionReversals.values())
+      .filter(reversal => !status || reversal.status === status)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async lockTransactionReversal(id: number): Promise<TransactionReversal | undefined> {
+    return this.transactionReversals.get(id);
+  }
+  
+  async reviewTransactionReversal(id: number, review: ReversalReview): Promise<TransactionReversal> {
+    const reversal = this.transactionReversals.get(id);
+    if (!reversal) {
+      throw new Error(`Reversal ${id} not found`);
+    }
+    
+    const reviewedReversal = { ...reversal, ...review };
+    this.transactionReversals.set(id, reviewedReversal);
+    return reviewedReversal;
+  }
+  
+  private recordStatusEvent(transactionId: number, fromStatus: TransactionStatus | null, toStatus: TransactionStatus, reason: string | null) {
+    const id = this.currentTransactionStatusEventId++;
+    this.transactionStatusEvents.set(id, { id, transactionId, fromStatus, toStatus, reason, createdAt: new Date() });
+  }
+  
+  // Transactions are serialized; a failed callback rolls every map back to its snapshot
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested calls join the outer transaction
+    if (this.transactionDepth > 0) {
+      return fn(this);
+    }
+    
+    const run = this.transactionQueue.then(async () => {
+      this.transactionDepth++;
+      const snapshot = this.snapshot();
+      try {
+        return await fn(this);
+      } catch (error) {
+        Object.assign(this, snapshot);
+        throw error;
+      } finally {
+        this.transactionDepth--;
+      }
     });
     
-    await this.createWallet({
-      userId: user.id,
-      program: "QANTAS",
-      balance: 0,
-      accountNumber: null,
-      accountName: null
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+  
+  // Serialized with transactions, so nothing moves while the callback reads
+  async withSnapshot<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.withTransaction(fn);
+  }
+  
+  private snapshot(): Record<string, unknown> {
+    const state: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this)) {
+      if (value instanceof Map) {
+        state[key] = new Map(value);
+      } else if (key.startsWith("current") && typeof value === "number") {
+        state[key] = value;
+      }
+    }
+    return state;
+  }
+  
+  async lockWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined> {
+    return this.getWallet(userId, program);
+  }
+  
+  async postJournalEntry(entryData: InsertJournalEntry, postingData: InsertLedgerPosting[], lots: LotOptions = {}): Promise<PostedJournalEntry> {
+    assertBalancedPostings(postingData);
+    
+    const lockedWallets = new Map<number, Wallet>();
+    for (const posting of postingData) {
+      const wallet = posting.walletId ? this.wallets.get(posting.walletId) : undefined;
+      if (wallet) lockedWallets.set(wallet.id, wallet);
+    }
+    
+    const balanceAfter = applyWalletPostings(postingData, lockedWallets);
+    
+    const now = new Date();
+    const entry: JournalEntry = {
+      id: this.currentJournalEntryId++,
+      userId: entryData.userId ?? null,
+      type: entryData.type,
+      reference: entryData.reference ?? null,
+      description: entryData.description ?? null,
+      createdAt: now
+    };
+    this.journalEntries.set(entry.id, entry);
+    
+    const postings = postingData.map((posting, i) => {
+      const ledgerPosting: LedgerPosting = {
+        id: this.currentLedgerPostingId++,
+        entryId: entry.id,
+        account: posting.account,
+        walletId: posting.walletId ?? null,
+        program: posting.program,
+        amount: roundPoints(posting.amount),
+        balanceAfter: balanceAfter[i],
+        createdAt: now
+      };
+      this.ledgerPostings.set(ledgerPosting.id, ledgerPosting);
+      return ledgerPosting;
     });
     
-    await this.createWallet({
-      userId: user.id,
-      program: "GYG",
-      balance: 0,
-      accountNumber: null,
-      accountName: null
+    lockedWallets.forEach(wallet => this.wallets.set(wallet.id, wallet));
+    this.postLotMovements(entry, postingData, lockedWallets, lots);
+    
+    return { entry, postings, wallets: Array.from(lockedWallets.values()) };
+  }
+  
+  async getJournalPostings(entryId: number): Promise<LedgerPosting[]> {
+    return Array.from(this.ledgerPostings.values()).filter(p => p.entryId === entryId);
+  }
+  
+  private postLotMovements(entry: JournalEntry, postingData: InsertLedgerPosting[], lockedWallets: Map<number, Wallet>, options: LotOptions) {
+    const openLots = Array.from(this.pointLots.values())
+      .filter(lot => lockedWallets.has(lot.walletId) && lot.remaining > 0);
+    
+    let drawnLots: DrawnLot[] = [];
+    if (entry.reference && RELEASE_ENTRY_TYPES.includes(entry.type)) {
+      const referenced = new Set(
+        Array.from(this.journalEntries.values())
+          .filter(e => e.reference === entry.reference && e.id !== entry.id)
+          .map(e => e.id)
+      );
+      const drawnByLot = new Map<number, number>();
+      Array.from(this.pointLotMovements.values())
+        .filter(movement => referenced.has(movement.entryId))
+        .forEach(movement => drawnByLot.set(movement.lotId, addPoints(drawnByLot.get(movement.lotId) ?? 0, movement.amount)));
+      drawnLots = Array.from(drawnByLot.entries())
+        .map(([lotId, amount]) => ({ lotId, walletId: this.pointLots.get(lotId)!.walletId, amount }))
+        .filter(lot => lockedWallets.has(lot.walletId))
+        .sort((a, b) => a.lotId - b.lotId);
+    }
+    
+    const plan = planLotMovements(entry, postingData, openLots, drawnLots, LOT_POLICY, options, entry.createdAt);
+    
+    for (const movement of plan.movements) {
+      const lot = this.pointLots.get(movement.lotId)!;
+      this.pointLots.set(lot.id, { ...lot, remaining: addPoints(lot.remaining, -movement.amount) });
+      
+      const id = this.currentPointLotMovementId++;
+      this.pointLotMovements.set(id, { id, lotId: lot.id, entryId: entry.id, amount: movement.amount, createdAt: entry.createdAt });
+    }
+    
+    for (const created of plan.created) {
+      const lot: PointLot = {
+        ...created,
+        id: this.currentPointLotId++,
+        userId: lockedWallets.get(created.walletId)!.userId,
+        entryId: entry.id,
+        remaining: created.amount,
+        notifiedAt: null,
+        createdAt: entry.createdAt
+      };
+      this.pointLots.set(lot.id, lot);
+    }
+  }
+  
+  async getUserLots(userId: number): Promise<PointLot[]> {
+    const expiry = (lot: PointLot) => lot.expiresAt ? lot.expiresAt.getTime() : Infinity;
+    return Array.from(this.pointLots.values())
+      .filter(lot => lot.userId === userId && lot.remaining > 0)
+      .sort((a, b) => expiry(a) - expiry(b) || a.id - b.id);
+  }
+  
+  async getExpiredLots(now: Date, limit: number): Promise<PointLot[]> {
+    return Array.from(this.pointLots.values())
+      .filter(lot => lot.expiresAt && lot.expiresAt <= now && lot.remaining > 0)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async getUnnotifiedLotsExpiringBefore(before: Date, limit: number): Promise<PointLot[]> {
+    return Array.from(this.pointLots.values())
+      .filter(lot => lot.expiresAt && lot.expiresAt <= before && lot.remaining > 0 && !lot.notifiedAt)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async lockPointLot(id: number): Promise<PointLot | undefined> {
+    return this.pointLots.get(id);
+  }
+  
+  async markLotsNotified(ids: number[], at: Date): Promise<void> {
+    ids.forEach(id => {
+      const lot = this.pointLots.get(id);
+      if (lot) this.pointLots.set(id, { ...lot, notifiedAt: at });
     });
+  }
+  
+  async createNotification(data: NewNotification): Promise<Notification> {
+    const notification: Notification = {
+      ...data,
+      id: this.currentNotificationId++,
+      readAt: null,
+      createdAt: new Date()
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+  
+  async getUserNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
     
-    return user;
+    const updated = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updated);
+    return updated;
   }
   
-  // Implement other methods as needed...
+  async createConversionQuote(data: InsertConversionQuote): Promise<ConversionQuote> {
+    const quote: ConversionQuote = {
+      ...data,
+      feeApplied: data.feeApplied ?? 0,
+      feeBreakdown: data.feeBreakdown ?? null,
+      route: data.route ?? null,
+      status: "open",
+      transactionId: null,
+      createdAt: new Date(),
+      executedAt: null
+    };
+    this.conversionQuotes.set(quote.id, quote);
+    return quote;
+  }
   
-  async updateUserWallet(userId: number, walletAddress: string, walletPrivateKey: string): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error(`User with ID ${userId} not found`);
+  async getConversionQuote(id: string): Promise<ConversionQuote | undefined> {
+    return this.conversionQuotes.get(id);
+  }
+  
+  async lockConversionQuote(id: string): Promise<ConversionQuote | undefined> {
+    return this.getConversionQuote(id);
+  }
+  
+  async markConversionQuoteExecuted(id: string, transactionId: number): Promise<ConversionQuote> {
+    const quote = this.conversionQuotes.get(id);
+    if (!quote) {
+      throw new Error(`Conversion quote ${id} not found`);
+    }
     
-    const updatedUser = {
-      ...user,
-      walletAddress,
-      walletPrivateKey,
-      tokenLedgerSynced: new Date()
+    const updatedQuote = { ...quote, status: "executed", transactionId, executedAt: new Date() };
+    this.conversionQuotes.set(id, updatedQuote);
+    return updatedQuote;
+  }
+  
+  async createConversionOrder(data: InsertConversionOrder): Promise<ConversionOrder> {
+    const order: ConversionOrder = {
+      id: this.currentConversionOrderId++,
+      ...data,
+      timeInForce: data.timeInForce ?? "gtc",
+      expiresAt: data.expiresAt ?? null,
+      status: "open",
+      transactionId: null,
+      executedRate: null,
+      createdAt: new Date(),
+      closedAt: null,
+      closeReason: null
     };
     
-    this.users.set(userId, updatedUser);
-    return updatedUser;
+    this.conversionOrders.set(order.id, order);
+    return order;
+  }
+  
+  async getConversionOrder(id: number): Promise<ConversionOrder | undefined> {
+    return this.conversionOrders.get(id);
+  }
+  
+  async lockConversionOrder(id: number): Promise<ConversionOrder | undefined> {
+    return this.conversionOrders.get(id);
+  }
+  
+  async getUserConversionOrders(userId: number): Promise<ConversionOrder[]> {
+    return Array.from(this.conversionOrders.values())
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getOpenConversionOrders(): Promise<ConversionOrder[]> {
+    return Array.from(this.conversionOrders.values())
+      .filter(order => order.status === "open")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async markConversionOrderExecuted(id: number, transactionId: number, executedRate: string): Promise<ConversionOrder> {
+    const order = this.conversionOrders.get(id);
+    if (!order) {
+      throw new Error(`Conversion order ${id} not found`);
+    }
+    
+    const updatedOrder = { ...order, status: "executed", transactionId, executedRate, closedAt: new Date() };
+    this.conversionOrders.set(id, updatedOrder);
+    return updatedOrder;
   }
   
-  async updateTokenBalance(userId: number, balance: number): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error(`User with ID ${userId} not found`);
+  async closeConversionOrder(id: number, status: "cancelled" | "expired", closeReason: string | null = null): Promise<ConversionOrder> {
+    const order = this.conversionOrders.get(id);
+    if (!order) {
+      throw new Error(`Conversion order ${id} not found`);
+    }
     
-    const updatedUser = {
-      ...user,
-      tokenBalance: balance,
-      tokenLedgerSynced: new Date()
+    const updatedOrder = { ...order, status, closedAt: new Date(), closeReason };
+    this.conversionOrders.set(id, updatedOrder);
+    return updatedOrder;
+  }
+  
+  async createSweepSchedule(data: InsertSweepSchedule): Promise<SweepSchedule> {
+    const schedule: SweepSchedule = {
+      id: this.currentSweepScheduleId++,
+      ...data,
+      keepBalance: data.keepBalance ?? 0,
+      nextRunAt: data.nextRunAt ?? null,
+      status: "active",
+      lastRunAt: null,
+      failureCount: 0,
+      lastError: null,
+      createdAt: new Date()
     };
     
-    this.users.set(userId, updatedUser);
-    return updatedUser;
+    this.sweepSchedules.set(schedule.id, schedule);
+    return schedule;
   }
   
-  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.walletAddress === walletAddress);
+  async getSweepSchedule(id: number): Promise<SweepSchedule | undefined> {
+    return this.sweepSchedules.get(id);
   }
   
-  async updateUserTier(userId: number, tier: MembershipTier, expiresAt?: Date): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error(`User with ID ${userId} not found`);
+  async lockSweepSchedule(id: number): Promise<SweepSchedule | undefined> {
+    return this.sweepSchedules.get(id);
+  }
+  
+  async getUserSweepSchedules(userId: number): Promise<SweepSchedule[]> {
+    return Array.from(this.sweepSchedules.values())
+      .filter(schedule => schedule.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getDueSweepSchedules(now: Date): Promise<SweepSchedule[]> {
+    return Array.from(this.sweepSchedules.values())
+      .filter(schedule => schedule.status === "active" && !!schedule.nextRunAt && schedule.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt!.getTime() - b.nextRunAt!.getTime());
+  }
+  
+  async updateSweepSchedule(id: number, updates: SweepScheduleUpdate): Promise<SweepSchedule> {
+    const schedule = this.sweepSchedules.get(id);
+    if (!schedule) {
+      throw new Error(`Sweep schedule ${id} not found`);
+    }
     
-    const updatedUser = {
-      ...user,
-      membershipTier: tier,
-      tierExpiresAt: expiresAt || null
+    const updatedSchedule = { ...schedule, ...updates };
+    this.sweepSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+  
+  async createSweepRun(data: InsertSweepRun): Promise<SweepRun> {
+    const run: SweepRun = {
+      id: this.currentSweepRunId++,
+      ...data,
+      attempt: data.attempt ?? 1,
+      amount: data.amount ?? null,
+      transactionId: data.transactionId ?? null,
+      error: data.error ?? null,
+      createdAt: new Date()
     };
     
-    this.users.set(userId, updatedUser);
-    return updatedUser;
+    this.sweepRuns.set(run.id, run);
+    return run;
   }
   
-  async updateUserStats(userId: number, pointsConverted: number, fee: number): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error(`User with ID ${userId} not found`);
-    
-    const updatedUser = {
-      ...user,
-      pointsConverted: (user.pointsConverted || 0) + pointsConverted,
-      monthlyPointsConverted: (user.monthlyPointsConverted || 0) + pointsConverted,
-      totalFeesPaid: (user.totalFeesPaid || 0) + fee
-    };
+  async getSweepRuns(scheduleId: number, limit = 50): Promise<SweepRun[]> {
+    return Array.from(this.sweepRuns.values())
+      .filter(run => run.scheduleId === scheduleId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getUserIdsWithWallets(createdBefore: Date): Promise<number[]> {
+    const userIds = Array.from(this.wallets.values())
+      .filter(wallet => wallet.createdAt < createdBefore)
+      .map(wallet => wallet.userId);
+    return Array.from(new Set(userIds)).sort((a, b) => a - b);
+  }
+  
+  async getUserWalletPostings(userId: number, from: Date, to: Date): Promise<WalletPostingRecord[]> {
+    return Array.from(this.ledgerPostings.values())
+      .filter(posting => {
+        const wallet = posting.walletId ? this.wallets.get(posting.walletId) : undefined;
+        return wallet?.userId === userId && posting.createdAt >= from && posting.createdAt < to;
+      })
+      .sort((a, b) => a.id - b.id)
+      .map(posting => ({ posting, entry: this.journalEntries.get(posting.entryId)! }));
+  }
+  
+  async getUserWalletBalancesAt(userId: number, at: Date): Promise<WalletBalance[]> {
+    const latest = new Map<number, LedgerPosting>();
+    for (const posting of Array.from(this.ledgerPostings.values())) {
+      const wallet = posting.walletId ? this.wallets.get(posting.walletId) : undefined;
+      if (!wallet || wallet.userId !== userId || posting.createdAt >= at) continue;
+      
+      const current = latest.get(wallet.id);
+      if (!current || posting.id > current.id) latest.set(wallet.id, posting);
+    }
     
-    this.users.set(userId, updatedUser);
-    return updatedUser;
+    return Array.from(latest.values()).map(posting => ({
+      walletId: posting.walletId!,
+      program: posting.program,
+      balance: posting.balanceAfter ?? 0
+    }));
   }
   
-  async getUserStats(userId: number): Promise<{ pointsConverted: number; feesPaid: number; monthlyPoints: number; tier: MembershipTier; }> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error(`User with ID ${userId} not found`);
+  async getTransactionsByJournalEntries(entryIds: number[]): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      tx => tx.journalEntryId !== null && entryIds.includes(tx.journalEntryId)
+    );
+  }
+  
+  async getTradeTransactionsByJournalEntries(entryIds: number[]): Promise<TradeTransaction[]> {
+    return Array.from(this.tradeTransactions.values()).filter(
+      tx => tx.journalEntryId !== null && entryIds.includes(tx.journalEntryId)
+    );
+  }
+  
+  async createStatement(data: InsertStatement): Promise<Statement | undefined> {
+    if (await this.getStatementForPeriod(data.userId, data.periodStart)) {
+      return undefined;
+    }
     
-    return {
-      pointsConverted: user.pointsConverted || 0,
-      feesPaid: user.totalFeesPaid || 0,
-      monthlyPoints: user.monthlyPointsConverted || 0,
-      tier: user.membershipTier
+    const statement: Statement = {
+      id: this.currentStatementId++,
+      ...data,
+      createdAt: new Date()
     };
+    
+    this.statements.set(statement.id, statement);
+    return statement;
   }
   
-  // Implementing other interface methods would follow a similar pattern
+  async getStatement(id: number): Promise<Statement | undefined> {
+    return this.statements.get(id);
+  }
   
-  // Implement storage methods
-  async getUserWallets(userId: number): Promise<Wallet[]> {
-    return Array.from(this.wallets.values()).filter(wallet => wallet.userId === userId);
+  async getStatementForPeriod(userId: number, periodStart: Date): Promise<Statement | undefined> {
+    return Array.from(this.statements.values()).find(
+      statement => statement.userId === userId && statement.periodStart.getTime() === periodStart.getTime()
+    );
   }
   
-  async getWallet(userId: number, program: LoyaltyProgram): Promise<Wallet | undefined> {
-    return Array.from(this.wallets.values()).find(wallet => 
-      wallet.userId === userId && wallet.program === program
+  async getUserStatements(userId: number): Promise<Statement[]> {
+    return Array.from(this.statements.values())
+      .filter(statement => statement.userId === userId)
+      .sort((a, b) => b.periodStart.getTime() - a.periodStart.getTime());
+  }
+  
+  async getAllWallets(): Promise<Wallet[]> {
+    return Array.from(this.wallets.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getWalletLedgerBalances(): Promise<WalletLedgerBalance[]> {
+    const totals = new Map<number, number>();
+    for (const posting of Array.from(this.ledgerPostings.values())) {
+      if (posting.walletId) {
+        totals.set(posting.walletId, addPoints(totals.get(posting.walletId) ?? 0, posting.amount));
+      }
+    }
+    return Array.from(totals).map(([walletId, balance]) => ({ walletId, balance }));
+  }
+  
+  async getWalletLedgerBalance(walletId: number): Promise<number> {
+    return addPoints(...Array.from(this.ledgerPostings.values())
+      .filter(posting => posting.walletId === walletId)
+      .map(posting => posting.amount));
+  }
+  
+  async getTokenLedgerBalances(): Promise<TokenLedgerBalance[]> {
+    const totals = new Map<number, number>();
+    for (const posting of this.tokenPostings()) {
+      const userId = this.wallets.get(posting.walletId!)!.userId;
+      totals.set(userId, addPoints(totals.get(userId) ?? 0, posting.amount));
+    }
+    return Array.from(totals).map(([userId, balance]) => ({ userId, balance }));
+  }
+  
+  async getTokenLedgerBalance(userId: number): Promise<number> {
+    return addPoints(...this.tokenPostings()
+      .filter(posting => this.wallets.get(posting.walletId!)?.userId === userId)
+      .map(posting => posting.amount));
+  }
+  
+  // XPOINTS wallet postings of mint and burn entries
+  private tokenPostings(): LedgerPosting[] {
+    return Array.from(this.ledgerPostings.values()).filter(posting =>
+      posting.walletId !== null &&
+      posting.program === "XPOINTS" &&
+      TOKEN_ENTRY_TYPES.includes(this.journalEntries.get(posting.entryId)?.type ?? "")
     );
   }
   
-  async createWallet(walletData: Omit<Wallet, "id" | "createdAt">): Promise<Wallet> {
-    const id = this.currentWalletId++;
-    const wallet: Wallet = {
-      id,
-      ...walletData,
-      createdAt: new Date()
-    };
+  async restoreWalletBalance(walletId: number, balance: number): Promise<Wallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new Error(`Wallet ${walletId} not found`);
+    }
     
-    this.wallets.set(id, wallet);
-    return wallet;
+    const restoredWallet = { ...wallet, balance };
+    this.wallets.set(walletId, restoredWallet);
+    return restoredWallet;
   }
   
-  async updateWalletBalance(id: number, balance: number): Promise<Wallet> {
-    const wallet = this.wallets.get(id);
-    if (!wallet) throw new Error(`Wallet with ID ${id} not found`);
+  async getTransactionsAfter(afterId: number, limit: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async getTradeTransactionsAfter(afterId: number, limit: number): Promise<TradeTransaction[]> {
+    return Array.from(this.tradeTransactions.values())
+      .filter(tx => tx.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async getPostingsByEntries(entryIds: number[]): Promise<LedgerPosting[]> {
+    return Array.from(this.ledgerPostings.values())
+      .filter(posting => entryIds.includes(posting.entryId))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getLedgerStartedAt(): Promise<Date | undefined> {
+    const [first] = Array.from(this.journalEntries.values()).sort((a, b) => a.id - b.id);
+    return first?.createdAt;
+  }
+  
+  async createReconciliationRun(): Promise<ReconciliationRun> {
+    const run: ReconciliationRun = {
+      id: this.currentReconciliationRunId++,
+      status: "running",
+      walletsChecked: 0,
+      recordsChecked: 0,
+      discrepancyCount: 0,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null
+    };
     
-    const updatedWallet = { ...wallet, balance };
-    this.wallets.set(id, updatedWallet);
-    return updatedWallet;
+    this.reconciliationRuns.set(run.id, run);
+    return run;
   }
   
-  async updateWalletAccount(id: number, accountNumber: string | null, accountName: string | null): Promise<Wallet> {
-    const wallet = this.wallets.get(id);
-    if (!wallet) throw new Error(`Wallet with ID ${id} not found`);
+  async updateReconciliationRun(id: number, updates: ReconciliationRunUpdate): Promise<ReconciliationRun> {
+    const run = this.reconciliationRuns.get(id);
+    if (!run) {
+      throw new Error(`Reconciliation run ${id} not found`);
+    }
     
-    const updatedWallet = { 
-      ...wallet,
-      accountNumber,
-      accountName
+    const updatedRun = { ...run, ...updates };
+    this.reconciliationRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+  
+  async getLatestReconciliationRun(): Promise<ReconciliationRun | undefined> {
+    return this.reconciliationRuns.get(this.currentReconciliationRunId - 1);
+  }
+  
+  async createReconciliationDiscrepancy(data: InsertReconciliationDiscrepancy): Promise<ReconciliationDiscrepancy> {
+    const discrepancy: ReconciliationDiscrepancy = {
+      id: this.currentReconciliationDiscrepancyId++,
+      ...data,
+      walletId: data.walletId ?? null,
+      program: data.program ?? null,
+      expected: data.expected ?? null,
+      actual: data.actual ?? null,
+      recordType: data.recordType ?? null,
+      recordId: data.recordId ?? null,
+      details: data.details ?? null,
+      status: "open",
+      adjustmentEntryId: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date()
     };
     
-    this.wallets.set(id, updatedWallet);
-    return updatedWallet;
+    this.reconciliationDiscrepancies.set(discrepancy.id, discrepancy);
+    return discrepancy;
   }
   
-  async getUserTransactions(userId: number): Promise<Transaction[]> {
-    return Array.from(this.transactions.values())
-      .filter(tx => tx.userId === userId)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  async getReconciliationDiscrepancies(runId: number): Promise<ReconciliationDiscrepancy[]> {
+    return Array.from(this.reconciliationDiscrepancies.values())
+      .filter(discrepancy => discrepancy.runId === runId)
+      .sort((a, b) => a.id - b.id);
   }
   
-  async createTransaction(transactionData: Omit<Transaction, "id" | "timestamp">): Promise<Transaction> {
-    const id = this.currentTransactionId++;
-    const transaction: Transaction = {
-      id,
-      ...transactionData,
-      timestamp: new Date()
-    };
+  async lockReconciliationDiscrepancy(id: number): Promise<ReconciliationDiscrepancy | undefined> {
+    return this.reconciliationDiscrepancies.get(id);
+  }
+  
+  async reviewReconciliationDiscrepancy(id: number, review: DiscrepancyReview): Promise<ReconciliationDiscrepancy> {
+    const discrepancy = this.reconciliationDiscrepancies.get(id);
+    if (!discrepancy) {
+      throw new Error(`Discrepancy ${id} not found`);
+    }
     
-    this.transactions.set(id, transaction);
-    return transaction;
+    const reviewedDiscrepancy = { ...discrepancy, ...review };
+    this.reconciliationDiscrepancies.set(id, reviewedDiscrepancy);
+    return reviewedDiscrepancy;
+  }
+  
+  async supersedeOpenDiscrepancies(beforeRunId: number): Promise<number> {
+    let superseded = 0;
+    this.reconciliationDiscrepancies.forEach((discrepancy, id) => {
+      if (discrepancy.status === "open" && discrepancy.runId < beforeRunId) {
+        this.reconciliationDiscrepancies.set(id, { ...discrepancy, status: "superseded" });
+        superseded++;
+      }
+    });
+    return superseded;
+  }
+  
+  async getIdempotencyKey(userId: number, key: string): Promise<IdempotencyKey | undefined> {
+    return Array.from(this.idempotencyKeys.values()).find(
+      record => record.userId === userId && record.key === key
+    );
+  }
+  
+  async createIdempotencyKey(data: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    if (await this.getIdempotencyKey(data.userId, data.key)) {
+      return undefined;
+    }
+    
+    const record: IdempotencyKey = {
+      id: this.currentIdempotencyKeyId++,
+      ...data,
+      status: "in_progress",
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date()
+    };
+    this.idempotencyKeys.set(record.id, record);
+    return record;
   }
   
+  async completeIdempotencyKey(id: number, responseStatus: number, responseBody: string | null): Promise<void> {
+    const record = this.idempotencyKeys.get(id);
+    if (record) {
+      this.idempotencyKeys.set(id, { ...record, status: "completed", responseStatus, responseBody });
+    }
+  }
+  
+  async deleteIdempotencyKey(id: number): Promise<void> {
+    this.idempotencyKeys.delete(id);
+  }
+
   async getExchangeRate(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram): Promise<ExchangeRate | undefined> {
     const key = `${fromProgram}-${toProgram}`;
     return this.exchangeRates.get(key);
   }
   
+  async getAllExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values());
+  }
+  
+  async getTransferBonuses(): Promise<TransferBonus[]> {
+    return Array.from(this.transferBonuses.values())
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime());
+  }
+  
+  async getActiveTransferBonuses(now: Date): Promise<TransferBonus[]> {
+    return Array.from(this.transferBonuses.values())
+      .filter(bonus => bonus.startsAt <= now && bonus.endsAt > now);
+  }
+  
+  async createTransferBonus(data: InsertTransferBonus): Promise<TransferBonus> {
+    const bonus: TransferBonus = {
+      id: this.currentTransferBonusId++,
+      ...data,
+      description: data.description ?? null,
+      createdAt: new Date()
+    };
+    
+    this.transferBonuses.set(bonus.id, bonus);
+    return bonus;
+  }
+  
   async getTierBenefits(tier: MembershipTier): Promise<TierBenefit | undefined> {
     return this.tierBenefits.get(tier);
   }
   
+  async getAllTierBenefits(): Promise<TierBenefit[]> {
+    return Array.from(this.tierBenefits.values())
+      .sort((a, b) => a.monthlyPointsThreshold - b.monthlyPointsThreshold);
+  }
+  
   async createTierBenefits(benefits: InsertTierBenefits): Promise<TierBenefit> {
     const id = this.tierBenefits.size + 1;
     const tierBenefit: TierBenefit = {
@@ -933,7 +4682,9 @@ export class MemStorage implements IStorage {
         conversionFeeRate: "0.005",
         p2pMinimumFee: "0.005",
         p2pMaximumFee: "0.03",
-        monthlyExpiryDays: 30
+        monthlyExpiryDays: 30,
+        giftDailyLimit: 5000,
+        giftDailyCount: 10
       });
       
       await this.createTierBenefits({
@@ -943,7 +4694,9 @@ export class MemStorage implements IStorage {
         conversionFeeRate: "0.0045",
         p2pMinimumFee: "0.004",
         p2pMaximumFee: "0.025",
-        monthlyExpiryDays: 45
+        monthlyExpiryDays: 45,
+        giftDailyLimit: 15000,
+        giftDailyCount: 20
       });
       
       await this.createTierBenefits({
@@ -953,7 +4706,9 @@ export class MemStorage implements IStorage {
         conversionFeeRate: "0.0035",
         p2pMinimumFee: "0.003",
         p2pMaximumFee: "0.02",
-        monthlyExpiryDays: 60
+        monthlyExpiryDays: 60,
+        giftDailyLimit: 50000,
+        giftDailyCount: 40
       });
       
       await this.createTierBenefits({
@@ -963,12 +4718,36 @@ export class MemStorage implements IStorage {
         conversionFeeRate: "0.0025",
         p2pMinimumFee: "0.002",
         p2pMaximumFee: "0.015",
-        monthlyExpiryDays: 90
+        monthlyExpiryDays: 90,
+        giftDailyLimit: 150000,
+        giftDailyCount: 100
       });
     }
   }
   
   // Simplified stubs for trading
+  async createTierHistory(data: InsertTierHistory): Promise<TierHistory> {
+    const entry: TierHistory = {
+      id: this.currentTierHistoryId++,
+      userId: data.userId,
+      fromTier: data.fromTier,
+      toTier: data.toTier,
+      reason: data.reason,
+      monthlyPoints: data.monthlyPoints ?? 0,
+      expiresAt: data.expiresAt ?? null,
+      createdAt: new Date()
+    };
+    
+    this.tierHistory.set(entry.id, entry);
+    return entry;
+  }
+  
+  async getUserTierHistory(userId: number): Promise<TierHistory[]> {
+    return Array.from(this.tierHistory.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
   async getTradeOffers(excludeUserId?: number): Promise<TradeOffer[]> {
     let offers = Array.from(this.tradeOffers.values()).filter(o => o.status === "open");
     
@@ -987,11 +4766,34 @@ export class MemStorage implements IStorage {
     return this.tradeOffers.get(id);
   }
   
-  async createTradeOffer(data: Omit<TradeOffer, "id" | "createdAt" | "status">): Promise<TradeOffer> {
+  async lockTradeOffer(id: number): Promise<TradeOffer | undefined> {
+    return this.tradeOffers.get(id);
+  }
+  
+  async getOpenTradeOffersForPair(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, now: Date): Promise<TradeOffer[]> {
+    return Array.from(this.tradeOffers.values())
+      .filter(o => o.fromProgram === fromProgram && o.toProgram === toProgram && o.status === "open" && o.expiresAt > now)
+      .sort((a, b) =>
+        Number(a.customRate) - Number(b.customRate) ||
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id - b.id
+      );
+  }
+  
+  async getExpiredOpenTradeOffers(now: Date, limit: number): Promise<TradeOffer[]> {
+    return Array.from(this.tradeOffers.values())
+      .filter(o => o.status === "open" && o.expiresAt < now)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async createTradeOffer(data: NewTradeOffer): Promise<TradeOffer> {
     const id = this.currentTradeOfferId++;
     const offer: TradeOffer = {
       id,
       ...data,
+      amountRemaining: data.amountOffered,
+      fillCount: 0,
       status: "open",
       createdAt: new Date()
     };
@@ -1009,17 +4811,27 @@ export class MemStorage implements IStorage {
     return updatedOffer;
   }
   
+  async updateTradeOffer(id: number, updates: TradeOfferUpdate): Promise<TradeOffer> {
+    const offer = this.tradeOffers.get(id);
+    if (!offer) throw new Error(`Trade offer ${id} not found`);
+    
+    const updated = { ...offer, ...updates };
+    this.tradeOffers.set(id, updated);
+    return updated;
+  }
+  
   async getTradeHistory(userId: number): Promise<TradeTransaction[]> {
     return Array.from(this.tradeTransactions.values()).filter(
       t => t.buyerId === userId || t.sellerId === userId
     );
   }
   
-  async createTradeTransaction(data: Omit<TradeTransaction, "id" | "completedAt">): Promise<TradeTransaction> {
+  async createTradeTransaction(data: NewTradeTransaction): Promise<TradeTransaction> {
     const id = this.currentTradeTransactionId++;
     const transaction: TradeTransaction = {
       id,
       ...data,
+      takerOfferId: data.takerOfferId ?? null,
       completedAt: new Date()
     };
     
@@ -1027,6 +4839,145 @@ export class MemStorage implements IStorage {
     return transaction;
   }
   
+  async getTradeFillsForPair(programA: LoyaltyProgram, programB: LoyaltyProgram, limit: number): Promise<TradeFillRecord[]> {
+    return Array.from(this.tradeTransactions.values())
+      .map(transaction => ({ transaction, offer: this.tradeOffers.get(transaction.tradeOfferId)! }))
+      .filter(({ offer }) =>
+        (offer.fromProgram === programA && offer.toProgram === programB) ||
+        (offer.fromProgram === programB && offer.toProgram === programA)
+      )
+      .sort((a, b) => b.transaction.completedAt.getTime() - a.transaction.completedAt.getTime() || b.transaction.id - a.transaction.id)
+      .slice(0, limit);
+  }
+  
+  async lockTradeTransaction(id: number): Promise<TradeTransaction | undefined> {
+    return this.tradeTransactions.get(id);
+  }
+  
+  async updateTradeTransactionStatus(id: number, status: TradeTransactionStatus): Promise<TradeTransaction> {
+    const transaction = this.tradeTransactions.get(id);
+    if (!transaction) throw new Error(`Trade transaction ${id} not found`);
+    
+    const updated = { ...transaction, status };
+    this.tradeTransactions.set(id, updated);
+    return updated;
+  }
+  
+  async createTradeDispute(data: NewTradeDispute): Promise<TradeDispute | undefined> {
+    const open = Array.from(this.tradeDisputes.values()).some(
+      dispute => dispute.tradeTransactionId === data.tradeTransactionId && dispute.status === "open"
+    );
+    if (open) {
+      return undefined;
+    }
+    
+    const dispute: TradeDispute = {
+      id: this.currentTradeDisputeId++,
+      ...data,
+      status: "open",
+      resolvedBy: null,
+      resolvedAt: null,
+      resolutionNote: null,
+      refundAmount: null,
+      refundEntryId: null,
+      createdAt: new Date()
+    };
+    
+    this.tradeDisputes.set(dispute.id, dispute);
+    return dispute;
+  }
+  
+  async getTradeDisputes(status?: TradeDisputeStatus): Promise<TradeDisputeRecord[]> {
+    return Array.from(this.tradeDisputes.values())
+      .filter(dispute => !status || dispute.status === status)
+      .sort((a, b) => b.id - a.id)
+      .map(dispute => {
+        const trade = this.tradeTransactions.get(dispute.tradeTransactionId)!;
+        return { dispute, trade, offer: this.tradeOffers.get(trade.tradeOfferId)! };
+      });
+  }
+  
+  async getTradeDisputesForTrade(tradeTransactionId: number): Promise<TradeDispute[]> {
+    return Array.from(this.tradeDisputes.values())
+      .filter(dispute => dispute.tradeTransactionId === tradeTransactionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async lockTradeDispute(id: number): Promise<TradeDispute | undefined> {
+    return this.tradeDisputes.get(id);
+  }
+  
+  async resolveTradeDispute(id: number, resolution: TradeDisputeResolution): Promise<TradeDispute> {
+    const dispute = this.tradeDisputes.get(id);
+    if (!dispute) {
+      throw new Error(`Trade dispute ${id} not found`);
+    }
+    
+    const resolved = { ...dispute, ...resolution };
+    this.tradeDisputes.set(id, resolved);
+    return resolved;
+  }
+  
+  async createEscrowHold(data: NewEscrowHold): Promise<EscrowHold> {
+    const hold: EscrowHold = {
+      id: this.currentEscrowHoldId++,
+      ...data,
+      amountHeld: data.amount,
+      status: "held",
+      createdAt: new Date(),
+      closedAt: null
+    };
+    this.escrowHolds.set(hold.id, hold);
+    return hold;
+  }
+  
+  async lockEscrowHoldForOffer(tradeOfferId: number): Promise<EscrowHold | undefined> {
+    return Array.from(this.escrowHolds.values()).find(hold => hold.tradeOfferId === tradeOfferId);
+  }
+  
+  async updateEscrowHold(id: number, updates: EscrowHoldUpdate): Promise<EscrowHold> {
+    const hold = this.escrowHolds.get(id);
+    if (!hold) throw new Error(`Escrow hold ${id} not found`);
+    
+    const updated = { ...hold, ...updates };
+    this.escrowHolds.set(id, updated);
+    return updated;
+  }
+  
+  async getUserEscrowHolds(userId: number, limit: number): Promise<EscrowHold[]> {
+    return Array.from(this.escrowHolds.values())
+      .filter(hold => hold.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getWalletHeldBalances(userId: number): Promise<WalletHeldBalance[]> {
+    const totals = new Map<number, number>();
+    for (const hold of Array.from(this.escrowHolds.values())) {
+      if (hold.userId === userId && hold.status === "held") {
+        totals.set(hold.walletId, addPoints(totals.get(hold.walletId) ?? 0, hold.amountHeld));
+      }
+    }
+    return Array.from(totals).map(([walletId, held]) => ({ walletId, held }));
+  }
+  
+  async createEscrowMovement(data: NewEscrowMovement): Promise<EscrowMovement> {
+    const movement: EscrowMovement = {
+      id: this.currentEscrowMovementId++,
+      ...data,
+      tradeTransactionId: data.tradeTransactionId ?? null,
+      createdAt: new Date()
+    };
+    this.escrowMovements.set(movement.id, movement);
+    return movement;
+  }
+  
+  async getEscrowMovements(holdIds: number[]): Promise<EscrowMovement[]> {
+    return Array.from(this.escrowMovements.values())
+      .filter(movement => holdIds.includes(movement.holdId))
+      .sort((a, b) => a.id - b.id);
+  }
+  
   // Simple stubs for business analytics
   async getBusinessAnalytics(businessId: number): Promise<BusinessAnalytics | undefined> {
     return undefined; 
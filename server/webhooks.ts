@@ -0,0 +1,35 @@
+import { createHmac } from "crypto";
+import { config } from "./config";
+
+/**
+ * Delivers an event to the configured webhook URL. The JSON body is signed with
+ * HMAC-SHA256 in the X-Webhook-Signature header so receivers can verify it came from us.
+ * Delivery is best effort: a failure is logged and never fails the caller.
+ */
+export async function sendWebhook(event: string, data: unknown): Promise<void> {
+  if (!config.webhooks.url) {
+    return;
+  }
+
+  const body = JSON.stringify({ event, data, sentAt: new Date().toISOString() });
+  const signature = createHmac("sha256", config.webhooks.secret).update(body).digest("hex");
+
+  try {
+    const response = await fetch(config.webhooks.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": event,
+        "X-Webhook-Signature": `sha256=${signature}`
+      },
+      body,
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs)
+    });
+
+    if (!response.ok) {
+      console.error(`Webhook ${event} was rejected with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Error delivering webhook ${event}:`, error);
+  }
+}
@@ -0,0 +1,176 @@
+import type { LoyaltyProgram } from "./schema";
+
+/**
+ * Points amounts.
+ *
+ * Every amount is stored as NUMERIC(20, 2) and handled in TypeScript as a number that
+ * is already rounded to hundredths of a point. Arithmetic that has to add up exactly
+ * (ledger postings, balances, fees) goes through these helpers, which work in integer
+ * hundredths ("minor units") instead of adding floats.
+ *
+ * Each program also has a precision of its own - most loyalty programs only deal in
+ * whole points. Amounts a program receives are rounded to that precision with these rules:
+ *  - points credited from a conversion or trade are rounded down
+ *  - fees are rounded up
+ *  - anything else rounds half away from zero
+ * so the user never receives a fraction the program can't represent, and the platform
+ * never undercharges by a fraction of a point.
+ */
+
+// Decimal places every points amount is stored with
+export const POINTS_SCALE = 2;
+
+const MINOR_UNITS_PER_POINT = 10 ** POINTS_SCALE;
+
+// Decimal places each program's points can have
+export const PROGRAM_PRECISION: Record<LoyaltyProgram, number> = {
+  QANTAS: 0,
+  GYG: 0,
+  XPOINTS: 2,
+  VELOCITY: 0,
+  AMEX: 0,
+  FLYBUYS: 0,
+  HILTON: 0,
+  MARRIOTT: 0,
+  AIRBNB: 0,
+  DELTA: 0
+};
+
+export type RoundingMode = "down" | "up" | "halfUp"; // Towards zero, away from zero, half away from zero
+
+function precisionOf(program?: LoyaltyProgram): number {
+  return program ? PROGRAM_PRECISION[program] : POINTS_SCALE;
+}
+
+function roundScaled(value: number, mode: RoundingMode): number {
+  // toPrecision strips the binary noise of the scaling, e.g. 1.005 * 100 = 100.49999999999999
+  const abs = Math.abs(Number(value.toPrecision(15)));
+  const rounded = mode === "down" ? Math.floor(abs) : mode === "up" ? Math.ceil(abs) : Math.round(abs);
+  return rounded === 0 ? 0 : Math.sign(value) * rounded;
+}
+
+/**
+ * Amount in hundredths of a point, rounded half away from zero
+ */
+export function toMinorUnits(value: number): number {
+  return roundScaled(value * MINOR_UNITS_PER_POINT, "halfUp");
+}
+
+export function fromMinorUnits(units: number): number {
+  return units / MINOR_UNITS_PER_POINT;
+}
+
+/**
+ * Rounds an amount to a program's precision, or to the storage scale if no program is given
+ */
+export function roundPoints(value: number, program?: LoyaltyProgram, mode: RoundingMode = "halfUp"): number {
+  const factor = 10 ** precisionOf(program);
+  return roundScaled(value * factor, mode) / factor;
+}
+
+/**
+ * Whether an amount is already representable in a program without rounding
+ */
+export function isValidPointsAmount(value: number, program: LoyaltyProgram): boolean {
+  return Number.isFinite(value) && roundPoints(value, program) === value;
+}
+
+/**
+ * Exact sum of points amounts
+ */
+export function addPoints(...values: number[]): number {
+  return fromMinorUnits(values.reduce((sum, value) => sum + toMinorUnits(value), 0));
+}
+
+/**
+ * Exact difference of two points amounts
+ */
+export function subtractPoints(a: number, b: number): number {
+  return fromMinorUnits(toMinorUnits(a) - toMinorUnits(b));
+}
+
+interface Decimal {
+  digits: bigint;
+  scale: number; // value = digits / 10^scale
+}
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${"0".repeat(exponent)}`);
+}
+
+function parseDecimal(value: number | string): Decimal {
+  // A computed rate like 0.1 * 0.1 carries float noise past the 15th digit - drop it
+  const text = typeof value === "number" ? value.toPrecision(15) : value.trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+  let digits = BigInt(`${whole}${fraction}` || "0");
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+
+  return { digits: sign === "-" ? -digits : digits, scale };
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const negative = numerator < BigInt(0);
+  const abs = negative ? -numerator : numerator;
+  const quotient = abs / denominator;
+  const remainder = abs % denominator;
+
+  let rounded = quotient;
+  if (remainder > BigInt(0)) {
+    if (mode === "up" || (mode === "halfUp" && remainder * BigInt(2) >= denominator)) {
+      rounded += BigInt(1);
+    }
+  }
+
+  return negative ? -rounded : rounded;
+}
+
+/**
+ * Multiplies an amount by a rate without going through floating point - `factor` can be
+ * a numeric string straight from the database (e.g. an exchange rate or fee rate).
+ * The result is rounded once, to the program's precision.
+ */
+export function multiplyPoints(
+  amount: number,
+  factor: number | string,
+  program?: LoyaltyProgram,
+  mode: RoundingMode = "halfUp"
+): number {
+  const rate = parseDecimal(factor);
+  const precision = precisionOf(program);
+
+  // amount in minor units * rate digits is in units of 10^-(POINTS_SCALE + rate.scale)
+  const product = BigInt(toMinorUnits(amount)) * rate.digits;
+  const divisor = pow10(POINTS_SCALE + rate.scale - precision);
+
+  return Number(divideRounded(product, divisor, mode)) / 10 ** precision;
+}
+
+/**
+ * Amount as an exact decimal string with POINTS_SCALE places, as written to NUMERIC columns
+ */
+export function toDecimalString(value: number): string {
+  const units = toMinorUnits(value);
+  const abs = Math.abs(units).toString().padStart(POINTS_SCALE + 1, "0");
+  const sign = units < 0 ? "-" : "";
+  return `${sign}${abs.slice(0, -POINTS_SCALE)}.${abs.slice(-POINTS_SCALE)}`;
+}
+
+/**
+ * Formats an amount for display with the program's precision, e.g. 1,234 or 1,234.50
+ */
+export function formatPoints(value: number, program?: LoyaltyProgram): string {
+  const precision = precisionOf(program);
+  return roundPoints(value, program).toLocaleString(undefined, {
+    minimumFractionDigits: program ? precision : 0,
+    maximumFractionDigits: precision
+  });
+}
@@ -1,6 +1,20 @@
-import { pgTable, text, serial, pgEnum, timestamp, numeric, real, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, pgEnum, timestamp, numeric, real, boolean, unique, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { POINTS_SCALE, isValidPointsAmount, toDecimalString } from "./money";
+
+// Points amount - exact NUMERIC in the database, a number rounded to hundredths in code (see money.ts)
+const points = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return `numeric(20, ${POINTS_SCALE})`;
+  },
+  toDriver(value) {
+    return toDecimalString(value);
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+});
 
 // Membership tiers enum
 export const membershipTierEnum = pgEnum("membership_tier", ["STANDARD", "SILVER", "GOLD", "PLATINUM"]);
@@ -15,6 +29,8 @@ export const tierBenefits = pgTable("tier_benefits", {
   p2pMinimumFee: numeric("p2p_minimum_fee").default("0.005").notNull(), // Minimum fee rate for P2P trades
   p2pMaximumFee: numeric("p2p_maximum_fee").default("0.03").notNull(), // Maximum fee cap for P2P trades
   monthlyExpiryDays: serial("monthly_expiry_days").default(30).notNull(), // How many days tier lasts after qualifying
+  giftDailyLimit: points("gift_daily_limit").default(5000).notNull(), // Points a member can gift in any 24 hours, across programs
+  giftDailyCount: integer("gift_daily_count").default(10).notNull(), // Gifts a member can send in any 24 hours
 });
 
 // Users table
@@ -87,9 +103,81 @@ export const wallets = pgTable("wallets", {
   id: serial("id").primaryKey(),
   userId: serial("user_id").references(() => users.id),
   program: loyaltyProgramEnum("program").notNull(),
-  balance: real("balance").default(0).notNull(),
+  balance: points("balance").default(0).notNull(),
   accountNumber: text("account_number"),
   accountName: text("account_name"),
+  accountStatus: text("account_status").$type<AccountStatus>().default("unverified").notNull(), // Whether the linked account passed a challenge
+  accountVerifiedAt: timestamp("account_verified_at"),
+  partnerBalance: points("partner_balance"), // What the partner should hold: its last reported balance plus what we've credited since
+  partnerSyncedAt: timestamp("partner_synced_at"), // Last balance sync, successful or not
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Balance syncs - each pull of a linked account's balance from its partner program
+export const balanceSyncs = pgTable("balance_syncs", {
+  id: serial("id").primaryKey(),
+  walletId: integer("wallet_id").references(() => wallets.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  program: loyaltyProgramEnum("program").notNull(),
+  trigger: text("trigger").$type<SyncTrigger>().notNull(), // scheduled, manual
+  status: text("status").$type<BalanceSyncStatus>().notNull(), // See balanceSyncStatuses
+  expectedBalance: points("expected_balance"), // What we thought the partner held
+  reportedBalance: points("reported_balance"), // What it said
+  difference: points("difference"), // Reported less expected - activity at the partner outside xPoints
+  entryId: integer("entry_id").references(() => journalEntries.id), // Entry that applied the difference to the wallet
+  error: text("error"), // Why the partner couldn't be asked, or why a difference wasn't applied
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Account verifications - challenges proving the user controls the partner account linked to a wallet
+export const accountVerifications = pgTable("account_verifications", {
+  id: serial("id").primaryKey(),
+  walletId: integer("wallet_id").references(() => wallets.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  accountNumber: text("account_number").notNull(), // The account being verified - relinking another one voids the challenge
+  method: text("method").$type<VerificationMethod>().notNull(), // code, micro_transfer
+  secretHash: text("secret_hash").notNull(), // Hash of the code or the micro-transfer amounts
+  attempts: integer("attempts").default(0).notNull(),
+  status: text("status").default("pending").notNull(), // pending, verified, failed, superseded
+  expiresAt: timestamp("expires_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Point gifts - points one member sends another. A gift to an email is held in escrow
+// until whoever has its claim code accepts or declines it.
+export const pointGifts = pgTable("point_gifts", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").references(() => users.id).notNull(),
+  recipientId: integer("recipient_id").references(() => users.id), // Null while the gift waits on an unregistered email
+  recipientEmail: text("recipient_email"), // Lowercased, for gifts sent by email
+  claimCodeHash: text("claim_code_hash"), // sha256 of the code the sender passes on - cleared once the gift is answered
+  program: loyaltyProgramEnum("program").notNull(),
+  amount: points("amount").notNull(),
+  message: text("message"),
+  status: text("status").$type<GiftStatus>().notNull(), // See giftStatuses
+  requestId: integer("request_id").references((): AnyPgColumn => pointRequests.id), // The payment request it paid, if any
+  holdEntryId: integer("hold_entry_id").references(() => journalEntries.id), // Escrow hold while pending
+  transactionId: integer("transaction_id").references(() => transactions.id), // The p2p transaction once delivered
+  expiresAt: timestamp("expires_at"), // A pending gift goes back to the sender after this
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Point requests - "request points" links a member shares for someone else to pay
+export const pointRequests = pgTable("point_requests", {
+  id: serial("id").primaryKey(),
+  requesterId: integer("requester_id").references(() => users.id).notNull(),
+  program: loyaltyProgramEnum("program").notNull(),
+  amount: points("amount").notNull(),
+  message: text("message"),
+  token: text("token").notNull().unique(), // Identifies the request in its link
+  status: text("status").$type<PointRequestStatus>().default("open").notNull(), // open, paid, cancelled, expired
+  paidBy: integer("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -109,18 +197,109 @@ export const transactions = pgTable("transactions", {
   userId: serial("user_id").references(() => users.id),
   fromProgram: loyaltyProgramEnum("from_program").notNull(),
   toProgram: loyaltyProgramEnum("to_program").notNull(),
-  amountFrom: real("amount_from").notNull(),
-  amountTo: real("amount_to").notNull(),
+  amountFrom: points("amount_from").notNull(),
+  amountTo: points("amount_to").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-  feeApplied: real("fee_applied").default(0).notNull(),
-  status: text("status").default("completed").notNull(),
-  // For P2P transfers
+  feeApplied: points("fee_applied").default(0).notNull(),
+  status: text("status").$type<TransactionStatus>().default("settled").notNull(), // See TRANSACTION_TRANSITIONS
+  statusUpdatedAt: timestamp("status_updated_at").defaultNow().notNull(),
+  failureReason: text("failure_reason"), // Set when the transaction fails
+  type: text("type").default("conversion").notNull(), // conversion, tokenize, detokenize, p2p, issuance, refund, expiry, sync
+  reversalOf: integer("reversal_of").references((): AnyPgColumn => transactions.id), // Set on a refund - the transaction it reversed
+  // For P2P transfers - the user themselves for everything else
   recipientId: serial("recipient_id").references(() => users.id).notNull().default(0),
   // Blockchain integration
   transactionHash: text("transaction_hash"), // Blockchain transaction hash
   blockNumber: serial("block_number").default(0), // Block where transaction was confirmed
   contractAddress: text("contract_address"), // Contract address (if applicable)
-  tokenAddress: text("token_address") // Token contract address
+  tokenAddress: text("token_address"), // Token contract address
+  // Ledger integration
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // Entry that moved the balances
+  holdEntryId: integer("hold_entry_id").references(() => journalEntries.id), // Escrow hold while a transfer is in flight
+  partnerReference: text("partner_reference"), // The partner program's transfer id once submitted to it
+});
+
+// Transaction status events - one per lifecycle transition, including the initial status
+export const transactionStatusEvents = pgTable("transaction_status_events", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  fromStatus: text("from_status").$type<TransactionStatus>(), // Null for the status the transaction was created in
+  toStatus: text("to_status").$type<TransactionStatus>().notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Transaction reversals - a refund support requested, applied once a second admin approves it
+export const transactionReversals = pgTable("transaction_reversals", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").default("requested").notNull(), // requested, approved, rejected
+  requestedBy: integer("requested_by").references(() => users.id).notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  refundTransactionId: integer("refund_transaction_id").references(() => transactions.id), // Set when approved
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ledger journal entries - one per balance-changing business event
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // User who initiated the event (null for system jobs)
+  type: text("type").notNull(), // signup_bonus, conversion, tokenize, detokenize, trade_escrow, trade_release, trade_settlement, trade_refund, order_reserve, order_release, transfer_hold, transfer_release, transfer_settlement, reversal, adjustment, expiry, partner_sync, gift, gift_hold, gift_release
+  reference: text("reference"), // e.g. trade_offer:12
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ledger postings - the individual debits/credits of a journal entry.
+// Postings of an entry always sum to zero per program.
+export const ledgerPostings = pgTable("ledger_postings", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  account: text("account").notNull(), // wallet, exchange, fees, escrow, issuance, expired, partner
+  walletId: integer("wallet_id").references(() => wallets.id), // Set when account is "wallet"
+  program: loyaltyProgramEnum("program").notNull(),
+  amount: points("amount").notNull(), // Signed: negative debits, positive credits
+  balanceAfter: points("balance_after"), // Wallet balance after this posting
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Points lots - a wallet balance broken down by where its points came from and when they expire.
+// The remaining amounts of a wallet's lots add up to its balance; postJournalEntry keeps them in step.
+export const pointLots = pgTable("point_lots", {
+  id: serial("id").primaryKey(),
+  walletId: integer("wallet_id").references(() => wallets.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  program: loyaltyProgramEnum("program").notNull(),
+  source: text("source").$type<LotSource>().notNull(), // See lotSources
+  entryId: integer("entry_id").references(() => journalEntries.id), // Entry that credited the points (null for opening lots)
+  amount: points("amount").notNull(), // As credited
+  remaining: points("remaining").notNull(), // Not yet spent or expired
+  expiresAt: timestamp("expires_at"), // Null if the points never expire
+  notifiedAt: timestamp("notified_at"), // When the owner was told the lot is about to expire
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Points lot movements - what each journal entry drew from a lot (positive) or put back into it (negative)
+export const pointLotMovements = pgTable("point_lot_movements", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").references(() => pointLots.id).notNull(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  amount: points("amount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Notifications - in-app messages for a user, e.g. points about to expire
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(), // points_expiring, points_expired, account_revoked
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Zod schemas
@@ -148,11 +327,27 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   amountTo: true,
   feeApplied: true,
   status: true,
+  type: true,
   recipientId: true,
   transactionHash: true,
   blockNumber: true,
   contractAddress: true,
   tokenAddress: true,
+  journalEntryId: true,
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
+  userId: true,
+  type: true,
+  reference: true,
+  description: true,
+});
+
+export const insertLedgerPostingSchema = createInsertSchema(ledgerPostings).pick({
+  account: true,
+  walletId: true,
+  program: true,
+  amount: true,
 });
 
 export const convertPointsSchema = z.object({
@@ -161,10 +356,208 @@ export const convertPointsSchema = z.object({
   amount: z.number().positive(),
 });
 
+export const convertBatchSchema = z.object({
+  legs: z.array(convertPointsSchema).min(1).max(20),
+});
+
+export const createTransferBonusSchema = z.object({
+  fromProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  toProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  bonusPercent: z.number().positive().max(500),
+  description: z.string().optional(),
+  startsAt: z.string().transform(str => new Date(str)),
+  endsAt: z.string().transform(str => new Date(str)),
+}).refine(data => data.endsAt > data.startsAt, {
+  message: "Bonus must end after it starts",
+  path: ["endsAt"],
+});
+
+export const createConversionOrderSchema = z.object({
+  fromProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  toProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  amount: z.number().positive(),
+  targetRate: z.number().positive(),
+  timeInForce: z.enum(["gtc", "gtd"]).default("gtc"),
+  expiresAt: z.string().optional().transform(str => str ? new Date(str) : undefined),
+}).refine(data => data.timeInForce === "gtc" || (data.expiresAt && data.expiresAt > new Date()), {
+  message: "Good-till-date orders need an expiry in the future",
+  path: ["expiresAt"],
+});
+
+export const createSweepScheduleSchema = z.object({
+  fromProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  toProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]).default("XPOINTS"),
+  schedule: z.string().min(1), // Cron expression, e.g. "0 9 * * 1" for Mondays at 09:00 UTC
+  keepBalance: z.number().min(0).default(0),
+});
+
+export const transactionTypes = ["conversion", "tokenize", "detokenize", "p2p", "issuance", "refund", "expiry", "sync"] as const;
+
+// Where a lot's points came from. Opening lots hold balances from before lots were tracked.
+export const lotSources = ["opening", "issuance", "conversion", "trade", "token", "refund", "adjustment", "partner", "gift"] as const;
+
+// A flagged sync's difference waits for an admin to apply (approved) or ignore (dismissed) it
+export const balanceSyncStatuses = ["unchanged", "applied", "flagged", "approved", "dismissed", "failed"] as const;
+
+// Gifts to a registered member are delivered straight away; pending ones wait on an unregistered email
+export const giftStatuses = ["pending", "delivered", "declined", "cancelled", "expired"] as const;
+export const pointRequestStatuses = ["open", "paid", "cancelled", "expired"] as const;
+
+// A disputed trade goes back to completed if its dispute is rejected, or is refunded in full or in part
+export const tradeTransactionStatuses = ["completed", "disputed", "refunded"] as const;
+export const tradeDisputeStatuses = ["open", "refunded", "rejected"] as const;
+
+// A hold closes once nothing is left in it: settled if all of it was paid out, released otherwise
+export const escrowHoldStatuses = ["held", "settled", "released"] as const;
+
+// Transaction lifecycle. Conversions the platform settles itself are created settled;
+// transfers out to a partner program hold the points in escrow from pending until the
+// partner settles them or they fail.
+export const transactionStatuses = ["quoted", "pending", "submitted", "settled", "failed", "reversed"] as const;
+
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  quoted: ["pending", "failed"],
+  pending: ["submitted", "failed"],
+  submitted: ["settled", "failed"],
+  settled: ["reversed"],
+  failed: [],
+  reversed: [],
+};
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[from].includes(to);
+}
+
+// Filters for the transaction history and its export. Values come from the query string.
+// Direction is from the user's side: "out" is points they sent, "in" points they received -
+// with a program filter it picks the side of a conversion, e.g. out of QANTAS or into XPOINTS.
+// Amount filters and sorts apply to amountFrom.
+export const transactionQuerySchema = z.object({
+  program: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]).optional(),
+  direction: z.enum(["in", "out"]).optional(),
+  status: z.enum(transactionStatuses).optional(),
+  type: z.enum(transactionTypes).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+  maxAmount: z.coerce.number().min(0).optional(),
+  sort: z.enum(["newest", "oldest", "largest", "smallest"]).default("newest"),
+  cursor: z.string().optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: "Date range must start before it ends",
+  path: ["to"],
+}).refine(data => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount, {
+  message: "Minimum amount must not exceed the maximum",
+  path: ["maxAmount"],
+});
+
+export const executeConversionSchema = z.object({
+  quoteId: z.string().min(1),
+});
+
+export const requestReversalSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const reviewReversalSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+// Moves a transfer along its lifecycle, e.g. when a partner confirms or rejects it
+export const transactionTransitionSchema = z.object({
+  status: z.enum(["submitted", "settled", "failed"]),
+  reason: z.string().max(500).optional(),
+});
+
+// Every program except xPoints lives at a partner we connect to
+export const partnerPrograms = ["QANTAS", "GYG", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"] as const;
+
+export const accountStatuses = ["unverified", "verified", "revoked"] as const;
+export const verificationMethods = ["code", "micro_transfer"] as const;
+
+// What a member number looks like in each partner program
+export const ACCOUNT_NUMBER_FORMATS: Record<PartnerProgram, { pattern: RegExp; description: string }> = {
+  QANTAS: { pattern: /^\d{7,10}$/, description: "7 to 10 digits" },
+  GYG: { pattern: /^\d{10}$/, description: "10 digits" },
+  VELOCITY: { pattern: /^\d{10}$/, description: "10 digits" },
+  AMEX: { pattern: /^\d{15}$/, description: "15 digits" },
+  FLYBUYS: { pattern: /^6014\d{12}$/, description: "16 digits starting with 6014" },
+  HILTON: { pattern: /^\d{9}$/, description: "9 digits" },
+  MARRIOTT: { pattern: /^\d{9}$/, description: "9 digits" },
+  AIRBNB: { pattern: /^[A-Z0-9]{8,12}$/, description: "8 to 12 letters or digits" },
+  DELTA: { pattern: /^\d{10}$/, description: "10 digits" }
+};
+
 export const linkAccountSchema = z.object({
-  program: z.enum(["QANTAS", "GYG", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
-  accountNumber: z.string().min(1),
-  accountName: z.string().min(1),
+  program: z.enum(partnerPrograms),
+  accountNumber: z.string().transform(value => value.replace(/[\s-]/g, "").toUpperCase()), // Spaces and dashes as printed on cards are dropped
+  accountName: z.string().trim().min(2),
+  verificationMethod: z.enum(verificationMethods).default("code"),
+}).superRefine((data, ctx) => {
+  const format = ACCOUNT_NUMBER_FORMATS[data.program];
+  if (!format.pattern.test(data.accountNumber)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${data.program} member numbers are ${format.description}`,
+      path: ["accountNumber"],
+    });
+  }
+});
+
+export const startVerificationSchema = z.object({
+  method: z.enum(verificationMethods).default("code"),
+});
+
+// A code for the code method, or the two amounts that arrived for a micro-transfer
+export const confirmVerificationSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Codes are 6 digits").optional(),
+  amounts: z.array(z.number().int().min(1).max(99)).length(2).optional(),
+}).refine(data => !!data.code !== !!data.amounts, {
+  message: "Provide either the code or the two amounts",
+});
+
+// Recipient is a username, or an email address for someone who may not have signed up yet
+export const sendGiftSchema = z.object({
+  recipient: z.string().trim().min(1).max(254),
+  program: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  amount: z.number().positive(),
+  message: z.string().trim().max(280).optional(),
+}).refine(data => isValidPointsAmount(data.amount, data.program), {
+  message: "Amount has more decimal places than the program allows",
+  path: ["amount"],
+});
+
+// Code the sender of an emailed gift passed on, needed to accept or decline it
+export const answerGiftSchema = z.object({
+  claimCode: z.string().trim().min(1).max(64),
+});
+
+export const createPointRequestSchema = z.object({
+  program: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  amount: z.number().positive(),
+  message: z.string().trim().max(280).optional(),
+}).refine(data => isValidPointsAmount(data.amount, data.program), {
+  message: "Amount has more decimal places than the program allows",
+  path: ["amount"],
+});
+
+// Tokens are burned in xPoints, whichever program they go back to
+export const detokenizeSchema = z.object({
+  program: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  amount: z.number().positive(),
+}).refine(data => isValidPointsAmount(data.amount, "XPOINTS"), {
+  message: "Amount has more decimal places than xPoints allow",
+  path: ["amount"],
+});
+
+// Refresh every linked account, or only the one for program
+export const syncBalancesSchema = z.object({
+  program: z.enum(partnerPrograms).optional(),
+});
+
+export const revokeAccountSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
 });
 
 // Business Payment table - for tracking payments made by businesses to issue points
@@ -210,14 +603,17 @@ export const tradeOffers = pgTable("trade_offers", {
   createdBy: serial("created_by").references(() => users.id),
   fromProgram: loyaltyProgramEnum("from_program").notNull(),
   toProgram: loyaltyProgramEnum("to_program").notNull(),
-  amountOffered: real("amount_offered").notNull(),
-  amountRequested: real("amount_requested").notNull(),
+  amountOffered: points("amount_offered").notNull(),
+  amountRequested: points("amount_requested").notNull(),
+  amountRemaining: points("amount_remaining").notNull(), // Offered points not yet bought, still held in escrow
+  fillCount: integer("fill_count").default(0).notNull(),
+  minFillAmount: points("min_fill_amount"), // Smallest fill in offered points; null takes any size
   customRate: numeric("custom_rate").notNull(), // Calculated rate for this trade
   marketRate: numeric("market_rate").notNull(), // Current market rate when offer created
   savings: numeric("savings").notNull(), // % difference between market and custom rate
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
-  status: text("status").default("open").notNull(), // open, completed, cancelled, expired
+  status: text("status").default("open").notNull(), // open (including partly filled), completed, cancelled, expired
   description: text("description"), // Optional note from the creator
 });
 
@@ -230,12 +626,213 @@ export const tradeTransactions = pgTable("trade_transactions", {
   completedAt: timestamp("completed_at").defaultNow().notNull(),
   sellerWalletId: serial("seller_wallet_id").references(() => wallets.id),
   buyerWalletId: serial("buyer_wallet_id").references(() => wallets.id),
-  amountSold: real("amount_sold").notNull(),
-  amountBought: real("amount_bought").notNull(),
+  amountSold: points("amount_sold").notNull(),
+  amountBought: points("amount_bought").notNull(),
   rate: numeric("rate").notNull(),
-  sellerFee: real("seller_fee").default(0).notNull(),
-  buyerFee: real("buyer_fee").default(0).notNull(),
-  status: text("status").default("completed").notNull(), // completed, disputed, refunded
+  sellerFee: points("seller_fee").default(0).notNull(),
+  buyerFee: points("buyer_fee").default(0).notNull(),
+  status: text("status").$type<TradeTransactionStatus>().default("completed").notNull(), // See tradeTransactionStatuses
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // Settlement entry
+  // Set when the matching engine crossed two offers: the buyer paid out of this offer's escrow, not a wallet
+  takerOfferId: integer("taker_offer_id").references(() => tradeOffers.id),
+});
+
+// Trade disputes - either party's complaint about a completed trade, waiting on an admin.
+// Kept after review, so a trade's disputes are its history.
+export const tradeDisputes = pgTable("trade_disputes", {
+  id: serial("id").primaryKey(),
+  tradeTransactionId: integer("trade_transaction_id").references(() => tradeTransactions.id).notNull(),
+  openedBy: integer("opened_by").references(() => users.id).notNull(),
+  reason: text("reason").notNull(),
+  evidence: text("evidence"), // Notes backing the claim, e.g. what was expected and what happened
+  status: text("status").$type<TradeDisputeStatus>().default("open").notNull(), // See tradeDisputeStatuses
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionNote: text("resolution_note"),
+  refundAmount: points("refund_amount"), // Sold points handed back to the seller; the trade's amountSold for a full refund
+  refundEntryId: integer("refund_entry_id").references(() => journalEntries.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Escrow holds - the points locked for one trade offer. The ledger's escrow account holds
+// the points; a hold says whose they are, which wallet they came from and what is left.
+export const escrowHolds = pgTable("escrow_holds", {
+  id: serial("id").primaryKey(),
+  tradeOfferId: integer("trade_offer_id").references(() => tradeOffers.id).notNull().unique(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  walletId: integer("wallet_id").references(() => wallets.id).notNull(), // Funded the hold; released points go back here
+  program: loyaltyProgramEnum("program").notNull(),
+  amount: points("amount").notNull(), // Originally held
+  amountHeld: points("amount_held").notNull(), // Still held
+  status: text("status").$type<EscrowHoldStatus>().default("held").notNull(), // See escrowHoldStatuses
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Escrow movements - every change to a hold, with the journal entry that made it
+export const escrowMovements = pgTable("escrow_movements", {
+  id: serial("id").primaryKey(),
+  holdId: integer("hold_id").references(() => escrowHolds.id).notNull(),
+  type: text("type").$type<EscrowMovementType>().notNull(), // hold, transfer (to a buyer or seller), release (back to the wallet)
+  amount: points("amount").notNull(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  tradeTransactionId: integer("trade_transaction_id").references(() => tradeTransactions.id), // For transfers
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Conversion quotes - a locked rate and fee the user confirms before a conversion runs
+export const conversionQuotes = pgTable("conversion_quotes", {
+  id: text("id").primaryKey(), // Random quote id handed to the client
+  userId: integer("user_id").references(() => users.id).notNull(),
+  fromProgram: loyaltyProgramEnum("from_program").notNull(),
+  toProgram: loyaltyProgramEnum("to_program").notNull(),
+  amountFrom: points("amount_from").notNull(),
+  amountTo: points("amount_to").notNull(),
+  rate: numeric("rate").notNull(), // Locked exchange rate
+  feeApplied: points("fee_applied").default(0).notNull(),
+  conversionPath: text("conversion_path").notNull(),
+  fromValueInDollars: real("from_value_in_dollars").notNull(),
+  toValueInDollars: real("to_value_in_dollars").notNull(),
+  status: text("status").default("open").notNull(), // open, executed
+  transactionId: integer("transaction_id").references(() => transactions.id), // Set once executed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  executedAt: timestamp("executed_at"),
+  feeBreakdown: text("fee_breakdown"), // JSON itemized fees as quoted
+  route: text("route"), // JSON hops of the chosen conversion route, at locked rates
+});
+
+// Conversion orders - convert automatically once the rate reaches a target, with the points held in escrow meanwhile
+export const conversionOrders = pgTable("conversion_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  fromProgram: loyaltyProgramEnum("from_program").notNull(),
+  toProgram: loyaltyProgramEnum("to_program").notNull(),
+  amount: points("amount").notNull(), // fromProgram points reserved for the order
+  targetRate: numeric("target_rate").notNull(), // Minimum toProgram points per fromProgram point, after fees
+  timeInForce: text("time_in_force").default("gtc").notNull(), // gtc (good till cancelled), gtd (good till expiresAt)
+  status: text("status").default("open").notNull(), // open, executed, cancelled, expired
+  expiresAt: timestamp("expires_at"), // Only for gtd orders
+  transactionId: integer("transaction_id").references(() => transactions.id), // Set once executed
+  executedRate: numeric("executed_rate"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"), // When it was executed, cancelled or expired
+  closeReason: text("close_reason"), // Set when we cancelled it rather than the user
+});
+
+// Sweep schedules - recurring conversions of everything above a threshold, on a cron schedule
+export const sweepSchedules = pgTable("sweep_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  fromProgram: loyaltyProgramEnum("from_program").notNull(),
+  toProgram: loyaltyProgramEnum("to_program").notNull(),
+  schedule: text("schedule").notNull(), // Five-field cron expression, evaluated in UTC
+  keepBalance: points("keep_balance").default(0).notNull(), // Only points above this are swept
+  status: text("status").default("active").notNull(), // active, paused
+  nextRunAt: timestamp("next_run_at"), // Next scheduled run or retry, null while paused
+  lastRunAt: timestamp("last_run_at"),
+  failureCount: integer("failure_count").default(0).notNull(), // Consecutive failed attempts for the current run
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sweep runs - one row per attempt, linked to the conversion it made
+export const sweepRuns = pgTable("sweep_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").references(() => sweepSchedules.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull(), // succeeded, skipped, failed
+  attempt: integer("attempt").default(1).notNull(),
+  amount: points("amount"), // fromProgram points swept
+  transactionId: integer("transaction_id").references(() => transactions.id), // Set when succeeded
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Monthly statements - generated once per user and month and never changed afterwards
+export const statements = pgTable("statements", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  periodStart: timestamp("period_start").notNull(), // First instant of the month, UTC
+  periodEnd: timestamp("period_end").notNull(), // First instant of the next month
+  content: text("content").notNull(), // JSON balances and lines, see statementService
+  checksum: text("checksum").notNull(), // SHA-256 of content
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("statements_user_period_unique").on(table.userId, table.periodStart),
+]);
+
+// Reconciliation runs - each pass of the balance drift check
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  status: text("status").default("running").notNull(), // running, completed, failed
+  walletsChecked: integer("wallets_checked").default(0).notNull(),
+  recordsChecked: integer("records_checked").default(0).notNull(), // Transactions and trade transactions
+  discrepancyCount: integer("discrepancy_count").default(0).notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Reconciliation discrepancies - a balance or record that doesn't match the ledger
+export const reconciliationDiscrepancies = pgTable("reconciliation_discrepancies", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => reconciliationRuns.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  kind: text("kind").notNull(), // wallet_balance, token_balance, unposted_record, record_mismatch
+  walletId: integer("wallet_id").references(() => wallets.id),
+  program: loyaltyProgramEnum("program"),
+  expected: points("expected"), // What the ledger (or the XPOINTS wallet, for token_balance) says
+  actual: points("actual"), // What is stored
+  recordType: text("record_type"), // transaction, trade_transaction
+  recordId: integer("record_id"),
+  details: text("details"), // Human-readable explanation
+  status: text("status").default("open").notNull(), // open, approved, dismissed, superseded
+  adjustmentEntryId: integer("adjustment_entry_id").references(() => journalEntries.id), // Set when an approved correction posted one
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Transfer bonuses - time-limited extra points on conversions between two programs
+export const transferBonuses = pgTable("transfer_bonuses", {
+  id: serial("id").primaryKey(),
+  fromProgram: loyaltyProgramEnum("from_program").notNull(),
+  toProgram: loyaltyProgramEnum("to_program").notNull(),
+  bonusPercent: numeric("bonus_percent").notNull(), // e.g. 20 = 20% more points on this hop
+  description: text("description"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Idempotency keys - stored responses of money-moving requests so client retries are replayed, not re-run
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  key: text("key").notNull(), // Client-supplied Idempotency-Key header
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  requestHash: text("request_hash").notNull(), // SHA-256 of method, path and body
+  status: text("status").default("in_progress").notNull(), // in_progress, completed
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // JSON-encoded response
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  unique("idempotency_keys_user_key_unique").on(table.userId, table.key),
+]);
+
+// Tier history - every membership tier change and why it happened
+export const tierHistory = pgTable("tier_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  fromTier: membershipTierEnum("from_tier").notNull(),
+  toTier: membershipTierEnum("to_tier").notNull(),
+  reason: text("reason").notNull(), // qualified, expired, admin
+  monthlyPoints: real("monthly_points").default(0).notNull(), // Monthly volume when the change happened
+  expiresAt: timestamp("expires_at"), // New tier's expiry, null for STANDARD
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Create schemas for the new tables
@@ -279,12 +876,54 @@ export const createTradeOfferSchema = z.object({
   amountOffered: z.number().positive(),
   amountRequested: z.number().positive(),
   expiresIn: z.number().int().min(1).max(30).default(7), // Days until expiration (default 7 days)
+  minFillAmount: z.number().positive().optional(), // Smallest part of amountOffered one buyer can take
   description: z.string().max(500).optional(),
+}).refine(data => isValidPointsAmount(data.amountOffered, data.fromProgram), {
+  message: "Amount has more decimal places than the program allows",
+  path: ["amountOffered"],
+}).refine(data => isValidPointsAmount(data.amountRequested, data.toProgram), {
+  message: "Amount has more decimal places than the program allows",
+  path: ["amountRequested"],
+}).refine(data => data.minFillAmount === undefined || (
+  data.minFillAmount <= data.amountOffered && isValidPointsAmount(data.minFillAmount, data.fromProgram)
+), {
+  message: "Minimum fill must be a valid amount no larger than the offer",
+  path: ["minFillAmount"],
+});
+
+// Schema for the order book and fills of one program pair
+export const tradePairQuerySchema = z.object({
+  fromProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+  toProgram: z.enum(["QANTAS", "GYG", "XPOINTS", "VELOCITY", "AMEX", "FLYBUYS", "HILTON", "MARRIOTT", "AIRBNB", "DELTA"]),
+}).refine(data => data.fromProgram !== data.toProgram, {
+  message: "Programs must be different",
+  path: ["toProgram"],
 });
 
 // Schema for accepting trade offers
 export const acceptTradeOfferSchema = z.object({
   tradeOfferId: z.number().positive(),
+  amount: z.number().positive().optional(), // Offered points to buy; the whole remainder if left out
+});
+
+// Schema for disputing a completed trade
+export const openTradeDisputeSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+  evidence: z.string().trim().max(2000).optional(),
+});
+
+export const reviewTradeDisputeSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+// Schema for refunding a disputed trade
+export const refundTradeDisputeSchema = reviewTradeDisputeSchema.extend({
+  amount: z.number().positive().optional(), // Sold points to unwind; the whole trade if left out
+});
+
+// Schema for pushing back an open trade offer's expiry
+export const extendTradeOfferSchema = z.object({
+  days: z.number().int().min(1).max(30), // Added to the current expiry
 });
 
 // Create schemas for tier benefits
@@ -296,6 +935,8 @@ export const insertTierBenefitsSchema = createInsertSchema(tierBenefits).pick({
   p2pMinimumFee: true,
   p2pMaximumFee: true,
   monthlyExpiryDays: true,
+  giftDailyLimit: true,
+  giftDailyCount: true,
 });
 
 // Create schema for business analytics
@@ -318,9 +959,122 @@ export const bulkPointIssuanceSchema = z.object({
   expirationDate: z.string().optional().transform(str => str ? new Date(str) : undefined),
 });
 
+// Create schema for conversion quotes
+export const insertConversionQuoteSchema = createInsertSchema(conversionQuotes).pick({
+  id: true,
+  userId: true,
+  fromProgram: true,
+  toProgram: true,
+  amountFrom: true,
+  amountTo: true,
+  rate: true,
+  feeApplied: true,
+  conversionPath: true,
+  fromValueInDollars: true,
+  toValueInDollars: true,
+  feeBreakdown: true,
+  route: true,
+  expiresAt: true,
+});
+
+// Create schema for conversion orders
+export const insertConversionOrderSchema = createInsertSchema(conversionOrders).pick({
+  userId: true,
+  fromProgram: true,
+  toProgram: true,
+  amount: true,
+  targetRate: true,
+  timeInForce: true,
+  expiresAt: true,
+});
+
+// Create schema for sweep schedules
+export const insertSweepScheduleSchema = createInsertSchema(sweepSchedules).pick({
+  userId: true,
+  fromProgram: true,
+  toProgram: true,
+  schedule: true,
+  keepBalance: true,
+  nextRunAt: true,
+});
+
+// Create schema for sweep runs
+export const insertSweepRunSchema = createInsertSchema(sweepRuns).pick({
+  scheduleId: true,
+  userId: true,
+  status: true,
+  attempt: true,
+  amount: true,
+  transactionId: true,
+  error: true,
+});
+
+export const insertStatementSchema = createInsertSchema(statements).pick({
+  userId: true,
+  periodStart: true,
+  periodEnd: true,
+  content: true,
+  checksum: true,
+});
+
+export const insertReconciliationDiscrepancySchema = createInsertSchema(reconciliationDiscrepancies).pick({
+  runId: true,
+  userId: true,
+  kind: true,
+  walletId: true,
+  program: true,
+  expected: true,
+  actual: true,
+  recordType: true,
+  recordId: true,
+  details: true,
+});
+
+// Create schema for transfer bonuses
+export const insertTransferBonusSchema = createInsertSchema(transferBonuses).pick({
+  fromProgram: true,
+  toProgram: true,
+  bonusPercent: true,
+  description: true,
+  startsAt: true,
+  endsAt: true,
+});
+
+// Create schema for idempotency keys
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).pick({
+  userId: true,
+  key: true,
+  method: true,
+  path: true,
+  requestHash: true,
+  expiresAt: true,
+});
+
+// Create schema for tier history
+export const insertTierHistorySchema = createInsertSchema(tierHistory).pick({
+  userId: true,
+  fromTier: true,
+  toTier: true,
+  reason: true,
+  monthlyPoints: true,
+  expiresAt: true,
+});
+
 export type LoyaltyProgram = "QANTAS" | "GYG" | "XPOINTS" | "VELOCITY" | "AMEX" | "FLYBUYS" | "HILTON" | "MARRIOTT" | "AIRBNB" | "DELTA";
 export type MembershipTier = "STANDARD" | "SILVER" | "GOLD" | "PLATINUM";
+export type LedgerAccount = "wallet" | "exchange" | "fees" | "escrow" | "issuance" | "expired";
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type InsertLedgerPosting = z.infer<typeof insertLedgerPostingSchema>;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type InsertConversionQuote = z.infer<typeof insertConversionQuoteSchema>;
+export type InsertTierHistory = z.infer<typeof insertTierHistorySchema>;
+export type InsertTransferBonus = z.infer<typeof insertTransferBonusSchema>;
+export type InsertConversionOrder = z.infer<typeof insertConversionOrderSchema>;
+export type InsertSweepSchedule = z.infer<typeof insertSweepScheduleSchema>;
+export type InsertSweepRun = z.infer<typeof insertSweepRunSchema>;
+export type InsertStatement = z.infer<typeof insertStatementSchema>;
+export type InsertReconciliationDiscrepancy = z.infer<typeof insertReconciliationDiscrepancySchema>;
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 export type InsertBusinessProgram = z.infer<typeof insertBusinessProgramSchema>;
 export type InsertBusinessPayment = z.infer<typeof insertBusinessPaymentSchema>;
@@ -330,6 +1084,10 @@ export type BusinessIssuePointsData = z.infer<typeof businessIssuePointsSchema>;
 export type BulkPointIssuanceData = z.infer<typeof bulkPointIssuanceSchema>;
 export type CreateTradeOfferData = z.infer<typeof createTradeOfferSchema>;
 export type AcceptTradeOfferData = z.infer<typeof acceptTradeOfferSchema>;
+export type ExtendTradeOfferData = z.infer<typeof extendTradeOfferSchema>;
+export type OpenTradeDisputeData = z.infer<typeof openTradeDisputeSchema>;
+export type RefundTradeDisputeData = z.infer<typeof refundTradeDisputeSchema>;
+export type TradePairQuery = z.infer<typeof tradePairQuerySchema>;
 export type User = typeof users.$inferSelect;
 export type Business = typeof businesses.$inferSelect;
 export type BusinessProgram = typeof businessPrograms.$inferSelect;
@@ -342,9 +1100,65 @@ export type BusinessAnalytics = typeof businessAnalytics.$inferSelect;
 export type TierBenefit = typeof tierBenefits.$inferSelect;
 export type TradeOffer = typeof tradeOffers.$inferSelect;
 export type TradeTransaction = typeof tradeTransactions.$inferSelect;
+export type TradeTransactionStatus = typeof tradeTransactionStatuses[number];
+export type TradeDispute = typeof tradeDisputes.$inferSelect;
+export type TradeDisputeStatus = typeof tradeDisputeStatuses[number];
 export type Wallet = typeof wallets.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type LedgerPosting = typeof ledgerPostings.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type ConversionQuote = typeof conversionQuotes.$inferSelect;
+export type TierHistory = typeof tierHistory.$inferSelect;
+export type TransferBonus = typeof transferBonuses.$inferSelect;
+export type ConversionOrder = typeof conversionOrders.$inferSelect;
+export type SweepSchedule = typeof sweepSchedules.$inferSelect;
+export type SweepRun = typeof sweepRuns.$inferSelect;
+export type SweepRunStatus = "succeeded" | "skipped" | "failed";
+export type Statement = typeof statements.$inferSelect;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type ReconciliationDiscrepancy = typeof reconciliationDiscrepancies.$inferSelect;
+export type DiscrepancyKind = "wallet_balance" | "token_balance" | "unposted_record" | "record_mismatch";
+export type TierChangeReason = "qualified" | "expired" | "admin";
+export type SessionUser = User & { isAdmin: boolean }; // What /api/user returns
+export type TransactionType = typeof transactionTypes[number];
+export type TransactionStatus = typeof transactionStatuses[number];
+export type TransactionStatusEvent = typeof transactionStatusEvents.$inferSelect;
+export type TransactionTransitionData = z.infer<typeof transactionTransitionSchema>;
+export type TransactionReversal = typeof transactionReversals.$inferSelect;
+export type ReversalStatus = "requested" | "approved" | "rejected";
+export type PointLot = typeof pointLots.$inferSelect;
+export type PointLotMovement = typeof pointLotMovements.$inferSelect;
+export type LotSource = typeof lotSources[number];
+export type Notification = typeof notifications.$inferSelect;
+export type BalanceSync = typeof balanceSyncs.$inferSelect;
+export type BalanceSyncStatus = typeof balanceSyncStatuses[number];
+export type SyncTrigger = "scheduled" | "manual";
+export type PointGift = typeof pointGifts.$inferSelect;
+export type GiftStatus = typeof giftStatuses[number];
+export type PointRequest = typeof pointRequests.$inferSelect;
+export type EscrowHold = typeof escrowHolds.$inferSelect;
+export type EscrowHoldStatus = typeof escrowHoldStatuses[number];
+export type EscrowMovement = typeof escrowMovements.$inferSelect;
+export type EscrowMovementType = "hold" | "transfer" | "release";
+export type PointRequestStatus = typeof pointRequestStatuses[number];
+export type SendGiftData = z.infer<typeof sendGiftSchema>;
+export type AnswerGiftData = z.infer<typeof answerGiftSchema>;
+export type CreatePointRequestData = z.infer<typeof createPointRequestSchema>;
+export type PartnerProgram = typeof partnerPrograms[number];
+export type AccountStatus = typeof accountStatuses[number];
+export type VerificationMethod = typeof verificationMethods[number];
+export type AccountVerification = typeof accountVerifications.$inferSelect;
+export type StartVerificationData = z.infer<typeof startVerificationSchema>;
+export type ConfirmVerificationData = z.infer<typeof confirmVerificationSchema>;
 // User preferences types removed
 export type ConvertPointsData = z.infer<typeof convertPointsSchema>;
+export type ConvertBatchData = z.infer<typeof convertBatchSchema>;
+export type ExecuteConversionData = z.infer<typeof executeConversionSchema>;
+export type CreateTransferBonusData = z.infer<typeof createTransferBonusSchema>;
+export type CreateConversionOrderData = z.infer<typeof createConversionOrderSchema>;
+export type CreateSweepScheduleData = z.infer<typeof createSweepScheduleSchema>;
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+export type TransactionSort = TransactionQuery["sort"];
 export type LinkAccountData = z.infer<typeof linkAccountSchema>;
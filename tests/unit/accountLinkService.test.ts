@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, notify, log } = vi.hoisted(() => {
+  const storage = {
+    getWallet: vi.fn(),
+    createWallet: vi.fn(),
+    updateWalletAccount: vi.fn(),
+    setWalletAccountStatus: vi.fn(),
+    createAccountVerification: vi.fn(),
+    getPendingAccountVerification: vi.fn(),
+    lockAccountVerification: vi.fn(),
+    updateAccountVerification: vi.fn(),
+    supersedePendingVerifications: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, notify: vi.fn(), log: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+
+import { AccountLinkService, accountLinkService, assertVerifiedDestination, hashChallenge } from '../../server/services/accountLinkService';
+import { linkAccountSchema, type AccountVerification, type Wallet } from '../../shared/schema';
+
+const wallet = (overrides: Partial<Wallet> = {}) => ({
+  id: 4, userId: 1, program: 'QANTAS', balance: 0, accountNumber: '1234567', accountName: 'Sam Lee',
+  accountStatus: 'unverified', accountVerifiedAt: null, ...overrides
+} as Wallet);
+
+const challenge = (overrides: Partial<AccountVerification> = {}) => ({
+  id: 8, walletId: 4, userId: 1, accountNumber: '1234567', method: 'code', secretHash: hashChallenge(4, '123456'),
+  attempts: 0, status: 'pending', expiresAt: new Date(Date.now() + 60000), completedAt: null, ...overrides
+} as AccountVerification);
+
+describe('accountLinkService', () => {
+  const channel = { supportsMicroTransfers: vi.fn(() => true), sendCode: vi.fn(), sendMicroTransfers: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    accountLinkService.setChannel(channel);
+    storage.getWallet.mockResolvedValue(wallet());
+    storage.createAccountVerification.mockImplementation(async (data: Partial<AccountVerification>) => challenge(data));
+    storage.setWalletAccountStatus.mockImplementation(async (id: number, accountStatus: Wallet['accountStatus']) => wallet({ accountStatus }));
+  });
+
+  it('checks member numbers against the program format', () => {
+    expect(linkAccountSchema.safeParse({ program: 'QANTAS', accountNumber: '123 4567', accountName: 'Sam Lee' }).success).toBe(true);
+    expect(linkAccountSchema.safeParse({ program: 'AMEX', accountNumber: '1234567', accountName: 'Sam Lee' }).success).toBe(false);
+  });
+
+  it('blocks sending points to an account that is not verified', () => {
+    expect(() => assertVerifiedDestination({ program: 'QANTAS', accountStatus: 'revoked' })).toThrow(
+      expect.objectContaining({ code: 'ACCOUNT_NOT_VERIFIED' })
+    );
+    expect(() => assertVerifiedDestination({ program: 'QANTAS', accountStatus: 'verified' })).not.toThrow();
+    expect(() => assertVerifiedDestination({ program: 'XPOINTS', accountStatus: 'unverified' })).not.toThrow();
+  });
+
+  it('sends the code through the channel and stores only its hash', async () => {
+    const status = await accountLinkService.startVerification(1, 'QANTAS', 'code');
+
+    const code = channel.sendCode.mock.calls[0][1];
+    expect(code).toMatch(/^\d{6}$/);
+    expect(storage.supersedePendingVerifications).toHaveBeenCalledWith(4);
+    expect(storage.createAccountVerification).toHaveBeenCalledWith(
+      expect.objectContaining({ walletId: 4, method: 'code', secretHash: hashChallenge(4, code) })
+    );
+    expect(status.pending).toMatchObject({ method: 'code', attempts: 0 });
+  });
+
+  it('sends the code as a notification when the program isn\'t connected, and never logs it', async () => {
+    notify.mockResolvedValue({ id: 1 });
+
+    // The default channel, with no partner connectors registered
+    await new AccountLinkService().startVerification(1, 'QANTAS', 'code');
+
+    const { secretHash } = storage.createAccountVerification.mock.calls[0][0];
+    const message: string = notify.mock.calls[0][3];
+    const code = message.match(/\d{6}/)![0];
+    expect(notify).toHaveBeenCalledWith(1, 'account_verification_code', 'QANTAS verification code', expect.any(String));
+    expect(hashChallenge(4, code)).toBe(secretHash);
+    expect(log.mock.calls.flat().join(' ')).not.toContain(code);
+  });
+
+  it('refuses micro-transfers into a program that isn\'t connected', async () => {
+    await expect(new AccountLinkService().startVerification(1, 'QANTAS', 'micro_transfer')).rejects.toMatchObject({
+      status: 400,
+      code: 'VERIFICATION_METHOD_UNAVAILABLE'
+    });
+    expect(storage.createAccountVerification).not.toHaveBeenCalled();
+  });
+
+  it('accepts micro-transfer amounts in either order', async () => {
+    storage.getPendingAccountVerification.mockResolvedValue(challenge());
+    storage.lockAccountVerification.mockResolvedValue(
+      challenge({ method: 'micro_transfer', secretHash: hashChallenge(4, '12,57') })
+    );
+
+    const verified = await accountLinkService.confirmVerification(1, 'QANTAS', { amounts: [57, 12] });
+
+    expect(verified.accountStatus).toBe('verified');
+    expect(storage.updateAccountVerification).toHaveBeenCalledWith(8, expect.objectContaining({ status: 'verified' }));
+  });
+
+  it('fails the challenge after too many wrong codes', async () => {
+    storage.getPendingAccountVerification.mockResolvedValue(challenge());
+    storage.lockAccountVerification.mockResolvedValue(challenge({ attempts: 4 }));
+
+    await expect(accountLinkService.confirmVerification(1, 'QANTAS', { code: '000000' })).rejects.toMatchObject({
+      code: 'VERIFICATION_FAILED'
+    });
+    expect(storage.updateAccountVerification).toHaveBeenCalledWith(8, expect.objectContaining({ attempts: 5, status: 'failed' }));
+    expect(storage.setWalletAccountStatus).not.toHaveBeenCalled();
+  });
+});
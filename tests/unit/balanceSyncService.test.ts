@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, notify, connector } = vi.hoisted(() => {
+  const storage = {
+    getUserWallets: vi.fn(),
+    lockWallet: vi.fn(),
+    updateWalletPartnerSync: vi.fn(),
+    createBalanceSync: vi.fn(),
+    lockBalanceSync: vi.fn(),
+    updateBalanceSync: vi.fn(),
+    postJournalEntry: vi.fn(),
+    createTransaction: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, notify: vi.fn(), connector: { program: 'QANTAS', getBalance: vi.fn() } };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+
+import { balanceSyncService, isLargeChange } from '../../server/services/balanceSyncService';
+import { partnerRegistry } from '../../server/partners/registry';
+import { PartnerError } from '../../server/errors';
+import type { PartnerConnector } from '../../server/partners/connector';
+import type { BalanceSync, Wallet } from '../../shared/schema';
+
+const wallet = (overrides: Partial<Wallet> = {}) => ({
+  id: 4, userId: 1, program: 'QANTAS', balance: 5000, accountNumber: '1234567', accountName: 'Sam Lee',
+  accountStatus: 'verified', partnerBalance: 5000, partnerSyncedAt: null, ...overrides
+} as Wallet);
+
+describe('balanceSyncService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    partnerRegistry.register(connector as unknown as PartnerConnector);
+    storage.lockWallet.mockResolvedValue(wallet());
+    storage.createBalanceSync.mockImplementation(async (data: Partial<BalanceSync>) => ({ id: 7, ...data }));
+    storage.updateBalanceSync.mockImplementation(async (id: number, updates: Partial<BalanceSync>) => ({ id, difference: 300, ...updates }));
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+  });
+
+  it('only flags changes that are large in points and as a share of the balance', () => {
+    expect(isLargeChange(1500, 5000)).toBe(true);
+    expect(isLargeChange(-1500, 5000)).toBe(true);
+    expect(isLargeChange(1500, 50000)).toBe(false);
+    expect(isLargeChange(500, 0)).toBe(false);
+  });
+
+  it('posts a small difference to the wallet and records the new partner balance', async () => {
+    connector.getBalance.mockResolvedValue(5300);
+
+    const sync = await balanceSyncService.syncWallet(wallet(), 'scheduled');
+
+    expect(storage.updateWalletPartnerSync).toHaveBeenCalledWith(4, expect.objectContaining({ partnerBalance: 5300 }));
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'partner_sync', reference: 'balance_sync:7' }),
+      [
+        { account: 'partner', walletId: null, program: 'QANTAS', amount: -300 },
+        { account: 'wallet', walletId: 4, program: 'QANTAS', amount: 300 }
+      ]
+    );
+    expect(storage.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ type: 'sync', amountFrom: 0, amountTo: 300 }));
+    expect(sync).toMatchObject({ status: 'applied', entryId: 31 });
+  });
+
+  it('flags a large change for review without touching the wallet', async () => {
+    connector.getBalance.mockResolvedValue(9000);
+
+    const sync = await balanceSyncService.syncWallet(wallet(), 'manual');
+
+    expect(sync).toMatchObject({ status: 'flagged', expectedBalance: 5000, reportedBalance: 9000, difference: 4000 });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(1, 'balance_sync_flagged', expect.any(String), expect.any(String));
+  });
+
+  it('records a failed sync when the partner cannot be reached', async () => {
+    connector.getBalance.mockRejectedValue(new PartnerError('QANTAS is unavailable', true, 503));
+
+    const sync = await balanceSyncService.syncWallet(wallet(), 'scheduled');
+
+    expect(sync).toMatchObject({ status: 'failed', error: 'QANTAS is unavailable' });
+    expect(storage.updateWalletPartnerSync).toHaveBeenCalledWith(4, { partnerSyncedAt: expect.any(Date) });
+  });
+
+  it('turns down a manual refresh inside the cooldown', async () => {
+    storage.getUserWallets.mockResolvedValue([wallet({ partnerSyncedAt: new Date() })]);
+
+    await expect(balanceSyncService.syncUserWallets(1)).rejects.toMatchObject({ status: 429, code: 'SYNC_TOO_SOON' });
+    expect(connector.getBalance).not.toHaveBeenCalled();
+  });
+
+  it('applies a flagged difference once an admin approves it', async () => {
+    storage.lockBalanceSync.mockResolvedValue({ id: 7, userId: 1, program: 'QANTAS', status: 'flagged', difference: -2000 });
+
+    const sync = await balanceSyncService.approveSync(7, 2);
+
+    expect(storage.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ amountFrom: 2000, amountTo: 0 }));
+    expect(storage.updateBalanceSync).toHaveBeenCalledWith(7, expect.objectContaining({ status: 'approved', reviewedBy: 2, entryId: 31 }));
+    expect(sync.status).toBe('approved');
+
+    storage.lockBalanceSync.mockResolvedValue({ id: 7, status: 'approved' });
+    await expect(balanceSyncService.dismissSync(7, 2)).rejects.toMatchObject({ code: 'BALANCE_SYNC_NOT_FLAGGED' });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, conversion, notify } = vi.hoisted(() => {
+  const storage = {
+    getOpenConversionOrders: vi.fn(),
+    lockConversionOrder: vi.fn(),
+    lockUser: vi.fn(),
+    getWallet: vi.fn(),
+    createConversionOrder: vi.fn(),
+    postJournalEntry: vi.fn(),
+    markConversionOrderExecuted: vi.fn(),
+    closeConversionOrder: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return {
+    storage,
+    conversion: { priceConversion: vi.fn(), carryOutConversion: vi.fn(), submitTransfer: vi.fn() },
+    notify: vi.fn()
+  };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/conversionService', () => ({ conversionService: conversion }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+
+import { conversionOrderService } from '../../server/services/conversionOrderService';
+import type { ConversionOrder } from '../../shared/schema';
+
+const order = (overrides: Partial<ConversionOrder> = {}) => ({
+  id: 5, userId: 1, fromProgram: 'XPOINTS', toProgram: 'QANTAS', amount: 1000, targetRate: '1.5',
+  timeInForce: 'gtc', expiresAt: null, status: 'open', ...overrides
+} as ConversionOrder);
+
+const wallets: Record<string, { id: number; program: string; accountStatus: string }> = {
+  XPOINTS: { id: 4, program: 'XPOINTS', accountStatus: 'unverified' },
+  QANTAS: { id: 6, program: 'QANTAS', accountStatus: 'verified' }
+};
+
+const transition = { transaction: { id: 9, status: 'pending' }, from: 'quoted', to: 'pending', reason: null };
+
+describe('conversionOrderService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getOpenConversionOrders.mockResolvedValue([order()]);
+    storage.lockConversionOrder.mockResolvedValue(order());
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) => wallets[program]);
+    storage.closeConversionOrder.mockImplementation(async (id: number, status: string, closeReason: string | null) => order({ id, status, closeReason }));
+    conversion.priceConversion.mockResolvedValue({ toProgram: 'QANTAS', amountFrom: 1000, amountTo: 1650 });
+    conversion.carryOutConversion.mockResolvedValue({ transaction: transition.transaction, transition });
+  });
+
+  it('holds an order into a connected partner and submits it once the execution commits', async () => {
+    const result = await conversionOrderService.evaluateOrders();
+
+    expect(result).toEqual({ executed: 1, expired: 0, cancelled: 0, waiting: 0, failed: 0 });
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ type: 'order_release' }), expect.any(Array));
+    // Priced under the user lock
+    expect(storage.lockUser).toHaveBeenCalledWith(1);
+    expect(storage.lockUser.mock.invocationCallOrder[0]).toBeLessThan(conversion.priceConversion.mock.invocationCallOrder[0]);
+    expect(conversion.carryOutConversion).toHaveBeenCalledWith(storage, 1, expect.objectContaining({ toProgram: 'QANTAS' }), 'conversion_order:5');
+    expect(storage.markConversionOrderExecuted).toHaveBeenCalledWith(5, 9, '1.650000');
+    expect(conversion.submitTransfer).toHaveBeenCalledWith(transition);
+  });
+
+  it('counts the order as executed when the partner submission fails after commit', async () => {
+    conversion.submitTransfer.mockRejectedValue(new Error('connection reset'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await conversionOrderService.evaluateOrders();
+
+    expect(result).toEqual({ executed: 1, expired: 0, cancelled: 0, waiting: 0, failed: 0 });
+  });
+
+  it('refuses orders into an account that is not verified', async () => {
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) =>
+      program === 'QANTAS' ? { ...wallets.QANTAS, accountStatus: 'unverified' } : wallets[program]);
+
+    await expect(conversionOrderService.createOrder(1, {
+      fromProgram: 'XPOINTS', toProgram: 'QANTAS', amount: 1000, targetRate: 1.5, timeInForce: 'gtc'
+    })).rejects.toMatchObject({ status: 403, code: 'ACCOUNT_NOT_VERIFIED' });
+    expect(storage.createConversionOrder).not.toHaveBeenCalled();
+  });
+
+  it('cancels an order whose account was revoked and hands its points back', async () => {
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) =>
+      program === 'QANTAS' ? { ...wallets.QANTAS, accountStatus: 'revoked' } : wallets[program]);
+
+    const result = await conversionOrderService.evaluateOrders();
+
+    expect(result).toEqual({ executed: 0, expired: 0, cancelled: 1, waiting: 0, failed: 0 });
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'order_release', reference: 'conversion_order:5' }),
+      expect.any(Array)
+    );
+    expect(storage.closeConversionOrder).toHaveBeenCalledWith(5, 'cancelled', expect.stringContaining('must be verified'));
+    expect(conversion.carryOutConversion).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(1, 'conversion_order_cancelled', 'Conversion order cancelled', expect.stringContaining('points returned'));
+  });
+});
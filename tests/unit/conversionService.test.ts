@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, lifecycle, submit, recordConversion } = vi.hoisted(() => {
+  // Transactions run one at a time, as they would queue up behind the user lock
+  let queue: Promise<unknown> = Promise.resolve();
+  const storage = {
+    getWallet: vi.fn(),
+    getUser: vi.fn(),
+    lockUser: vi.fn(),
+    getTierBenefits: vi.fn(),
+    getAllExchangeRates: vi.fn(),
+    getActiveTransferBonuses: vi.fn(),
+    lockConversionQuote: vi.fn(),
+    markConversionQuoteExecuted: vi.fn(),
+    postJournalEntry: vi.fn(),
+    createTransaction: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => {
+      const run = queue.then(() => fn(storage));
+      queue = run.catch(() => undefined);
+      return run;
+    }
+  };
+  return { storage, lifecycle: { openTransferIn: vi.fn(), announce: vi.fn() }, submit: vi.fn(), recordConversion: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/transactionLifecycleService', () => ({ transactionLifecycleService: lifecycle }));
+vi.mock('../../server/services/partnerTransferService', () => ({ partnerTransferService: { submit } }));
+vi.mock('../../server/services/tierService', () => ({ tierService: { recordConversion } }));
+
+import { conversionService, summarizeBatchFees, type ConversionPricing } from '../../server/services/conversionService';
+import { calculateConversionFee } from '../../server/services/feePolicyService';
+import { partnerRegistry } from '../../server/partners/registry';
+import type { PartnerConnector } from '../../server/partners/connector';
+import type { ConversionQuote, LoyaltyProgram, Transaction } from '../../shared/schema';
+
+const wallets: Record<string, { id: number; program: string; balance: number; accountStatus: string }> = {
+  XPOINTS: { id: 1, program: 'XPOINTS', balance: 5000, accountStatus: 'unverified' },
+  QANTAS: { id: 2, program: 'QANTAS', balance: 0, accountStatus: 'verified' },
+  GYG: { id: 3, program: 'GYG', balance: 0, accountStatus: 'verified' }
+};
+
+const pricing = (toProgram: LoyaltyProgram, amountFrom: number) => ({
+  fromProgram: 'XPOINTS', toProgram, amountFrom, amountAfterFee: amountFrom, amountTo: amountFrom * 2, rate: '2.000000',
+  feeApplied: 0, feeBreakdown: { program: 'XPOINTS', total: 0, lineItems: [], allowance: null }, conversionPath: `XPOINTS → ${toProgram}`,
+  hops: [{ fromProgram: 'XPOINTS', toProgram, amountIn: amountFrom, amountOut: amountFrom * 2 }], fromValueInDollars: 0, toValueInDollars: 0
+} as unknown as ConversionPricing);
+
+const transfer = (overrides: Partial<Transaction> = {}) => ({
+  id: 9, userId: 1, fromProgram: 'XPOINTS', toProgram: 'QANTAS', amountFrom: 1000, amountTo: 2000, status: 'pending', ...overrides
+} as Transaction);
+
+const benefits = { freeConversionLimit: 10000, conversionFeeRate: '0.005' };
+
+describe('conversionService', () => {
+  it('sums batch fees per program and carries the free allowance across legs', () => {
+    // Three legs priced in order, each starting where the previous one left the allowance
+    const legs = [
+      calculateConversionFee('STANDARD', benefits, 'QANTAS', 6000, 2000),
+      calculateConversionFee('STANDARD', benefits, 'GYG', 4000, 8000),
+      calculateConversionFee('STANDARD', benefits, 'QANTAS', 1000, 12000)
+    ];
+
+    const summary = summarizeBatchFees(legs);
+
+    expect(summary.byProgram).toEqual([
+      { program: 'QANTAS', total: 5 },
+      { program: 'GYG', total: 10 }
+    ]);
+    expect(summary.totalInDollars).toBe(0.11);
+    expect(summary.allowance).toEqual({ limit: 10000, usedThisMonth: 2000, applied: 8000, remaining: 0 });
+  });
+
+  describe('executeBatch', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      partnerRegistry.register({ program: 'QANTAS' } as PartnerConnector);
+      storage.getWallet.mockImplementation(async (_userId: number, program: string) => wallets[program]);
+      storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 }, wallets: [{ id: 1, balance: 4000 }, { id: 3, balance: 2000 }] });
+      storage.createTransaction.mockImplementation(async (data: object) => ({ id: 10, ...data }));
+      lifecycle.openTransferIn.mockResolvedValue({ transaction: transfer(), from: 'quoted', to: 'pending', reason: null });
+      submit.mockImplementation(async (transaction: Transaction) => ({ ...transaction, status: 'submitted' }));
+      vi.spyOn(conversionService, 'priceConversion').mockImplementation(async (_tx, _userId, _from, to, amount) => pricing(to, amount));
+    });
+
+    it('holds a leg into a connected partner and submits it once the batch commits', async () => {
+      const result = await conversionService.executeBatch(1, {
+        legs: [{ fromProgram: 'XPOINTS', toProgram: 'QANTAS', amount: 1000 }, { fromProgram: 'XPOINTS', toProgram: 'GYG', amount: 1000 }]
+      });
+
+      // The partner leg's points go into escrow instead of straight to the wallet
+      expect(lifecycle.openTransferIn).toHaveBeenCalledWith(storage, 1, expect.objectContaining({ toProgram: 'QANTAS', amountTo: 2000 }));
+      expect(storage.postJournalEntry).toHaveBeenCalledTimes(1);
+      expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ reference: `convert_batch:${result.batchId}` }), expect.any(Array));
+
+      expect(submit).toHaveBeenCalledWith(transfer());
+      expect(result.legs[0].transaction.status).toBe('submitted');
+      expect(result.legs[1].transaction.status).toBe('settled');
+    });
+  });
+
+  describe('executeBatch against the free allowance', () => {
+    let user: { id: number; membershipTier: string; monthlyPointsConverted: number; lastMonthReset: Date | null };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.restoreAllMocks();
+      user = { id: 1, membershipTier: 'STANDARD', monthlyPointsConverted: 9000, lastMonthReset: null };
+      storage.getWallet.mockImplementation(async (_userId: number, program: string) => wallets[program]);
+      storage.getUser.mockImplementation(async () => ({ ...user }));
+      storage.lockUser.mockImplementation(async () => ({ ...user }));
+      storage.getTierBenefits.mockResolvedValue(undefined);
+      storage.getAllExchangeRates.mockResolvedValue([{ fromProgram: 'XPOINTS', toProgram: 'GYG', rate: '2.000000' }]);
+      storage.getActiveTransferBonuses.mockResolvedValue([]);
+      storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 }, wallets: [{ id: 1, balance: 4000 }, { id: 3, balance: 2000 }] });
+      storage.createTransaction.mockImplementation(async (data: object) => ({ id: 10, ...data }));
+      // Counting the conversion is what uses up the allowance
+      recordConversion.mockImplementation(async (_tx: unknown, _userId: number, points: number) => {
+        user.monthlyPointsConverted += points;
+      });
+    });
+
+    it('charges the fee from the leg that runs past the allowance', async () => {
+      const result = await conversionService.executeBatch(1, {
+        legs: [
+          { fromProgram: 'XPOINTS', toProgram: 'GYG', amount: 600 },
+          { fromProgram: 'XPOINTS', toProgram: 'GYG', amount: 400 },
+          { fromProgram: 'XPOINTS', toProgram: 'GYG', amount: 200 }
+        ]
+      });
+
+      // 1,000 points of allowance left: the first two legs use it up exactly, the third pays 0.5%
+      expect(result.legs.map(leg => leg.feeBreakdown.total)).toEqual([0, 0, 1]);
+      expect(result.fees.allowance).toEqual({ limit: 10000, usedThisMonth: 9000, applied: 1000, remaining: 0 });
+    });
+
+    it('does not let two batches at once both spend the same allowance', async () => {
+      const batch = { legs: [{ fromProgram: 'XPOINTS' as const, toProgram: 'GYG' as const, amount: 1000 }] };
+
+      const [first, second] = await Promise.all([
+        conversionService.executeBatch(1, batch),
+        conversionService.executeBatch(1, batch)
+      ]);
+
+      // The second batch is priced after the first has counted towards the allowance
+      expect(storage.lockUser).toHaveBeenCalledTimes(2);
+      expect(first.legs[0].feeBreakdown.total).toBe(0);
+      expect(second.legs[0].feeBreakdown.total).toBe(5);
+      expect(second.fees.allowance).toMatchObject({ usedThisMonth: 10000, applied: 0, remaining: 0 });
+    });
+  });
+
+  describe('executeQuote', () => {
+    let user: { id: number; membershipTier: string; monthlyPointsConverted: number; lastMonthReset: Date | null };
+
+    // 1,000 XPOINTS to GYG quoted with 9,000 of the 10,000 free allowance used - no fee
+    const quote = (overrides: Partial<ConversionQuote> = {}) => ({
+      id: 'q-1', userId: 1, fromProgram: 'XPOINTS', toProgram: 'GYG', amountFrom: 1000, amountTo: 2000, rate: '2.000000',
+      feeApplied: 0, conversionPath: 'XPOINTS → GYG', route: null, status: 'open', expiresAt: new Date(Date.now() + 60000),
+      feeBreakdown: JSON.stringify(calculateConversionFee('STANDARD', benefits, 'XPOINTS', 1000, 9000)), ...overrides
+    } as ConversionQuote);
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.restoreAllMocks();
+      user = { id: 1, membershipTier: 'STANDARD', monthlyPointsConverted: 9000, lastMonthReset: null };
+      storage.getWallet.mockImplementation(async (_userId: number, program: string) => wallets[program]);
+      storage.getUser.mockImplementation(async () => ({ ...user }));
+      storage.lockUser.mockImplementation(async () => ({ ...user }));
+      storage.getTierBenefits.mockResolvedValue(undefined);
+      storage.lockConversionQuote.mockResolvedValue(quote());
+      storage.markConversionQuoteExecuted.mockImplementation(async (id: string, transactionId: number) => quote({ id, status: 'executed', transactionId }));
+      storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 }, wallets: [{ id: 1, balance: 4000 }, { id: 3, balance: 2000 }] });
+      storage.createTransaction.mockImplementation(async (data: object) => ({ id: 10, ...data }));
+    });
+
+    it('executes a free quote while the allowance it counted on is still there', async () => {
+      const result = await conversionService.executeQuote(1, 'q-1');
+
+      expect(storage.lockUser).toHaveBeenCalledWith(1);
+      expect(result.transaction).toMatchObject({ amountFrom: 1000, amountTo: 2000 });
+      expect(storage.markConversionQuoteExecuted).toHaveBeenCalledWith('q-1', 10);
+    });
+
+    it('refuses a free quote once another conversion has used the allowance', async () => {
+      user.monthlyPointsConverted = 9500;
+
+      await expect(conversionService.executeQuote(1, 'q-1')).rejects.toMatchObject({ status: 409, code: 'QUOTE_ALLOWANCE_USED' });
+      expect(storage.postJournalEntry).not.toHaveBeenCalled();
+      expect(storage.markConversionQuoteExecuted).not.toHaveBeenCalled();
+    });
+
+    it('executes a quote that already pays the full fee however much allowance is left', async () => {
+      user.monthlyPointsConverted = 12000;
+      storage.lockConversionQuote.mockResolvedValue(quote({
+        feeApplied: 5,
+        feeBreakdown: JSON.stringify(calculateConversionFee('STANDARD', benefits, 'XPOINTS', 1000, 10000))
+      }));
+
+      await conversionService.executeQuote(1, 'q-1');
+
+      expect(storage.markConversionQuoteExecuted).toHaveBeenCalledWith('q-1', 10);
+    });
+  });
+});
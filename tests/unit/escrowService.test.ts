@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage } = vi.hoisted(() => {
+  const storage = {
+    getUserWallets: vi.fn(),
+    getWalletHeldBalances: vi.fn(),
+    getUserConversionOrders: vi.fn(),
+    getHeldTransfers: vi.fn(),
+    getPendingGiftsFromSender: vi.fn(),
+    getUserEscrowHolds: vi.fn(),
+    getEscrowMovements: vi.fn(),
+    lockEscrowHoldForOffer: vi.fn(),
+    createEscrowMovement: vi.fn(),
+    updateEscrowHold: vi.fn()
+  };
+  return { storage };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+
+import { escrowService } from '../../server/services/escrowService';
+import type { IStorage } from '../../server/storage';
+
+const tx = storage as unknown as IStorage;
+
+describe('escrowService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.lockEscrowHoldForOffer.mockResolvedValue({ id: 7, tradeOfferId: 3, amountHeld: 500, status: 'held' });
+    storage.updateEscrowHold.mockImplementation(async (id: number, updates: object) => ({ id, ...updates }));
+    storage.getUserConversionOrders.mockResolvedValue([]);
+    storage.getHeldTransfers.mockResolvedValue([]);
+    storage.getPendingGiftsFromSender.mockResolvedValue([]);
+  });
+
+  it('reports each wallet\'s available, held and total points', async () => {
+    storage.getUserWallets.mockResolvedValue([{ id: 4, program: 'QANTAS', balance: 1200.5 }, { id: 5, program: 'VELOCITY', balance: 300 }]);
+    storage.getWalletHeldBalances.mockResolvedValue([{ walletId: 4, held: 800 }]);
+
+    const wallets = await escrowService.getWallets(1);
+
+    expect(wallets).toEqual([
+      expect.objectContaining({ id: 4, available: 1200.5, held: 800, total: 2000.5 }),
+      expect.objectContaining({ id: 5, available: 300, held: 0, total: 300 })
+    ]);
+  });
+
+  it('counts order reserves, transfers in flight and unclaimed gifts as held', async () => {
+    storage.getUserWallets.mockResolvedValue([{ id: 4, program: 'QANTAS', balance: 1000 }, { id: 6, program: 'XPOINTS', balance: 50.25 }]);
+    storage.getWalletHeldBalances.mockResolvedValue([{ walletId: 4, held: 100 }]);
+    storage.getUserConversionOrders.mockResolvedValue([
+      { fromProgram: 'XPOINTS', amount: 200.5, status: 'open' },
+      { fromProgram: 'XPOINTS', amount: 900, status: 'executed' }
+    ]);
+    storage.getHeldTransfers.mockResolvedValue([{ fromProgram: 'XPOINTS', amountFrom: 300 }]);
+    storage.getPendingGiftsFromSender.mockResolvedValue([{ program: 'QANTAS', amount: 50 }]);
+
+    const wallets = await escrowService.getWallets(1);
+
+    expect(wallets).toEqual([
+      expect.objectContaining({ id: 4, available: 1000, held: 150, total: 1150 }),
+      expect.objectContaining({ id: 6, available: 50.25, held: 500.5, total: 550.75 })
+    ]);
+  });
+
+  it('records transfers and settles the hold once it is empty', async () => {
+    await escrowService.transfer(tx, 3, 200, 31, 50);
+    expect(storage.createEscrowMovement).toHaveBeenCalledWith({ holdId: 7, type: 'transfer', amount: 200, entryId: 31, tradeTransactionId: 50 });
+    expect(storage.updateEscrowHold).toHaveBeenLastCalledWith(7, { amountHeld: 300 });
+
+    const hold = await escrowService.transfer(tx, 3, 500, 32, 51);
+    expect(hold).toMatchObject({ amountHeld: 0, status: 'settled' });
+
+    await expect(escrowService.transfer(tx, 3, 600, 33, 52)).rejects.toThrow('cannot move 600');
+  });
+
+  it('closes a hold that fills emptied without recording a release', async () => {
+    const hold = await escrowService.release(tx, 3, 0, null);
+
+    expect(storage.createEscrowMovement).not.toHaveBeenCalled();
+    expect(hold).toMatchObject({ amountHeld: 0, status: 'settled' });
+
+    storage.lockEscrowHoldForOffer.mockResolvedValue({ id: 7, tradeOfferId: 3, amountHeld: 0, status: 'released' });
+    await expect(escrowService.release(tx, 3, 0, null)).rejects.toThrow('no open escrow hold');
+  });
+
+  it('lists holds with their own movements', async () => {
+    storage.getUserEscrowHolds.mockResolvedValue([{ id: 8 }, { id: 7 }]);
+    storage.getEscrowMovements.mockResolvedValue([
+      { id: 1, holdId: 7, type: 'hold' },
+      { id: 2, holdId: 8, type: 'hold' },
+      { id: 3, holdId: 7, type: 'release' }
+    ]);
+
+    const holds = await escrowService.getHolds(1);
+
+    expect(storage.getEscrowMovements).toHaveBeenCalledWith([8, 7]);
+    expect(holds[1].movements.map(movement => movement.id)).toEqual([1, 3]);
+  });
+});
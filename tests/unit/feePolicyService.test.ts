@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  calculateConversionFee,
+  calculateTradeFee,
+  feePolicyService,
+  monthlyUsage
+} from '../../server/services/feePolicyService';
+import type { IStorage } from '../../server/storage';
+
+const gold = {
+  freeConversionLimit: 50000,
+  conversionFeeRate: '0.0035',
+  p2pMinimumFee: '0.003',
+  p2pMaximumFee: '0.02'
+};
+
+describe('feePolicyService', () => {
+  it('charges nothing while the monthly allowance covers the conversion', () => {
+    const breakdown = calculateConversionFee('GOLD', gold, 'QANTAS', 20000, 10000);
+
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.items).toHaveLength(1);
+    expect(breakdown.items[0].type).toBe('free_allowance');
+    expect(breakdown.allowance).toEqual({ limit: 50000, usedThisMonth: 10000, applied: 20000, remaining: 20000 });
+  });
+
+  it('charges the tier rate on the part above the remaining allowance', () => {
+    const breakdown = calculateConversionFee('GOLD', gold, 'QANTAS', 20000, 40000);
+
+    expect(breakdown.allowance?.applied).toBe(10000);
+    expect(breakdown.items.map(item => item.type)).toEqual(['free_allowance', 'conversion_fee']);
+    expect(breakdown.items[1].basis).toBe(10000);
+    expect(breakdown.total).toBeCloseTo(35);
+  });
+
+  it('clamps the P2P seller fee to the tier minimum and maximum', () => {
+    expect(calculateTradeFee('GOLD', gold, 'XPOINTS', 1000, 1).sellerFee).toBeCloseTo(3);
+    expect(calculateTradeFee('GOLD', gold, 'XPOINTS', 1000, 10).sellerFee).toBeCloseTo(10);
+    expect(calculateTradeFee('GOLD', gold, 'XPOINTS', 1000, 50).sellerFee).toBeCloseTo(20);
+    expect(calculateTradeFee('GOLD', gold, 'XPOINTS', 1000, 50).buyerFee).toBe(0);
+  });
+
+  it('reads the user and their tier through the storage it is given', async () => {
+    // A transaction's own storage, e.g. with the user locked
+    const tx = {
+      getUser: vi.fn().mockResolvedValue({ membershipTier: 'GOLD', monthlyPointsConverted: 40000, lastMonthReset: null }),
+      getTierBenefits: vi.fn().mockResolvedValue({ tier: 'GOLD', ...gold })
+    };
+
+    const breakdown = await feePolicyService.conversionFee(tx as unknown as IStorage, 1, 'QANTAS', 20000);
+
+    expect(tx.getUser).toHaveBeenCalledWith(1);
+    expect(tx.getTierBenefits).toHaveBeenCalledWith('GOLD');
+    expect(breakdown.allowance?.applied).toBe(10000);
+  });
+
+  it('ignores monthly usage from an earlier month', () => {
+    const now = new Date(2025, 5, 15);
+
+    expect(monthlyUsage({ monthlyPointsConverted: 5000, lastMonthReset: new Date(2025, 5, 2) }, now)).toBe(5000);
+    expect(monthlyUsage({ monthlyPointsConverted: 5000, lastMonthReset: new Date(2025, 4, 30) }, now)).toBe(0);
+  });
+});
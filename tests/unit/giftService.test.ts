@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+
+const { storage, notify } = vi.hoisted(() => {
+  const storage = {
+    getUser: vi.fn(),
+    getUserByUsername: vi.fn(),
+    lockUser: vi.fn(),
+    getWallet: vi.fn(),
+    getGiftsSentSince: vi.fn(),
+    getPendingGiftsFromSender: vi.fn(),
+    createPointGift: vi.fn(),
+    lockPointGift: vi.fn(),
+    updatePointGift: vi.fn(),
+    getPointRequestByToken: vi.fn(),
+    lockPointRequest: vi.fn(),
+    updatePointRequest: vi.fn(),
+    postJournalEntry: vi.fn(),
+    createTransaction: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, notify: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+vi.mock('../../server/services/feePolicyService', () => ({
+  feePolicyService: { getBenefits: vi.fn().mockResolvedValue({ giftDailyLimit: 5000, giftDailyCount: 10 }) }
+}));
+vi.mock('../../server/services/ledgerService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/services/ledgerService')>()),
+  getOrCreateWallet: vi.fn(async (_tx: unknown, userId: number) => ({ id: userId === 1 ? 4 : 8 }))
+}));
+
+import { giftService, checkGiftLimits } from '../../server/services/giftService';
+import type { PointGift, User } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const member = (id: number, overrides: Partial<User> = {}) => ({
+  id, username: id === 1 ? 'sam' : 'alex', email: id === 1 ? 'sam@example.com' : 'alex@example.com',
+  membershipTier: 'STANDARD', createdAt: new Date(Date.now() - 30 * DAY_MS), ...overrides
+} as User);
+
+describe('giftService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.lockUser.mockImplementation(async (id: number) => member(id));
+    storage.getUser.mockImplementation(async (id: number) => member(id));
+    storage.getWallet.mockResolvedValue({ id: 4 });
+    storage.getGiftsSentSince.mockResolvedValue([]);
+    storage.getPendingGiftsFromSender.mockResolvedValue([]);
+    let created: Partial<PointGift> = { senderId: 1, program: 'QANTAS', amount: 500 };
+    storage.createPointGift.mockImplementation(async (data: Partial<PointGift>) => (created = { id: 12, ...data }));
+    storage.updatePointGift.mockImplementation(async (id: number, updates: Partial<PointGift>) => ({ ...created, id, ...updates }));
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+    storage.createTransaction.mockResolvedValue({ id: 40 });
+  });
+
+  it('counts only gifts that are still out against the daily limits', () => {
+    const recent = [{ amount: 3000, status: 'delivered' }, { amount: 4000, status: 'declined' }] as PointGift[];
+
+    expect(() => checkGiftLimits(recent, 2000, { giftDailyLimit: 5000, giftDailyCount: 10 })).not.toThrow();
+    expect(() => checkGiftLimits(recent, 2500, { giftDailyLimit: 5000, giftDailyCount: 10 }))
+      .toThrow(expect.objectContaining({ code: 'GIFT_AMOUNT_LIMIT' }));
+    expect(() => checkGiftLimits(recent, 10, { giftDailyLimit: 5000, giftDailyCount: 1 }))
+      .toThrow(expect.objectContaining({ code: 'GIFT_COUNT_LIMIT' }));
+  });
+
+  it('delivers a gift to a username straight into their wallet', async () => {
+    storage.getUserByUsername.mockResolvedValue(member(2));
+
+    const gift = await giftService.sendGift(1, { recipient: 'alex', program: 'QANTAS', amount: 500, message: 'Thanks!' });
+
+    expect(storage.createPointGift).toHaveBeenCalledWith(expect.objectContaining({ senderId: 1, recipientId: 2, status: 'delivered' }));
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'gift', reference: 'point_gift:12' }),
+      [
+        { account: 'wallet', walletId: 4, program: 'QANTAS', amount: -500 },
+        { account: 'wallet', walletId: 8, program: 'QANTAS', amount: 500 }
+      ]
+    );
+    expect(storage.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'p2p', userId: 1, recipientId: 2, amountFrom: 500, amountTo: 500, journalEntryId: 31
+    }));
+    expect(gift.transactionId).toBe(40);
+    expect(notify).toHaveBeenCalledWith(2, 'gift_received', expect.any(String), expect.stringContaining('Thanks!'));
+  });
+
+  it('holds a gift to an email until it is claimed with the code only the sender sees', async () => {
+    const gift = await giftService.sendGift(1, { recipient: 'Alex@Example.com', program: 'QANTAS', amount: 500 });
+
+    expect(gift.claimCode).toEqual(expect.any(String));
+    expect(gift).not.toHaveProperty('claimCodeHash');
+    expect(storage.createPointGift).toHaveBeenCalledWith(expect.objectContaining({
+      recipientId: null,
+      recipientEmail: 'alex@example.com',
+      claimCodeHash: createHash('sha256').update(gift.claimCode!).digest('hex'),
+      status: 'pending',
+      expiresAt: expect.any(Date)
+    }));
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ type: 'gift_hold' }), expect.any(Array));
+    expect(storage.updatePointGift).toHaveBeenCalledWith(12, { holdEntryId: 31 });
+    expect(storage.createTransaction).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('turns down gifts from new accounts, to yourself and to unknown usernames', async () => {
+    await expect(giftService.sendGift(1, { recipient: 'Sam@example.com', program: 'QANTAS', amount: 500 }))
+      .rejects.toMatchObject({ code: 'OWN_GIFT' });
+
+    storage.lockUser.mockResolvedValue(member(1, { createdAt: new Date() }));
+    storage.getUserByUsername.mockResolvedValue(member(2));
+    await expect(giftService.sendGift(1, { recipient: 'alex', program: 'QANTAS', amount: 500 }))
+      .rejects.toMatchObject({ status: 403, code: 'ACCOUNT_TOO_NEW' });
+
+    storage.getUserByUsername.mockResolvedValue(member(1));
+    await expect(giftService.sendGift(1, { recipient: 'sam', program: 'QANTAS', amount: 500 }))
+      .rejects.toMatchObject({ code: 'OWN_GIFT' });
+
+    storage.getUserByUsername.mockResolvedValue(undefined);
+    await expect(giftService.sendGift(1, { recipient: 'nobody', program: 'QANTAS', amount: 500 }))
+      .rejects.toMatchObject({ status: 404, code: 'RECIPIENT_NOT_FOUND' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it('lets the owner of the email accept a held gift with its claim code, and only them', async () => {
+    const pending = {
+      id: 12, senderId: 1, recipientEmail: 'alex@example.com', claimCodeHash: createHash('sha256').update('open-sesame').digest('hex'),
+      program: 'QANTAS', amount: 500, status: 'pending', holdEntryId: 30, expiresAt: new Date(Date.now() + DAY_MS)
+    };
+    storage.lockPointGift.mockResolvedValue(pending);
+
+    await expect(giftService.acceptGift(2, 12, 'guess')).rejects.toMatchObject({ status: 403, code: 'GIFT_CLAIM_CODE_INVALID' });
+    await expect(giftService.declineGift(2, 12, 'guess')).rejects.toMatchObject({ code: 'GIFT_CLAIM_CODE_INVALID' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+
+    await giftService.acceptGift(2, 12, 'open-sesame');
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'gift' }),
+      [
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -500 },
+        { account: 'wallet', walletId: 8, program: 'QANTAS', amount: 500 }
+      ]
+    );
+    expect(storage.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ recipientId: 2, holdEntryId: 30, journalEntryId: 31 }));
+    expect(storage.updatePointGift).toHaveBeenCalledWith(12, expect.objectContaining({
+      status: 'delivered', recipientId: 2, claimCodeHash: null, transactionId: 40
+    }));
+
+    storage.getUser.mockResolvedValue(member(3, { email: 'someone@example.com' }));
+    await expect(giftService.acceptGift(3, 12, 'open-sesame')).rejects.toMatchObject({ status: 404, code: 'GIFT_NOT_FOUND' });
+  });
+
+  it('pays a request link by gifting the points to whoever shared it', async () => {
+    const request = { id: 5, requesterId: 2, program: 'QANTAS', amount: 500, message: null, status: 'open', expiresAt: new Date(Date.now() + DAY_MS) };
+    storage.getPointRequestByToken.mockResolvedValue(request);
+    storage.lockPointRequest.mockResolvedValue(request);
+
+    await giftService.payRequest(1, 'abc');
+
+    expect(storage.createPointGift).toHaveBeenCalledWith(expect.objectContaining({ senderId: 1, recipientId: 2, requestId: 5 }));
+    expect(storage.updatePointRequest).toHaveBeenCalledWith(5, expect.objectContaining({ status: 'paid', paidBy: 1 }));
+
+    storage.lockPointRequest.mockResolvedValue({ ...request, status: 'paid' });
+    await expect(giftService.payRequest(1, 'abc')).rejects.toMatchObject({ code: 'POINT_REQUEST_NOT_OPEN' });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+const { storage, records } = vi.hoisted(() => {
+  const records = new Map<number, Record<string, unknown>>();
+  const storage = {
+    getIdempotencyKey: vi.fn(async (userId: number, key: string) =>
+      [...records.values()].find(record => record.userId === userId && record.key === key)),
+    createIdempotencyKey: vi.fn(async (data: Record<string, unknown>) => {
+      const record = { id: records.size + 1, status: 'in_progress', responseStatus: null, responseBody: null, ...data };
+      records.set(record.id, record);
+      return record;
+    }),
+    completeIdempotencyKey: vi.fn(async (id: number, responseStatus: number, responseBody: string | null) => {
+      Object.assign(records.get(id)!, { status: 'completed', responseStatus, responseBody });
+    }),
+    deleteIdempotencyKey: vi.fn(async (id: number) => {
+      records.delete(id);
+    })
+  };
+  return { storage, records };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+
+import type { Request, Response } from 'express';
+import { idempotent } from '../../server/idempotency';
+
+const request = () => ({
+  method: 'POST',
+  originalUrl: '/api/convert',
+  body: { quoteId: 12 },
+  user: { id: 1 },
+  get: (name: string) => (name === 'Idempotency-Key' ? 'key-1' : undefined),
+  isAuthenticated: () => true
+}) as unknown as Request;
+
+// Just enough of a response for the middleware: json and sendStatus both end it
+const response = () => {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    body: undefined as unknown,
+    headersSent: false,
+    status: (code: number) => { res.statusCode = code; return res; },
+    setHeader: vi.fn(),
+    json: (body: unknown) => { res.body = body; return res.end(); },
+    sendStatus: (code: number) => { res.statusCode = code; return res.end(); },
+    end: () => { res.headersSent = true; return res; }
+  });
+  return res;
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('idempotent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    records.clear();
+  });
+
+  it('keeps the key in progress when the client disconnects before the handler finishes', async () => {
+    let finish!: () => void;
+    const handler = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    const first = response();
+    await idempotent(request(), first as unknown as Response, () => {
+      handler().then(() => first.status(201).json({ id: 5 }));
+    });
+
+    // The client gives up while the conversion is still running
+    first.emit('close');
+    await flush();
+    expect(storage.deleteIdempotencyKey).not.toHaveBeenCalled();
+
+    const retry = response();
+    await idempotent(request(), retry as unknown as Response, handler);
+    expect(retry.statusCode).toBe(409);
+    expect(retry.body).toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_PROGRESS' });
+
+    finish();
+    await flush();
+    expect(storage.completeIdempotencyKey).toHaveBeenCalledWith(1, 201, JSON.stringify({ id: 5 }));
+
+    const replayed = response();
+    await idempotent(request(), replayed as unknown as Response, handler);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replayed.statusCode).toBe(201);
+    expect(replayed.body).toEqual({ id: 5 });
+    expect(replayed.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('releases the key once the handler fails with a server error', async () => {
+    const res = response();
+    await idempotent(request(), res as unknown as Response, () => res.status(500).json({ message: 'Failed' }));
+    await flush();
+
+    expect(storage.deleteIdempotencyKey).toHaveBeenCalledWith(1);
+    expect(storage.completeIdempotencyKey).not.toHaveBeenCalled();
+  });
+
+  it('stores responses without a body', async () => {
+    const res = response();
+    await idempotent(request(), res as unknown as Response, () => res.sendStatus(204));
+    await flush();
+
+    expect(storage.completeIdempotencyKey).toHaveBeenCalledWith(1, 204, null);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import type { InsertLedgerPosting } from '@shared/schema';
+import {
+  conversionPostings,
+  escrowHoldPostings,
+  escrowReleasePostings,
+  heldTransferSettlementPostings,
+  reversalPostings,
+  tradeSettlementPostings,
+  tradeRefundPostings,
+  issuancePostings
+} from '../../server/services/ledgerService';
+
+/**
+ * Nets postings per program - a balanced entry is zero for every program
+ */
+function netByProgram(postings: InsertLedgerPosting[]) {
+  const totals: Record<string, number> = {};
+  postings.forEach(p => {
+    totals[p.program] = (totals[p.program] || 0) + p.amount;
+  });
+  return totals;
+}
+
+function walletDelta(postings: InsertLedgerPosting[], walletId: number) {
+  return postings
+    .filter(p => p.account === 'wallet' && p.walletId === walletId)
+    .reduce((total, p) => total + p.amount, 0);
+}
+
+describe('Ledger posting builders', () => {
+  describe('conversionPostings', () => {
+    it('should debit the source wallet and credit the destination wallet', () => {
+      const postings = conversionPostings({
+        sourceWalletId: 1,
+        destWalletId: 2,
+        fromProgram: 'QANTAS',
+        toProgram: 'XPOINTS',
+        amountFrom: 1000,
+        amountTo: 500,
+        fee: 0
+      });
+
+      expect(walletDelta(postings, 1)).toBe(-1000);
+      expect(walletDelta(postings, 2)).toBe(500);
+      expect(postings.some(p => p.account === 'fees')).toBe(false);
+      Object.values(netByProgram(postings)).forEach(net => expect(net).toBeCloseTo(0));
+    });
+
+    it('should route the fee to the fees account and stay balanced', () => {
+      const postings = conversionPostings({
+        sourceWalletId: 1,
+        destWalletId: 2,
+        fromProgram: 'QANTAS',
+        toProgram: 'XPOINTS',
+        amountFrom: 20000,
+        amountTo: 9950,
+        fee: 100
+      });
+
+      const fees = postings.filter(p => p.account === 'fees');
+      expect(fees).toHaveLength(1);
+      expect(fees[0]).toMatchObject({ program: 'QANTAS', amount: 100 });
+      Object.values(netByProgram(postings)).forEach(net => expect(net).toBeCloseTo(0));
+    });
+
+    it('should undo a conversion including its fee when reversed', () => {
+      const params = {
+        sourceWalletId: 1,
+        destWalletId: 2,
+        fromProgram: 'QANTAS' as const,
+        toProgram: 'XPOINTS' as const,
+        amountFrom: 20000,
+        amountTo: 9950,
+        fee: 100
+      };
+      const postings = [...conversionPostings(params), ...reversalPostings(params)];
+
+      expect(walletDelta(postings, 1)).toBeCloseTo(0);
+      expect(walletDelta(postings, 2)).toBeCloseTo(0);
+      const feeTotal = postings.filter(p => p.account === 'fees').reduce((total, p) => total + p.amount, 0);
+      expect(feeTotal).toBeCloseTo(0);
+    });
+  });
+
+  describe('escrow postings', () => {
+    it('should move points into escrow and back out again', () => {
+      const hold = escrowHoldPostings(3, 'VELOCITY', 750);
+      const release = escrowReleasePostings(3, 'VELOCITY', 750);
+
+      expect(walletDelta(hold, 3)).toBe(-750);
+      expect(walletDelta(release, 3)).toBe(750);
+      expect(netByProgram([...hold, ...release])).toEqual({ VELOCITY: 0 });
+    });
+
+    it('should settle a held transfer out of escrow', () => {
+      const hold = escrowHoldPostings(1, 'QANTAS', 10000);
+      const settlement = heldTransferSettlementPostings({
+        destWalletId: 2, fromProgram: 'QANTAS', toProgram: 'XPOINTS', amountFrom: 10000, amountTo: 4975, fee: 50
+      });
+
+      expect(walletDelta(settlement, 1)).toBe(0);
+      expect(walletDelta(settlement, 2)).toBe(4975);
+      expect(netByProgram([...hold, ...settlement]).QANTAS).toBe(0);
+      expect(netByProgram(settlement).XPOINTS).toBe(0);
+    });
+  });
+
+  describe('tradeSettlementPostings', () => {
+    it('should pay both sides and charge the seller fee in the requested program', () => {
+      const postings = tradeSettlementPostings({
+        fromProgram: 'QANTAS',
+        toProgram: 'VELOCITY',
+        amountOffered: 1000,
+        amountRequested: 800,
+        buyerPaymentWalletId: 10,
+        buyerReceivingWalletId: 11,
+        sellerReceivingWalletId: 20,
+        sellerFee: 8,
+        buyerFee: 0
+      });
+
+      expect(walletDelta(postings, 10)).toBe(-800);
+      expect(walletDelta(postings, 11)).toBe(1000);
+      expect(walletDelta(postings, 20)).toBe(792);
+      expect(postings.find(p => p.account === 'fees')).toMatchObject({ program: 'VELOCITY', amount: 8 });
+      Object.values(netByProgram(postings)).forEach(net => expect(net).toBeCloseTo(0));
+    });
+
+    it('should undo a settlement, fees included, when the trade is refunded', () => {
+      const params = {
+        fromProgram: 'QANTAS' as const,
+        toProgram: 'VELOCITY' as const,
+        amountOffered: 1000,
+        amountRequested: 800,
+        buyerPaymentWalletId: 10,
+        buyerReceivingWalletId: 11,
+        sellerReceivingWalletId: 20,
+        sellerFee: 8,
+        buyerFee: 2
+      };
+      const settled = tradeSettlementPostings(params);
+      const refunded = tradeRefundPostings({ ...params, amountSold: 1000, amountBought: 800, sellerWalletId: 21 });
+
+      [10, 11, 20].forEach(walletId => expect(walletDelta(settled, walletId) + walletDelta(refunded, walletId)).toBe(0));
+      expect(walletDelta(refunded, 21)).toBe(1000);
+      expect(refunded.find(p => p.account === 'fees')).toMatchObject({ program: 'VELOCITY', amount: -10 });
+      Object.values(netByProgram(refunded)).forEach(net => expect(net).toBeCloseTo(0));
+    });
+  });
+
+  describe('issuancePostings', () => {
+    it('should credit the wallet against the issuance account', () => {
+      const postings = issuancePostings(5, 'XPOINTS', 1000);
+
+      expect(walletDelta(postings, 5)).toBe(1000);
+      expect(postings.find(p => p.account === 'issuance')?.amount).toBe(-1000);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { planLotMovements, type LotPolicy } from '../../server/lots';
+import type { InsertLedgerPosting, PointLot } from '../../shared/schema';
+
+const now = new Date('2026-10-18T00:00:00Z');
+
+const lot = (id: number, remaining: number, expiresAt: string | null): PointLot => ({
+  id, walletId: 1, userId: 1, program: 'QANTAS', source: 'conversion', entryId: null, amount: remaining, remaining,
+  expiresAt: expiresAt ? new Date(expiresAt) : null, notifiedAt: null, createdAt: now
+});
+
+const debit = (amount: number): InsertLedgerPosting[] => [
+  { account: 'wallet', walletId: 1, program: 'QANTAS', amount: -amount },
+  { account: 'escrow', walletId: null, program: 'QANTAS', amount }
+];
+
+const policy = (order: LotPolicy['order']): LotPolicy => ({ order, expiryDays: { QANTAS: 365 } });
+
+describe('points lots', () => {
+  it('draws on the oldest lots or the soonest to expire first', () => {
+    const lots = [lot(1, 500, null), lot(2, 300, '2027-01-01'), lot(3, 400, '2026-11-01')];
+    const entry = { type: 'trade_escrow', reference: 'trade_offer:1' };
+
+    expect(planLotMovements(entry, debit(600), lots, [], policy('fifo'), {}, now).movements)
+      .toEqual([{ lotId: 1, amount: 500 }, { lotId: 2, amount: 100 }]);
+    expect(planLotMovements(entry, debit(600), lots, [], policy('soonest_expiry'), {}, now).movements)
+      .toEqual([{ lotId: 3, amount: 400 }, { lotId: 2, amount: 200 }]);
+    expect(planLotMovements(entry, debit(100), lots, [], policy('soonest_expiry'), { drawFirst: [1] }, now).movements)
+      .toEqual([{ lotId: 1, amount: 100 }]);
+  });
+
+  it('opens a lot for credited points with the program expiry', () => {
+    const credit: InsertLedgerPosting[] = [
+      { account: 'issuance', walletId: null, program: 'QANTAS', amount: -250 },
+      { account: 'wallet', walletId: 1, program: 'QANTAS', amount: 250 }
+    ];
+
+    const plan = planLotMovements({ type: 'signup_bonus' }, credit, [], [], policy('fifo'), {}, now);
+    expect(plan.created).toEqual([
+      { walletId: 1, program: 'QANTAS', source: 'issuance', amount: 250, expiresAt: new Date('2027-10-18T00:00:00Z') }
+    ]);
+
+    const explicit = planLotMovements({ type: 'signup_bonus' }, credit, [], [], policy('fifo'), { expiresAt: null }, now);
+    expect(explicit.created[0].expiresAt).toBeNull();
+  });
+
+  it('puts released escrow back into the lots it was drawn from', () => {
+    const release = debit(700).map(p => ({ ...p, amount: -p.amount }));
+    const drawn = [{ lotId: 3, walletId: 1, amount: 400 }, { lotId: 2, walletId: 1, amount: 200 }];
+
+    const plan = planLotMovements({ type: 'trade_release', reference: 'trade_offer:1' }, release, [], drawn, policy('fifo'), {}, now);
+    expect(plan.movements).toEqual([{ lotId: 3, amount: -400 }, { lotId: 2, amount: -200 }]);
+    // Held before lots were tracked
+    expect(plan.created).toEqual([{ walletId: 1, program: 'QANTAS', source: 'opening', amount: 100, expiresAt: null }]);
+  });
+});
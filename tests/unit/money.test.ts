@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addPoints,
+  formatPoints,
+  isValidPointsAmount,
+  multiplyPoints,
+  roundPoints,
+  subtractPoints,
+  toDecimalString
+} from '../../shared/money';
+
+describe('money', () => {
+  it('adds and subtracts without float drift', () => {
+    expect(addPoints(0.1, 0.2)).toBe(0.3);
+    expect(addPoints(...Array(10).fill(0.1))).toBe(1);
+    expect(subtractPoints(1000.3, 0.1)).toBe(1000.2);
+  });
+
+  it('rounds to each program\'s precision with the given mode', () => {
+    expect(roundPoints(12.345, 'XPOINTS')).toBe(12.35);
+    expect(roundPoints(1.005, 'XPOINTS')).toBe(1.01);
+    expect(roundPoints(12.5, 'QANTAS')).toBe(13);
+    expect(roundPoints(12.9, 'QANTAS', 'down')).toBe(12);
+    expect(roundPoints(12.1, 'QANTAS', 'up')).toBe(13);
+    expect(roundPoints(-12.5, 'QANTAS')).toBe(-13);
+  });
+
+  it('multiplies by rate strings exactly', () => {
+    expect(multiplyPoints(9990, '0.6', 'XPOINTS')).toBe(5994);
+    expect(multiplyPoints(3, '0.1', 'XPOINTS')).toBe(0.3);
+    expect(multiplyPoints(1001, '0.005', 'QANTAS', 'up')).toBe(6);
+    expect(multiplyPoints(1001, '0.005', 'QANTAS', 'down')).toBe(5);
+    expect(multiplyPoints(1000, 0.1 * 0.1, 'XPOINTS', 'up')).toBe(10);
+    expect(multiplyPoints(100, '1e-2', 'XPOINTS')).toBe(1);
+  });
+
+  it('validates and writes amounts at the right scale', () => {
+    expect(isValidPointsAmount(100, 'QANTAS')).toBe(true);
+    expect(isValidPointsAmount(100.5, 'QANTAS')).toBe(false);
+    expect(isValidPointsAmount(100.55, 'XPOINTS')).toBe(true);
+    expect(isValidPointsAmount(100.555, 'XPOINTS')).toBe(false);
+
+    expect(toDecimalString(0.3)).toBe('0.30');
+    expect(toDecimalString(-0.05)).toBe('-0.05');
+    expect(toDecimalString(1234)).toBe('1234.00');
+    expect(formatPoints(1234.5, 'XPOINTS')).toBe((1234.5).toLocaleString(undefined, { minimumFractionDigits: 2 }));
+  });
+});
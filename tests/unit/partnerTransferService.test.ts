@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, lifecycle, connector } = vi.hoisted(() => ({
+  storage: { getWallet: vi.fn(), getTransactionsByStatus: vi.fn(), adjustWalletPartnerBalance: vi.fn() },
+  lifecycle: { transition: vi.fn() },
+  connector: { program: 'QANTAS', credit: vi.fn(), getTransferStatus: vi.fn() }
+}));
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/transactionLifecycleService', () => ({
+  transactionLifecycleService: lifecycle,
+  transferReference: (transaction: { id: number }) => `transaction:${transaction.id}`
+}));
+
+import { partnerTransferService } from '../../server/services/partnerTransferService';
+import { partnerRegistry } from '../../server/partners/registry';
+import { PartnerError } from '../../server/errors';
+import type { PartnerConnector } from '../../server/partners/connector';
+import type { Transaction } from '../../shared/schema';
+
+const transfer = (overrides: Partial<Transaction> = {}) => ({
+  id: 9, userId: 1, fromProgram: 'XPOINTS', toProgram: 'QANTAS', amountFrom: 1000, amountTo: 1650,
+  status: 'pending', partnerReference: null, statusUpdatedAt: new Date(0), ...overrides
+} as Transaction);
+
+describe('partnerTransferService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    partnerRegistry.register(connector as unknown as PartnerConnector);
+    storage.getWallet.mockResolvedValue({ id: 4, accountNumber: '1234567' });
+    lifecycle.transition.mockImplementation(async (id: number, status: Transaction['status']) => transfer({ status }));
+  });
+
+  it('submits the credit under our reference and settles once the partner confirms it', async () => {
+    connector.credit.mockResolvedValue({ id: 'qf-1', status: 'completed', amount: 1650, reference: 'transaction:9' });
+
+    const settled = await partnerTransferService.submit(transfer());
+
+    expect(connector.credit).toHaveBeenCalledWith('1234567', 1650, 'transaction:9');
+    expect(lifecycle.transition).toHaveBeenNthCalledWith(1, 9, 'submitted', null, { partnerReference: 'qf-1' });
+    expect(lifecycle.transition).toHaveBeenNthCalledWith(2, 9, 'settled');
+    expect(storage.adjustWalletPartnerBalance).toHaveBeenCalledWith(4, 1650);
+    expect(settled.status).toBe('settled');
+  });
+
+  it('fails the transfer when the partner turns it down, and leaves it when unreachable', async () => {
+    connector.credit.mockRejectedValueOnce(new PartnerError('Account closed', false, 422));
+    await partnerTransferService.submit(transfer());
+    expect(lifecycle.transition).toHaveBeenCalledWith(9, 'failed', 'Account closed');
+
+    lifecycle.transition.mockClear();
+    connector.credit.mockRejectedValueOnce(new PartnerError('QANTAS is unavailable', true, 503));
+    const left = await partnerTransferService.submit(transfer());
+    expect(lifecycle.transition).not.toHaveBeenCalled();
+    expect(left.status).toBe('pending');
+  });
+
+  it('follows up on submitted transfers in the background job', async () => {
+    storage.getTransactionsByStatus.mockImplementation(async (status: string) =>
+      status === 'submitted' ? [transfer({ status: 'submitted', partnerReference: 'qf-1' })] : []
+    );
+    connector.getTransferStatus.mockResolvedValue({ id: 'qf-1', status: 'failed', amount: 1650, reference: 'transaction:9', failureReason: 'Account closed' });
+
+    await expect(partnerTransferService.processTransfers()).resolves.toEqual({ submitted: 0, settled: 0, failed: 1 });
+    expect(lifecycle.transition).toHaveBeenCalledWith(9, 'failed', 'Account closed');
+  });
+});
@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+import { PartnerError } from '../../server/errors';
+import { HttpPartnerConnector } from '../../server/partners/adapters';
+import { CircuitBreaker, ResilientConnector } from '../../server/partners/resilience';
+import { startMockPartnerServer, type MockPartnerState } from '../../server/partners/mockServer';
+import type { PartnerConnector } from '../../server/partners/connector';
+
+const options = { timeoutMs: 50, maxRetries: 2, retryDelayMs: 1, breakerThreshold: 2, breakerCooldownMs: 60000 };
+
+const fakeConnector = (getBalance: PartnerConnector['getBalance']) => ({ program: 'QANTAS', getBalance } as PartnerConnector);
+
+describe('ResilientConnector', () => {
+  it('retries failures the partner may recover from', async () => {
+    const getBalance = vi.fn()
+      .mockRejectedValueOnce(new PartnerError('QANTAS could not be reached', true))
+      .mockResolvedValueOnce(500);
+
+    await expect(new ResilientConnector(fakeConnector(getBalance), options).getBalance('1234567')).resolves.toBe(500);
+    expect(getBalance).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes a rejection straight back without retrying', async () => {
+    const getBalance = vi.fn().mockRejectedValue(new PartnerError('Account not found', false, 422));
+    const connector = new ResilientConnector(fakeConnector(getBalance), options);
+
+    await expect(connector.getBalance('1234567')).rejects.toMatchObject({ retryable: false });
+    expect(getBalance).toHaveBeenCalledTimes(1);
+    expect(connector.breaker.state).toBe('closed');
+  });
+
+  it('times out a slow call and cuts the partner off after repeated failures', async () => {
+    const getBalance = vi.fn(() => new Promise<number>(() => {}));
+    const connector = new ResilientConnector(fakeConnector(getBalance), { ...options, maxRetries: 0 });
+
+    await expect(connector.getBalance('1234567')).rejects.toMatchObject({ code: 'PARTNER_TIMEOUT' });
+    await expect(connector.getBalance('1234567')).rejects.toMatchObject({ code: 'PARTNER_TIMEOUT' });
+    await expect(connector.getBalance('1234567')).rejects.toMatchObject({ code: 'PARTNER_UNAVAILABLE' });
+    expect(getBalance).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets one trial call through once the cooldown has passed', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(1, 1000, () => now);
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('mock partner server', () => {
+  let server: Server;
+  let state: MockPartnerState;
+  let qantas: HttpPartnerConnector;
+
+  beforeAll(async () => {
+    ({ server, state } = await startMockPartnerServer(0));
+    qantas = new HttpPartnerConnector('QANTAS', `http://127.0.0.1:${(server.address() as AddressInfo).port}/qantas`, '');
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    state.reset();
+    state.accounts.set('qantas:1234567', { accountName: 'Sam Lee', balance: 100 });
+  });
+
+  it('credits an account once per reference', async () => {
+    const first = await qantas.credit('1234567', 250, 'transaction:9');
+    const retried = await qantas.credit('1234567', 250, 'transaction:9');
+
+    expect(first).toMatchObject({ status: 'completed', amount: 250 });
+    expect(retried.id).toBe(first.id);
+    expect(await qantas.getBalance('1234567')).toBe(350);
+    await expect(qantas.getTransferStatus(first.id)).resolves.toMatchObject({ status: 'completed' });
+  });
+
+  it('turns down a debit the account cannot cover', async () => {
+    await expect(qantas.debit('1234567', 500, 'transaction:10')).rejects.toMatchObject({
+      retryable: false,
+      code: 'PARTNER_INSUFFICIENT_POINTS'
+    });
+  });
+
+  it('checks the name on the account and records sent codes', async () => {
+    await expect(qantas.verifyAccount('1234567', 'sam lee')).resolves.toEqual({ valid: true });
+    await expect(qantas.verifyAccount('1234567', 'Alex Kim')).resolves.toEqual({ valid: false, reason: 'name_mismatch' });
+
+    await qantas.sendVerificationCode('1234567', '042917');
+    expect(state.codes.get('qantas:1234567')).toBe('042917');
+  });
+
+  it('rides out injected outages through the resilient connector', async () => {
+    state.faults.failNext = 2;
+
+    await expect(qantas.getBalance('1234567')).rejects.toMatchObject({ retryable: true });
+    await expect(new ResilientConnector(qantas, options).getBalance('1234567')).resolves.toBe(100);
+  });
+});
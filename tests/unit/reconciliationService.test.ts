@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { storage } = vi.hoisted(() => {
+  const storage = {
+    createReconciliationRun: vi.fn(async () => ({ id: 1 })),
+    getAllWallets: vi.fn(),
+    getWalletLedgerBalances: vi.fn(),
+    getAllUserTokenBalances: vi.fn(),
+    getTokenLedgerBalances: vi.fn(),
+    getLedgerStartedAt: vi.fn(),
+    getTransactionsAfter: vi.fn(async () => []),
+    getTradeTransactionsAfter: vi.fn(async () => []),
+    createReconciliationDiscrepancy: vi.fn(),
+    supersedeOpenDiscrepancies: vi.fn(),
+    updateReconciliationRun: vi.fn(async (id: number, updates: object) => ({ id, ...updates })),
+    withSnapshot: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+
+import {
+  checkTokenBalance,
+  checkTradePostings,
+  checkTransactionPostings,
+  checkWalletBalance,
+  reconciliationService
+} from '../../server/services/reconciliationService';
+import type { LedgerPosting, LoyaltyProgram, TradeTransaction, Transaction, Wallet } from '../../shared/schema';
+
+const at = new Date('2026-10-01T00:00:00Z');
+
+const posting = (entryId: number, account: string, walletId: number | null, program: LoyaltyProgram, amount: number): LedgerPosting => ({
+  id: entryId * 10 + (walletId ?? 0), entryId, account, walletId, program, amount, balanceAfter: null, createdAt: at
+});
+
+const wallet = (id: number, program: LoyaltyProgram, balance: number): Wallet => ({
+  id, userId: 1, program, balance, accountNumber: null, accountName: null, createdAt: at
+});
+
+describe('reconciliationService', () => {
+  it('reports a wallet whose balance drifted from its postings', () => {
+    expect(checkWalletBalance(wallet(1, 'QANTAS', 1000), 1000)).toBeNull();
+
+    const finding = checkWalletBalance(wallet(1, 'QANTAS', 1000.1), 1000);
+    expect(finding).toMatchObject({ kind: 'wallet_balance', walletId: 1, expected: 1000, actual: 1000.1 });
+    expect(checkTokenBalance(1, 50, 50.5)).toMatchObject({ kind: 'token_balance', expected: 50.5, actual: 50 });
+  });
+
+  it('checks a conversion against the wallet postings of its entry', () => {
+    const transaction = { id: 7, userId: 1, fromProgram: 'QANTAS', toProgram: 'XPOINTS', amountFrom: 1000, amountTo: 495.5 } as Transaction;
+    const postings = [
+      posting(3, 'wallet', 1, 'QANTAS', -1000),
+      posting(3, 'exchange', null, 'QANTAS', 995),
+      posting(3, 'fees', null, 'QANTAS', 5),
+      posting(3, 'exchange', null, 'XPOINTS', -495.5),
+      posting(3, 'wallet', 2, 'XPOINTS', 495.5)
+    ];
+
+    expect(checkTransactionPostings(transaction, postings, [1, 2])).toBeNull();
+    expect(checkTransactionPostings({ ...transaction, amountTo: 500 }, postings, [1, 2]))
+      .toBe('Transaction 7: XPOINTS wallet moved 495.5, record says 500');
+  });
+
+  it('checks a trade against its settlement entry', () => {
+    const trade = { id: 4, buyerWalletId: 5, amountSold: 1000, amountBought: 200, buyerFee: 2 } as TradeTransaction;
+    const postings = [
+      posting(9, 'escrow', null, 'QANTAS', -1000),
+      posting(9, 'wallet', 6, 'QANTAS', 1000),
+      posting(9, 'wallet', 5, 'VELOCITY', -202),
+      posting(9, 'wallet', 8, 'VELOCITY', 198),
+      posting(9, 'fees', null, 'VELOCITY', 4)
+    ];
+
+    expect(checkTradePostings(trade, postings)).toBeNull();
+    expect(checkTradePostings({ ...trade, amountSold: 1200 }, postings))
+      .toBe('Trade 4: escrow released 1,000, record says 1,200');
+  });
+
+  it('checks a matched trade paid out of the taker offer\'s escrow', () => {
+    const trade = { id: 4, buyerWalletId: 5, amountSold: 1000, amountBought: 200, buyerFee: 0, takerOfferId: 3 } as TradeTransaction;
+    const postings = [
+      posting(9, 'escrow', null, 'QANTAS', -1000),
+      posting(9, 'wallet', 6, 'QANTAS', 1000),
+      posting(9, 'escrow', null, 'VELOCITY', -200),
+      posting(9, 'wallet', 8, 'VELOCITY', 198),
+      posting(9, 'fees', null, 'VELOCITY', 2)
+    ];
+
+    expect(checkTradePostings(trade, postings)).toBeNull();
+    expect(checkTradePostings({ ...trade, takerOfferId: null }, postings))
+      .toBe('Trade 4: buyer wallet moved 0, record says -200; escrow released 1,200, record says 1,000');
+  });
+
+  it('checks token balances against mints and burns only', async () => {
+    // User 1 got a signup bonus and minted 200; user 2's token balance missed a burn
+    storage.getAllWallets.mockResolvedValue([wallet(1, 'XPOINTS', 1200), { ...wallet(2, 'XPOINTS', 700), userId: 2 }]);
+    storage.getWalletLedgerBalances.mockResolvedValue([{ walletId: 1, balance: 1200 }, { walletId: 2, balance: 700 }]);
+    storage.getAllUserTokenBalances.mockResolvedValue([{ id: 1, tokenBalance: 200 }, { id: 2, tokenBalance: 300 }]);
+    storage.getTokenLedgerBalances.mockResolvedValue([{ userId: 1, balance: 200 }, { userId: 2, balance: 100 }]);
+
+    const run = await reconciliationService.runReconciliation();
+
+    expect(run).toMatchObject({ status: 'completed', walletsChecked: 2, discrepancyCount: 1 });
+    expect(storage.createReconciliationDiscrepancy).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 2, kind: 'token_balance', expected: 100, actual: 300, runId: 1 })
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, announce } = vi.hoisted(() => {
+  const storage = {
+    getTransaction: vi.fn(),
+    lockTransaction: vi.fn(),
+    createTransactionReversal: vi.fn(),
+    lockTransactionReversal: vi.fn(),
+    reviewTransactionReversal: vi.fn(),
+    getWallet: vi.fn(),
+    postJournalEntry: vi.fn(),
+    createTransaction: vi.fn(),
+    transitionTransaction: vi.fn(),
+    lockUser: vi.fn(),
+    updateUserStats: vi.fn(),
+    getUser: vi.fn(),
+    getTierBenefits: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, announce: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/services/transactionLifecycleService', () => ({ transactionLifecycleService: { announce } }));
+
+import { reversalService } from '../../server/services/reversalService';
+import { feePolicyService } from '../../server/services/feePolicyService';
+import type { IStorage } from '../../server/storage';
+import type { Transaction } from '../../shared/schema';
+
+const conversion = (overrides: Partial<Transaction> = {}) => ({
+  id: 9, userId: 1, type: 'conversion', status: 'settled', fromProgram: 'XPOINTS', toProgram: 'GYG',
+  amountFrom: 1000, amountTo: 2000, feeApplied: 5, partnerReference: null, timestamp: new Date(), ...overrides
+} as Transaction);
+
+const reversal = { id: 3, transactionId: 9, reason: 'Wrong program', requestedBy: 20, status: 'requested' };
+
+describe('reversalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getTransaction.mockResolvedValue(conversion());
+    storage.lockTransaction.mockResolvedValue(conversion());
+    storage.createTransactionReversal.mockResolvedValue(reversal);
+    storage.lockTransactionReversal.mockResolvedValue(reversal);
+    storage.reviewTransactionReversal.mockImplementation(async (id: number, review: object) => ({ ...reversal, id, ...review }));
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) => ({ id: program === 'XPOINTS' ? 1 : 2, program }));
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+    storage.createTransaction.mockImplementation(async (data: object) => ({ id: 10, ...data }));
+    storage.transitionTransaction.mockImplementation(async (id: number, status: string) => conversion({ id, status: status as Transaction['status'] }));
+  });
+
+  it('refunds a conversion settled in our own ledger once a second admin approves', async () => {
+    const approved = await reversalService.approveReversal(3, 21);
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ type: 'reversal', reference: 'reversal:3' }), expect.any(Array));
+    expect(storage.transitionTransaction).toHaveBeenCalledWith(9, 'reversed', { reason: 'Wrong program' });
+    expect(approved).toMatchObject({ status: 'approved', refundTransactionId: 10 });
+  });
+
+  it('gives a reversed conversion\'s share of the free allowance back', async () => {
+    // The user's 1,000 points conversion used up the last of the 10,000 allowance
+    const user = { id: 1, membershipTier: 'STANDARD', pointsConverted: 30000, monthlyPointsConverted: 10000, totalFeesPaid: 20, lastMonthReset: null };
+    storage.getUser.mockImplementation(async () => ({ ...user }));
+    storage.getTierBenefits.mockResolvedValue(undefined);
+    storage.updateUserStats.mockImplementation(async (_userId: number, points: number, fee: number, monthly: number) => {
+      user.pointsConverted += points;
+      user.monthlyPointsConverted += monthly;
+      user.totalFeesPaid += fee;
+      return { ...user };
+    });
+
+    await reversalService.approveReversal(3, 21);
+
+    expect(user).toMatchObject({ pointsConverted: 29000, monthlyPointsConverted: 9000, totalFeesPaid: 15 });
+    const fee = await feePolicyService.conversionFee(storage as unknown as IStorage, 1, 'XPOINTS', 1000);
+    expect(fee.allowance).toMatchObject({ usedThisMonth: 9000, applied: 1000 });
+    expect(fee.total).toBe(0);
+  });
+
+  it('leaves this month\'s allowance alone when the conversion was in an earlier month', async () => {
+    storage.lockTransaction.mockResolvedValue(conversion({ timestamp: new Date(Date.now() - 62 * 24 * 60 * 60 * 1000) }));
+
+    await reversalService.approveReversal(3, 21);
+
+    expect(storage.updateUserStats).toHaveBeenCalledWith(1, -1000, -5, 0);
+  });
+
+  it('refuses to reverse a conversion credited at a partner', async () => {
+    storage.getTransaction.mockResolvedValue(conversion({ toProgram: 'QANTAS', partnerReference: 'qf-77' }));
+
+    await expect(reversalService.requestReversal(9, 20, 'Wrong program')).rejects.toMatchObject({ status: 400, code: 'REVERSAL_NOT_SUPPORTED' });
+    expect(storage.createTransactionReversal).not.toHaveBeenCalled();
+  });
+
+  it('turns down an approval of a request already made for a partner transfer', async () => {
+    storage.lockTransaction.mockResolvedValue(conversion({ toProgram: 'QANTAS', partnerReference: 'qf-77' }));
+
+    await expect(reversalService.approveReversal(3, 21)).rejects.toMatchObject({ code: 'REVERSAL_NOT_SUPPORTED' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+    expect(storage.reviewTransactionReversal).not.toHaveBeenCalled();
+  });
+});
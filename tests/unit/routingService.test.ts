@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/storage', () => ({ storage: {} }));
+
+import type { ExchangeRate, LoyaltyProgram, TransferBonus } from '@shared/schema';
+import { buildRateGraph, findRoutes } from '../../server/services/routingService';
+import { routePostings } from '../../server/services/ledgerService';
+
+function rate(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, value: string): ExchangeRate {
+  return { id: 0, fromProgram, toProgram, rate: value, updatedAt: new Date(), verificationData: null };
+}
+
+function bonus(fromProgram: LoyaltyProgram, toProgram: LoyaltyProgram, bonusPercent: string): TransferBonus {
+  const now = Date.now();
+  return {
+    id: 0,
+    fromProgram,
+    toProgram,
+    bonusPercent,
+    description: null,
+    startsAt: new Date(now - 1000),
+    endsAt: new Date(now + 1000),
+    createdAt: new Date()
+  };
+}
+
+const rates = [
+  rate('QANTAS', 'VELOCITY', '0.8'),
+  rate('QANTAS', 'XPOINTS', '0.6'),
+  rate('XPOINTS', 'VELOCITY', '1.3')
+];
+
+const options = { maxHops: 3, hopFeeRate: 0.001 };
+
+describe('routingService', () => {
+  it('prefers the direct route when hops add nothing', () => {
+    const routes = findRoutes(buildRateGraph(rates, []), 'QANTAS', 'VELOCITY', 10000, 0, options);
+
+    expect(routes.map(r => r.path)).toEqual(['QANTAS → VELOCITY', 'QANTAS → XPOINTS → VELOCITY']);
+    expect(routes[0].amountTo).toBeCloseTo(8000);
+    expect(routes[0].routingFee).toBeNull();
+  });
+
+  it('takes a longer route when a transfer bonus makes it worth more', () => {
+    const graph = buildRateGraph(rates, [bonus('XPOINTS', 'VELOCITY', '25')]);
+    const [best] = findRoutes(graph, 'QANTAS', 'VELOCITY', 10000, 0, options);
+
+    expect(best.path).toBe('QANTAS → XPOINTS → VELOCITY');
+    expect(best.routingFee?.amount).toBeCloseTo(10);
+    // (10000 - 10) * 0.6 * 1.3 * 1.25 = 9740.25, rounded down to whole Velocity points
+    expect(best.amountTo).toBe(9740);
+    expect(best.hops[1].bonusPercent).toBe(25);
+  });
+
+  it('respects the hop limit', () => {
+    const routes = findRoutes(buildRateGraph(rates, []), 'QANTAS', 'VELOCITY', 10000, 0, { ...options, maxHops: 1 });
+    expect(routes).toHaveLength(1);
+  });
+
+  it('posts a multi-hop route that nets to zero in every program', () => {
+    const [route] = findRoutes(buildRateGraph(rates, [bonus('XPOINTS', 'VELOCITY', '25')]), 'QANTAS', 'VELOCITY', 10000, 50, options);
+    const postings = routePostings({
+      sourceWalletId: 1,
+      destWalletId: 2,
+      amountFrom: 10000,
+      fee: 50 + (route.routingFee?.amount ?? 0),
+      hops: route.hops
+    });
+
+    const totals: Record<string, number> = {};
+    postings.forEach(p => {
+      totals[p.program] = (totals[p.program] || 0) + p.amount;
+    });
+    Object.values(totals).forEach(total => expect(total).toBeCloseTo(0));
+    expect(postings.filter(p => p.account === 'wallet')).toHaveLength(2);
+  });
+});
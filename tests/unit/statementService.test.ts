@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/storage', () => ({ storage: {} }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+
+import {
+  buildStatement,
+  previousMonth,
+  renderStatementCsv,
+  renderStatementPdf,
+  type StatementInputs
+} from '../../server/services/statementService';
+import type { WalletPostingRecord } from '../../server/storage';
+import type { LoyaltyProgram } from '../../shared/schema';
+
+const at = new Date('2026-09-10T00:00:00Z');
+
+const record = (entryId: number, type: string, walletId: number, program: LoyaltyProgram, amount: number, description: string | null = null): WalletPostingRecord => ({
+  entry: { id: entryId, userId: 1, type, reference: `ref:${entryId}`, description, createdAt: at },
+  posting: { id: entryId * 10 + walletId, entryId, account: 'wallet', walletId, program, amount, balanceAfter: null, createdAt: at }
+});
+
+const inputs = (overrides: Partial<StatementInputs> = {}): StatementInputs => ({
+  userId: 1,
+  username: 'alice',
+  ...previousMonth(new Date('2026-10-18T00:00:00Z')),
+  opening: [{ walletId: 1, program: 'QANTAS', balance: 20000 }, { walletId: 2, program: 'XPOINTS', balance: 100 }],
+  closing: [{ walletId: 1, program: 'QANTAS', balance: 9000 }, { walletId: 2, program: 'XPOINTS', balance: 5545.5 }],
+  records: [
+    // 11,000 QANTAS converted with a 5 point fee, then 1,000 QANTAS into escrow and back
+    record(1, 'conversion', 1, 'QANTAS', -11000, 'QANTAS → XPOINTS'),
+    record(1, 'conversion', 2, 'XPOINTS', 5445.5, 'QANTAS → XPOINTS'),
+    record(2, 'trade_escrow', 1, 'QANTAS', -1000),
+    record(3, 'trade_release', 1, 'QANTAS', 1000)
+  ],
+  fees: [{ entryId: 1, program: 'QANTAS', amount: 5, description: 'Conversion fee' }],
+  ...overrides
+});
+
+describe('statementService', () => {
+  it('covers the previous calendar month in UTC', () => {
+    const { periodStart, periodEnd } = previousMonth(new Date('2026-01-05T12:00:00Z'));
+    expect(periodStart.toISOString()).toBe('2025-12-01T00:00:00.000Z');
+    expect(periodEnd.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('splits fees into their own lines and reconciles to the closing balance', () => {
+    const statement = buildStatement(inputs());
+
+    expect(statement.lines.map(line => [line.category, line.program, line.amount, line.balance])).toEqual([
+      ['conversion', 'QANTAS', -10995, 9005],
+      ['fee', 'QANTAS', -5, 9000],
+      ['conversion', 'XPOINTS', 5445.5, 5545.5],
+      ['escrow', 'QANTAS', -1000, 8000],
+      ['escrow', 'QANTAS', 1000, 9000]
+    ]);
+    expect(statement.programs).toEqual([
+      { program: 'QANTAS', openingBalance: 20000, credits: 1000, debits: -11995, fees: -5, closingBalance: 9000 },
+      { program: 'XPOINTS', openingBalance: 100, credits: 5445.5, debits: 0, fees: 0, closingBalance: 5545.5 }
+    ]);
+  });
+
+  it('refuses to build a statement that does not reconcile', () => {
+    const closing = [{ walletId: 1, program: 'QANTAS' as const, balance: 9001 }, { walletId: 2, program: 'XPOINTS' as const, balance: 5545.5 }];
+    expect(() => buildStatement(inputs({ closing }))).toThrow(/doesn't reconcile for QANTAS/);
+  });
+
+  it('renders CSV with balance rows and a well-formed PDF', () => {
+    const statement = buildStatement(inputs());
+
+    const csv = renderStatementCsv(statement).split('\r\n');
+    expect(csv[0]).toBe('date,program,category,description,reference,amount,balance');
+    expect(csv[1]).toBe('2026-09-01T00:00:00.000Z,QANTAS,opening_balance,Opening balance,,,20000.00');
+    expect(csv[4]).toBe('2026-09-10T00:00:00.000Z,QANTAS,fee,Conversion fee,ref:1,-5.00,9000.00');
+
+    const pdf = renderStatementPdf(statement, 'abc123').toString('ascii');
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    expect(pdf).toContain('QANTAS    Conversion - QANTAS -> XPOINTS');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { storage, conversion } = vi.hoisted(() => {
+  const storage = {
+    getDueSweepSchedules: vi.fn(),
+    lockSweepSchedule: vi.fn(),
+    lockUser: vi.fn(),
+    getWallet: vi.fn(),
+    createSweepRun: vi.fn(),
+    updateSweepSchedule: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, conversion: { priceConversion: vi.fn(), carryOutConversion: vi.fn(), submitTransfer: vi.fn() } };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+vi.mock('../../server/services/conversionService', () => ({ conversionService: conversion }));
+
+import { nextCronRun, parseCronExpression, retryAt, sweepService } from '../../server/services/sweepService';
+
+const next = (expression: string, after: string) =>
+  nextCronRun(parseCronExpression(expression), new Date(after)).toISOString();
+
+describe('sweepService', () => {
+  it('finds the next weekly and monthly run in UTC', () => {
+    // 2026-10-18 is a Sunday
+    expect(next('0 9 * * 1', '2026-10-18T12:00:00Z')).toBe('2026-10-19T09:00:00.000Z');
+    expect(next('0 9 * * 1', '2026-10-19T09:00:00Z')).toBe('2026-10-26T09:00:00.000Z');
+    expect(next('@monthly', '2026-12-15T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z');
+    expect(next('30 */6 * * *', '2026-10-18T06:31:00Z')).toBe('2026-10-18T12:30:00.000Z');
+  });
+
+  it('matches either day field when both are restricted, like cron', () => {
+    // The 1st of the month or any Friday
+    expect(next('0 0 1 * 5', '2026-10-18T00:00:00Z')).toBe('2026-10-23T00:00:00.000Z');
+    expect(next('0 0 1 * 5', '2026-10-30T00:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('rejects malformed or impossible expressions', () => {
+    expect(() => parseCronExpression('0 9 * *')).toThrow(/five fields/);
+    expect(() => parseCronExpression('0 24 * * *')).toThrow(/hour/);
+    expect(() => next('0 0 31 2 *', '2026-10-18T00:00:00Z')).toThrow(/never fires/);
+  });
+
+  it('backs off between retries and gives up after the last attempt', () => {
+    const now = new Date('2026-10-18T00:00:00Z');
+    const options = { maxAttempts: 3, retryDelayMinutes: 15 };
+
+    expect(retryAt(1, now, options)?.toISOString()).toBe('2026-10-18T00:15:00.000Z');
+    expect(retryAt(2, now, options)?.toISOString()).toBe('2026-10-18T00:30:00.000Z');
+    expect(retryAt(3, now, options)).toBeNull();
+  });
+
+  it('holds a sweep into a connected partner and submits it once the run commits', async () => {
+    const now = new Date('2026-10-19T09:00:00Z');
+    const schedule = {
+      id: 3, userId: 1, fromProgram: 'XPOINTS', toProgram: 'QANTAS', keepBalance: 100, schedule: '0 9 * * 1',
+      status: 'active', nextRunAt: now, failureCount: 0
+    };
+    const transition = { transaction: { id: 9, status: 'pending' }, from: 'quoted', to: 'pending', reason: null };
+    storage.getDueSweepSchedules.mockResolvedValue([schedule]);
+    storage.lockSweepSchedule.mockResolvedValue(schedule);
+    storage.getWallet.mockResolvedValue({ id: 4, balance: 1100 });
+    conversion.priceConversion.mockResolvedValue({ toProgram: 'QANTAS', amountFrom: 1000 });
+    conversion.carryOutConversion.mockResolvedValue({ transaction: transition.transaction, transition });
+
+    const result = await sweepService.runDueSweeps(now);
+
+    expect(result).toEqual({ succeeded: 1, skipped: 0, failed: 0 });
+    // Priced under the user lock
+    expect(storage.lockUser).toHaveBeenCalledWith(1);
+    expect(storage.lockUser.mock.invocationCallOrder[0]).toBeLessThan(conversion.priceConversion.mock.invocationCallOrder[0]);
+    expect(conversion.carryOutConversion).toHaveBeenCalledWith(storage, 1, { toProgram: 'QANTAS', amountFrom: 1000 }, 'sweep:3');
+    expect(storage.createSweepRun).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded', amount: 1000, transactionId: 9 }));
+    expect(conversion.submitTransfer).toHaveBeenCalledWith(transition);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/storage', () => ({ storage: {} }));
+
+import { qualifyingTier } from '../../server/services/tierService';
+
+const benefits = [
+  { tier: 'STANDARD' as const, monthlyPointsThreshold: 0 },
+  { tier: 'SILVER' as const, monthlyPointsThreshold: 20000 },
+  { tier: 'GOLD' as const, monthlyPointsThreshold: 50000 },
+  { tier: 'PLATINUM' as const, monthlyPointsThreshold: 100000 }
+];
+
+describe('tierService', () => {
+  it('picks the highest tier whose monthly threshold is met', () => {
+    expect(qualifyingTier(0, benefits)).toBe('STANDARD');
+    expect(qualifyingTier(19999, benefits)).toBe('STANDARD');
+    expect(qualifyingTier(20000, benefits)).toBe('SILVER');
+    expect(qualifyingTier(75000, benefits)).toBe('GOLD');
+    expect(qualifyingTier(250000, benefits)).toBe('PLATINUM');
+  });
+
+  it('does not depend on the order tier benefits come back in', () => {
+    expect(qualifyingTier(60000, [...benefits].reverse())).toBe('GOLD');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage } = vi.hoisted(() => {
+  const storage = {
+    getWallet: vi.fn(),
+    getExchangeRate: vi.fn(),
+    postJournalEntry: vi.fn(),
+    lockUser: vi.fn(),
+    updateTokenBalance: vi.fn(),
+    createTransaction: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+// No chain to talk to - the service records token conversions in the ledger only
+vi.mock('ethers', () => ({ ethers: { JsonRpcProvider: vi.fn(() => { throw new Error('No chain in tests'); }) } }));
+
+import { tokenService } from '../../server/blockchain/tokenService';
+import { detokenizeSchema } from '../../shared/schema';
+
+const wallets: Record<string, { id: number; program: string; balance: number; accountStatus: string }> = {
+  XPOINTS: { id: 1, program: 'XPOINTS', balance: 500, accountStatus: 'unverified' },
+  QANTAS: { id: 2, program: 'QANTAS', balance: 0, accountStatus: 'verified' }
+};
+
+describe('tokenService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) => wallets[program]);
+    storage.getExchangeRate.mockResolvedValue({ rate: '1.5' });
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+    storage.lockUser.mockResolvedValue({ id: 1, tokenBalance: 500 });
+    storage.createTransaction.mockImplementation(async (data: object) => ({ id: 9, ...data }));
+  });
+
+  it('records a burn as detokenize and takes it off the token balance', async () => {
+    await tokenService.burnTokens(1, 'QANTAS', 100);
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ type: 'detokenize' }), expect.any(Array));
+    expect(storage.updateTokenBalance).toHaveBeenCalledWith(1, 400);
+    // Same lock order as conversions: the user, then the wallets
+    expect(storage.lockUser.mock.invocationCallOrder[0]).toBeLessThan(storage.postJournalEntry.mock.invocationCallOrder[0]);
+    expect(storage.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'detokenize', fromProgram: 'XPOINTS', toProgram: 'QANTAS', amountFrom: 100, amountTo: 150
+    }));
+  });
+
+  it('refuses to burn into an unverified partner account', async () => {
+    storage.getWallet.mockImplementation(async (_userId: number, program: string) =>
+      program === 'QANTAS' ? { ...wallets.QANTAS, accountStatus: 'revoked' } : wallets[program]);
+
+    await expect(tokenService.burnTokens(1, 'QANTAS', 100)).rejects.toMatchObject({ status: 403, code: 'ACCOUNT_NOT_VERIFIED' });
+    await expect(tokenService.burnTokens(1, 'VELOCITY', 100)).rejects.toMatchObject({ code: 'ACCOUNT_NOT_VERIFIED' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it('fails a mint with an error the route can hand back to the client', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.getWallet.mockResolvedValue({ id: 2, program: 'QANTAS', balance: 50, accountStatus: 'verified' });
+    await expect(tokenService.mintTokens(1, 'QANTAS', 100)).rejects.toMatchObject({ status: 400, code: 'INSUFFICIENT_BALANCE' });
+
+    storage.getWallet.mockResolvedValue({ id: 2, program: 'QANTAS', balance: 500, accountStatus: 'verified' });
+    storage.getExchangeRate.mockResolvedValue(undefined);
+    await expect(tokenService.mintTokens(1, 'QANTAS', 100)).rejects.toMatchObject({ status: 404, code: 'RATE_NOT_FOUND' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it('only takes burn amounts xPoints can hold', () => {
+    expect(detokenizeSchema.safeParse({ program: 'QANTAS', amount: 100.25 }).success).toBe(true);
+    expect(detokenizeSchema.safeParse({ program: 'QANTAS', amount: 100.255 }).success).toBe(false);
+  });
+});
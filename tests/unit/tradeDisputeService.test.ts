@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, notify } = vi.hoisted(() => {
+  const storage = {
+    lockTradeTransaction: vi.fn(),
+    updateTradeTransactionStatus: vi.fn(),
+    getTradeOffer: vi.fn(),
+    createTradeDispute: vi.fn(),
+    lockTradeDispute: vi.fn(),
+    resolveTradeDispute: vi.fn(),
+    postJournalEntry: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, notify: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+vi.mock('../../server/services/ledgerService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/services/ledgerService')>()),
+  getOrCreateWallet: vi.fn(async (_tx: unknown, userId: number, program: string) => ({ id: userId * 10 + (program === 'QANTAS' ? 1 : 2) }))
+}));
+
+import { tradeDisputeService, refundAmounts } from '../../server/services/tradeDisputeService';
+import type { TradeDispute, TradeTransaction } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// User 1 sold 1000 QANTAS to user 2 for 800 VELOCITY
+const trade = (overrides: Partial<TradeTransaction> = {}) => ({
+  id: 50, tradeOfferId: 3, sellerId: 1, buyerId: 2, sellerWalletId: 11, buyerWalletId: 22,
+  amountSold: 1000, amountBought: 800, rate: '0.8', sellerFee: 8, buyerFee: 2, status: 'completed',
+  completedAt: new Date(), ...overrides
+} as TradeTransaction);
+
+const dispute = (overrides: Partial<TradeDispute> = {}) => ({
+  id: 7, tradeTransactionId: 50, openedBy: 2, reason: 'Never received', evidence: null, status: 'open', ...overrides
+} as TradeDispute);
+
+describe('tradeDisputeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.lockTradeTransaction.mockResolvedValue(trade());
+    storage.updateTradeTransactionStatus.mockImplementation(async (id: number, status: string) => trade({ id, status } as Partial<TradeTransaction>));
+    storage.getTradeOffer.mockResolvedValue({ id: 3, fromProgram: 'QANTAS', toProgram: 'VELOCITY' });
+    storage.createTradeDispute.mockImplementation(async (data: object) => dispute(data));
+    storage.lockTradeDispute.mockResolvedValue(dispute());
+    storage.resolveTradeDispute.mockImplementation(async (id: number, resolution: object) => dispute({ id, ...resolution }));
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+  });
+
+  it('lets either party dispute a trade within the window', async () => {
+    await tradeDisputeService.openDispute(2, 50, { reason: 'Never received', evidence: 'Checked on the 3rd' });
+
+    expect(storage.createTradeDispute).toHaveBeenCalledWith({ tradeTransactionId: 50, openedBy: 2, reason: 'Never received', evidence: 'Checked on the 3rd' });
+    expect(storage.updateTradeTransactionStatus).toHaveBeenCalledWith(50, 'disputed');
+    expect(notify).toHaveBeenCalledWith(1, 'trade_disputed', expect.any(String), expect.any(String));
+    expect(notify).toHaveBeenCalledWith(2, 'trade_disputed', expect.any(String), expect.any(String));
+
+    await expect(tradeDisputeService.openDispute(3, 50, { reason: 'x' })).rejects.toMatchObject({ code: 'NOT_TRADE_PARTY' });
+
+    storage.lockTradeTransaction.mockResolvedValue(trade({ completedAt: new Date(Date.now() - 15 * DAY_MS) }));
+    await expect(tradeDisputeService.openDispute(1, 50, { reason: 'x' })).rejects.toMatchObject({ code: 'DISPUTE_WINDOW_CLOSED' });
+
+    storage.lockTradeTransaction.mockResolvedValue(trade({ status: 'disputed' }));
+    await expect(tradeDisputeService.openDispute(1, 50, { reason: 'x' })).rejects.toMatchObject({ code: 'TRADE_NOT_DISPUTABLE' });
+  });
+
+  it('scales a partial refund\'s payment and fees with the points refunded', () => {
+    const offer = { fromProgram: 'QANTAS' as const, toProgram: 'VELOCITY' as const };
+
+    expect(refundAmounts(trade(), offer)).toEqual({ amountSold: 1000, amountBought: 800, sellerFee: 8, buyerFee: 2 });
+    expect(refundAmounts(trade(), offer, 250)).toEqual({ amountSold: 250, amountBought: 200, sellerFee: 2, buyerFee: 0 });
+    expect(() => refundAmounts(trade(), offer, 1001)).toThrow(expect.objectContaining({ code: 'REFUND_TOO_LARGE' }));
+  });
+
+  it('refunds both sides of the trade and its fees', async () => {
+    await tradeDisputeService.refundDispute(7, 9, { amount: 500, note: 'Partner confirmed half was lost' });
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'trade_refund', reference: 'trade_dispute:7' }),
+      [
+        { account: 'wallet', walletId: 21, program: 'QANTAS', amount: -500 },
+        { account: 'wallet', walletId: 11, program: 'QANTAS', amount: 500 },
+        { account: 'wallet', walletId: 12, program: 'VELOCITY', amount: -396 },
+        { account: 'wallet', walletId: 22, program: 'VELOCITY', amount: 401 },
+        { account: 'fees', walletId: null, program: 'VELOCITY', amount: -5 }
+      ]
+    );
+    expect(storage.resolveTradeDispute).toHaveBeenCalledWith(7, expect.objectContaining({
+      status: 'refunded', resolvedBy: 9, refundAmount: 500, refundEntryId: 31, resolutionNote: 'Partner confirmed half was lost'
+    }));
+    expect(storage.updateTradeTransactionStatus).toHaveBeenCalledWith(50, 'refunded');
+    expect(notify).toHaveBeenCalledWith(1, 'trade_dispute_resolved', 'Trade refunded', expect.stringContaining('in part'));
+    expect(notify).toHaveBeenCalledWith(2, 'trade_dispute_resolved', 'Trade refunded', expect.any(String));
+  });
+
+  it('puts the trade back to completed when a dispute is rejected', async () => {
+    await tradeDisputeService.rejectDispute(7, 9, 'Points arrived on the 4th');
+
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+    expect(storage.resolveTradeDispute).toHaveBeenCalledWith(7, expect.objectContaining({ status: 'rejected', resolvedBy: 9 }));
+    expect(storage.updateTradeTransactionStatus).toHaveBeenCalledWith(50, 'completed');
+
+    storage.lockTradeDispute.mockResolvedValue(dispute({ status: 'rejected' }));
+    await expect(tradeDisputeService.rejectDispute(7, 9)).rejects.toMatchObject({ code: 'TRADE_DISPUTE_NOT_OPEN' });
+  });
+
+  it('keeps admins from resolving disputes of their own trades', async () => {
+    await expect(tradeDisputeService.refundDispute(7, 1, {})).rejects.toMatchObject({ code: 'TRADE_DISPUTE_OWN_TRADE' });
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+  });
+});
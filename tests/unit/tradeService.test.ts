@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storage, tradeFee, notify } = vi.hoisted(() => {
+  const storage = {
+    getTradeOffer: vi.fn(),
+    lockTradeOffer: vi.fn(),
+    getTradeOffers: vi.fn(),
+    getOpenTradeOffersForPair: vi.fn(),
+    getExpiredOpenTradeOffers: vi.fn(),
+    getUserTradeOffers: vi.fn(),
+    getWallet: vi.fn(),
+    postJournalEntry: vi.fn(),
+    createTradeTransaction: vi.fn(),
+    updateTradeOffer: vi.fn(),
+    lockEscrowHoldForOffer: vi.fn(),
+    createEscrowMovement: vi.fn(),
+    updateEscrowHold: vi.fn(),
+    withTransaction: (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> => fn(storage)
+  };
+  return { storage, tradeFee: vi.fn(), notify: vi.fn() };
+});
+vi.mock('../../server/storage', () => ({ storage }));
+vi.mock('../../server/services/notificationService', () => ({ notificationService: { notify } }));
+vi.mock('../../server/services/feePolicyService', () => ({
+  feePolicyService: { tradeFee },
+  formatFeeRate: (rate: number) => `${rate * 100}%`
+}));
+vi.mock('../../server/services/ledgerService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/services/ledgerService')>()),
+  getOrCreateWallet: vi.fn(async (_tx: unknown, userId: number, program: string) => ({ id: userId * 10 + (program === 'QANTAS' ? 1 : 2) }))
+}));
+
+import { tradeService, fillPrice, affordableFill } from '../../server/services/tradeService';
+import { addPoints } from '../../shared/money';
+import type { TradeOffer } from '../../shared/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const offer = (overrides: Partial<TradeOffer> = {}) => ({
+  id: 3, createdBy: 1, fromProgram: 'QANTAS', toProgram: 'VELOCITY', amountOffered: 1000, amountRequested: 1000,
+  amountRemaining: 1000, fillCount: 0, minFillAmount: null, customRate: '1', marketRate: '1', status: 'open',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000), ...overrides
+} as TradeOffer);
+
+describe('tradeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getWallet.mockResolvedValue({ id: 22, balance: 5000 });
+    storage.postJournalEntry.mockResolvedValue({ entry: { id: 31 } });
+    storage.createTradeTransaction.mockImplementation(async (data: object) => ({ id: 50, ...data }));
+    storage.updateTradeOffer.mockImplementation(async (id: number, updates: Partial<TradeOffer>) => offer({ id, ...updates }));
+    tradeFee.mockResolvedValue({ sellerFee: 0, buyerFee: 0, effectiveRate: 0 });
+    storage.lockEscrowHoldForOffer.mockImplementation(async (id: number) => ({ id: id + 100, tradeOfferId: id, amountHeld: 1000, status: 'held' }));
+  });
+
+  it('prices fills so they add up to exactly what the offer asked for', () => {
+    const thirds = { amountOffered: 3, amountRequested: 1, customRate: String(1 / 3), toProgram: 'VELOCITY' as const };
+
+    const first = fillPrice({ ...thirds, amountRemaining: 3 }, 1);
+    const second = fillPrice({ ...thirds, amountRemaining: 2 }, 1);
+    const last = fillPrice({ ...thirds, amountRemaining: 1 }, 1);
+
+    expect(addPoints(first, second, last)).toBe(1);
+  });
+
+  it('settles part of an offer and leaves the rest open', async () => {
+    storage.lockTradeOffer.mockResolvedValue(offer({ customRate: '1.5', amountRequested: 1500 }));
+
+    const fill = await tradeService.fillOffer(2, 3, { tradeOfferId: 3, amount: 400 });
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'trade_settlement', reference: 'trade_offer:3' }),
+      expect.arrayContaining([
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -400 },
+        { account: 'wallet', walletId: 22, program: 'VELOCITY', amount: -600 }
+      ])
+    );
+    expect(storage.createTradeTransaction).toHaveBeenCalledWith(expect.objectContaining({ buyerId: 2, amountSold: 400, amountBought: 600 }));
+    expect(storage.createEscrowMovement).toHaveBeenCalledWith({ holdId: 103, type: 'transfer', amount: 400, entryId: 31, tradeTransactionId: 50 });
+    expect(storage.updateEscrowHold).toHaveBeenCalledWith(103, { amountHeld: 600 });
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { amountRemaining: 600, fillCount: 1, status: 'open' });
+    expect(fill.offer.status).toBe('open');
+  });
+
+  it('completes the offer when a fill takes what is left', async () => {
+    storage.lockTradeOffer.mockResolvedValue(offer({ amountRemaining: 250, fillCount: 2 }));
+
+    await tradeService.fillOffer(2, 3, { tradeOfferId: 3 });
+
+    expect(storage.createTradeTransaction).toHaveBeenCalledWith(expect.objectContaining({ amountSold: 250, amountBought: 250 }));
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { amountRemaining: 0, fillCount: 3, status: 'completed' });
+  });
+
+  it('holds fills to the minimum size unless they clear the offer', async () => {
+    storage.lockTradeOffer.mockResolvedValue(offer({ minFillAmount: 300 }));
+    await expect(tradeService.fillOffer(2, 3, { tradeOfferId: 3, amount: 100 })).rejects.toMatchObject({ code: 'FILL_TOO_SMALL' });
+    await expect(tradeService.fillOffer(2, 3, { tradeOfferId: 3, amount: 1200 })).rejects.toMatchObject({ code: 'FILL_TOO_LARGE' });
+
+    storage.lockTradeOffer.mockResolvedValue(offer({ minFillAmount: 300, amountRemaining: 100 }));
+    await expect(tradeService.fillOffer(2, 3, { tradeOfferId: 3, amount: 100 })).resolves.toBeDefined();
+  });
+
+  it('releases only the unfilled remainder on cancel and expiry', async () => {
+    storage.lockTradeOffer.mockResolvedValue(offer({ amountRemaining: 600, fillCount: 1 }));
+
+    await tradeService.cancelOffer(1, 3);
+
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'trade_release' }),
+      [
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -600 },
+        { account: 'wallet', walletId: 11, program: 'QANTAS', amount: 600 }
+      ]
+    );
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { status: 'cancelled' });
+    expect(storage.createEscrowMovement).toHaveBeenCalledWith({ holdId: 103, type: 'release', amount: 600, entryId: 31 });
+    expect(storage.updateEscrowHold).toHaveBeenCalledWith(103, expect.objectContaining({ amountHeld: 0, status: 'released' }));
+
+    storage.postJournalEntry.mockClear();
+    storage.lockTradeOffer.mockResolvedValue(offer({ amountRemaining: 600, expiresAt: new Date(0) }));
+    await expect(tradeService.fillOffer(2, 3, { tradeOfferId: 3 })).rejects.toMatchObject({ code: 'TRADE_OFFER_EXPIRED' });
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ type: 'trade_release' }), expect.any(Array));
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { status: 'expired' });
+  });
+
+  it('matches a new offer against the offers it crosses, best price first', async () => {
+    // Sells VELOCITY for at least 0.8 QANTAS a point; the resting offers sell QANTAS
+    const taker = offer({ id: 9, createdBy: 2, fromProgram: 'VELOCITY', toProgram: 'QANTAS', amountRequested: 800, customRate: '0.8' });
+    const book = [
+      offer({ id: 3, amountRemaining: 600, amountOffered: 600, amountRequested: 600 }),
+      offer({ id: 4, amountRequested: 1250, customRate: '1.25' }),
+      offer({ id: 5, amountRequested: 1300, customRate: '1.3' })
+    ];
+    const offers = new Map([taker, ...book].map(o => [o.id, o]));
+    storage.getTradeOffer.mockImplementation(async (id: number) => offers.get(id));
+    storage.lockTradeOffer.mockImplementation(async (id: number) => offers.get(id));
+    storage.updateTradeOffer.mockImplementation(async (id: number, updates: Partial<TradeOffer>) => ({ ...offers.get(id)!, ...updates }));
+    storage.getOpenTradeOffersForPair.mockResolvedValue(book);
+
+    const matches = await tradeService.matchOffer(9);
+
+    expect(storage.getOpenTradeOffersForPair).toHaveBeenCalledWith('QANTAS', 'VELOCITY', expect.any(Date));
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'trade_settlement', reference: 'trade_offer:3' }),
+      [
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -600 },
+        { account: 'wallet', walletId: 21, program: 'QANTAS', amount: 600 },
+        { account: 'escrow', walletId: null, program: 'VELOCITY', amount: -600 },
+        { account: 'wallet', walletId: 12, program: 'VELOCITY', amount: 600 }
+      ]
+    );
+    expect(storage.createTradeTransaction).toHaveBeenLastCalledWith(expect.objectContaining({
+      tradeOfferId: 4, takerOfferId: 9, buyerId: 2, buyerWalletId: 22, amountSold: 320, amountBought: 400
+    }));
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { amountRemaining: 0, fillCount: 1, status: 'completed' });
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(4, { amountRemaining: 680, fillCount: 1, status: 'open' });
+    expect(storage.updateTradeOffer).toHaveBeenLastCalledWith(9, { amountRemaining: 0, fillCount: 2, status: 'completed' });
+    // Every offer the match touches is locked up front, lowest id first
+    expect(storage.lockTradeOffer.mock.calls.map(([id]) => id)).toEqual([3, 4, 9]);
+    expect(storage.createEscrowMovement).toHaveBeenCalledWith(expect.objectContaining({ holdId: 103, type: 'transfer', amount: 600 }));
+    expect(storage.createEscrowMovement).toHaveBeenCalledWith(expect.objectContaining({ holdId: 109, type: 'transfer', amount: 600 }));
+    expect(matches).toHaveLength(2);
+    expect(notify).toHaveBeenCalledWith(1, 'trade_matched', expect.any(String), expect.stringContaining('sold 600 QANTAS'));
+  });
+
+  it('leaves offers that do not cross, or are the taker\'s own, on the book', async () => {
+    const taker = offer({ id: 9, createdBy: 2, fromProgram: 'VELOCITY', toProgram: 'QANTAS', amountRequested: 900, customRate: '0.9' });
+    storage.getTradeOffer.mockResolvedValue(taker);
+    storage.getOpenTradeOffersForPair.mockResolvedValue([
+      offer({ id: 3, createdBy: 2 }),
+      offer({ id: 4, amountRequested: 1200, customRate: '1.2' })
+    ]);
+
+    await expect(tradeService.matchOffer(9)).resolves.toEqual([]);
+    expect(storage.lockTradeOffer).not.toHaveBeenCalled();
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('skips a resting offer that was filled or cancelled after the book was read', async () => {
+    const taker = offer({ id: 9, createdBy: 2, fromProgram: 'VELOCITY', toProgram: 'QANTAS', amountRequested: 800, customRate: '0.8' });
+    const resting = offer({ id: 3 });
+    storage.getTradeOffer.mockResolvedValue(taker);
+    storage.lockTradeOffer.mockImplementation(async (id: number) => id === 3 ? { ...resting, status: 'cancelled' } : taker);
+    storage.getOpenTradeOffersForPair.mockResolvedValue([resting]);
+
+    await expect(tradeService.matchOffer(9)).resolves.toEqual([]);
+    expect(storage.postJournalEntry).not.toHaveBeenCalled();
+  });
+
+  it('rematches offers left crossing the book, as the taker against the older offer', async () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+    const resting = offer({ id: 3, createdAt: minutesAgo(10) });
+    const stranded = offer({ id: 9, createdBy: 2, fromProgram: 'VELOCITY', toProgram: 'QANTAS', amountRequested: 800, customRate: '0.8', createdAt: minutesAgo(5) });
+    storage.getTradeOffers.mockResolvedValue([
+      resting,
+      stranded,
+      offer({ id: 4, createdBy: 3, fromProgram: 'VELOCITY', toProgram: 'QANTAS', customRate: '1.2', createdAt: minutesAgo(1) })
+    ]);
+    const match = vi.spyOn(tradeService, 'matchOffer')
+      .mockRejectedValueOnce(new Error('could not serialize access'))
+      .mockResolvedValueOnce([{} as never]);
+
+    await expect(tradeService.rematchOffers()).resolves.toBe(0);
+    await expect(tradeService.rematchOffers()).resolves.toBe(1);
+
+    // Only the newer of the crossing pair takes; offer 4 doesn't cross anything
+    expect(match.mock.calls).toEqual([[9], [9]]);
+    match.mockRestore();
+  });
+
+  it('sizes a match to what the taker can pay for at the resting price', () => {
+    const thirds = offer({ amountOffered: 300, amountRemaining: 300, amountRequested: 100, customRate: String(1 / 3) });
+
+    expect(affordableFill(thirds, 50)).toBe(151);
+    expect(fillPrice(thirds, 151)).toBe(50);
+    expect(affordableFill(thirds, 1000)).toBe(300);
+  });
+
+  it('quotes both sides of the book per point of the program being sold', async () => {
+    storage.getOpenTradeOffersForPair.mockImplementation(async (fromProgram: string) => fromProgram === 'QANTAS'
+      ? [offer({ id: 3, amountRemaining: 400 }), offer({ id: 4, amountRemaining: 100 }), offer({ id: 5, customRate: '1.1' })]
+      : [offer({ id: 6, fromProgram: 'VELOCITY', toProgram: 'QANTAS', amountRemaining: 500, customRate: '0.8' })]);
+
+    const book = await tradeService.getOrderBook({ fromProgram: 'QANTAS', toProgram: 'VELOCITY' });
+
+    expect(book.asks).toEqual([{ rate: 1, amount: 500, offers: 2 }, { rate: 1.1, amount: 1000, offers: 1 }]);
+    expect(book.bids).toEqual([{ rate: 1.25, amount: 400, offers: 1 }]);
+  });
+
+  it('sweeps expired offers, returning what is left in escrow and telling the owner', async () => {
+    const expired = offer({ amountRemaining: 600, fillCount: 1, expiresAt: new Date(Date.now() - HOUR_MS) });
+    storage.getExpiredOpenTradeOffers.mockResolvedValue([expired, offer({ id: 4, expiresAt: new Date(Date.now() - HOUR_MS) })]);
+    // Offer 4 was extended after the sweep listed it
+    storage.lockTradeOffer.mockImplementation(async (id: number) => id === 3 ? expired : offer({ id: 4 }));
+    storage.updateTradeOffer.mockImplementation(async (id: number, updates: Partial<TradeOffer>) => ({ ...expired, id, ...updates }));
+
+    await expect(tradeService.expireOffers()).resolves.toBe(1);
+
+    expect(storage.postJournalEntry).toHaveBeenCalledTimes(1);
+    expect(storage.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'trade_release', reference: 'trade_offer:3' }),
+      [
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -600 },
+        { account: 'wallet', walletId: 11, program: 'QANTAS', amount: 600 }
+      ]
+    );
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { status: 'expired' });
+    expect(notify).toHaveBeenCalledWith(1, 'trade_expired', expect.any(String), expect.stringContaining('600 QANTAS points'));
+  });
+
+  it('flags offers about to expire and lets their owner extend them', async () => {
+    const now = new Date();
+    storage.getUserTradeOffers.mockResolvedValue([
+      offer({ id: 3, expiresAt: new Date(now.getTime() + 2 * HOUR_MS) }),
+      offer({ id: 4, expiresAt: new Date(now.getTime() + 72 * HOUR_MS) }),
+      offer({ id: 5, status: 'completed', expiresAt: new Date(now.getTime() + 2 * HOUR_MS) })
+    ]);
+
+    const offers = await tradeService.getUserOffers(1, now);
+    expect(offers.map(o => o.expiringSoon)).toEqual([true, false, false]);
+
+    const expiresAt = new Date(now.getTime() + 2 * HOUR_MS);
+    storage.lockTradeOffer.mockResolvedValue(offer({ expiresAt }));
+    await tradeService.extendOffer(1, 3, { days: 7 });
+    expect(storage.updateTradeOffer).toHaveBeenCalledWith(3, { expiresAt: new Date(expiresAt.getTime() + 7 * 24 * HOUR_MS) });
+
+    await expect(tradeService.extendOffer(2, 3, { days: 7 })).rejects.toMatchObject({ status: 403 });
+    await expect(tradeService.extendOffer(1, 3, { days: 30 })).rejects.toMatchObject({ code: 'EXTENSION_TOO_LONG' });
+    storage.lockTradeOffer.mockResolvedValue(offer({ expiresAt: new Date(now.getTime() - HOUR_MS) }));
+    await expect(tradeService.extendOffer(1, 3, { days: 7 })).rejects.toMatchObject({ code: 'TRADE_OFFER_EXPIRED' });
+  });
+});
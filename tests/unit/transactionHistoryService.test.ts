@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { queryUserTransactions } = vi.hoisted(() => ({ queryUserTransactions: vi.fn() }));
+vi.mock('../../server/storage', () => ({ storage: { queryUserTransactions } }));
+
+import {
+  decodeCursor,
+  encodeCursor,
+  toCsvRow,
+  transactionHistoryService
+} from '../../server/services/transactionHistoryService';
+import { transactionQuerySchema, type Transaction } from '../../shared/schema';
+
+const transaction = (id: number, amountFrom: number): Transaction => ({
+  id,
+  userId: 1,
+  fromProgram: 'QANTAS',
+  toProgram: 'XPOINTS',
+  amountFrom,
+  amountTo: amountFrom / 2,
+  timestamp: new Date('2026-10-18T00:00:00Z'),
+  feeApplied: 0,
+  status: 'settled',
+  statusUpdatedAt: new Date('2026-10-18T00:00:00Z'),
+  failureReason: null,
+  type: 'conversion',
+  recipientId: 1,
+  transactionHash: '',
+  blockNumber: 0,
+  contractAddress: '',
+  tokenAddress: '',
+  journalEntryId: null,
+  holdEntryId: null,
+  reversalOf: null
+});
+
+describe('transactionHistoryService', () => {
+  it('round-trips cursors and rejects ones issued for another sort', () => {
+    expect(decodeCursor('newest', encodeCursor('newest', transaction(7, 500)))).toEqual({ id: 7 });
+    expect(decodeCursor('largest', encodeCursor('largest', transaction(7, 500)))).toEqual({ id: 7, amountFrom: 500 });
+
+    expect(() => decodeCursor('largest', encodeCursor('newest', transaction(7, 500)))).toThrow(/Invalid cursor/);
+    expect(() => decodeCursor('newest', 'not-a-cursor')).toThrow(/Invalid cursor/);
+  });
+
+  it('fetches one extra row to decide whether there is a next page', async () => {
+    const query = transactionQuerySchema.parse({ limit: '2', sort: 'largest', minAmount: '100' });
+
+    queryUserTransactions.mockResolvedValueOnce([transaction(3, 900), transaction(1, 800), transaction(2, 700)]);
+    const page = await transactionHistoryService.getPage(1, query);
+
+    expect(queryUserTransactions).toHaveBeenLastCalledWith(1, { minAmount: 100 }, { sort: 'largest', after: undefined, limit: 3 });
+    expect(page.transactions.map(t => t.id)).toEqual([3, 1]);
+    expect(decodeCursor('largest', page.nextCursor!)).toEqual({ id: 1, amountFrom: 800 });
+
+    queryUserTransactions.mockResolvedValueOnce([transaction(2, 700)]);
+    const last = await transactionHistoryService.getPage(1, { ...query, cursor: page.nextCursor! });
+
+    expect(queryUserTransactions).toHaveBeenLastCalledWith(1, { minAmount: 100 }, { sort: 'largest', after: { id: 1, amountFrom: 800 }, limit: 3 });
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('writes exact amounts and quotes CSV fields that need it', () => {
+    const row = toCsvRow({ ...transaction(5, 1000.5), status: 'failed', failureReason: 'Rejected, "account closed"' });
+    expect(row).toBe('5,2026-10-18T00:00:00.000Z,conversion,failed,QANTAS,1000.50,XPOINTS,500.25,0.00,,2026-10-18T00:00:00.000Z,"Rejected, ""account closed""",\r\n');
+  });
+});
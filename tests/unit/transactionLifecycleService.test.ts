@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { tx } = vi.hoisted(() => ({
+  tx: {
+    lockTransaction: vi.fn(),
+    getWallet: vi.fn(),
+    createWallet: vi.fn(),
+    postJournalEntry: vi.fn(),
+    transitionTransaction: vi.fn()
+  }
+}));
+vi.mock('../../server/storage', () => ({
+  storage: { withTransaction: (fn: (storage: typeof tx) => Promise<unknown>) => fn(tx) }
+}));
+vi.mock('../../server/vite', () => ({ log: vi.fn() }));
+
+import { transactionLifecycleService } from '../../server/services/transactionLifecycleService';
+import { canTransition, type Transaction } from '../../shared/schema';
+
+const transfer = (overrides: Partial<Transaction> = {}) => ({
+  id: 9, userId: 1, fromProgram: 'QANTAS', toProgram: 'XPOINTS', amountFrom: 1000, amountTo: 495,
+  feeApplied: 10, status: 'submitted', holdEntryId: 40, journalEntryId: null, ...overrides
+} as Transaction);
+
+describe('transactionLifecycleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.getWallet.mockResolvedValue({ id: 3 });
+    tx.postJournalEntry.mockResolvedValue({ entry: { id: 41 } });
+    tx.transitionTransaction.mockImplementation(async (id: number, status: string) => transfer({ status: status as Transaction['status'] }));
+  });
+
+  it('only allows the lifecycle transitions', () => {
+    expect(canTransition('pending', 'submitted')).toBe(true);
+    expect(canTransition('settled', 'reversed')).toBe(true);
+    expect(canTransition('pending', 'settled')).toBe(false);
+    expect(canTransition('failed', 'pending')).toBe(false);
+  });
+
+  it('hands the held points back when a transfer fails', async () => {
+    tx.lockTransaction.mockResolvedValue(transfer());
+
+    await transactionLifecycleService.transition(9, 'failed', 'Partner rejected the transfer');
+
+    expect(tx.postJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'transfer_release', reference: 'transaction:9' }),
+      [
+        { account: 'escrow', walletId: null, program: 'QANTAS', amount: -1000 },
+        { account: 'wallet', walletId: 3, program: 'QANTAS', amount: 1000 }
+      ]
+    );
+    expect(tx.transitionTransaction).toHaveBeenCalledWith(9, 'failed', { reason: 'Partner rejected the transfer' });
+  });
+
+  it('refuses a transition the lifecycle does not allow', async () => {
+    tx.lockTransaction.mockResolvedValue(transfer({ status: 'settled' }));
+
+    await expect(transactionLifecycleService.transition(9, 'failed')).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    expect(tx.postJournalEntry).not.toHaveBeenCalled();
+  });
+});